@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { UserRole } from '@prisma/client'
+
+vi.mock('@/lib/api/tokens', () => ({
+  verifyApiToken: vi.fn()
+}))
+
+vi.mock('next-auth/jwt', () => ({
+  getToken: vi.fn()
+}))
+
+vi.mock('@/lib/env-utils', () => ({
+  getNextAuthSecret: () => 'test-secret'
+}))
+
+// Import functions after mocks
+import { verifyApiToken } from '@/lib/api/tokens'
+import { getToken } from 'next-auth/jwt'
+import { resolveRealtimePrincipal, resolveRealtimeTenant } from '@/lib/socket-server/auth'
+
+const mockVerify = verifyApiToken as any
+const mockGetToken = getToken as any
+
+describe('resolveRealtimePrincipal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should accept a mobile access token', async () => {
+    mockVerify.mockResolvedValue({ sub: 'user1', roles: [UserRole.MEMBER], tenantId: 'church1' })
+
+    const principal = await resolveRealtimePrincipal({ token: 'a.b.c', headers: new Headers() })
+
+    expect(mockVerify).toHaveBeenCalledWith('a.b.c', 'access')
+    expect(principal).toMatchObject({ id: 'user1', role: UserRole.MEMBER, tenantId: 'church1' })
+  })
+
+  it('should reject an invalid access token without falling back to cookies', async () => {
+    mockVerify.mockRejectedValue(new Error('expired'))
+
+    const principal = await resolveRealtimePrincipal({
+      token: 'a.b.c',
+      headers: new Headers({ cookie: 'authjs.session-token=x' })
+    })
+
+    expect(principal).toBeNull()
+    expect(mockGetToken).not.toHaveBeenCalled()
+  })
+
+  it('should read the session cookie for web clients', async () => {
+    mockGetToken.mockResolvedValue({ id: 'user2', role: UserRole.ADMIN, tenantId: 'church2' })
+
+    const principal = await resolveRealtimePrincipal({
+      headers: new Headers({ cookie: '__Secure-authjs.session-token=x' })
+    })
+
+    expect(mockGetToken).toHaveBeenCalledWith(expect.objectContaining({ secureCookie: true }))
+    expect(principal).toEqual({ id: 'user2', role: UserRole.ADMIN, tenantId: 'church2' })
+  })
+
+  it('should return null without credentials', async () => {
+    expect(await resolveRealtimePrincipal({ headers: new Headers() })).toBeNull()
+  })
+})
+
+describe('resolveRealtimeTenant', () => {
+  it('should pin members to their own church', () => {
+    const member = { role: UserRole.MEMBER, tenantId: 'church1' }
+
+    expect(resolveRealtimeTenant(member)).toBe('church1')
+    expect(resolveRealtimeTenant(member, 'church1')).toBe('church1')
+    expect(resolveRealtimeTenant(member, 'church2')).toBeNull()
+  })
+
+  it('should let super admins choose a church', () => {
+    const superAdmin = { role: UserRole.SUPER_ADMIN, tenantId: null }
+
+    expect(resolveRealtimeTenant(superAdmin, 'church2')).toBe('church2')
+    expect(resolveRealtimeTenant(superAdmin)).toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest'
+import { publishRealtimeEvent, subscribeToRealtimeEvents } from '@/lib/socket-server/bus'
+
+describe('realtime bus', () => {
+  it('should deliver envelopes to subscribers until they unsubscribe', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeToRealtimeEvents(listener)
+
+    publishRealtimeEvent('member.updated', 'church1', { id: 'user1' })
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'member.updated',
+      tenantId: 'church1',
+      data: { id: 'user1' },
+      eventId: expect.any(String)
+    }))
+
+    unsubscribe()
+    publishRealtimeEvent('member.updated', 'church1', { id: 'user2' })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep delivering when one subscriber fails', () => {
+    const listener = vi.fn()
+    const unsubscribeBroken = subscribeToRealtimeEvents(() => {
+      throw new Error('socket closed')
+    })
+    const unsubscribe = subscribeToRealtimeEvents(listener)
+
+    expect(() => publishRealtimeEvent('member.updated', null, { id: 'user1' })).not.toThrow()
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    unsubscribeBroken()
+    unsubscribe()
+  })
+})
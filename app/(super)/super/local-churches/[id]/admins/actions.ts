@@ -6,8 +6,7 @@ import { prisma } from '@/lib/prisma'
 import { UserRole } from '@prisma/client'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
-import { generateTemporaryPassword } from '@/lib/password-generator'
-import bcrypt from 'bcryptjs'
+import { sendInvitation, revokeInvitation } from '@/lib/invitations'
 
 const inviteAdminSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -15,9 +14,16 @@ const inviteAdminSchema = z.object({
   role: z.enum([UserRole.PASTOR, UserRole.ADMIN]),
 })
 
+export interface AdminInvitationResult {
+  email: string
+  emailSent: boolean
+  inviteUrl?: string
+  expiresAt: Date
+}
+
 export async function inviteAdmin(localChurchId: string, formData: FormData): Promise<{
   success: boolean
-  credentials?: { email: string; password: string }
+  invitation?: AdminInvitationResult
   error?: string
 }> {
   const session = await auth()
@@ -57,40 +63,26 @@ export async function inviteAdmin(localChurchId: string, formData: FormData): Pr
     where: { email: validated.email },
   })
 
-  let generatedPassword: string | null = null
-
   if (!user) {
-    // Generate temporary password
-    generatedPassword = generateTemporaryPassword()
-    const hashedPassword = await bcrypt.hash(generatedPassword, 12)
-
-    // Create user with password and mustChangePassword flag
+    // The account stays without a password until the invitation is accepted
     user = await prisma.user.create({
       data: {
         email: validated.email,
         name: validated.name,
         role: validated.role,
         tenantId: localChurch.church.id,
-        passwordHash: hashedPassword,
-        mustChangePassword: true, // Force password change on first login
+        mustChangePassword: false,
+      },
+    })
+  } else if (!user.passwordHash) {
+    // Existing account that was never set up; invite it with the new role
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        role: validated.role, // Update role if needed
+        tenantId: localChurch.church.id, // Update tenant if needed
       },
     })
-  } else {
-    // If user exists but needs password reset, generate new password
-    if (!user.passwordHash) {
-      generatedPassword = generateTemporaryPassword()
-      const hashedPassword = await bcrypt.hash(generatedPassword, 12)
-      
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          passwordHash: hashedPassword,
-          mustChangePassword: true,
-          role: validated.role, // Update role if needed
-          tenantId: localChurch.church.id, // Update tenant if needed
-        },
-      })
-    }
   }
 
   // Check if membership already exists
@@ -122,6 +114,17 @@ export async function inviteAdmin(localChurchId: string, formData: FormData): Pr
     }
   }
 
+  const invitation = user.passwordHash
+    ? null
+    : await sendInvitation({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      localChurchId,
+      role: validated.role,
+      invitedBy: { id: actor.id, name: actor.name },
+    })
+
   // Create audit log
   await prisma.auditLog.create({
     data: {
@@ -134,7 +137,7 @@ export async function inviteAdmin(localChurchId: string, formData: FormData): Pr
         email: validated.email,
         role: validated.role,
         localChurchId: localChurchId,
-        passwordGenerated: generatedPassword ? true : false,
+        invitationSent: !!invitation,
       },
     },
   })
@@ -142,13 +145,14 @@ export async function inviteAdmin(localChurchId: string, formData: FormData): Pr
   revalidatePath(`/super/local-churches/${localChurchId}/admins`)
   revalidatePath('/super/local-churches')
 
-  // Return credentials if password was generated
-  if (generatedPassword) {
+  if (invitation) {
     return {
       success: true,
-      credentials: {
+      invitation: {
         email: validated.email,
-        password: generatedPassword,
+        emailSent: invitation.emailSent,
+        inviteUrl: invitation.emailSent ? undefined : invitation.inviteUrl,
+        expiresAt: invitation.expiresAt,
       },
     }
   }
@@ -156,6 +160,115 @@ export async function inviteAdmin(localChurchId: string, formData: FormData): Pr
   return { success: true }
 }
 
+export async function resendAdminInvitation(formData: FormData): Promise<{
+  success: boolean
+  invitation?: AdminInvitationResult
+  error?: string
+}> {
+  const session = await auth()
+  
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  const actor = await prisma.user.findUnique({
+    where: { email: session.user.email! },
+  })
+
+  if (!actor || actor.role !== UserRole.SUPER_ADMIN) {
+    redirect('/forbidden')
+  }
+
+  const membershipId = formData.get('membershipId') as string
+
+  const membership = await prisma.membership.findUnique({
+    where: { id: membershipId },
+    include: { user: true },
+  })
+
+  if (!membership) {
+    throw new Error('Membership not found')
+  }
+
+  if (membership.user.passwordHash) {
+    return { success: false, error: 'This administrator has already set up their account' }
+  }
+
+  const invitation = await sendInvitation({
+    userId: membership.userId,
+    email: membership.user.email,
+    name: membership.user.name,
+    localChurchId: membership.localChurchId,
+    role: membership.role,
+    invitedBy: { id: actor.id, name: actor.name },
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: actor.id,
+      action: 'INVITATION_SENT',
+      entity: 'User',
+      entityId: membership.userId,
+      localChurchId: membership.localChurchId,
+      meta: { email: membership.user.email, role: membership.role, emailSent: invitation.emailSent, resent: true },
+    },
+  })
+
+  revalidatePath(`/super/local-churches/${membership.localChurchId}/admins`)
+
+  return {
+    success: true,
+    invitation: {
+      email: membership.user.email,
+      emailSent: invitation.emailSent,
+      inviteUrl: invitation.emailSent ? undefined : invitation.inviteUrl,
+      expiresAt: invitation.expiresAt,
+    },
+  }
+}
+
+export async function revokeAdminInvitation(formData: FormData) {
+  const session = await auth()
+  
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  const actor = await prisma.user.findUnique({
+    where: { email: session.user.email! },
+  })
+
+  if (!actor || actor.role !== UserRole.SUPER_ADMIN) {
+    redirect('/forbidden')
+  }
+
+  const membershipId = formData.get('membershipId') as string
+
+  const membership = await prisma.membership.findUnique({
+    where: { id: membershipId },
+    include: { user: true },
+  })
+
+  if (!membership) {
+    throw new Error('Membership not found')
+  }
+
+  if (await revokeInvitation(membership.userId)) {
+    await prisma.auditLog.create({
+      data: {
+        actorId: actor.id,
+        action: 'INVITATION_REVOKED',
+        entity: 'User',
+        entityId: membership.userId,
+        localChurchId: membership.localChurchId,
+        meta: { email: membership.user.email },
+      },
+    })
+  }
+
+  revalidatePath(`/super/local-churches/${membership.localChurchId}/admins`)
+}
+
 export async function removeAdmin(formData: FormData) {
   const session = await auth()
   
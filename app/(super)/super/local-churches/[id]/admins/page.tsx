@@ -34,7 +34,15 @@ export default async function ManageAdminsPage({ params }: { params: Promise<{ i
           role: { in: [UserRole.PASTOR, UserRole.ADMIN] },
         },
         include: {
-          user: true,
+          user: {
+            include: {
+              invitations: {
+                select: { status: true, expiresAt: true },
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+              },
+            },
+          },
         },
       },
     },
@@ -6,8 +6,18 @@ import { redirect } from 'next/navigation'
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
 import { apiLogger } from '@/lib/logger'
-import { UserRole, AnnouncementScope, AnnouncementPriority } from '@prisma/client'
+import { UserRole, AnnouncementScope, AnnouncementPriority, EventScope } from '@prisma/client'
 import { getAccessibleChurchIds } from '@/lib/rbac'
+import {
+  AUDIENCE_TYPE_LABELS,
+  announcementAudienceSchema,
+  buildAnnouncementRecipientWhere,
+  buildSegmentUserWhere,
+  buildTargetedAnnouncementWhere,
+  normalizeAudienceSegments,
+  type AnnouncementAudienceSegment
+} from '@/lib/announcements/targeting'
+import { announceIfLive } from '@/lib/announcements/scheduler'
 
 const announcementSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
@@ -17,9 +27,78 @@ const announcementSchema = z.object({
   priority: z.nativeEnum(AnnouncementPriority),
   publishedAt: z.string().optional().nullable(),
   expiresAt: z.string().optional().nullable(),
-  isActive: z.boolean().default(true)
+  isActive: z.boolean().default(true),
+  audiences: z.array(announcementAudienceSchema).max(50, 'Too many audience segments').default([])
 })
 
+const audiencePreviewSchema = z.object({
+  localChurchId: z.string().min(1, 'Church is required'),
+  scope: z.nativeEnum(AnnouncementScope),
+  audiences: z.array(announcementAudienceSchema).max(50, 'Too many audience segments')
+})
+
+const audienceInclude = {
+  lifeGroup: { select: { name: true } },
+  pathway: { select: { name: true } },
+  event: { select: { name: true } },
+  user: { select: { name: true, email: true } }
+}
+
+/** Audience segments travel through the form as a JSON-encoded hidden field */
+function readAudiences(formData: FormData): unknown {
+  const raw = formData.get('audiences') as string | null
+  if (!raw) {
+    return []
+  }
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Whether every segment points at a LifeGroup, pathway, event or member of
+ * the announcement's church. Whole-church events count for every church.
+ */
+async function audienceTargetsBelongToChurch(localChurchId: string, segments: AnnouncementAudienceSegment[]) {
+  const ids = (field: 'lifeGroupId' | 'pathwayId' | 'eventId' | 'userId') =>
+    Array.from(new Set(segments.flatMap(segment => segment[field] ? [segment[field]!] : [])))
+
+  const lifeGroupIds = ids('lifeGroupId')
+  const pathwayIds = ids('pathwayId')
+  const eventIds = ids('eventId')
+  const userIds = ids('userId')
+
+  const [lifeGroups, pathways, events, members] = await Promise.all([
+    lifeGroupIds.length ? prisma.lifeGroup.count({ where: { id: { in: lifeGroupIds }, localChurchId } }) : 0,
+    pathwayIds.length ? prisma.pathway.count({ where: { id: { in: pathwayIds }, tenantId: localChurchId } }) : 0,
+    eventIds.length
+      ? prisma.event.count({
+        where: { id: { in: eventIds }, OR: [{ localChurchId }, { scope: EventScope.WHOLE_CHURCH }] }
+      })
+      : 0,
+    userIds.length ? prisma.membership.count({ where: { userId: { in: userIds }, localChurchId, leftAt: null } }) : 0
+  ])
+
+  return lifeGroups === lifeGroupIds.length &&
+    pathways === pathwayIds.length &&
+    events === eventIds.length &&
+    members === userIds.length
+}
+
+function describeAudienceSegment(segment: {
+  type: keyof typeof AUDIENCE_TYPE_LABELS
+  lifeGroup?: { name: string } | null
+  pathway?: { name: string } | null
+  event?: { name: string } | null
+  user?: { name: string | null; email: string } | null
+}) {
+  const target = segment.lifeGroup?.name ?? segment.pathway?.name ?? segment.event?.name ??
+    (segment.user ? segment.user.name || segment.user.email : null)
+  return target ? `${AUDIENCE_TYPE_LABELS[segment.type]}: ${target}` : AUDIENCE_TYPE_LABELS[segment.type]
+}
+
 export async function listAnnouncements(cursor?: string) {
   const session = await auth()
   if (!session?.user) {
@@ -46,6 +125,10 @@ export async function listAnnouncements(cursor?: string) {
         },
         localChurch: {
           select: { name: true }
+        },
+        audiences: {
+          include: audienceInclude,
+          orderBy: { createdAt: 'asc' }
         }
       },
       orderBy: [
@@ -76,6 +159,53 @@ export async function listAnnouncements(cursor?: string) {
   }
 }
 
+/**
+ * Announcements with a publish or expiry date still ahead, for the schedule
+ * calendar on the admin list.
+ */
+export async function listScheduledAnnouncements() {
+  const session = await auth()
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(session.user.role as UserRole)) {
+    redirect('/dashboard')
+  }
+
+  try {
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    const now = new Date()
+
+    const announcements = await prisma.announcement.findMany({
+      where: {
+        localChurchId: { in: accessibleChurchIds },
+        isActive: true,
+        OR: [
+          { publishedAt: { gt: now } },
+          { expiresAt: { gt: now } }
+        ]
+      },
+      select: {
+        id: true,
+        title: true,
+        priority: true,
+        scope: true,
+        publishedAt: true,
+        expiresAt: true,
+        notifiedAt: true
+      },
+      orderBy: { publishedAt: 'asc' },
+      take: 200
+    })
+
+    return { success: true, data: announcements }
+  } catch (error) {
+    apiLogger.error('Failed to list scheduled announcements', { error, userId: session.user.id })
+    return { success: false, error: 'Failed to load scheduled announcements' }
+  }
+}
+
 export async function getLocalChurches() {
   const session = await auth()
   if (!session?.user) {
@@ -100,6 +230,105 @@ export async function getLocalChurches() {
   }
 }
 
+/**
+ * LifeGroups, pathways, upcoming events and members an announcement in this
+ * church can be targeted at.
+ */
+export async function getAnnouncementAudienceOptions(localChurchId: string) {
+  const session = await auth()
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(session.user.role as UserRole)) {
+    redirect('/dashboard')
+  }
+
+  try {
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    if (!accessibleChurchIds.includes(localChurchId)) {
+      return { success: false, error: 'Access denied' }
+    }
+
+    const [lifeGroups, pathways, events, memberships] = await Promise.all([
+      prisma.lifeGroup.findMany({
+        where: { localChurchId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' }
+      }),
+      prisma.pathway.findMany({
+        where: { tenantId: localChurchId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' }
+      }),
+      prisma.event.findMany({
+        where: {
+          isActive: true,
+          endDateTime: { gte: new Date() },
+          OR: [{ localChurchId }, { scope: EventScope.WHOLE_CHURCH }]
+        },
+        select: { id: true, name: true, startDateTime: true },
+        orderBy: { startDateTime: 'asc' }
+      }),
+      prisma.membership.findMany({
+        where: { localChurchId, leftAt: null },
+        select: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { user: { name: 'asc' } }
+      })
+    ])
+
+    return {
+      success: true,
+      data: {
+        lifeGroups,
+        pathways,
+        events,
+        members: memberships.map(membership => membership.user)
+      }
+    }
+  } catch (error) {
+    apiLogger.error('Failed to load announcement audience options', { error, userId: session.user.id })
+    return { success: false, error: 'Failed to load audience options' }
+  }
+}
+
+/** How many members an announcement with this scope and audience would reach */
+export async function previewAnnouncementAudience(input: z.input<typeof audiencePreviewSchema>) {
+  const session = await auth()
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(session.user.role as UserRole)) {
+    redirect('/dashboard')
+  }
+
+  try {
+    const validated = audiencePreviewSchema.parse(input)
+
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    if (!accessibleChurchIds.includes(validated.localChurchId)) {
+      return { success: false, error: 'Access denied' }
+    }
+
+    const count = await prisma.membership.count({
+      where: buildAnnouncementRecipientWhere({
+        localChurchId: validated.localChurchId,
+        scope: validated.scope,
+        audiences: normalizeAudienceSegments(validated.audiences)
+      })
+    })
+
+    return { success: true, data: { count } }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    apiLogger.error('Failed to preview announcement audience', { error, userId: session.user.id })
+    return { success: false, error: 'Failed to preview audience' }
+  }
+}
+
 export async function createAnnouncement(formData: FormData) {
   const session = await auth()
   if (!session?.user) {
@@ -118,7 +347,8 @@ export async function createAnnouncement(formData: FormData) {
     priority: formData.get('priority') as AnnouncementPriority,
     publishedAt: formData.get('publishedAt') as string || null,
     expiresAt: formData.get('expiresAt') as string || null,
-    isActive: formData.get('isActive') === 'true'
+    isActive: formData.get('isActive') === 'true',
+    audiences: readAudiences(formData)
   }
 
   try {
@@ -130,6 +360,11 @@ export async function createAnnouncement(formData: FormData) {
       redirect('/admin/announcements?error=access_denied')
     }
 
+    const audiences = normalizeAudienceSegments(validated.audiences)
+    if (!(await audienceTargetsBelongToChurch(validated.localChurchId, audiences))) {
+      redirect('/admin/announcements?error=access_denied')
+    }
+
     const announcement = await prisma.announcement.create({
       data: {
         title: validated.title,
@@ -140,7 +375,8 @@ export async function createAnnouncement(formData: FormData) {
         priority: validated.priority,
         publishedAt: validated.publishedAt ? new Date(validated.publishedAt) : null,
         expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
-        isActive: validated.isActive
+        isActive: validated.isActive,
+        audiences: { create: audiences }
       }
     })
 
@@ -150,6 +386,26 @@ export async function createAnnouncement(formData: FormData) {
       title: announcement.title
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'ANNOUNCEMENT_CREATED',
+        entity: 'Announcement',
+        entityId: announcement.id,
+        localChurchId: announcement.localChurchId,
+        meta: {
+          title: announcement.title,
+          scope: announcement.scope,
+          priority: announcement.priority,
+          publishedAt: announcement.publishedAt?.toISOString() ?? null,
+          audiences
+        }
+      }
+    })
+
+    // Scheduled announcements go out from the scheduler job when they go live
+    await announceIfLive(announcement)
+
     revalidatePath('/admin/announcements')
     revalidatePath('/announcements')
     redirect('/admin/announcements')
@@ -182,7 +438,8 @@ export async function updateAnnouncement(id: string, formData: FormData) {
     priority: formData.get('priority') as AnnouncementPriority,
     publishedAt: formData.get('publishedAt') as string || null,
     expiresAt: formData.get('expiresAt') as string || null,
-    isActive: formData.get('isActive') === 'true'
+    isActive: formData.get('isActive') === 'true',
+    audiences: readAudiences(formData)
   }
 
   try {
@@ -197,6 +454,11 @@ export async function updateAnnouncement(id: string, formData: FormData) {
         localChurch: {
           id: { in: accessibleChurchIds }
         }
+      },
+      include: {
+        audiences: {
+          select: { type: true, lifeGroupId: true, pathwayId: true, eventId: true, userId: true }
+        }
       }
     })
 
@@ -209,6 +471,15 @@ export async function updateAnnouncement(id: string, formData: FormData) {
       redirect('/admin/announcements?error=access_denied')
     }
 
+    const audiences = normalizeAudienceSegments(validated.audiences)
+    if (!(await audienceTargetsBelongToChurch(validated.localChurchId, audiences))) {
+      redirect('/admin/announcements?error=access_denied')
+    }
+
+    const expiresAt = validated.expiresAt ? new Date(validated.expiresAt) : null
+    // Reactivating an archived announcement with a new expiry takes it out of the archive
+    const restored = validated.isActive && (!expiresAt || expiresAt >= new Date())
+
     const announcement = await prisma.announcement.update({
       where: { id },
       data: {
@@ -218,8 +489,10 @@ export async function updateAnnouncement(id: string, formData: FormData) {
         scope: validated.scope,
         priority: validated.priority,
         publishedAt: validated.publishedAt ? new Date(validated.publishedAt) : null,
-        expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
-        isActive: validated.isActive
+        expiresAt,
+        isActive: validated.isActive,
+        archivedAt: restored ? null : existingAnnouncement.archivedAt,
+        audiences: { deleteMany: {}, create: audiences }
       }
     })
 
@@ -229,6 +502,39 @@ export async function updateAnnouncement(id: string, formData: FormData) {
       title: announcement.title
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'ANNOUNCEMENT_UPDATED',
+        entity: 'Announcement',
+        entityId: announcement.id,
+        localChurchId: announcement.localChurchId,
+        meta: {
+          before: {
+            title: existingAnnouncement.title,
+            scope: existingAnnouncement.scope,
+            priority: existingAnnouncement.priority,
+            publishedAt: existingAnnouncement.publishedAt?.toISOString() ?? null,
+            expiresAt: existingAnnouncement.expiresAt?.toISOString() ?? null,
+            isActive: existingAnnouncement.isActive,
+            audiences: normalizeAudienceSegments(existingAnnouncement.audiences)
+          },
+          after: {
+            title: announcement.title,
+            scope: announcement.scope,
+            priority: announcement.priority,
+            publishedAt: announcement.publishedAt?.toISOString() ?? null,
+            expiresAt: announcement.expiresAt?.toISOString() ?? null,
+            isActive: announcement.isActive,
+            audiences
+          }
+        }
+      }
+    })
+
+    // Only the first time an announcement goes live; edits to an announced one stay quiet
+    await announceIfLive(announcement)
+
     revalidatePath('/admin/announcements')
     revalidatePath('/announcements')
     redirect('/admin/announcements')
@@ -279,6 +585,17 @@ export async function deleteAnnouncement(id: string) {
       userId: session.user.id
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'ANNOUNCEMENT_DELETED',
+        entity: 'Announcement',
+        entityId: id,
+        localChurchId: existingAnnouncement.localChurchId,
+        meta: { title: existingAnnouncement.title }
+      }
+    })
+
     revalidatePath('/admin/announcements')
     revalidatePath('/announcements')
     redirect('/admin/announcements')
@@ -303,63 +620,7 @@ export async function getTargetedAnnouncements(userId?: string) {
 
     // Get announcements targeted to user's role and church with read status
     const announcements = await prisma.announcement.findMany({
-      where: {
-        localChurch: {
-          id: { in: accessibleChurchIds }
-        },
-        isActive: true,
-        publishedAt: {
-          lte: new Date()
-        },
-        AND: [
-          {
-            OR: [
-              { expiresAt: null },
-              { expiresAt: { gte: new Date() } }
-            ]
-          },
-          {
-            // Target by scope (role-based targeting)
-            OR: [
-              { scope: 'MEMBERS' }, // Everyone can see MEMBERS scope
-              { 
-                AND: [
-                  { scope: 'LEADERS' },
-                  { 
-                    localChurch: {
-                      memberships: {
-                        some: {
-                          userId: targetUserId,
-                          user: {
-                            role: { in: ['LEADER', 'VIP', 'ADMIN', 'PASTOR', 'SUPER_ADMIN'] }
-                          }
-                        }
-                      }
-                    }
-                  }
-                ]
-              },
-              {
-                AND: [
-                  { scope: 'ADMINS' },
-                  {
-                    localChurch: {
-                      memberships: {
-                        some: {
-                          userId: targetUserId,
-                          user: {
-                            role: { in: ['ADMIN', 'PASTOR', 'SUPER_ADMIN'] }
-                          }
-                        }
-                      }
-                    }
-                  }
-                ]
-              }
-            ]
-          }
-        ]
-      },
+      where: buildTargetedAnnouncementWhere({ userId: targetUserId, churchIds: accessibleChurchIds }),
       include: {
         author: {
           select: { name: true, role: true }
@@ -479,6 +740,10 @@ export async function getAnnouncementReadStats(announcementId: string) {
             }
           },
           orderBy: { readAt: 'desc' }
+        },
+        audiences: {
+          include: audienceInclude,
+          orderBy: { createdAt: 'asc' }
         }
       }
     })
@@ -487,38 +752,42 @@ export async function getAnnouncementReadStats(announcementId: string) {
       return { success: false, error: 'Announcement not found' }
     }
 
-    // Calculate target audience size based on scope
-    let targetAudienceCount = 0
-    
-    if (announcement.scope === 'ADMINS') {
-      targetAudienceCount = await prisma.membership.count({
-        where: {
-          localChurchId: { in: accessibleChurchIds },
-          leftAt: null, // Active memberships only
-          user: { 
-            role: { in: ['ADMIN', 'PASTOR', 'SUPER_ADMIN'] as UserRole[] }
-          }
-        }
-      })
-    } else if (announcement.scope === 'LEADERS') {
-      targetAudienceCount = await prisma.membership.count({
-        where: {
-          localChurchId: { in: accessibleChurchIds },
-          leftAt: null, // Active memberships only
-          user: { 
-            role: { in: ['LEADER', 'VIP', 'ADMIN', 'PASTOR', 'SUPER_ADMIN'] as UserRole[] }
-          }
-        }
-      })
-    } else {
-      // MEMBERS scope includes everyone
-      targetAudienceCount = await prisma.membership.count({
-        where: {
-          localChurchId: { in: accessibleChurchIds },
-          leftAt: null // Active memberships only
+    const audiences = normalizeAudienceSegments(announcement.audiences)
+    const recipientWhere = buildAnnouncementRecipientWhere({
+      localChurchId: announcement.localChurchId,
+      scope: announcement.scope,
+      audiences
+    })
+
+    const targetAudienceCount = await prisma.membership.count({ where: recipientWhere })
+
+    // One row per audience segment; announcements without segments report their scope as a whole
+    const segments = announcement.audiences.length > 0
+      ? await Promise.all(announcement.audiences.map(async (segment) => {
+        const segmentUserWhere = buildSegmentUserWhere(segment)
+        const [audienceCount, readCount] = await Promise.all([
+          prisma.membership.count({ where: { AND: [recipientWhere, { user: segmentUserWhere }] } }),
+          prisma.announcementRead.count({
+            where: { announcementId, user: { AND: [segmentUserWhere, { memberships: { some: recipientWhere } }] } }
+          })
+        ])
+        return {
+          id: segment.id,
+          type: segment.type,
+          label: describeAudienceSegment(segment),
+          audienceCount,
+          readCount,
+          readPercentage: audienceCount > 0 ? Math.round((readCount / audienceCount) * 100) : 0
         }
-      })
-    }
+      }))
+      : [{
+        id: 'scope',
+        type: null,
+        label: `Everyone in scope (${announcement.scope})`,
+        audienceCount: targetAudienceCount,
+        readCount: announcement.reads.length,
+        readPercentage: targetAudienceCount > 0 ? Math.round((announcement.reads.length / targetAudienceCount) * 100) : 0
+      }]
 
     return {
       success: true,
@@ -533,6 +802,7 @@ export async function getAnnouncementReadStats(announcementId: string) {
           readCount: announcement.reads.length,
           readPercentage: targetAudienceCount > 0 ? Math.round((announcement.reads.length / targetAudienceCount) * 100) : 0
         },
+        segments,
         readers: announcement.reads
       }
     }
@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Users, X } from 'lucide-react'
+import type { AnnouncementAudienceType, AnnouncementScope } from '@prisma/client'
+import { AUDIENCE_TYPE_LABELS } from '@/lib/announcements/targeting'
+import { getAnnouncementAudienceOptions, previewAnnouncementAudience } from './actions'
+
+export interface AudienceSegmentValue {
+  type: AnnouncementAudienceType
+  lifeGroupId?: string | null
+  pathwayId?: string | null
+  eventId?: string | null
+  userId?: string | null
+  label: string
+}
+
+interface AudienceOptions {
+  lifeGroups: { id: string; name: string }[]
+  pathways: { id: string; name: string }[]
+  events: { id: string; name: string; startDateTime: Date }[]
+  members: { id: string; name: string | null; email: string }[]
+}
+
+const TARGET_FIELD = {
+  LIFEGROUP: 'lifeGroupId',
+  PATHWAY: 'pathwayId',
+  FIRST_TIMERS: null,
+  EVENT: 'eventId',
+  MEMBER: 'userId'
+} as const
+
+const PREVIEW_DELAY_MS = 400
+
+function toAudienceInput(segments: AudienceSegmentValue[]) {
+  return segments.map(({ type, lifeGroupId, pathwayId, eventId, userId }) => ({ type, lifeGroupId, pathwayId, eventId, userId }))
+}
+
+function segmentKey(segment: AudienceSegmentValue) {
+  const field = TARGET_FIELD[segment.type]
+  return `${segment.type}:${field ? segment[field] : ''}`
+}
+
+/**
+ * Narrows an announcement to LifeGroups, pathway enrollees, first-timers,
+ * event registrants or hand-picked members, and shows how many members the
+ * scope and segments reach together. Segments are submitted with the form as
+ * the JSON-encoded `audiences` field.
+ */
+export function AnnouncementAudiencePicker({
+  localChurchId,
+  scope,
+  initialSegments
+}: {
+  localChurchId: string
+  scope: AnnouncementScope
+  initialSegments: AudienceSegmentValue[]
+}) {
+  const [segments, setSegments] = useState(initialSegments)
+  const [options, setOptions] = useState<AudienceOptions | null>(null)
+  const [type, setType] = useState<AnnouncementAudienceType>('LIFEGROUP')
+  const [targetId, setTargetId] = useState('')
+  const [memberSearch, setMemberSearch] = useState('')
+  const [reach, setReach] = useState<number | null>(null)
+
+  useEffect(() => {
+    setOptions(null)
+    if (!localChurchId) return
+
+    let cancelled = false
+    getAnnouncementAudienceOptions(localChurchId).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setOptions(result.data)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [localChurchId])
+
+  useEffect(() => {
+    setReach(null)
+    if (!localChurchId) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      previewAnnouncementAudience({
+        localChurchId,
+        scope,
+        audiences: toAudienceInput(segments)
+      }).then((result) => {
+        if (!cancelled && result.success && result.data) {
+          setReach(result.data.count)
+        }
+      })
+    }, PREVIEW_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [localChurchId, scope, segments])
+
+  const targets = useMemo(() => {
+    if (!options) return []
+    switch (type) {
+      case 'LIFEGROUP':
+        return options.lifeGroups.map(group => ({ id: group.id, name: group.name }))
+      case 'PATHWAY':
+        return options.pathways.map(pathway => ({ id: pathway.id, name: pathway.name }))
+      case 'EVENT':
+        return options.events.map(event => ({
+          id: event.id,
+          name: `${event.name} (${new Date(event.startDateTime).toLocaleDateString()})`
+        }))
+      case 'MEMBER': {
+        const search = memberSearch.toLowerCase()
+        return options.members
+          .filter(member => !search ||
+            member.name?.toLowerCase().includes(search) ||
+            member.email.toLowerCase().includes(search))
+          .slice(0, 50)
+          .map(member => ({ id: member.id, name: member.name || member.email }))
+      }
+      default:
+        return []
+    }
+  }, [options, type, memberSearch])
+
+  const field = TARGET_FIELD[type]
+  const target = targets.find(option => option.id === targetId)
+
+  const addSegment = () => {
+    if (field && !target) return
+
+    const segment: AudienceSegmentValue = {
+      type,
+      ...(field && target ? { [field]: target.id } : {}),
+      label: target ? `${AUDIENCE_TYPE_LABELS[type]}: ${target.name}` : AUDIENCE_TYPE_LABELS[type]
+    }
+    if (!segments.some(existing => segmentKey(existing) === segmentKey(segment))) {
+      setSegments([...segments, segment])
+    }
+    setTargetId('')
+    setMemberSearch('')
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <input
+        type="hidden"
+        name="audiences"
+        value={JSON.stringify(toAudienceInput(segments))}
+      />
+
+      <div className="flex items-center justify-between">
+        <Label>Audience (Optional)</Label>
+        <span className="flex items-center gap-1 text-sm text-ink-muted" data-testid="audience-preview">
+          <Users className="h-4 w-4" />
+          {reach === null ? 'Counting…' : `Reaches ${reach} ${reach === 1 ? 'member' : 'members'}`}
+        </span>
+      </div>
+
+      {segments.length === 0 ? (
+        <p className="text-xs text-ink-muted">Everyone in the selected scope</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {segments.map(segment => (
+            <Badge key={segmentKey(segment)} variant="outline" className="gap-1">
+              {segment.label}
+              <button
+                type="button"
+                onClick={() => setSegments(segments.filter(existing => segmentKey(existing) !== segmentKey(segment)))}
+                aria-label={`Remove ${segment.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-[1fr_2fr_auto] gap-2">
+        <Select
+          value={type}
+          onValueChange={(value) => {
+            setType(value as AnnouncementAudienceType)
+            setTargetId('')
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(AUDIENCE_TYPE_LABELS) as AnnouncementAudienceType[]).map(value => (
+              <SelectItem key={value} value={value}>
+                {AUDIENCE_TYPE_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {field ? (
+          <div className="space-y-2">
+            {type === 'MEMBER' && (
+              <Input
+                placeholder="Search members..."
+                value={memberSearch}
+                onChange={(e) => setMemberSearch(e.target.value)}
+              />
+            )}
+            <Select value={targetId} onValueChange={setTargetId} disabled={!options}>
+              <SelectTrigger>
+                <SelectValue placeholder={options ? 'Select…' : 'Loading…'} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <p className="self-center text-xs text-ink-muted">Members with a first-timer record</p>
+        )}
+
+        <Button type="button" variant="outline" onClick={addSegment} disabled={!!field && !target}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add segment</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
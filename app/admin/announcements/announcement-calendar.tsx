@@ -0,0 +1,192 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChevronLeft, ChevronRight, Calendar, Send, Archive } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { AnnouncementPriority, AnnouncementScope } from '@prisma/client'
+
+export interface ScheduledAnnouncement {
+  id: string
+  title: string
+  priority: AnnouncementPriority
+  scope: AnnouncementScope
+  publishedAt: Date | null
+  expiresAt: Date | null
+  notifiedAt: Date | null
+}
+
+interface CalendarEntry {
+  announcement: ScheduledAnnouncement
+  kind: 'publish' | 'expire'
+  at: Date
+}
+
+const monthNames = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Month view of upcoming publish and expiry times. Publishing entries are
+ * highlighted by priority, since that decides whether members get a push or
+ * an email when the announcement goes live.
+ */
+export function AnnouncementCalendar({ announcements }: { announcements: ScheduledAnnouncement[] }) {
+  const [currentDate, setCurrentDate] = useState(new Date())
+
+  const entriesByDate = useMemo(() => {
+    const grouped: { [key: string]: CalendarEntry[] } = {}
+    const add = (entry: CalendarEntry) => {
+      const dateKey = entry.at.toDateString()
+      grouped[dateKey] = [...(grouped[dateKey] || []), entry]
+    }
+
+    const now = new Date()
+    announcements.forEach(announcement => {
+      if (announcement.publishedAt && new Date(announcement.publishedAt) > now) {
+        add({ announcement, kind: 'publish', at: new Date(announcement.publishedAt) })
+      }
+      if (announcement.expiresAt) {
+        add({ announcement, kind: 'expire', at: new Date(announcement.expiresAt) })
+      }
+    })
+
+    Object.values(grouped).forEach(entries => entries.sort((a, b) => a.at.getTime() - b.at.getTime()))
+    return grouped
+  }, [announcements])
+
+  const calendar = useMemo(() => {
+    const year = currentDate.getFullYear()
+    const month = currentDate.getMonth()
+    const daysInMonth = new Date(year, month + 1, 0).getDate()
+    const startingDayOfWeek = new Date(year, month, 1).getDay()
+
+    const days: Array<{ date: Date; day: number; entries: CalendarEntry[]; isToday: boolean } | null> = []
+
+    for (let i = 0; i < startingDayOfWeek; i++) {
+      days.push(null)
+    }
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(year, month, day)
+      days.push({
+        date,
+        day,
+        entries: entriesByDate[date.toDateString()] || [],
+        isToday: date.toDateString() === new Date().toDateString()
+      })
+    }
+
+    return days
+  }, [currentDate, entriesByDate])
+
+  const goToMonth = (offset: number) => {
+    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + offset, 1))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Calendar className="h-5 w-5" />
+            <span className="truncate">{monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goToMonth(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous month</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goToMonth(1)}>
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next month</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1 mb-2">
+          {dayNames.map(day => (
+            <div key={day} className="p-2 text-center text-xs sm:text-sm font-medium text-muted-foreground">
+              <span className="hidden sm:inline">{day}</span>
+              <span className="sm:hidden">{day.substring(0, 1)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-1" data-testid="announcement-calendar">
+          {calendar.map((day, index) => (
+            <div
+              key={index}
+              className={cn(
+                'min-h-[60px] sm:min-h-[80px] p-1 border rounded-lg',
+                day?.isToday ? 'bg-primary/10 border-primary' : 'border-border'
+              )}
+            >
+              {day && (
+                <>
+                  <div className="text-xs sm:text-sm font-medium mb-1">{day.day}</div>
+                  <div className="space-y-1">
+                    {day.entries.slice(0, 3).map(({ announcement, kind, at }) => (
+                      <div
+                        key={`${announcement.id}-${kind}`}
+                        className={cn(
+                          'text-xs p-1 rounded flex items-center gap-1',
+                          kind === 'expire'
+                            ? 'bg-muted text-muted-foreground'
+                            : announcement.priority === 'URGENT'
+                              ? 'bg-red-100 text-red-700'
+                              : announcement.priority === 'HIGH'
+                                ? 'bg-orange-100 text-orange-700'
+                                : 'bg-primary/20 text-primary'
+                        )}
+                        title={`${kind === 'publish' ? 'Publishes' : 'Expires'} ${at.toLocaleString()}: ${announcement.title}`}
+                      >
+                        {kind === 'publish'
+                          ? <Send className="h-2.5 w-2.5 flex-shrink-0" />
+                          : <Archive className="h-2.5 w-2.5 flex-shrink-0" />}
+                        <span className="font-medium truncate leading-tight">{announcement.title}</span>
+                      </div>
+                    ))}
+                    {day.entries.length > 3 && (
+                      <div className="text-[9px] sm:text-[10px] text-muted-foreground text-center py-0.5">
+                        +{day.entries.length - 3} more
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 pt-4 border-t flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <Send className="h-3 w-3" />
+            <span>Goes live</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Archive className="h-3 w-3" />
+            <span>Expires and is archived</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-orange-100 rounded"></div>
+            <span>High priority (push and email)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-red-100 rounded"></div>
+            <span>Urgent (ignores quiet hours)</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
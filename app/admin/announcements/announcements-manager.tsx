@@ -17,6 +17,7 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { 
   Plus, 
   Search, 
@@ -27,14 +28,26 @@ import {
   Info,
   AlertTriangle,
   Calendar,
-  Clock
+  Clock,
+  List
 } from 'lucide-react'
 import { createAnnouncement, updateAnnouncement, deleteAnnouncement } from './actions'
-import type { Announcement, User, LocalChurch, UserRole } from '@prisma/client'
+import { AnnouncementCalendar, type ScheduledAnnouncement } from './announcement-calendar'
+import { AnnouncementAudiencePicker, type AudienceSegmentValue } from './announcement-audience-picker'
+import { AUDIENCE_TYPE_LABELS } from '@/lib/announcements/targeting'
+import type { Announcement, AnnouncementAudience, AnnouncementScope, User, LocalChurch, UserRole } from '@prisma/client'
+
+type AnnouncementAudienceWithTarget = AnnouncementAudience & {
+  lifeGroup: { name: string } | null
+  pathway: { name: string } | null
+  event: { name: string } | null
+  user: { name: string | null; email: string } | null
+}
 
 type AnnouncementWithRelations = Announcement & {
   author: Pick<User, 'name' | 'role'>
   localChurch: Pick<LocalChurch, 'name'>
+  audiences: AnnouncementAudienceWithTarget[]
 }
 
 interface AnnouncementsManagerProps {
@@ -43,6 +56,7 @@ interface AnnouncementsManagerProps {
     nextCursor: string | null
     hasMore: boolean
   }
+  scheduledAnnouncements: ScheduledAnnouncement[]
   churches: { id: string; name: string }[]
   userRole: UserRole
   userChurchId: string | null
@@ -62,8 +76,32 @@ const priorityColors = {
   URGENT: 'text-red-600 bg-red-50 border-red-200',
 }
 
+function toAudienceSegment(audience: AnnouncementAudienceWithTarget): AudienceSegmentValue {
+  const target = audience.lifeGroup?.name ?? audience.pathway?.name ?? audience.event?.name ??
+    (audience.user ? audience.user.name || audience.user.email : null)
+  return {
+    type: audience.type,
+    lifeGroupId: audience.lifeGroupId,
+    pathwayId: audience.pathwayId,
+    eventId: audience.eventId,
+    userId: audience.userId,
+    label: target ? `${AUDIENCE_TYPE_LABELS[audience.type]}: ${target}` : AUDIENCE_TYPE_LABELS[audience.type]
+  }
+}
+
+function getAnnouncementStatus(announcement: Announcement) {
+  const now = new Date()
+  if (announcement.archivedAt) return { label: 'Archived', variant: 'secondary' as const }
+  if (!announcement.isActive) return { label: 'Inactive', variant: 'secondary' as const }
+  if (!announcement.publishedAt) return { label: 'Draft', variant: 'outline' as const }
+  if (new Date(announcement.publishedAt) > now) return { label: 'Scheduled', variant: 'outline' as const }
+  if (announcement.expiresAt && new Date(announcement.expiresAt) < now) return { label: 'Expired', variant: 'secondary' as const }
+  return { label: 'Active', variant: 'default' as const }
+}
+
 export function AnnouncementsManager({ 
   initialAnnouncements, 
+  scheduledAnnouncements,
   churches,
   userChurchId 
 }: AnnouncementsManagerProps) {
@@ -91,6 +129,8 @@ export function AnnouncementsManager({
   }) => {
     const isEditing = !!announcement
     const action = isEditing ? updateAnnouncement.bind(null, announcement.id) : createAnnouncement
+    const [localChurchId, setLocalChurchId] = useState(announcement?.localChurchId || userChurchId || '')
+    const [scope, setScope] = useState<AnnouncementScope>(announcement?.scope || 'MEMBERS')
 
     return (
       <form action={action} className="space-y-4">
@@ -120,7 +160,7 @@ export function AnnouncementsManager({
         <div className="grid grid-cols-2 gap-4">
           <div>
             <Label htmlFor="localChurchId">Church</Label>
-            <Select name="localChurchId" defaultValue={announcement?.localChurchId || userChurchId || ''} required>
+            <Select name="localChurchId" value={localChurchId} onValueChange={setLocalChurchId} required>
               <SelectTrigger>
                 <SelectValue placeholder="Select church" />
               </SelectTrigger>
@@ -136,7 +176,7 @@ export function AnnouncementsManager({
 
           <div>
             <Label htmlFor="scope">Scope</Label>
-            <Select name="scope" defaultValue={announcement?.scope || 'MEMBERS'} required>
+            <Select name="scope" value={scope} onValueChange={(value) => setScope(value as AnnouncementScope)} required>
               <SelectTrigger>
                 <SelectValue placeholder="Select scope" />
               </SelectTrigger>
@@ -150,6 +190,13 @@ export function AnnouncementsManager({
           </div>
         </div>
 
+        <AnnouncementAudiencePicker
+          key={localChurchId}
+          localChurchId={localChurchId}
+          scope={scope}
+          initialSegments={localChurchId === announcement?.localChurchId ? announcement.audiences.map(toAudienceSegment) : []}
+        />
+
         <div className="grid grid-cols-2 gap-4">
           <div>
             <Label htmlFor="priority">Priority</Label>
@@ -185,6 +232,7 @@ export function AnnouncementsManager({
               type="datetime-local"
               defaultValue={formatDateTime(announcement?.publishedAt || null)}
             />
+            <p className="text-xs text-ink-muted mt-1">Members are notified when it goes live</p>
           </div>
 
           <div>
@@ -195,6 +243,7 @@ export function AnnouncementsManager({
               type="datetime-local"
               defaultValue={formatDateTime(announcement?.expiresAt || null)}
             />
+            <p className="text-xs text-ink-muted mt-1">Archived automatically after this time</p>
           </div>
         </div>
 
@@ -240,131 +289,156 @@ export function AnnouncementsManager({
         </Dialog>
       </div>
 
-      {/* Announcements List */}
-      {filteredAnnouncements.length === 0 ? (
-        <Card>
-          <CardContent className="py-12 text-center">
-            <Bell className="mx-auto h-12 w-12 text-ink-muted" />
-            <h3 className="mt-2 text-sm font-medium text-ink">No announcements</h3>
-            <p className="mt-1 text-sm text-ink-muted">
-              {searchTerm ? 'No announcements match your search' : 'Get started by creating your first announcement'}
-            </p>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="space-y-4">
-          {filteredAnnouncements.map((announcement) => {
-            const Icon = priorityIcons[announcement.priority as keyof typeof priorityIcons]
-            const colorClass = priorityColors[announcement.priority as keyof typeof priorityColors]
+      <Tabs defaultValue="list" className="w-full">
+        <TabsList className="grid w-full grid-cols-2 max-w-md">
+          <TabsTrigger value="list" className="flex items-center gap-2">
+            <List className="h-4 w-4" />
+            List View
+          </TabsTrigger>
+          <TabsTrigger value="calendar" className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            Schedule
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list" className="mt-6">
+          {/* Announcements List */}
+          {filteredAnnouncements.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <Bell className="mx-auto h-12 w-12 text-ink-muted" />
+                <h3 className="mt-2 text-sm font-medium text-ink">No announcements</h3>
+                <p className="mt-1 text-sm text-ink-muted">
+                  {searchTerm ? 'No announcements match your search' : 'Get started by creating your first announcement'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {filteredAnnouncements.map((announcement) => {
+                const Icon = priorityIcons[announcement.priority as keyof typeof priorityIcons]
+                const colorClass = priorityColors[announcement.priority as keyof typeof priorityColors]
+                const status = getAnnouncementStatus(announcement)
             
-            return (
-              <Card key={announcement.id} className="overflow-hidden">
-                <div className={`h-1 ${announcement.priority === 'URGENT' ? 'bg-red-500' : announcement.priority === 'HIGH' ? 'bg-orange-500' : ''}`} />
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-start space-x-3 flex-1">
-                      <div className={`p-2 rounded-lg border ${colorClass}`}>
-                        <Icon className="h-5 w-5" />
-                      </div>
-                      <div className="flex-1">
-                        <CardTitle className="text-xl">{announcement.title}</CardTitle>
-                        <div className="flex items-center gap-4 mt-1 text-sm text-ink-muted">
-                          <span>By {announcement.author.name}</span>
-                          <span>•</span>
-                          <span>{announcement.localChurch.name}</span>
-                          <span>•</span>
-                          <span>{new Date(announcement.publishedAt || announcement.createdAt).toLocaleDateString()}</span>
-                        </div>
-                        <div className="flex items-center gap-2 mt-2">
-                          <Badge variant="outline" className={colorClass}>
-                            {announcement.priority}
-                          </Badge>
-                          <Badge variant="outline">
-                            {announcement.scope}
-                          </Badge>
-                          <Badge variant={announcement.isActive ? "default" : "secondary"}>
-                            {announcement.isActive ? 'Active' : 'Inactive'}
-                          </Badge>
+                return (
+                  <Card key={announcement.id} className="overflow-hidden">
+                    <div className={`h-1 ${announcement.priority === 'URGENT' ? 'bg-red-500' : announcement.priority === 'HIGH' ? 'bg-orange-500' : ''}`} />
+                    <CardHeader>
+                      <div className="flex items-start justify-between">
+                        <div className="flex items-start space-x-3 flex-1">
+                          <div className={`p-2 rounded-lg border ${colorClass}`}>
+                            <Icon className="h-5 w-5" />
+                          </div>
+                          <div className="flex-1">
+                            <CardTitle className="text-xl">{announcement.title}</CardTitle>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-ink-muted">
+                              <span>By {announcement.author.name}</span>
+                              <span>•</span>
+                              <span>{announcement.localChurch.name}</span>
+                              <span>•</span>
+                              <span>{new Date(announcement.publishedAt || announcement.createdAt).toLocaleDateString()}</span>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                              <Badge variant="outline" className={colorClass}>
+                                {announcement.priority}
+                              </Badge>
+                              <Badge variant="outline">
+                                {announcement.scope}
+                              </Badge>
+                              <Badge variant={status.variant}>
+                                {status.label}
+                              </Badge>
+                              {announcement.audiences.map(audience => (
+                                <Badge key={audience.id} variant="secondary">
+                                  {toAudienceSegment(audience).label}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
-                          <DialogHeader>
-                            <DialogTitle>Edit Announcement</DialogTitle>
-                          </DialogHeader>
-                          <AnnouncementForm 
-                            announcement={announcement} 
-                            onClose={() => {}} 
-                          />
-                        </DialogContent>
-                      </Dialog>
+                        <div className="flex items-center space-x-2">
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-2xl">
+                              <DialogHeader>
+                                <DialogTitle>Edit Announcement</DialogTitle>
+                              </DialogHeader>
+                              <AnnouncementForm 
+                                announcement={announcement} 
+                                onClose={() => {}} 
+                              />
+                            </DialogContent>
+                          </Dialog>
                       
-                      <Dialog open={deletingId === announcement.id} onOpenChange={(open) => setDeletingId(open ? announcement.id : null)}>
-                        <DialogTrigger asChild>
-                          <Button variant="outline" size="sm">
-                            <Trash2 className="h-4 w-4 text-red-600" />
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>Delete Announcement</DialogTitle>
-                          </DialogHeader>
-                          <p>Are you sure you want to delete &quot;{announcement.title}&quot;? This action cannot be undone.</p>
-                          <DialogFooter>
-                            <Button 
-                              variant="outline" 
-                              onClick={() => setDeletingId(null)}
-                            >
-                              Cancel
-                            </Button>
-                            <form action={deleteAnnouncement.bind(null, announcement.id)}>
-                              <Button variant="destructive" type="submit">
-                                Delete
+                          <Dialog open={deletingId === announcement.id} onOpenChange={(open) => setDeletingId(open ? announcement.id : null)}>
+                            <DialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4 text-red-600" />
                               </Button>
-                            </form>
-                          </DialogFooter>
-                        </DialogContent>
-                      </Dialog>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="prose prose-sm max-w-none">
-                    <p className="whitespace-pre-wrap">{announcement.content}</p>
-                  </div>
-                  
-                  {(announcement.publishedAt || announcement.expiresAt) && (
-                    <div className="mt-4 flex items-center gap-4 text-sm text-ink-muted">
-                      {announcement.publishedAt && (
-                        <div className="flex items-center">
-                          <Calendar className="h-4 w-4 mr-1" />
-                          Published {new Date(announcement.publishedAt).toLocaleString()}
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Delete Announcement</DialogTitle>
+                              </DialogHeader>
+                              <p>Are you sure you want to delete &quot;{announcement.title}&quot;? This action cannot be undone.</p>
+                              <DialogFooter>
+                                <Button 
+                                  variant="outline" 
+                                  onClick={() => setDeletingId(null)}
+                                >
+                                  Cancel
+                                </Button>
+                                <form action={deleteAnnouncement.bind(null, announcement.id)}>
+                                  <Button variant="destructive" type="submit">
+                                    Delete
+                                  </Button>
+                                </form>
+                              </DialogFooter>
+                            </DialogContent>
+                          </Dialog>
                         </div>
-                      )}
-                      {announcement.expiresAt && (
-                        <div className="flex items-center">
-                          <Clock className="h-4 w-4 mr-1" />
-                          Expires {new Date(announcement.expiresAt).toLocaleString()}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="prose prose-sm max-w-none">
+                        <p className="whitespace-pre-wrap">{announcement.content}</p>
+                      </div>
+                  
+                      {(announcement.publishedAt || announcement.expiresAt) && (
+                        <div className="mt-4 flex items-center gap-4 text-sm text-ink-muted">
+                          {announcement.publishedAt && (
+                            <div className="flex items-center">
+                              <Calendar className="h-4 w-4 mr-1" />
+                              Published {new Date(announcement.publishedAt).toLocaleString()}
+                            </div>
+                          )}
+                          {announcement.expiresAt && (
+                            <div className="flex items-center">
+                              <Clock className="h-4 w-4 mr-1" />
+                              Expires {new Date(announcement.expiresAt).toLocaleString()}
+                            </div>
+                          )}
                         </div>
                       )}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )
-          })}
-        </div>
-      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="calendar" className="mt-6">
+          <AnnouncementCalendar announcements={scheduledAnnouncements} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
-}
\ No newline at end of file
+}
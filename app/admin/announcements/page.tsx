@@ -5,7 +5,7 @@ import { getCurrentUser } from "@/lib/rbac";
 import { redirect } from "next/navigation";
 import { UserRole } from "@prisma/client";
 import { AnnouncementsManager } from "./announcements-manager";
-import { listAnnouncements, getLocalChurches } from "./actions";
+import { listAnnouncements, listScheduledAnnouncements, getLocalChurches } from "./actions";
 import { DataFetchErrorBoundary } from "@/components/patterns/error-boundary";
 import { TableSkeleton, FormSkeleton } from "@/components/patterns/loading-skeletons";
 import { unstable_noStore as noStore } from 'next/cache';
@@ -34,8 +34,9 @@ export default async function AdminAnnouncementsPage() {
     redirect("/dashboard");
   }
 
-  const [announcementsResult, churchesResult] = await Promise.all([
+  const [announcementsResult, scheduledResult, churchesResult] = await Promise.all([
     listAnnouncements(),
+    listScheduledAnnouncements(),
     getLocalChurches()
   ]);
 
@@ -50,6 +51,7 @@ export default async function AdminAnnouncementsPage() {
         <Suspense fallback={<AnnouncementsLoadingSkeleton />}>
           <AnnouncementsManager 
             initialAnnouncements={announcementsResult.success && announcementsResult.data ? announcementsResult.data : { items: [], nextCursor: null, hasMore: false }}
+            scheduledAnnouncements={scheduledResult.success && scheduledResult.data ? scheduledResult.data : []}
             churches={churchesResult.success && churchesResult.data ? churchesResult.data : []}
             userRole={user.role}
             userChurchId={user.tenantId}
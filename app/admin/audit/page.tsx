@@ -0,0 +1,276 @@
+export const dynamic = 'force-dynamic'
+
+import Link from 'next/link'
+import { auth } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { format } from 'date-fns'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppLayout } from '@/components/layout/app-layout'
+import { PageHeader } from '@/components/layout/page-header'
+import {
+  NativeCard,
+  NativeCardContent,
+  NativeCardHeader,
+  NativeCardTitle,
+  NativeButton
+} from '@/components/ui/native'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Download } from 'lucide-react'
+import {
+  AuditLogFilters,
+  describeAuditMeta,
+  getAuditLogFilterOptions,
+  listAuditLogs,
+  parseAuditLogFilters
+} from '@/lib/audit-log'
+
+type AuditSearchParams = {
+  actorId?: string
+  entity?: string
+  action?: string
+  from?: string
+  to?: string
+  churchId?: string
+  cursor?: string
+}
+
+function filterParams(filters: AuditLogFilters) {
+  return new URLSearchParams({
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...(filters.entity && { entity: filters.entity }),
+    ...(filters.action && { action: filters.action }),
+    ...(filters.from && { from: format(filters.from, 'yyyy-MM-dd') }),
+    ...(filters.to && { to: format(filters.to, 'yyyy-MM-dd') }),
+    ...(filters.churchId && { churchId: filters.churchId })
+  })
+}
+
+function AuditChanges({ meta }: { meta: Parameters<typeof describeAuditMeta>[0] }) {
+  const changes = describeAuditMeta(meta)
+  if (changes.length === 0) {
+    return <span className="text-ink-muted">—</span>
+  }
+
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm">
+        {changes.length} {changes.length === 1 ? 'detail' : 'details'}
+      </summary>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {changes.map((change, index) => (
+          <div key={`${change.field}-${index}`} className="contents">
+            <dt className="font-medium text-ink-muted">{change.field}</dt>
+            <dd className="break-all">
+              {change.value !== undefined ? change.value : (
+                <>
+                  <span className="line-through text-red-600">{change.from}</span>
+                  {' → '}
+                  <span className="text-green-700">{change.to}</span>
+                </>
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  )
+}
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<AuditSearchParams>
+}) {
+  const resolvedSearchParams = await searchParams
+  const session = await auth()
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (!['ADMIN', 'PASTOR', 'SUPER_ADMIN'].includes(session.user.role)) {
+    redirect('/dashboard')
+  }
+
+  const user = session.user
+  const isSuperAdmin = user.role === UserRole.SUPER_ADMIN
+  const filters = parseAuditLogFilters(resolvedSearchParams, user)
+
+  const [page, options, churches] = await Promise.all([
+    listAuditLogs(user, filters, { cursor: resolvedSearchParams.cursor || undefined }),
+    getAuditLogFilterOptions(user, filters.churchId),
+    isSuperAdmin
+      ? prisma.localChurch.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } })
+      : Promise.resolve([])
+  ])
+
+  const params = filterParams(filters)
+  const exportUrl = `/api/admin/audit/export?${params}`
+  const nextPageUrl = page.nextCursor
+    ? `/admin/audit?${new URLSearchParams([...Array.from(params.entries()), ['cursor', page.nextCursor]])}`
+    : null
+
+  return (
+    <AppLayout user={session.user}>
+      <PageHeader
+        title="Audit Log"
+        description="Who changed what, and when"
+      />
+
+      <div className="space-y-6">
+        {/* Filters */}
+        <NativeCard>
+          <NativeCardContent className="pt-6">
+            <form method="get" className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4 items-end">
+              <label className="flex flex-col gap-1 text-sm">
+                Actor
+                <select
+                  name="actorId"
+                  defaultValue={filters.actorId || ''}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                >
+                  <option value="">Anyone</option>
+                  {options.actors.map(actor => (
+                    <option key={actor.id} value={actor.id}>{actor.name || actor.email}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                Entity
+                <select
+                  name="entity"
+                  defaultValue={filters.entity || ''}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                >
+                  <option value="">All entities</option>
+                  {options.entities.map(entity => (
+                    <option key={entity} value={entity}>{entity}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                Action
+                <select
+                  name="action"
+                  defaultValue={filters.action || ''}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                >
+                  <option value="">All actions</option>
+                  {options.actions.map(action => (
+                    <option key={action} value={action}>{action}</option>
+                  ))}
+                </select>
+              </label>
+              {isSuperAdmin && (
+                <label className="flex flex-col gap-1 text-sm">
+                  Church
+                  <select
+                    name="churchId"
+                    defaultValue={filters.churchId || ''}
+                    className="rounded-md border border-border bg-surface px-3 py-2"
+                  >
+                    <option value="">All churches</option>
+                    {churches.map(church => (
+                      <option key={church.id} value={church.id}>{church.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex flex-col gap-1 text-sm">
+                From
+                <input
+                  type="date"
+                  name="from"
+                  defaultValue={filters.from ? format(filters.from, 'yyyy-MM-dd') : ''}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                To
+                <input
+                  type="date"
+                  name="to"
+                  defaultValue={filters.to ? format(filters.to, 'yyyy-MM-dd') : ''}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                />
+              </label>
+              <div className="flex gap-2">
+                <NativeButton type="submit" variant="secondary">
+                  Apply
+                </NativeButton>
+                <Link href="/admin/audit" className="inline-flex items-center text-sm text-ink-muted hover:underline">
+                  Reset
+                </Link>
+              </div>
+            </form>
+          </NativeCardContent>
+        </NativeCard>
+
+        <NativeCard>
+          <NativeCardHeader className="flex flex-row items-center justify-between space-y-0">
+            <NativeCardTitle>Entries</NativeCardTitle>
+            <a
+              href={exportUrl}
+              className="inline-flex items-center gap-2 text-sm text-accent hover:underline"
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </a>
+          </NativeCardHeader>
+          <NativeCardContent>
+            {page.items.length === 0 ? (
+              <p className="text-sm text-ink-muted py-4 text-center">No audit entries match these filters</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    {isSuperAdmin && <TableHead>Church</TableHead>}
+                    <TableHead className="w-1/3">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {page.items.map(log => (
+                    <TableRow key={log.id} data-testid="audit-log-row">
+                      <TableCell className="whitespace-nowrap">{format(log.createdAt, 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{log.actor.name || log.actor.email}</div>
+                        {log.actor.name && <div className="text-xs text-ink-muted">{log.actor.email}</div>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{log.action}</TableCell>
+                      <TableCell>
+                        <div>{log.entity}</div>
+                        <div className="text-xs text-ink-muted font-mono">{log.entityId}</div>
+                      </TableCell>
+                      {isSuperAdmin && <TableCell>{log.localChurch?.name || 'Platform'}</TableCell>}
+                      <TableCell>
+                        <AuditChanges meta={log.meta} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {nextPageUrl && (
+              <div className="mt-4 text-center">
+                <Link href={nextPageUrl} className="text-sm text-accent hover:underline">
+                  Older entries
+                </Link>
+              </div>
+            )}
+          </NativeCardContent>
+        </NativeCard>
+      </div>
+    </AppLayout>
+  )
+}
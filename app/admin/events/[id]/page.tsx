@@ -5,11 +5,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
-import { Calendar, MapPin, Users, DollarSign, Edit, ArrowLeft } from 'lucide-react'
+import { Calendar, MapPin, Users, DollarSign, Edit, ArrowLeft, FileSpreadsheet } from 'lucide-react'
 import { EventScope, RsvpStatus, UserRole } from '@prisma/client'
 import { AppLayout } from '@/components/layout/app-layout'
 import { getCurrentUser } from '@/lib/rbac'
 import { redirect } from 'next/navigation'
+import { formatCents, SETTLED_PAYMENT_STATUSES } from '@/lib/payments/event-payments'
 
 export default async function AdminEventDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const user = await getCurrentUser()
@@ -39,9 +40,12 @@ export default async function AdminEventDetailPage({ params }: { params: Promise
   const goingCount = event.rsvps.filter(r => r.status === RsvpStatus.GOING).length
   const waitlistCount = event.rsvps.filter(r => r.status === RsvpStatus.WAITLIST).length
   const paidCount = event.rsvps.filter(r => r.hasPaid).length
-  const totalRevenue = event.requiresPayment && event.feeAmount 
-    ? paidCount * event.feeAmount 
-    : 0
+  const settledPayments = event.rsvps
+    .flatMap(r => r.payments)
+    .filter(payment => SETTLED_PAYMENT_STATUSES.includes(payment.status))
+  const needsRefundCount = settledPayments.filter(payment => payment.needsRefund).length
+  const refundedCents = settledPayments.reduce((sum, payment) => sum + payment.refundedCents, 0)
+  const revenueCents = settledPayments.reduce((sum, payment) => sum + payment.amountCents, 0) - refundedCents
 
   return (
     <AppLayout user={user}>
@@ -55,6 +59,14 @@ export default async function AdminEventDetailPage({ params }: { params: Promise
         </Link>
         <div className="flex gap-2">
           <ExportButton eventId={event.id} eventName={event.name} />
+          {event.requiresPayment && (
+            <a href={`/api/admin/events/${event.id}/reconciliation`}>
+              <Button variant="outline">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Payment Reconciliation
+              </Button>
+            </a>
+          )}
           <Link href={`/admin/events/${resolvedParams.id}/edit`}>
             <Button variant="outline">
               <Edit className="h-4 w-4 mr-2" />
@@ -177,11 +189,23 @@ export default async function AdminEventDetailPage({ params }: { params: Promise
                   <span className="text-sm text-ink-muted">Pending</span>
                   <span className="font-medium">{goingCount - paidCount}</span>
                 </div>
+                {needsRefundCount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-danger">Needs refund</span>
+                    <span className="font-medium text-danger">{needsRefundCount}</span>
+                  </div>
+                )}
+                {refundedCents > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-ink-muted">Refunded</span>
+                    <span className="font-medium">${formatCents(refundedCents)}</span>
+                  </div>
+                )}
                 <div className="border-t pt-3">
                   <div className="flex justify-between">
                     <span className="text-sm font-medium">Total Revenue</span>
                     <span className="font-semibold text-green-600">
-                      ${totalRevenue.toFixed(2)}
+                      ${formatCents(revenueCents)}
                     </span>
                   </div>
                 </div>
@@ -25,6 +25,7 @@ interface EventFormProps {
     localChurchId: string | null
     requiresPayment: boolean
     feeAmount: number | null
+    paymentWindowHours: number | null
     visibleToRoles: UserRole[]
   }
   localChurches?: Array<{ id: string; name: string }>
@@ -44,6 +45,7 @@ export function EventForm({ event, localChurches }: EventFormProps) {
     localChurchId: event?.localChurchId || '',
     requiresPayment: event?.requiresPayment || false,
     feeAmount: event?.feeAmount || 0,
+    paymentWindowHours: event?.paymentWindowHours ? String(event.paymentWindowHours) : '',
     visibleToRoles: event?.visibleToRoles || [],
   })
 
@@ -60,6 +62,9 @@ export function EventForm({ event, localChurches }: EventFormProps) {
         location: formData.location || undefined,
         localChurchId: formData.scope === EventScope.LOCAL_CHURCH && formData.localChurchId ? formData.localChurchId : undefined,
         feeAmount: formData.requiresPayment ? formData.feeAmount : undefined,
+        paymentWindowHours: formData.requiresPayment && formData.paymentWindowHours
+          ? parseInt(formData.paymentWindowHours, 10)
+          : null,
       }
 
       const result = event 
@@ -225,6 +230,20 @@ export function EventForm({ event, localChurches }: EventFormProps) {
               value={formData.feeAmount}
               onChange={e => setFormData(prev => ({ ...prev, feeAmount: parseFloat(e.target.value) || 0 }))}
             />
+            <Label htmlFor="paymentWindowHours">Payment Deadline (hours after RSVP)</Label>
+            <Input
+              id="paymentWindowHours"
+              type="number"
+              min="1"
+              max="720"
+              step="1"
+              placeholder="No deadline"
+              value={formData.paymentWindowHours}
+              onChange={e => setFormData(prev => ({ ...prev, paymentWindowHours: e.target.value }))}
+            />
+            <p className="text-sm text-gray-600">
+              Unpaid seats are released to the waitlist after this many hours, or when the event starts.
+            </p>
           </div>
         )}
       </div>
@@ -3,8 +3,17 @@
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
-import { MembershipStatus, RequestStatus, UserRole } from '@prisma/client'
+import { LifeGroupRole, MembershipStatus, RequestStatus, UserRole } from '@prisma/client'
 import { createTenantWhereClause, hasMinRole } from '@/lib/rbac'
+import { ApplicationError } from '@/lib/errors'
+import { notifyLifeGroupMultiplied, notifyLifeGroupRequestApproved } from '@/lib/push/notifications'
+import { openAttendanceSession } from '@/lib/lifegroups/attendance'
+import { multiplyLifeGroupSchema, splitLifeGroup, type MultiplyLifeGroupInput } from '@/lib/lifegroups/multiplication'
+import { LIFEGROUP_DETAIL_FIELDS, lifeGroupDetailsSchema, type LifeGroupDetails } from '@/lib/lifegroups/schedule'
+
+function pickDetails<T extends Record<(typeof LIFEGROUP_DETAIL_FIELDS)[number], unknown>>(lifeGroup: T) {
+  return Object.fromEntries(LIFEGROUP_DETAIL_FIELDS.map(field => [field, lifeGroup[field]]))
+}
 
 export async function listLifeGroups({ 
   churchId,
@@ -87,14 +96,15 @@ export async function createLifeGroup({
   leaderId,
   capacity,
   localChurchId,
-  description
+  description,
+  ...details
 }: {
   name: string
   leaderId: string
   capacity: number
   localChurchId: string
   description?: string
-}) {
+} & LifeGroupDetails) {
   try {
     const session = await auth()
     if (!session?.user) {
@@ -109,13 +119,19 @@ export async function createLifeGroup({
       return { success: false, error: 'Cannot create life group for another church' }
     }
 
+    const parsedDetails = lifeGroupDetailsSchema.safeParse(details)
+    if (!parsedDetails.success) {
+      return { success: false, error: parsedDetails.error.errors[0].message }
+    }
+
     const lifeGroup = await prisma.lifeGroup.create({
       data: {
         name,
         leaderId,
         capacity,
         localChurchId,
-        description
+        description,
+        ...parsedDetails.data
       },
       include: {
         leader: {
@@ -146,6 +162,17 @@ export async function createLifeGroup({
       }
     }).catch(() => {})
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_CREATED',
+        entity: 'LifeGroup',
+        entityId: lifeGroup.id,
+        localChurchId,
+        meta: { name, leaderId, capacity, ...pickDetails(lifeGroup) }
+      }
+    })
+
     revalidatePath('/admin/lifegroups')
     return { success: true, data: lifeGroup }
   } catch (error) {
@@ -159,14 +186,15 @@ export async function updateLifeGroup({
   name,
   leaderId,
   capacity,
-  description
+  description,
+  ...details
 }: {
   id: string
   name?: string
   leaderId?: string
   capacity?: number
   description?: string
-}) {
+} & LifeGroupDetails) {
   try {
     const session = await auth()
     if (!session?.user) {
@@ -179,7 +207,22 @@ export async function updateLifeGroup({
 
     const lifeGroup = await prisma.lifeGroup.findUnique({
       where: { id },
-      select: { localChurchId: true }
+      select: {
+        localChurchId: true,
+        name: true,
+        leaderId: true,
+        capacity: true,
+        description: true,
+        meetingDay: true,
+        meetingTime: true,
+        meetingFrequency: true,
+        meetingMode: true,
+        location: true,
+        latitude: true,
+        longitude: true,
+        audienceTags: true,
+        language: true
+      }
     })
 
     if (!lifeGroup) {
@@ -190,13 +233,19 @@ export async function updateLifeGroup({
       return { success: false, error: 'Cannot update life group from another church' }
     }
 
+    const parsedDetails = lifeGroupDetailsSchema.safeParse(details)
+    if (!parsedDetails.success) {
+      return { success: false, error: parsedDetails.error.errors[0].message }
+    }
+
     const updated = await prisma.lifeGroup.update({
       where: { id },
       data: {
         ...(name && { name }),
         ...(leaderId && { leaderId }),
         ...(capacity && { capacity }),
-        ...(description !== undefined && { description })
+        ...(description !== undefined && { description }),
+        ...parsedDetails.data
       }
     })
 
@@ -219,6 +268,32 @@ export async function updateLifeGroup({
       })
     }
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_UPDATED',
+        entity: 'LifeGroup',
+        entityId: id,
+        localChurchId: lifeGroup.localChurchId,
+        meta: {
+          before: {
+            name: lifeGroup.name,
+            leaderId: lifeGroup.leaderId,
+            capacity: lifeGroup.capacity,
+            description: lifeGroup.description,
+            ...pickDetails(lifeGroup)
+          },
+          after: {
+            name: updated.name,
+            leaderId: updated.leaderId,
+            capacity: updated.capacity,
+            description: updated.description,
+            ...pickDetails(updated)
+          }
+        }
+      }
+    })
+
     revalidatePath('/admin/lifegroups')
     return { success: true, data: updated }
   } catch (error) {
@@ -240,7 +315,7 @@ export async function deleteLifeGroup({ id }: { id: string }) {
 
     const lifeGroup = await prisma.lifeGroup.findUnique({
       where: { id },
-      select: { localChurchId: true }
+      select: { localChurchId: true, name: true }
     })
 
     if (!lifeGroup) {
@@ -255,6 +330,17 @@ export async function deleteLifeGroup({ id }: { id: string }) {
       where: { id }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_DELETED',
+        entity: 'LifeGroup',
+        entityId: id,
+        localChurchId: lifeGroup.localChurchId,
+        meta: { name: lifeGroup.name }
+      }
+    })
+
     revalidatePath('/admin/lifegroups')
     return { success: true }
   } catch (error) {
@@ -414,6 +500,19 @@ export async function approveRequest({ requestId }: { requestId: string }) {
       })
     ])
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_REQUEST_APPROVED',
+        entity: 'LifeGroup',
+        entityId: request.lifeGroupId,
+        localChurchId: request.lifeGroup.localChurchId,
+        meta: { requestId, userId: request.userId }
+      }
+    })
+
+    await notifyLifeGroupRequestApproved({ userId: request.userId, lifeGroupId: request.lifeGroupId })
+
     revalidatePath('/admin/lifegroups')
     return { success: true }
   } catch (error) {
@@ -461,6 +560,17 @@ export async function rejectRequest({ requestId }: { requestId: string }) {
       }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_REQUEST_REJECTED',
+        entity: 'LifeGroup',
+        entityId: request.lifeGroupId,
+        localChurchId: request.lifeGroup.localChurchId,
+        meta: { requestId, userId: request.userId }
+      }
+    })
+
     revalidatePath('/admin/lifegroups')
     return { success: true }
   } catch (error) {
@@ -480,7 +590,7 @@ export async function removeMember({ lifeGroupId, userId }: { lifeGroupId: strin
       return { success: false, error: 'Unauthorized' }
     }
 
-    await prisma.lifeGroupMembership.update({
+    const membership = await prisma.lifeGroupMembership.update({
       where: {
         lifeGroupId_userId: {
           lifeGroupId,
@@ -490,6 +600,18 @@ export async function removeMember({ lifeGroupId, userId }: { lifeGroupId: strin
       data: {
         status: MembershipStatus.LEFT,
         leftAt: new Date()
+      },
+      select: { lifeGroup: { select: { localChurchId: true } } }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_MEMBER_REMOVED',
+        entity: 'LifeGroup',
+        entityId: lifeGroupId,
+        localChurchId: membership.lifeGroup.localChurchId,
+        meta: { userId }
       }
     })
 
@@ -501,6 +623,174 @@ export async function removeMember({ lifeGroupId, userId }: { lifeGroupId: strin
   }
 }
 
+/**
+ * Makes an active member a co-leader or apprentice of the group, or back to
+ * a plain member.
+ */
+export async function setMemberRole({
+  lifeGroupId,
+  userId,
+  role
+}: {
+  lifeGroupId: string
+  userId: string
+  role: LifeGroupRole
+}) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (!Object.values(LifeGroupRole).includes(role)) {
+      return { success: false, error: 'Invalid role' }
+    }
+
+    const membership = await prisma.lifeGroupMembership.findUnique({
+      where: { lifeGroupId_userId: { lifeGroupId, userId } },
+      select: {
+        role: true,
+        status: true,
+        lifeGroup: { select: { localChurchId: true, leaderId: true } }
+      }
+    })
+
+    if (!membership || membership.status !== MembershipStatus.ACTIVE) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && membership.lifeGroup.localChurchId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot update life group from another church' }
+    }
+
+    if (membership.lifeGroup.leaderId === userId) {
+      return { success: false, error: 'The leader already leads this group' }
+    }
+
+    const updated = await prisma.lifeGroupMembership.update({
+      where: { lifeGroupId_userId: { lifeGroupId, userId } },
+      data: { role }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_ROLE_CHANGED',
+        entity: 'LifeGroup',
+        entityId: lifeGroupId,
+        localChurchId: membership.lifeGroup.localChurchId,
+        meta: { userId, before: membership.role, after: role }
+      }
+    })
+
+    revalidatePath('/admin/lifegroups')
+    revalidatePath('/lifegroups')
+    return { success: true, data: updated }
+  } catch (error) {
+    console.error('Set member role error:', error)
+    return { success: false, error: 'Failed to update role' }
+  }
+}
+
+/**
+ * Multiplies a group: an apprentice starts a new group with the chosen
+ * members, who take their attendance history with them.
+ */
+export async function multiplyLifeGroup({
+  lifeGroupId,
+  ...input
+}: { lifeGroupId: string } & MultiplyLifeGroupInput) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const parsed = multiplyLifeGroupSchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0].message }
+    }
+
+    const parent = await prisma.lifeGroup.findUnique({
+      where: { id: lifeGroupId },
+      select: { id: true, name: true, leaderId: true, localChurchId: true, capacity: true, isActive: true }
+    })
+
+    if (!parent || !parent.isActive) {
+      return { success: false, error: 'Life group not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && parent.localChurchId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot update life group from another church' }
+    }
+
+    const result = await splitLifeGroup(parent, parsed.data)
+
+    await prisma.auditLog.createMany({
+      data: [
+        {
+          actorId: session.user.id,
+          action: 'LIFEGROUP_MULTIPLIED',
+          entity: 'LifeGroup',
+          entityId: parent.id,
+          localChurchId: parent.localChurchId,
+          meta: {
+            newLifeGroupId: result.lifeGroup.id,
+            newLifeGroupName: result.lifeGroup.name,
+            leaderId: result.lifeGroup.leaderId,
+            movedUserIds: result.movedUserIds,
+            sessionsCopied: result.sessionsCopied
+          }
+        },
+        {
+          actorId: session.user.id,
+          action: 'LIFEGROUP_CREATED',
+          entity: 'LifeGroup',
+          entityId: result.lifeGroup.id,
+          localChurchId: parent.localChurchId,
+          meta: {
+            name: result.lifeGroup.name,
+            leaderId: result.lifeGroup.leaderId,
+            capacity: result.lifeGroup.capacity,
+            parentId: parent.id
+          }
+        }
+      ]
+    })
+
+    await notifyLifeGroupMultiplied({
+      lifeGroupId: result.lifeGroup.id,
+      movedUserIds: result.movedUserIds,
+      remainingUserIds: result.remainingUserIds
+    })
+
+    revalidatePath('/admin/lifegroups')
+    revalidatePath('/lifegroups')
+    return {
+      success: true,
+      data: {
+        lifeGroupId: result.lifeGroup.id,
+        moved: result.movedUserIds.length,
+        sessionsCopied: result.sessionsCopied
+      }
+    }
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Multiply life group error:', error)
+    return { success: false, error: 'Failed to multiply life group' }
+  }
+}
+
 export async function startAttendanceSession({ 
   lifeGroupId, 
   date 
@@ -518,14 +808,35 @@ export async function startAttendanceSession({
       return { success: false, error: 'Unauthorized' }
     }
 
-    const attendanceSession = await prisma.lifeGroupAttendanceSession.create({
-      data: {
-        lifeGroupId,
-        date,
-        notes: ''
-      }
+    const lifeGroup = await prisma.lifeGroup.findUnique({
+      where: { id: lifeGroupId },
+      select: { localChurchId: true }
     })
 
+    if (!lifeGroup) {
+      return { success: false, error: 'Life group not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && lifeGroup.localChurchId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot take attendance for another church' }
+    }
+
+    // Starting a session for a date that already has one resumes it
+    const { session: attendanceSession, created } = await openAttendanceSession(lifeGroupId, date)
+
+    if (created) {
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'LIFEGROUP_ATTENDANCE_STARTED',
+          entity: 'LifeGroup',
+          entityId: lifeGroupId,
+          localChurchId: lifeGroup.localChurchId,
+          meta: { sessionId: attendanceSession.id, date: date.toISOString() }
+        }
+      })
+    }
+
     return { success: true, data: attendanceSession }
   } catch (error) {
     console.error('Start attendance session error:', error)
@@ -552,29 +863,40 @@ export async function markAttendance({
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (present) {
-      await prisma.lifeGroupAttendance.upsert({
-        where: {
-          sessionId_userId: {
-            sessionId,
-            userId: memberId
-          }
-        },
-        create: {
-          sessionId,
-          userId: memberId,
-          present: true
-        },
-        update: {
-          present: true
-        }
-      })
-    } else {
-      await prisma.lifeGroupAttendance.deleteMany({
-        where: {
+    // Absences are recorded too, so missed meetings show up in streaks
+    await prisma.lifeGroupAttendance.upsert({
+      where: {
+        sessionId_userId: {
           sessionId,
           userId: memberId
         }
+      },
+      create: {
+        sessionId,
+        userId: memberId,
+        present
+      },
+      update: {
+        present,
+        markedAt: new Date()
+      }
+    })
+
+    const attendanceSession = await prisma.lifeGroupAttendanceSession.findUnique({
+      where: { id: sessionId },
+      select: { lifeGroupId: true, lifeGroup: { select: { localChurchId: true } } }
+    })
+
+    if (attendanceSession) {
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'LIFEGROUP_ATTENDANCE_MARKED',
+          entity: 'LifeGroup',
+          entityId: attendanceSession.lifeGroupId,
+          localChurchId: attendanceSession.lifeGroup.localChurchId,
+          meta: { sessionId, userId: memberId, present }
+        }
       })
     }
 
@@ -696,6 +1018,7 @@ export async function exportAttendanceCsv({ lifeGroupId }: { lifeGroupId: string
             id: true,
             date: true,
             attendances: {
+              where: { present: true },
               select: {
                 userId: true,
                 user: {
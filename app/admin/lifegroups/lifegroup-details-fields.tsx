@@ -0,0 +1,239 @@
+'use client'
+
+import { LifeGroupAudience, MeetingDay, MeetingFrequency, MeetingMode } from '@prisma/client'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  LIFEGROUP_AUDIENCE_LABELS,
+  MEETING_DAY_LABELS,
+  MEETING_FREQUENCY_LABELS,
+  MEETING_MODE_LABELS,
+  type LifeGroupDetails
+} from '@/lib/lifegroups/schedule'
+
+export interface LifeGroupDetailsForm {
+  meetingDay: MeetingDay | ''
+  meetingTime: string
+  meetingFrequency: MeetingFrequency
+  meetingMode: MeetingMode
+  location: string
+  latitude: string
+  longitude: string
+  audienceTags: LifeGroupAudience[]
+  language: string
+}
+
+export const emptyLifeGroupDetails: LifeGroupDetailsForm = {
+  meetingDay: '',
+  meetingTime: '',
+  meetingFrequency: MeetingFrequency.WEEKLY,
+  meetingMode: MeetingMode.IN_PERSON,
+  location: '',
+  latitude: '',
+  longitude: '',
+  audienceTags: [],
+  language: ''
+}
+
+export function toLifeGroupDetailsForm(lifeGroup: {
+  meetingDay?: MeetingDay | null
+  meetingTime?: string | null
+  meetingFrequency?: MeetingFrequency
+  meetingMode?: MeetingMode
+  location?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  audienceTags?: LifeGroupAudience[]
+  language?: string | null
+}): LifeGroupDetailsForm {
+  return {
+    meetingDay: lifeGroup.meetingDay ?? '',
+    meetingTime: lifeGroup.meetingTime ?? '',
+    meetingFrequency: lifeGroup.meetingFrequency ?? MeetingFrequency.WEEKLY,
+    meetingMode: lifeGroup.meetingMode ?? MeetingMode.IN_PERSON,
+    location: lifeGroup.location ?? '',
+    latitude: lifeGroup.latitude?.toString() ?? '',
+    longitude: lifeGroup.longitude?.toString() ?? '',
+    audienceTags: lifeGroup.audienceTags ?? [],
+    language: lifeGroup.language ?? ''
+  }
+}
+
+export function fromLifeGroupDetailsForm(form: LifeGroupDetailsForm): LifeGroupDetails {
+  // Online groups have no place to meet
+  const hasPlace = form.meetingMode !== MeetingMode.ONLINE
+
+  return {
+    meetingDay: form.meetingDay || null,
+    meetingTime: form.meetingTime || null,
+    meetingFrequency: form.meetingFrequency,
+    meetingMode: form.meetingMode,
+    location: hasPlace ? form.location.trim() || null : null,
+    latitude: hasPlace && form.latitude ? Number(form.latitude) : null,
+    longitude: hasPlace && form.longitude ? Number(form.longitude) : null,
+    audienceTags: form.audienceTags,
+    language: form.language.trim() || null
+  }
+}
+
+interface LifeGroupDetailsFieldsProps {
+  value: LifeGroupDetailsForm
+  onChange: (value: LifeGroupDetailsForm) => void
+  idPrefix?: string
+}
+
+/** Meeting schedule, place and audience inputs shared by create and edit */
+export function LifeGroupDetailsFields({ value, onChange, idPrefix = 'details' }: LifeGroupDetailsFieldsProps) {
+  const set = (changes: Partial<LifeGroupDetailsForm>) => onChange({ ...value, ...changes })
+
+  const toggleTag = (tag: LifeGroupAudience, checked: boolean) => {
+    set({
+      audienceTags: checked
+        ? [...value.audienceTags, tag]
+        : value.audienceTags.filter(existing => existing !== tag)
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <Label htmlFor={`${idPrefix}-day`}>Meeting Day</Label>
+          <Select
+            value={value.meetingDay || 'NONE'}
+            onValueChange={(day) => set({ meetingDay: day === 'NONE' ? '' : day as MeetingDay })}
+          >
+            <SelectTrigger id={`${idPrefix}-day`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NONE">Not set</SelectItem>
+              {Object.entries(MEETING_DAY_LABELS).map(([day, label]) => (
+                <SelectItem key={day} value={day}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-time`}>Time</Label>
+          <Input
+            id={`${idPrefix}-time`}
+            type="time"
+            value={value.meetingTime}
+            onChange={(e) => set({ meetingTime: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-frequency`}>Frequency</Label>
+          <Select
+            value={value.meetingFrequency}
+            onValueChange={(frequency) => set({ meetingFrequency: frequency as MeetingFrequency })}
+          >
+            <SelectTrigger id={`${idPrefix}-frequency`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MEETING_FREQUENCY_LABELS).map(([frequency, label]) => (
+                <SelectItem key={frequency} value={frequency}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor={`${idPrefix}-mode`}>Meets</Label>
+          <Select
+            value={value.meetingMode}
+            onValueChange={(mode) => set({ meetingMode: mode as MeetingMode })}
+          >
+            <SelectTrigger id={`${idPrefix}-mode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MEETING_MODE_LABELS).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-language`}>Language</Label>
+          <Input
+            id={`${idPrefix}-language`}
+            value={value.language}
+            onChange={(e) => set({ language: e.target.value })}
+            placeholder="e.g., English, Tagalog"
+            maxLength={50}
+          />
+        </div>
+      </div>
+
+      {value.meetingMode !== MeetingMode.ONLINE && (
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor={`${idPrefix}-location`}>Location</Label>
+            <Input
+              id={`${idPrefix}-location`}
+              value={value.location}
+              onChange={(e) => set({ location: e.target.value })}
+              placeholder="Address or area"
+              maxLength={200}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-latitude`}>Latitude (optional)</Label>
+              <Input
+                id={`${idPrefix}-latitude`}
+                type="number"
+                step="any"
+                min="-90"
+                max="90"
+                value={value.latitude}
+                onChange={(e) => set({ latitude: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-longitude`}>Longitude (optional)</Label>
+              <Input
+                id={`${idPrefix}-longitude`}
+                type="number"
+                step="any"
+                min="-180"
+                max="180"
+                value={value.longitude}
+                onChange={(e) => set({ longitude: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <Label>For</Label>
+        <div className="mt-2 flex flex-wrap gap-4">
+          {Object.entries(LIFEGROUP_AUDIENCE_LABELS).map(([tag, label]) => (
+            <div key={tag} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${idPrefix}-tag-${tag}`}
+                checked={value.audienceTags.includes(tag as LifeGroupAudience)}
+                onCheckedChange={(checked) => toggleTag(tag as LifeGroupAudience, checked === true)}
+              />
+              <Label htmlFor={`${idPrefix}-tag-${tag}`} className="font-normal">{label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
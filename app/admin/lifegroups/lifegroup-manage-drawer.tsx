@@ -9,6 +9,16 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
+import { LifeGroupRole, type LifeGroup } from '@prisma/client'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { LIFEGROUP_ROLE_LABELS } from '@/lib/lifegroups/leadership'
 import { 
   listMemberships, 
   listJoinRequests, 
@@ -17,18 +27,34 @@ import {
   removeMember,
   startAttendanceSession,
   markAttendance,
-  exportAttendanceCsv
+  exportAttendanceCsv,
+  updateLifeGroup,
+  setMemberRole
 } from './actions'
+import { MultiplyGroupForm } from './multiply-group-form'
+import {
+  fromLifeGroupDetailsForm,
+  LifeGroupDetailsFields,
+  toLifeGroupDetailsForm
+} from './lifegroup-details-fields'
 
 interface LifeGroupManageDrawerProps {
   lifeGroupId: string
+  lifeGroup?: Parameters<typeof toLifeGroupDetailsForm>[0] & {
+    name: string
+    leaderId: string
+    capacity: number
+  }
   open: boolean
   onClose: () => void
+  onUpdated?: (lifeGroup: LifeGroup) => void
+  onMultiplied?: () => void
 }
 
 interface Member {
   id: string
   userId: string
+  role: LifeGroupRole
   user: {
     id: string
     name: string | null
@@ -58,7 +84,14 @@ interface AttendanceSession {
   }>
 }
 
-export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupManageDrawerProps) {
+export function LifeGroupManageDrawer({
+  lifeGroupId,
+  lifeGroup,
+  open,
+  onClose,
+  onUpdated,
+  onMultiplied
+}: LifeGroupManageDrawerProps) {
   const [loading, setLoading] = useState(true)
   const [isTransitioning, startTransition] = useTransition()
   const [activeTab, setActiveTab] = useState('roster')
@@ -67,6 +100,7 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
   const [currentSession, setCurrentSession] = useState<AttendanceSession | null>(null)
   const [sessionDate, setSessionDate] = useState(format(new Date(), 'yyyy-MM-dd'))
   const [attendance, setAttendance] = useState<Record<string, boolean>>({})
+  const [details, setDetails] = useState(() => toLifeGroupDetailsForm(lifeGroup ?? {}))
 
   useEffect(() => {
     if (open && lifeGroupId) {
@@ -78,7 +112,7 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
   const loadData = async () => {
     setLoading(true)
     try {
-      if (activeTab === 'roster') {
+      if (activeTab === 'roster' || activeTab === 'multiply') {
         const result = await listMemberships({ lifeGroupId })
         if (result.success && result.data) {
           setMembers(result.data)
@@ -104,6 +138,18 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
     }
   }
 
+  const handleRoleChange = (userId: string, role: LifeGroupRole) => {
+    startTransition(async () => {
+      const result = await setMemberRole({ lifeGroupId, userId, role })
+      if (result.success) {
+        toast.success(`Role changed to ${LIFEGROUP_ROLE_LABELS[role]}`)
+        setMembers(members.map(m => m.userId === userId ? { ...m, role } : m))
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
   const handleApproveRequest = (requestId: string) => {
     startTransition(async () => {
       const result = await approveRequest({ requestId })
@@ -150,8 +196,11 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
         setCurrentSession({
           id: result.data.id,
           date: result.data.date,
-          members: []
+          members: result.data.attendances
         })
+        // Resuming a session keeps what was already marked
+        const marked = Object.fromEntries(result.data.attendances.map(a => [a.userId, a.present]))
+        setAttendance(prev => ({ ...prev, ...marked }))
         toast.success('Attendance session started')
       } else {
         toast.error(result.error)
@@ -195,6 +244,18 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
     }
   }
 
+  const handleSaveDetails = () => {
+    startTransition(async () => {
+      const result = await updateLifeGroup({ id: lifeGroupId, ...fromLifeGroupDetailsForm(details) })
+      if (result.success && result.data) {
+        toast.success('LifeGroup details saved')
+        onUpdated?.(result.data)
+      } else {
+        toast.error(result.error || 'Failed to save details')
+      }
+    })
+  }
+
   if (!open) return null
 
   return (
@@ -222,6 +283,8 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
             <TabsTrigger value="roster">Roster</TabsTrigger>
             <TabsTrigger value="requests">Join Requests</TabsTrigger>
             <TabsTrigger value="attendance">Attendance</TabsTrigger>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="multiply">Multiply</TabsTrigger>
           </TabsList>
 
           <div className="flex-1 overflow-auto">
@@ -240,14 +303,34 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
                           <p className="text-sm text-muted-foreground">{member.user.phone}</p>
                         )}
                       </div>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleRemoveMember(member.userId)}
-                        disabled={isTransitioning}
-                      >
-                        Remove
-                      </Button>
+                      {member.userId === lifeGroup?.leaderId ? (
+                        <Badge variant="secondary">Leader</Badge>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => handleRoleChange(member.userId, role as LifeGroupRole)}
+                            disabled={isTransitioning}
+                          >
+                            <SelectTrigger className="w-[130px]" aria-label={`Role for ${member.user.name || member.user.email}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(LIFEGROUP_ROLE_LABELS).map(([role, label]) => (
+                                <SelectItem key={role} value={role}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleRemoveMember(member.userId)}
+                            disabled={isTransitioning}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -363,6 +446,36 @@ export function LifeGroupManageDrawer({ lifeGroupId, open, onClose }: LifeGroupM
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="details" className="p-6">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleSaveDetails()
+                }}
+                className="space-y-6"
+              >
+                <LifeGroupDetailsFields value={details} onChange={setDetails} idPrefix="edit" />
+                <Button type="submit" disabled={isTransitioning} className="w-full">
+                  Save Details
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="multiply" className="p-6">
+              {loading || !lifeGroup ? (
+                <p className="text-muted-foreground">Loading...</p>
+              ) : (
+                <MultiplyGroupForm
+                  lifeGroup={{ id: lifeGroupId, ...lifeGroup }}
+                  members={members}
+                  onMultiplied={() => {
+                    onMultiplied?.()
+                    onClose()
+                  }}
+                />
+              )}
+            </TabsContent>
           </div>
         </Tabs>
       </div>
@@ -13,7 +13,12 @@ import { Textarea } from '@/components/ui/textarea'
 import { toast } from 'sonner'
 import { createLifeGroup, deleteLifeGroup, listLifeGroups, exportRosterCsv } from './actions'
 import { LifeGroupManageDrawer } from './lifegroup-manage-drawer'
-import { UserRole } from '@prisma/client'
+import {
+  emptyLifeGroupDetails,
+  fromLifeGroupDetailsForm,
+  LifeGroupDetailsFields
+} from './lifegroup-details-fields'
+import { LifeGroupAudience, MeetingDay, MeetingFrequency, MeetingMode, UserRole } from '@prisma/client'
 
 interface Leader {
   id: string
@@ -28,6 +33,15 @@ interface LifeGroup {
   capacity: number
   leaderId: string
   localChurchId: string
+  meetingDay: MeetingDay | null
+  meetingTime: string | null
+  meetingFrequency: MeetingFrequency
+  meetingMode: MeetingMode
+  location: string | null
+  latitude: number | null
+  longitude: number | null
+  audienceTags: LifeGroupAudience[]
+  language: string | null
   leader: Leader
   localChurch: {
     id: string
@@ -68,11 +82,11 @@ export function LifeGroupsManager({
   const [newLifeGroup, setNewLifeGroup] = useState({
     name: '',
     leaderId: '',
-    schedule: '',
     capacity: 10,
     localChurchId: userChurchId || churches[0]?.id || '',
     description: ''
   })
+  const [newLifeGroupDetails, setNewLifeGroupDetails] = useState(emptyLifeGroupDetails)
   
   const [selectedChurchFilter, setSelectedChurchFilter] = useState<string>('all')
 
@@ -83,7 +97,8 @@ export function LifeGroupsManager({
         leaderId: newLifeGroup.leaderId,
         capacity: newLifeGroup.capacity,
         localChurchId: newLifeGroup.localChurchId,
-        description: newLifeGroup.description
+        description: newLifeGroup.description,
+        ...fromLifeGroupDetailsForm(newLifeGroupDetails)
       })
 
       if (result.success && result.data) {
@@ -93,11 +108,11 @@ export function LifeGroupsManager({
         setNewLifeGroup({
           name: '',
           leaderId: '',
-          schedule: '',
           capacity: 10,
           localChurchId: userChurchId || churches[0]?.id || '',
           description: ''
         })
+        setNewLifeGroupDetails(emptyLifeGroupDetails)
       } else {
         toast.error(result.error)
       }
@@ -268,7 +283,7 @@ export function LifeGroupsManager({
       )}
 
       <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create LifeGroup</DialogTitle>
             <DialogDescription>
@@ -311,16 +326,11 @@ export function LifeGroupsManager({
                   </SelectContent>
                 </Select>
               </div>
-              <div>
-                <Label htmlFor="schedule">Schedule</Label>
-                <Input
-                  id="schedule"
-                  name="schedule"
-                  value={newLifeGroup.schedule}
-                  onChange={(e) => setNewLifeGroup({ ...newLifeGroup, schedule: e.target.value })}
-                  placeholder="e.g., Every Tuesday 7PM"
-                />
-              </div>
+              <LifeGroupDetailsFields
+                value={newLifeGroupDetails}
+                onChange={setNewLifeGroupDetails}
+                idPrefix="create"
+              />
               <div>
                 <Label htmlFor="capacity">Capacity</Label>
                 <Input
@@ -421,8 +431,11 @@ export function LifeGroupsManager({
       {manageDrawerOpen && (
         <LifeGroupManageDrawer
           lifeGroupId={manageDrawerOpen}
+          lifeGroup={lifeGroups.find(lg => lg.id === manageDrawerOpen)}
           open={!!manageDrawerOpen}
           onClose={() => setManageDrawerOpen(null)}
+          onUpdated={(updated) => setLifeGroups(lifeGroups.map(lg => lg.id === updated.id ? { ...lg, ...updated } : lg))}
+          onMultiplied={() => handleChurchFilterChange(selectedChurchFilter)}
         />
       )}
     </>
@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { LifeGroupRole } from '@prisma/client'
+import { GitBranch } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { multiplyLifeGroup } from './actions'
+
+interface MultiplyGroupFormProps {
+  lifeGroup: {
+    id: string
+    name: string
+    leaderId: string
+    capacity: number
+  }
+  members: Array<{
+    userId: string
+    role: LifeGroupRole
+    user: { name: string | null; email: string }
+  }>
+  onMultiplied: () => void
+}
+
+/**
+ * Splits the roster into a new group led by one of the group's apprentices.
+ * The apprentice always moves; the leader always stays.
+ */
+export function MultiplyGroupForm({ lifeGroup, members, onMultiplied }: MultiplyGroupFormProps) {
+  const [isPending, startTransition] = useTransition()
+  const apprentices = members.filter(member => member.role === LifeGroupRole.APPRENTICE)
+  const [leaderId, setLeaderId] = useState(apprentices[0]?.userId ?? '')
+  const [name, setName] = useState(`${lifeGroup.name} 2`)
+  const [capacity, setCapacity] = useState(lifeGroup.capacity)
+  const [moving, setMoving] = useState<Record<string, boolean>>({})
+
+  const movable = members.filter(member => member.userId !== lifeGroup.leaderId && member.userId !== leaderId)
+  const movingIds = movable.filter(member => moving[member.userId]).map(member => member.userId)
+  const newLeader = apprentices.find(member => member.userId === leaderId)
+
+  if (apprentices.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        Make a member an apprentice on the Roster tab first. A group multiplies under one of its apprentices.
+      </p>
+    )
+  }
+
+  const handleMultiply = () => {
+    const staying = members.length - movingIds.length - 1
+    if (!confirm(`Start "${name}" with ${movingIds.length + 1} people? ${staying} stay in ${lifeGroup.name}.`)) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await multiplyLifeGroup({
+        lifeGroupId: lifeGroup.id,
+        name,
+        leaderId,
+        memberIds: movingIds,
+        capacity
+      })
+
+      if (result.success && result.data) {
+        toast.success(`${name} started with ${result.data.moved} members`)
+        setMoving({})
+        onMultiplied()
+      } else {
+        toast.error(result.error || 'Failed to multiply group')
+      }
+    })
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleMultiply()
+      }}
+      className="space-y-6"
+    >
+      <div>
+        <Label htmlFor="multiply-name">New group name</Label>
+        <Input
+          id="multiply-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          required
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="multiply-leader">Led by</Label>
+          <Select value={leaderId} onValueChange={setLeaderId}>
+            <SelectTrigger id="multiply-leader">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {apprentices.map(member => (
+                <SelectItem key={member.userId} value={member.userId}>
+                  {member.user.name || member.user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="multiply-capacity">Capacity</Label>
+          <Input
+            id="multiply-capacity"
+            type="number"
+            min="1"
+            value={capacity}
+            onChange={(e) => setCapacity(parseInt(e.target.value) || lifeGroup.capacity)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Members moving with {newLeader?.user.name || newLeader?.user.email}</Label>
+        {movable.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other members to move</p>
+        ) : (
+          movable.map(member => (
+            <div key={member.userId} className="flex items-center space-x-3 p-2 border rounded">
+              <Checkbox
+                id={`multiply-${member.userId}`}
+                checked={!!moving[member.userId]}
+                onCheckedChange={(checked) => setMoving({ ...moving, [member.userId]: checked === true })}
+              />
+              <Label htmlFor={`multiply-${member.userId}`} className="flex-1 cursor-pointer font-normal">
+                {member.user.name || member.user.email}
+              </Label>
+            </div>
+          ))
+        )}
+        <p className="text-sm text-muted-foreground">
+          Moving members keep their attendance history. Everyone in both groups is notified.
+        </p>
+      </div>
+
+      <Button type="submit" disabled={isPending || !leaderId || !name.trim()} className="w-full">
+        <GitBranch className="mr-2 h-4 w-4" />
+        {isPending ? 'Multiplying...' : 'Multiply Group'}
+      </Button>
+    </form>
+  )
+}
@@ -5,6 +5,9 @@ import {
   updateMember, 
   deactivateMember,
   resetPassword,
+  resetTwoFactor,
+  resendInvitation,
+  revokeInvitation,
   getLocalChurches
 } from './actions'
 import { UserRole, BelieverStatus } from '@prisma/client'
@@ -21,8 +24,8 @@ vi.mock('@/app/lib/db', () => ({
   }
 }))
 
-vi.mock('@/lib/prisma', () => ({
-  prisma: {
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
     user: {
       findMany: vi.fn(),
       findUnique: vi.fn(),
@@ -37,16 +40,44 @@ vi.mock('@/lib/prisma', () => ({
     },
     localChurch: {
       findMany: vi.fn()
-    }
+    },
+    twoFactorRecoveryCode: {
+      deleteMany: vi.fn()
+    },
+    auditLog: {
+      create: vi.fn()
+    },
+    verificationToken: {
+      deleteMany: vi.fn(),
+      create: vi.fn()
+    },
+    $transaction: vi.fn((arg: any) => typeof arg === 'function' ? arg(prisma) : Promise.all(arg))
   }
-}))
+  return { prisma }
+})
 
 vi.mock('next/cache', () => ({
   revalidatePath: vi.fn()
 }))
 
+vi.mock('@/lib/email', () => ({
+  sendPasswordResetEmail: vi.fn().mockResolvedValue({ success: false, queued: false, error: 'Failed to send email' })
+}))
+
+vi.mock('@/lib/invitations', () => ({
+  sendInvitation: vi.fn().mockResolvedValue({
+    invitationId: 'invite1',
+    expiresAt: new Date('2026-11-01T00:00:00Z'),
+    inviteUrl: 'https://drouple.app/auth/accept-invitation?token=invite1.nonce.sig',
+    resent: false,
+    emailSent: false
+  }),
+  revokeInvitation: vi.fn()
+}))
+
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { revokeInvitation as revokePendingInvitation, sendInvitation } from '@/lib/invitations'
 // Removed duplicate db import - using prisma from @/lib/prisma
 
 describe('Member Management Actions', () => {
@@ -223,6 +254,34 @@ describe('Member Management Actions', () => {
           tenantId: 'church1'
         })
       })
+      expect(vi.mocked(prisma.user.create).mock.calls[0][0].data).not.toHaveProperty('passwordHash')
+    })
+
+    it('should invite the new member instead of generating a password', async () => {
+      vi.mocked(auth).mockResolvedValue({ user: { id: 'admin1', name: 'Admin', role: UserRole.ADMIN, tenantId: 'church1' } } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.create).mockResolvedValue({ id: 'newmember1', name: 'Jane Doe', email: 'jane@test.com' } as any)
+
+      const result = await createMember({
+        name: 'Jane Doe',
+        email: 'jane@test.com',
+        systemRoles: [UserRole.MEMBER],
+        churchMemberships: [{ churchId: 'church1', role: UserRole.MEMBER }]
+      })
+
+      expect(sendInvitation).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'newmember1',
+        email: 'jane@test.com',
+        localChurchId: 'church1',
+        role: UserRole.MEMBER,
+        invitedBy: { id: 'admin1', name: 'Admin' }
+      }))
+      expect(result).not.toHaveProperty('password')
+      expect(result.emailSent).toBe(false)
+      expect(result.invitationUrl).toMatch(/\/auth\/accept-invitation\?token=/)
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'INVITATION_SENT', entityId: 'newmember1' })
+      })
     })
 
     it('should prevent duplicate emails', async () => {
@@ -273,6 +332,68 @@ describe('Member Management Actions', () => {
     })
   })
 
+  describe('resendInvitation', () => {
+    it('should renew the invitation for a member without a password', async () => {
+      vi.mocked(auth).mockResolvedValue({ user: { id: 'admin1', role: UserRole.ADMIN, tenantId: 'church1' } } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'member1',
+        name: 'Jane',
+        email: 'jane@test.com',
+        role: UserRole.MEMBER,
+        tenantId: 'church1',
+        passwordHash: null,
+        memberStatus: 'PENDING'
+      } as any)
+
+      const result = await resendInvitation('member1')
+
+      expect(result.success).toBe(true)
+      expect(sendInvitation).toHaveBeenCalledWith(expect.objectContaining({ userId: 'member1', localChurchId: 'church1' }))
+      expect(result.invitationUrl).toBeDefined()
+    })
+
+    it('should refuse members who already set a password', async () => {
+      vi.mocked(auth).mockResolvedValue({ user: { id: 'admin1', role: UserRole.ADMIN, tenantId: 'church1' } } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        id: 'member1',
+        tenantId: 'church1',
+        passwordHash: 'hash',
+        memberStatus: 'ACTIVE'
+      } as any)
+
+      const result = await resendInvitation('member1')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Member has already set up their account')
+      expect(sendInvitation).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revokeInvitation', () => {
+    it('should revoke a pending invitation and audit it', async () => {
+      vi.mocked(auth).mockResolvedValue({ user: { id: 'admin1', role: UserRole.ADMIN, tenantId: 'church1' } } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'member1', email: 'jane@test.com', tenantId: 'church1' } as any)
+      vi.mocked(revokePendingInvitation).mockResolvedValue(true)
+
+      const result = await revokeInvitation('member1')
+
+      expect(result.success).toBe(true)
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'INVITATION_REVOKED', entityId: 'member1' })
+      })
+    })
+
+    it('should block revoking invitations in another church', async () => {
+      vi.mocked(auth).mockResolvedValue({ user: { id: 'admin1', role: UserRole.ADMIN, tenantId: 'church1' } } as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ id: 'member1', email: 'jane@test.com', tenantId: 'church2' } as any)
+
+      const result = await revokeInvitation('member1')
+
+      expect(result.success).toBe(false)
+      expect(revokePendingInvitation).not.toHaveBeenCalled()
+    })
+  })
+
   describe('updateMember', () => {
     it('should update member details', async () => {
       const mockSession = { 
@@ -382,7 +503,7 @@ describe('Member Management Actions', () => {
   })
 
   describe('resetPassword', () => {
-    it('should reset a member password', async () => {
+    it('should issue a reset link instead of a new password', async () => {
       const mockSession = { 
         user: { 
           id: 'admin1', 
@@ -394,23 +515,95 @@ describe('Member Management Actions', () => {
       vi.mocked(auth).mockResolvedValue(mockSession as any)
       vi.mocked(prisma.user.findUnique).mockResolvedValue({ 
         id: 'member1',
+        email: 'member1@test.com',
         tenantId: 'church1'
       } as any)
-      vi.mocked(prisma.user.update).mockResolvedValue({ 
+
+      const result = await resetPassword('member1')
+
+      expect(result.success).toBe(true)
+      // Email service is not configured in tests, so the link is returned for manual sharing
+      expect(result.emailSent).toBe(false)
+      expect(result.resetUrl).toMatch(/\/auth\/reset-password\?token=/)
+      expect(result).not.toHaveProperty('password')
+      expect(prisma.user.update).not.toHaveBeenCalled()
+      expect(prisma.verificationToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ identifier: 'password-reset:member1' })
+      })
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'PASSWORD_RESET_REQUESTED',
+          entityId: 'member1'
+        })
+      })
+    })
+  })
+
+  describe('resetTwoFactor', () => {
+    const mockSession = { 
+      user: { 
+        id: 'admin1', 
+        role: UserRole.ADMIN, 
+        tenantId: 'church1' 
+      } 
+    }
+
+    it('should clear 2FA and recovery codes and write an audit entry', async () => {
+      vi.mocked(auth).mockResolvedValue(mockSession as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ 
         id: 'member1',
-        mustChangePassword: true
+        name: 'Pastor Jane',
+        email: 'jane@test.com',
+        role: UserRole.PASTOR,
+        tenantId: 'church1',
+        twoFactorEnabled: true
       } as any)
 
-      const result = await resetPassword('member1')
+      const result = await resetTwoFactor('member1')
 
       expect(result.success).toBe(true)
       expect(prisma.user.update).toHaveBeenCalledWith({
         where: { id: 'member1' },
+        data: { twoFactorEnabled: false, twoFactorSecret: null }
+      })
+      expect(prisma.twoFactorRecoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'member1' }
+      })
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
-          mustChangePassword: true
+          actorId: 'admin1',
+          action: 'TWO_FACTOR_RESET',
+          entity: 'User',
+          entityId: 'member1',
+          localChurchId: 'church1'
         })
       })
     })
+
+    it('should reject members from another church', async () => {
+      vi.mocked(auth).mockResolvedValue(mockSession as any)
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ 
+        id: 'member2',
+        role: UserRole.ADMIN,
+        tenantId: 'church2',
+        twoFactorEnabled: true
+      } as any)
+
+      const result = await resetTwoFactor('member2')
+
+      expect(result.success).toBe(false)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+      expect(prisma.auditLog.create).not.toHaveBeenCalled()
+    })
+
+    it('should not allow admins to reset their own 2FA', async () => {
+      vi.mocked(auth).mockResolvedValue(mockSession as any)
+
+      const result = await resetTwoFactor('admin1')
+
+      expect(result.success).toBe(false)
+      expect(prisma.user.findUnique).not.toHaveBeenCalled()
+    })
   })
 
   describe('getLocalChurches', () => {
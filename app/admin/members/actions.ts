@@ -3,12 +3,20 @@
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
-import { UserRole, MemberStatus } from '@prisma/client'
+import { UserRole, MemberStatus, TransferStatus } from '@prisma/client'
 import { z } from 'zod'
-import { generateSecurePassword, hashPassword } from '@/lib/password'
-import { generateAndSendPasswordReset } from '@/lib/email'
+import { sendPasswordResetEmail } from '@/lib/email'
+import {
+  createPasswordResetToken,
+  getPasswordResetUrl,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES
+} from '@/lib/password-reset'
 import { createTenantWhereClause, hasMinRole } from '@/lib/rbac'
 import { handleActionError, ApplicationError } from '@/lib/errors'
+import { recordTwoFactorAudit } from '@/lib/2fa-verification'
+import { revokeInvitation as revokePendingInvitation, sendInvitation } from '@/lib/invitations'
+import { completeMemberTransfer } from '@/lib/members/transfers'
+import { notifyMemberTransfer } from '@/lib/push/notifications'
 
 const createMemberSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -84,8 +92,18 @@ export async function listMembers({
         tenantId: true,
         memberStatus: true,
         mustChangePassword: true,
+        twoFactorEnabled: true,
         joinedAt: true,
         createdAt: true,
+        invitations: {
+          select: {
+            status: true,
+            expiresAt: true,
+            lastSentAt: true
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        },
         memberships: {
           select: {
             localChurch: {
@@ -129,9 +147,10 @@ export async function listMembers({
 /**
  * Creates a new member with multi-role and multi-church support.
  * Implements complex business logic for role hierarchy and tenant assignment.
+ * The account has no password until the member accepts the emailed invitation.
  * 
  * @param data Validated member creation data with system roles and church memberships
- * @returns Created member with generated password, or error details
+ * @returns Created member and invitation status (with the link when the email failed), or error details
  */
 export async function createMember(data: z.infer<typeof createMemberSchema>) {
   try {
@@ -163,10 +182,6 @@ export async function createMember(data: z.infer<typeof createMemberSchema>) {
       throw new ApplicationError('EMAIL_EXISTS', 'This email address is already registered')
     }
 
-    // Generate secure random password
-    const password = generateSecurePassword(12)
-    const passwordHash = await hashPassword(password)
-
     // Role hierarchy resolution: Select highest priority role from multiple selections
     // Business rule: Primary system role determines base permissions across all churches
     const roleHierarchy: UserRole[] = [
@@ -190,10 +205,8 @@ export async function createMember(data: z.infer<typeof createMemberSchema>) {
         email: validated.email,
         role: primarySystemRole,
         tenantId: primaryChurch.churchId, // Primary tenant for RBAC
-        passwordHash,
         memberStatus: MemberStatus.PENDING,
-        mustChangePassword: false, // Changed to false to prevent redirect
-        emailVerified: new Date()
+        mustChangePassword: false // The invitee chooses their own password
       }
     })
 
@@ -206,11 +219,32 @@ export async function createMember(data: z.infer<typeof createMemberSchema>) {
       }))
     })
 
+    const invitation = await sendInvitation({
+      userId: member.id,
+      email: member.email,
+      name: member.name,
+      localChurchId: primaryChurch.churchId,
+      role: primarySystemRole,
+      invitedBy: { id: session.user.id, name: session.user.name ?? null }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'INVITATION_SENT',
+        entity: 'User',
+        entityId: member.id,
+        localChurchId: primaryChurch.churchId,
+        meta: { email: member.email, role: primarySystemRole, emailSent: invitation.emailSent }
+      }
+    })
+
     revalidatePath('/admin/members')
     return { 
       success: true, 
       data: member,
-      password // Return the raw password for admin to copy
+      emailSent: invitation.emailSent,
+      invitationUrl: invitation.emailSent ? undefined : invitation.inviteUrl // Only return the link if email wasn't sent
     }
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -347,43 +381,36 @@ export async function resetPassword(memberId: string, sendEmail: boolean = true)
       return { success: false, error: 'Cannot reset password for member from another church' }
     }
 
-    let password: string
+    // Issue a single-use reset link; the member chooses their own password
+    const { token } = await createPasswordResetToken(member.id)
+    const resetUrl = getPasswordResetUrl(token)
     let emailSent = false
 
     if (sendEmail && member.email) {
-      // Generate password and send email
-      const emailResult = await generateAndSendPasswordReset(
+      const emailResult = await sendPasswordResetEmail(
         member.email,
-        member.name || 'Member'
+        member.name || 'Member',
+        resetUrl,
+        { expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES, requestedByAdmin: true, userId: member.id }
       )
-      
-      if (emailResult.success && emailResult.newPassword) {
-        password = emailResult.newPassword
-        emailSent = true
-      } else {
-        // Fall back to manual password generation if email fails
-        password = generateSecurePassword(12)
-      }
-    } else {
-      // Manual password generation (no email)
-      password = generateSecurePassword(12)
+      emailSent = emailResult.success
     }
 
-    const passwordHash = await hashPassword(password)
-
-    await prisma.user.update({
-      where: { id: memberId },
+    await prisma.auditLog.create({
       data: {
-        passwordHash,
-        mustChangePassword: true,
-        memberStatus: MemberStatus.PENDING
+        actorId: session.user.id,
+        action: 'PASSWORD_RESET_REQUESTED',
+        entity: 'User',
+        entityId: member.id,
+        localChurchId: member.tenantId,
+        meta: { emailSent }
       }
     })
 
     revalidatePath('/admin/members')
     return { 
       success: true,
-      password: emailSent ? undefined : password, // Only return password if email wasn't sent
+      resetUrl: emailSent ? undefined : resetUrl, // Only return the link if email wasn't sent
       emailSent,
       memberEmail: member.email
     }
@@ -393,6 +420,206 @@ export async function resetPassword(memberId: string, sendEmail: boolean = true)
   }
 }
 
+/**
+ * Sends a fresh invitation link to a member who has not accepted yet. Any
+ * earlier link for the member stops working.
+ */
+export async function resendInvitation(memberId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: memberId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        tenantId: true,
+        passwordHash: true,
+        memberStatus: true
+      }
+    })
+
+    if (!member) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && member.tenantId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot invite member from another church' }
+    }
+
+    if (member.passwordHash) {
+      return { success: false, error: 'Member has already set up their account' }
+    }
+
+    if (member.memberStatus === MemberStatus.INACTIVE) {
+      return { success: false, error: 'Reactivate the member before inviting them' }
+    }
+
+    const invitation = await sendInvitation({
+      userId: member.id,
+      email: member.email,
+      name: member.name,
+      localChurchId: member.tenantId,
+      role: member.role,
+      invitedBy: { id: session.user.id, name: session.user.name ?? null }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'INVITATION_SENT',
+        entity: 'User',
+        entityId: member.id,
+        localChurchId: member.tenantId,
+        meta: { email: member.email, role: member.role, emailSent: invitation.emailSent, resent: true }
+      }
+    })
+
+    revalidatePath('/admin/members')
+    return {
+      success: true,
+      emailSent: invitation.emailSent,
+      invitationUrl: invitation.emailSent ? undefined : invitation.inviteUrl,
+      memberEmail: member.email
+    }
+  } catch (error) {
+    console.error('Resend invitation error:', error)
+    return { success: false, error: 'Failed to resend invitation' }
+  }
+}
+
+export async function revokeInvitation(memberId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: memberId },
+      select: { id: true, email: true, tenantId: true }
+    })
+
+    if (!member) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && member.tenantId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot revoke invitation for member from another church' }
+    }
+
+    const revoked = await revokePendingInvitation(member.id)
+    if (!revoked) {
+      return { success: false, error: 'No pending invitation to revoke' }
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'INVITATION_REVOKED',
+        entity: 'User',
+        entityId: member.id,
+        localChurchId: member.tenantId,
+        meta: { email: member.email }
+      }
+    })
+
+    revalidatePath('/admin/members')
+    return { success: true }
+  } catch (error) {
+    console.error('Revoke invitation error:', error)
+    return { success: false, error: 'Failed to revoke invitation' }
+  }
+}
+
+/**
+ * Clears a member's 2FA enrollment and recovery codes, e.g. after a lost device.
+ * Members in roles that require 2FA are sent back through enrollment on next sign-in.
+ */
+export async function resetTwoFactor(memberId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (memberId === session.user.id) {
+      return { success: false, error: 'Use your profile to manage your own 2FA' }
+    }
+
+    const member = await prisma.user.findUnique({
+      where: { id: memberId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        tenantId: true,
+        twoFactorEnabled: true
+      }
+    })
+
+    if (!member) {
+      return { success: false, error: 'Member not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && member.tenantId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot reset 2FA for member from another church' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && member.role === UserRole.SUPER_ADMIN) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: memberId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null
+        }
+      })
+
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId: memberId } })
+
+      await recordTwoFactorAudit({
+        actorId: session.user.id,
+        userId: memberId,
+        action: 'TWO_FACTOR_RESET',
+        localChurchId: member.tenantId,
+        meta: {
+          memberName: member.name,
+          memberEmail: member.email,
+          wasEnabled: member.twoFactorEnabled
+        }
+      }, tx)
+    })
+
+    revalidatePath('/admin/members')
+    return { success: true }
+  } catch (error) {
+    console.error('Reset 2FA error:', error)
+    return { success: false, error: 'Failed to reset 2FA' }
+  }
+}
+
 export async function getLocalChurches() {
   try {
     const session = await auth()
@@ -530,29 +757,21 @@ export async function transferMemberChurch(
       return { success: false, error: 'Member not found' }
     }
 
-    // Perform transfer within transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Update user's primary tenant
-      await tx.user.update({
-        where: { id: userId },
-        data: { tenantId: toChurchId }
-      })
+    // Perform transfer within transaction. The old membership is closed,
+    // not deleted, and the move is recorded as an approved transfer
+    const { membership, transfer } = await prisma.$transaction(async (tx) => {
+      const now = new Date()
+      const completed = await completeMemberTransfer(tx, { userId, fromChurchId, toChurchId }, now)
 
-      // Remove old membership
-      await tx.membership.deleteMany({
-        where: {
-          userId: userId,
-          localChurchId: fromChurchId
-        }
-      })
-
-      // Create new membership
-      const newMembership = await tx.membership.create({
+      const record = await tx.memberTransfer.create({
         data: {
-          userId: userId,
-          localChurchId: toChurchId,
-          role: member.role,
-          isNewBeliever: member.isNewBeliever
+          userId,
+          fromChurchId,
+          toChurchId,
+          status: TransferStatus.APPROVED,
+          requestedById: session.user.id,
+          decidedById: session.user.id,
+          decidedAt: now
         }
       })
 
@@ -569,21 +788,28 @@ export async function transferMemberChurch(
             toChurchId,
             fromChurchName: fromChurch.name,
             toChurchName: toChurch.name,
-            memberName: member.name
+            memberName: member.name,
+            lifeGroupsLeft: completed.impact.lifeGroups.map(group => group.id),
+            pathwaysDropped: completed.impact.pathways.map(pathway => pathway.pathwayId)
           }
         }
       })
 
-      return newMembership
+      return { membership: completed.membership, transfer: record }
     })
 
+    await notifyMemberTransfer(transfer.id)
+
     revalidatePath('/admin/members')
     revalidatePath(`/(super)/super/local-churches/${fromChurchId}`)
     revalidatePath(`/(super)/super/local-churches/${toChurchId}`)
 
-    return { success: true, data: result }
+    return { success: true, data: membership }
   } catch (error) {
     console.error('Transfer member church error:', error)
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: 'Failed to transfer member' }
   }
 }
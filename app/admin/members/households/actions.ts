@@ -0,0 +1,326 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { HouseholdMemberRole, MemberStatus, Prisma, UserRole } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createTenantWhereClause, getAccessibleChurchIds, hasMinRole } from '@/lib/rbac'
+
+const HOUSEHOLD_SEARCH_LIMIT = 10
+
+const createHouseholdSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  localChurchId: z.string().min(1, 'Church is required')
+})
+
+const addHouseholdMemberSchema = z.object({
+  householdId: z.string().min(1),
+  userId: z.string().min(1).optional(),
+  name: z.string().trim().max(100, 'Name too long').optional(),
+  role: z.nativeEnum(HouseholdMemberRole),
+  dateOfBirth: z.string().optional(),
+  notes: z.string().trim().max(500, 'Notes too long').optional()
+}).refine(
+  (data) => !!data.userId || !!data.name,
+  { message: 'Pick a member or enter a name', path: ['name'] }
+)
+
+const householdMemberSelect = {
+  id: true,
+  name: true,
+  role: true,
+  dateOfBirth: true,
+  notes: true,
+  user: { select: { id: true, name: true, email: true } }
+} satisfies Prisma.HouseholdMemberSelect
+
+export async function listHouseholds() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const whereClause = await createTenantWhereClause(session.user, {}, undefined, 'localChurchId')
+
+    const households = await prisma.household.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        name: true,
+        localChurch: { select: { id: true, name: true } },
+        members: {
+          select: householdMemberSelect,
+          orderBy: [{ role: 'asc' }, { createdAt: 'asc' }]
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return { success: true, data: households }
+  } catch (error) {
+    console.error('List households error:', error)
+    return { success: false, error: 'Failed to list households' }
+  }
+}
+
+export async function createHousehold(data: z.infer<typeof createHouseholdSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = createHouseholdSchema.parse(data)
+
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    if (!accessibleChurchIds.includes(validated.localChurchId)) {
+      return { success: false, error: 'Cannot create household for another church' }
+    }
+
+    const household = await prisma.$transaction(async (tx) => {
+      const created = await tx.household.create({
+        data: validated,
+        select: {
+          id: true,
+          name: true,
+          localChurch: { select: { id: true, name: true } }
+        }
+      })
+
+      await tx.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'HOUSEHOLD_CREATED',
+          entity: 'Household',
+          entityId: created.id,
+          localChurchId: validated.localChurchId,
+          meta: { name: created.name }
+        }
+      })
+
+      return created
+    })
+
+    revalidatePath('/admin/members/households')
+    return { success: true, data: { ...household, members: [] } }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    console.error('Create household error:', error)
+    return { success: false, error: 'Failed to create household' }
+  }
+}
+
+async function findManagedHousehold(householdId: string) {
+  const session = await auth()
+  if (!session?.user) {
+    return { error: 'Not authenticated' } as const
+  }
+
+  if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+    return { error: 'Unauthorized' } as const
+  }
+
+  const whereClause = await createTenantWhereClause(session.user, { id: householdId }, undefined, 'localChurchId')
+  const household = await prisma.household.findFirst({
+    where: whereClause,
+    select: { id: true, name: true, localChurchId: true }
+  })
+
+  if (!household) {
+    return { error: 'Household not found' } as const
+  }
+
+  return { household, actorId: session.user.id } as const
+}
+
+/**
+ * Members of the household's church who are not yet in any household.
+ */
+export async function searchHouseholdCandidates({ householdId, query }: { householdId: string; query: string }) {
+  try {
+    const result = await findManagedHousehold(householdId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    const term = query.trim()
+    if (term.length < 2) {
+      return { success: true, data: [] }
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        householdMember: null,
+        memberStatus: { not: MemberStatus.INACTIVE },
+        memberships: { some: { localChurchId: result.household.localChurchId, leftAt: null } },
+        OR: [
+          { name: { contains: term, mode: 'insensitive' } },
+          { email: { contains: term, mode: 'insensitive' } }
+        ]
+      },
+      select: { id: true, name: true, email: true },
+      orderBy: { name: 'asc' },
+      take: HOUSEHOLD_SEARCH_LIMIT
+    })
+
+    return { success: true, data: users }
+  } catch (error) {
+    console.error('Search household candidates error:', error)
+    return { success: false, error: 'Failed to search members' }
+  }
+}
+
+/**
+ * Adds either an existing member (by userId) or a dependent without a login
+ * (by name) to the household.
+ */
+export async function addHouseholdMember(data: z.infer<typeof addHouseholdMemberSchema>) {
+  try {
+    const validated = addHouseholdMemberSchema.parse(data)
+
+    const result = await findManagedHousehold(validated.householdId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    if (validated.userId) {
+      const user = await prisma.user.findFirst({
+        where: {
+          id: validated.userId,
+          memberships: { some: { localChurchId: result.household.localChurchId, leftAt: null } }
+        },
+        select: { id: true }
+      })
+
+      if (!user) {
+        return { success: false, error: 'Member not found at this church' }
+      }
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const created = await tx.householdMember.create({
+        data: {
+          householdId: result.household.id,
+          userId: validated.userId ?? null,
+          name: validated.userId ? null : validated.name,
+          role: validated.role,
+          dateOfBirth: validated.dateOfBirth ? new Date(validated.dateOfBirth) : null,
+          notes: validated.notes || null
+        },
+        select: householdMemberSelect
+      })
+
+      await tx.auditLog.create({
+        data: {
+          actorId: result.actorId,
+          action: 'HOUSEHOLD_MEMBER_ADDED',
+          entity: 'Household',
+          entityId: result.household.id,
+          localChurchId: result.household.localChurchId,
+          meta: {
+            householdMemberId: created.id,
+            userId: validated.userId ?? null,
+            role: validated.role
+          }
+        }
+      })
+
+      return created
+    })
+
+    revalidatePath('/admin/members/households')
+    return { success: true, data: member }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'This member already belongs to a household' }
+    }
+    console.error('Add household member error:', error)
+    return { success: false, error: 'Failed to add household member' }
+  }
+}
+
+export async function removeHouseholdMember(householdMemberId: string) {
+  try {
+    const member = await prisma.householdMember.findUnique({
+      where: { id: householdMemberId },
+      select: { id: true, householdId: true, userId: true }
+    })
+
+    if (!member) {
+      return { success: false, error: 'Household member not found' }
+    }
+
+    const result = await findManagedHousehold(member.householdId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await prisma.$transaction([
+      prisma.householdMember.delete({ where: { id: member.id } }),
+      prisma.auditLog.create({
+        data: {
+          actorId: result.actorId,
+          action: 'HOUSEHOLD_MEMBER_REMOVED',
+          entity: 'Household',
+          entityId: result.household.id,
+          localChurchId: result.household.localChurchId,
+          meta: { householdMemberId: member.id, userId: member.userId }
+        }
+      })
+    ])
+
+    revalidatePath('/admin/members/households')
+    return { success: true }
+  } catch (error) {
+    console.error('Remove household member error:', error)
+    return { success: false, error: 'Failed to remove household member' }
+  }
+}
+
+/**
+ * Deletes the household. Dependents and their check-in history go with it;
+ * members with accounts are simply unlinked.
+ */
+export async function deleteHousehold(householdId: string) {
+  try {
+    const result = await findManagedHousehold(householdId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await prisma.$transaction([
+      prisma.household.delete({ where: { id: result.household.id } }),
+      prisma.auditLog.create({
+        data: {
+          actorId: result.actorId,
+          action: 'HOUSEHOLD_DELETED',
+          entity: 'Household',
+          entityId: result.household.id,
+          localChurchId: result.household.localChurchId,
+          meta: { name: result.household.name }
+        }
+      })
+    ])
+
+    revalidatePath('/admin/members/households')
+    return { success: true }
+  } catch (error) {
+    console.error('Delete household error:', error)
+    return { success: false, error: 'Failed to delete household' }
+  }
+}
@@ -0,0 +1,445 @@
+'use client'
+
+import { useEffect, useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { HouseholdMemberRole } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  addHouseholdMember,
+  createHousehold,
+  deleteHousehold,
+  removeHouseholdMember,
+  searchHouseholdCandidates
+} from './actions'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+interface Household {
+  id: string
+  name: string
+  localChurch: {
+    id: string
+    name: string
+  }
+  members: Array<{
+    id: string
+    name: string | null
+    role: HouseholdMemberRole
+    dateOfBirth: Date | null
+    notes: string | null
+    user: { id: string; name: string | null; email: string } | null
+  }>
+}
+
+interface HouseholdsManagerProps {
+  households: Household[]
+  churches: Array<{ id: string; name: string }>
+  userChurchId: string | null
+}
+
+type AddMode = 'member' | 'dependent'
+
+const emptyDependent = {
+  name: '',
+  role: HouseholdMemberRole.CHILD as HouseholdMemberRole,
+  dateOfBirth: '',
+  notes: ''
+}
+
+export function HouseholdsManager({ households, churches, userChurchId }: HouseholdsManagerProps) {
+  const [isLoading, startTransition] = useTransition()
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [newHousehold, setNewHousehold] = useState({
+    name: '',
+    localChurchId: userChurchId || churches[0]?.id || ''
+  })
+  const [addTarget, setAddTarget] = useState<Household | null>(null)
+  const [addMode, setAddMode] = useState<AddMode>('member')
+  const [query, setQuery] = useState('')
+  const [candidates, setCandidates] = useState<Array<{ id: string; name: string | null; email: string }>>([])
+  const [memberRole, setMemberRole] = useState<HouseholdMemberRole>(HouseholdMemberRole.ADULT)
+  const [dependent, setDependent] = useState(emptyDependent)
+
+  useEffect(() => {
+    if (!addTarget || addMode !== 'member' || query.trim().length < 2) {
+      setCandidates([])
+      return
+    }
+
+    let cancelled = false
+    const timeout = window.setTimeout(async () => {
+      const result = await searchHouseholdCandidates({ householdId: addTarget.id, query })
+      if (cancelled) return
+      if (result.success && result.data) {
+        setCandidates(result.data)
+      } else {
+        toast.error(result.error || 'Search failed')
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timeout)
+    }
+  }, [addTarget, addMode, query])
+
+  const openAddDialog = (household: Household) => {
+    setAddTarget(household)
+    setAddMode('member')
+    setQuery('')
+    setCandidates([])
+    setMemberRole(HouseholdMemberRole.ADULT)
+    setDependent(emptyDependent)
+  }
+
+  const handleCreateHousehold = () => {
+    startTransition(async () => {
+      const result = await createHousehold(newHousehold)
+      if (result.success) {
+        toast.success('Household created')
+        setCreateDialogOpen(false)
+        setNewHousehold({ ...newHousehold, name: '' })
+      } else {
+        toast.error(result.error || 'Failed to create household')
+      }
+    })
+  }
+
+  const handleAddExisting = (userId: string) => {
+    if (!addTarget) return
+    startTransition(async () => {
+      const result = await addHouseholdMember({ householdId: addTarget.id, userId, role: memberRole })
+      if (result.success) {
+        toast.success('Member added to household')
+        setAddTarget(null)
+      } else {
+        toast.error(result.error || 'Failed to add member')
+      }
+    })
+  }
+
+  const handleAddDependent = () => {
+    if (!addTarget) return
+    startTransition(async () => {
+      const result = await addHouseholdMember({
+        householdId: addTarget.id,
+        name: dependent.name,
+        role: dependent.role,
+        dateOfBirth: dependent.dateOfBirth || undefined,
+        notes: dependent.notes || undefined
+      })
+      if (result.success) {
+        toast.success('Dependent added to household')
+        setAddTarget(null)
+      } else {
+        toast.error(result.error || 'Failed to add dependent')
+      }
+    })
+  }
+
+  const handleRemoveMember = (householdMemberId: string) => {
+    if (!confirm('Remove this person from the household?')) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await removeHouseholdMember(householdMemberId)
+      if (result.success) {
+        toast.success('Removed from household')
+      } else {
+        toast.error(result.error || 'Failed to remove')
+      }
+    })
+  }
+
+  const handleDeleteHousehold = (householdId: string) => {
+    if (!confirm('Delete this household? Dependents without accounts and their check-in history will be removed.')) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await deleteHousehold(householdId)
+      if (result.success) {
+        toast.success('Household deleted')
+      } else {
+        toast.error(result.error || 'Failed to delete household')
+      }
+    })
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex justify-end">
+        <Button onClick={() => setCreateDialogOpen(true)}>New Household</Button>
+      </div>
+
+      {households.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground">
+            No households yet. Group families so parents can check in their children.
+          </p>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2" data-testid="households-list">
+          {households.map((household) => (
+            <Card key={household.id}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{household.name}</CardTitle>
+                  {churches.length > 1 && (
+                    <p className="text-sm text-muted-foreground">{household.localChurch.name}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openAddDialog(household)}>
+                    Add
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDeleteHousehold(household.id)}
+                    disabled={isLoading}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {household.members.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No one in this household yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {household.members.map((member) => (
+                      <li key={member.id} className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{member.user?.name || member.name}</span>
+                            <Badge variant={member.role === HouseholdMemberRole.ADULT ? 'default' : 'secondary'}>
+                              {member.role === HouseholdMemberRole.ADULT ? 'Adult' : 'Child'}
+                            </Badge>
+                            {!member.user && <Badge variant="outline">No login</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {member.user?.email}
+                            {member.dateOfBirth && `Born ${format(new Date(member.dateOfBirth), 'PP')}`}
+                            {member.notes && ` · ${member.notes}`}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Remove ${member.user?.name || member.name}`}
+                          onClick={() => handleRemoveMember(member.id)}
+                          disabled={isLoading}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Household</DialogTitle>
+            <DialogDescription>Name the family, then add its adults and children.</DialogDescription>
+          </DialogHeader>
+          <form
+            id="create-household-form"
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCreateHousehold()
+            }}
+          >
+            <div>
+              <Label htmlFor="household-name">Name</Label>
+              <Input
+                id="household-name"
+                placeholder="e.g. Santos Family"
+                value={newHousehold.name}
+                onChange={(e) => setNewHousehold({ ...newHousehold, name: e.target.value })}
+                required
+              />
+            </div>
+            {churches.length > 1 && (
+              <div>
+                <Label htmlFor="household-church">Local Church</Label>
+                <Select
+                  value={newHousehold.localChurchId}
+                  onValueChange={(value) => setNewHousehold({ ...newHousehold, localChurchId: value })}
+                >
+                  <SelectTrigger id="household-church">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {churches.map((church) => (
+                      <SelectItem key={church.id} value={church.id}>
+                        {church.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="create-household-form" disabled={isLoading || !newHousehold.name}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!addTarget} onOpenChange={(open) => !open && setAddTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add to {addTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Link an existing member, or add a dependent who does not have an account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={addMode === 'member' ? 'default' : 'outline'}
+              onClick={() => setAddMode('member')}
+            >
+              Existing member
+            </Button>
+            <Button
+              variant={addMode === 'dependent' ? 'default' : 'outline'}
+              onClick={() => setAddMode('dependent')}
+            >
+              Dependent
+            </Button>
+          </div>
+
+          {addMode === 'member' ? (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="household-member-role">Role in household</Label>
+                <Select value={memberRole} onValueChange={(value) => setMemberRole(value as HouseholdMemberRole)}>
+                  <SelectTrigger id="household-member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={HouseholdMemberRole.ADULT}>Adult</SelectItem>
+                    <SelectItem value={HouseholdMemberRole.CHILD}>Child</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="household-member-search">Search members</Label>
+                <Input
+                  id="household-member-search"
+                  placeholder="Name or email"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                {candidates.map((candidate) => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    disabled={isLoading}
+                    onClick={() => handleAddExisting(candidate.id)}
+                    className="w-full rounded-lg border p-3 text-left hover:bg-muted disabled:opacity-60"
+                  >
+                    <span className="font-medium">{candidate.name}</span>
+                    <span className="ml-2 text-sm text-muted-foreground">{candidate.email}</span>
+                  </button>
+                ))}
+                {query.trim().length >= 2 && candidates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No members without a household match.</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <form
+              id="add-dependent-form"
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleAddDependent()
+              }}
+            >
+              <div>
+                <Label htmlFor="dependent-name">Name</Label>
+                <Input
+                  id="dependent-name"
+                  value={dependent.name}
+                  onChange={(e) => setDependent({ ...dependent, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="dependent-role">Role</Label>
+                  <Select
+                    value={dependent.role}
+                    onValueChange={(value) => setDependent({ ...dependent, role: value as HouseholdMemberRole })}
+                  >
+                    <SelectTrigger id="dependent-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={HouseholdMemberRole.CHILD}>Child</SelectItem>
+                      <SelectItem value={HouseholdMemberRole.ADULT}>Adult</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="dependent-dob">Date of birth</Label>
+                  <Input
+                    id="dependent-dob"
+                    type="date"
+                    value={dependent.dateOfBirth}
+                    onChange={(e) => setDependent({ ...dependent, dateOfBirth: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="dependent-notes">Notes (allergies, care instructions)</Label>
+                <Input
+                  id="dependent-notes"
+                  value={dependent.notes}
+                  onChange={(e) => setDependent({ ...dependent, notes: e.target.value })}
+                />
+              </div>
+            </form>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddTarget(null)}>
+              Cancel
+            </Button>
+            {addMode === 'dependent' && (
+              <Button type="submit" form="add-dependent-form" disabled={isLoading || !dependent.name.trim()}>
+                Add Dependent
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,42 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { UserRole } from "@prisma/client";
+import { unstable_noStore as noStore } from 'next/cache';
+import { HouseholdsManager } from "./households-manager";
+import { listHouseholds } from "./actions";
+import { getLocalChurches } from "../actions";
+
+export default async function AdminHouseholdsPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(user.role)) {
+    redirect("/dashboard");
+  }
+
+  const [householdsResult, churchesResult] = await Promise.all([
+    listHouseholds(),
+    getLocalChurches()
+  ]);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Households"
+        description="Group families so parents can check in their children"
+      />
+
+      <HouseholdsManager
+        households={householdsResult.success && householdsResult.data ? householdsResult.data : []}
+        churches={churchesResult.success && churchesResult.data ? churchesResult.data : []}
+        userChurchId={user.tenantId}
+      />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,181 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { UserRole } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { hasMinRole } from '@/lib/rbac'
+import { ApplicationError } from '@/lib/errors'
+import { sendInvitation } from '@/lib/invitations'
+import {
+  MAX_IMPORT_ROWS,
+  MEMBER_IMPORT_FIELDS,
+  mapImportRows,
+  suggestMapping,
+  summarizeImport,
+  type MemberImportField
+} from '@/lib/members/import-mapping'
+import { commitMemberImport, hashImportRows, parseImportFile, planMemberImport } from '@/lib/members/import'
+
+const MAX_IMPORT_FILE_BYTES = 1.5 * 1024 * 1024
+
+const fieldKeys = MEMBER_IMPORT_FIELDS.map(field => field.key) as [MemberImportField, ...MemberImportField[]]
+
+const memberImportSchema = z.object({
+  localChurchId: z.string().min(1, 'Choose a church'),
+  fileName: z.string().max(255),
+  rows: z.array(z.array(z.string().max(500))).min(1, 'The file has no rows').max(MAX_IMPORT_ROWS),
+  mapping: z.record(z.enum(fieldKeys), z.number().int().min(0)),
+  sendInvites: z.boolean().default(false)
+}).refine(
+  (data) => data.mapping.email !== undefined,
+  { message: 'Map a column to Email', path: ['mapping'] }
+).refine(
+  (data) => data.mapping.name !== undefined || data.mapping.firstName !== undefined,
+  { message: 'Map a column to Full name or First name', path: ['mapping'] }
+)
+
+type MemberImportInput = z.input<typeof memberImportSchema>
+
+async function authorizeImport(localChurchId?: string) {
+  const session = await auth()
+  if (!session?.user) {
+    throw new ApplicationError('UNAUTHORIZED', 'Not authenticated')
+  }
+
+  if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+    throw new ApplicationError('FORBIDDEN', 'Unauthorized')
+  }
+
+  if (localChurchId && session.user.role !== UserRole.SUPER_ADMIN && localChurchId !== session.user.tenantId) {
+    throw new ApplicationError('TENANT_MISMATCH', 'Cannot import members into another church')
+  }
+
+  return session.user
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(e => e.message).join(', ')
+  }
+  if (error instanceof ApplicationError) {
+    return error.message
+  }
+  return fallback
+}
+
+/** Step 1: read the uploaded file and guess the column mapping */
+export async function parseMemberImport(formData: FormData) {
+  try {
+    await authorizeImport()
+
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: 'Choose a file to import' }
+    }
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return { success: false, error: 'Files up to 1.5 MB can be imported; split larger files' }
+    }
+
+    const { headers, rows } = await parseImportFile(file.name, Buffer.from(await file.arrayBuffer()))
+
+    return { success: true, data: { fileName: file.name, headers, rows, mapping: suggestMapping(headers) } }
+  } catch (error) {
+    console.error('Parse member import error:', error)
+    return { success: false, error: errorMessage(error, 'Could not read the file') }
+  }
+}
+
+/** Step 2: the dry run. Nothing is written */
+export async function previewMemberImport(data: MemberImportInput) {
+  try {
+    await authorizeImport(data.localChurchId)
+    const validated = memberImportSchema.parse(data)
+
+    const plan = await planMemberImport(mapImportRows(validated.rows, validated.mapping), validated.localChurchId)
+
+    return { success: true, data: { report: plan.report, summary: summarizeImport(plan.report) } }
+  } catch (error) {
+    console.error('Preview member import error:', error)
+    return { success: false, error: errorMessage(error, 'Failed to check the import') }
+  }
+}
+
+/**
+ * Step 3: re-checks the rows and creates the new members. Rows already in
+ * the church are skipped, so the same file can safely be imported again.
+ */
+export async function importMembers(data: MemberImportInput) {
+  try {
+    const user = await authorizeImport(data.localChurchId)
+    const validated = memberImportSchema.parse(data)
+
+    const plan = await planMemberImport(mapImportRows(validated.rows, validated.mapping), validated.localChurchId)
+    const { report, created } = await commitMemberImport(plan, validated.localChurchId)
+
+    let invitationsSent = 0
+    const invited: string[] = []
+    if (validated.sendInvites) {
+      for (const member of created) {
+        try {
+          const invitation = await sendInvitation({
+            userId: member.id,
+            email: member.email,
+            name: member.name,
+            localChurchId: validated.localChurchId,
+            role: member.role,
+            invitedBy: { id: user.id, name: user.name ?? null }
+          })
+          invited.push(member.id)
+          if (invitation.emailSent) invitationsSent++
+        } catch (error) {
+          console.error('Member import invitation error:', error)
+        }
+      }
+    }
+
+    const summary = summarizeImport(report)
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: user.id,
+        action: 'MEMBERS_IMPORTED',
+        entity: 'LocalChurch',
+        entityId: validated.localChurchId,
+        localChurchId: validated.localChurchId,
+        meta: {
+          fileName: validated.fileName,
+          fileHash: hashImportRows(validated.rows),
+          rows: validated.rows.length,
+          created: summary.created,
+          existing: summary.existing,
+          duplicates: summary.duplicate,
+          invalid: summary.invalid,
+          failed: summary.failed,
+          invitationsSent
+        }
+      }
+    })
+
+    if (invited.length > 0) {
+      await prisma.auditLog.createMany({
+        data: created.filter(member => invited.includes(member.id)).map(member => ({
+          actorId: user.id,
+          action: 'INVITATION_SENT',
+          entity: 'User',
+          entityId: member.id,
+          localChurchId: validated.localChurchId,
+          meta: { email: member.email, role: member.role, source: 'import' }
+        }))
+      })
+    }
+
+    revalidatePath('/admin/members')
+
+    return { success: true, data: { report, summary, invitationsSent } }
+  } catch (error) {
+    console.error('Import members error:', error)
+    return { success: false, error: errorMessage(error, 'Failed to import members') }
+  }
+}
@@ -0,0 +1,393 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import {
+  buildImportReportCsv,
+  IMPORT_ROW_STATUS_LABELS,
+  MAX_IMPORT_ROWS,
+  MEMBER_IMPORT_FIELDS,
+  type ImportReportRow,
+  type ImportRowStatus,
+  type MemberImportField,
+  type MemberImportMapping
+} from '@/lib/members/import-mapping'
+import { importMembers, parseMemberImport, previewMemberImport } from './actions'
+
+interface ImportWizardProps {
+  churches: Array<{ id: string; name: string }>
+  userChurchId: string | null
+}
+
+type Step = 'upload' | 'map' | 'review' | 'done'
+
+interface ParsedFile {
+  fileName: string
+  headers: string[]
+  rows: string[][]
+}
+
+interface ImportResult {
+  report: ImportReportRow[]
+  summary: Record<ImportRowStatus, number>
+}
+
+const UNMAPPED = 'none'
+const REPORT_PREVIEW_LIMIT = 200
+
+const STATUS_VARIANTS: Record<ImportRowStatus, 'success' | 'info' | 'secondary' | 'warning' | 'danger'> = {
+  create: 'info',
+  created: 'success',
+  existing: 'secondary',
+  duplicate: 'warning',
+  invalid: 'danger',
+  failed: 'danger'
+}
+
+// Rows that need a look come first in the report
+const STATUS_ORDER: ImportRowStatus[] = ['failed', 'invalid', 'duplicate', 'existing', 'create', 'created']
+
+function downloadReport(fileName: string, report: ImportReportRow[]) {
+  const blob = new Blob([buildImportReportCsv(report)], { type: 'text/csv' })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${fileName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_')}_import_report.csv`
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
+
+function ImportSummary({ summary, statuses }: { summary: Record<ImportRowStatus, number>; statuses: ImportRowStatus[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {statuses.map((status) => (
+        <Badge key={status} variant={STATUS_VARIANTS[status]}>
+          {IMPORT_ROW_STATUS_LABELS[status]}: {summary[status]}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+function ReportTable({ report }: { report: ImportReportRow[] }) {
+  const sorted = [...report].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.rowNumber - b.rowNumber
+  )
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody data-testid="import-report">
+          {sorted.slice(0, REPORT_PREVIEW_LIMIT).map((row) => (
+            <TableRow key={row.rowNumber}>
+              <TableCell>{row.rowNumber}</TableCell>
+              <TableCell>{row.name || '-'}</TableCell>
+              <TableCell>{row.email || '-'}</TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[row.status]}>{IMPORT_ROW_STATUS_LABELS[row.status]}</Badge>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{row.message}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {report.length > REPORT_PREVIEW_LIMIT && (
+        <p className="text-sm text-muted-foreground">
+          Showing {REPORT_PREVIEW_LIMIT} of {report.length} rows. Download the report for the rest.
+        </p>
+      )}
+    </>
+  )
+}
+
+export function ImportWizard({ churches, userChurchId }: ImportWizardProps) {
+  const [isLoading, startTransition] = useTransition()
+  const [step, setStep] = useState<Step>('upload')
+  const [localChurchId, setLocalChurchId] = useState(userChurchId || churches[0]?.id || '')
+  const [file, setFile] = useState<File | null>(null)
+  const [parsed, setParsed] = useState<ParsedFile | null>(null)
+  const [mapping, setMapping] = useState<MemberImportMapping>({})
+  const [sendInvites, setSendInvites] = useState(true)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+  const [result, setResult] = useState<(ImportResult & { invitationsSent: number }) | null>(null)
+
+  const importInput = () => ({
+    localChurchId,
+    fileName: parsed!.fileName,
+    rows: parsed!.rows,
+    mapping,
+    sendInvites
+  })
+
+  const handleUpload = () => {
+    if (!file) return
+    const formData = new FormData()
+    formData.append('file', file)
+
+    startTransition(async () => {
+      const response = await parseMemberImport(formData)
+      if (response.success && response.data) {
+        setParsed(response.data)
+        setMapping(response.data.mapping)
+        setStep('map')
+      } else {
+        toast.error(response.error || 'Could not read the file')
+      }
+    })
+  }
+
+  const setFieldColumn = (field: MemberImportField, value: string) => {
+    const next = { ...mapping }
+    if (value === UNMAPPED) {
+      delete next[field]
+    } else {
+      next[field] = Number(value)
+    }
+    setMapping(next)
+  }
+
+  const handlePreview = () => {
+    startTransition(async () => {
+      const response = await previewMemberImport(importInput())
+      if (response.success && response.data) {
+        setPreview(response.data)
+        setStep('review')
+      } else {
+        toast.error(response.error || 'Failed to check the import')
+      }
+    })
+  }
+
+  const handleImport = () => {
+    startTransition(async () => {
+      const response = await importMembers(importInput())
+      if (response.success && response.data) {
+        setResult(response.data)
+        setStep('done')
+        toast.success(`${response.data.summary.created} members imported`)
+      } else {
+        toast.error(response.error || 'Failed to import members')
+      }
+    })
+  }
+
+  const reset = () => {
+    setStep('upload')
+    setFile(null)
+    setParsed(null)
+    setMapping({})
+    setPreview(null)
+    setResult(null)
+  }
+
+  if (step === 'upload') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload a file</CardTitle>
+          <CardDescription>
+            A CSV or Excel (.xlsx) file with a header row and one member per row, up to {MAX_IMPORT_ROWS} members.
+            Only the first sheet of a workbook is read.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleUpload()
+            }}
+          >
+            {churches.length > 1 && (
+              <div>
+                <Label htmlFor="import-church">Import into</Label>
+                <Select value={localChurchId} onValueChange={setLocalChurchId}>
+                  <SelectTrigger id="import-church">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {churches.map((church) => (
+                      <SelectItem key={church.id} value={church.id}>
+                        {church.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <Button type="submit" disabled={isLoading || !file || !localChurchId}>
+              Read File
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (step === 'map' && parsed) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Match columns</CardTitle>
+          <CardDescription>
+            {parsed.fileName}: {parsed.rows.length} rows. Email and a name are required; use Full name, or First and Last name.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>First row</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MEMBER_IMPORT_FIELDS.map((field) => {
+                const column = mapping[field.key]
+                return (
+                  <TableRow key={field.key}>
+                    <TableCell className="font-medium">{field.label}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={column === undefined ? UNMAPPED : String(column)}
+                        onValueChange={(value) => setFieldColumn(field.key, value)}
+                      >
+                        <SelectTrigger aria-label={`Column for ${field.label}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                          {parsed.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {column === undefined ? '' : parsed.rows[0]?.[column]}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-sm text-muted-foreground">
+            Dates can be YYYY-MM-DD or MM/DD/YYYY. Roles can be Member, Leader or VIP; leave blank for Member.
+          </p>
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={reset}>
+              Start Over
+            </Button>
+            <Button onClick={handlePreview} disabled={isLoading}>
+              Check Import
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (step === 'review' && parsed && preview) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Dry run</CardTitle>
+          <CardDescription>
+            Nothing has been saved yet. Members already in the church are skipped, so the same file can be imported again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ImportSummary summary={preview.summary} statuses={['create', 'existing', 'duplicate', 'invalid']} />
+          <ReportTable report={preview.report} />
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="import-send-invites"
+              checked={sendInvites}
+              onCheckedChange={(checked) => setSendInvites(!!checked)}
+            />
+            <Label htmlFor="import-send-invites">Email an invitation to each new member</Label>
+          </div>
+          <div className="flex justify-between">
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button variant="outline" onClick={() => downloadReport(parsed.fileName, preview.report)}>
+                Download Report
+              </Button>
+            </div>
+            <Button onClick={handleImport} disabled={isLoading || preview.summary.create === 0}>
+              Import {preview.summary.create} Members
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (step === 'done' && parsed && result) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Import finished</CardTitle>
+          <CardDescription>
+            {result.summary.created} members created
+            {sendInvites && `, ${result.invitationsSent} invitations emailed`}.
+            {result.summary.failed > 0 && ' Some rows could not be saved; import the file again to retry them.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ImportSummary summary={result.summary} statuses={['created', 'existing', 'duplicate', 'invalid', 'failed']} />
+          <ReportTable report={result.report} />
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => downloadReport(parsed.fileName, result.report)}>
+              Download Report
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset}>
+                Import Another File
+              </Button>
+              <Button asChild>
+                <Link href="/admin/members">Back to Members</Link>
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,38 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { UserRole } from "@prisma/client";
+import { unstable_noStore as noStore } from 'next/cache';
+import { ImportWizard } from "./import-wizard";
+import { getLocalChurches } from "../actions";
+
+export default async function AdminMemberImportPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(user.role)) {
+    redirect("/dashboard");
+  }
+
+  const churchesResult = await getLocalChurches();
+  const churches = churchesResult.success && churchesResult.data ? churchesResult.data : [];
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Import Members"
+        description="Add members in bulk from a CSV or Excel file"
+      />
+
+      <ImportWizard
+        churches={user.role === UserRole.SUPER_ADMIN ? churches : churches.filter((church) => church.id === user.tenantId)}
+        userChurchId={user.tenantId}
+      />
+    </AppLayout>
+  );
+}
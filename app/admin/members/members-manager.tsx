@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useTransition, useCallback } from 'react'
-import { UserRole, MemberStatus } from '@prisma/client'
+import { UserRole, MemberStatus, InvitationStatus } from '@prisma/client'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -11,13 +11,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { DataTable } from '@/components/patterns/data-table'
 import { Badge } from '@/components/ui/badge'
 import { useToast } from '@/components/ui/use-toast'
-import { Edit, Plus, Search, RefreshCw, UserX, Copy, Download } from 'lucide-react'
+import { Edit, Plus, Search, RefreshCw, UserX, Copy, Download, ShieldOff, Send, MailX } from 'lucide-react'
 import { 
   listMembers, 
   createMember, 
   updateMember, 
   deactivateMember,
   resetPassword,
+  resetTwoFactor,
+  resendInvitation,
+  revokeInvitation,
   exportMembersCsv
 } from './actions'
 
@@ -29,7 +32,13 @@ interface Member {
   tenantId: string | null
   memberStatus: MemberStatus
   mustChangePassword: boolean
+  twoFactorEnabled: boolean
   joinedAt: Date
+  invitations?: {
+    status: InvitationStatus
+    expiresAt: Date
+    lastSentAt: Date
+  }[]
   memberships: {
     localChurch: {
       id: string
@@ -43,6 +52,24 @@ interface Church {
   name: string
 }
 
+type InvitationState = 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'REVOKED'
+
+function getInvitationState(member: Member): InvitationState | null {
+  const invitation = member.invitations?.[0]
+  if (!invitation) return null
+  if (invitation.status === InvitationStatus.PENDING && new Date(invitation.expiresAt) <= new Date()) {
+    return 'EXPIRED'
+  }
+  return invitation.status
+}
+
+const INVITATION_BADGES: Record<InvitationState, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  EXPIRED: { label: 'Expired', className: 'bg-gray-100 text-gray-800' },
+  ACCEPTED: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  REVOKED: { label: 'Revoked', className: 'bg-red-100 text-red-800' }
+}
+
 interface MembersManagerProps {
   initialMembers: {
     items: Member[]
@@ -68,8 +95,8 @@ export function MembersManager({
   const [isCreateOpen, setIsCreateOpen] = useState(false)
   const [isEditOpen, setIsEditOpen] = useState(false)
   const [editingMember, setEditingMember] = useState<Member | null>(null)
-  const [showPassword, setShowPassword] = useState(false)
-  const [generatedPassword, setGeneratedPassword] = useState('')
+  const [inviteLink, setInviteLink] = useState('')
+  const [resetLink, setResetLink] = useState('')
   const [selectedMembers, setSelectedMembers] = useState<Set<string>>(new Set())
   const [isPending, startTransition] = useTransition()
   const { toast } = useToast()
@@ -162,9 +189,16 @@ export function MembersManager({
         }]
       })
       
-      if (result.success && result.password) {
-        setGeneratedPassword(result.password)
-        setShowPassword(true)
+      if (result.success) {
+        if (result.invitationUrl) {
+          // Email failed, share the link manually
+          setInviteLink(result.invitationUrl)
+        } else {
+          toast({
+            title: 'Invitation Sent',
+            description: `An invitation was sent to ${formData.email}.`
+          })
+        }
         setIsCreateOpen(false)
         handleSearch()
         setFormData({
@@ -239,22 +273,39 @@ export function MembersManager({
       if (result.success) {
         if (result.emailSent && result.memberEmail) {
           toast({
-            title: 'Password Reset Complete',
-            description: `New password sent to ${result.memberEmail}. The member will be required to change it on first login.`,
+            title: 'Password Reset Link Sent',
+            description: `A reset link was sent to ${result.memberEmail}. It expires in one hour.`,
           })
-        } else if (result.password) {
-          // Email failed, show password manually
-          setGeneratedPassword(result.password)
-          setShowPassword(true)
+        } else if (result.resetUrl) {
+          // Email failed, share the link manually
+          setResetLink(result.resetUrl)
           toast({
-            title: 'Password Reset (Email Failed)',
-            description: 'Email service unavailable. Please share the password manually with the member.',
+            title: 'Reset Link Created (Email Failed)',
+            description: 'Email service unavailable. Please share the reset link with the member.',
             variant: 'destructive'
           })
+        }
+        handleSearch()
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive'
+        })
+      }
+    })
+  }, [toast, handleSearch, startTransition])
+
+  const handleResendInvitation = useCallback((memberId: string) => {
+    startTransition(async () => {
+      const result = await resendInvitation(memberId)
+      if (result.success) {
+        if (result.invitationUrl) {
+          setInviteLink(result.invitationUrl)
         } else {
           toast({
-            title: 'Password Reset Complete',
-            description: 'Password has been reset. Contact the member to provide their new login credentials.',
+            title: 'Invitation Sent',
+            description: `A new invitation was sent to ${result.memberEmail}. Earlier links no longer work.`
           })
         }
         handleSearch()
@@ -268,6 +319,52 @@ export function MembersManager({
     })
   }, [toast, handleSearch, startTransition])
 
+  const handleRevokeInvitation = useCallback((member: Member) => {
+    if (!confirm(`Revoke the invitation for ${member.name || member.email}? The link will stop working.`)) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await revokeInvitation(member.id)
+      if (result.success) {
+        toast({
+          title: 'Invitation Revoked',
+          description: `The invitation for ${member.email} no longer works.`
+        })
+        handleSearch()
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive'
+        })
+      }
+    })
+  }, [toast, handleSearch, startTransition])
+
+  const handleResetTwoFactor = useCallback((member: Member) => {
+    if (!confirm(`Reset two-factor authentication for ${member.name || member.email}? They will need to enroll again.`)) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await resetTwoFactor(member.id)
+      if (result.success) {
+        toast({
+          title: '2FA Reset',
+          description: `Two-factor authentication has been reset for ${member.email}.`
+        })
+        handleSearch()
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive'
+        })
+      }
+    })
+  }, [toast, handleSearch, startTransition])
+
   const openEditDialog = useCallback((member: Member) => {
     setEditingMember(member)
     setFormData({
@@ -280,13 +377,21 @@ export function MembersManager({
     setIsEditOpen(true)
   }, [])
 
-  const copyToClipboard = useCallback(() => {
-    navigator.clipboard.writeText(generatedPassword)
+  const copyInviteLink = useCallback(() => {
+    navigator.clipboard.writeText(inviteLink)
+    toast({
+      title: 'Copied',
+      description: 'Invitation link copied to clipboard'
+    })
+  }, [inviteLink, toast])
+
+  const copyResetLink = useCallback(() => {
+    navigator.clipboard.writeText(resetLink)
     toast({
       title: 'Copied',
-      description: 'Password copied to clipboard'
+      description: 'Reset link copied to clipboard'
     })
-  }, [generatedPassword, toast])
+  }, [resetLink, toast])
 
   const handleSelectMember = useCallback((memberId: string, selected: boolean) => {
     setSelectedMembers(prev => {
@@ -564,38 +669,84 @@ export function MembersManager({
               </Badge>
             )
           },
+          {
+            key: 'invitation',
+            header: 'Invitation',
+            mobileLabel: 'Invitation',
+            cell: (member) => {
+              const state = getInvitationState(member)
+              return state ? (
+                <Badge className={INVITATION_BADGES[state].className}>
+                  {INVITATION_BADGES[state].label}
+                </Badge>
+              ) : '-'
+            }
+          },
           {
             key: 'actions',
             header: 'Actions',
             mobileLabel: 'Actions',
             className: 'text-right',
-            cell: (member) => (
-              <div className="space-x-2">
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => openEditDialog(member)}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => handleResetPassword(member.id)}
-                >
-                  <RefreshCw className="h-4 w-4" />
-                </Button>
-                {member.memberStatus !== 'INACTIVE' && (
+            cell: (member) => {
+              const invitationState = getInvitationState(member)
+              return (
+                <div className="space-x-2">
+                  {invitationState && invitationState !== 'ACCEPTED' && member.memberStatus !== 'INACTIVE' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleResendInvitation(member.id)}
+                      aria-label="Resend invitation"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {invitationState === 'PENDING' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRevokeInvitation(member)}
+                      aria-label="Revoke invitation"
+                    >
+                      <MailX className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button
                     size="sm"
                     variant="ghost"
-                    onClick={() => handleDeactivate(member.id)}
+                    onClick={() => openEditDialog(member)}
                   >
-                    <UserX className="h-4 w-4" />
+                    <Edit className="h-4 w-4" />
                   </Button>
-                )}
-              </div>
-            )
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleResetPassword(member.id)}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  {member.twoFactorEnabled && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleResetTwoFactor(member)}
+                      aria-label="Reset 2FA"
+                    >
+                      <ShieldOff className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {member.memberStatus !== 'INACTIVE' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDeactivate(member.id)}
+                    >
+                      <UserX className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )
+            }
           }
         ]}
         emptyState={<div className="text-center py-8 text-muted-foreground">No members found</div>}
@@ -615,7 +766,7 @@ export function MembersManager({
           <DialogHeader>
             <DialogTitle>Add New Member</DialogTitle>
             <DialogDescription>
-              Create a new member account. A secure password will be generated.
+              Create a new member account. They will receive an invitation link to choose their own password.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -819,25 +970,50 @@ export function MembersManager({
         </DialogContent>
       </Dialog>
 
-      <Dialog open={showPassword} onOpenChange={setShowPassword}>
+      <Dialog open={!!inviteLink} onOpenChange={(open) => !open && setInviteLink('')}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invitation Link</DialogTitle>
+            <DialogDescription>
+              The invitation email could not be sent. Share this link with the member securely. It expires in 7 days and stops working if you resend or revoke the invitation.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="p-4 bg-surface rounded-lg font-mono text-sm break-all">
+              {inviteLink}
+            </div>
+            <Button onClick={copyInviteLink} className="w-full gap-2">
+              <Copy className="h-4 w-4" />
+              Copy to Clipboard
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setInviteLink('')}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resetLink} onOpenChange={(open) => !open && setResetLink('')}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Generated Password</DialogTitle>
+            <DialogTitle>Password Reset Link</DialogTitle>
             <DialogDescription>
-              Please copy this password and share it with the member securely. They will be required to change it on first login.
+              Share this link with the member securely. It can be used once and expires in one hour.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="p-4 bg-surface rounded-lg font-mono text-sm break-all">
-              {generatedPassword}
+              {resetLink}
             </div>
-            <Button onClick={copyToClipboard} className="w-full gap-2">
+            <Button onClick={copyResetLink} className="w-full gap-2">
               <Copy className="h-4 w-4" />
               Copy to Clipboard
             </Button>
           </div>
           <DialogFooter>
-            <Button onClick={() => setShowPassword(false)}>
+            <Button onClick={() => setResetLink('')}>
               Close
             </Button>
           </DialogFooter>
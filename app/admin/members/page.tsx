@@ -1,4 +1,6 @@
 import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import { AppLayout } from "@/components/layout/app-layout";
 import { PageHeader } from "@/components/layout/page-header";
 import { getCurrentUser } from "@/lib/rbac";
@@ -44,7 +46,17 @@ export default async function AdminMembersPage() {
       <PageHeader
         title="Member Management"
         description="Manage church members, roles, and permissions"
-      />
+      >
+        <Button asChild variant="outline">
+          <Link href="/admin/members/households">Households</Link>
+        </Button>
+        <Button asChild variant="outline">
+          <Link href="/admin/members/transfers">Transfers</Link>
+        </Button>
+        <Button asChild variant="outline">
+          <Link href="/admin/members/import">Import</Link>
+        </Button>
+      </PageHeader>
       
       <DataFetchErrorBoundary>
         <Suspense fallback={<MembersLoadingSkeleton />}>
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TransferStatus, UserRole } from '@prisma/client'
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findFirst: vi.fn() },
+    localChurch: { findUnique: vi.fn() },
+    memberTransfer: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+    auditLog: { createMany: vi.fn() },
+    $transaction: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/members/transfers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/members/transfers')>()),
+  completeMemberTransfer: vi.fn().mockResolvedValue({ impact: { ledLifeGroups: [], lifeGroups: [], pathways: [] } })
+}))
+
+vi.mock('@/lib/push/notifications', () => ({
+  notifyMemberTransfer: vi.fn()
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn()
+}))
+
+// Import functions after mocks
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { approveMemberTransfer, rejectMemberTransfer, requestMemberTransfer } from './actions'
+
+const db = prisma as any
+
+const cebuAdmin = { id: 'admin-cebu', role: UserRole.ADMIN, tenantId: 'cebu' }
+const manilaAdmin = { id: 'admin-manila', role: UserRole.ADMIN, tenantId: 'manila' }
+
+// Requested by the receiving church
+const pendingTransfer = {
+  id: 'transfer-1',
+  userId: 'member-1',
+  fromChurchId: 'manila',
+  toChurchId: 'cebu',
+  status: TransferStatus.PENDING,
+  requestedById: 'admin-cebu',
+  requestedBy: { role: UserRole.ADMIN, tenantId: 'cebu' }
+}
+
+function signInAs(user: { id: string; role: UserRole; tenantId: string | null }) {
+  vi.mocked(auth).mockResolvedValue({ user } as any)
+}
+
+describe('member transfer actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(db))
+    db.memberTransfer.findUnique.mockResolvedValue(pendingTransfer)
+    db.memberTransfer.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('gives the same error for an unknown email and a member the admin cannot move', async () => {
+    signInAs(cebuAdmin)
+
+    db.user.findFirst.mockResolvedValueOnce(null)
+    const unknown = await requestMemberTransfer({ email: 'nobody@test.com', toChurchId: 'manila' })
+
+    db.user.findFirst.mockResolvedValueOnce({ id: 'member-2', tenantId: 'davao' })
+    const elsewhere = await requestMemberTransfer({ email: 'member2@test.com', toChurchId: 'manila' })
+
+    expect(unknown).toEqual({ success: false, error: 'No member with that email can be transferred' })
+    expect(elsewhere).toEqual(unknown)
+    expect(db.memberTransfer.create).not.toHaveBeenCalled()
+  })
+
+  it('audits a request under both churches', async () => {
+    signInAs(cebuAdmin)
+    db.user.findFirst.mockResolvedValue({ id: 'member-1', tenantId: 'manila' })
+    db.localChurch.findUnique.mockResolvedValue({ id: 'cebu' })
+    db.memberTransfer.findFirst.mockResolvedValue(null)
+    db.memberTransfer.create.mockResolvedValue({ id: 'transfer-1', userId: 'member-1', fromChurchId: 'manila', toChurchId: 'cebu' })
+
+    await requestMemberTransfer({ email: 'member1@test.com', toChurchId: 'cebu' })
+
+    const entries = db.auditLog.createMany.mock.calls[0][0].data
+    expect(entries.map((entry: any) => entry.localChurchId)).toEqual(['manila', 'cebu'])
+    expect(entries[0]).toMatchObject({ action: 'MEMBER_TRANSFER_REQUESTED', entityId: 'transfer-1' })
+  })
+
+  it('leaves a transfer the receiving church asked for to the sending church', async () => {
+    signInAs(cebuAdmin)
+    const byRequester = await approveMemberTransfer({ transferId: 'transfer-1' })
+
+    expect(byRequester).toEqual({ success: false, error: 'Only the sending church can approve this transfer' })
+    expect(db.memberTransfer.updateMany).not.toHaveBeenCalled()
+
+    signInAs(manilaAdmin)
+    const bySender = await approveMemberTransfer({ transferId: 'transfer-1' })
+
+    expect(bySender.success).toBe(true)
+    expect(db.auditLog.createMany.mock.calls[0][0].data).toHaveLength(2)
+  })
+
+  it('does not let the requester approve their own transfer', async () => {
+    const superAdmin = { id: 'super-1', role: UserRole.SUPER_ADMIN, tenantId: null }
+    db.memberTransfer.findUnique.mockResolvedValue({
+      ...pendingTransfer,
+      requestedById: 'super-1',
+      requestedBy: { role: UserRole.SUPER_ADMIN, tenantId: null }
+    })
+    signInAs(superAdmin)
+
+    const result = await approveMemberTransfer({ transferId: 'transfer-1' })
+
+    expect(result).toEqual({ success: false, error: 'Another admin has to approve a transfer you requested' })
+  })
+
+  it('lets only the deciding church reject', async () => {
+    signInAs(cebuAdmin)
+
+    const result = await rejectMemberTransfer({ transferId: 'transfer-1' })
+
+    expect(result).toEqual({ success: false, error: 'Only the sending church can reject this transfer' })
+  })
+})
@@ -0,0 +1,415 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { Prisma, TransferStatus, UserRole } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { hasMinRole } from '@/lib/rbac'
+import { ApplicationError } from '@/lib/errors'
+import {
+  completeMemberTransfer,
+  decideMemberTransferSchema,
+  getTransferImpact,
+  requestMemberTransferSchema,
+  type DecideMemberTransferInput,
+  type RequestMemberTransferInput
+} from '@/lib/members/transfers'
+import { notifyMemberTransfer } from '@/lib/push/notifications'
+
+const TRANSFER_HISTORY_LIMIT = 100
+
+type SessionUser = { id: string; role: UserRole; tenantId?: string | null }
+
+function isChurchAdmin(user: Pick<SessionUser, 'role' | 'tenantId'>, localChurchId: string) {
+  return user.role === UserRole.SUPER_ADMIN || user.tenantId === localChurchId
+}
+
+const requesterSelect = { select: { role: true, tenantId: true } } as const
+
+/**
+ * The church whose admin approves or rejects the transfer: the receiving
+ * church when the sending church asked for it, and the sending church when
+ * the receiving church asked, so a member never moves on one church's say.
+ */
+function getDecidingChurchId(transfer: {
+  fromChurchId: string
+  toChurchId: string
+  requestedBy: { role: UserRole; tenantId: string | null } | null
+}) {
+  return transfer.requestedBy && !isChurchAdmin(transfer.requestedBy, transfer.fromChurchId)
+    ? transfer.fromChurchId
+    : transfer.toChurchId
+}
+
+/** Transfer audit entries are written under both churches so each sees the whole history */
+function getTransferAuditEntries(
+  transfer: { id: string; userId: string; fromChurchId: string; toChurchId: string },
+  actorId: string,
+  action: string,
+  meta: Prisma.InputJsonObject = {}
+): Prisma.AuditLogCreateManyInput[] {
+  return [transfer.fromChurchId, transfer.toChurchId].map(localChurchId => ({
+    actorId,
+    action,
+    entity: 'MemberTransfer',
+    entityId: transfer.id,
+    localChurchId,
+    meta: { userId: transfer.userId, fromChurchId: transfer.fromChurchId, toChurchId: transfer.toChurchId, ...meta }
+  }))
+}
+
+async function findPendingTransfer(transferId: string) {
+  const transfer = await prisma.memberTransfer.findUnique({
+    where: { id: transferId },
+    select: {
+      id: true,
+      userId: true,
+      fromChurchId: true,
+      toChurchId: true,
+      status: true,
+      requestedById: true,
+      requestedBy: requesterSelect
+    }
+  })
+
+  if (!transfer) {
+    throw new ApplicationError('NOT_FOUND', 'Transfer not found')
+  }
+  if (transfer.status !== TransferStatus.PENDING) {
+    throw new ApplicationError('VALIDATION_ERROR', 'This transfer has already been decided')
+  }
+
+  return transfer
+}
+
+function getDecisionError(
+  user: SessionUser,
+  transfer: Awaited<ReturnType<typeof findPendingTransfer>>,
+  decision: 'approve' | 'reject'
+) {
+  const decidingChurchId = getDecidingChurchId(transfer)
+  if (!isChurchAdmin(user, decidingChurchId)) {
+    const side = decidingChurchId === transfer.toChurchId ? 'receiving' : 'sending'
+    return `Only the ${side} church can ${decision} this transfer`
+  }
+  if (decision === 'approve' && transfer.requestedById === user.id) {
+    return 'Another admin has to approve a transfer you requested'
+  }
+  return null
+}
+
+function revalidateTransferPaths() {
+  revalidatePath('/admin/members')
+  revalidatePath('/admin/members/transfers')
+}
+
+export async function listMemberTransfers() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const tenantId = session.user.tenantId
+    const whereClause = session.user.role === UserRole.SUPER_ADMIN
+      ? {}
+      : { OR: [{ fromChurchId: tenantId ?? '' }, { toChurchId: tenantId ?? '' }] }
+
+    const transfers = await prisma.memberTransfer.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        status: true,
+        reason: true,
+        decisionNote: true,
+        decidedAt: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+        fromChurch: { select: { id: true, name: true } },
+        toChurch: { select: { id: true, name: true } },
+        requestedById: true,
+        requestedBy: { select: { name: true, email: true, role: true, tenantId: true } },
+        decidedBy: { select: { name: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: TRANSFER_HISTORY_LIMIT
+    })
+
+    // Pending transfers show what approving them would change
+    const withImpact = await Promise.all(transfers.map(async ({ requestedBy, ...transfer }) => ({
+      ...transfer,
+      requestedBy: requestedBy && { name: requestedBy.name, email: requestedBy.email },
+      decidingChurchId: getDecidingChurchId({
+        fromChurchId: transfer.fromChurch.id,
+        toChurchId: transfer.toChurch.id,
+        requestedBy
+      }),
+      impact: transfer.status === TransferStatus.PENDING
+        ? await getTransferImpact(prisma, {
+            userId: transfer.user.id,
+            fromChurchId: transfer.fromChurch.id,
+            toChurchId: transfer.toChurch.id
+          })
+        : null
+    })))
+
+    return { success: true, data: withImpact }
+  } catch (error) {
+    console.error('List member transfers error:', error)
+    return { success: false, error: 'Failed to list transfers' }
+  }
+}
+
+/** Every local church, so admins can pick the other side of a transfer */
+export async function getTransferChurches() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const churches = await prisma.localChurch.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    })
+
+    return { success: true, data: churches }
+  } catch (error) {
+    console.error('Get transfer churches error:', error)
+    return { success: false, error: 'Failed to get churches' }
+  }
+}
+
+/**
+ * Starts a transfer. The sending church's admin picks the member and the
+ * receiving church; the receiving church's admin finds the member by email.
+ * The other church then decides it.
+ */
+export async function requestMemberTransfer(data: RequestMemberTransferInput) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = requestMemberTransferSchema.parse(data)
+
+    const member = await prisma.user.findFirst({
+      where: validated.userId ? { id: validated.userId } : { email: validated.email },
+      select: { id: true, tenantId: true }
+    })
+
+    // One answer whether or not the email exists, so it can't be used to probe other churches
+    if (
+      !member?.tenantId ||
+      (!isChurchAdmin(session.user, member.tenantId) && !isChurchAdmin(session.user, validated.toChurchId))
+    ) {
+      return { success: false, error: 'No member with that email can be transferred' }
+    }
+
+    const fromChurchId = member.tenantId
+
+    if (fromChurchId === validated.toChurchId) {
+      return { success: false, error: 'This member already belongs to that church' }
+    }
+
+    const [toChurch, pending] = await Promise.all([
+      prisma.localChurch.findUnique({ where: { id: validated.toChurchId }, select: { id: true } }),
+      prisma.memberTransfer.findFirst({
+        where: { userId: member.id, status: TransferStatus.PENDING },
+        select: { id: true }
+      })
+    ])
+
+    if (!toChurch) {
+      return { success: false, error: 'Church not found' }
+    }
+
+    if (pending) {
+      return { success: false, error: 'This member already has a pending transfer' }
+    }
+
+    const transfer = await prisma.memberTransfer.create({
+      data: {
+        userId: member.id,
+        fromChurchId,
+        toChurchId: validated.toChurchId,
+        reason: validated.reason || null,
+        requestedById: session.user.id
+      }
+    })
+
+    await prisma.auditLog.createMany({
+      data: getTransferAuditEntries(transfer, session.user.id, 'MEMBER_TRANSFER_REQUESTED')
+    })
+
+    await notifyMemberTransfer(transfer.id)
+
+    revalidateTransferPaths()
+
+    return { success: true, data: transfer }
+  } catch (error) {
+    console.error('Request member transfer error:', error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    return { success: false, error: 'Failed to request transfer' }
+  }
+}
+
+/**
+ * The deciding church's admin accepts the transfer; whoever requested it
+ * can't also approve it. The old membership is closed rather than deleted;
+ * see lib/members/transfers for what else moves.
+ */
+export async function approveMemberTransfer(data: DecideMemberTransferInput) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = decideMemberTransferSchema.parse(data)
+    const transfer = await findPendingTransfer(validated.transferId)
+
+    const decisionError = getDecisionError(session.user, transfer, 'approve')
+    if (decisionError) {
+      return { success: false, error: decisionError }
+    }
+
+    const now = new Date()
+    const impact = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.memberTransfer.updateMany({
+        where: { id: transfer.id, status: TransferStatus.PENDING },
+        data: {
+          status: TransferStatus.APPROVED,
+          decidedById: session.user.id,
+          decidedAt: now,
+          decisionNote: validated.note || null
+        }
+      })
+      if (claimed.count === 0) {
+        throw new ApplicationError('VALIDATION_ERROR', 'This transfer has already been decided')
+      }
+
+      const result = await completeMemberTransfer(tx, transfer, now)
+
+      await tx.auditLog.createMany({
+        data: getTransferAuditEntries(transfer, session.user.id, 'MEMBER_TRANSFER_APPROVED', {
+          lifeGroupsLeft: result.impact.lifeGroups.map(group => group.id),
+          pathwaysDropped: result.impact.pathways.map(pathway => pathway.pathwayId),
+          pathwaysContinued: result.impact.pathways.flatMap(pathway => pathway.continuesIn ? [pathway.continuesIn.id] : [])
+        })
+      })
+
+      return result.impact
+    })
+
+    await notifyMemberTransfer(transfer.id)
+
+    revalidateTransferPaths()
+
+    return {
+      success: true,
+      data: { lifeGroupsLeft: impact.lifeGroups.length, pathwaysDropped: impact.pathways.length }
+    }
+  } catch (error) {
+    console.error('Approve member transfer error:', error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to approve transfer' }
+  }
+}
+
+export async function rejectMemberTransfer(data: DecideMemberTransferInput) {
+  return closeMemberTransfer(data, TransferStatus.REJECTED)
+}
+
+/** Either church's admin can withdraw a transfer before it is decided */
+export async function cancelMemberTransfer(data: DecideMemberTransferInput) {
+  return closeMemberTransfer(data, TransferStatus.CANCELLED)
+}
+
+async function closeMemberTransfer(
+  data: DecideMemberTransferInput,
+  status: typeof TransferStatus.REJECTED | typeof TransferStatus.CANCELLED
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = decideMemberTransferSchema.parse(data)
+    const transfer = await findPendingTransfer(validated.transferId)
+
+    const decisionError = status === TransferStatus.REJECTED && getDecisionError(session.user, transfer, 'reject')
+    if (decisionError) {
+      return { success: false, error: decisionError }
+    }
+    if (!isChurchAdmin(session.user, transfer.fromChurchId) && !isChurchAdmin(session.user, transfer.toChurchId)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const closed = await prisma.memberTransfer.updateMany({
+      where: { id: transfer.id, status: TransferStatus.PENDING },
+      data: {
+        status,
+        decidedById: session.user.id,
+        decidedAt: new Date(),
+        decisionNote: validated.note || null
+      }
+    })
+    if (closed.count === 0) {
+      return { success: false, error: 'This transfer has already been decided' }
+    }
+
+    await prisma.auditLog.createMany({
+      data: getTransferAuditEntries(
+        transfer,
+        session.user.id,
+        status === TransferStatus.REJECTED ? 'MEMBER_TRANSFER_REJECTED' : 'MEMBER_TRANSFER_CANCELLED'
+      )
+    })
+
+    await notifyMemberTransfer(transfer.id)
+
+    revalidateTransferPaths()
+
+    return { success: true }
+  } catch (error) {
+    console.error('Close member transfer error:', error)
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Failed to update transfer' }
+  }
+}
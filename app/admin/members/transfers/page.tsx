@@ -0,0 +1,43 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { UserRole } from "@prisma/client";
+import { unstable_noStore as noStore } from 'next/cache';
+import { TransfersManager } from "./transfers-manager";
+import { getTransferChurches, listMemberTransfers } from "./actions";
+
+export default async function AdminMemberTransfersPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(user.role)) {
+    redirect("/dashboard");
+  }
+
+  const [transfersResult, churchesResult] = await Promise.all([
+    listMemberTransfers(),
+    getTransferChurches()
+  ]);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Church Transfers"
+        description="Move members between local churches with their history kept"
+      />
+
+      <TransfersManager
+        transfers={transfersResult.success && transfersResult.data ? transfersResult.data : []}
+        churches={churchesResult.success && churchesResult.data ? churchesResult.data : []}
+        userId={user.id}
+        userRole={user.role}
+        userChurchId={user.tenantId}
+      />
+    </AppLayout>
+  );
+}
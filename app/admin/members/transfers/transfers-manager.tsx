@@ -0,0 +1,358 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { TransferStatus, UserRole } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import {
+  approveMemberTransfer,
+  cancelMemberTransfer,
+  rejectMemberTransfer,
+  requestMemberTransfer
+} from './actions'
+
+interface Transfer {
+  id: string
+  status: TransferStatus
+  reason: string | null
+  decisionNote: string | null
+  decidedAt: Date | null
+  createdAt: Date
+  user: { id: string; name: string | null; email: string }
+  fromChurch: { id: string; name: string }
+  toChurch: { id: string; name: string }
+  /** The church that approves or rejects; the other side requested it */
+  decidingChurchId: string
+  requestedById: string | null
+  requestedBy: { name: string | null; email: string } | null
+  decidedBy: { name: string | null; email: string } | null
+  impact: {
+    ledLifeGroups: Array<{ id: string; name: string }>
+    lifeGroups: Array<{ id: string; name: string }>
+    pathways: Array<{ enrollmentId: string; name: string; continuesIn: { id: string; name: string } | null }>
+  } | null
+}
+
+interface TransfersManagerProps {
+  transfers: Transfer[]
+  churches: Array<{ id: string; name: string }>
+  userId: string
+  userRole: UserRole
+  userChurchId: string | null
+}
+
+type Direction = 'out' | 'in'
+
+const STATUS_BADGES: Record<TransferStatus, { label: string; variant: 'warning' | 'success' | 'danger' | 'secondary' }> = {
+  PENDING: { label: 'Pending', variant: 'warning' },
+  APPROVED: { label: 'Approved', variant: 'success' },
+  REJECTED: { label: 'Rejected', variant: 'danger' },
+  CANCELLED: { label: 'Cancelled', variant: 'secondary' }
+}
+
+const emptyRequest = { email: '', toChurchId: '', reason: '' }
+
+export function TransfersManager({ transfers, churches, userId, userRole, userChurchId }: TransfersManagerProps) {
+  const [isLoading, startTransition] = useTransition()
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false)
+  const [direction, setDirection] = useState<Direction>('out')
+  const [request, setRequest] = useState(emptyRequest)
+  const [rejectTarget, setRejectTarget] = useState<Transfer | null>(null)
+  const [rejectNote, setRejectNote] = useState('')
+
+  const isSuperAdmin = userRole === UserRole.SUPER_ADMIN
+  const canDecide = (transfer: Transfer) => isSuperAdmin || transfer.decidingChurchId === userChurchId
+  const receivingChurches = churches.filter((church) => isSuperAdmin || church.id !== userChurchId)
+
+  const handleRequest = () => {
+    const toChurchId = !isSuperAdmin && direction === 'in' ? userChurchId || '' : request.toChurchId
+    startTransition(async () => {
+      const result = await requestMemberTransfer({
+        email: request.email,
+        toChurchId,
+        reason: request.reason || undefined
+      })
+      if (result.success) {
+        toast.success('Transfer requested. The member has been notified')
+        setRequestDialogOpen(false)
+        setRequest(emptyRequest)
+      } else {
+        toast.error(result.error || 'Failed to request transfer')
+      }
+    })
+  }
+
+  const handleApprove = (transfer: Transfer) => {
+    if (!confirm(`Approve moving ${transfer.user.name || transfer.user.email} to ${transfer.toChurch.name}?`)) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await approveMemberTransfer({ transferId: transfer.id })
+      if (result.success) {
+        toast.success('Transfer approved')
+      } else {
+        toast.error(result.error || 'Failed to approve transfer')
+      }
+    })
+  }
+
+  const handleReject = () => {
+    if (!rejectTarget) return
+    startTransition(async () => {
+      const result = await rejectMemberTransfer({ transferId: rejectTarget.id, note: rejectNote || undefined })
+      if (result.success) {
+        toast.success('Transfer rejected')
+        setRejectTarget(null)
+        setRejectNote('')
+      } else {
+        toast.error(result.error || 'Failed to reject transfer')
+      }
+    })
+  }
+
+  const handleCancel = (transfer: Transfer) => {
+    if (!confirm('Cancel this transfer request?')) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await cancelMemberTransfer({ transferId: transfer.id })
+      if (result.success) {
+        toast.success('Transfer cancelled')
+      } else {
+        toast.error(result.error || 'Failed to cancel transfer')
+      }
+    })
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex justify-end">
+        <Button onClick={() => setRequestDialogOpen(true)}>New Transfer</Button>
+      </div>
+
+      {transfers.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground">
+            No transfers yet. Start one when a member moves to another local church.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-4" data-testid="transfers-list">
+          {transfers.map((transfer) => (
+            <Card key={transfer.id}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <CardTitle>{transfer.user.name || transfer.user.email}</CardTitle>
+                    <Badge variant={STATUS_BADGES[transfer.status].variant}>
+                      {STATUS_BADGES[transfer.status].label}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {transfer.fromChurch.name} → {transfer.toChurch.name}
+                  </p>
+                </div>
+                {transfer.status === TransferStatus.PENDING && (
+                  <div className="flex gap-2">
+                    {canDecide(transfer) && (
+                      <>
+                        {transfer.requestedById !== userId && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleApprove(transfer)}
+                            disabled={isLoading || !!transfer.impact?.ledLifeGroups.length}
+                          >
+                            Approve
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRejectTarget(transfer)}
+                          disabled={isLoading}
+                        >
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancel(transfer)}
+                      disabled={isLoading}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="text-muted-foreground">
+                  Requested {format(new Date(transfer.createdAt), 'PP')}
+                  {transfer.requestedBy && ` by ${transfer.requestedBy.name || transfer.requestedBy.email}`}
+                  {transfer.decidedAt && ` · ${STATUS_BADGES[transfer.status].label} ${format(new Date(transfer.decidedAt), 'PP')}`}
+                  {transfer.decidedBy && ` by ${transfer.decidedBy.name || transfer.decidedBy.email}`}
+                </p>
+                {transfer.reason && <p>{transfer.reason}</p>}
+                {transfer.decisionNote && <p className="italic">{transfer.decisionNote}</p>}
+
+                {transfer.impact && (
+                  <div className="rounded-lg border p-3 space-y-1">
+                    <p className="font-medium">On approval</p>
+                    {transfer.impact.ledLifeGroups.length > 0 && (
+                      <p className="text-danger">
+                        Leads {transfer.impact.ledLifeGroups.map((group) => group.name).join(', ')}. Assign another leader first.
+                      </p>
+                    )}
+                    <p className="text-muted-foreground">
+                      {transfer.impact.lifeGroups.length > 0
+                        ? `Leaves ${transfer.impact.lifeGroups.map((group) => group.name).join(', ')}`
+                        : 'Not in any LifeGroup'}
+                    </p>
+                    {transfer.impact.pathways.map((pathway) => (
+                      <p key={pathway.enrollmentId} className="text-muted-foreground">
+                        {pathway.continuesIn
+                          ? `${pathway.name} continues as ${pathway.continuesIn.name}`
+                          : `${pathway.name} is dropped`}
+                      </p>
+                    ))}
+                    <p className="text-muted-foreground">
+                      The membership at {transfer.fromChurch.name} is closed, keeping its history.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={requestDialogOpen} onOpenChange={setRequestDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Transfer</DialogTitle>
+            <DialogDescription>
+              The other church approves the transfer. The member is notified at each step.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!isSuperAdmin && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={direction === 'out' ? 'default' : 'outline'}
+                onClick={() => setDirection('out')}
+              >
+                Send a member
+              </Button>
+              <Button
+                variant={direction === 'in' ? 'default' : 'outline'}
+                onClick={() => setDirection('in')}
+              >
+                Receive a member
+              </Button>
+            </div>
+          )}
+
+          <form
+            id="request-transfer-form"
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleRequest()
+            }}
+          >
+            <div>
+              <Label htmlFor="transfer-email">Member email</Label>
+              <Input
+                id="transfer-email"
+                type="email"
+                value={request.email}
+                onChange={(e) => setRequest({ ...request, email: e.target.value })}
+                required
+              />
+            </div>
+            {(isSuperAdmin || direction === 'out') && (
+              <div>
+                <Label htmlFor="transfer-church">Receiving church</Label>
+                <Select
+                  value={request.toChurchId}
+                  onValueChange={(value) => setRequest({ ...request, toChurchId: value })}
+                >
+                  <SelectTrigger id="transfer-church">
+                    <SelectValue placeholder="Choose a church" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {receivingChurches.map((church) => (
+                      <SelectItem key={church.id} value={church.id}>
+                        {church.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="transfer-reason">Reason (optional)</Label>
+              <Textarea
+                id="transfer-reason"
+                value={request.reason}
+                onChange={(e) => setRequest({ ...request, reason: e.target.value })}
+                rows={3}
+              />
+            </div>
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequestDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="request-transfer-form"
+              disabled={isLoading || !request.email || ((isSuperAdmin || direction === 'out') && !request.toChurchId)}
+            >
+              Request Transfer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rejectTarget} onOpenChange={(open) => !open && setRejectTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject transfer</DialogTitle>
+            <DialogDescription>
+              {rejectTarget?.user.name || rejectTarget?.user.email} stays at {rejectTarget?.fromChurch.name}. The note is shared with them.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reject-note">Note (optional)</Label>
+            <Textarea
+              id="reject-note"
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectTarget(null)}>
+              Back
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={isLoading}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -13,7 +13,10 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import { Checkbox } from '@/components/ui/checkbox'
+import { toast } from 'sonner'
 import { createStep, updateStep, deleteStep } from '../../actions'
+import { StepRequirementBadges } from '../../step-requirement-badges'
 import { Trash2, Edit2, Save, X, Plus } from 'lucide-react'
 
 interface Step {
@@ -21,6 +24,84 @@ interface Step {
   name: string
   description: string | null
   orderIndex: number
+  dueOffsetDays: number | null
+  requiresAttendance: boolean
+  requiresVerification: boolean
+  requiresUpload: boolean
+}
+
+interface StepFormState {
+  name: string
+  description: string
+  dueOffsetDays: string
+  requiresAttendance: boolean
+  requiresVerification: boolean
+  requiresUpload: boolean
+}
+
+const emptyStepForm: StepFormState = {
+  name: '',
+  description: '',
+  dueOffsetDays: '',
+  requiresAttendance: false,
+  requiresVerification: false,
+  requiresUpload: false,
+}
+
+const requirementOptions = [
+  { key: 'requiresVerification', label: 'Leader verification' },
+  { key: 'requiresAttendance', label: 'Attendance' },
+  { key: 'requiresUpload', label: 'File upload' },
+] as const
+
+function toStepRules(form: StepFormState) {
+  return {
+    dueOffsetDays: form.dueOffsetDays.trim() === '' ? null : Number(form.dueOffsetDays),
+    requiresAttendance: form.requiresAttendance,
+    requiresVerification: form.requiresVerification,
+    requiresUpload: form.requiresUpload,
+  }
+}
+
+function StepRulesFields({
+  id,
+  form,
+  onChange,
+}: {
+  id: string
+  form: StepFormState
+  onChange: (form: StepFormState) => void
+}) {
+  return (
+    <>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Days"
+          aria-label="Due after enrollment (days)"
+          value={form.dueOffsetDays}
+          onChange={(e) => onChange({ ...form, dueOffsetDays: e.target.value })}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="space-y-1">
+          {requirementOptions.map((option) => (
+            <div key={option.key} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${option.key}`}
+                checked={form[option.key]}
+                onCheckedChange={(checked) => onChange({ ...form, [option.key]: !!checked })}
+              />
+              <label htmlFor={`${id}-${option.key}`} className="text-sm">
+                {option.label}
+              </label>
+            </div>
+          ))}
+        </div>
+      </TableCell>
+    </>
+  )
 }
 
 interface StepsManagerProps {
@@ -35,31 +116,43 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
   const router = useRouter()
   const [steps, setSteps] = useState(pathway.steps)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [editForm, setEditForm] = useState({ name: '', description: '' })
+  const [editForm, setEditForm] = useState<StepFormState>(emptyStepForm)
   const [isAdding, setIsAdding] = useState(false)
-  const [newStep, setNewStep] = useState({ name: '', description: '' })
+  const [newStep, setNewStep] = useState<StepFormState>(emptyStepForm)
 
   async function handleAdd() {
     if (!newStep.name.trim()) return
 
-    await createStep({
-      pathwayId: pathway.id,
-      name: newStep.name,
-      description: newStep.description || undefined,
-      orderIndex: steps.length,
-    })
+    try {
+      await createStep({
+        pathwayId: pathway.id,
+        name: newStep.name,
+        description: newStep.description || undefined,
+        orderIndex: steps.length,
+        ...toStepRules(newStep),
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add step')
+      return
+    }
 
-    setNewStep({ name: '', description: '' })
+    setNewStep(emptyStepForm)
     setIsAdding(false)
     router.refresh()
   }
 
   async function handleEdit(step: Step) {
     if (editingId === step.id) {
-      await updateStep(step.id, {
-        name: editForm.name,
-        description: editForm.description || undefined,
-      })
+      try {
+        await updateStep(step.id, {
+          name: editForm.name,
+          description: editForm.description || undefined,
+          ...toStepRules(editForm),
+        })
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update step')
+        return
+      }
       setEditingId(null)
       router.refresh()
     } else {
@@ -67,6 +160,10 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
       setEditForm({
         name: step.name,
         description: step.description || '',
+        dueOffsetDays: step.dueOffsetDays?.toString() ?? '',
+        requiresAttendance: step.requiresAttendance,
+        requiresVerification: step.requiresVerification,
+        requiresUpload: step.requiresUpload,
       })
     }
   }
@@ -106,6 +203,8 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
             <TableHead className="w-12">#</TableHead>
             <TableHead>Name</TableHead>
             <TableHead>Description</TableHead>
+            <TableHead className="w-28">Due (days)</TableHead>
+            <TableHead>Requirements</TableHead>
             <TableHead className="w-32">Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -139,6 +238,18 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
                   </span>
                 )}
               </TableCell>
+              {editingId === step.id ? (
+                <StepRulesFields id={step.id} form={editForm} onChange={setEditForm} />
+              ) : (
+                <>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {step.dueOffsetDays !== null ? `Day ${step.dueOffsetDays}` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <StepRequirementBadges step={step} />
+                  </TableCell>
+                </>
+              )}
               <TableCell>
                 <div className="flex gap-1">
                   {editingId === step.id ? (
@@ -217,6 +328,7 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
                   }
                 />
               </TableCell>
+              <StepRulesFields id="new-step" form={newStep} onChange={setNewStep} />
               <TableCell>
                 <div className="flex gap-1">
                   <Button size="sm" variant="ghost" onClick={handleAdd}>
@@ -227,7 +339,7 @@ export default function StepsManager({ pathway }: StepsManagerProps) {
                     variant="ghost"
                     onClick={() => {
                       setIsAdding(false)
-                      setNewStep({ name: '', description: '' })
+                      setNewStep(emptyStepForm)
                     }}
                   >
                     <X className="h-4 w-4" />
@@ -5,6 +5,106 @@ import { PathwayType, UserRole } from '@prisma/client'
 import { revalidatePath } from 'next/cache'
 import { auth } from '@/lib/auth'
 import { hasMinRole } from '@/lib/rbac'
+import { getUnmetPrerequisites, readStepUpload } from '@/app/lib/pathways/progress'
+import { notifyPathwayStepVerified } from '@/lib/push/notifications'
+
+async function requirePathwayAdmin() {
+  const session = await auth()
+  if (!session?.user) {
+    throw new Error('Unauthorized')
+  }
+
+  if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+    throw new Error('Admin access required')
+  }
+
+  return session.user
+}
+
+async function findManagedPathway(id: string) {
+  const user = await requirePathwayAdmin()
+
+  const pathway = await prisma.pathway.findUnique({
+    where: { id },
+    select: { id: true, tenantId: true },
+  })
+
+  if (!pathway || (user.role !== UserRole.SUPER_ADMIN && pathway.tenantId !== user.tenantId)) {
+    throw new Error('Pathway not found')
+  }
+
+  return pathway
+}
+
+/**
+ * A church runs at most one pathway of each built-in type, since enrollment
+ * and transfers look them up by type; only CUSTOM pathways can repeat.
+ */
+async function validatePathwayType(pathwayId: string | null, tenantId: string, type: PathwayType) {
+  if (type === PathwayType.CUSTOM) {
+    return
+  }
+
+  const duplicate = await prisma.pathway.findFirst({
+    where: { tenantId, type, ...(pathwayId && { id: { not: pathwayId } }) },
+    select: { id: true },
+  })
+
+  if (duplicate) {
+    throw new Error(`This church already has a ${type} pathway`)
+  }
+}
+
+/**
+ * Checks that every prerequisite belongs to the same church and that none of
+ * them (directly or through their own prerequisites) requires `pathwayId`.
+ */
+async function validatePrerequisites(
+  pathwayId: string | null,
+  tenantId: string,
+  prerequisiteIds: string[]
+) {
+  if (prerequisiteIds.length === 0) {
+    return
+  }
+
+  if (pathwayId && prerequisiteIds.includes(pathwayId)) {
+    throw new Error('A pathway cannot be its own prerequisite')
+  }
+
+  const found = await prisma.pathway.count({
+    where: { id: { in: prerequisiteIds }, tenantId },
+  })
+
+  if (found !== prerequisiteIds.length) {
+    throw new Error('Prerequisites must be pathways from the same church')
+  }
+
+  if (!pathwayId) {
+    return
+  }
+
+  const links = await prisma.pathwayPrerequisite.findMany({
+    where: { pathway: { tenantId } },
+    select: { pathwayId: true, prerequisiteId: true },
+  })
+  const requires = new Map<string, string[]>()
+  for (const link of links) {
+    requires.set(link.pathwayId, [...(requires.get(link.pathwayId) ?? []), link.prerequisiteId])
+  }
+
+  const visited = new Set<string>()
+  const queue = [...prerequisiteIds]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === pathwayId) {
+      throw new Error('Prerequisites cannot form a loop')
+    }
+    if (visited.has(current)) continue
+    visited.add(current)
+    queue.push(...(requires.get(current) ?? []))
+  }
+}
 
 export async function createPathway(data: {
   name: string
@@ -12,7 +112,17 @@ export async function createPathway(data: {
   type: PathwayType
   tenantId: string
   isActive?: boolean
+  prerequisiteIds?: string[]
 }) {
+  const user = await requirePathwayAdmin()
+  if (user.role !== UserRole.SUPER_ADMIN && data.tenantId !== user.tenantId) {
+    throw new Error('Cannot create pathway for another church')
+  }
+
+  const prerequisiteIds = data.prerequisiteIds ?? []
+  await validatePathwayType(null, data.tenantId, data.type)
+  await validatePrerequisites(null, data.tenantId, prerequisiteIds)
+
   const pathway = await prisma.pathway.create({
     data: {
       name: data.name,
@@ -20,6 +130,9 @@ export async function createPathway(data: {
       type: data.type,
       tenantId: data.tenantId,
       isActive: data.isActive ?? true,
+      prerequisites: {
+        create: prerequisiteIds.map(prerequisiteId => ({ prerequisiteId })),
+      },
     },
   })
 
@@ -34,11 +147,31 @@ export async function updatePathway(
     description?: string
     type?: PathwayType
     isActive?: boolean
+    prerequisiteIds?: string[]
   }
 ) {
+  const existing = await findManagedPathway(id)
+  const { prerequisiteIds, ...fields } = data
+
+  if (fields.type) {
+    await validatePathwayType(id, existing.tenantId, fields.type)
+  }
+
+  if (prerequisiteIds) {
+    await validatePrerequisites(id, existing.tenantId, prerequisiteIds)
+  }
+
   const pathway = await prisma.pathway.update({
     where: { id },
-    data,
+    data: {
+      ...fields,
+      ...(prerequisiteIds && {
+        prerequisites: {
+          deleteMany: {},
+          create: prerequisiteIds.map(prerequisiteId => ({ prerequisiteId })),
+        },
+      }),
+    },
   })
 
   revalidatePath('/admin/pathways')
@@ -47,6 +180,8 @@ export async function updatePathway(
 }
 
 export async function deletePathway(id: string) {
+  await findManagedPathway(id)
+
   await prisma.pathway.delete({
     where: { id },
   })
@@ -54,12 +189,28 @@ export async function deletePathway(id: string) {
   revalidatePath('/admin/pathways')
 }
 
+interface StepRuleInput {
+  requiresAttendance?: boolean
+  requiresVerification?: boolean
+  requiresUpload?: boolean
+  dueOffsetDays?: number | null
+}
+
+function validateStepRules(data: StepRuleInput) {
+  if (data.dueOffsetDays != null && (!Number.isInteger(data.dueOffsetDays) || data.dueOffsetDays < 0)) {
+    throw new Error('Due offset must be a whole number of days')
+  }
+}
+
 export async function createStep(data: {
   pathwayId: string
   name: string
   description?: string
   orderIndex: number
-}) {
+} & StepRuleInput) {
+  await findManagedPathway(data.pathwayId)
+  validateStepRules(data)
+
   const step = await prisma.pathwayStep.create({
     data,
   })
@@ -75,8 +226,20 @@ export async function updateStep(
     name?: string
     description?: string
     orderIndex?: number
-  }
+  } & StepRuleInput
 ) {
+  const existing = await prisma.pathwayStep.findUnique({
+    where: { id },
+    select: { pathwayId: true },
+  })
+
+  if (!existing) {
+    throw new Error('Step not found')
+  }
+
+  await findManagedPathway(existing.pathwayId)
+  validateStepRules(data)
+
   const step = await prisma.pathwayStep.update({
     where: { id },
     data,
@@ -92,14 +255,18 @@ export async function deleteStep(id: string) {
     select: { pathwayId: true },
   })
 
+  if (!step) {
+    return
+  }
+
+  await findManagedPathway(step.pathwayId)
+
   await prisma.pathwayStep.delete({
     where: { id },
   })
 
-  if (step) {
-    revalidatePath('/admin/pathways')
-    revalidatePath(`/admin/pathways/${step.pathwayId}/steps`)
-  }
+  revalidatePath('/admin/pathways')
+  revalidatePath(`/admin/pathways/${step.pathwayId}/steps`)
 }
 
 export async function markStepComplete(
@@ -158,7 +325,8 @@ export async function enrollUser(
 export async function verifyStepCompletion(
   enrollmentId: string,
   stepId: string,
-  notes?: string
+  notes?: string,
+  file?: File | null
 ) {
   const session = await auth()
   if (!session?.user) {
@@ -179,19 +347,39 @@ export async function verifyStepCompletion(
     include: { user: true, pathway: true }
   })
 
-  if (!enrollment) {
+  if (!enrollment || (user.role !== UserRole.SUPER_ADMIN && enrollment.pathway.tenantId !== user.tenantId)) {
     throw new Error('Enrollment not found')
   }
 
+  const step = await prisma.pathwayStep.findFirst({
+    where: { id: stepId, pathwayId: enrollment.pathwayId },
+  })
+
+  if (!step) {
+    throw new Error('Step not found')
+  }
+
   // Check for existing progress
   const existing = await prisma.pathwayProgress.findFirst({
     where: { stepId, userId: enrollment.userId },
+    omit: { fileData: true },
   })
 
   if (existing) {
     return existing
   }
 
+  const unmetPrerequisites = await getUnmetPrerequisites(enrollment.pathwayId, enrollment.userId)
+  if (unmetPrerequisites.length > 0) {
+    throw new Error(`Member must complete ${unmetPrerequisites.map(p => p.name).join(', ')} first`)
+  }
+
+  if (step.requiresUpload && !file) {
+    throw new Error('This step requires an uploaded file')
+  }
+
+  const upload = file ? await readStepUpload(file) : null
+
   // Create progress with leader verification
   const progress = await prisma.pathwayProgress.create({
     data: {
@@ -199,7 +387,9 @@ export async function verifyStepCompletion(
       userId: enrollment.userId,
       completedBy: user.id,
       notes: notes || `Verified by ${user.name || user.email}`,
+      ...upload,
     },
+    omit: { fileData: true },
   })
 
   // Create audit log entry
@@ -214,12 +404,17 @@ export async function verifyStepCompletion(
         pathwayId: enrollment.pathwayId,
         stepId,
         userId: enrollment.userId,
-        notes
+        notes,
+        fileName: upload?.fileName ?? null
       }
     }
   })
 
+  await detectPathwayCompletion(enrollment.userId, enrollment.pathwayId)
+  await notifyPathwayStepVerified({ userId: enrollment.userId, stepId })
+
   revalidatePath('/admin/pathways')
+  revalidatePath('/leader/pathways')
   revalidatePath('/pathways')
   return progress
 }
@@ -387,12 +582,17 @@ export async function markAttendanceStepComplete(
   const attendanceSteps = await prisma.pathwayStep.findMany({
     where: {
       pathwayId,
-      requiresAttendance: true
+      requiresAttendance: true,
+      requiresUpload: false
     }
   })
 
   if (attendanceSteps.length === 0) return
 
+  // Attendance doesn't count toward a pathway the member isn't eligible for yet
+  const unmetPrerequisites = await getUnmetPrerequisites(pathwayId, userId)
+  if (unmetPrerequisites.length > 0) return
+
   // Mark attendance steps as completed (simplified - in real app, you'd map specific events to steps)
   for (const step of attendanceSteps) {
     const existing = await prisma.pathwayProgress.findFirst({
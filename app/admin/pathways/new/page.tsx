@@ -39,11 +39,17 @@ export default async function NewPathwayPage() {
     redirect('/')
   }
 
+  const otherPathways = await prisma.pathway.findMany({
+    where: { tenantId: user.tenantId! },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  })
+
   return (
     <AppLayout user={user}>
       <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold mb-6">Create Pathway</h1>
-      <PathwayForm tenantId={user.tenantId!} />
+      <PathwayForm tenantId={user.tenantId!} otherPathways={otherPathways} />
       </div>
     </AppLayout>
   )
@@ -16,6 +16,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { StepRequirementBadges } from './step-requirement-badges'
 
 export default async function PathwaysPage() {
   const session = await auth()
@@ -39,6 +40,9 @@ export default async function PathwaysPage() {
       steps: {
         orderBy: { orderIndex: 'asc' },
       },
+      prerequisites: {
+        select: { prerequisite: { select: { id: true, name: true } } },
+      },
       _count: {
         select: { enrollments: true },
       },
@@ -74,6 +78,11 @@ export default async function PathwaysPage() {
                     {pathway._count.enrollments} enrolled
                   </Badge>
                 </div>
+                {pathway.prerequisites.length > 0 && (
+                  <p className="text-sm text-ink-muted mt-2">
+                    Requires: {pathway.prerequisites.map(({ prerequisite }) => prerequisite.name).join(', ')}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" size="sm" asChild>
@@ -101,6 +110,8 @@ export default async function PathwaysPage() {
                       <TableHead className="w-12">#</TableHead>
                       <TableHead>Name</TableHead>
                       <TableHead>Description</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead>Requirements</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -111,6 +122,12 @@ export default async function PathwaysPage() {
                         <TableCell className="text-sm text-ink-muted">
                           {step.description}
                         </TableCell>
+                        <TableCell className="text-sm text-ink-muted">
+                          {step.dueOffsetDays !== null ? `Day ${step.dueOffsetDays}` : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <StepRequirementBadges step={step} />
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -26,6 +26,8 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { toast } from 'sonner'
 import { createPathway, updatePathway } from './actions'
 
 const pathwaySchema = z.object({
@@ -33,6 +35,7 @@ const pathwaySchema = z.object({
   description: z.string().optional(),
   type: z.nativeEnum(PathwayType),
   isActive: z.boolean().default(true),
+  prerequisiteIds: z.array(z.string()).default([]),
 })
 
 type PathwayFormData = z.infer<typeof pathwaySchema>
@@ -45,10 +48,13 @@ interface PathwayFormProps {
     description: string | null
     type: PathwayType
     isActive: boolean
+    prerequisiteIds: string[]
   }
+  /** Other pathways in the church that can be required before this one */
+  otherPathways: Array<{ id: string; name: string }>
 }
 
-export default function PathwayForm({ tenantId, pathway }: PathwayFormProps) {
+export default function PathwayForm({ tenantId, pathway, otherPathways }: PathwayFormProps) {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -57,8 +63,9 @@ export default function PathwayForm({ tenantId, pathway }: PathwayFormProps) {
     defaultValues: {
       name: pathway?.name || '',
       description: pathway?.description || '',
-      type: pathway?.type || PathwayType.ROOTS,
+      type: pathway?.type || PathwayType.CUSTOM,
       isActive: pathway?.isActive ?? true,
+      prerequisiteIds: pathway?.prerequisiteIds ?? [],
     },
   })
 
@@ -74,6 +81,7 @@ export default function PathwayForm({ tenantId, pathway }: PathwayFormProps) {
       router.refresh()
     } catch (error) {
       console.error('Failed to save pathway:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save pathway')
     } finally {
       setIsSubmitting(false)
     }
@@ -129,16 +137,53 @@ export default function PathwayForm({ tenantId, pathway }: PathwayFormProps) {
                   <SelectItem value={PathwayType.ROOTS}>ROOTS</SelectItem>
                   <SelectItem value={PathwayType.VINES}>VINES</SelectItem>
                   <SelectItem value={PathwayType.RETREAT}>RETREAT</SelectItem>
+                  <SelectItem value={PathwayType.CUSTOM}>CUSTOM</SelectItem>
                 </SelectContent>
               </Select>
               <FormDescription>
-                ROOTS: Auto-enrolled for new believers. VINES: Opt-in. RETREAT: Schedule/attendance tracking.
+                ROOTS: Auto-enrolled for new believers. VINES: Opt-in. RETREAT: Schedule/attendance tracking. CUSTOM: Opt-in pathway you design.
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
 
+        {otherPathways.length > 0 && (
+          <FormField
+            control={form.control}
+            name="prerequisiteIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Prerequisites</FormLabel>
+                <FormDescription>
+                  Members must complete these pathways before they can enroll or progress.
+                </FormDescription>
+                <div className="space-y-2 rounded-xl border p-4">
+                  {otherPathways.map((other) => (
+                    <div key={other.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`prerequisite-${other.id}`}
+                        checked={field.value.includes(other.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? [...field.value, other.id]
+                              : field.value.filter((id) => id !== other.id)
+                          )
+                        }
+                      />
+                      <label htmlFor={`prerequisite-${other.id}`} className="text-sm">
+                        {other.name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="isActive"
@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge'
+
+interface StepRequirementBadgesProps {
+  step: {
+    requiresAttendance: boolean
+    requiresVerification: boolean
+    requiresUpload: boolean
+  }
+}
+
+export function StepRequirementBadges({ step }: StepRequirementBadgesProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {step.requiresAttendance && (
+        <Badge variant="outline" className="text-xs">Attendance</Badge>
+      )}
+      {step.requiresVerification && (
+        <Badge variant="outline" className="text-xs">Leader verification</Badge>
+      )}
+      {step.requiresUpload && (
+        <Badge variant="outline" className="text-xs">File upload</Badge>
+      )}
+    </div>
+  )
+}
@@ -1,23 +1,121 @@
 export const dynamic = 'force-dynamic'
 
+import { ReactNode } from 'react'
 import { auth } from '@/lib/auth'
 import { redirect } from 'next/navigation'
+import { format } from 'date-fns'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
 import { AppLayout } from '@/components/layout/app-layout'
 import { PageHeader } from '@/components/layout/page-header'
-import { 
-  NativeCard, 
-  NativeCardContent, 
-  NativeCardHeader, 
+import {
+  NativeCard,
+  NativeCardContent,
+  NativeCardHeader,
   NativeCardTitle,
   NativeButton
 } from '@/components/ui/native'
-import { 
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Progress } from '@/components/ui/progress'
+import {
   Users, UserCheck, Calendar,
-  Activity, Download 
+  Activity, Download
 } from 'lucide-react'
-import Link from 'next/link'
+import {
+  parseReportFilters,
+  getReportSummary,
+  getServiceAttendanceReport,
+  getMemberGrowthReport,
+  getLifeGroupAttendanceReport,
+  getLifeGroupLineageReport,
+  getEventFillReport,
+  getPathwayFunnelReport,
+  LifeGroupLineageNode,
+  ReportFilters,
+  ReportType
+} from '@/lib/reports'
 
-export default async function ReportsPage() {
+function exportHref(report: ReportType, filters: ReportFilters) {
+  const params = new URLSearchParams({
+    report,
+    from: format(filters.from, 'yyyy-MM-dd'),
+    to: format(filters.to, 'yyyy-MM-dd'),
+    ...(filters.churchId && { churchId: filters.churchId })
+  })
+  return `/api/export/reports?${params}`
+}
+
+function ReportSection({
+  title,
+  exportUrl,
+  empty,
+  emptyMessage = 'No data for this period',
+  children
+}: {
+  title: string
+  exportUrl: string
+  empty: boolean
+  emptyMessage?: string
+  children: ReactNode
+}) {
+  return (
+    <NativeCard>
+      <NativeCardHeader className="flex flex-row items-center justify-between space-y-0">
+        <NativeCardTitle>{title}</NativeCardTitle>
+        <a
+          href={exportUrl}
+          className="inline-flex items-center gap-2 text-sm text-accent hover:underline"
+        >
+          <Download className="h-4 w-4" />
+          CSV
+        </a>
+      </NativeCardHeader>
+      <NativeCardContent>
+        {empty ? (
+          <p className="text-sm text-ink-muted py-4 text-center">{emptyMessage}</p>
+        ) : children}
+      </NativeCardContent>
+    </NativeCard>
+  )
+}
+
+function LineageTree({ nodes }: { nodes: LifeGroupLineageNode[] }) {
+  return (
+    <ul className="space-y-2 border-l border-border pl-4">
+      {nodes.map(node => (
+        <li key={node.lifeGroupId}>
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            <span className="font-medium">{node.name}</span>
+            <span className="text-ink-muted">
+              {node.leaderName} · {node.activeMembers} members
+              {node.multipliedAt && ` · multiplied ${format(node.multipliedAt, 'MMM d, yyyy')}`}
+              {!node.isActive && ' · inactive'}
+            </span>
+          </div>
+          {node.children.length > 0 && (
+            <div className="mt-2">
+              <LineageTree nodes={node.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default async function ReportsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; churchId?: string }>
+}) {
+  const resolvedSearchParams = await searchParams
   const session = await auth()
   if (!session?.user) {
     redirect('/auth/signin')
@@ -27,14 +125,80 @@ export default async function ReportsPage() {
     redirect('/dashboard')
   }
 
+  const user = session.user
+  const isSuperAdmin = user.role === UserRole.SUPER_ADMIN
+  const filters = parseReportFilters(resolvedSearchParams, user)
+
+  const [summary, attendance, growth, lifeGroups, lineage, events, pathways, churches] = await Promise.all([
+    getReportSummary(user, filters),
+    getServiceAttendanceReport(user, filters),
+    getMemberGrowthReport(user, filters),
+    getLifeGroupAttendanceReport(user, filters),
+    getLifeGroupLineageReport(user, filters),
+    getEventFillReport(user, filters),
+    getPathwayFunnelReport(user, filters),
+    isSuperAdmin
+      ? prisma.localChurch.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } })
+      : Promise.resolve([])
+  ])
+
+  const maxServiceTotal = Math.max(1, ...attendance.map(row => row.total))
+  // Only families of groups that have multiplied make a tree worth drawing
+  const multipliedLineage = lineage.filter(root => root.descendants > 0)
+  const rangeLabel = `${format(filters.from, 'MMM d, yyyy')} – ${format(filters.to, 'MMM d, yyyy')}`
+
   return (
     <AppLayout user={session.user}>
       <PageHeader
         title="Reports & Analytics"
         description="Church performance metrics and insights"
       />
-      
+
       <div className="space-y-6">
+        {/* Filters */}
+        <NativeCard>
+          <NativeCardContent className="pt-6">
+            <form method="get" className="flex flex-col gap-4 sm:flex-row sm:items-end">
+              <label className="flex flex-col gap-1 text-sm">
+                From
+                <input
+                  type="date"
+                  name="from"
+                  defaultValue={format(filters.from, 'yyyy-MM-dd')}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                To
+                <input
+                  type="date"
+                  name="to"
+                  defaultValue={format(filters.to, 'yyyy-MM-dd')}
+                  className="rounded-md border border-border bg-surface px-3 py-2"
+                />
+              </label>
+              {isSuperAdmin && (
+                <label className="flex flex-col gap-1 text-sm">
+                  Church
+                  <select
+                    name="churchId"
+                    defaultValue={filters.churchId || ''}
+                    className="rounded-md border border-border bg-surface px-3 py-2"
+                  >
+                    <option value="">All churches</option>
+                    {churches.map(church => (
+                      <option key={church.id} value={church.id}>{church.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <NativeButton type="submit" variant="secondary">
+                Apply
+              </NativeButton>
+            </form>
+          </NativeCardContent>
+        </NativeCard>
+
         {/* Overview Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <NativeCard>
@@ -45,21 +209,21 @@ export default async function ReportsPage() {
               <Users className="h-4 w-4 text-ink-muted" />
             </NativeCardHeader>
             <NativeCardContent>
-              <div className="text-2xl font-bold">-</div>
-              <p className="text-xs text-ink-muted">Loading...</p>
+              <div className="text-2xl font-bold">{summary.activeMembers}</div>
+              <p className="text-xs text-ink-muted">Active memberships</p>
             </NativeCardContent>
           </NativeCard>
 
           <NativeCard>
             <NativeCardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <NativeCardTitle className="text-sm font-medium">
-                Recent Check-ins
+                Check-ins
               </NativeCardTitle>
               <UserCheck className="h-4 w-4 text-ink-muted" />
             </NativeCardHeader>
             <NativeCardContent>
-              <div className="text-2xl font-bold">-</div>
-              <p className="text-xs text-ink-muted">Loading...</p>
+              <div className="text-2xl font-bold">{summary.checkinsInRange}</div>
+              <p className="text-xs text-ink-muted">{rangeLabel}</p>
             </NativeCardContent>
           </NativeCard>
 
@@ -71,8 +235,8 @@ export default async function ReportsPage() {
               <Calendar className="h-4 w-4 text-ink-muted" />
             </NativeCardHeader>
             <NativeCardContent>
-              <div className="text-2xl font-bold">-</div>
-              <p className="text-xs text-ink-muted">Loading...</p>
+              <div className="text-2xl font-bold">{summary.upcomingEvents}</div>
+              <p className="text-xs text-ink-muted">Scheduled from today</p>
             </NativeCardContent>
           </NativeCard>
 
@@ -84,41 +248,177 @@ export default async function ReportsPage() {
               <Activity className="h-4 w-4 text-ink-muted" />
             </NativeCardHeader>
             <NativeCardContent>
-              <div className="text-2xl font-bold">-</div>
-              <p className="text-xs text-ink-muted">Loading...</p>
+              <div className="text-2xl font-bold">{summary.activeLifeGroups}</div>
+              <p className="text-xs text-ink-muted">Currently running</p>
             </NativeCardContent>
           </NativeCard>
         </div>
 
-        {/* Quick Actions */}
-        <NativeCard>
-          <NativeCardHeader>
-            <NativeCardTitle className="flex items-center gap-2">
-              <Download className="h-5 w-5" />
-              Export Reports
-            </NativeCardTitle>
-          </NativeCardHeader>
-          <NativeCardContent>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              <NativeButton asChild variant="secondary" className="w-full">
-                <Link href="/admin/services">
-                  Sunday Service Report
-                </Link>
-              </NativeButton>
-              <NativeButton asChild variant="secondary" className="w-full">
-                <Link href="/admin/lifegroups">
-                  Life Groups Report
-                </Link>
-              </NativeButton>
-              <NativeButton asChild variant="secondary" className="w-full">
-                <Link href="/admin/pathways">
-                  Pathways Progress Report
-                </Link>
-              </NativeButton>
-            </div>
-          </NativeCardContent>
-        </NativeCard>
+        <ReportSection
+          title="Service Attendance"
+          exportUrl={exportHref('attendance', filters)}
+          empty={attendance.length === 0}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                {isSuperAdmin && <TableHead>Church</TableHead>}
+                <TableHead className="w-1/3">Attendance</TableHead>
+                <TableHead className="text-right">First-time</TableHead>
+                <TableHead className="text-right">Returning</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attendance.map(row => (
+                <TableRow key={row.serviceId}>
+                  <TableCell>{format(row.date, 'MMM d, yyyy')}</TableCell>
+                  {isSuperAdmin && <TableCell>{row.churchName}</TableCell>}
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={(row.total / maxServiceTotal) * 100} className="h-2" />
+                      <span className="text-sm font-medium w-10 text-right">{row.total}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.firstTime}</TableCell>
+                  <TableCell className="text-right">{row.returning}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ReportSection>
+
+        <ReportSection
+          title="Member Growth"
+          exportUrl={exportHref('growth', filters)}
+          empty={growth.length === 0}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead className="text-right">Joined</TableHead>
+                <TableHead className="text-right">Left</TableHead>
+                <TableHead className="text-right">Active at Month End</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {growth.map(row => (
+                <TableRow key={row.month}>
+                  <TableCell>{row.month}</TableCell>
+                  <TableCell className="text-right">+{row.joined}</TableCell>
+                  <TableCell className="text-right">-{row.left}</TableCell>
+                  <TableCell className="text-right font-medium">{row.activeAtMonthEnd}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ReportSection>
+
+        <ReportSection
+          title="LifeGroup Attendance"
+          exportUrl={exportHref('lifegroups', filters)}
+          empty={lifeGroups.length === 0}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>LifeGroup</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+                <TableHead className="text-right">Sessions</TableHead>
+                <TableHead className="w-1/3">Attendance Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lifeGroups.map(row => (
+                <TableRow key={row.lifeGroupId}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{row.activeMembers}</TableCell>
+                  <TableCell className="text-right">{row.sessions}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={row.attendanceRate} className="h-2" />
+                      <span className="text-sm font-medium w-14 text-right">{row.attendanceRate}%</span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ReportSection>
+
+        <ReportSection
+          title="LifeGroup Lineage"
+          exportUrl={exportHref('lineage', filters)}
+          empty={multipliedLineage.length === 0}
+          emptyMessage="No LifeGroup has multiplied yet"
+        >
+          <LineageTree nodes={multipliedLineage} />
+        </ReportSection>
+
+        <ReportSection
+          title="Event Fill Rates"
+          exportUrl={exportHref('events', filters)}
+          empty={events.length === 0}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Going / Capacity</TableHead>
+                <TableHead className="text-right">Waitlist</TableHead>
+                <TableHead className="w-1/4">Fill Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(row => (
+                <TableRow key={row.eventId}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell>{format(row.startDateTime, 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right">{row.going} / {row.capacity}</TableCell>
+                  <TableCell className="text-right">{row.waitlisted}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={Math.min(row.fillRate, 100)} className="h-2" />
+                      <span className="text-sm font-medium w-14 text-right">{row.fillRate}%</span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ReportSection>
+
+        <ReportSection
+          title="Pathway Funnels"
+          exportUrl={exportHref('pathways', filters)}
+          empty={pathways.length === 0}
+        >
+          <div className="space-y-6">
+            {pathways.map(pathway => (
+              <div key={pathway.pathwayId} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">{pathway.name}</p>
+                  <p className="text-sm text-ink-muted">
+                    {pathway.enrolled} enrolled · {pathway.completed} completed
+                  </p>
+                </div>
+                {pathway.steps.map(step => (
+                  <div key={step.stepId} className="flex items-center gap-3 text-sm">
+                    <span className="w-48 truncate">{step.orderIndex}. {step.name}</span>
+                    <Progress
+                      value={pathway.enrolled > 0 ? (step.completed / pathway.enrolled) * 100 : 0}
+                      className="h-2"
+                    />
+                    <span className="w-10 text-right">{step.completed}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </ReportSection>
       </div>
     </AppLayout>
   )
-}
\ No newline at end of file
+}
@@ -6,6 +6,15 @@ import { revalidatePath } from 'next/cache'
 import { hasMinRole } from '@/lib/rbac'
 import { UserRole } from '@prisma/client'
 import { createTenantWhereClause } from '@/lib/rbac'
+import { z } from 'zod'
+import {
+  clearUpcomingOccurrences,
+  getServiceEnd,
+  materializeSchedule,
+  parseScheduleDate,
+  serviceScheduleSchema,
+  type ServiceScheduleInput
+} from '@/lib/services/schedules'
 
 export async function listServices({ 
   churchId,
@@ -73,9 +82,11 @@ export async function listServices({
 }
 
 export async function createService({
+  name,
   date,
   localChurchId
 }: {
+  name?: string
   date: Date
   localChurchId: string
 }) {
@@ -95,7 +106,10 @@ export async function createService({
 
     const service = await prisma.service.create({
       data: {
+        name: name?.trim() || null,
         date,
+        // A service created without a time stays open for the whole day
+        endsAt: getServiceEnd({ date, endsAt: null }),
         localChurchId
       },
       include: {
@@ -108,13 +122,20 @@ export async function createService({
       }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_CREATED',
+        entity: 'Service',
+        entityId: service.id,
+        localChurchId,
+        meta: { name: service.name, date: date.toISOString() }
+      }
+    })
+
     revalidatePath('/admin/services')
     return { success: true, data: service }
   } catch (error) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if ((error as any)?.code === 'P2002') {
-      return { success: false, error: 'Service already exists for this date' }
-    }
     console.error('Create service error:', error)
     return { success: false, error: 'Failed to create service' }
   }
@@ -133,7 +154,7 @@ export async function deleteService({ id }: { id: string }) {
 
     const service = await prisma.service.findUnique({
       where: { id },
-      select: { localChurchId: true }
+      select: { localChurchId: true, name: true, date: true }
     })
 
     if (!service) {
@@ -148,6 +169,17 @@ export async function deleteService({ id }: { id: string }) {
       where: { id }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_DELETED',
+        entity: 'Service',
+        entityId: id,
+        localChurchId: service.localChurchId,
+        meta: { name: service.name, date: service.date.toISOString() }
+      }
+    })
+
     revalidatePath('/admin/services')
     return { success: true }
   } catch (error) {
@@ -317,4 +349,220 @@ export async function getLocalChurches() {
     console.error('Get local churches error:', error)
     return { success: false, error: 'Failed to get churches' }
   }
-}
\ No newline at end of file
+}
+export async function listServiceSchedules({ churchId }: { churchId?: string } = {}) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const whereClause = await createTenantWhereClause(
+      session.user,
+      {},
+      churchId,
+      'localChurchId'
+    )
+
+    const schedules = await prisma.serviceSchedule.findMany({
+      where: whereClause,
+      include: {
+        localChurch: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }]
+    })
+
+    return { success: true, data: schedules }
+  } catch (error) {
+    console.error('List service schedules error:', error)
+    return { success: false, error: 'Failed to list schedules' }
+  }
+}
+
+function toScheduleData(input: ServiceScheduleInput) {
+  return {
+    name: input.name,
+    localChurchId: input.localChurchId,
+    daysOfWeek: [...new Set(input.daysOfWeek)].sort((a, b) => a - b),
+    startTime: input.startTime,
+    durationMinutes: input.durationMinutes,
+    timeZone: input.timeZone,
+    startsOn: parseScheduleDate(input.startsOn),
+    endsOn: input.endsOn ? parseScheduleDate(input.endsOn) : null,
+    isActive: input.isActive
+  }
+}
+
+/**
+ * Creates a recurring schedule and immediately materializes its upcoming
+ * services so they show up for check-in without waiting for the nightly job.
+ */
+export async function createServiceSchedule(input: z.input<typeof serviceScheduleSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = serviceScheduleSchema.parse(input)
+
+    if (session.user.role !== 'SUPER_ADMIN' && validated.localChurchId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot create schedule for another church' }
+    }
+
+    const schedule = await prisma.serviceSchedule.create({
+      data: toScheduleData(validated)
+    })
+
+    const created = await materializeSchedule(schedule.id)
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_SCHEDULE_CREATED',
+        entity: 'ServiceSchedule',
+        entityId: schedule.id,
+        localChurchId: schedule.localChurchId,
+        meta: { name: schedule.name, servicesCreated: created }
+      }
+    })
+
+    revalidatePath('/admin/services')
+    return { success: true, data: { schedule, servicesCreated: created } }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0]?.message || 'Invalid schedule' }
+    }
+    console.error('Create service schedule error:', error)
+    return { success: false, error: 'Failed to create schedule' }
+  }
+}
+
+/**
+ * Updates a schedule and rebuilds its upcoming occurrences. Services that
+ * already have check-ins are kept even if they no longer match the new rule.
+ */
+export async function updateServiceSchedule({
+  id,
+  ...input
+}: { id: string } & z.input<typeof serviceScheduleSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = serviceScheduleSchema.parse(input)
+
+    const existing = await prisma.serviceSchedule.findUnique({
+      where: { id },
+      select: { localChurchId: true }
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Schedule not found' }
+    }
+
+    if (
+      session.user.role !== 'SUPER_ADMIN' &&
+      (existing.localChurchId !== session.user.tenantId || validated.localChurchId !== session.user.tenantId)
+    ) {
+      return { success: false, error: 'Cannot update schedule for another church' }
+    }
+
+    const schedule = await prisma.serviceSchedule.update({
+      where: { id },
+      data: toScheduleData(validated)
+    })
+
+    await clearUpcomingOccurrences(schedule.id)
+    const created = await materializeSchedule(schedule.id)
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_SCHEDULE_UPDATED',
+        entity: 'ServiceSchedule',
+        entityId: schedule.id,
+        localChurchId: schedule.localChurchId,
+        meta: { name: schedule.name, isActive: schedule.isActive }
+      }
+    })
+
+    revalidatePath('/admin/services')
+    return { success: true, data: { schedule, servicesCreated: created } }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0]?.message || 'Invalid schedule' }
+    }
+    console.error('Update service schedule error:', error)
+    return { success: false, error: 'Failed to update schedule' }
+  }
+}
+
+/**
+ * Deletes a schedule along with its upcoming, unattended services. Past
+ * services stay in place as one-off services for attendance history.
+ */
+export async function deleteServiceSchedule({ id }: { id: string }) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const schedule = await prisma.serviceSchedule.findUnique({
+      where: { id },
+      select: { name: true, localChurchId: true }
+    })
+
+    if (!schedule) {
+      return { success: false, error: 'Schedule not found' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && schedule.localChurchId !== session.user.tenantId) {
+      return { success: false, error: 'Cannot delete schedule from another church' }
+    }
+
+    await clearUpcomingOccurrences(id)
+    await prisma.serviceSchedule.delete({ where: { id } })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_SCHEDULE_DELETED',
+        entity: 'ServiceSchedule',
+        entityId: id,
+        localChurchId: schedule.localChurchId,
+        meta: { name: schedule.name }
+      }
+    })
+
+    revalidatePath('/admin/services')
+    return { success: true }
+  } catch (error) {
+    console.error('Delete service schedule error:', error)
+    return { success: false, error: 'Failed to delete schedule' }
+  }
+}
@@ -0,0 +1,217 @@
+'use server'
+
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { UserRole } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { hashPassword } from '@/lib/password'
+import { createTenantWhereClause, getAccessibleChurchIds, hasMinRole } from '@/lib/rbac'
+import {
+  KIOSK_COOKIE_MAX_AGE_SECONDS,
+  KIOSK_COOKIE_NAME,
+  issueKioskDeviceToken,
+  kioskPinSchema
+} from '@/lib/checkin/kiosk'
+
+const createKioskSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name too long'),
+  localChurchId: z.string().min(1, 'Church is required'),
+  pin: kioskPinSchema
+})
+
+export async function listKiosks() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const whereClause = await createTenantWhereClause(session.user, {}, undefined, 'localChurchId')
+
+    const kiosks = await prisma.checkinKiosk.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        launchedAt: true,
+        lastSeenAt: true,
+        deviceTokenHash: true,
+        localChurch: { select: { id: true, name: true } }
+      },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }]
+    })
+
+    return {
+      success: true,
+      data: kiosks.map(({ deviceTokenHash, ...kiosk }) => ({
+        ...kiosk,
+        isLaunched: !!deviceTokenHash
+      }))
+    }
+  } catch (error) {
+    console.error('List kiosks error:', error)
+    return { success: false, error: 'Failed to list kiosks' }
+  }
+}
+
+export async function createKiosk(data: z.infer<typeof createKioskSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validated = createKioskSchema.parse(data)
+
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    if (!accessibleChurchIds.includes(validated.localChurchId)) {
+      return { success: false, error: 'Cannot create kiosk for another church' }
+    }
+
+    const kiosk = await prisma.$transaction(async (tx) => {
+      const created = await tx.checkinKiosk.create({
+        data: {
+          name: validated.name,
+          localChurchId: validated.localChurchId,
+          pinHash: await hashPassword(validated.pin),
+          createdById: session.user.id
+        },
+        select: { id: true, name: true }
+      })
+
+      await tx.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'KIOSK_CREATED',
+          entity: 'CheckinKiosk',
+          entityId: created.id,
+          localChurchId: validated.localChurchId,
+          meta: { name: created.name }
+        }
+      })
+
+      return created
+    })
+
+    revalidatePath('/admin/services/kiosks')
+    return { success: true, data: kiosk }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    console.error('Create kiosk error:', error)
+    return { success: false, error: 'Failed to create kiosk' }
+  }
+}
+
+async function findManagedKiosk(kioskId: string) {
+  const session = await auth()
+  if (!session?.user) {
+    return { error: 'Not authenticated' } as const
+  }
+
+  if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+    return { error: 'Unauthorized' } as const
+  }
+
+  const whereClause = await createTenantWhereClause(session.user, { id: kioskId }, undefined, 'localChurchId')
+  const kiosk = await prisma.checkinKiosk.findFirst({
+    where: whereClause,
+    select: { id: true, isActive: true, localChurchId: true }
+  })
+
+  if (!kiosk) {
+    return { error: 'Kiosk not found' } as const
+  }
+
+  return { kiosk, actorId: session.user.id } as const
+}
+
+/**
+ * Binds this browser to the kiosk. The caller is expected to sign out next so
+ * the tablet is left holding only the kiosk cookie, not an admin session.
+ */
+export async function launchKiosk(kioskId: string) {
+  try {
+    const result = await findManagedKiosk(kioskId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    if (!result.kiosk.isActive) {
+      return { success: false, error: 'Kiosk is disabled' }
+    }
+
+    const token = await issueKioskDeviceToken(result.kiosk.id)
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: result.actorId,
+        action: 'KIOSK_LAUNCHED',
+        entity: 'CheckinKiosk',
+        entityId: result.kiosk.id,
+        localChurchId: result.kiosk.localChurchId
+      }
+    })
+
+    const cookieStore = await cookies()
+    cookieStore.set(KIOSK_COOKIE_NAME, token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: KIOSK_COOKIE_MAX_AGE_SECONDS
+    })
+
+    revalidatePath('/admin/services/kiosks')
+    return { success: true }
+  } catch (error) {
+    console.error('Launch kiosk error:', error)
+    return { success: false, error: 'Failed to launch kiosk' }
+  }
+}
+
+/**
+ * Disables the kiosk and signs out whichever device it is running on.
+ */
+export async function disableKiosk(kioskId: string) {
+  try {
+    const result = await findManagedKiosk(kioskId)
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await prisma.$transaction([
+      prisma.checkinKiosk.update({
+        where: { id: result.kiosk.id },
+        data: { isActive: false, deviceTokenHash: null }
+      }),
+      prisma.auditLog.create({
+        data: {
+          actorId: result.actorId,
+          action: 'KIOSK_DISABLED',
+          entity: 'CheckinKiosk',
+          entityId: result.kiosk.id,
+          localChurchId: result.kiosk.localChurchId
+        }
+      })
+    ])
+
+    revalidatePath('/admin/services/kiosks')
+    return { success: true }
+  } catch (error) {
+    console.error('Disable kiosk error:', error)
+    return { success: false, error: 'Failed to disable kiosk' }
+  }
+}
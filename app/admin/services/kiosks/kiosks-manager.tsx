@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { signOut } from 'next-auth/react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import { createKiosk, disableKiosk, launchKiosk } from './actions'
+
+interface Kiosk {
+  id: string
+  name: string
+  isActive: boolean
+  isLaunched: boolean
+  launchedAt: Date | null
+  lastSeenAt: Date | null
+  localChurch: {
+    id: string
+    name: string
+  }
+}
+
+interface KiosksManagerProps {
+  kiosks: Kiosk[]
+  churches: Array<{ id: string; name: string }>
+  userChurchId: string | null
+}
+
+export function KiosksManager({ kiosks, churches, userChurchId }: KiosksManagerProps) {
+  const [isLoading, startTransition] = useTransition()
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [launchDialogOpen, setLaunchDialogOpen] = useState<Kiosk | null>(null)
+  const [newKiosk, setNewKiosk] = useState({
+    name: '',
+    pin: '',
+    localChurchId: userChurchId || churches[0]?.id || ''
+  })
+
+  const handleCreateKiosk = () => {
+    startTransition(async () => {
+      const result = await createKiosk(newKiosk)
+      if (result.success) {
+        toast.success('Kiosk created')
+        setCreateDialogOpen(false)
+        setNewKiosk({ ...newKiosk, name: '', pin: '' })
+      } else {
+        toast.error(result.error || 'Failed to create kiosk')
+      }
+    })
+  }
+
+  const handleLaunchKiosk = (kioskId: string) => {
+    startTransition(async () => {
+      const result = await launchKiosk(kioskId)
+      if (result.success) {
+        // Leave the tablet with the kiosk cookie only, never an admin session
+        await signOut({ callbackUrl: '/kiosk' })
+      } else {
+        toast.error(result.error || 'Failed to launch kiosk')
+      }
+    })
+  }
+
+  const handleDisableKiosk = (kioskId: string) => {
+    if (!confirm('Disable this kiosk? The device it is running on will stop accepting check-ins.')) {
+      return
+    }
+
+    startTransition(async () => {
+      const result = await disableKiosk(kioskId)
+      if (result.success) {
+        toast.success('Kiosk disabled')
+      } else {
+        toast.error(result.error || 'Failed to disable kiosk')
+      }
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-muted-foreground">
+          Launch a kiosk on a lobby tablet to let members check themselves in.
+        </p>
+        <Button onClick={() => setCreateDialogOpen(true)}>Create Kiosk</Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Church</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Check-In</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {kiosks.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No kiosks yet
+                </TableCell>
+              </TableRow>
+            )}
+            {kiosks.map((kiosk) => (
+              <TableRow key={kiosk.id}>
+                <TableCell className="font-medium">{kiosk.name}</TableCell>
+                <TableCell>{kiosk.localChurch.name}</TableCell>
+                <TableCell>
+                  {!kiosk.isActive ? (
+                    <Badge variant="secondary">Disabled</Badge>
+                  ) : kiosk.isLaunched ? (
+                    <Badge>Running</Badge>
+                  ) : (
+                    <Badge variant="outline">Not launched</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {kiosk.lastSeenAt ? format(new Date(kiosk.lastSeenAt), 'PPp') : '—'}
+                </TableCell>
+                <TableCell>
+                  {kiosk.isActive && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setLaunchDialogOpen(kiosk)}>
+                        Launch on this device
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDisableKiosk(kiosk.id)}>
+                        Disable
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Kiosk</DialogTitle>
+            <DialogDescription>
+              The PIN is needed to leave kiosk mode on the device. Share it only with ushers and admins.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="create-kiosk-form"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCreateKiosk()
+            }}
+          >
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="kiosk-name">Name</Label>
+                <Input
+                  id="kiosk-name"
+                  placeholder="Main lobby"
+                  value={newKiosk.name}
+                  onChange={(e) => setNewKiosk({ ...newKiosk, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="kiosk-pin">Exit PIN</Label>
+                <Input
+                  id="kiosk-pin"
+                  type="password"
+                  inputMode="numeric"
+                  pattern="\d{4,8}"
+                  placeholder="4 to 8 digits"
+                  value={newKiosk.pin}
+                  onChange={(e) => setNewKiosk({ ...newKiosk, pin: e.target.value.replace(/\D/g, '') })}
+                  required
+                />
+              </div>
+              {churches.length > 1 && (
+                <div>
+                  <Label htmlFor="kiosk-church">Local Church</Label>
+                  <Select
+                    value={newKiosk.localChurchId}
+                    onValueChange={(value) => setNewKiosk({ ...newKiosk, localChurchId: value })}
+                  >
+                    <SelectTrigger id="kiosk-church">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {churches.map((church) => (
+                        <SelectItem key={church.id} value={church.id}>
+                          {church.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="create-kiosk-form"
+              disabled={isLoading || !newKiosk.name || newKiosk.pin.length < 4}
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!launchDialogOpen} onOpenChange={(open) => !open && setLaunchDialogOpen(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Launch {launchDialogOpen?.name}</DialogTitle>
+            <DialogDescription>
+              This device becomes the kiosk and you will be signed out. If the kiosk is already
+              running on another device, that device will stop working.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLaunchDialogOpen(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isLoading}
+              onClick={() => launchDialogOpen && handleLaunchKiosk(launchDialogOpen.id)}
+            >
+              Launch Kiosk
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { UserRole } from "@prisma/client";
+import { unstable_noStore as noStore } from 'next/cache';
+import { KiosksManager } from "./kiosks-manager";
+import { listKiosks } from "./actions";
+import { getLocalChurches } from "../actions";
+
+export default async function AdminKiosksPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!([UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] as UserRole[]).includes(user.role)) {
+    redirect("/dashboard");
+  }
+
+  const [kiosksResult, churchesResult] = await Promise.all([
+    listKiosks(),
+    getLocalChurches()
+  ]);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Check-In Kiosks"
+        description="Self-service check-in tablets for your church lobby"
+      />
+
+      <KiosksManager
+        kiosks={kiosksResult.success && kiosksResult.data ? kiosksResult.data : []}
+        churches={churchesResult.success && churchesResult.data ? churchesResult.data : []}
+        userChurchId={user.tenantId}
+      />
+    </AppLayout>
+  );
+}
@@ -1,11 +1,14 @@
 import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import { AppLayout } from "@/components/layout/app-layout";
 import { PageHeader } from "@/components/layout/page-header";
 import { getCurrentUser } from "@/lib/rbac";
 import { redirect } from "next/navigation";
 import { UserRole } from "@prisma/client";
 import { ServicesManager } from "./services-manager";
-import { listServices, getLocalChurches } from "./actions";
+import { SchedulesManager } from "./schedules-manager";
+import { listServices, listServiceSchedules, getLocalChurches } from "./actions";
 import { DataFetchErrorBoundary } from "@/components/patterns/error-boundary";
 import { TableSkeleton, FormSkeleton } from "@/components/patterns/loading-skeletons";
 import { unstable_noStore as noStore } from 'next/cache';
@@ -34,23 +37,35 @@ export default async function AdminServicesPage() {
     redirect("/dashboard");
   }
 
-  const [servicesResult, churchesResult] = await Promise.all([
+  const [servicesResult, schedulesResult, churchesResult] = await Promise.all([
     listServices(),
+    listServiceSchedules(),
     getLocalChurches()
   ]);
+  const churches = churchesResult.success && churchesResult.data ? churchesResult.data : [];
 
   return (
     <AppLayout user={user}>
       <PageHeader
         title="Service Management"
-        description="Manage Sunday services and track attendance"
-      />
+        description="Manage service schedules and track attendance"
+      >
+        <Button asChild variant="outline">
+          <Link href="/admin/services/kiosks">Check-In Kiosks</Link>
+        </Button>
+      </PageHeader>
       
       <DataFetchErrorBoundary>
         <Suspense fallback={<ServicesLoadingSkeleton />}>
+          <SchedulesManager
+            initialSchedules={schedulesResult.success && schedulesResult.data ? schedulesResult.data : []}
+            churches={churches}
+            userRole={user.role}
+            userChurchId={user.tenantId}
+          />
           <ServicesManager 
             initialServices={servicesResult.success && servicesResult.data ? servicesResult.data : { items: [], nextCursor: null, hasMore: false }}
-            churches={churchesResult.success && churchesResult.data ? churchesResult.data : []}
+            churches={churches}
             userRole={user.role}
             userChurchId={user.tenantId}
           />
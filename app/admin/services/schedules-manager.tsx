@@ -0,0 +1,392 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import { UserRole } from '@prisma/client'
+import { createServiceSchedule, deleteServiceSchedule, updateServiceSchedule } from './actions'
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+interface ServiceSchedule {
+  id: string
+  name: string
+  localChurchId: string
+  daysOfWeek: number[]
+  startTime: string
+  durationMinutes: number
+  timeZone: string
+  startsOn: Date
+  endsOn: Date | null
+  isActive: boolean
+  localChurch: {
+    id: string
+    name: string
+  }
+}
+
+interface SchedulesManagerProps {
+  initialSchedules: ServiceSchedule[]
+  churches: Array<{ id: string; name: string }>
+  userRole: UserRole
+  userChurchId: string | null
+}
+
+interface ScheduleForm {
+  name: string
+  localChurchId: string
+  daysOfWeek: number[]
+  startTime: string
+  durationMinutes: string
+  startsOn: string
+  endsOn: string
+  isActive: boolean
+}
+
+function toDateInput(value: Date | string) {
+  return new Date(value).toISOString().slice(0, 10)
+}
+
+function formatStartTime(startTime: string) {
+  const [hours, minutes] = startTime.split(':').map(Number)
+  return format(new Date(2000, 0, 1, hours, minutes), 'h:mm a')
+}
+
+export function SchedulesManager({
+  initialSchedules,
+  churches,
+  userRole,
+  userChurchId
+}: SchedulesManagerProps) {
+  const defaultChurchId = userChurchId || churches[0]?.id || ''
+  const emptyForm = (): ScheduleForm => ({
+    name: '',
+    localChurchId: defaultChurchId,
+    daysOfWeek: [0],
+    startTime: '09:00',
+    durationMinutes: '120',
+    startsOn: toDateInput(new Date()),
+    endsOn: '',
+    isActive: true
+  })
+
+  const [schedules, setSchedules] = useState(initialSchedules)
+  const [isLoading, startTransition] = useTransition()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState<string | null>(null)
+  const [form, setForm] = useState<ScheduleForm>(emptyForm)
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(emptyForm())
+    setDialogOpen(true)
+  }
+
+  const openEdit = (schedule: ServiceSchedule) => {
+    setEditingId(schedule.id)
+    setForm({
+      name: schedule.name,
+      localChurchId: schedule.localChurchId,
+      daysOfWeek: schedule.daysOfWeek,
+      startTime: schedule.startTime,
+      durationMinutes: String(schedule.durationMinutes),
+      startsOn: toDateInput(schedule.startsOn),
+      endsOn: schedule.endsOn ? toDateInput(schedule.endsOn) : '',
+      isActive: schedule.isActive
+    })
+    setDialogOpen(true)
+  }
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setForm({
+      ...form,
+      daysOfWeek: checked
+        ? [...form.daysOfWeek, day]
+        : form.daysOfWeek.filter((d) => d !== day)
+    })
+  }
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const input = {
+        name: form.name,
+        localChurchId: form.localChurchId,
+        daysOfWeek: form.daysOfWeek,
+        startTime: form.startTime,
+        durationMinutes: Number(form.durationMinutes),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        startsOn: form.startsOn,
+        endsOn: form.endsOn || null,
+        isActive: form.isActive
+      }
+      const result = editingId
+        ? await updateServiceSchedule({ id: editingId, ...input })
+        : await createServiceSchedule(input)
+
+      if (result.success && result.data) {
+        const church = churches.find((c) => c.id === result.data.schedule.localChurchId)
+        const saved = {
+          ...result.data.schedule,
+          localChurch: { id: result.data.schedule.localChurchId, name: church?.name || '' }
+        }
+        setSchedules(editingId
+          ? schedules.map((s) => (s.id === editingId ? saved : s))
+          : [saved, ...schedules])
+        toast.success(`Schedule saved · ${result.data.servicesCreated} upcoming services added`)
+        setDialogOpen(false)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const handleDelete = (id: string) => {
+    startTransition(async () => {
+      const result = await deleteServiceSchedule({ id })
+      if (result.success) {
+        toast.success('Schedule deleted')
+        setSchedules(schedules.filter((s) => s.id !== id))
+        setDeleteDialogOpen(null)
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>Recurring Schedules</CardTitle>
+            <CardDescription>
+              Services are created automatically up to eight weeks ahead.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={openCreate}>
+            New Schedule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No recurring schedules yet. Add one for your weekly services.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Repeats</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Church</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody data-testid="schedules-list">
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>{schedule.name}</TableCell>
+                    <TableCell>
+                      {schedule.daysOfWeek.map((day) => WEEKDAYS[day].slice(0, 3)).join(', ')}
+                      {schedule.endsOn && (
+                        <span className="block text-xs text-muted-foreground">
+                          until {format(new Date(schedule.endsOn), 'PP')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatStartTime(schedule.startTime)} · {schedule.durationMinutes} min
+                    </TableCell>
+                    <TableCell>{schedule.localChurch.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={schedule.isActive ? 'default' : 'secondary'}>
+                        {schedule.isActive ? 'Active' : 'Paused'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openEdit(schedule)}>
+                          Edit
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setDeleteDialogOpen(schedule.id)}>
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+            <DialogDescription>
+              Repeat a service every week on the selected days. Times use this device&apos;s time zone.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="schedule-form"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSave()
+            }}
+          >
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  placeholder="e.g. Sunday Celebration"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <fieldset>
+                <legend className="text-sm font-medium mb-2">Days</legend>
+                <div className="grid grid-cols-4 gap-2">
+                  {WEEKDAYS.map((day, index) => (
+                    <div key={day} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`schedule-day-${index}`}
+                        checked={form.daysOfWeek.includes(index)}
+                        onCheckedChange={(checked) => toggleDay(index, !!checked)}
+                      />
+                      <Label htmlFor={`schedule-day-${index}`}>{day}</Label>
+                    </div>
+                  ))}
+                </div>
+              </fieldset>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="schedule-start-time">Start time</Label>
+                  <Input
+                    id="schedule-start-time"
+                    type="time"
+                    value={form.startTime}
+                    onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="schedule-duration">Duration (minutes)</Label>
+                  <Input
+                    id="schedule-duration"
+                    type="number"
+                    min={15}
+                    max={720}
+                    value={form.durationMinutes}
+                    onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="schedule-starts-on">Starts on</Label>
+                  <Input
+                    id="schedule-starts-on"
+                    type="date"
+                    value={form.startsOn}
+                    onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="schedule-ends-on">Ends on (optional)</Label>
+                  <Input
+                    id="schedule-ends-on"
+                    type="date"
+                    value={form.endsOn}
+                    min={form.startsOn}
+                    onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+                  />
+                </div>
+              </div>
+              {userRole === UserRole.SUPER_ADMIN && churches.length > 1 && (
+                <div>
+                  <Label htmlFor="schedule-church">Local Church</Label>
+                  <Select
+                    value={form.localChurchId}
+                    onValueChange={(value) => setForm({ ...form, localChurchId: value })}
+                  >
+                    <SelectTrigger id="schedule-church">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {churches.map((church) => (
+                        <SelectItem key={church.id} value={church.id}>
+                          {church.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="schedule-active"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: !!checked })}
+                />
+                <Label htmlFor="schedule-active">Active</Label>
+              </div>
+            </div>
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              form="schedule-form"
+              disabled={isLoading || !form.name || form.daysOfWeek.length === 0}
+            >
+              Save Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleteDialogOpen} onOpenChange={(open) => !open && setDeleteDialogOpen(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Schedule</DialogTitle>
+            <DialogDescription>
+              Upcoming services from this schedule without check-ins will be removed. Past services and their attendance are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteDialogOpen && handleDelete(deleteDialogOpen)}
+              disabled={isLoading}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
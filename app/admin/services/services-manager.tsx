@@ -16,6 +16,7 @@ import { UserRole } from '@prisma/client'
 
 interface Service {
   id: string
+  name: string | null
   date: Date
   localChurchId: string
   localChurch: {
@@ -55,7 +56,7 @@ export function ServicesManager({
   const [newService, setNewService] = useState({
     date: '',
     time: '',
-    title: '',
+    name: '',
     localChurchId: userChurchId || churches[0]?.id || ''
   })
   
@@ -64,6 +65,7 @@ export function ServicesManager({
   const handleCreateService = () => {
     startTransition(async () => {
       const result = await createService({
+        name: newService.name,
         date: new Date(newService.date + 'T' + (newService.time || '00:00')),
         localChurchId: newService.localChurchId
       })
@@ -75,7 +77,7 @@ export function ServicesManager({
         setNewService({
           date: '',
           time: '',
-          title: '',
+          name: '',
           localChurchId: userChurchId || churches[0]?.id || ''
         })
       } else {
@@ -183,6 +185,7 @@ export function ServicesManager({
             <TableRow>
               <TableHead>Date</TableHead>
               <TableHead>Time</TableHead>
+              <TableHead>Service</TableHead>
               <TableHead>Church</TableHead>
               <TableHead>Attendance</TableHead>
               <TableHead>Actions</TableHead>
@@ -193,6 +196,7 @@ export function ServicesManager({
               <TableRow key={service.id}>
                 <TableCell>{format(new Date(service.date), 'PPP')}</TableCell>
                 <TableCell>{format(new Date(service.date), 'p')}</TableCell>
+                <TableCell>{service.name || 'Service'}</TableCell>
                 <TableCell>{service.localChurch.name}</TableCell>
                 <TableCell>{service._count.checkins}</TableCell>
                 <TableCell>
@@ -244,7 +248,7 @@ export function ServicesManager({
           <DialogHeader>
             <DialogTitle>Create Service</DialogTitle>
             <DialogDescription>
-              Create a new service for Sunday check-ins. Select the date, time, and church location.
+              Create a one-off service for check-ins. Use a schedule for services that repeat every week.
             </DialogDescription>
           </DialogHeader>
           <form 
@@ -255,6 +259,16 @@ export function ServicesManager({
             }}
           >
             <div className="space-y-4">
+              <div>
+                <Label htmlFor="service-name">Name (optional)</Label>
+                <Input
+                  id="service-name"
+                  name="name"
+                  placeholder="e.g. Youth Service"
+                  value={newService.name}
+                  onChange={(e) => setNewService({ ...newService, name: e.target.value })}
+                />
+              </div>
               <div>
                 <Label htmlFor="date">Date</Label>
                 <Input
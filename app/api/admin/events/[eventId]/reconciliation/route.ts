@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { format } from 'date-fns'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { hasMinRole, createTenantWhereClause } from '@/lib/rbac'
+import { UserRole, EventScope } from '@prisma/client'
+import { buildEventReconciliationCsv } from '@/lib/payments/reconciliation'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+    const session = await auth()
+    if (!session?.user) {
+      return new Response('Not authenticated', { status: 401 })
+    }
+
+    // Only admins can export
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return new Response('Unauthorized', { status: 403 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        name: true,
+        scope: true,
+        localChurchId: true,
+      }
+    })
+
+    if (!event) {
+      return new Response('Event not found', { status: 404 })
+    }
+
+    // Verify admin has access to this event using tenant isolation
+    if (event.scope === EventScope.LOCAL_CHURCH) {
+      const whereClause = await createTenantWhereClause(
+        session.user,
+        {},
+        undefined,
+        'localChurchId'
+      )
+      if (session.user.role !== UserRole.SUPER_ADMIN &&
+          whereClause.localChurchId !== event.localChurchId) {
+        return new Response('Cannot export payments for another church', { status: 403 })
+      }
+    }
+
+    const csv = await buildEventReconciliationCsv(event.id)
+    const filename = `${event.name.replace(/[^a-z0-9]/gi, '_')}_payments_${format(new Date(), 'yyyy-MM-dd')}.csv`
+
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Export payment reconciliation error:', error)
+    return new Response('Failed to export payments', { status: 500 })
+  }
+}
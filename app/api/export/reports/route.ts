@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server'
+import { format } from 'date-fns'
+import { UserRole } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { hasMinRole } from '@/lib/rbac'
+import { getClientIp } from '@/lib/rate-limit'
+import { checkRateLimitWithHeaders } from '@/lib/rate-limit-policies'
+import { buildReportCsv, parseReportFilters, REPORT_TYPES, ReportType } from '@/lib/reports'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return new Response('Unauthorized', { status: 401 })
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return new Response('Forbidden', { status: 403 })
+    }
+
+    const url = new URL(request.url)
+    const rateLimit = await checkRateLimitWithHeaders(url.pathname, 'GET', getClientIp(request.headers))
+    if (!rateLimit.allowed) {
+      return new Response(rateLimit.message, { status: 429, headers: rateLimit.headers })
+    }
+
+    const report = url.searchParams.get('report') as ReportType | null
+    if (!report || !REPORT_TYPES.includes(report)) {
+      return new Response('Unknown report', { status: 400 })
+    }
+
+    const filters = parseReportFilters({
+      from: url.searchParams.get('from'),
+      to: url.searchParams.get('to'),
+      churchId: url.searchParams.get('churchId')
+    }, session.user)
+
+    const csvContent = await buildReportCsv(report, session.user, filters)
+    const filename = `${report}-report-${format(filters.from, 'yyyy-MM-dd')}-to-${format(filters.to, 'yyyy-MM-dd')}.csv`
+
+    return new Response(csvContent, {
+      headers: {
+        ...rateLimit.headers,
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Export report CSV error:', error)
+    return new Response('Internal Server Error', { status: 500 })
+  }
+}
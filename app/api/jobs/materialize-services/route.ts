@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth'
+import { materializeAllSchedules } from '@/lib/services/schedules'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Nightly job that tops up every active service schedule so occurrences
+ * always exist a few weeks ahead of time.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await materializeAllSchedules()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Materialize services job error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to materialize services' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = GET
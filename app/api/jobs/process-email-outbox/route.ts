@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth'
+import { processEmailOutbox } from '@/lib/email'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Delivers queued email that is due, including retries of earlier failed
+ * attempts. Safe to run often; each message is claimed before it is sent.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processEmailOutbox()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Process email outbox job error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to process email outbox' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = GET
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth'
+import { processScheduledAnnouncements } from '@/lib/announcements/scheduler'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Announces scheduled announcements whose publish time has passed and
+ * archives expired ones. Each announcement is claimed before it is sent, so
+ * overlapping runs never notify twice.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processScheduledAnnouncements()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Publish announcements job error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to process scheduled announcements' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = GET
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth'
+import { releaseUnpaidSeats } from '@/lib/payments/event-payments'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Releases GOING seats still unpaid after their payment deadline and
+ * promotes the waitlist into them. Each seat is claimed before it is
+ * released, so overlapping runs never release or promote twice.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await releaseUnpaidSeats()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Release unpaid seats job error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to release unpaid seats' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = GET
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/jobs/auth'
+import { sendWeeklyDigests } from '@/lib/notifications/digest'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Queues the weekly digest email for members who opted in. Scheduled for
+ * Sunday morning; members already handled this week are skipped, so it can
+ * be re-run (or run by hand locally) without sending twice.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await sendWeeklyDigests()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Send weekly digest job error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send weekly digests' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = GET
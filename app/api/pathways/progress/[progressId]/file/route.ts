@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { hasMinRole } from '@/lib/rbac'
+import { UserRole } from '@prisma/client'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ progressId: string }> }
+) {
+  try {
+    const { progressId } = await params
+    const session = await auth()
+    if (!session?.user) {
+      return new Response('Not authenticated', { status: 401 })
+    }
+
+    const progress = await prisma.pathwayProgress.findUnique({
+      where: { id: progressId },
+      select: {
+        userId: true,
+        fileName: true,
+        fileType: true,
+        fileData: true,
+        step: { select: { pathway: { select: { tenantId: true } } } },
+      },
+    })
+
+    if (!progress?.fileData) {
+      return new Response('File not found', { status: 404 })
+    }
+
+    // Members can download their own uploads; leaders those of their church
+    const isOwner = progress.userId === session.user.id
+    const isChurchLeader =
+      hasMinRole(session.user.role, UserRole.LEADER) &&
+      (session.user.role === UserRole.SUPER_ADMIN ||
+        progress.step.pathway.tenantId === session.user.tenantId)
+
+    if (!isOwner && !isChurchLeader) {
+      return new Response('Unauthorized', { status: 403 })
+    }
+
+    return new Response(Buffer.from(progress.fileData), {
+      headers: {
+        'Content-Type': progress.fileType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${(progress.fileName || 'upload').replace(/"/g, '')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Pathway file download error:', error)
+    return new Response('Failed to download file', { status: 500 })
+  }
+}
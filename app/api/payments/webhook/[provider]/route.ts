@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { handlePaymentWebhook } from '@/lib/payments/event-payments'
+
+export const dynamic = 'force-dynamic'
+
+const STATUS_BY_ERROR_CODE: Partial<Record<ApplicationError['code'], number>> = {
+  INVALID_TOKEN: 401,
+  NOT_FOUND: 404,
+  VALIDATION_ERROR: 400
+}
+
+/**
+ * Payment provider webhooks. The raw body is verified against the
+ * provider's signature before anything is applied; already applied
+ * deliveries are acknowledged so the provider stops retrying them.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+
+  try {
+    const result = await handlePaymentWebhook(provider, await request.text(), request.headers)
+    return NextResponse.json({ received: true, ...result })
+  } catch (error) {
+    if (error instanceof ApplicationError && STATUS_BY_ERROR_CODE[error.code]) {
+      return NextResponse.json({ received: false, error: error.message }, { status: STATUS_BY_ERROR_CODE[error.code] })
+    }
+    console.error('Payment webhook error:', error)
+    return NextResponse.json({ received: false, error: 'Failed to process webhook' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@prisma/client'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getAccessibleChurchIds, hasMinRole } from '@/lib/rbac'
+import { NotificationType } from '@/lib/pwa/notification-payloads'
+import { isPushConfigured, sendPushToUsers } from '@/lib/push/sender'
+
+const SendNotificationSchema = z.object({
+  type: z.nativeEnum(NotificationType),
+  title: z.string().min(1).max(100),
+  body: z.string().min(1).max(300),
+  url: z.string().optional(),
+  icon: z.string().optional(),
+  badge: z.string().optional(),
+  image: z.string().optional(),
+  targetUserIds: z.array(z.string()).optional(), // Specific users
+  targetRoles: z.array(z.nativeEnum(UserRole)).optional(), // User roles
+  targetChurchIds: z.array(z.string()).optional(), // Specific churches
+  data: z.record(z.any()).optional()
+})
+
+/**
+ * Sends an ad-hoc push notification to members of the churches the sender
+ * administers. Targets are always narrowed to those churches, so an admin
+ * cannot reach another tenant by passing its user or church ids.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (!isPushConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Push notifications are not configured' },
+        { status: 503 }
+      )
+    }
+
+    const notificationData = SendNotificationSchema.parse(await request.json())
+
+    const accessibleChurchIds = await getAccessibleChurchIds(session.user)
+    const churchIds = notificationData.targetChurchIds?.length
+      ? notificationData.targetChurchIds.filter((id) => accessibleChurchIds.includes(id))
+      : accessibleChurchIds
+
+    if (churchIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No accessible churches in target' },
+        { status: 403 }
+      )
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: {
+        localChurchId: { in: churchIds },
+        leftAt: null,
+        ...(notificationData.targetUserIds?.length
+          ? { userId: { in: notificationData.targetUserIds } }
+          : {}),
+        ...(notificationData.targetRoles?.length
+          ? { user: { role: { in: notificationData.targetRoles } } }
+          : {})
+      },
+      select: { userId: true }
+    })
+
+    const result = await sendPushToUsers(
+      memberships.map((membership) => membership.userId),
+      {
+        type: notificationData.type,
+        title: notificationData.title,
+        body: notificationData.body,
+        url: notificationData.url,
+        icon: notificationData.icon,
+        badge: notificationData.badge,
+        image: notificationData.image,
+        data: notificationData.data
+      }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `Notification sent to ${result.sent} subscriptions`,
+      ...result
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid notification data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error sending push notification:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send push notification' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { PushSubscriptionSchema } from '@/lib/pwa/notification-payloads'
+
+/**
+ * Registers the browser's push subscription for the signed-in user. An
+ * endpoint belongs to one browser profile, so re-subscribing from a device
+ * previously used by someone else moves it to the current user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!session.user.tenantId) {
+      return NextResponse.json(
+        { success: false, error: 'No church assigned to this account' },
+        { status: 400 }
+      )
+    }
+
+    const { endpoint, keys } = PushSubscriptionSchema.parse(await request.json())
+    const userAgent = request.headers.get('user-agent')
+
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: {
+        userId: session.user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent,
+        churchId: session.user.tenantId
+      },
+      update: {
+        userId: session.user.id,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent,
+        churchId: session.user.tenantId,
+        isActive: true
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid subscription', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving push subscription:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save subscription' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+const UnsubscribeSchema = z.object({
+  endpoint: z.string().url()
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpoint } = UnsubscribeSchema.parse(await request.json())
+
+    await prisma.pushSubscription.updateMany({
+      where: { endpoint, userId: session.user.id },
+      data: { isActive: false }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error removing push subscription:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove subscription' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+const VerifySchema = z.object({
+  endpoint: z.string().url()
+})
+
+/**
+ * Lets the client check that its subscription is still active on the server.
+ * A 404 tells it to re-register, e.g. after the sender deactivated it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpoint } = VerifySchema.parse(await request.json())
+
+    const subscription = await prisma.pushSubscription.findFirst({
+      where: { endpoint, userId: session.user.id, isActive: true },
+      select: { id: true }
+    })
+
+    if (!subscription) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error verifying push subscription:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify subscription' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server'
+import { resolveRealtimePrincipal, resolveRealtimeTenant } from '@/lib/socket-server/auth'
+import { subscribeToRealtimeEvents } from '@/lib/socket-server/bus'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+/**
+ * Server-Sent Events fallback for RealtimeClient when WebSockets are
+ * unavailable. EventSource can't send headers, so mobile clients pass their
+ * access token as `token`; browsers are identified by the session cookie.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const principal = await resolveRealtimePrincipal({
+    token: searchParams.get('token'),
+    headers: request.headers,
+  })
+
+  if (!principal) {
+    return new Response('Not authenticated', { status: 401 })
+  }
+
+  const tenantId = resolveRealtimeTenant(principal, searchParams.get('tenantId'))
+  if (!tenantId) {
+    return new Response('Unauthorized', { status: 403 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup: (() => void) | undefined
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+
+      const unsubscribe = subscribeToRealtimeEvents((event) => {
+        if (event.tenantId && event.tenantId !== tenantId) {
+          return
+        }
+        send(`id: ${event.eventId}\ndata: ${JSON.stringify({ ...event, tenantId })}\n\n`)
+      })
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      })
+
+      send(': connected\n\n')
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { authLogger } from '@/lib/logger'
+import { getClientIp } from '@/lib/rate-limit'
+import { checkRateLimit, recordAttempt, resetAttempts } from '@/lib/auth-rate-limit'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withPublicApiRoute } from '@/lib/api/handler'
+import { issueTokenPair } from '@/lib/api/tokens'
+import { recordTwoFactorAudit, verifySecondFactor } from '@/lib/2fa-verification'
+import { needs2FAEnrollment } from '@/lib/2fa'
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+  totp: z.string().trim().optional(),
+})
+
+export const POST = withPublicApiRoute(async ({ request, traceId, version }) => {
+  const { email, password, totp } = loginSchema.parse(await request.json())
+  const ipAddress = getClientIp(request.headers)
+
+  const { allowed } = checkRateLimit(ipAddress, email)
+  if (!allowed) {
+    authLogger.warn('API login rate limit exceeded', { email, ip: ipAddress })
+    throw new ApplicationError('RATE_LIMITED')
+  }
+  recordAttempt(ipAddress, email)
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    include: {
+      memberships: {
+        where: { leftAt: null },
+        orderBy: { joinedAt: 'desc' },
+        take: 1,
+      },
+    },
+  })
+
+  // Same response for unknown user and wrong password to avoid account enumeration
+  if (!user?.passwordHash || !(await bcrypt.compare(password, user.passwordHash))) {
+    authLogger.warn('API login failed', { email, ip: ipAddress })
+    throw new ApplicationError('UNAUTHORIZED', 'Invalid email or password')
+  }
+
+  // Deactivated members get the same answer as the refresh route gives them
+  if (user.memberStatus === 'INACTIVE') {
+    authLogger.warn('API login by inactive member', { userId: user.id, ip: ipAddress })
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  // Enrollment only happens in the web app, so no tokens until it is done
+  if (needs2FAEnrollment(user)) {
+    authLogger.warn('API login before two-factor enrollment', { userId: user.id, ip: ipAddress })
+    throw new ApplicationError('FORBIDDEN', 'Set up two-factor authentication in the web app before signing in', {
+      reason: 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+    })
+  }
+
+  // Primary tenant resolution mirrors the credentials provider in lib/auth.ts
+  const tenantId = user.memberships[0]?.localChurchId || user.tenantId
+
+  if (user.twoFactorEnabled) {
+    if (!totp) {
+      throw new ApplicationError('UNAUTHORIZED', 'Two-factor authentication code required', {
+        reason: 'TWO_FACTOR_REQUIRED',
+      })
+    }
+
+    const method = await verifySecondFactor(user, totp)
+    if (!method) {
+      authLogger.warn('API login invalid two-factor code', { userId: user.id, ip: ipAddress })
+      await recordTwoFactorAudit({
+        actorId: user.id,
+        userId: user.id,
+        action: 'TWO_FACTOR_CHALLENGE_FAILED',
+        localChurchId: tenantId,
+        meta: { ip: ipAddress, via: 'api' },
+      })
+      throw new ApplicationError('UNAUTHORIZED', 'Invalid two-factor authentication code', {
+        reason: 'INVALID_TWO_FACTOR_CODE',
+      })
+    }
+
+    await recordTwoFactorAudit({
+      actorId: user.id,
+      userId: user.id,
+      action: method === 'recovery_code' ? 'TWO_FACTOR_RECOVERY_CODE_USED' : 'TWO_FACTOR_CHALLENGE_PASSED',
+      localChurchId: tenantId,
+      meta: { ip: ipAddress, method, via: 'api' },
+    })
+  }
+
+  resetAttempts(ipAddress, email)
+  const tokens = await issueTokenPair({ id: user.id, role: user.role, tenantId })
+
+  authLogger.info('API login successful', { userId: user.id, role: user.role })
+
+  return apiSuccess(
+    traceId,
+    {
+      user: responseTransformers[version].member({ ...user, tenantId }),
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    },
+    { code: 'LOGIN_SUCCESS', message: 'Login successful' }
+  )
+})
@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { revokeToken, verifyApiToken } from '@/lib/api/tokens'
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+})
+
+export const POST = withApiRoute(async ({ request, traceId, principal }) => {
+  const body = await request.json().catch(() => ({}))
+  const { refreshToken } = logoutSchema.parse(body)
+
+  if (principal.token) {
+    await revokeToken(principal.token)
+  }
+
+  if (refreshToken) {
+    const refreshClaims = await verifyApiToken(refreshToken, 'refresh')
+    if (refreshClaims.sub === principal.id) {
+      await revokeToken(refreshClaims)
+    }
+  }
+
+  return apiSuccess(traceId, null, { code: 'LOGOUT_SUCCESS', message: 'Logout successful' })
+})
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withPublicApiRoute } from '@/lib/api/handler'
+import { issueTokenPair, revokeToken, verifyApiToken } from '@/lib/api/tokens'
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+})
+
+/**
+ * Rotates a refresh token: the presented token is revoked and a new pair is
+ * issued from the user's current role and primary membership.
+ */
+export const POST = withPublicApiRoute(async ({ request, traceId }) => {
+  const { refreshToken } = refreshSchema.parse(await request.json())
+  const claims = await verifyApiToken(refreshToken, 'refresh')
+
+  const user = await prisma.user.findUnique({
+    where: { id: claims.sub },
+    include: {
+      memberships: {
+        where: { leftAt: null },
+        orderBy: { joinedAt: 'desc' },
+        take: 1,
+      },
+    },
+  })
+
+  if (!user || user.memberStatus === 'INACTIVE') {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  await revokeToken(claims)
+
+  const tenantId = user.memberships[0]?.localChurchId || user.tenantId
+  const tokens = await issueTokenPair({ id: user.id, role: user.role, tenantId })
+
+  return apiSuccess(
+    traceId,
+    {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    },
+    { code: 'TOKEN_REFRESHED', message: 'Token refreshed' }
+  )
+})
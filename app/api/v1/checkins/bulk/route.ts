@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { createCheckinForPrincipal } from '@/lib/api/checkins'
+
+const MAX_BULK_CHECKINS = 100
+
+const bulkSchema = z.object({
+  checkins: z.array(z.object({
+    serviceId: z.string().min(1),
+    timestamp: z.string().datetime({ offset: true }),
+    newBeliever: z.boolean().default(false),
+  })).min(1).max(MAX_BULK_CHECKINS),
+})
+
+/**
+ * Replays check-ins queued while the device was offline. Items are processed
+ * independently; entries that were already synced count as duplicates rather
+ * than failures so clients can safely retry a whole batch.
+ */
+export const POST = withApiRoute(async ({ request, traceId, principal }) => {
+  const { checkins } = bulkSchema.parse(await request.json())
+
+  let created = 0
+  let duplicates = 0
+  const errors: Array<{ index: number; code: string; message: string }> = []
+
+  for (const [index, item] of checkins.entries()) {
+    try {
+      await createCheckinForPrincipal(principal, {
+        serviceId: item.serviceId,
+        newBeliever: item.newBeliever,
+        checkedInAt: new Date(item.timestamp),
+      })
+      created++
+    } catch (error) {
+      if (error instanceof ApplicationError && error.code === 'DUPLICATE_ENTRY') {
+        duplicates++
+        continue
+      }
+      errors.push({
+        index,
+        code: error instanceof ApplicationError ? error.code : 'SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create check-in',
+      })
+    }
+  }
+
+  return apiSuccess(
+    traceId,
+    { created, failed: errors.length, duplicates, errors },
+    { code: 'BULK_CHECKIN_PROCESSED', message: `Processed ${checkins.length} check-ins`, status: 201 }
+  )
+})
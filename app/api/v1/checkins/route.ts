@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { rateLimiter } from '@/lib/rate-limiter'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { createCheckinForPrincipal } from '@/lib/api/checkins'
+
+const checkinSchema = z.object({
+  serviceId: z.string().min(1),
+  newBeliever: z.boolean().default(false),
+})
+
+export const POST = withApiRoute(async ({ request, traceId, version, principal }) => {
+  const rateLimitResult = await rateLimiter.checkLimit(`checkin:${principal.id}`, 'API')
+  if (!rateLimitResult.allowed) {
+    throw new ApplicationError('RATE_LIMITED', 'Please wait before trying to check in again')
+  }
+
+  const { serviceId, newBeliever } = checkinSchema.parse(await request.json())
+  const checkin = await createCheckinForPrincipal(principal, { serviceId, newBeliever })
+
+  return apiSuccess(
+    traceId,
+    { checkin: responseTransformers[version].checkin(checkin) },
+    { code: 'CHECKIN_CREATED', message: 'Checked in', status: 201 }
+  )
+})
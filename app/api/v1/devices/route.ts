@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import { DevicePlatform } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+
+const deviceSchema = z.object({
+  token: z.string().min(1).max(512),
+  platform: z.enum(['ios', 'android']),
+})
+
+/**
+ * Registers (or re-assigns) a native push token. Tokens are unique per
+ * device, so a device that signs in as another user moves to that user.
+ */
+export const POST = withApiRoute(async ({ request, traceId, principal }) => {
+  const { token, platform } = deviceSchema.parse(await request.json())
+  const data = {
+    userId: principal.id,
+    platform: platform === 'ios' ? DevicePlatform.IOS : DevicePlatform.ANDROID,
+    localChurchId: principal.tenantId,
+    isActive: true,
+    lastSeenAt: new Date(),
+  }
+
+  await prisma.deviceToken.upsert({
+    where: { token },
+    create: { token, ...data },
+    update: data,
+  })
+
+  return apiSuccess(traceId, null, { code: 'DEVICE_REGISTERED', message: 'Device registered' })
+})
@@ -0,0 +1,22 @@
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { eventListingSelect, getVisibleEventsWhere } from '@/lib/api/events'
+
+export const GET = withApiRoute<{ id: string }>(async ({ traceId, version, principal, params }) => {
+  const event = await prisma.event.findFirst({
+    where: await getVisibleEventsWhere(principal, { id: params.id }),
+    select: eventListingSelect(principal.id),
+  })
+
+  // Events outside the caller's tenant are reported as missing, not forbidden
+  if (!event) {
+    throw new ApplicationError('NOT_FOUND', 'Event not found')
+  }
+
+  return apiSuccess(traceId, {
+    event: responseTransformers[version].eventListing(event, event.rsvps[0]?.status),
+  })
+})
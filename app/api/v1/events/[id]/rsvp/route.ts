@@ -0,0 +1,142 @@
+import { z } from 'zod'
+import { RsvpStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { getVisibleEventsWhere } from '@/lib/api/events'
+import { notifyRsvpConfirmed, notifyWaitlistPromotion } from '@/lib/push/notifications'
+
+const rsvpSchema = z.object({
+  status: z.enum(['ATTENDING', 'NOT_ATTENDING']),
+})
+
+const contractStatus: Record<RsvpStatus, string> = {
+  [RsvpStatus.GOING]: 'ATTENDING',
+  [RsvpStatus.WAITLIST]: 'WAITLIST',
+  [RsvpStatus.CANCELLED]: 'NOT_ATTENDING',
+}
+
+/**
+ * Idempotent RSVP endpoint for offline-capable clients.
+ * ATTENDING follows the capacity/waitlist rules of rsvpToEvent and
+ * NOT_ATTENDING the FIFO waitlist promotion of cancelRsvp.
+ */
+export const POST = withApiRoute<{ id: string }>(async ({ request, traceId, principal, params }) => {
+  const { status } = rsvpSchema.parse(await request.json())
+  const eventId = params.id
+
+  const event = await prisma.event.findFirst({
+    where: await getVisibleEventsWhere(principal, { id: eventId }),
+    select: { id: true, capacity: true, localChurchId: true },
+  })
+
+  if (!event) {
+    throw new ApplicationError('NOT_FOUND', 'Event not found')
+  }
+
+  const existing = await prisma.eventRsvp.findUnique({
+    where: { eventId_userId: { eventId, userId: principal.id } },
+  })
+
+  let result: RsvpStatus
+
+  if (status === 'ATTENDING') {
+    if (existing && existing.status !== RsvpStatus.CANCELLED) {
+      result = existing.status
+    } else {
+      const rsvp = await prisma.$transaction(async (tx) => {
+        const currentAttendees = await tx.eventRsvp.count({
+          where: { eventId, status: RsvpStatus.GOING },
+        })
+        const nextStatus = currentAttendees < event.capacity
+          ? RsvpStatus.GOING
+          : RsvpStatus.WAITLIST
+
+        // A previously cancelled RSVP is reopened because of the eventId_userId unique constraint
+        const saved = existing
+          ? await tx.eventRsvp.update({
+            where: { id: existing.id },
+            data: { status: nextStatus, cancelledAt: null, rsvpAt: new Date() },
+          })
+          : await tx.eventRsvp.create({
+            data: { eventId, userId: principal.id, status: nextStatus },
+          })
+
+        await tx.auditLog.create({
+          data: {
+            actorId: principal.id,
+            action: 'RSVP_CREATED',
+            entity: 'Event',
+            entityId: eventId,
+            localChurchId: event.localChurchId,
+            meta: { status: saved.status, source: 'api' },
+          },
+        })
+
+        return saved
+      }, {
+        isolationLevel: 'Serializable'
+      })
+      result = rsvp.status
+      await notifyRsvpConfirmed({
+        userId: principal.id,
+        eventId,
+        waitlisted: rsvp.status === RsvpStatus.WAITLIST,
+      })
+    }
+  } else {
+    if (existing && existing.status !== RsvpStatus.CANCELLED) {
+      const promoted = await prisma.$transaction(async (tx) => {
+        await tx.eventRsvp.update({
+          where: { id: existing.id },
+          data: { status: RsvpStatus.CANCELLED, cancelledAt: new Date() },
+        })
+
+        let promotedRsvp = null
+        if (existing.status === RsvpStatus.GOING) {
+          const firstWaitlisted = await tx.eventRsvp.findFirst({
+            where: { eventId, status: RsvpStatus.WAITLIST },
+            orderBy: { rsvpAt: 'asc' },
+          })
+
+          if (firstWaitlisted) {
+            promotedRsvp = await tx.eventRsvp.update({
+              where: { id: firstWaitlisted.id },
+              data: { status: RsvpStatus.GOING },
+            })
+          }
+        }
+
+        await tx.auditLog.create({
+          data: {
+            actorId: principal.id,
+            action: 'RSVP_CANCELLED',
+            entity: 'Event',
+            entityId: eventId,
+            localChurchId: event.localChurchId,
+            meta: {
+              previousStatus: existing.status,
+              newStatus: RsvpStatus.CANCELLED,
+              promotedUserId: promotedRsvp?.userId ?? null,
+              source: 'api',
+            },
+          },
+        })
+
+        return promotedRsvp
+      })
+
+      if (promoted) {
+        await notifyWaitlistPromotion({ userId: promoted.userId, eventId })
+      }
+    }
+    result = RsvpStatus.CANCELLED
+  }
+
+  return apiSuccess(
+    traceId,
+    { rsvp: { eventId, status: contractStatus[result] } },
+    { code: 'RSVP_SUCCESS', message: 'RSVP updated' }
+  )
+})
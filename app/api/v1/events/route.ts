@@ -0,0 +1,39 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { eventListingSelect, getVisibleEventsWhere } from '@/lib/api/events'
+
+const listSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export const GET = withApiRoute(async ({ request, traceId, version, principal }) => {
+  const { searchParams } = request.nextUrl
+  const { limit, offset } = listSchema.parse({
+    limit: searchParams.get('limit') ?? undefined,
+    offset: searchParams.get('offset') ?? undefined,
+  })
+
+  const where = await getVisibleEventsWhere(principal)
+
+  const [events, total] = await Promise.all([
+    prisma.event.findMany({
+      where,
+      select: eventListingSelect(principal.id),
+      orderBy: { startDateTime: 'asc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.event.count({ where }),
+  ])
+
+  return apiSuccess(traceId, {
+    events: events.map(event =>
+      responseTransformers[version].eventListing(event, event.rsvps[0]?.status)
+    ),
+    total,
+  })
+})
@@ -0,0 +1,33 @@
+import { startOfDay, endOfDay } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { createTenantWhereClause } from '@/lib/rbac'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+
+/**
+ * Polling fallback for clients without a realtime connection:
+ * check-in counts for today's services in the caller's tenant.
+ */
+export const GET = withApiRoute(async ({ traceId, principal }) => {
+  const now = new Date()
+  const where = await createTenantWhereClause(
+    principal,
+    { date: { gte: startOfDay(now), lte: endOfDay(now) } },
+    undefined,
+    'localChurchId'
+  )
+
+  const services = await prisma.service.findMany({
+    where,
+    select: {
+      id: true,
+      _count: { select: { checkins: true } },
+    },
+  })
+
+  const counts = Object.fromEntries(
+    services.map(service => [service.id, service._count.checkins])
+  )
+
+  return apiSuccess(traceId, { counts, timestamp: now.toISOString() })
+})
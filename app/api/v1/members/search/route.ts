@@ -0,0 +1,52 @@
+import { z } from 'zod'
+import { Prisma, ProfileVisibility, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createTenantWhereClause, hasMinRole } from '@/lib/rbac'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+
+const searchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export const GET = withApiRoute(async ({ request, traceId, version, principal }) => {
+  const { searchParams } = request.nextUrl
+  const { q, limit, offset } = searchSchema.parse({
+    q: searchParams.get('q') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined,
+    offset: searchParams.get('offset') ?? undefined,
+  })
+
+  const filters: Prisma.UserWhereInput = {}
+  if (q) {
+    filters.OR = [
+      { name: { contains: q, mode: 'insensitive' } },
+      { email: { contains: q, mode: 'insensitive' } },
+    ]
+  }
+  // Private profiles stay out of the directory for non-admin callers
+  if (!hasMinRole(principal.role, UserRole.ADMIN)) {
+    filters.profileVisibility = { not: ProfileVisibility.PRIVATE }
+  }
+
+  const where = await createTenantWhereClause(principal, filters as Record<string, unknown>)
+
+  const [members, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: { id: true, email: true, name: true, role: true, tenantId: true },
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.user.count({ where }),
+  ])
+
+  return apiSuccess(traceId, {
+    members: members.map(responseTransformers[version].member),
+    total,
+  })
+})
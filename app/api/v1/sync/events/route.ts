@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+import { eventListingSelect, getVisibleEventsWhere } from '@/lib/api/events'
+
+const syncSchema = z.object({
+  updatedAfter: z.string().datetime({ offset: true }),
+})
+
+export const GET = withApiRoute(async ({ request, traceId, version, principal }) => {
+  const { updatedAfter } = syncSchema.parse({
+    updatedAfter: request.nextUrl.searchParams.get('updatedAfter') ?? undefined,
+  })
+  const lastSync = new Date()
+
+  const events = await prisma.event.findMany({
+    where: await getVisibleEventsWhere(principal, {
+      updatedAt: { gt: new Date(updatedAfter) },
+    }),
+    select: eventListingSelect(principal.id),
+    orderBy: { updatedAt: 'asc' },
+  })
+
+  return apiSuccess(traceId, {
+    events: events.map(event =>
+      responseTransformers[version].eventListing(event, event.rsvps[0]?.status)
+    ),
+    lastSync: lastSync.toISOString(),
+  })
+})
@@ -0,0 +1,36 @@
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { createTenantWhereClause } from '@/lib/rbac'
+import { responseTransformers } from '@/lib/api-version'
+import { apiSuccess } from '@/lib/api/envelope'
+import { withApiRoute } from '@/lib/api/handler'
+
+const syncSchema = z.object({
+  updatedAfter: z.string().datetime({ offset: true }),
+})
+
+/**
+ * Delta sync for the offline member directory. `lastSync` is captured before
+ * querying so rows updated mid-request are picked up by the next sync.
+ */
+export const GET = withApiRoute(async ({ request, traceId, version, principal }) => {
+  const { updatedAfter } = syncSchema.parse({
+    updatedAfter: request.nextUrl.searchParams.get('updatedAfter') ?? undefined,
+  })
+  const lastSync = new Date()
+
+  const where = await createTenantWhereClause(principal, {
+    updatedAt: { gt: new Date(updatedAfter) },
+  })
+
+  const members = await prisma.user.findMany({
+    where,
+    select: { id: true, email: true, name: true, role: true, tenantId: true },
+    orderBy: { updatedAt: 'asc' },
+  })
+
+  return apiSuccess(traceId, {
+    members: members.map(responseTransformers[version].member),
+    lastSync: lastSync.toISOString(),
+  })
+})
@@ -0,0 +1,66 @@
+'use server'
+
+import { z } from 'zod'
+import { MemberStatus } from '@prisma/client'
+import { hashPassword } from '@/lib/password'
+import { authLogger } from '@/lib/logger'
+import { acceptInvitation, getInvitationByToken, getInvitationState } from '@/lib/invitations'
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation link is invalid'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string()
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+})
+
+const ACCEPT_ERRORS = {
+  invalid: 'This invitation link is invalid or has been replaced by a newer one',
+  expired: 'This invitation has expired. Ask your church administrator to resend it.',
+  used: 'This invitation has already been used or was revoked'
+} as const
+
+export async function checkInvitation(token: string) {
+  try {
+    const invitation = token ? await getInvitationByToken(token) : null
+    if (!invitation || invitation.user.memberStatus === MemberStatus.INACTIVE) {
+      return { success: true, data: { state: 'INVALID' as const } }
+    }
+
+    return {
+      success: true,
+      data: {
+        state: getInvitationState(invitation),
+        email: invitation.email,
+        name: invitation.user.name,
+        churchName: invitation.localChurch?.name ?? null
+      }
+    }
+  } catch (error) {
+    console.error('Check invitation error:', error)
+    return { success: false, error: 'Failed to verify invitation link' }
+  }
+}
+
+export async function acceptInvitationWithPassword(data: z.infer<typeof acceptInvitationSchema>) {
+  try {
+    const validated = acceptInvitationSchema.parse(data)
+
+    const passwordHash = await hashPassword(validated.newPassword)
+    const result = await acceptInvitation(validated.token, passwordHash)
+
+    if (!result.success) {
+      return { success: false, error: ACCEPT_ERRORS[result.reason] }
+    }
+
+    authLogger.info('Invitation accepted', { userId: result.userId })
+    return { success: true }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+    console.error('Accept invitation error:', error)
+    return { success: false, error: 'Failed to accept invitation' }
+  }
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams, useRouter } from 'next/navigation'
+import {
+  NativeButton,
+  NativeInput,
+  NativeCard,
+  NativeCardContent
+} from '@/components/ui/native'
+import { useToast } from '@/components/ui/use-toast'
+import { UserPlus, AlertCircle } from 'lucide-react'
+import { acceptInvitationWithPassword, checkInvitation } from './actions'
+
+type InvitationInfo = {
+  state: 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'REVOKED' | 'INVALID'
+  email?: string
+  name?: string | null
+  churchName?: string | null
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<InvitationInfo['state'], 'PENDING'>, string> = {
+  EXPIRED: 'This invitation has expired. Ask your church administrator to send a new one.',
+  ACCEPTED: 'This invitation has already been accepted. Sign in with the password you chose.',
+  REVOKED: 'This invitation was revoked. Contact your church administrator if you still need access.',
+  INVALID: 'This invitation link is invalid or has been replaced by a newer one. Check your inbox for the latest invitation.'
+}
+
+function AcceptInvitationContent() {
+  const { toast } = useToast()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [invitation, setInvitation] = useState<InvitationInfo | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [formData, setFormData] = useState({
+    newPassword: '',
+    confirmPassword: ''
+  })
+
+  useEffect(() => {
+    checkInvitation(token).then((result) => {
+      setInvitation(result.success && result.data ? result.data : { state: 'INVALID' })
+    })
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await acceptInvitationWithPassword({ token, ...formData })
+
+    if (result.success) {
+      toast({
+        title: 'Welcome!',
+        description: 'Your account is ready. Please sign in with your new password.'
+      })
+      router.push('/auth/signin?registered=true')
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive'
+      })
+      setIsLoading(false)
+    }
+  }
+
+  if (invitation && invitation.state !== 'PENDING') {
+    return (
+      <div className="text-center space-y-4">
+        <div className="w-20 h-20 mx-auto rounded-2xl bg-warning flex items-center justify-center shadow-lg">
+          <AlertCircle className="w-10 h-10 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-ink">Invitation Unavailable</h1>
+        <p className="text-ink-muted">
+          {UNAVAILABLE_MESSAGES[invitation.state]}
+        </p>
+        <Link href="/auth/signin" className="inline-block text-accent hover:underline">
+          Go to sign in
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <div className="w-20 h-20 mx-auto mb-4 rounded-2xl bg-accent flex items-center justify-center shadow-lg">
+          <UserPlus className="w-10 h-10 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-ink mb-2">
+          {invitation?.churchName ? `Join ${invitation.churchName}` : 'Accept Invitation'}
+        </h1>
+        <p className="text-ink-muted">
+          {invitation?.email
+            ? `Choose a password for ${invitation.email}`
+            : 'Choose a password for your account'}
+        </p>
+      </div>
+
+      <NativeCard className="max-w-md mx-auto w-full">
+        <NativeCardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-4">
+              <div>
+                <NativeInput
+                  label="Password"
+                  id="newPassword"
+                  type="password"
+                  value={formData.newPassword}
+                  onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+                  required
+                  minLength={8}
+                  disabled={isLoading || invitation === null}
+                  autoComplete="new-password"
+                />
+                <p className="text-sm text-ink-muted mt-1">
+                  Must be at least 8 characters
+                </p>
+              </div>
+
+              <NativeInput
+                label="Confirm Password"
+                id="confirmPassword"
+                type="password"
+                value={formData.confirmPassword}
+                onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                required
+                disabled={isLoading || invitation === null}
+                autoComplete="new-password"
+              />
+            </div>
+
+            <NativeButton 
+              type="submit" 
+              className="w-full h-14 text-lg font-semibold" 
+              disabled={isLoading || invitation === null}
+              loading={isLoading}
+              hapticFeedback
+            >
+              {isLoading ? 'Creating account...' : 'Accept Invitation'}
+            </NativeButton>
+          </form>
+        </NativeCardContent>
+      </NativeCard>
+    </>
+  )
+}
+
+export default function AcceptInvitationPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-accent/5 via-bg to-accent/10 flex flex-col">
+      {/* Native App Header */}
+      <div className="relative flex items-center justify-center p-4 pt-safe-area-top">
+        <div className="text-lg font-semibold text-ink">Accept Invitation</div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col justify-center px-6 py-8">
+        <Suspense fallback={null}>
+          <AcceptInvitationContent />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
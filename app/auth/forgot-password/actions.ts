@@ -0,0 +1,76 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { z } from 'zod'
+import { MemberStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { rateLimiters, getClientIp } from '@/lib/rate-limit'
+import { authLogger } from '@/lib/logger'
+import { sendPasswordResetEmail } from '@/lib/email'
+import {
+  createPasswordResetToken,
+  getPasswordResetUrl,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES
+} from '@/lib/password-reset'
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Enter a valid email address')
+})
+
+/**
+ * Emails a reset link when the address belongs to an active account.
+ * The response is identical whether or not the account exists to avoid
+ * leaking which emails are registered.
+ */
+export async function requestPasswordReset(data: z.infer<typeof forgotPasswordSchema>) {
+  try {
+    const { email } = forgotPasswordSchema.parse(data)
+
+    const headersList = await headers()
+    const ip = getClientIp(headersList)
+
+    const ipLimit = await rateLimiters.email.check(rateLimiters.email.key(['forgot-password', 'ip', ip]))
+    const emailLimit = await rateLimiters.email.check(
+      rateLimiters.email.key(['forgot-password', 'email', email.toLowerCase()])
+    )
+
+    if (!ipLimit.success || !emailLimit.success) {
+      authLogger.warn('Password reset rate limit exceeded', { email, ip })
+      return { success: false, error: 'Too many reset requests. Please try again later.' }
+    }
+
+    const user = await prisma.user.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' }
+      },
+      select: { id: true, name: true, email: true, memberStatus: true }
+    })
+
+    if (!user || user.memberStatus === MemberStatus.INACTIVE) {
+      authLogger.info('Password reset requested for unknown or inactive account', { email, ip })
+      return { success: true }
+    }
+
+    const { token } = await createPasswordResetToken(user.id)
+    const emailResult = await sendPasswordResetEmail(
+      user.email,
+      user.name || 'Member',
+      getPasswordResetUrl(token),
+      { expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES, userId: user.id }
+    )
+
+    if (!emailResult.success) {
+      authLogger.error('Password reset email failed', { userId: user.id, error: emailResult.error })
+    } else {
+      authLogger.info('Password reset link sent', { userId: user.id, ip })
+    }
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+    console.error('Request password reset error:', error)
+    return { success: false, error: 'Failed to request password reset' }
+  }
+}
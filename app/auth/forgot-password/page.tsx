@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+  NativeButton,
+  NativeInput,
+  NativeCard,
+  NativeCardContent
+} from '@/components/ui/native'
+import { useToast } from '@/components/ui/use-toast'
+import { KeyRound, MailCheck } from 'lucide-react'
+import { requestPasswordReset } from './actions'
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [email, setEmail] = useState('')
+  const [submitted, setSubmitted] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await requestPasswordReset({ email })
+
+    if (result.success) {
+      setSubmitted(true)
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive'
+      })
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-accent/5 via-bg to-accent/10 flex flex-col">
+      {/* Native App Header */}
+      <div className="relative flex items-center justify-center p-4 pt-safe-area-top">
+        <div className="text-lg font-semibold text-ink">Forgot Password</div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col justify-center px-6 py-8">
+        <div className="text-center mb-8">
+          <div className="w-20 h-20 mx-auto mb-4 rounded-2xl bg-accent flex items-center justify-center shadow-lg">
+            {submitted ? (
+              <MailCheck className="w-10 h-10 text-white" />
+            ) : (
+              <KeyRound className="w-10 h-10 text-white" />
+            )}
+          </div>
+          <h1 className="text-2xl font-bold text-ink mb-2">
+            {submitted ? 'Check Your Email' : 'Reset Your Password'}
+          </h1>
+          <p className="text-ink-muted">
+            {submitted
+              ? `If an account exists for ${email}, we've sent a link to reset your password.`
+              : "Enter your email and we'll send you a link to choose a new password"}
+          </p>
+        </div>
+
+        {!submitted && (
+          <NativeCard className="max-w-md mx-auto w-full">
+            <NativeCardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <NativeInput
+                  label="Email Address"
+                  id="email"
+                  type="email"
+                  placeholder="your@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  autoComplete="email"
+                />
+
+                <NativeButton 
+                  type="submit" 
+                  className="w-full h-14 text-lg font-semibold" 
+                  disabled={isLoading || !email}
+                  loading={isLoading}
+                  hapticFeedback
+                >
+                  {isLoading ? 'Sending...' : 'Send Reset Link'}
+                </NativeButton>
+              </form>
+            </NativeCardContent>
+          </NativeCard>
+        )}
+
+        <div className="mt-8 text-center">
+          <Link href="/auth/signin" className="text-sm text-accent hover:underline">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="px-6 pb-safe-area-bottom pb-4 text-center">
+        <p className="text-sm text-ink-muted">
+          Reset links expire after one hour and can only be used once
+        </p>
+      </div>
+    </main>
+  )
+}
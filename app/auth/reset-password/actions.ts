@@ -0,0 +1,77 @@
+'use server'
+
+import { z } from 'zod'
+import { MemberStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { hashPassword } from '@/lib/password'
+import { authLogger } from '@/lib/logger'
+import { consumePasswordResetToken, isPasswordResetTokenValid } from '@/lib/password-reset'
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset link is invalid'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string()
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+})
+
+export async function checkPasswordResetToken(token: string) {
+  try {
+    return { success: true, data: { valid: !!token && await isPasswordResetTokenValid(token) } }
+  } catch (error) {
+    console.error('Check password reset token error:', error)
+    return { success: false, error: 'Failed to verify reset link' }
+  }
+}
+
+export async function resetPasswordWithToken(data: z.infer<typeof resetPasswordSchema>) {
+  try {
+    const validated = resetPasswordSchema.parse(data)
+
+    const userId = await consumePasswordResetToken(validated.token)
+    if (!userId) {
+      return { success: false, error: 'This reset link is invalid or has expired' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, tenantId: true, memberStatus: true }
+    })
+
+    if (!user || user.memberStatus === MemberStatus.INACTIVE) {
+      return { success: false, error: 'This reset link is invalid or has expired' }
+    }
+
+    const passwordHash = await hashPassword(validated.newPassword)
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordHash,
+          mustChangePassword: false,
+          memberStatus: user.memberStatus === MemberStatus.PENDING ? MemberStatus.ACTIVE : user.memberStatus
+        }
+      }),
+      prisma.auditLog.create({
+        data: {
+          actorId: user.id,
+          action: 'PASSWORD_RESET_COMPLETED',
+          entity: 'User',
+          entityId: user.id,
+          localChurchId: user.tenantId
+        }
+      })
+    ])
+
+    authLogger.info('Password reset completed', { userId: user.id })
+    return { success: true }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+    console.error('Reset password with token error:', error)
+    return { success: false, error: 'Failed to reset password' }
+  }
+}
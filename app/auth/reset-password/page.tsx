@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams, useRouter } from 'next/navigation'
+import {
+  NativeButton,
+  NativeInput,
+  NativeCard,
+  NativeCardContent
+} from '@/components/ui/native'
+import { useToast } from '@/components/ui/use-toast'
+import { Lock, AlertCircle } from 'lucide-react'
+import { checkPasswordResetToken, resetPasswordWithToken } from './actions'
+
+function ResetPasswordContent() {
+  const { toast } = useToast()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [tokenValid, setTokenValid] = useState<boolean | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [formData, setFormData] = useState({
+    newPassword: '',
+    confirmPassword: ''
+  })
+
+  useEffect(() => {
+    checkPasswordResetToken(token).then((result) => {
+      setTokenValid(!!(result.success && result.data?.valid))
+    })
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    const result = await resetPasswordWithToken({ token, ...formData })
+
+    if (result.success) {
+      toast({
+        title: 'Success',
+        description: 'Your password has been reset. Please sign in with your new password.'
+      })
+      router.push('/auth/signin?message=password-changed')
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive'
+      })
+      setIsLoading(false)
+    }
+  }
+
+  if (tokenValid === false) {
+    return (
+      <div className="text-center space-y-4">
+        <div className="w-20 h-20 mx-auto rounded-2xl bg-warning flex items-center justify-center shadow-lg">
+          <AlertCircle className="w-10 h-10 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-ink">Link Expired</h1>
+        <p className="text-ink-muted">
+          This reset link is invalid, has expired, or has already been used.
+        </p>
+        <Link href="/auth/forgot-password" className="inline-block text-accent hover:underline">
+          Request a new link
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <div className="w-20 h-20 mx-auto mb-4 rounded-2xl bg-accent flex items-center justify-center shadow-lg">
+          <Lock className="w-10 h-10 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-ink mb-2">Choose a New Password</h1>
+        <p className="text-ink-muted">
+          Enter a new password for your account
+        </p>
+      </div>
+
+      <NativeCard className="max-w-md mx-auto w-full">
+        <NativeCardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-4">
+              <div>
+                <NativeInput
+                  label="New Password"
+                  id="newPassword"
+                  type="password"
+                  value={formData.newPassword}
+                  onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+                  required
+                  minLength={8}
+                  disabled={isLoading || tokenValid === null}
+                  autoComplete="new-password"
+                />
+                <p className="text-sm text-ink-muted mt-1">
+                  Must be at least 8 characters
+                </p>
+              </div>
+
+              <NativeInput
+                label="Confirm New Password"
+                id="confirmPassword"
+                type="password"
+                value={formData.confirmPassword}
+                onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                required
+                disabled={isLoading || tokenValid === null}
+                autoComplete="new-password"
+              />
+            </div>
+
+            <NativeButton 
+              type="submit" 
+              className="w-full h-14 text-lg font-semibold" 
+              disabled={isLoading || tokenValid === null}
+              loading={isLoading}
+              hapticFeedback
+            >
+              {isLoading ? 'Resetting...' : 'Reset Password'}
+            </NativeButton>
+          </form>
+        </NativeCardContent>
+      </NativeCard>
+    </>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-accent/5 via-bg to-accent/10 flex flex-col">
+      {/* Native App Header */}
+      <div className="relative flex items-center justify-center p-4 pt-safe-area-top">
+        <div className="text-lg font-semibold text-ink">Reset Password</div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col justify-center px-6 py-8">
+        <Suspense fallback={null}>
+          <ResetPasswordContent />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
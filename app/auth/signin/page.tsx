@@ -3,6 +3,7 @@
 import { useState, Suspense, useEffect } from "react";
 import { signIn, getCsrfToken } from "next-auth/react";
 import { useSearchParams, useRouter } from "next/navigation";
+import Link from "next/link";
 import { MobileButton } from "@/components/mobile/mobile-button";
 import { MobileInput } from "@/components/mobile/mobile-form";
 import { MobileSpinner } from "@/components/mobile/mobile-loading";
@@ -14,6 +15,8 @@ function SignInContent() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  const [totp, setTotp] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
   const [loading, setLoading] = useState(false);
   const [touched, setTouched] = useState({ email: false, password: false });
   const [isPWA, setIsPWA] = useState(false);
@@ -59,14 +62,24 @@ function SignInContent() {
       const result = await signIn("credentials", {
         email,
         password,
+        ...(needsTwoFactor && { totp }),
         csrfToken,
         callbackUrl,
         redirect: false,
       });
       
       if (result?.error) {
+        if (result.code === "TWO_FACTOR_REQUIRED") {
+          // Password accepted; ask for the authenticator or recovery code
+          triggerHapticFeedback('impact-light');
+          setNeedsTwoFactor(true);
+          return;
+        }
+
         triggerHapticFeedback('impact-heavy');
-        if (result.error.includes("too many")) {
+        if (result.code === "INVALID_TWO_FACTOR_CODE") {
+          showError("Invalid Code", "That authentication code is not valid. Please try again.");
+        } else if (result.error.includes("too many")) {
           showError("Too Many Attempts", "Too many login attempts. Please try again later.", { duration: 0 });
         } else {
           showError("Invalid Credentials", "Invalid email or password. Please try again.");
@@ -108,7 +121,7 @@ function SignInContent() {
 
   const emailError = touched.email ? validateEmail(email) : undefined;
   const passwordError = touched.password ? validatePassword(password) : undefined;
-  const isValid = !emailError && !passwordError && email && password;
+  const isValid = !emailError && !passwordError && email && password && (!needsTwoFactor || totp.trim());
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-accent/5 via-bg to-accent/10 flex flex-col">
@@ -181,6 +194,19 @@ function SignInContent() {
                 </button>
               }
             />
+
+            {needsTwoFactor && (
+              <MobileInput
+                label="Authentication Code"
+                type="text"
+                placeholder="6-digit code or recovery code"
+                value={totp}
+                onChange={(e) => setTotp(e.target.value)}
+                disabled={loading}
+                autoComplete="one-time-code"
+                helper="Enter the code from your authenticator app, or one of your recovery codes."
+              />
+            )}
           </div>
 
           <MobileButton
@@ -203,9 +229,9 @@ function SignInContent() {
 
         {/* Additional Options */}
         <div className="mt-8 text-center space-y-4">
-          <p className="text-sm text-ink-muted">
-            Forgot your password? Contact your church administrator for help.
-          </p>
+          <Link href="/auth/forgot-password" className="text-sm text-accent hover:underline">
+            Forgot your password?
+          </Link>
         </div>
       </div>
 
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma, UserRole } from '@prisma/client'
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    service: { findFirst: vi.fn() },
+    user: { findFirst: vi.fn() },
+    checkin: { findUnique: vi.fn(), create: vi.fn(), count: vi.fn() },
+    auditLog: { create: vi.fn() }
+  }
+}))
+
+vi.mock('@/lib/rbac', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/rbac')>()),
+  createTenantWhereClause: vi.fn(async (_user, where) => ({ ...where, localChurchId: 'church1' }))
+}))
+
+vi.mock('@/lib/checkin/member-code', () => ({
+  resolveMemberCheckinCode: vi.fn()
+}))
+
+vi.mock('@/lib/rate-limiter', () => ({
+  rateLimiter: { checkLimit: vi.fn().mockResolvedValue({ allowed: true }) }
+}))
+
+vi.mock('@/lib/checkin/household', () => ({
+  checkInHouseholdMembers: vi.fn()
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn()
+}))
+
+// Import functions after mocks
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { resolveMemberCheckinCode } from '@/lib/checkin/member-code'
+import { checkInHouseholdMembers } from '@/lib/checkin/household'
+import { checkIn, scanMemberCheckin } from './actions'
+
+const db = prisma as any
+
+describe('scanMemberCheckin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: 'usher1', role: UserRole.VIP, tenantId: 'church1' }
+    } as any)
+    db.service.findFirst.mockResolvedValue({ id: 'service1', localChurchId: 'church1' })
+    db.user.findFirst.mockResolvedValue({ id: 'member1', name: 'Jane Doe' })
+    db.checkin.count.mockResolvedValue(12)
+    vi.mocked(resolveMemberCheckinCode).mockResolvedValue('member1')
+  })
+
+  it('should check in the scanned member and return the running count', async () => {
+    db.checkin.create.mockResolvedValue({ id: 'checkin1' })
+
+    const result = await scanMemberCheckin({ serviceId: 'service1', code: 'drouple:member:x' })
+
+    expect(db.checkin.create).toHaveBeenCalledWith({ data: { serviceId: 'service1', userId: 'member1' } })
+    expect(result).toEqual({ success: true, data: { name: 'Jane Doe', alreadyCheckedIn: false, count: 12 } })
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: 'usher1',
+        action: 'CHECKIN_CREATED',
+        entityId: 'service1',
+        meta: expect.objectContaining({ method: 'scan', memberId: 'member1' })
+      })
+    })
+  })
+
+  it('should treat a repeat scan as already checked in', async () => {
+    db.checkin.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    )
+
+    const result = await scanMemberCheckin({ serviceId: 'service1', code: 'drouple:member:x' })
+
+    expect(result).toEqual({ success: true, data: { name: 'Jane Doe', alreadyCheckedIn: true, count: 12 } })
+    expect(db.auditLog.create).not.toHaveBeenCalled()
+  })
+
+  it('should reject members from another church', async () => {
+    db.user.findFirst.mockResolvedValue(null)
+
+    const result = await scanMemberCheckin({ serviceId: 'service1', code: 'drouple:member:x' })
+
+    expect(db.user.findFirst.mock.calls[0][0].where.memberships).toEqual({
+      some: { localChurchId: 'church1', leftAt: null }
+    })
+    expect(result).toEqual({ success: false, error: 'This member belongs to a different church' })
+    expect(db.checkin.create).not.toHaveBeenCalled()
+  })
+
+  it('should reject invalid or rotated codes', async () => {
+    vi.mocked(resolveMemberCheckinCode).mockResolvedValue(null)
+
+    const result = await scanMemberCheckin({ serviceId: 'service1', code: 'garbage' })
+
+    expect(result).toEqual({ success: false, error: 'Invalid or expired check-in code' })
+  })
+
+  it('should not let members scan', async () => {
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: 'member2', role: UserRole.MEMBER, tenantId: 'church1' }
+    } as any)
+
+    const result = await scanMemberCheckin({ serviceId: 'service1', code: 'drouple:member:x' })
+
+    expect(result).toEqual({ success: false, error: 'Unauthorized' })
+  })
+})
+
+describe('checkIn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: 'parent1', role: UserRole.MEMBER, tenantId: 'church1' }
+    } as any)
+    db.service.findFirst.mockResolvedValue({ id: 'service1', localChurchId: 'church1' })
+  })
+
+  it('should not check in the household when the parent is already checked in', async () => {
+    db.checkin.findUnique.mockResolvedValue({ id: 'checkin1' })
+    const formData = new FormData()
+    formData.set('serviceId', 'service1')
+    formData.append('householdMemberId', 'hm-child')
+
+    const result = await checkIn(formData)
+
+    expect(result).toEqual({ success: false, error: 'Already checked in for this service' })
+    expect(checkInHouseholdMembers).not.toHaveBeenCalled()
+    expect(db.checkin.create).not.toHaveBeenCalled()
+  })
+})
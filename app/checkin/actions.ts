@@ -3,15 +3,39 @@
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
-import { startOfDay, endOfDay } from 'date-fns'
+import { startOfDay, endOfDay, subDays, addDays } from 'date-fns'
 import { z } from 'zod'
 import { hasMinRole, createTenantWhereClause } from '@/lib/rbac'
-import { UserRole } from '@prisma/client'
+import { Prisma, UserRole, type Checkin } from '@prisma/client'
 import { rateLimiter } from '@/lib/rate-limiter'
+import { resolveMemberCheckinCode } from '@/lib/checkin/member-code'
+import { findCurrentService } from '@/lib/services/schedules'
+import { ApplicationError } from '@/lib/errors'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+import {
+  checkInHouseholdMembers,
+  findChildrenForPickup,
+  getHouseholdForAdult,
+  getHouseholdMemberName,
+  releaseChildrenForPickup,
+  type HouseholdCheckinResult
+} from '@/lib/checkin/household'
 
 const checkInSchema = z.object({
   serviceId: z.string().min(1),
-  isNewBeliever: z.boolean().default(false)
+  isNewBeliever: z.boolean().default(false),
+  checkInSelf: z.boolean().default(true),
+  householdMemberIds: z.array(z.string().min(1)).default([])
+})
+
+const pickupSchema = z.object({
+  serviceId: z.string().min(1),
+  code: z.string().min(1)
+})
+
+const scanCheckinSchema = z.object({
+  serviceId: z.string().min(1),
+  code: z.string().min(1)
 })
 
 const createServiceSchema = z.object({
@@ -25,31 +49,19 @@ export async function getTodayService() {
       return { success: false, error: 'Not authenticated' }
     }
 
-    const today = new Date()
-    const dayStart = startOfDay(today)
-    const dayEnd = endOfDay(today)
-
     // Apply proper tenant isolation for service lookup
     const whereClause = await createTenantWhereClause(
       session.user,
-      {
-        date: {
-          gte: dayStart,
-          lte: dayEnd
-        }
-      },
+      {},
       undefined,
       'localChurchId' // Service model uses localChurchId field
     )
 
-    const service = await prisma.service.findFirst({
-      where: whereClause,
-      include: {
-        localChurch: true,
-        _count: {
-          select: {
-            checkins: true
-          }
+    const service = await findCurrentService(whereClause, {
+      localChurch: true,
+      _count: {
+        select: {
+          checkins: true
         }
       }
     })
@@ -64,8 +76,11 @@ export async function getTodayService() {
 /**
  * Handles Sunday service check-in with auto-enrollment for new believers.
  * Implements duplicate prevention and ROOTS pathway enrollment business logic.
+ * Adults in a household can also check in selected household members in the
+ * same action; children checked in this way receive a shared pickup code.
  * 
- * @param formData Form data containing serviceId and isNewBeliever flag
+ * @param formData Form data containing serviceId, isNewBeliever, optional
+ *   checkInSelf flag and repeated householdMemberId entries
  * @returns Success/failure result with duplicate prevention
  */
 export async function checkIn(formData: FormData) {
@@ -85,10 +100,16 @@ export async function checkIn(formData: FormData) {
     // Validate input
     const validatedData = checkInSchema.parse({
       serviceId: formData.get('serviceId'),
-      isNewBeliever: formData.get('isNewBeliever') === 'true'
+      isNewBeliever: formData.get('isNewBeliever') === 'true',
+      checkInSelf: formData.get('checkInSelf') !== 'false',
+      householdMemberIds: formData.getAll('householdMemberId').filter((value) => typeof value === 'string' && value)
     })
 
-    const { serviceId, isNewBeliever } = validatedData
+    const { serviceId, isNewBeliever, checkInSelf, householdMemberIds } = validatedData
+
+    if (!checkInSelf && householdMemberIds.length === 0) {
+      return { success: false, error: 'Select at least one person to check in' }
+    }
 
     // Optimize: Combine service validation with tenant check
     const service = await prisma.service.findFirst({
@@ -106,61 +127,110 @@ export async function checkIn(formData: FormData) {
       return { success: false, error: 'Service not found or access denied' }
     }
 
-    // Check if already checked in
-    const existingCheckin = await prisma.checkin.findUnique({
-      where: {
-        serviceId_userId: {
-          serviceId,
-          userId: session.user.id
+    // Checked before the household so a duplicate can't leave it checked in without its pickup code
+    if (checkInSelf) {
+      const existingCheckin = await prisma.checkin.findUnique({
+        where: {
+          serviceId_userId: {
+            serviceId,
+            userId: session.user.id
+          }
         }
-      }
-    })
+      })
 
-    if (existingCheckin) {
-      return { success: false, error: 'Already checked in for this service' }
+      if (existingCheckin) {
+        return { success: false, error: 'Already checked in for this service' }
+      }
     }
 
-    // Create check-in
-    const checkin = await prisma.checkin.create({
-      data: {
-        serviceId,
-        userId: session.user.id,
-        isNewBeliever
+    let household: HouseholdCheckinResult | null = null
+    if (householdMemberIds.length > 0) {
+      try {
+        household = await checkInHouseholdMembers({
+          actorId: session.user.id,
+          serviceId,
+          localChurchId: service.localChurchId,
+          memberIds: householdMemberIds
+        })
+      } catch (error) {
+        if (error instanceof ApplicationError) {
+          return { success: false, error: error.message }
+        }
+        throw error
       }
-    })
-
-    // Business logic: New believer auto-enrollment in discipleship pathway
-    if (isNewBeliever) {
-      await prisma.user.update({
-        where: { id: session.user.id },
-        data: { isNewBeliever: true }
-      })
+    }
 
-      // Auto-enroll in ROOTS pathway for discipleship tracking
-      // ROOTS is designed for new believers to complete basic Christian foundations
-      const rootsPathway = await prisma.pathway.findFirst({
-        where: {
-          type: 'ROOTS',
-          tenantId: session.user.tenantId || undefined
+    let checkin: Checkin | null = null
+    if (checkInSelf) {
+      // Create check-in
+      checkin = await prisma.checkin.create({
+        data: {
+          serviceId,
+          userId: session.user.id,
+          isNewBeliever
         }
       })
 
-      if (rootsPathway) {
-        await prisma.pathwayEnrollment.create({
-          data: {
-            pathwayId: rootsPathway.id,
-            userId: session.user.id
+      // Business logic: New believer auto-enrollment in discipleship pathway
+      if (isNewBeliever) {
+        await prisma.user.update({
+          where: { id: session.user.id },
+          data: { isNewBeliever: true }
+        })
+
+        // Auto-enroll in ROOTS pathway for discipleship tracking
+        // ROOTS is designed for new believers to complete basic Christian foundations
+        const rootsPathway = await prisma.pathway.findFirst({
+          where: {
+            type: 'ROOTS',
+            tenantId: session.user.tenantId || undefined
           }
-        }).catch(() => {
-          // Graceful handling: Ignore duplicate enrollment attempts
         })
+
+        if (rootsPathway) {
+          await prisma.pathwayEnrollment.create({
+            data: {
+              pathwayId: rootsPathway.id,
+              userId: session.user.id
+            }
+          }).catch(() => {
+            // Graceful handling: Ignore duplicate enrollment attempts
+          })
+        }
       }
     }
 
+    const checkedInCount = (checkin ? 1 : 0) + (household?.checkedIn.length ?? 0)
+    if (checkedInCount > 0) {
+      publishRealtimeEvent('attendance.created', service.localChurchId, {
+        id: checkin?.id ?? `${serviceId}:${session.user.id}`,
+        serviceId,
+        memberId: session.user.id,
+        checkedInAt: (checkin?.checkedInAt ?? new Date()).toISOString(),
+        count: checkedInCount
+      })
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'CHECKIN_CREATED',
+          entity: 'Service',
+          entityId: serviceId,
+          localChurchId: service.localChurchId,
+          meta: {
+            method: 'self',
+            selfCheckedIn: !!checkin,
+            householdMembers: household?.checkedIn ?? [],
+            isNewBeliever
+          }
+        }
+      })
+    }
+
     revalidatePath('/checkin')
     revalidatePath('/admin/services')
     
-    return { success: true, data: checkin }
+    return { success: true, data: checkin, household }
   } catch (error: unknown) {
     console.error('Check-in error:', error)
     
@@ -173,6 +243,158 @@ export async function checkIn(formData: FormData) {
   }
 }
 
+/**
+ * Services an usher can scan against: this week's services at their church,
+ * newest first, so today's service is the default choice.
+ */
+export async function getScanServices() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.VIP)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const today = new Date()
+    const whereClause = await createTenantWhereClause(
+      session.user,
+      {
+        date: {
+          gte: startOfDay(subDays(today, 7)),
+          lte: endOfDay(addDays(today, 1))
+        }
+      },
+      undefined,
+      'localChurchId'
+    )
+
+    const services = await prisma.service.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        name: true,
+        date: true,
+        endsAt: true,
+        localChurch: { select: { name: true } },
+        _count: { select: { checkins: true } }
+      },
+      orderBy: { date: 'desc' }
+    })
+
+    return { success: true, data: services }
+  } catch (error) {
+    console.error('Get scan services error:', error)
+    return { success: false, error: 'Failed to get services' }
+  }
+}
+
+/**
+ * Checks in the member whose personal QR code an usher scanned. Scanning the
+ * same member twice is not an error, so ushers can scan rapidly without
+ * worrying about repeats; codes of members from another church are rejected.
+ *
+ * @returns Member name, whether they were already checked in, and the running count
+ */
+export async function scanMemberCheckin(data: z.infer<typeof scanCheckinSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.VIP)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { serviceId, code } = scanCheckinSchema.parse(data)
+
+    const serviceWhere = await createTenantWhereClause(
+      session.user,
+      { id: serviceId },
+      undefined,
+      'localChurchId'
+    )
+    const service = await prisma.service.findFirst({
+      where: serviceWhere,
+      select: { id: true, localChurchId: true }
+    })
+
+    if (!service) {
+      return { success: false, error: 'Service not found or access denied' }
+    }
+
+    const userId = await resolveMemberCheckinCode(code)
+    if (!userId) {
+      return { success: false, error: 'Invalid or expired check-in code' }
+    }
+
+    const member = await prisma.user.findFirst({
+      where: {
+        id: userId,
+        memberships: { some: { localChurchId: service.localChurchId, leftAt: null } }
+      },
+      select: { id: true, name: true }
+    })
+
+    if (!member) {
+      return { success: false, error: 'This member belongs to a different church' }
+    }
+
+    let alreadyCheckedIn = false
+    try {
+      await prisma.checkin.create({
+        data: { serviceId: service.id, userId: member.id }
+      })
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error
+      }
+      alreadyCheckedIn = true
+    }
+
+    const count = await prisma.checkin.count({ where: { serviceId: service.id } })
+
+    if (!alreadyCheckedIn) {
+      publishRealtimeEvent('attendance.created', service.localChurchId, {
+        id: `${service.id}:${member.id}`,
+        serviceId: service.id,
+        memberId: member.id,
+        checkedInAt: new Date().toISOString(),
+        count: 1
+      })
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'CHECKIN_CREATED',
+          entity: 'Service',
+          entityId: service.id,
+          localChurchId: service.localChurchId,
+          meta: { method: 'scan', memberId: member.id, memberName: member.name }
+        }
+      })
+    }
+
+    revalidatePath('/checkin')
+    revalidatePath('/admin/services')
+
+    return {
+      success: true,
+      data: {
+        name: member.name || 'Member',
+        alreadyCheckedIn,
+        count
+      }
+    }
+  } catch (error) {
+    console.error('Scan check-in error:', error)
+    return { success: false, error: 'Failed to check in' }
+  }
+}
+
 export async function getUserCheckin(serviceId: string) {
   try {
     const session = await auth()
@@ -196,6 +418,154 @@ export async function getUserCheckin(serviceId: string) {
   }
 }
 
+/**
+ * The signed-in adult's household with each member's check-in state for the
+ * service, so a parent can pick who to check in.
+ */
+export async function getMyHousehold(serviceId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const household = await getHouseholdForAdult(session.user.id, serviceId)
+    if (!household || household.localChurchId !== session.user.tenantId) {
+      return { success: true, data: null }
+    }
+
+    return {
+      success: true,
+      data: {
+        id: household.id,
+        name: household.name,
+        members: household.members
+          .filter((member) => member.userId !== session.user.id)
+          .map((member) => {
+            const dependentCheckin = member.checkins[0]
+            return {
+              id: member.id,
+              name: getHouseholdMemberName(member),
+              role: member.role,
+              hasAccount: !!member.userId,
+              checkedIn: member.userId
+                ? (member.user?.checkins.length ?? 0) > 0
+                : !!dependentCheckin,
+              pickupCode: dependentCheckin && !dependentCheckin.pickedUpAt
+                ? dependentCheckin.pickupCode
+                : null
+            }
+          })
+      }
+    }
+  } catch (error) {
+    console.error('Get household error:', error)
+    return { success: false, error: 'Failed to get household' }
+  }
+}
+
+async function findPickupService(user: { role: UserRole; tenantId?: string | null }, serviceId: string) {
+  const serviceWhere = await createTenantWhereClause(
+    user,
+    { id: serviceId },
+    undefined,
+    'localChurchId'
+  )
+  return prisma.service.findFirst({
+    where: serviceWhere,
+    select: { id: true, localChurchId: true }
+  })
+}
+
+/**
+ * Looks up the children waiting under a pickup code so staff can confirm who
+ * is being collected before releasing them.
+ */
+export async function lookupPickupCode(data: z.infer<typeof pickupSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.VIP)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { serviceId, code } = pickupSchema.parse(data)
+
+    const service = await findPickupService(session.user, serviceId)
+    if (!service) {
+      return { success: false, error: 'Service not found or access denied' }
+    }
+
+    const children = await findChildrenForPickup(service.id, code)
+    if (children.length === 0) {
+      return { success: false, error: 'Pickup code not found or already used' }
+    }
+
+    return { success: true, data: children }
+  } catch (error) {
+    console.error('Lookup pickup code error:', error)
+    return { success: false, error: 'Failed to look up pickup code' }
+  }
+}
+
+/**
+ * Releases every child checked in under a pickup code. Each code can only be
+ * used once per service.
+ */
+export async function confirmPickup(data: z.infer<typeof pickupSchema>) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!hasMinRole(session.user.role, UserRole.VIP)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const { serviceId, code } = pickupSchema.parse(data)
+
+    const service = await findPickupService(session.user, serviceId)
+    if (!service) {
+      return { success: false, error: 'Service not found or access denied' }
+    }
+
+    let released: number
+    try {
+      released = await releaseChildrenForPickup({
+        serviceId: service.id,
+        code,
+        releasedById: session.user.id
+      })
+    } catch (error) {
+      if (error instanceof ApplicationError) {
+        return { success: false, error: error.message }
+      }
+      throw error
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'CHILD_PICKUP_CONFIRMED',
+        entity: 'Service',
+        entityId: service.id,
+        localChurchId: service.localChurchId,
+        meta: { released }
+      }
+    })
+
+    revalidatePath('/checkin')
+    return { success: true, data: { released } }
+  } catch (error) {
+    console.error('Confirm pickup error:', error)
+    return { success: false, error: 'Failed to confirm pickup' }
+  }
+}
+
 export async function getServiceAttendance(serviceId: string) {
   try {
     const session = await auth()
@@ -276,6 +646,17 @@ export async function createService(formData: FormData) {
       }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'SERVICE_CREATED',
+        entity: 'Service',
+        entityId: service.id,
+        localChurchId: service.localChurchId,
+        meta: { date: service.date.toISOString() }
+      }
+    })
+
     revalidatePath('/admin/services')
     return { success: true, data: service }
   } catch (error) {
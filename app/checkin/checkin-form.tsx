@@ -37,6 +37,7 @@ const QRScanner = dynamic(() => import('@/components/ui/qr-scanner').then(mod =>
 interface CheckInFormProps {
   service: {
     id: string
+    name?: string | null
     date: Date
     localChurch: {
       name: string
@@ -127,9 +128,9 @@ export function CheckInForm({ service, existingCheckin }: CheckInFormProps) {
   return (
     <Card className="max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle>Sunday Service Check-In</CardTitle>
+        <CardTitle>{service.name ? `${service.name} Check-In` : 'Sunday Service Check-In'}</CardTitle>
         <CardDescription>
-          {service.localChurch.name} - {format(new Date(service.date), 'EEEE, MMMM d, yyyy')}
+          {service.localChurch.name} - {format(new Date(service.date), 'EEEE, MMMM d, yyyy · h:mm a')}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { HouseholdMemberRole } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { CheckCircle, Home, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { checkIn } from './actions'
+
+interface HouseholdCheckInProps {
+  serviceId: string
+  selfCheckedIn: boolean
+  household: {
+    name: string
+    members: Array<{
+      id: string
+      name: string
+      role: HouseholdMemberRole
+      checkedIn: boolean
+      pickupCode: string | null
+    }>
+  }
+}
+
+export function HouseholdCheckIn({ serviceId, selfCheckedIn, household }: HouseholdCheckInProps) {
+  const [includeSelf, setIncludeSelf] = useState(!selfCheckedIn)
+  const [selected, setSelected] = useState<string[]>(
+    household.members.filter((member) => !member.checkedIn).map((member) => member.id)
+  )
+  const [isLoading, setIsLoading] = useState(false)
+  const [issuedCode, setIssuedCode] = useState<string | null>(null)
+
+  const pickupCode = issuedCode ?? household.members.find((member) => member.pickupCode)?.pickupCode ?? null
+  const nothingToCheckIn = selected.length === 0 && !(includeSelf && !selfCheckedIn)
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter((memberId) => memberId !== id))
+  }
+
+  const handleCheckIn = async () => {
+    setIsLoading(true)
+    try {
+      const formData = new FormData()
+      formData.set('serviceId', serviceId)
+      formData.set('checkInSelf', String(includeSelf && !selfCheckedIn))
+      selected.forEach((id) => formData.append('householdMemberId', id))
+
+      const result = await checkIn(formData)
+      if (result.success) {
+        if (result.household?.pickupCode) {
+          setIssuedCode(result.household.pickupCode)
+        }
+        setSelected([])
+        toast.success('Household checked in!')
+      } else {
+        toast.error(result.error || 'Failed to check in')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5" />
+          {household.name}
+        </CardTitle>
+        <CardDescription>Check in your household in one step.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pickupCode && (
+          <div className="rounded-lg border border-dashed p-4 text-center">
+            <p className="text-sm text-muted-foreground">Children&apos;s pickup code</p>
+            <p className="text-3xl font-mono font-bold tracking-widest" data-testid="pickup-code">
+              {pickupCode}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">Show this code to staff when picking up.</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {!selfCheckedIn && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="household-self"
+                checked={includeSelf}
+                onCheckedChange={(checked) => setIncludeSelf(!!checked)}
+              />
+              <Label htmlFor="household-self">Me</Label>
+            </div>
+          )}
+          {household.members.map((member) => (
+            <div key={member.id} className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`household-${member.id}`}
+                  checked={member.checkedIn || selected.includes(member.id)}
+                  disabled={member.checkedIn}
+                  onCheckedChange={(checked) => toggle(member.id, !!checked)}
+                />
+                <Label htmlFor={`household-${member.id}`}>{member.name}</Label>
+                {member.role === HouseholdMemberRole.CHILD && (
+                  <Badge variant="secondary">Child</Badge>
+                )}
+              </div>
+              {member.checkedIn && (
+                <span className="flex items-center gap-1 text-sm text-green-600">
+                  <CheckCircle className="h-4 w-4" />
+                  Checked in
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button
+          onClick={handleCheckIn}
+          disabled={isLoading || nothingToCheckIn}
+          className="w-full"
+          size="lg"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking in...
+            </>
+          ) : (
+            'Check In Selected'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,63 @@
+import Image from "next/image";
+import { revalidatePath } from "next/cache";
+import { QrCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getCurrentUser } from "@/lib/rbac";
+import { getMemberCheckinQrCode, rotateMemberCheckinCode } from "@/lib/checkin/member-code";
+
+/**
+ * The signed-in member's personal check-in QR code, for ushers and kiosks to
+ * scan. Generating a new code invalidates screenshots of the old one.
+ */
+export async function MemberCodeCard({ userId }: { userId: string }) {
+  const qrCodeUrl = await getMemberCheckinQrCode(userId);
+
+  if (!qrCodeUrl) {
+    return null;
+  }
+
+  async function rotateCode() {
+    "use server";
+
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      throw new Error("Unauthorized");
+    }
+
+    await rotateMemberCheckinCode(currentUser.id);
+    revalidatePath("/profile");
+    revalidatePath("/checkin");
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          My Check-In Code
+        </CardTitle>
+        <CardDescription>
+          Show this code at the lobby kiosk or to an usher to check in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-center">
+          <Image
+            src={qrCodeUrl}
+            alt="Personal check-in QR code"
+            width={240}
+            height={240}
+            className="rounded-lg border bg-white p-2"
+            unoptimized={true}
+          />
+        </div>
+        <form action={rotateCode} className="flex justify-center">
+          <Button type="submit" variant="outline" size="sm">
+            Generate new code
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
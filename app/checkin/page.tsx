@@ -2,11 +2,13 @@ export const dynamic = 'force-dynamic'
 
 import { AppLayout } from "@/components/layout/app-layout";
 import { PageHeader } from "@/components/layout/page-header";
-import { getCurrentUser } from "@/lib/rbac";
+import { getCurrentUser, hasMinRole } from "@/lib/rbac";
 import { redirect } from "next/navigation";
-import { getTodayService, getUserCheckin } from "./actions";
+import { getMyHousehold, getTodayService, getUserCheckin } from "./actions";
 import { CheckInForm } from "./checkin-form";
 import { RealtimeAttendanceList } from "./realtime-attendance-list";
+import { MemberCodeCard } from "./member-code-card";
+import { HouseholdCheckIn } from "./household-checkin";
 import { 
   NativeCard, 
   NativeCardContent, 
@@ -14,7 +16,10 @@ import {
   NativeCardHeader, 
   NativeCardTitle 
 } from "@/components/ui/native";
-import { Calendar } from "lucide-react";
+import { Baby, Calendar, ScanLine } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { UserRole } from "@prisma/client";
 import { format } from "date-fns";
 
 export default async function CheckInPage() {
@@ -26,6 +31,24 @@ export default async function CheckInPage() {
 
   const serviceResult = await getTodayService();
   const isAdmin = ['ADMIN', 'PASTOR', 'SUPER_ADMIN'].includes(user.role);
+  const canScan = hasMinRole(user.role, UserRole.VIP);
+
+  const staffActions = canScan && (
+    <>
+      <Button asChild variant="outline">
+        <Link href="/checkin/scan">
+          <ScanLine className="mr-2 h-4 w-4" />
+          Scan Codes
+        </Link>
+      </Button>
+      <Button asChild variant="outline">
+        <Link href="/checkin/pickup">
+          <Baby className="mr-2 h-4 w-4" />
+          Child Pickup
+        </Link>
+      </Button>
+    </>
+  );
 
   if (!serviceResult.success || !serviceResult.data) {
     return (
@@ -33,15 +56,17 @@ export default async function CheckInPage() {
         <PageHeader 
           title="Sunday Check-In" 
           description="Check in for today's service"
-        />
+        >
+          {staffActions}
+        </PageHeader>
         <NativeCard className="max-w-2xl mx-auto">
           <NativeCardHeader>
             <div className="flex items-center gap-2 text-ink-muted">
               <Calendar className="h-5 w-5" />
-              <NativeCardTitle>No Service Today</NativeCardTitle>
+              <NativeCardTitle>No Service Right Now</NativeCardTitle>
             </div>
             <NativeCardDescription>
-              There is no service scheduled for today. Please check back on Sunday.
+              Check-in opens an hour before each scheduled service. Please check back then.
             </NativeCardDescription>
           </NativeCardHeader>
           <NativeCardContent>
@@ -50,6 +75,11 @@ export default async function CheckInPage() {
             </p>
           </NativeCardContent>
         </NativeCard>
+        {!isAdmin && (
+          <div className="max-w-2xl mx-auto mt-6">
+            <MemberCodeCard userId={user.id} />
+          </div>
+        )}
       </AppLayout>
     );
   }
@@ -58,11 +88,18 @@ export default async function CheckInPage() {
   
   // Get user's check-in status if not admin
   let userCheckin = null;
+  let household = null;
   if (!isAdmin && user.id) {
-    const checkinResult = await getUserCheckin(service.id);
+    const [checkinResult, householdResult] = await Promise.all([
+      getUserCheckin(service.id),
+      getMyHousehold(service.id)
+    ]);
     if (checkinResult.success) {
       userCheckin = checkinResult.data;
     }
+    if (householdResult.success && householdResult.data && householdResult.data.members.length > 0) {
+      household = householdResult.data;
+    }
   }
 
   return (
@@ -70,7 +107,9 @@ export default async function CheckInPage() {
       <PageHeader 
         title="Sunday Check-In" 
         description="Check in for today's service"
-      />
+      >
+        {staffActions}
+      </PageHeader>
       
       <div className="space-y-6">
         {!isAdmin && (
@@ -80,6 +119,20 @@ export default async function CheckInPage() {
           />
         )}
 
+        {household && (
+          <HouseholdCheckIn
+            serviceId={service.id}
+            selfCheckedIn={!!userCheckin}
+            household={household}
+          />
+        )}
+
+        {!isAdmin && (
+          <div className="max-w-2xl mx-auto">
+            <MemberCodeCard userId={user.id} />
+          </div>
+        )}
+
         {isAdmin && (
           <RealtimeAttendanceList 
             serviceId={service.id}
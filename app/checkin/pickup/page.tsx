@@ -0,0 +1,44 @@
+export const dynamic = 'force-dynamic'
+
+import { redirect } from "next/navigation";
+import { format } from "date-fns";
+import { UserRole } from "@prisma/client";
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser, hasMinRole } from "@/lib/rbac";
+import { isServiceOpen } from "@/lib/services/schedules";
+import { getScanServices } from "../actions";
+import { PickupStation } from "./pickup-station";
+
+export default async function ChildPickupPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!hasMinRole(user.role, UserRole.VIP)) {
+    redirect("/checkin");
+  }
+
+  const servicesResult = await getScanServices();
+  const scanServices = servicesResult.success && servicesResult.data ? servicesResult.data : [];
+  const services = scanServices.map((service) => ({
+    id: service.id,
+    label: `${service.localChurch.name} - ${service.name ? `${service.name} · ` : ''}${format(service.date, 'EEE, MMM d · h:mm a')}`
+  }));
+
+  const now = new Date();
+  const defaultService = scanServices.find((service) => isServiceOpen(service, now))
+    ?? scanServices.find((service) => service.date <= now);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Child Pickup"
+        description="Verify the parent's pickup code before releasing children"
+      />
+      <PickupStation services={services} defaultServiceId={defaultService?.id} />
+    </AppLayout>
+  );
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CheckCircle, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { confirmPickup, lookupPickupCode } from '../actions'
+
+interface PickupStationProps {
+  services: Array<{
+    id: string
+    label: string
+  }>
+  defaultServiceId?: string
+}
+
+interface PickupChild {
+  id: string
+  name: string
+  householdName: string
+  notes: string | null
+  checkedInAt: Date
+}
+
+export function PickupStation({ services, defaultServiceId }: PickupStationProps) {
+  const [serviceId, setServiceId] = useState(
+    (services.find((service) => service.id === defaultServiceId) ?? services[0])?.id ?? ''
+  )
+  const [code, setCode] = useState('')
+  const [children, setChildren] = useState<PickupChild[] | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const reset = () => {
+    setCode('')
+    setChildren(null)
+  }
+
+  const handleLookup = () => {
+    startTransition(async () => {
+      const result = await lookupPickupCode({ serviceId, code })
+      if (result.success && result.data) {
+        setChildren(result.data)
+      } else {
+        setChildren(null)
+        toast.error(result.error || 'Pickup code not found')
+      }
+    })
+  }
+
+  const handleRelease = () => {
+    startTransition(async () => {
+      const result = await confirmPickup({ serviceId, code })
+      if (result.success && result.data) {
+        toast.success(`${result.data.released} ${result.data.released === 1 ? 'child' : 'children'} released`)
+        reset()
+      } else {
+        toast.error(result.error || 'Failed to confirm pickup')
+      }
+    })
+  }
+
+  if (services.length === 0) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle>No recent services</CardTitle>
+          <CardDescription>Pickup codes are issued when children are checked in to a service.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pickup-service">Service</Label>
+            <Select
+              value={serviceId}
+              onValueChange={(value) => {
+                setServiceId(value)
+                reset()
+              }}
+            >
+              <SelectTrigger id="pickup-service">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map((service) => (
+                  <SelectItem key={service.id} value={service.id}>
+                    {service.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleLookup()
+            }}
+          >
+            <Label htmlFor="pickup-code">Pickup code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="pickup-code"
+                className="font-mono uppercase tracking-widest"
+                autoComplete="off"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value.toUpperCase())
+                  setChildren(null)
+                }}
+              />
+              <Button type="submit" disabled={isPending || code.trim().length === 0}>
+                {isPending && !children ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Verify
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {children && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Release to parent</CardTitle>
+            <CardDescription>Confirm these children are being picked up.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="space-y-2" data-testid="pickup-children">
+              {children.map((child) => (
+                <li key={child.id} className="rounded-lg border p-3">
+                  <p className="font-medium">{child.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {child.householdName} · checked in {format(new Date(child.checkedInAt), 'h:mm a')}
+                  </p>
+                  {child.notes && <p className="text-sm mt-1">{child.notes}</p>}
+                </li>
+              ))}
+            </ul>
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="outline" onClick={reset} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleRelease} disabled={isPending}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Confirm Pickup
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+export const dynamic = 'force-dynamic'
+
+import { redirect } from "next/navigation";
+import { format } from "date-fns";
+import { UserRole } from "@prisma/client";
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser, hasMinRole } from "@/lib/rbac";
+import { isServiceOpen } from "@/lib/services/schedules";
+import { getScanServices } from "../actions";
+import { ScanStation } from "./scan-station";
+
+export default async function CheckInScanPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!hasMinRole(user.role, UserRole.VIP)) {
+    redirect("/checkin");
+  }
+
+  const servicesResult = await getScanServices();
+  const scanServices = servicesResult.success && servicesResult.data ? servicesResult.data : [];
+  const services = scanServices.map((service) => ({
+    id: service.id,
+    label: `${service.localChurch.name} - ${service.name ? `${service.name} · ` : ''}${format(service.date, 'EEE, MMM d · h:mm a')}`,
+    checkinCount: service._count.checkins
+  }));
+
+  // Default to the service whose check-in window is open, else the latest one that has started
+  const now = new Date();
+  const defaultService = scanServices.find((service) => isServiceOpen(service, now))
+    ?? scanServices.find((service) => service.date <= now);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Scan Check-In"
+        description="Scan members' personal QR codes as they arrive"
+      />
+      <ScanStation services={services} defaultServiceId={defaultService?.id} />
+    </AppLayout>
+  );
+}
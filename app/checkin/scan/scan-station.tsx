@@ -0,0 +1,153 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import dynamic from 'next/dynamic'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CheckCircle, Info, Loader2, Users, XCircle } from 'lucide-react'
+import { scanMemberCheckin } from '../actions'
+
+// Lazy load QR Scanner only when needed
+const QRScanner = dynamic(() => import('@/components/ui/qr-scanner').then(mod => ({ default: mod.QRScanner })), {
+  loading: () => (
+    <div className="flex justify-center items-center h-48">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+    </div>
+  ),
+  ssr: false // QR Scanner needs client-side camera APIs
+})
+
+// Pause between scans so the same badge held in front of the camera is not re-read instantly
+const RESCAN_DELAY_MS = 1200
+
+interface ScanStationProps {
+  services: Array<{
+    id: string
+    label: string
+    checkinCount: number
+  }>
+  defaultServiceId?: string
+}
+
+type ScanFeedback =
+  | { kind: 'success'; message: string }
+  | { kind: 'repeat'; message: string }
+  | { kind: 'error'; message: string }
+
+export function ScanStation({ services, defaultServiceId }: ScanStationProps) {
+  const initialService = services.find((service) => service.id === defaultServiceId) ?? services[0]
+  const [serviceId, setServiceId] = useState(initialService?.id ?? '')
+  const [count, setCount] = useState(initialService?.checkinCount ?? 0)
+  const [scannerKey, setScannerKey] = useState(0)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null)
+  const serviceIdRef = useRef(serviceId)
+
+  const handleServiceChange = (value: string) => {
+    serviceIdRef.current = value
+    setServiceId(value)
+    setCount(services.find((service) => service.id === value)?.checkinCount ?? 0)
+    setFeedback(null)
+  }
+
+  const handleScan = useCallback(async (code: string) => {
+    setIsProcessing(true)
+    try {
+      const result = await scanMemberCheckin({ serviceId: serviceIdRef.current, code })
+      if (result.success && result.data) {
+        setCount(result.data.count)
+        setFeedback(result.data.alreadyCheckedIn
+          ? { kind: 'repeat', message: `${result.data.name} is already checked in` }
+          : { kind: 'success', message: `${result.data.name} checked in` })
+      } else {
+        setFeedback({ kind: 'error', message: result.error || 'Failed to check in' })
+      }
+    } catch {
+      setFeedback({ kind: 'error', message: 'An unexpected error occurred' })
+    } finally {
+      setIsProcessing(false)
+      // The scanner stops after each read, so remount it for the next person
+      window.setTimeout(() => setScannerKey((key) => key + 1), RESCAN_DELAY_MS)
+    }
+  }, [])
+
+  const handleScanError = useCallback((error: string) => {
+    setFeedback({ kind: 'error', message: `Scanner error: ${error}` })
+  }, [])
+
+  const handleClose = useCallback(() => {
+    setScannerKey((key) => key + 1)
+  }, [])
+
+  if (services.length === 0) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle>No services to scan</CardTitle>
+          <CardDescription>Create a service first from Admin Services.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scan-service">Service</Label>
+            <Select value={serviceId} onValueChange={handleServiceChange}>
+              <SelectTrigger id="scan-service">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map((service) => (
+                  <SelectItem key={service.id} value={service.id}>
+                    {service.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2 text-lg font-semibold" aria-live="polite">
+            <Users className="h-5 w-5" />
+            <span data-testid="scan-count">{count}</span> checked in
+          </div>
+
+          {feedback && (
+            <div
+              role="status"
+              className={
+                feedback.kind === 'success'
+                  ? 'flex items-center gap-2 rounded-lg p-3 bg-green-50 text-green-700'
+                  : feedback.kind === 'repeat'
+                    ? 'flex items-center gap-2 rounded-lg p-3 bg-blue-50 text-blue-700'
+                    : 'flex items-center gap-2 rounded-lg p-3 bg-red-50 text-red-700'
+              }
+            >
+              {feedback.kind === 'success' && <CheckCircle className="h-5 w-5" />}
+              {feedback.kind === 'repeat' && <Info className="h-5 w-5" />}
+              {feedback.kind === 'error' && <XCircle className="h-5 w-5" />}
+              {feedback.message}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isProcessing ? (
+        <div className="flex justify-center items-center h-48">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <QRScanner
+          key={`${serviceId}-${scannerKey}`}
+          onScan={handleScan}
+          onError={handleScanError}
+          onClose={handleClose}
+        />
+      )}
+    </div>
+  )
+}
@@ -3,11 +3,21 @@
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { markAsPaid } from '../actions'
-import { RsvpStatus } from '@prisma/client'
+import { recordOfflinePayment, refundPayment } from '../actions'
+import { PaymentStatus, RsvpStatus } from '@prisma/client'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
-import { DollarSign, CheckCircle } from 'lucide-react'
+import { DollarSign, CheckCircle, Undo2, AlertTriangle } from 'lucide-react'
+
+interface AttendeePayment {
+  id: string
+  provider: string
+  status: PaymentStatus
+  amountCents: number
+  refundedCents: number
+  currency: string
+  needsRefund: boolean
+}
 
 interface AttendeesListProps {
   eventId: string
@@ -15,7 +25,9 @@ interface AttendeesListProps {
     id: string
     status: RsvpStatus
     hasPaid: boolean
+    paymentDueAt: Date | null
     rsvpAt: Date
+    payments: AttendeePayment[]
     user: {
       id: string
       name: string | null
@@ -25,16 +37,70 @@ interface AttendeesListProps {
   requiresPayment: boolean
 }
 
+function PaymentControls({
+  rsvp,
+  disabled,
+  onRecordPayment,
+  onRefund
+}: {
+  rsvp: AttendeesListProps['rsvps'][number]
+  disabled: boolean
+  onRecordPayment: () => void
+  onRefund: (payment: AttendeePayment) => void
+}) {
+  const refundable = rsvp.payments.find(payment => payment.needsRefund) ?? rsvp.payments.find(payment =>
+    payment.status === PaymentStatus.SUCCEEDED || payment.status === PaymentStatus.PARTIALLY_REFUNDED)
+
+  return (
+    <div className="flex items-center gap-2">
+      {refundable?.needsRefund && (
+        <Badge variant="danger" className="flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Needs refund
+        </Badge>
+      )}
+      {rsvp.status === RsvpStatus.CANCELLED ? null : rsvp.hasPaid ? (
+        <Badge variant="secondary" className="flex items-center gap-1">
+          <CheckCircle className="h-3 w-3" />
+          {refundable?.status === PaymentStatus.PARTIALLY_REFUNDED ? 'Partly refunded' : 'Paid'}
+        </Badge>
+      ) : (
+        <>
+          {rsvp.paymentDueAt && (
+            <span className="text-xs text-gray-500">
+              Due {new Date(rsvp.paymentDueAt).toLocaleString()}
+            </span>
+          )}
+          <Button size="sm" variant="outline" onClick={onRecordPayment} disabled={disabled}>
+            <DollarSign className="h-3 w-3 mr-1" />
+            Record Payment
+          </Button>
+        </>
+      )}
+      {refundable && (
+        <Button size="sm" variant="ghost" onClick={() => onRefund(refundable)} disabled={disabled}>
+          <Undo2 className="h-3 w-3 mr-1" />
+          Refund
+        </Button>
+      )}
+    </div>
+  )
+}
+
 export function AttendeesList({ rsvps, requiresPayment }: AttendeesListProps) {
   const router = useRouter()
   const [loadingIds, setLoadingIds] = useState<Set<string>>(new Set())
 
-  const handleMarkPaid = async (rsvpId: string) => {
+  const runForRsvp = async (
+    rsvpId: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
     setLoadingIds(prev => new Set(prev).add(rsvpId))
     try {
-      const result = await markAsPaid(rsvpId)
+      const result = await action()
       if (result.success) {
-        toast.success('Marked as paid')
+        toast.success(successMessage)
         router.refresh()
       } else {
         toast.error(result.error || 'Failed to update payment status')
@@ -50,8 +116,22 @@ export function AttendeesList({ rsvps, requiresPayment }: AttendeesListProps) {
     }
   }
 
+  const handleRecordPayment = (rsvpId: string) => {
+    const reference = prompt('Receipt or transfer reference (optional)')
+    if (reference === null) return
+    runForRsvp(rsvpId, () => recordOfflinePayment(rsvpId, reference), 'Payment recorded')
+  }
+
+  const handleRefund = (rsvp: AttendeesListProps['rsvps'][number], payment: AttendeePayment) => {
+    const remaining = ((payment.amountCents - payment.refundedCents) / 100).toFixed(2)
+    const seatNote = rsvp.status === RsvpStatus.GOING ? ' Their seat will go to the waitlist.' : ''
+    if (!confirm(`Refund ${payment.currency} ${remaining} to this attendee?${seatNote}`)) return
+    runForRsvp(rsvp.id, () => refundPayment(payment.id), 'Payment refunded')
+  }
+
   const goingList = rsvps.filter(r => r.status === RsvpStatus.GOING)
   const waitlist = rsvps.filter(r => r.status === RsvpStatus.WAITLIST)
+  const releasedList = rsvps.filter(r => r.status === RsvpStatus.CANCELLED && r.payments.some(p => p.needsRefund))
 
   return (
     <div className="space-y-6">
@@ -70,24 +150,12 @@ export function AttendeesList({ rsvps, requiresPayment }: AttendeesListProps) {
                 </div>
                 
                 {requiresPayment && (
-                  <div className="flex items-center gap-2">
-                    {rsvp.hasPaid ? (
-                      <Badge variant="secondary" className="flex items-center gap-1">
-                        <CheckCircle className="h-3 w-3" />
-                        Paid
-                      </Badge>
-                    ) : (
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleMarkPaid(rsvp.id)}
-                        disabled={loadingIds.has(rsvp.id)}
-                      >
-                        <DollarSign className="h-3 w-3 mr-1" />
-                        Mark Paid
-                      </Button>
-                    )}
-                  </div>
+                  <PaymentControls
+                    rsvp={rsvp}
+                    disabled={loadingIds.has(rsvp.id)}
+                    onRecordPayment={() => handleRecordPayment(rsvp.id)}
+                    onRefund={(payment) => handleRefund(rsvp, payment)}
+                  />
                 )}
               </div>
             ))}
@@ -115,6 +183,31 @@ export function AttendeesList({ rsvps, requiresPayment }: AttendeesListProps) {
         </div>
       )}
 
+      {requiresPayment && releasedList.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-1">Released, paid late ({releasedList.length})</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            These payments arrived after the seat was released. Refund them.
+          </p>
+          <div className="space-y-2">
+            {releasedList.map((rsvp) => (
+              <div key={rsvp.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                <div>
+                  <p className="font-medium">{rsvp.user.name || 'No name'}</p>
+                  <p className="text-sm text-gray-600">{rsvp.user.email}</p>
+                </div>
+                <PaymentControls
+                  rsvp={rsvp}
+                  disabled={loadingIds.has(rsvp.id)}
+                  onRecordPayment={() => handleRecordPayment(rsvp.id)}
+                  onRefund={(payment) => handleRefund(rsvp, payment)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {goingList.length === 0 && waitlist.length === 0 && (
         <p className="text-gray-500 text-center py-4">No attendees yet</p>
       )}
@@ -7,6 +7,8 @@ import { rsvpToEvent, cancelRsvp } from '../actions'
 import { RsvpStatus } from '@prisma/client'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { usePaymentRequest } from '@/hooks/use-payment-request'
 
 interface RsvpButtonProps {
   eventId: string
@@ -14,6 +16,7 @@ interface RsvpButtonProps {
     id: string
     status: RsvpStatus
     hasPaid: boolean
+    paymentDueAt: Date | null
   } | null
   isFull: boolean
   requiresPayment: boolean
@@ -22,6 +25,8 @@ interface RsvpButtonProps {
 export function RsvpButton({ eventId, userRsvp, isFull, requiresPayment }: RsvpButtonProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
+  const [isPaying, setIsPaying] = useState(false)
+  const { payForEvent } = usePaymentRequest()
 
   const handleRsvp = async () => {
     setIsLoading(true)
@@ -61,7 +66,30 @@ export function RsvpButton({ eventId, userRsvp, isFull, requiresPayment }: RsvpB
     }
   }
 
+  const handlePay = async () => {
+    setIsPaying(true)
+    try {
+      const result = await payForEvent(eventId)
+      if (result.redirected) {
+        return
+      }
+      if (result.success) {
+        toast.success('Payment received!')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Payment failed')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsPaying(false)
+    }
+  }
+
   if (userRsvp) {
+    const needsPayment = requiresPayment && userRsvp.status === RsvpStatus.GOING && !userRsvp.hasPaid
+
+
     return (
       <div className="space-y-3">
         <div className="flex items-center gap-3">
@@ -87,13 +115,26 @@ export function RsvpButton({ eventId, userRsvp, isFull, requiresPayment }: RsvpB
           )}
         </div>
         
-        <Button 
-          onClick={handleCancel} 
-          variant="destructive"
-          disabled={isLoading}
-        >
-          {isLoading ? 'Cancelling...' : 'Cancel RSVP'}
-        </Button>
+        {needsPayment && userRsvp.paymentDueAt && (
+          <p className="text-sm text-gray-600">
+            Pay by {format(new Date(userRsvp.paymentDueAt), 'PPp')} to keep your seat.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {needsPayment && (
+            <Button onClick={handlePay} disabled={isPaying || isLoading}>
+              {isPaying ? 'Processing...' : 'Pay Now'}
+            </Button>
+          )}
+          <Button 
+            onClick={handleCancel} 
+            variant="destructive"
+            disabled={isLoading || isPaying}
+          >
+            {isLoading ? 'Cancelling...' : 'Cancel RSVP'}
+          </Button>
+        </div>
 
         {userRsvp.status === RsvpStatus.WAITLIST && (
           <p className="text-sm text-gray-600">
@@ -123,7 +164,7 @@ export function RsvpButton({ eventId, userRsvp, isFull, requiresPayment }: RsvpB
 
       {requiresPayment && !isFull && (
         <p className="text-sm text-gray-600">
-          Payment will be collected at the event.
+          This event has a registration fee. You can pay online once your seat is confirmed.
         </p>
       )}
     </div>
@@ -6,6 +6,18 @@ import { UserRole, EventScope, RsvpStatus } from '@prisma/client'
 import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
 import { hasMinRole, createTenantWhereClause } from '@/lib/rbac'
+import { ApplicationError } from '@/lib/errors'
+import { getAppUrl } from '@/lib/email'
+import { notifyRsvpConfirmed, notifyWaitlistPromotion } from '@/lib/push/notifications'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+import {
+  confirmEventCheckout,
+  getPaymentDueAt,
+  recordOfflinePayment as recordOfflineEventPayment,
+  refundEventPayment,
+  startEventCheckout,
+  toCents
+} from '@/lib/payments/event-payments'
 
 const createEventSchema = z.object({
   name: z.string().min(1),
@@ -18,6 +30,7 @@ const createEventSchema = z.object({
   localChurchId: z.string().optional(),
   requiresPayment: z.boolean().default(false),
   feeAmount: z.number().optional(),
+  paymentWindowHours: z.number().int().min(1).max(720).nullable().optional(),
   visibleToRoles: z.array(z.nativeEnum(UserRole)).default([]),
 }).refine(
   (data) => {
@@ -198,6 +211,7 @@ export async function rsvpToEvent(eventId: string) {
           eventId,
           userId: session.user.id,
           status,
+          paymentDueAt: status === RsvpStatus.GOING ? getPaymentDueAt(event) : null,
         },
       })
     }, {
@@ -259,6 +273,31 @@ export async function rsvpToEvent(eventId: string) {
       }
     }
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'RSVP_CREATED',
+        entity: 'Event',
+        entityId: eventId,
+        localChurchId: event.localChurchId,
+        meta: { eventName: event.name, status: rsvp.status }
+      }
+    })
+
+    await notifyRsvpConfirmed({
+      userId: session.user.id,
+      eventId,
+      waitlisted: rsvp.status === RsvpStatus.WAITLIST
+    })
+
+    publishRealtimeEvent('event.updated', event.localChurchId, {
+      id: eventId,
+      rsvpId: rsvp.id,
+      userId: rsvp.userId,
+      status: rsvp.status,
+      reason: 'rsvp'
+    })
+
     revalidatePath('/events')
     revalidatePath(`/events/${eventId}`)
     revalidatePath('/pathways')
@@ -290,6 +329,11 @@ export async function cancelRsvp(eventId: string) {
         userId: session.user.id,
         status: { not: RsvpStatus.CANCELLED },
       },
+      include: {
+        event: {
+          select: { name: true, localChurchId: true, requiresPayment: true, paymentWindowHours: true, startDateTime: true }
+        }
+      }
     })
 
     if (!rsvp) {
@@ -297,13 +341,14 @@ export async function cancelRsvp(eventId: string) {
     }
 
     // Atomic cancellation with waitlist promotion to prevent capacity gaps
-    await prisma.$transaction(async (tx) => {
+    const promoted = await prisma.$transaction(async (tx) => {
       // Cancel the user's RSVP
       await tx.eventRsvp.update({
         where: { id: rsvp.id },
         data: {
           status: RsvpStatus.CANCELLED,
           cancelledAt: new Date(),
+          paymentDueAt: null,
         },
       })
 
@@ -318,14 +363,36 @@ export async function cancelRsvp(eventId: string) {
         })
 
         if (firstWaitlisted) {
-          await tx.eventRsvp.update({
+          return tx.eventRsvp.update({
             where: { id: firstWaitlisted.id },
-            data: { status: RsvpStatus.GOING },
+            data: { status: RsvpStatus.GOING, paymentDueAt: getPaymentDueAt(rsvp.event) },
           })
         }
       }
+
+      return null
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'RSVP_CANCELLED',
+        entity: 'Event',
+        entityId: eventId,
+        localChurchId: rsvp.event.localChurchId,
+        meta: {
+          eventName: rsvp.event.name,
+          previousStatus: rsvp.status,
+          newStatus: RsvpStatus.CANCELLED,
+          promotedUserId: promoted?.userId ?? null
+        }
+      }
+    })
+
+    if (promoted) {
+      await notifyWaitlistPromotion({ userId: promoted.userId, eventId })
+    }
+
     revalidatePath('/events')
     revalidatePath(`/events/${eventId}`)
     return { success: true }
@@ -439,6 +506,7 @@ export async function getEventById(eventId: string) {
         localChurchId: true,
         requiresPayment: true,
         feeAmount: true,
+        paymentWindowHours: true,
         visibleToRoles: true,
         isActive: true,
         localChurch: {
@@ -448,14 +516,32 @@ export async function getEventById(eventId: string) {
           }
         },
         rsvps: {
-          where: { 
-            status: { not: RsvpStatus.CANCELLED },
+          where: {
+            OR: [
+              { status: { not: RsvpStatus.CANCELLED } },
+              // Released seats whose payment arrived late still have to be refunded
+              { payments: { some: { needsRefund: true } } },
+            ],
           },
           select: {
             id: true,
             status: true,
             rsvpAt: true,
             hasPaid: true,
+            paymentDueAt: true,
+            payments: {
+              select: {
+                id: true,
+                provider: true,
+                status: true,
+                amountCents: true,
+                refundedCents: true,
+                currency: true,
+                paidAt: true,
+                needsRefund: true,
+              },
+              orderBy: { createdAt: 'desc' },
+            },
             user: {
               select: {
                 id: true,
@@ -517,55 +603,179 @@ export async function getEventById(eventId: string) {
   }
 }
 
-export async function markAsPaid(rsvpId: string) {
+/**
+ * Whether an admin may manage payments for the event: SUPER_ADMIN anywhere,
+ * other admins for whole-church events and their own church's events.
+ */
+async function canManageEventPayments(
+  user: { role: UserRole; tenantId?: string | null },
+  event: { scope: EventScope; localChurchId: string | null }
+) {
+  if (!hasMinRole(user.role, UserRole.ADMIN)) {
+    return false
+  }
+  if (event.scope !== EventScope.LOCAL_CHURCH || user.role === UserRole.SUPER_ADMIN) {
+    return true
+  }
+
+  const whereClause = await createTenantWhereClause(user, {}, undefined, 'localChurchId')
+  return whereClause.localChurchId === event.localChurchId
+}
+
+/**
+ * Opens a checkout for the member's GOING seat with the configured payment
+ * provider. The client pays on checkoutUrl or, where the browser supports
+ * it, through the Payment Request API and confirmEventPayment.
+ */
+export async function startEventPayment(eventId: string) {
   try {
     const session = await auth()
     if (!session?.user) {
       return { success: false, error: 'Not authenticated' }
     }
 
-    // Only admins can mark as paid
-    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
-      return { success: false, error: 'Unauthorized' }
+    const checkout = await startEventCheckout({
+      eventId,
+      userId: session.user.id,
+      returnUrl: getAppUrl(`/events/${eventId}`)
+    })
+
+    return {
+      success: true,
+      data: {
+        paymentId: checkout.paymentId,
+        checkoutUrl: checkout.checkoutUrl,
+        eventName: checkout.eventName,
+        amount: checkout.amountCents / 100,
+        currency: checkout.currency
+      }
     }
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Start event payment error:', error)
+    return { success: false, error: 'Failed to start payment' }
+  }
+}
+
+const confirmPaymentSchema = z.object({
+  methodName: z.string().min(1),
+  details: z.record(z.unknown()).default({}),
+})
 
-    const rsvp = await prisma.eventRsvp.update({
+/** Charges a payment method collected in the browser for a checkout from startEventPayment */
+export async function confirmEventPayment(
+  paymentId: string,
+  data: z.input<typeof confirmPaymentSchema>
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const validated = confirmPaymentSchema.parse(data)
+    const outcome = await confirmEventCheckout({
+      paymentId,
+      userId: session.user.id,
+      methodName: validated.methodName,
+      details: validated.details
+    })
+
+    revalidatePath('/events')
+    return outcome.status === 'succeeded'
+      ? { success: true, data: outcome }
+      : { success: false, error: outcome.failureReason || 'Payment failed', data: outcome }
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Confirm event payment error:', error)
+    return { success: false, error: 'Failed to confirm payment' }
+  }
+}
+
+/** Records a cash or bank payment an admin took for the RSVP */
+export async function recordOfflinePayment(rsvpId: string, reference?: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const rsvp = await prisma.eventRsvp.findUnique({
       where: { id: rsvpId },
-      data: { hasPaid: true },
+      select: { eventId: true, event: { select: { scope: true, localChurchId: true } } }
+    })
+
+    if (!rsvp || !(await canManageEventPayments(session.user, rsvp.event))) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const payment = await recordOfflineEventPayment({
+      rsvpId,
+      reference: reference?.trim() || null,
+      recordedById: session.user.id
     })
 
     revalidatePath('/events')
-    revalidatePath('/admin/events')
-    return { success: true, data: rsvp }
+    revalidatePath(`/events/${rsvp.eventId}`)
+    revalidatePath(`/admin/events/${rsvp.eventId}`)
+    return { success: true, data: payment }
   } catch (error) {
-    console.error('Mark as paid error:', error)
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Record offline payment error:', error)
     return { success: false, error: 'Failed to update payment status' }
   }
 }
 
-export async function markAsUnpaid(rsvpId: string) {
+const refundSchema = z.object({
+  amount: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+})
+
+/** Refunds all (or `amount`) of what is left of a payment */
+export async function refundPayment(paymentId: string, data: z.infer<typeof refundSchema> = {}) {
   try {
     const session = await auth()
     if (!session?.user) {
       return { success: false, error: 'Not authenticated' }
     }
 
-    // Only admins can update payment status
-    if (!hasMinRole(session.user.role, UserRole.ADMIN)) {
+    const validated = refundSchema.parse(data)
+
+    const payment = await prisma.eventPayment.findUnique({
+      where: { id: paymentId },
+      select: { eventId: true, event: { select: { scope: true, localChurchId: true } } }
+    })
+
+    if (!payment || !(await canManageEventPayments(session.user, payment.event))) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    const rsvp = await prisma.eventRsvp.update({
-      where: { id: rsvpId },
-      data: { hasPaid: false },
+    const refund = await refundEventPayment({
+      paymentId,
+      amountCents: validated.amount !== undefined ? toCents(validated.amount) : undefined,
+      reason: validated.reason,
+      issuedById: session.user.id
     })
 
     revalidatePath('/events')
-    revalidatePath('/admin/events')
-    return { success: true, data: rsvp }
+    revalidatePath(`/events/${payment.eventId}`)
+    revalidatePath(`/admin/events/${payment.eventId}`)
+    return { success: true, data: refund }
   } catch (error) {
-    console.error('Mark as unpaid error:', error)
-    return { success: false, error: 'Failed to update payment status' }
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors.map(e => e.message).join(', ') }
+    }
+    console.error('Refund payment error:', error)
+    return { success: false, error: 'Failed to refund payment' }
   }
 }
 
@@ -591,7 +801,14 @@ export async function promoteFromWaitlist(eventId: string) {
 
     const event = await prisma.event.findUnique({
       where: { id: eventId },
-      select: { capacity: true, localChurchId: true, scope: true }
+      select: {
+        capacity: true,
+        localChurchId: true,
+        scope: true,
+        requiresPayment: true,
+        paymentWindowHours: true,
+        startDateTime: true
+      }
     })
 
     if (!event) {
@@ -649,7 +866,7 @@ export async function promoteFromWaitlist(eventId: string) {
       // Promote to GOING
       const promoted = await tx.eventRsvp.update({
         where: { id: firstWaitlisted.id },
-        data: { status: RsvpStatus.GOING },
+        data: { status: RsvpStatus.GOING, paymentDueAt: getPaymentDueAt(event) },
         include: {
           user: {
             select: {
@@ -663,6 +880,32 @@ export async function promoteFromWaitlist(eventId: string) {
       return promoted
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'RSVP_PROMOTED',
+        entity: 'Event',
+        entityId: eventId,
+        localChurchId: event.localChurchId,
+        meta: {
+          userId: result.userId,
+          userName: result.user.name,
+          previousStatus: RsvpStatus.WAITLIST,
+          newStatus: RsvpStatus.GOING
+        }
+      }
+    })
+
+    await notifyWaitlistPromotion({ userId: result.userId, eventId })
+
+    publishRealtimeEvent('event.updated', event.localChurchId, {
+      id: eventId,
+      rsvpId: result.id,
+      userId: result.userId,
+      status: result.status,
+      reason: 'waitlist_promotion'
+    })
+
     revalidatePath('/events')
     revalidatePath(`/events/${eventId}`)
     return { success: true, data: result }
@@ -0,0 +1,52 @@
+'use server'
+
+import { redirect } from 'next/navigation'
+import { PaymentStatus } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/email'
+import { handlePaymentWebhook } from '@/lib/payments/event-payments'
+import { buildMockWebhookDelivery, getPaymentProvider } from '@/lib/payments/providers'
+
+/** Only same-origin return URLs are followed, anything else falls back to the event */
+function resolveReturnUrl(returnUrl: string, eventId: string): string {
+  return returnUrl.startsWith(getAppUrl('/')) ? returnUrl : `/events/${eventId}`
+}
+
+/**
+ * Approves or declines a mock checkout. The result is delivered as a signed
+ * webhook, so the mock settles exactly like a real gateway would.
+ */
+export async function completeMockCheckout(formData: FormData) {
+  const session = await auth()
+  if (!session?.user) {
+    redirect('/auth/signin')
+  }
+
+  if (getPaymentProvider()?.name !== 'mock') {
+    redirect('/events')
+  }
+
+  const providerPaymentId = String(formData.get('payment') || '')
+  const approved = formData.get('outcome') === 'approve'
+
+  const payment = await prisma.eventPayment.findFirst({
+    where: {
+      provider: 'mock',
+      providerPaymentId,
+      userId: session.user.id,
+      status: PaymentStatus.PENDING
+    },
+    select: { eventId: true }
+  })
+  if (!payment) {
+    redirect('/events')
+  }
+
+  const delivery = buildMockWebhookDelivery(approved
+    ? { type: 'payment.succeeded', providerPaymentId }
+    : { type: 'payment.failed', providerPaymentId, failureReason: 'Declined at checkout' })
+  await handlePaymentWebhook('mock', delivery.rawBody, delivery.headers)
+
+  redirect(resolveReturnUrl(String(formData.get('return') || ''), payment.eventId))
+}
@@ -0,0 +1,83 @@
+import { notFound, redirect } from 'next/navigation'
+import { PaymentStatus } from '@prisma/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AppLayout } from '@/components/layout/app-layout'
+import { getCurrentUser } from '@/lib/rbac'
+import { prisma } from '@/lib/prisma'
+import { formatCents } from '@/lib/payments/event-payments'
+import { getPaymentProvider } from '@/lib/payments/providers'
+import { completeMockCheckout } from './actions'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Stand-in for a hosted gateway checkout when the mock payment provider is
+ * active. Not available with any other provider.
+ */
+export default async function MockCheckoutPage({
+  searchParams
+}: {
+  searchParams: Promise<{ payment?: string; return?: string }>
+}) {
+  if (getPaymentProvider()?.name !== 'mock') {
+    notFound()
+  }
+
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/auth/signin')
+  }
+
+  const params = await searchParams
+  const payment = params.payment
+    ? await prisma.eventPayment.findFirst({
+        where: { provider: 'mock', providerPaymentId: params.payment, userId: user.id },
+        include: { event: { select: { id: true, name: true } } }
+      })
+    : null
+
+  if (!payment) {
+    notFound()
+  }
+
+  return (
+    <AppLayout user={{ email: user.email || '', name: user.name, role: user.role }}>
+      <div className="container mx-auto max-w-md p-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Test Checkout</CardTitle>
+            <CardDescription>
+              Payments are simulated. No money is charged.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="font-medium">{payment.event.name}</p>
+              <p className="text-2xl font-bold">
+                {payment.currency} {formatCents(payment.amountCents)}
+              </p>
+            </div>
+
+            {payment.status === PaymentStatus.PENDING ? (
+              <form action={completeMockCheckout} className="flex gap-2">
+                <input type="hidden" name="payment" value={payment.providerPaymentId ?? ''} />
+                <input type="hidden" name="return" value={params.return ?? ''} />
+                <Button type="submit" name="outcome" value="approve">
+                  Pay
+                </Button>
+                <Button type="submit" name="outcome" value="decline" variant="outline">
+                  Decline
+                </Button>
+              </form>
+            ) : (
+              <p className="text-sm text-gray-600">
+                This checkout is no longer open ({payment.status.toLowerCase().replace('_', ' ')}).
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,141 @@
+'use server'
+
+import { cookies } from 'next/headers'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { rateLimiters } from '@/lib/rate-limit'
+import { verifyPassword } from '@/lib/password'
+import { resolveMemberCheckinCode } from '@/lib/checkin/member-code'
+import {
+  KIOSK_COOKIE_NAME,
+  checkInAtKiosk,
+  findKioskService,
+  getCurrentKiosk,
+  searchKioskMembers
+} from '@/lib/checkin/kiosk'
+
+const kioskCheckInSchema = z.object({
+  userId: z.string().min(1),
+  isNewBeliever: z.boolean().default(false)
+})
+
+export async function findKioskMembers(query: string) {
+  try {
+    const kiosk = await getCurrentKiosk()
+    if (!kiosk) {
+      return { success: false, error: 'Kiosk not active on this device' }
+    }
+
+    const service = await findKioskService(kiosk.localChurchId)
+    if (!service) {
+      return { success: false, error: 'No service today' }
+    }
+
+    const members = await searchKioskMembers(kiosk, service.id, query)
+    return { success: true, data: members }
+  } catch (error) {
+    console.error('Kiosk search error:', error)
+    return { success: false, error: 'Search failed' }
+  }
+}
+
+async function checkInFromKiosk(userId: string, isNewBeliever: boolean) {
+  const kiosk = await getCurrentKiosk()
+  if (!kiosk) {
+    return { success: false, error: 'Kiosk not active on this device' }
+  }
+
+  const service = await findKioskService(kiosk.localChurchId)
+  if (!service) {
+    return { success: false, error: 'No service today' }
+  }
+
+  // Keyed per member so one kiosk can serve the whole lobby
+  const rateLimit = await rateLimiters.checkin.check(
+    rateLimiters.checkin.key(['kiosk', kiosk.id, userId])
+  )
+  if (!rateLimit.success) {
+    return { success: false, error: 'Please wait before trying to check in again' }
+  }
+
+  try {
+    const { member } = await checkInAtKiosk(kiosk, { serviceId: service.id, userId, isNewBeliever })
+    return { success: true, data: { name: member.name || 'Member' } }
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    throw error
+  }
+}
+
+/**
+ * Checks in a member picked from the kiosk search results.
+ */
+export async function kioskCheckIn(data: z.infer<typeof kioskCheckInSchema>) {
+  try {
+    const { userId, isNewBeliever } = kioskCheckInSchema.parse(data)
+    return await checkInFromKiosk(userId, isNewBeliever)
+  } catch (error) {
+    console.error('Kiosk check-in error:', error)
+    return { success: false, error: 'Failed to check in' }
+  }
+}
+
+/**
+ * Checks in the member whose personal QR code was scanned at the kiosk.
+ */
+export async function kioskCheckInWithQrCode(code: string) {
+  try {
+    const userId = await resolveMemberCheckinCode(code)
+    if (!userId) {
+      return { success: false, error: 'This QR code is not a valid member check-in code' }
+    }
+
+    return await checkInFromKiosk(userId, false)
+  } catch (error) {
+    console.error('Kiosk QR check-in error:', error)
+    return { success: false, error: 'Failed to check in' }
+  }
+}
+
+/**
+ * Unlocks the kiosk with its PIN and unbinds this device. Attempts are rate
+ * limited per kiosk so the PIN cannot be brute forced from the lobby.
+ */
+export async function exitKiosk(pin: string) {
+  try {
+    const kiosk = await getCurrentKiosk()
+    if (!kiosk) {
+      return { success: true }
+    }
+
+    const rateLimit = await rateLimiters.kioskPin.check(rateLimiters.kioskPin.key(['kiosk-exit', kiosk.id]))
+    if (!rateLimit.success) {
+      return { success: false, error: 'Too many attempts. Please try again later.' }
+    }
+
+    const { pinHash } = await prisma.checkinKiosk.findUniqueOrThrow({
+      where: { id: kiosk.id },
+      select: { pinHash: true }
+    })
+
+    if (!(await verifyPassword(pin, pinHash))) {
+      return { success: false, error: 'Incorrect PIN' }
+    }
+
+    await prisma.checkinKiosk.update({
+      where: { id: kiosk.id },
+      data: { deviceTokenHash: null }
+    })
+
+    const cookieStore = await cookies()
+    cookieStore.delete(KIOSK_COOKIE_NAME)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Kiosk exit error:', error)
+    return { success: false, error: 'Failed to exit kiosk' }
+  }
+}
@@ -0,0 +1,336 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState, useTransition } from 'react'
+import dynamic from 'next/dynamic'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CheckCircle, Loader2, Lock, QrCode, Search, Users } from 'lucide-react'
+import { toast } from 'sonner'
+import { exitKiosk, findKioskMembers, kioskCheckIn, kioskCheckInWithQrCode } from './actions'
+
+// Lazy load QR Scanner only when needed
+const QRScanner = dynamic(() => import('@/components/ui/qr-scanner').then(mod => ({ default: mod.QRScanner })), {
+  loading: () => (
+    <div className="flex justify-center items-center h-48">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+    </div>
+  ),
+  ssr: false // QR Scanner needs client-side camera APIs
+})
+
+const SEARCH_DEBOUNCE_MS = 300
+const CONFIRMATION_RESET_MS = 5000
+
+interface KioskMember {
+  id: string
+  name: string
+  phoneHint: string | null
+  checkedIn: boolean
+}
+
+interface KioskScreenProps {
+  kioskName: string
+  churchName: string
+  service: {
+    id: string
+    label: string
+    checkinCount: number
+  } | null
+  idleResetSeconds: number
+}
+
+type KioskView = 'search' | 'scan' | 'confirm' | 'done'
+
+export function KioskScreen({ kioskName, churchName, service, idleResetSeconds }: KioskScreenProps) {
+  const [view, setView] = useState<KioskView>('search')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<KioskMember[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [selected, setSelected] = useState<KioskMember | null>(null)
+  const [isNewBeliever, setIsNewBeliever] = useState(false)
+  const [checkedInName, setCheckedInName] = useState('')
+  const [checkinCount, setCheckinCount] = useState(service?.checkinCount ?? 0)
+  const [exitDialogOpen, setExitDialogOpen] = useState(false)
+  const [pin, setPin] = useState('')
+  const [isPending, startTransition] = useTransition()
+  const lastActivityRef = useRef(Date.now())
+
+  const reset = useCallback(() => {
+    setView('search')
+    setQuery('')
+    setResults([])
+    setSelected(null)
+    setIsNewBeliever(false)
+    setCheckedInName('')
+    setExitDialogOpen(false)
+    setPin('')
+  }, [])
+
+  // Idle auto-reset so the next person never sees someone else's search
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now()
+    }
+    window.addEventListener('pointerdown', markActive)
+    window.addEventListener('keydown', markActive)
+
+    const interval = window.setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= idleResetSeconds * 1000) {
+        lastActivityRef.current = Date.now()
+        reset()
+      }
+    }, 5000)
+
+    return () => {
+      window.removeEventListener('pointerdown', markActive)
+      window.removeEventListener('keydown', markActive)
+      window.clearInterval(interval)
+    }
+  }, [idleResetSeconds, reset])
+
+  useEffect(() => {
+    if (view !== 'done') return
+    const timeout = window.setTimeout(reset, CONFIRMATION_RESET_MS)
+    return () => window.clearTimeout(timeout)
+  }, [view, reset])
+
+  useEffect(() => {
+    if (view !== 'search' || query.trim().length < 2) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+    const timeout = window.setTimeout(async () => {
+      const result = await findKioskMembers(query)
+      if (cancelled) return
+      setIsSearching(false)
+      if (result.success && result.data) {
+        setResults(result.data)
+      } else {
+        toast.error(result.error || 'Search failed')
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timeout)
+      setIsSearching(false)
+    }
+  }, [query, view])
+
+  const showCheckedIn = useCallback((name: string) => {
+    setCheckedInName(name)
+    setCheckinCount((count) => count + 1)
+    setView('done')
+  }, [])
+
+  const handleCheckIn = () => {
+    if (!selected) return
+    startTransition(async () => {
+      const result = await kioskCheckIn({ userId: selected.id, isNewBeliever })
+      if (result.success && result.data) {
+        showCheckedIn(result.data.name)
+      } else {
+        toast.error(result.error || 'Failed to check in')
+      }
+    })
+  }
+
+  const handleQRScan = useCallback((code: string) => {
+    startTransition(async () => {
+      const result = await kioskCheckInWithQrCode(code)
+      if (result.success && result.data) {
+        showCheckedIn(result.data.name)
+      } else {
+        toast.error(result.error || 'Failed to check in')
+        setView('search')
+      }
+    })
+  }, [showCheckedIn])
+
+  const handleScanError = useCallback((error: string) => {
+    toast.error(`Scanner error: ${error}`)
+  }, [])
+
+  const handleExit = () => {
+    startTransition(async () => {
+      const result = await exitKiosk(pin)
+      if (result.success) {
+        window.location.href = '/auth/signin'
+      } else {
+        setPin('')
+        toast.error(result.error || 'Failed to exit kiosk')
+      }
+    })
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Welcome to {churchName}</h1>
+          <p className="text-muted-foreground">
+            {service ? `${service.label} · ${kioskName}` : kioskName}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" aria-label="Exit kiosk" onClick={() => setExitDialogOpen(true)}>
+          <Lock className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {!service ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No service right now</CardTitle>
+            <CardDescription>Check-in opens an hour before the next scheduled service.</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : view === 'done' ? (
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            <CheckCircle className="h-16 w-16 mx-auto text-green-600" />
+            <p className="text-2xl font-semibold">You&apos;re checked in, {checkedInName}!</p>
+            <Button size="lg" onClick={reset}>Done</Button>
+          </CardContent>
+        </Card>
+      ) : view === 'scan' ? (
+        <QRScanner onScan={handleQRScan} onError={handleScanError} onClose={reset} />
+      ) : view === 'confirm' && selected ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Is this you?</CardTitle>
+            <CardDescription>
+              {selected.name}
+              {selected.phoneHint && ` · ${selected.phoneHint}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="kiosk-new-believer"
+                checked={isNewBeliever}
+                onCheckedChange={(checked) => setIsNewBeliever(!!checked)}
+              />
+              <Label htmlFor="kiosk-new-believer">I am a new believer</Label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="outline" size="lg" onClick={reset} disabled={isPending}>
+                Back
+              </Button>
+              <Button size="lg" onClick={handleCheckIn} disabled={isPending}>
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Check In
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Find your name</CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              {checkinCount} checked in so far
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                aria-label="Search by name or phone number"
+                placeholder="Name or phone number"
+                className="pl-10 h-14 text-lg"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+
+            {isSearching && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!isSearching && query.trim().length >= 2 && results.length === 0 && (
+              <p className="text-center text-muted-foreground py-4">
+                No members found. Please ask an usher for help.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {results.map((member) => (
+                <button
+                  key={member.id}
+                  type="button"
+                  disabled={member.checkedIn}
+                  onClick={() => {
+                    setSelected(member)
+                    setView('confirm')
+                  }}
+                  className="w-full flex items-center justify-between rounded-lg border p-4 text-left text-lg hover:bg-muted disabled:opacity-60"
+                >
+                  <span>
+                    {member.name}
+                    {member.phoneHint && (
+                      <span className="ml-2 text-sm text-muted-foreground">{member.phoneHint}</span>
+                    )}
+                  </span>
+                  {member.checkedIn && (
+                    <span className="flex items-center gap-1 text-sm text-green-600">
+                      <CheckCircle className="h-4 w-4" />
+                      Checked in
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <Button variant="outline" size="lg" className="w-full" onClick={() => setView('scan')}>
+              <QrCode className="mr-2 h-5 w-5" />
+              Scan my QR code
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={exitDialogOpen} onOpenChange={(open) => { setExitDialogOpen(open); setPin('') }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Exit kiosk mode</DialogTitle>
+            <DialogDescription>Enter the kiosk PIN to unlock this device.</DialogDescription>
+          </DialogHeader>
+          <form
+            id="kiosk-exit-form"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleExit()
+            }}
+          >
+            <Input
+              aria-label="Kiosk PIN"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExitDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" form="kiosk-exit-form" disabled={isPending || pin.length < 4}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+export const dynamic = 'force-dynamic'
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { format } from "date-fns";
+import { MonitorSmartphone } from "lucide-react";
+import { findKioskService, getCurrentKiosk } from "@/lib/checkin/kiosk";
+import {
+  NativeCard,
+  NativeCardContent,
+  NativeCardDescription,
+  NativeCardHeader,
+  NativeCardTitle
+} from "@/components/ui/native";
+import { KioskScreen } from "./kiosk-screen";
+
+export const metadata: Metadata = {
+  title: "Check-In Kiosk - Drouple",
+};
+
+// Kiosk screens return to search after this long without a touch
+const IDLE_RESET_SECONDS = 60;
+
+export default async function KioskPage() {
+  const kiosk = await getCurrentKiosk();
+
+  if (!kiosk) {
+    return (
+      <main id="main-content" className="min-h-screen flex items-center justify-center p-6 bg-surface">
+        <NativeCard className="max-w-md w-full">
+          <NativeCardHeader>
+            <div className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5" />
+              <NativeCardTitle>Kiosk not set up</NativeCardTitle>
+            </div>
+            <NativeCardDescription>
+              This device is not running a check-in kiosk. An admin can launch one from
+              Admin Services → Check-In Kiosks.
+            </NativeCardDescription>
+          </NativeCardHeader>
+          <NativeCardContent>
+            <Link href="/auth/signin" className="text-sm text-accent underline">
+              Sign in
+            </Link>
+          </NativeCardContent>
+        </NativeCard>
+      </main>
+    );
+  }
+
+  const service = await findKioskService(kiosk.localChurchId);
+
+  return (
+    <main id="main-content" className="min-h-screen bg-surface">
+      <KioskScreen
+        kioskName={kiosk.name}
+        churchName={kiosk.localChurch.name}
+        service={service ? {
+          id: service.id,
+          label: service.name
+            ? `${service.name} · ${format(service.date, 'h:mm a')}`
+            : format(service.date, 'EEEE, MMMM d · h:mm a'),
+          checkinCount: service._count.checkins
+        } : null}
+        idleResetSeconds={IDLE_RESET_SECONDS}
+      />
+    </main>
+  );
+}
@@ -9,7 +9,8 @@ import { AppLayout } from '@/components/layout/app-layout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { CheckCircle2, Circle, User, Calendar } from 'lucide-react'
+import { AlertTriangle, CheckCircle2, Circle, Clock, Lock, Paperclip, User, Calendar } from 'lucide-react'
+import { describeEnrollmentSteps, findUnmetPrerequisites } from '@/app/lib/pathways/progress'
 import { StepVerificationForm } from './step-verification-form'
 
 export default async function LeaderPathwaysPage() {
@@ -39,12 +40,10 @@ export default async function LeaderPathwaysPage() {
       pathway: {
         include: {
           steps: {
-            orderBy: { orderIndex: 'asc' },
-            include: {
-              progress: {
-                where: { userId: { in: [] } } // Will be populated below
-              }
-            }
+            orderBy: { orderIndex: 'asc' }
+          },
+          prerequisites: {
+            select: { prerequisite: { select: { id: true, name: true } } }
           }
         }
       }
@@ -52,51 +51,65 @@ export default async function LeaderPathwaysPage() {
     orderBy: { enrolledAt: 'desc' }
   })
 
-  // Get progress for all enrolled users
+  // Get progress and finished pathways for all enrolled users
   const userIds = enrollments.map(e => e.userId)
-  const allProgress = await prisma.pathwayProgress.findMany({
-    where: {
-      userId: { in: userIds },
-      step: {
-        pathway: { tenantId: user.tenantId! }
-      }
-    },
-    include: {
-      step: true
-    }
-  })
+  const [allProgress, completedEnrollments] = await Promise.all([
+    prisma.pathwayProgress.findMany({
+      where: {
+        userId: { in: userIds },
+        step: {
+          pathway: { tenantId: user.tenantId! }
+        }
+      },
+      omit: { fileData: true }
+    }),
+    prisma.pathwayEnrollment.findMany({
+      where: { userId: { in: userIds }, status: 'COMPLETED' },
+      select: { userId: true, pathwayId: true }
+    })
+  ])
 
   // Organize progress by user and step
-  const progressByUserStep = new Map()
+  const progressByUserStep = new Map<string, (typeof allProgress)[number]>()
   allProgress.forEach(progress => {
     const key = `${progress.userId}-${progress.stepId}`
     progressByUserStep.set(key, progress)
   })
 
+  const completedPathwaysByUser = new Map<string, Set<string>>()
+  completedEnrollments.forEach(({ userId, pathwayId }) => {
+    const completed = completedPathwaysByUser.get(userId) ?? new Set<string>()
+    completed.add(pathwayId)
+    completedPathwaysByUser.set(userId, completed)
+  })
+
   const enrollmentsWithProgress = enrollments.map(enrollment => {
-    const steps = enrollment.pathway.steps.map(step => {
-      const key = `${enrollment.userId}-${step.id}`
-      const progress = progressByUserStep.get(key)
-      return {
-        ...step,
-        completed: !!progress,
-        progress: progress || null
-      }
+    const summary = describeEnrollmentSteps(enrollment.pathway.steps, {
+      enrolledAt: enrollment.enrolledAt,
+      completedStepIds: new Set(
+        enrollment.pathway.steps
+          .filter(step => progressByUserStep.has(`${enrollment.userId}-${step.id}`))
+          .map(step => step.id)
+      ),
+      blockedBy: findUnmetPrerequisites(
+        enrollment.pathway.prerequisites,
+        completedPathwaysByUser.get(enrollment.userId) ?? new Set()
+      )
     })
 
-    const completedSteps = steps.filter(s => s.completed).length
-    const totalSteps = steps.length
-    const progressPercentage = totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 0
-
     return {
       ...enrollment,
-      steps,
-      completedSteps,
-      totalSteps,
-      progressPercentage
+      ...summary,
+      steps: summary.steps.map(step => ({
+        ...step,
+        progress: progressByUserStep.get(`${enrollment.userId}-${step.id}`) ?? null
+      }))
     }
   })
 
+  const overdueEnrollments = enrollmentsWithProgress.filter(e => e.overdueSteps > 0).length
+  const blockedEnrollments = enrollmentsWithProgress.filter(e => e.blockedBy.length > 0).length
+
   return (
     <AppLayout user={user}>
       <div className="page-container">
@@ -107,9 +120,19 @@ export default async function LeaderPathwaysPage() {
               Verify step completion and guide members through their discipleship journey
             </p>
           </div>
-          <div className="text-right">
-            <p className="text-sm text-ink-muted">Active Enrollments</p>
-            <p className="text-2xl font-bold text-primary">{enrollments.length}</p>
+          <div className="flex gap-6 text-right">
+            <div>
+              <p className="text-sm text-ink-muted">Overdue</p>
+              <p className="text-2xl font-bold text-red-600">{overdueEnrollments}</p>
+            </div>
+            <div>
+              <p className="text-sm text-ink-muted">Blocked</p>
+              <p className="text-2xl font-bold text-amber-600">{blockedEnrollments}</p>
+            </div>
+            <div>
+              <p className="text-sm text-ink-muted">Active Enrollments</p>
+              <p className="text-2xl font-bold text-primary">{enrollments.length}</p>
+            </div>
           </div>
         </div>
 
@@ -134,8 +157,19 @@ export default async function LeaderPathwaysPage() {
                     <p className="text-sm text-ink-muted mt-1">
                       {enrollment.completedSteps}/{enrollment.totalSteps} steps
                     </p>
+                    {enrollment.overdueSteps > 0 && (
+                      <Badge variant="destructive" className="mt-1">
+                        {enrollment.overdueSteps} overdue
+                      </Badge>
+                    )}
                   </div>
                 </div>
+                {enrollment.blockedBy.length > 0 && (
+                  <div className="mt-3 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                    <Lock className="h-4 w-4" />
+                    Blocked until {enrollment.blockedBy.map(p => p.name).join(', ')} {enrollment.blockedBy.length === 1 ? 'is' : 'are'} completed
+                  </div>
+                )}
                 <div className="mt-4">
                   <div className="flex justify-between text-sm mb-2">
                     <span>Progress</span>
@@ -150,8 +184,12 @@ export default async function LeaderPathwaysPage() {
                   {enrollment.steps.map((step) => (
                     <div key={step.id} className="flex items-center justify-between p-3 rounded-lg border">
                       <div className="flex items-center gap-3">
-                        {step.completed ? (
+                        {step.status === 'COMPLETED' ? (
                           <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : step.status === 'OVERDUE' ? (
+                          <AlertTriangle className="h-5 w-5 text-red-600" />
+                        ) : step.status === 'BLOCKED' ? (
+                          <Lock className="h-5 w-5 text-ink-muted" />
                         ) : (
                           <Circle className="h-5 w-5 text-ink-muted" />
                         )}
@@ -168,26 +206,59 @@ export default async function LeaderPathwaysPage() {
                               </p>
                             </div>
                           )}
+                          {!step.completed && step.dueDate && (
+                            <div className="flex items-center gap-2 mt-1">
+                              <Clock className="h-3 w-3 text-ink-muted" />
+                              <p className={`text-xs ${step.status === 'OVERDUE' ? 'text-red-600' : 'text-ink-muted'}`}>
+                                Due {step.dueDate.toLocaleDateString()}
+                              </p>
+                            </div>
+                          )}
                           {step.completed && step.progress?.notes && (
                             <p className="text-xs text-ink-muted mt-1 italic">
                               &quot;{step.progress.notes}&quot;
                             </p>
                           )}
+                          {step.progress?.fileName && (
+                            <a
+                              href={`/api/pathways/progress/${step.progress.id}/file`}
+                              className="flex items-center gap-1 mt-1 text-xs text-primary hover:underline"
+                            >
+                              <Paperclip className="h-3 w-3" />
+                              {step.progress.fileName}
+                            </a>
+                          )}
                         </div>
                       </div>
 
                       <div className="flex items-center gap-2">
+                        {step.status === 'OVERDUE' && (
+                          <Badge variant="destructive" className="text-xs">
+                            Overdue
+                          </Badge>
+                        )}
+                        {step.status === 'BLOCKED' && (
+                          <Badge variant="secondary" className="text-xs">
+                            Blocked
+                          </Badge>
+                        )}
                         {step.requiresAttendance && (
                           <Badge variant="outline" className="text-xs">
                             Attendance Required
                           </Badge>
                         )}
-                        {!step.completed && !step.requiresAttendance && (
+                        {step.requiresUpload && (
+                          <Badge variant="outline" className="text-xs">
+                            File Required
+                          </Badge>
+                        )}
+                        {!step.completed && step.status !== 'BLOCKED' && !step.requiresAttendance && (
                           <StepVerificationForm
                             enrollmentId={enrollment.id}
                             stepId={step.id}
                             stepName={step.name}
                             userName={enrollment.user.name || enrollment.user.email}
+                            requiresUpload={step.requiresUpload}
                           />
                         )}
                       </div>
@@ -13,6 +13,7 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { CheckCircle2, Loader2 } from 'lucide-react'
 import { verifyStepCompletion } from '@/app/admin/pathways/actions'
 import { toast } from 'sonner'
@@ -22,16 +23,19 @@ interface StepVerificationFormProps {
   stepId: string
   stepName: string
   userName: string
+  requiresUpload?: boolean
 }
 
 export function StepVerificationForm({ 
   enrollmentId, 
   stepId, 
   stepName, 
-  userName 
+  userName,
+  requiresUpload = false
 }: StepVerificationFormProps) {
   const [open, setOpen] = useState(false)
   const [notes, setNotes] = useState('')
+  const [file, setFile] = useState<File | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const handleVerify = async () => {
@@ -40,12 +44,18 @@ export function StepVerificationForm({
       return
     }
 
+    if (requiresUpload && !file) {
+      toast.error('Please attach the required file')
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      await verifyStepCompletion(enrollmentId, stepId, notes)
+      await verifyStepCompletion(enrollmentId, stepId, notes, file)
       toast.success(`Step verified for ${userName}`)
       setOpen(false)
       setNotes('')
+      setFile(null)
       // The page will revalidate automatically due to server action
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to verify step')
@@ -85,6 +95,19 @@ export function StepVerificationForm({
               Your notes will be saved as verification and visible to admins and the member.
             </p>
           </div>
+
+          {requiresUpload && (
+            <div className="space-y-2">
+              <Label htmlFor="verification-file">Required file</Label>
+              <Input
+                id="verification-file"
+                type="file"
+                accept="application/pdf,image/jpeg,image/png,image/webp"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-sm text-ink-muted">PDF or image, up to 1.5 MB.</p>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -98,7 +121,7 @@ export function StepVerificationForm({
           </Button>
           <Button 
             onClick={handleVerify}
-            disabled={isSubmitting || !notes.trim()}
+            disabled={isSubmitting || !notes.trim() || (requiresUpload && !file)}
           >
             {isSubmitting ? (
               <>
@@ -5,6 +5,7 @@ vi.mock('@/lib/prisma', () => ({
   prisma: {
     pathway: {
       findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
       create: vi.fn(),
     },
     pathwayEnrollment: {
@@ -81,6 +82,23 @@ describe('Pathway Enrollment', () => {
         'Pathway not found'
       )
     })
+
+    it('should refuse enrollment until prerequisite pathways are completed', async () => {
+      vi.mocked(prisma.pathway.findFirst).mockResolvedValue({ id: 'pathway2', type: PathwayType.CUSTOM } as any)
+      vi.mocked(prisma.pathwayEnrollment.findFirst).mockResolvedValue(null)
+      vi.mocked(prisma.pathway.findMany).mockResolvedValueOnce([{ id: 'pathway1', name: 'ROOTS' }] as any)
+
+      await expect(enrollUserInPathway('user1', 'pathway2', 'tenant1')).rejects.toThrow(
+        'Complete ROOTS first'
+      )
+      expect(prisma.pathway.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          requiredBy: { some: { pathwayId: 'pathway2' } },
+          enrollments: { none: { userId: 'user1', status: EnrollmentStatus.COMPLETED } },
+        },
+      }))
+      expect(prisma.pathwayEnrollment.create).not.toHaveBeenCalled()
+    })
   })
 
   describe('autoEnrollNewBeliever', () => {
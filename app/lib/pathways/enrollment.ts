@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma'
 import { PathwayType, EnrollmentStatus } from '@prisma/client'
+import { getUnmetPrerequisites } from './progress'
 
 export async function enrollUserInPathway(
   userId: string,
@@ -29,6 +30,11 @@ export async function enrollUserInPathway(
     return existingEnrollment
   }
 
+  const unmetPrerequisites = await getUnmetPrerequisites(pathwayId, userId)
+  if (unmetPrerequisites.length > 0) {
+    throw new Error(`Complete ${unmetPrerequisites.map(p => p.name).join(', ')} first`)
+  }
+
   return await prisma.pathwayEnrollment.create({
     data: {
       pathwayId,
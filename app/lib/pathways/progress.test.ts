@@ -21,7 +21,14 @@ vi.mock('@/lib/prisma', () => {
   return { prisma: mockPrisma }
 })
 
-import { completeStep, getPathwayProgress, isPathwayComplete } from './progress'
+import {
+  completeStep,
+  describeEnrollmentSteps,
+  findUnmetPrerequisites,
+  getPathwayProgress,
+  getStepDueDate,
+  isPathwayComplete,
+} from './progress'
 import { prisma } from '@/lib/prisma'
 
 describe('Pathway Progress', () => {
@@ -175,4 +182,53 @@ describe('Pathway Progress', () => {
       expect(result).toBe(false)
     })
   })
-})
\ No newline at end of file
+
+  describe('step status', () => {
+    const enrolledAt = new Date('2026-01-01T09:00:00Z')
+    const now = new Date('2026-01-20T09:00:00Z')
+    const steps = [
+      { id: 'step1', name: 'Class 1', dueOffsetDays: 7 },
+      { id: 'step2', name: 'Class 2', dueOffsetDays: 14 },
+      { id: 'step3', name: 'Baptism', dueOffsetDays: 30 },
+      { id: 'step4', name: 'Testimony', dueOffsetDays: null },
+    ]
+
+    it('should count due dates from enrollment', () => {
+      expect(getStepDueDate(enrolledAt, 7)).toEqual(new Date('2026-01-08T09:00:00Z'))
+      expect(getStepDueDate(enrolledAt, null)).toBeNull()
+    })
+
+    it('should flag open steps past their due date as overdue', () => {
+      const result = describeEnrollmentSteps(steps, {
+        enrolledAt,
+        completedStepIds: new Set(['step1']),
+        now,
+      })
+
+      expect(result.steps.map(step => step.status)).toEqual(['COMPLETED', 'OVERDUE', 'PENDING', 'PENDING'])
+      expect(result.overdueSteps).toBe(1)
+      expect(result.progressPercentage).toBe(25)
+    })
+
+    it('should block open steps while prerequisites are unfinished', () => {
+      const blockedBy = findUnmetPrerequisites(
+        [
+          { prerequisite: { id: 'roots', name: 'ROOTS' } },
+          { prerequisite: { id: 'vines', name: 'VINES' } },
+        ],
+        new Set(['roots'])
+      )
+
+      const result = describeEnrollmentSteps(steps, {
+        enrolledAt,
+        completedStepIds: new Set(['step1']),
+        blockedBy,
+        now,
+      })
+
+      expect(blockedBy).toEqual([{ id: 'vines', name: 'VINES' }])
+      expect(result.steps.map(step => step.status)).toEqual(['COMPLETED', 'BLOCKED', 'BLOCKED', 'BLOCKED'])
+      expect(result.overdueSteps).toBe(0)
+    })
+  })
+})
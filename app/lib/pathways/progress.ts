@@ -1,6 +1,127 @@
+import { addDays } from 'date-fns'
 import { prisma } from '@/lib/prisma'
 import { EnrollmentStatus } from '@prisma/client'
 
+// Uploads travel through server actions, which next.config caps at 2 MB per request
+export const MAX_STEP_UPLOAD_BYTES = 1.5 * 1024 * 1024
+export const STEP_UPLOAD_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+
+export type PathwayStepStatus = 'COMPLETED' | 'BLOCKED' | 'OVERDUE' | 'PENDING'
+
+interface StepRules {
+  id: string
+  dueOffsetDays: number | null
+}
+
+interface PrerequisiteLink {
+  prerequisite: { id: string; name: string }
+}
+
+/**
+ * Due date of a step, counted in days from when the member enrolled.
+ * Steps without an offset have no deadline.
+ */
+export function getStepDueDate(enrolledAt: Date, dueOffsetDays: number | null) {
+  if (dueOffsetDays === null) {
+    return null
+  }
+  return addDays(enrolledAt, dueOffsetDays)
+}
+
+/**
+ * Prerequisite pathways the member has not completed yet.
+ */
+export function findUnmetPrerequisites(
+  prerequisites: PrerequisiteLink[],
+  completedPathwayIds: Set<string>
+) {
+  return prerequisites
+    .map(link => link.prerequisite)
+    .filter(pathway => !completedPathwayIds.has(pathway.id))
+}
+
+/**
+ * Resolves the status of every step in an enrollment. Open steps are blocked
+ * while prerequisite pathways are unfinished, and overdue once their due date
+ * has passed.
+ */
+export function describeEnrollmentSteps<S extends StepRules>(
+  steps: S[],
+  {
+    enrolledAt,
+    completedStepIds,
+    blockedBy = [],
+    now = new Date(),
+  }: {
+    enrolledAt: Date
+    completedStepIds: Set<string>
+    blockedBy?: Array<{ id: string; name: string }>
+    now?: Date
+  }
+) {
+  const described = steps.map(step => {
+    const completed = completedStepIds.has(step.id)
+    const dueDate = getStepDueDate(enrolledAt, step.dueOffsetDays)
+
+    let status: PathwayStepStatus = 'PENDING'
+    if (completed) {
+      status = 'COMPLETED'
+    } else if (blockedBy.length > 0) {
+      status = 'BLOCKED'
+    } else if (dueDate && dueDate < now) {
+      status = 'OVERDUE'
+    }
+
+    return { ...step, completed, dueDate, status }
+  })
+
+  const completedSteps = described.filter(step => step.completed).length
+  const totalSteps = described.length
+
+  return {
+    steps: described,
+    completedSteps,
+    totalSteps,
+    overdueSteps: described.filter(step => step.status === 'OVERDUE').length,
+    blockedBy,
+    progressPercentage: totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 0,
+  }
+}
+
+/**
+ * Validates a file attached to an upload-required step and converts it into
+ * the columns stored on PathwayProgress.
+ */
+export async function readStepUpload(file: File) {
+  if (!STEP_UPLOAD_TYPES.includes(file.type)) {
+    throw new Error('Upload a PDF or an image')
+  }
+
+  if (file.size === 0 || file.size > MAX_STEP_UPLOAD_BYTES) {
+    throw new Error('File must be smaller than 1.5 MB')
+  }
+
+  return {
+    fileName: file.name,
+    fileType: file.type,
+    fileData: Buffer.from(await file.arrayBuffer()),
+  }
+}
+
+/**
+ * Prerequisite pathways of `pathwayId` that the user has not completed.
+ */
+export async function getUnmetPrerequisites(pathwayId: string, userId: string) {
+  return await prisma.pathway.findMany({
+    where: {
+      requiredBy: { some: { pathwayId } },
+      enrollments: { none: { userId, status: EnrollmentStatus.COMPLETED } },
+    },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  })
+}
+
 /**
  * Marks pathway step as complete and auto-completes pathway if all steps done.
  * Implements automatic pathway completion when final step is finished.
@@ -98,37 +219,49 @@ export async function isPathwayComplete(pathwayId: string, userId: string) {
 }
 
 export async function getUserProgress(userId: string) {
-  const enrollments = await prisma.pathwayEnrollment.findMany({
-    where: { userId },
-    include: {
-      pathway: {
-        include: {
-          steps: {
-            orderBy: { orderIndex: 'asc' },
+  const [enrollments, progress] = await Promise.all([
+    prisma.pathwayEnrollment.findMany({
+      where: { userId },
+      include: {
+        pathway: {
+          include: {
+            steps: {
+              orderBy: { orderIndex: 'asc' },
+            },
+            prerequisites: {
+              select: { prerequisite: { select: { id: true, name: true } } },
+            },
           },
         },
       },
-    },
-  })
+    }),
+    prisma.pathwayProgress.findMany({
+      where: { userId },
+      select: { stepId: true, completedAt: true },
+    }),
+  ])
 
-  const progressByPathway = await Promise.all(
-    enrollments.map(async (enrollment) => {
-      const progress = await getPathwayProgress(enrollment.pathwayId, userId)
-      const completedStepIds = new Set(progress.map(p => p.stepId))
-      
-      return {
-        enrollment,
-        steps: enrollment.pathway.steps.map(step => ({
-          ...step,
-          completed: completedStepIds.has(step.id),
-          completedAt: progress.find(p => p.stepId === step.id)?.completedAt,
-        })),
-        progressPercentage: Math.round(
-          (progress.length / enrollment.pathway.steps.length) * 100
-        ),
-      }
-    })
+  const completedAtByStep = new Map(progress.map(p => [p.stepId, p.completedAt]))
+  const completedPathwayIds = new Set(
+    enrollments
+      .filter(enrollment => enrollment.status === EnrollmentStatus.COMPLETED)
+      .map(enrollment => enrollment.pathwayId)
   )
 
-  return progressByPathway
-}
\ No newline at end of file
+  return enrollments.map(enrollment => {
+    const summary = describeEnrollmentSteps(enrollment.pathway.steps, {
+      enrolledAt: enrollment.enrolledAt,
+      completedStepIds: new Set(completedAtByStep.keys()),
+      blockedBy: findUnmetPrerequisites(enrollment.pathway.prerequisites, completedPathwayIds),
+    })
+
+    return {
+      enrollment,
+      ...summary,
+      steps: summary.steps.map(step => ({
+        ...step,
+        completedAt: completedAtByStep.get(step.id),
+      })),
+    }
+  })
+}
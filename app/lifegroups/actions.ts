@@ -3,8 +3,20 @@
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
 import { MembershipStatus, RequestStatus, UserRole } from '@prisma/client'
 import { hasMinRole, createTenantWhereClause } from '@/lib/rbac'
+import { ApplicationError } from '@/lib/errors'
+import { notifyLifeGroupRequestApproved } from '@/lib/push/notifications'
+import {
+  getAttendanceOverview,
+  getAttendanceSession,
+  openAttendanceSession,
+  recordAttendance
+} from '@/lib/lifegroups/attendance'
+import { suggestAttendanceDates } from '@/lib/lifegroups/schedule'
+import { buildDiscoveryWhere, type LifeGroupDiscoveryFilters } from '@/lib/lifegroups/discovery'
+import { getLifeGroupPermissions, type LifeGroupPermission } from '@/lib/lifegroups/leadership'
 
 export async function getMyLifeGroups() {
   try {
@@ -49,7 +61,7 @@ export async function getMyLifeGroups() {
   }
 }
 
-export async function getAvailableLifeGroups() {
+export async function getAvailableLifeGroups(filters: LifeGroupDiscoveryFilters = {}) {
   try {
     const session = await auth()
     if (!session?.user) {
@@ -60,6 +72,7 @@ export async function getAvailableLifeGroups() {
     const whereClause = await createTenantWhereClause(
       session.user,
       {
+        ...buildDiscoveryWhere(filters),
         isActive: true,
         NOT: {
           memberships: {
@@ -122,6 +135,34 @@ export async function getAvailableLifeGroups() {
   }
 }
 
+export async function getLifeGroupLanguages() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const whereClause = await createTenantWhereClause(
+      session.user,
+      { isActive: true, language: { not: null } },
+      undefined,
+      'localChurchId'
+    )
+
+    const groups = await prisma.lifeGroup.findMany({
+      where: whereClause,
+      select: { language: true },
+      distinct: ['language'],
+      orderBy: { language: 'asc' }
+    })
+
+    return { success: true, data: groups.map(group => group.language!) }
+  } catch (error) {
+    console.error('Get life group languages error:', error)
+    return { success: false, error: 'Failed to get languages' }
+  }
+}
+
 export async function requestJoinLifeGroup(lifeGroupId: string, message?: string) {
   try {
     const session = await auth()
@@ -180,6 +221,17 @@ export async function requestJoinLifeGroup(lifeGroupId: string, message?: string
       }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_JOIN_REQUESTED',
+        entity: 'LifeGroup',
+        entityId: lifeGroupId,
+        localChurchId: lifeGroup.localChurchId,
+        meta: { requestId: request.id }
+      }
+    })
+
     revalidatePath('/lifegroups')
     return { success: true, data: request }
   } catch (error) {
@@ -205,6 +257,18 @@ export async function leaveLifeGroup(lifeGroupId: string) {
       data: {
         status: MembershipStatus.LEFT,
         leftAt: new Date()
+      },
+      include: { lifeGroup: { select: { localChurchId: true } } }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_LEFT',
+        entity: 'LifeGroup',
+        entityId: lifeGroupId,
+        localChurchId: membership.lifeGroup.localChurchId,
+        meta: { userId: session.user.id }
       }
     })
 
@@ -219,30 +283,14 @@ export async function leaveLifeGroup(lifeGroupId: string) {
 export async function getLifeGroupMembers(lifeGroupId: string) {
   try {
     const session = await auth()
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return { success: false, error: 'Not authenticated' }
     }
 
     // CRITICAL SECURITY FIX: Verify tenant access and leadership/admin status
-    const lifeGroup = await prisma.lifeGroup.findUnique({
-      where: { id: lifeGroupId },
-      select: { leaderId: true, localChurchId: true }
-    })
-
+    const { lifeGroup, error } = await findManagedLifeGroup(session.user, lifeGroupId, 'VIEW_ROSTER')
     if (!lifeGroup) {
-      return { success: false, error: 'Life group not found' }
-    }
-
-    // Verify tenant access
-    if (session.user.role !== 'SUPER_ADMIN' && lifeGroup.localChurchId !== session.user.tenantId) {
-      return { success: false, error: 'Cannot access life group from another church' }
-    }
-
-    const isLeader = lifeGroup.leaderId === session.user.id
-    const isAdmin = hasMinRole(session.user.role, UserRole.ADMIN)
-
-    if (!isLeader && !isAdmin) {
-      return { success: false, error: 'Unauthorized' }
+      return { success: false, error }
     }
 
     const memberships = await prisma.lifeGroupMembership.findMany({
@@ -275,30 +323,14 @@ export async function getLifeGroupMembers(lifeGroupId: string) {
 export async function getLifeGroupRequests(lifeGroupId: string) {
   try {
     const session = await auth()
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return { success: false, error: 'Not authenticated' }
     }
 
     // CRITICAL SECURITY FIX: Verify tenant access and leadership/admin status
-    const lifeGroup = await prisma.lifeGroup.findUnique({
-      where: { id: lifeGroupId },
-      select: { leaderId: true, localChurchId: true }
-    })
-
+    const { lifeGroup, error } = await findManagedLifeGroup(session.user, lifeGroupId, 'MANAGE_REQUESTS')
     if (!lifeGroup) {
-      return { success: false, error: 'Life group not found' }
-    }
-
-    // Verify tenant access
-    if (session.user.role !== 'SUPER_ADMIN' && lifeGroup.localChurchId !== session.user.tenantId) {
-      return { success: false, error: 'Cannot access life group from another church' }
-    }
-
-    const isLeader = lifeGroup.leaderId === session.user.id
-    const isAdmin = hasMinRole(session.user.role, UserRole.ADMIN)
-
-    if (!isLeader && !isAdmin) {
-      return { success: false, error: 'Unauthorized' }
+      return { success: false, error }
     }
 
     const requests = await prisma.lifeGroupMemberRequest.findMany({
@@ -350,6 +382,10 @@ export async function approveRequest(requestId: string) {
             leaderId: true,
             localChurchId: true,
             capacity: true,
+            memberships: {
+              where: { userId: session.user.id },
+              select: { role: true, status: true }
+            },
             _count: {
               select: {
                 memberships: {
@@ -373,11 +409,14 @@ export async function approveRequest(requestId: string) {
       return { success: false, error: 'Cannot approve request for another church' }
     }
 
-    // Check authorization
-    const isLeader = request.lifeGroup.leaderId === session.user.id
-    const isAdmin = hasMinRole(session.user.role, UserRole.ADMIN)
+    // Check authorization: the leader, a co-leader or an admin
+    const permissions = getLifeGroupPermissions({
+      isLeader: request.lifeGroup.leaderId === session.user.id,
+      isAdmin: hasMinRole(session.user.role, UserRole.ADMIN),
+      membership: request.lifeGroup.memberships[0]
+    })
 
-    if (!isLeader && !isAdmin) {
+    if (!permissions.includes('MANAGE_REQUESTS')) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -415,6 +454,19 @@ export async function approveRequest(requestId: string) {
       })
     ])
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_REQUEST_APPROVED',
+        entity: 'LifeGroup',
+        entityId: request.lifeGroupId,
+        localChurchId: request.lifeGroup.localChurchId,
+        meta: { requestId, userId: request.userId }
+      }
+    })
+
+    await notifyLifeGroupRequestApproved({ userId: request.userId, lifeGroupId: request.lifeGroupId })
+
     revalidatePath('/lifegroups')
     return { success: true }
   } catch (error) {
@@ -436,7 +488,11 @@ export async function rejectRequest(requestId: string) {
         lifeGroup: {
           select: {
             leaderId: true,
-            localChurchId: true
+            localChurchId: true,
+            memberships: {
+              where: { userId: session.user.id },
+              select: { role: true, status: true }
+            }
           }
         }
       }
@@ -451,11 +507,14 @@ export async function rejectRequest(requestId: string) {
       return { success: false, error: 'Cannot reject request for another church' }
     }
 
-    // Check authorization
-    const isLeader = request.lifeGroup.leaderId === session.user.id
-    const isAdmin = hasMinRole(session.user.role, UserRole.ADMIN)
+    // Check authorization: the leader, a co-leader or an admin
+    const permissions = getLifeGroupPermissions({
+      isLeader: request.lifeGroup.leaderId === session.user.id,
+      isAdmin: hasMinRole(session.user.role, UserRole.ADMIN),
+      membership: request.lifeGroup.memberships[0]
+    })
 
-    if (!isLeader && !isAdmin) {
+    if (!permissions.includes('MANAGE_REQUESTS')) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -468,10 +527,313 @@ export async function rejectRequest(requestId: string) {
       }
     })
 
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_REQUEST_REJECTED',
+        entity: 'LifeGroup',
+        entityId: request.lifeGroupId,
+        localChurchId: request.lifeGroup.localChurchId,
+        meta: { requestId, userId: request.userId }
+      }
+    })
+
     revalidatePath('/lifegroups')
     return { success: true }
   } catch (error) {
     console.error('Reject request error:', error)
     return { success: false, error: 'Failed to reject request' }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The LifeGroup, when the user may do `permission` in it: its leader, a
+ * co-leader or apprentice whose role allows it, or an admin of its church.
+ * Leader-run actions go through this so admins keep oversight of every group.
+ */
+async function findManagedLifeGroup(
+  user: { id: string; role: UserRole; tenantId?: string | null },
+  lifeGroupId: string,
+  permission: LifeGroupPermission
+) {
+  const lifeGroup = await prisma.lifeGroup.findUnique({
+    where: { id: lifeGroupId },
+    select: {
+      id: true,
+      name: true,
+      leaderId: true,
+      localChurchId: true,
+      meetingDay: true,
+      meetingFrequency: true,
+      memberships: {
+        where: { userId: user.id },
+        select: { role: true, status: true }
+      }
+    }
+  })
+
+  if (!lifeGroup) {
+    return { error: 'Life group not found' }
+  }
+
+  if (user.role !== UserRole.SUPER_ADMIN && lifeGroup.localChurchId !== user.tenantId) {
+    return { error: 'Cannot access life group from another church' }
+  }
+
+  const permissions = getLifeGroupPermissions({
+    isLeader: lifeGroup.leaderId === user.id,
+    isAdmin: hasMinRole(user.role, UserRole.ADMIN),
+    membership: lifeGroup.memberships[0]
+  })
+
+  if (!permissions.includes(permission)) {
+    return { error: 'Unauthorized' }
+  }
+
+  return { lifeGroup }
+}
+
+async function findManagedSession(
+  user: { id: string; role: UserRole; tenantId?: string | null },
+  sessionId: string
+) {
+  const attendanceSession = await prisma.lifeGroupAttendanceSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, lifeGroupId: true }
+  })
+
+  if (!attendanceSession) {
+    return { error: 'Attendance session not found' }
+  }
+
+  const { lifeGroup, error } = await findManagedLifeGroup(user, attendanceSession.lifeGroupId, 'TAKE_ATTENDANCE')
+  return lifeGroup ? { attendanceSession, lifeGroup } : { error }
+}
+
+/**
+ * Recent sessions, per-member streaks and the members who need follow-up
+ * after missing several meetings in a row, with the dates the group's
+ * schedule says it met or will meet but has no session for yet.
+ */
+export async function getLifeGroupAttendance(lifeGroupId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const { lifeGroup, error } = await findManagedLifeGroup(session.user, lifeGroupId, 'TAKE_ATTENDANCE')
+    if (!lifeGroup) {
+      return { success: false, error }
+    }
+
+    const overview = await getAttendanceOverview(lifeGroup.id)
+    const suggestedDates = suggestAttendanceDates(lifeGroup, overview.sessions.map(s => s.date))
+
+    return { success: true, data: { ...overview, suggestedDates } }
+  } catch (error) {
+    console.error('Get life group attendance error:', error)
+    return { success: false, error: 'Failed to get attendance' }
+  }
+}
+
+/** Starts the group's session for a date, or resumes it when one exists */
+export async function startLifeGroupSession(lifeGroupId: string, date: Date) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const { lifeGroup, error } = await findManagedLifeGroup(session.user, lifeGroupId, 'TAKE_ATTENDANCE')
+    if (!lifeGroup) {
+      return { success: false, error }
+    }
+
+    const { session: attendanceSession, created } = await openAttendanceSession(lifeGroup.id, date)
+
+    if (created) {
+      await prisma.auditLog.create({
+        data: {
+          actorId: session.user.id,
+          action: 'LIFEGROUP_ATTENDANCE_STARTED',
+          entity: 'LifeGroup',
+          entityId: lifeGroup.id,
+          localChurchId: lifeGroup.localChurchId,
+          meta: { sessionId: attendanceSession.id, date: date.toISOString() }
+        }
+      })
+    }
+
+    return { success: true, data: attendanceSession }
+  } catch (error) {
+    console.error('Start life group session error:', error)
+    return { success: false, error: 'Failed to start attendance session' }
+  }
+}
+
+export async function getLifeGroupSession(sessionId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const { attendanceSession, error } = await findManagedSession(session.user, sessionId)
+    if (!attendanceSession) {
+      return { success: false, error }
+    }
+
+    const detail = await getAttendanceSession(attendanceSession.id)
+    return { success: true, data: detail }
+  } catch (error) {
+    console.error('Get life group session error:', error)
+    return { success: false, error: 'Failed to get attendance session' }
+  }
+}
+
+const saveAttendanceSchema = z.object({
+  marks: z.array(z.object({
+    userId: z.string().min(1),
+    present: z.boolean()
+  })),
+  notes: z.string().max(2000).optional()
+})
+
+/** Saves a present or absent record for each member, and the session notes */
+export async function saveLifeGroupAttendance(
+  sessionId: string,
+  data: z.infer<typeof saveAttendanceSchema>
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const validated = saveAttendanceSchema.parse(data)
+
+    const { attendanceSession, lifeGroup, error } = await findManagedSession(session.user, sessionId)
+    if (!attendanceSession || !lifeGroup) {
+      return { success: false, error }
+    }
+
+    const counts = await recordAttendance(attendanceSession, validated.marks)
+
+    if (validated.notes !== undefined) {
+      await prisma.lifeGroupAttendanceSession.update({
+        where: { id: attendanceSession.id },
+        data: { notes: validated.notes.trim() || null }
+      })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_ATTENDANCE_MARKED',
+        entity: 'LifeGroup',
+        entityId: lifeGroup.id,
+        localChurchId: lifeGroup.localChurchId,
+        meta: { sessionId: attendanceSession.id, ...counts }
+      }
+    })
+
+    revalidatePath('/lifegroups')
+    return { success: true, data: counts }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+    if (error instanceof ApplicationError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Save life group attendance error:', error)
+    return { success: false, error: 'Failed to save attendance' }
+  }
+}
+
+const visitorSchema = z.object({
+  name: z.string().trim().min(1, 'Visitor name is required').max(100),
+  email: z.string().trim().email('Invalid email').optional().or(z.literal('')),
+  phone: z.string().trim().max(30).optional(),
+  notes: z.string().trim().max(500).optional()
+})
+
+/** Records someone who attended the session without being a member */
+export async function addLifeGroupVisitor(
+  sessionId: string,
+  data: z.input<typeof visitorSchema>
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const validated = visitorSchema.parse(data)
+
+    const { attendanceSession, lifeGroup, error } = await findManagedSession(session.user, sessionId)
+    if (!attendanceSession || !lifeGroup) {
+      return { success: false, error }
+    }
+
+    const visitor = await prisma.lifeGroupVisitor.create({
+      data: {
+        sessionId: attendanceSession.id,
+        name: validated.name,
+        email: validated.email || null,
+        phone: validated.phone || null,
+        notes: validated.notes || null
+      }
+    })
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: session.user.id,
+        action: 'LIFEGROUP_VISITOR_ADDED',
+        entity: 'LifeGroup',
+        entityId: lifeGroup.id,
+        localChurchId: lifeGroup.localChurchId,
+        meta: { sessionId: attendanceSession.id, visitorId: visitor.id, name: visitor.name }
+      }
+    })
+
+    return { success: true, data: visitor }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+    console.error('Add life group visitor error:', error)
+    return { success: false, error: 'Failed to add visitor' }
+  }
+}
+
+export async function removeLifeGroupVisitor(visitorId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const visitor = await prisma.lifeGroupVisitor.findUnique({
+      where: { id: visitorId },
+      select: { id: true, sessionId: true }
+    })
+
+    if (!visitor) {
+      return { success: false, error: 'Visitor not found' }
+    }
+
+    const { attendanceSession, error } = await findManagedSession(session.user, visitor.sessionId)
+    if (!attendanceSession) {
+      return { success: false, error }
+    }
+
+    await prisma.lifeGroupVisitor.delete({ where: { id: visitor.id } })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Remove life group visitor error:', error)
+    return { success: false, error: 'Failed to remove visitor' }
+  }
+}
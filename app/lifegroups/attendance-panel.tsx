@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { AlertTriangle, CalendarPlus, Trash2, UserPlus } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  addLifeGroupVisitor,
+  getLifeGroupSession,
+  removeLifeGroupVisitor,
+  saveLifeGroupAttendance,
+  startLifeGroupSession
+} from './actions'
+
+export interface AttendanceOverview {
+  sessions: Array<{
+    id: string
+    date: Date | string
+    notes: string | null
+    presentCount: number
+    absentCount: number
+    visitorCount: number
+  }>
+  members: Array<{
+    userId: string
+    name: string | null
+    email: string
+    attended: number
+    total: number
+    streak: number
+    missedInARow: number
+    lastAttendedAt: Date | string | null
+    needsFollowUp: boolean
+  }>
+  needsFollowUp: AttendanceOverview['members']
+  /** Scheduled meeting dates ("yyyy-MM-dd") that have no session yet */
+  suggestedDates: string[]
+}
+
+interface SessionDetail {
+  id: string
+  date: Date | string
+  notes: string | null
+  attendances: Array<{ userId: string; present: boolean }>
+  visitors: Array<{ id: string; name: string; email: string | null; phone: string | null }>
+}
+
+interface AttendancePanelProps {
+  lifeGroupId: string
+  overview: AttendanceOverview
+  onSaved: () => void
+}
+
+const emptyVisitor = { name: '', email: '', phone: '' }
+
+/**
+ * Lets a leader take attendance for their group: start or reopen a session,
+ * mark each member present or absent, keep notes and record visitors.
+ * Meetings the schedule says are missing a session are offered as dates.
+ */
+export function AttendancePanel({ lifeGroupId, overview, onSaved }: AttendancePanelProps) {
+  const nextSuggestion = overview.suggestedDates[0]
+  const [sessionDate, setSessionDate] = useState(nextSuggestion ?? format(new Date(), 'yyyy-MM-dd'))
+  const [activeSession, setActiveSession] = useState<SessionDetail | null>(null)
+  const [present, setPresent] = useState<Record<string, boolean>>({})
+  const [notes, setNotes] = useState('')
+  const [visitor, setVisitor] = useState(emptyVisitor)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    if (nextSuggestion) {
+      setSessionDate(nextSuggestion)
+    }
+  }, [nextSuggestion])
+
+  const openSession = (detail: SessionDetail) => {
+    setActiveSession(detail)
+    setPresent(Object.fromEntries(detail.attendances.map(mark => [mark.userId, mark.present])))
+    setNotes(detail.notes || '')
+    setVisitor(emptyVisitor)
+  }
+
+  const handleStart = async () => {
+    setIsBusy(true)
+    try {
+      const result = await startLifeGroupSession(lifeGroupId, new Date(sessionDate))
+      if (result.success && result.data) {
+        openSession(result.data)
+      } else {
+        toast.error(result.error || 'Failed to start session')
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleOpen = async (sessionId: string) => {
+    setIsBusy(true)
+    try {
+      const result = await getLifeGroupSession(sessionId)
+      if (result.success && result.data) {
+        openSession(result.data)
+      } else {
+        toast.error(result.error || 'Failed to load session')
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!activeSession) return
+
+    setIsBusy(true)
+    try {
+      const result = await saveLifeGroupAttendance(activeSession.id, {
+        marks: overview.members.map(member => ({ userId: member.userId, present: !!present[member.userId] })),
+        notes
+      })
+      if (result.success && result.data) {
+        toast.success(`Attendance saved: ${result.data.present} present, ${result.data.absent} absent`)
+        setActiveSession(null)
+        onSaved()
+      } else {
+        toast.error(result.error || 'Failed to save attendance')
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleAddVisitor = async () => {
+    if (!activeSession) return
+
+    setIsBusy(true)
+    try {
+      const result = await addLifeGroupVisitor(activeSession.id, visitor)
+      if (result.success && result.data) {
+        setActiveSession({ ...activeSession, visitors: [...activeSession.visitors, result.data] })
+        setVisitor(emptyVisitor)
+      } else {
+        toast.error(result.error || 'Failed to add visitor')
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRemoveVisitor = async (visitorId: string) => {
+    if (!activeSession) return
+
+    const result = await removeLifeGroupVisitor(visitorId)
+    if (result.success) {
+      setActiveSession({ ...activeSession, visitors: activeSession.visitors.filter(v => v.id !== visitorId) })
+    } else {
+      toast.error(result.error || 'Failed to remove visitor')
+    }
+  }
+
+  if (activeSession) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <p className="font-medium">Session: {format(new Date(activeSession.date), 'PPP')}</p>
+          <p className="text-sm text-muted-foreground">Tick everyone who came. Everyone else is recorded as absent.</p>
+        </div>
+
+        {overview.members.length === 0 ? (
+          <p className="text-muted-foreground">No members to track attendance</p>
+        ) : (
+          <div className="space-y-2">
+            {overview.members.map(member => (
+              <div key={member.userId} className="flex items-center space-x-3 p-2 border rounded">
+                <Checkbox
+                  id={`attendance-${member.userId}`}
+                  checked={!!present[member.userId]}
+                  onCheckedChange={checked => setPresent({ ...present, [member.userId]: checked === true })}
+                  disabled={isBusy}
+                />
+                <Label htmlFor={`attendance-${member.userId}`} className="flex-1 cursor-pointer">
+                  {member.name || member.email}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="session-notes">Notes</Label>
+          <Textarea
+            id="session-notes"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Topic, prayer requests, follow-ups..."
+            maxLength={2000}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <Label>Visitors ({activeSession.visitors.length})</Label>
+          {activeSession.visitors.map(v => (
+            <div key={v.id} className="flex items-center justify-between p-2 border rounded">
+              <div>
+                <p className="font-medium">{v.name}</p>
+                <p className="text-sm text-muted-foreground">{[v.phone, v.email].filter(Boolean).join(' · ')}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemoveVisitor(v.id)}
+                aria-label={`Remove visitor ${v.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid gap-2 sm:grid-cols-[2fr_1fr_2fr_auto]">
+            <Input
+              placeholder="Visitor name"
+              value={visitor.name}
+              onChange={e => setVisitor({ ...visitor, name: e.target.value })}
+            />
+            <Input
+              placeholder="Phone"
+              value={visitor.phone}
+              onChange={e => setVisitor({ ...visitor, phone: e.target.value })}
+            />
+            <Input
+              type="email"
+              placeholder="Email"
+              value={visitor.email}
+              onChange={e => setVisitor({ ...visitor, email: e.target.value })}
+            />
+            <Button variant="outline" onClick={handleAddVisitor} disabled={isBusy || !visitor.name.trim()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isBusy}>
+            Save Attendance
+          </Button>
+          <Button variant="outline" onClick={() => setActiveSession(null)} disabled={isBusy}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {overview.needsFollowUp.length > 0 && (
+        <Alert variant="warning">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Follow up</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1">
+              {overview.needsFollowUp.map(member => (
+                <li key={member.userId}>
+                  {member.name || member.email} has missed {member.missedInARow} meetings in a row
+                  {member.lastAttendedAt
+                    ? `, last came ${format(new Date(member.lastAttendedAt), 'MMM d')}`
+                    : ''}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="session-date">Session Date</Label>
+          <Input
+            id="session-date"
+            type="date"
+            value={sessionDate}
+            onChange={e => setSessionDate(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleStart} disabled={isBusy || !sessionDate}>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Start Session
+        </Button>
+      </div>
+
+      {overview.suggestedDates.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Scheduled meetings without attendance:</span>
+          {overview.suggestedDates.map(date => (
+            <Button
+              key={date}
+              size="sm"
+              variant={date === sessionDate ? 'secondary' : 'outline'}
+              onClick={() => setSessionDate(date)}
+            >
+              {format(parseISO(date), 'EEE, MMM d')}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Recent Sessions</h3>
+        {overview.sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sessions yet</p>
+        ) : (
+          overview.sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between p-2 border rounded">
+              <div>
+                <p className="font-medium">{format(new Date(session.date), 'EEE, MMM d, yyyy')}</p>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  <Badge variant="success">{session.presentCount} present</Badge>
+                  <Badge variant="secondary">{session.absentCount} absent</Badge>
+                  {session.visitorCount > 0 && (
+                    <Badge variant="info">
+                      {session.visitorCount} visitor{session.visitorCount !== 1 ? 's' : ''}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleOpen(session.id)} disabled={isBusy}>
+                Edit
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import type { LifeGroupDiscoveryFilters } from "@/lib/lifegroups/discovery";
+import {
+  LIFEGROUP_AUDIENCE_LABELS,
+  MEETING_DAY_LABELS,
+  MEETING_MODE_LABELS
+} from "@/lib/lifegroups/schedule";
+
+interface DiscoveryFiltersProps {
+  filters: LifeGroupDiscoveryFilters
+  languages: string[]
+}
+
+const selectClassName = "rounded-md border border-input bg-background px-3 py-2"
+
+export function DiscoveryFilters({ filters, languages }: DiscoveryFiltersProps) {
+  return (
+    <form method="get" className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-6 items-end">
+      <input type="hidden" name="tab" value="available" />
+      <label className="flex flex-col gap-1 text-sm lg:col-span-2">
+        Search
+        <input
+          type="search"
+          name="q"
+          defaultValue={filters.q || ''}
+          placeholder="Name, description or area"
+          className={selectClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-sm">
+        Day
+        <select name="day" defaultValue={filters.day || ''} className={selectClassName}>
+          <option value="">Any day</option>
+          {Object.entries(MEETING_DAY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-sm">
+        Meets
+        <select name="mode" defaultValue={filters.mode || ''} className={selectClassName}>
+          <option value="">In person or online</option>
+          {Object.entries(MEETING_MODE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-sm">
+        For
+        <select name="tag" defaultValue={filters.tag || ''} className={selectClassName}>
+          <option value="">Everyone</option>
+          {Object.entries(LIFEGROUP_AUDIENCE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {languages.length > 0 && (
+        <label className="flex flex-col gap-1 text-sm">
+          Language
+          <select name="language" defaultValue={filters.language || ''} className={selectClassName}>
+            <option value="">Any language</option>
+            {languages.map(language => (
+              <option key={language} value={language}>{language}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+        <Link href="/lifegroups?tab=available" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+          Reset
+        </Link>
+      </div>
+    </form>
+  )
+}
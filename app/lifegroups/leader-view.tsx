@@ -6,23 +6,32 @@ import { Button } from '@/components/ui/button'
 import { DataTable } from '@/components/patterns/data-table'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Download, Check, X, Users, UserPlus } from 'lucide-react'
+import { Download, Check, X, Users, UserPlus, ClipboardCheck } from 'lucide-react'
 import { format } from 'date-fns'
 import { 
   getLifeGroupMembers, 
   getLifeGroupRequests, 
+  getLifeGroupAttendance,
   approveRequest, 
   rejectRequest 
 } from './actions'
+import { AttendancePanel, type AttendanceOverview } from './attendance-panel'
 import { toast } from 'sonner'
+import { LifeGroupRole } from '@prisma/client'
+import { LIFEGROUP_ROLE_LABELS, type LifeGroupPermission } from '@/lib/lifegroups/leadership'
 
 interface LeaderViewProps {
   lifeGroupId: string
   lifeGroupName: string
+  /** The viewer's role when they help lead rather than lead the group */
+  role?: LifeGroupRole | null
+  permissions: LifeGroupPermission[]
 }
 
 interface MemberItem {
   id: string
+  userId: string
+  role: LifeGroupRole
   user: {
     name: string | null
     email: string
@@ -41,16 +50,19 @@ interface RequestItem {
   requestedAt: Date | string
 }
 
-export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
+export function LeaderView({ lifeGroupId, lifeGroupName, role, permissions }: LeaderViewProps) {
+  const canManageRequests = permissions.includes('MANAGE_REQUESTS')
   const [members, setMembers] = useState<MemberItem[]>([])
   const [requests, setRequests] = useState<RequestItem[]>([])
+  const [attendance, setAttendance] = useState<AttendanceOverview | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
   const fetchData = useCallback(async () => {
     try {
-      const [membersResult, requestsResult] = await Promise.all([
+      const [membersResult, requestsResult, attendanceResult] = await Promise.all([
         getLifeGroupMembers(lifeGroupId),
-        getLifeGroupRequests(lifeGroupId)
+        canManageRequests ? getLifeGroupRequests(lifeGroupId) : Promise.resolve({ success: true, data: [] }),
+        getLifeGroupAttendance(lifeGroupId)
       ])
 
       if (membersResult.success) {
@@ -59,12 +71,15 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
       if (requestsResult.success) {
         setRequests(requestsResult.data || [])
       }
+      if (attendanceResult.success && attendanceResult.data) {
+        setAttendance(attendanceResult.data)
+      }
     } catch {
       toast.error('Failed to load data')
     } finally {
       setIsLoading(false)
     }
-  }, [lifeGroupId])
+  }, [lifeGroupId, canManageRequests])
 
   useEffect(() => {
     fetchData()
@@ -117,7 +132,14 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
     {
       key: 'name',
       header: 'Name',
-      cell: (item: MemberItem) => item.user.name || 'N/A'
+      cell: (item: MemberItem) => (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>{item.user.name || 'N/A'}</span>
+          {item.role !== LifeGroupRole.MEMBER && (
+            <Badge variant="outline">{LIFEGROUP_ROLE_LABELS[item.role]}</Badge>
+          )}
+        </div>
+      )
     },
     {
       key: 'email',
@@ -133,6 +155,26 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
       key: 'joinedAt',
       header: 'Joined',
       cell: (item: MemberItem) => format(new Date(item.joinedAt), 'MMM d, yyyy')
+    },
+    {
+      key: 'attendance',
+      header: 'Attendance',
+      cell: (item: MemberItem) => {
+        const stats = attendance?.members.find(member => member.userId === item.userId)
+        if (!stats || stats.total === 0) {
+          return <span className="text-muted-foreground">No sessions yet</span>
+        }
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            <span>{stats.attended}/{stats.total}</span>
+            {stats.needsFollowUp ? (
+              <Badge variant="warning">Missed {stats.missedInARow} in a row</Badge>
+            ) : stats.streak > 1 ? (
+              <Badge variant="success">{stats.streak} in a row</Badge>
+            ) : null}
+          </div>
+        )
+      }
     }
   ]
 
@@ -202,7 +244,9 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
           <div>
             <CardTitle>Manage {lifeGroupName}</CardTitle>
             <CardDescription>
-              View members and handle join requests
+              {role
+                ? `You are ${role === LifeGroupRole.APPRENTICE ? 'an' : 'a'} ${LIFEGROUP_ROLE_LABELS[role].toLowerCase()} of this group`
+                : 'View members, take attendance and handle join requests'}
             </CardDescription>
           </div>
           {requests.length > 0 && (
@@ -214,15 +258,22 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="members">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={`grid w-full ${canManageRequests ? 'grid-cols-3' : 'grid-cols-2'}`}>
             <TabsTrigger value="members">
               <Users className="mr-2 h-4 w-4" />
               Members ({members.length})
             </TabsTrigger>
-            <TabsTrigger value="requests">
-              <UserPlus className="mr-2 h-4 w-4" />
-              Requests ({requests.length})
+            <TabsTrigger value="attendance">
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Attendance
+              {attendance && attendance.needsFollowUp.length > 0 && ` (${attendance.needsFollowUp.length})`}
             </TabsTrigger>
+            {canManageRequests && (
+              <TabsTrigger value="requests">
+                <UserPlus className="mr-2 h-4 w-4" />
+                Requests ({requests.length})
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="members" className="space-y-4">
@@ -250,6 +301,16 @@ export function LeaderView({ lifeGroupId, lifeGroupName }: LeaderViewProps) {
             />
           </TabsContent>
 
+          <TabsContent value="attendance">
+            {attendance ? (
+              <AttendancePanel lifeGroupId={lifeGroupId} overview={attendance} onSaved={fetchData} />
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                Attendance is unavailable
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="requests">
             <DataTable
               data={requests}
@@ -4,8 +4,11 @@ import { useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Users, User, LogOut, UserPlus, Clock } from 'lucide-react'
+import { Users, User, LogOut, UserPlus, Clock, CalendarDays, MapPin, Languages } from 'lucide-react'
+import { LifeGroupAudience, MeetingDay, MeetingFrequency, MeetingMode } from '@prisma/client'
 import { requestJoinLifeGroup, leaveLifeGroup } from './actions'
+import { describeMeetingSchedule, LIFEGROUP_AUDIENCE_LABELS, MEETING_MODE_LABELS } from '@/lib/lifegroups/schedule'
+import { getMapUrl } from '@/lib/lifegroups/discovery'
 import { toast } from 'sonner'
 import {
   Dialog,
@@ -24,6 +27,15 @@ interface LifeGroupCardProps {
     name: string
     description?: string | null
     capacity: number
+    meetingDay?: MeetingDay | null
+    meetingTime?: string | null
+    meetingFrequency?: MeetingFrequency
+    meetingMode?: MeetingMode
+    location?: string | null
+    latitude?: number | null
+    longitude?: number | null
+    audienceTags?: LifeGroupAudience[]
+    language?: string | null
     leader: {
       id: string
       name?: string | null
@@ -36,6 +48,8 @@ interface LifeGroupCardProps {
   isMember?: boolean
   hasPendingRequest?: boolean
   isFull?: boolean
+  /** Distance from the member, when they shared their location */
+  distanceKm?: number
   onAction?: () => void
 }
 
@@ -44,6 +58,7 @@ export function LifeGroupCard({
   isMember = false, 
   hasPendingRequest = false,
   isFull = false,
+  distanceKm,
   onAction 
 }: LifeGroupCardProps) {
   const [isLoading, setIsLoading] = useState(false)
@@ -91,6 +106,12 @@ export function LifeGroupCard({
   }
 
   const availableSpots = lifeGroup.capacity - lifeGroup._count.memberships
+  const schedule = describeMeetingSchedule({
+    meetingDay: lifeGroup.meetingDay ?? null,
+    meetingTime: lifeGroup.meetingTime,
+    meetingFrequency: lifeGroup.meetingFrequency ?? MeetingFrequency.WEEKLY
+  })
+  const mapUrl = lifeGroup.meetingMode !== MeetingMode.ONLINE ? getMapUrl(lifeGroup) : null
 
   return (
     <>
@@ -125,6 +146,49 @@ export function LifeGroupCard({
                 <span>Led by {lifeGroup.leader.name || lifeGroup.leader.email}</span>
               </div>
             </div>
+
+            {(schedule || lifeGroup.location || lifeGroup.language) && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                {schedule && (
+                  <div className="flex items-center gap-1">
+                    <CalendarDays className="h-4 w-4" />
+                    <span>{schedule}</span>
+                  </div>
+                )}
+                {lifeGroup.location && lifeGroup.meetingMode !== MeetingMode.ONLINE && (
+                  <div className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    {mapUrl ? (
+                      <a href={mapUrl} target="_blank" rel="noopener noreferrer" className="underline-offset-4 hover:underline">
+                        {lifeGroup.location}
+                      </a>
+                    ) : (
+                      <span>{lifeGroup.location}</span>
+                    )}
+                    {distanceKm !== undefined && (
+                      <span>· {distanceKm < 1 ? '<1' : Math.round(distanceKm)} km away</span>
+                    )}
+                  </div>
+                )}
+                {lifeGroup.language && (
+                  <div className="flex items-center gap-1">
+                    <Languages className="h-4 w-4" />
+                    <span>{lifeGroup.language}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(lifeGroup.meetingMode || (lifeGroup.audienceTags?.length ?? 0) > 0) && (
+              <div className="flex flex-wrap gap-2">
+                {lifeGroup.meetingMode && (
+                  <Badge variant="outline">{MEETING_MODE_LABELS[lifeGroup.meetingMode]}</Badge>
+                )}
+                {lifeGroup.audienceTags?.map(tag => (
+                  <Badge key={tag} variant="secondary">{LIFEGROUP_AUDIENCE_LABELS[tag]}</Badge>
+                ))}
+              </div>
+            )}
             
             <div className="flex items-center gap-4 text-sm">
               <div className="flex items-center gap-1">
@@ -1,9 +1,14 @@
 'use client'
 
+import { useMemo, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EmptyState } from "@/components/patterns/empty-state";
+import { Button } from "@/components/ui/button";
 import { LifeGroupCard } from "./lifegroup-card";
-import { Users } from "lucide-react";
+import { DiscoveryFilters } from "./discovery-filters";
+import { LocateFixed, Users } from "lucide-react";
+import { toast } from "sonner";
+import { distanceKm, type LifeGroupDiscoveryFilters } from "@/lib/lifegroups/discovery";
 
 interface LifeGroupsTabsProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -11,11 +16,63 @@ interface LifeGroupsTabsProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   availableGroups: any[]
   isAdmin: boolean
+  filters: LifeGroupDiscoveryFilters
+  languages: string[]
+  defaultTab?: 'my-groups' | 'available'
 }
 
-export function LifeGroupsTabs({ myGroups, availableGroups, isAdmin }: LifeGroupsTabsProps) {
+export function LifeGroupsTabs({
+  myGroups,
+  availableGroups,
+  isAdmin,
+  filters,
+  languages,
+  defaultTab = 'my-groups'
+}: LifeGroupsTabsProps) {
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  const isFiltered = Object.keys(filters).length > 0
+
+  // Nearest first once the member shares their location; groups without a pin go last
+  const sortedGroups = useMemo(() => {
+    if (!position) {
+      return availableGroups.map(group => ({ group, distance: undefined as number | undefined }))
+    }
+    return availableGroups
+      .map(group => ({
+        group,
+        distance: group.latitude != null && group.longitude != null
+          ? distanceKm(position, { latitude: group.latitude, longitude: group.longitude })
+          : undefined
+      }))
+      .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity))
+  }, [availableGroups, position])
+
+  const handleNearMe = () => {
+    if (position) {
+      setPosition(null)
+      return
+    }
+    if (!navigator.geolocation) {
+      toast.error('Location is not available on this device')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPosition({ latitude: coords.latitude, longitude: coords.longitude })
+        setIsLocating(false)
+      },
+      () => {
+        toast.error('Could not get your location')
+        setIsLocating(false)
+      }
+    )
+  }
+
   return (
-    <Tabs defaultValue="my-groups" className="w-full">
+    <Tabs defaultValue={defaultTab} className="w-full">
       <TabsList className="grid w-full grid-cols-2">
         <TabsTrigger value="my-groups">
           My Groups ({myGroups.length})
@@ -53,7 +110,21 @@ export function LifeGroupsTabs({ myGroups, availableGroups, isAdmin }: LifeGroup
       </TabsContent>
 
       <TabsContent value="available" className="space-y-4">
-        {availableGroups.length === 0 ? (
+        <DiscoveryFilters filters={filters} languages={languages} />
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={handleNearMe} disabled={isLocating}>
+            <LocateFixed className="mr-2 h-4 w-4" />
+            {position ? 'Clear location' : isLocating ? 'Locating...' : 'Near me'}
+          </Button>
+        </div>
+
+        {availableGroups.length === 0 && isFiltered ? (
+          <EmptyState
+            icon={<Users className="h-12 w-12" />}
+            title="No groups match"
+            description="Try a different day, meeting type or search"
+          />
+        ) : availableGroups.length === 0 ? (
           <EmptyState
             icon={<Users className="h-12 w-12" />}
             title="No groups available"
@@ -65,13 +136,14 @@ export function LifeGroupsTabs({ myGroups, availableGroups, isAdmin }: LifeGroup
           />
         ) : (
           <div className="card-grid">
-            {availableGroups.map((group) => (
+            {sortedGroups.map(({ group, distance }) => (
               <LifeGroupCard
                 key={group.id}
                 lifeGroup={group}
                 isMember={false}
                 hasPendingRequest={group.hasPendingRequest}
                 isFull={group.isFull}
+                distanceKm={distance}
               />
             ))}
           </div>
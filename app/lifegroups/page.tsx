@@ -2,38 +2,65 @@ export const dynamic = 'force-dynamic'
 
 import { AppLayout } from "@/components/layout/app-layout";
 import { PageHeader } from "@/components/layout/page-header";
-import { getCurrentUser } from "@/lib/rbac";
+import { getCurrentUser, hasMinRole } from "@/lib/rbac";
 import { redirect } from "next/navigation";
-import { getMyLifeGroups, getAvailableLifeGroups } from "./actions";
+import { getMyLifeGroups, getAvailableLifeGroups, getLifeGroupLanguages } from "./actions";
 import { LeaderView } from "./leader-view";
 import { Plus } from "lucide-react";
 import { LifeGroupsTabs } from "./lifegroups-tabs";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { prisma } from "@/lib/prisma";
+import { parseDiscoveryFilters } from "@/lib/lifegroups/discovery";
+import { getLifeGroupPermissions, LIFEGROUP_LEADERSHIP_ROLES } from "@/lib/lifegroups/leadership";
+import { UserRole } from "@prisma/client";
 
-export default async function LifeGroupsPage() {
+export default async function LifeGroupsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
   const user = await getCurrentUser();
 
   if (!user) {
     redirect("/auth/signin");
   }
 
-  const [myGroupsResult, availableGroupsResult] = await Promise.all([
+  const resolvedSearchParams = await searchParams;
+  const filters = parseDiscoveryFilters(resolvedSearchParams);
+
+  const [myGroupsResult, availableGroupsResult, languagesResult] = await Promise.all([
     getMyLifeGroups(),
-    getAvailableLifeGroups()
+    getAvailableLifeGroups(filters),
+    getLifeGroupLanguages()
   ]);
 
   const myGroups = myGroupsResult.success ? myGroupsResult.data || [] : [];
   const availableGroups = availableGroupsResult.success ? availableGroupsResult.data || [] : [];
+  const languages = languagesResult.success ? languagesResult.data || [] : [];
 
-  // Check if user is a leader of any life groups
+  // Check if user leads, co-leads or is an apprentice in any life groups
   const ledGroups = user.id ? await prisma.lifeGroup.findMany({
     where: {
-      leaderId: user.id,
-      isActive: true
+      isActive: true,
+      OR: [
+        { leaderId: user.id },
+        {
+          memberships: {
+            some: {
+              userId: user.id,
+              status: 'ACTIVE',
+              role: { in: LIFEGROUP_LEADERSHIP_ROLES }
+            }
+          }
+        }
+      ]
     },
     include: {
+      memberships: {
+        where: { userId: user.id },
+        select: { role: true, status: true }
+      },
       leader: {
         select: {
           id: true,
@@ -81,6 +108,12 @@ export default async function LifeGroupsPage() {
                 key={group.id}
                 lifeGroupId={group.id}
                 lifeGroupName={group.name}
+                role={group.leaderId === user.id ? null : group.memberships[0]?.role}
+                permissions={getLifeGroupPermissions({
+                  isLeader: group.leaderId === user.id,
+                  isAdmin: hasMinRole(user.role, UserRole.ADMIN),
+                  membership: group.memberships[0]
+                })}
               />
             ))}
           </div>
@@ -91,6 +124,9 @@ export default async function LifeGroupsPage() {
           myGroups={myGroups}
           availableGroups={availableGroups}
           isAdmin={isAdmin}
+          filters={filters}
+          languages={languages}
+          defaultTab={resolvedSearchParams.tab === 'available' ? 'available' : 'my-groups'}
         />
       </div>
     </AppLayout>
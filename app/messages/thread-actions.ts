@@ -8,6 +8,7 @@ import { apiLogger } from '@/lib/logger'
 import { getCurrentUser, createTenantWhereClause, hasMinRole } from '@/lib/rbac'
 import { UserRole } from '@prisma/client'
 import { rateLimiter } from '@/lib/rate-limiter'
+import { notifyThreadMessage } from '@/lib/push/notifications'
 
 // Thread-based messaging for US-COM-005, US-COM-006
 
@@ -118,6 +119,12 @@ export async function createMessageThread(formData: FormData) {
       participantCount: validated.participants.length + 1
     })
 
+    await notifyThreadMessage({
+      threadId: result.thread.id,
+      authorId: user.id,
+      body: validated.initialMessage
+    })
+
     revalidatePath('/messages')
     return { success: true, threadId: result.thread.id }
   } catch (error) {
@@ -198,6 +205,12 @@ export async function sendThreadMessage(formData: FormData) {
       authorId: user.id
     })
 
+    await notifyThreadMessage({
+      threadId: validated.threadId,
+      authorId: user.id,
+      body: validated.content
+    })
+
     revalidatePath(`/messages/${validated.threadId}`)
     return { success: true, messageId: message.id }
   } catch (error) {
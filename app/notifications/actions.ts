@@ -1,12 +1,37 @@
 'use server'
 
-import { prisma } from '@/lib/prisma'
 import { redirect } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
 import { getCurrentUser, hasMinRole } from '@/lib/rbac'
 import { UserRole } from '@prisma/client'
 import { apiLogger } from '@/lib/logger'
+import {
+  getNotificationPreferencesForUser,
+  saveNotificationPreferences,
+  type NotificationPreferencesInput
+} from '@/lib/notifications/preferences'
+import {
+  countUnreadNotifications,
+  listNotifications,
+  markNotificationsRead
+} from '@/lib/notifications/inbox'
 
-export async function getNotifications() {
+const MAX_NOTIFICATION_PAGE_SIZE = 50
+
+/**
+ * A page of the caller's inbox for their current church, newest first, plus
+ * unread counts for the badge.
+ */
+export async function getNotifications({
+  cursor,
+  take,
+  unreadOnly = false
+}: {
+  cursor?: string
+  take?: number
+  unreadOnly?: boolean
+} = {}) {
   // Authentication check
   const user = await getCurrentUser()
   if (!user) {
@@ -19,99 +44,22 @@ export async function getNotifications() {
   }
 
   try {
-    // For now, return simple notification counts
-    const unreadAnnouncements = 0
-    const unreadMessages = 0
-
-    // Get recent announcements (last 7 days)
-    const recentAnnouncements = await prisma.announcement.findMany({
-      where: {
-        createdAt: {
-          gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-        },
-        isActive: true
-      },
-      include: {
-        author: {
-          select: { name: true }
-        },
-        reads: {
-          where: { userId: user.id },
-          select: { readAt: true }
-        }
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 10
-    })
-
-    // Get recent messages in user's threads
-    const recentThreadMessages = await prisma.messageThreadMessage.findMany({
-      where: {
-        thread: {
-          participants: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        createdAt: {
-          gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-        },
-        authorId: { not: user.id } // Exclude own messages
-      },
-      include: {
-        author: {
-          select: { name: true }
-        },
-        thread: {
-          include: {
-            participants: {
-              include: {
-                user: {
-                  select: { name: true }
-                }
-              }
-            }
-          }
-        },
-        reads: {
-          where: { userId: user.id },
-          select: { readAt: true }
-        }
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 10
-    })
+    const [page, unread] = await Promise.all([
+      listNotifications({
+        userId: user.id,
+        localChurchId: user.tenantId,
+        cursor,
+        take: take ? Math.min(Math.max(take, 1), MAX_NOTIFICATION_PAGE_SIZE) : undefined,
+        unreadOnly
+      }),
+      countUnreadNotifications(user.id, user.tenantId)
+    ])
 
     return {
       success: true,
       data: {
-        summary: {
-          unreadAnnouncements,
-          unreadMessages,
-          total: unreadAnnouncements + unreadMessages
-        },
-        recentActivity: [
-          ...recentAnnouncements.map(announcement => ({
-            id: announcement.id,
-            type: 'announcement' as const,
-            title: announcement.title,
-            content: announcement.content.substring(0, 100) + '...',
-            author: announcement.author.name,
-            createdAt: announcement.createdAt,
-            isRead: announcement.reads.length > 0
-          })),
-          ...recentThreadMessages.map(message => ({
-            id: message.id,
-            type: 'message' as const,
-            title: `New message from ${message.author.name}`,
-            content: message.body.substring(0, 100) + '...',
-            author: message.author.name,
-            createdAt: message.createdAt,
-            isRead: message.reads.length > 0,
-            threadId: message.threadId
-          }))
-        ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        unread,
+        ...page
       }
     }
   } catch (error) {
@@ -123,7 +71,7 @@ export async function getNotifications() {
   }
 }
 
-export async function getNotificationPreferences() {
+export async function markNotificationRead(notificationId: string) {
   // Authentication check
   const user = await getCurrentUser()
   if (!user) {
@@ -131,20 +79,59 @@ export async function getNotificationPreferences() {
   }
 
   try {
-    const preferences = await prisma.notificationPreference.findUnique({
-      where: { userId: user.id }
+    const updated = await markNotificationsRead({
+      userId: user.id,
+      localChurchId: user.tenantId,
+      ids: [notificationId]
     })
 
+    return { success: true, data: { updated } }
+  } catch (error) {
+    apiLogger.error('Failed to mark notification read', { error, userId: user.id, notificationId })
+    return {
+      success: false,
+      error: 'Failed to update notification'
+    }
+  }
+}
+
+export async function markAllNotificationsRead() {
+  // Authentication check
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/auth/signin')
+  }
+
+  try {
+    const updated = await markNotificationsRead({
+      userId: user.id,
+      localChurchId: user.tenantId
+    })
+
+    revalidatePath('/notifications')
+    return { success: true, data: { updated } }
+  } catch (error) {
+    apiLogger.error('Failed to mark notifications read', { error, userId: user.id })
+    return {
+      success: false,
+      error: 'Failed to update notifications'
+    }
+  }
+}
+
+export async function getNotificationPreferences() {
+  // Authentication check
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/auth/signin')
+  }
+
+  try {
+    const preferences = await getNotificationPreferencesForUser(user.id)
+
     return {
       success: true,
-      data: preferences || {
-        userId: user.id,
-        emailEnabled: true,
-        pushEnabled: false,
-        announcementsEnabled: true,
-        messagesEnabled: true,
-        digestEnabled: false
-      }
+      data: preferences
     }
   } catch (error) {
     apiLogger.error('Failed to get notification preferences', { error, userId: user.id })
@@ -155,13 +142,34 @@ export async function getNotificationPreferences() {
   }
 }
 
-export async function updateNotificationPreferences() {
+export async function updateNotificationPreferences(input: NotificationPreferencesInput) {
   // Authentication check
   const user = await getCurrentUser()
   if (!user) {
     redirect('/auth/signin')
   }
 
-  // For now, just return success (placeholder implementation)
-  return { success: true }
-}
\ No newline at end of file
+  try {
+    const preferences = await saveNotificationPreferences(user.id, input)
+
+    apiLogger.info('Notification preferences updated', { userId: user.id })
+    revalidatePath('/notifications/settings')
+
+    return {
+      success: true,
+      data: preferences
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors.map(e => e.message).join(', ')
+      }
+    }
+    apiLogger.error('Failed to update notification preferences', { error, userId: user.id })
+    return {
+      success: false,
+      error: 'Failed to save preferences'
+    }
+  }
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Bell, CheckCheck, Loader2, Settings } from 'lucide-react'
+import { toast } from 'sonner'
+import { NotificationItem, type NotificationItemData } from '@/components/notifications/notification-center'
+import { getNotifications, markAllNotificationsRead, markNotificationRead } from './actions'
+
+interface NotificationInboxProps {
+  initialItems: NotificationItemData[]
+  initialCursor: string | null
+  initialUnread: number
+}
+
+export function NotificationInbox({ initialItems, initialCursor, initialUnread }: NotificationInboxProps) {
+  const [items, setItems] = useState(initialItems)
+  const [cursor, setCursor] = useState(initialCursor)
+  const [unread, setUnread] = useState(initialUnread)
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const load = (options: { unreadOnly: boolean; cursor?: string }) => {
+    startTransition(async () => {
+      const result = await getNotifications(options)
+      if (result.success && result.data) {
+        setItems(options.cursor ? [...items, ...result.data.items] : result.data.items)
+        setCursor(result.data.nextCursor)
+        setUnread(result.data.unread.total)
+      } else {
+        toast.error(result.error || 'Failed to load notifications')
+      }
+    })
+  }
+
+  const handleFilter = (value: boolean) => {
+    setUnreadOnly(value)
+    load({ unreadOnly: value })
+  }
+
+  const handleMarkAllRead = () => {
+    startTransition(async () => {
+      const result = await markAllNotificationsRead()
+      if (result.success) {
+        setItems(unreadOnly ? [] : items.map((item) => item.readAt ? item : { ...item, readAt: new Date() }))
+        setUnread(0)
+      } else {
+        toast.error(result.error || 'Failed to update notifications')
+      }
+    })
+  }
+
+  const handleItemClick = (item: NotificationItemData) => {
+    if (!item.readAt) {
+      setUnread(Math.max(unread - 1, 0))
+      void markNotificationRead(item.id)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <Button variant={unreadOnly ? 'outline' : 'default'} size="sm" onClick={() => handleFilter(false)}>
+            All
+          </Button>
+          <Button variant={unreadOnly ? 'default' : 'outline'} size="sm" onClick={() => handleFilter(true)}>
+            Unread ({unread})
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={isPending || unread === 0}>
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all as read
+          </Button>
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/notifications/settings">
+              <Settings className="mr-2 h-4 w-4" />
+              Settings
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Bell className="mx-auto h-10 w-10 text-muted-foreground" />
+            <p className="mt-3 text-muted-foreground">
+              {unreadOnly ? "You're all caught up" : 'No notifications yet'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2" data-testid="notification-inbox">
+          {items.map((item) => (
+            <NotificationItem key={item.id} item={item} onClick={() => handleItemClick(item)} />
+          ))}
+        </div>
+      )}
+
+      {cursor && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => load({ unreadOnly, cursor })} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { unstable_noStore as noStore } from 'next/cache';
+import { NotificationInbox } from "./notification-inbox";
+import { getNotifications } from "./actions";
+
+export default async function NotificationsPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  const result = await getNotifications();
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Notifications"
+        description="Everything we've let you know about"
+      />
+
+      <NotificationInbox
+        initialItems={result.success && result.data ? result.data.items : []}
+        initialCursor={result.success && result.data ? result.data.nextCursor : null}
+        initialUnread={result.success && result.data ? result.data.unread.total : 0}
+      />
+    </AppLayout>
+  );
+}
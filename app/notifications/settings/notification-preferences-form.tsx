@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { NotificationCategory } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { updateNotificationPreferences } from '../actions'
+import type { NotificationChannel, NotificationPreferences } from '@/lib/notifications/preferences'
+
+interface NotificationPreferencesFormProps {
+  initialPreferences: NotificationPreferences
+  categories: Array<{
+    category: NotificationCategory
+    label: string
+    description: string
+  }>
+}
+
+const CHANNELS: Array<{ channel: NotificationChannel; label: string; description: string }> = [
+  { channel: 'inApp', label: 'In-app', description: 'The bell in the top bar' },
+  { channel: 'push', label: 'Push', description: 'Alerts on devices where you allowed notifications' },
+  { channel: 'email', label: 'Email', description: 'Sent to your account email address' }
+]
+
+export function NotificationPreferencesForm({ initialPreferences, categories }: NotificationPreferencesFormProps) {
+  const [preferences, setPreferences] = useState(initialPreferences)
+  const [isPending, startTransition] = useTransition()
+  const { quietHours } = preferences
+
+  const setChannel = (channel: NotificationChannel, enabled: boolean) => {
+    setPreferences({ ...preferences, channels: { ...preferences.channels, [channel]: enabled } })
+  }
+
+  const setCategoryChannel = (category: NotificationCategory, channel: NotificationChannel, enabled: boolean) => {
+    setPreferences({
+      ...preferences,
+      categories: {
+        ...preferences.categories,
+        [category]: { ...preferences.categories[category], [channel]: enabled }
+      }
+    })
+  }
+
+  const setQuietHours = (changes: Partial<NotificationPreferences['quietHours']>) => {
+    setPreferences({ ...preferences, quietHours: { ...quietHours, ...changes } })
+  }
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateNotificationPreferences(preferences)
+      if (result.success && result.data) {
+        setPreferences(result.data)
+        toast.success('Notification settings saved')
+      } else {
+        toast.error(result.error || 'Failed to save preferences')
+      }
+    })
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Channels</CardTitle>
+          <CardDescription>Turning a channel off silences every category on it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {CHANNELS.map(({ channel, label, description }) => (
+            <div key={channel} className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`channel-${channel}`}>{label}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`channel-${channel}`}
+                checked={preferences.channels[channel]}
+                onCheckedChange={(checked) => setChannel(channel, checked)}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Categories</CardTitle>
+          <CardDescription>Pick where each kind of notification reaches you.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="notification-categories">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 text-left font-medium">Category</th>
+                  {CHANNELS.map(({ channel, label }) => (
+                    <th key={channel} className="py-2 px-3 text-center font-medium">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(({ category, label, description }) => (
+                  <tr key={category} className="border-b last:border-0">
+                    <td className="py-3 pr-3">
+                      <p className="font-medium">{label}</p>
+                      <p className="text-muted-foreground">{description}</p>
+                    </td>
+                    {CHANNELS.map(({ channel, label: channelLabel }) => (
+                      <td key={channel} className="py-3 px-3 text-center">
+                        <Checkbox
+                          aria-label={`${label} by ${channelLabel}`}
+                          checked={preferences.categories[category][channel]}
+                          disabled={!preferences.channels[channel]}
+                          onCheckedChange={(checked) => setCategoryChannel(category, channel, !!checked)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Digest</CardTitle>
+          <CardDescription>
+            A Sunday email with new announcements, the week&apos;s events, your LifeGroup&apos;s next meeting and pathway steps still to do.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="weekly-digest">Send me the weekly digest</Label>
+              {!preferences.channels.email && (
+                <p className="text-sm text-muted-foreground">Turn on email above to receive the digest.</p>
+              )}
+            </div>
+            <Switch
+              id="weekly-digest"
+              checked={preferences.weeklyDigest}
+              disabled={!preferences.channels.email}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, weeklyDigest: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quiet Hours</CardTitle>
+          <CardDescription>
+            Push notifications wait until quiet hours end. Urgent announcements still come through.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="quiet-hours-enabled">Enable quiet hours</Label>
+            <Switch
+              id="quiet-hours-enabled"
+              checked={quietHours.enabled}
+              onCheckedChange={(checked) => setQuietHours({
+                enabled: checked,
+                start: quietHours.start ?? '22:00',
+                end: quietHours.end ?? '07:00'
+              })}
+            />
+          </div>
+
+          {quietHours.enabled && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="quiet-hours-start">From</Label>
+                <Input
+                  id="quiet-hours-start"
+                  type="time"
+                  value={quietHours.start ?? ''}
+                  onChange={(e) => setQuietHours({ start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quiet-hours-end">Until</Label>
+                <Input
+                  id="quiet-hours-end"
+                  type="time"
+                  value={quietHours.end ?? ''}
+                  onChange={(e) => setQuietHours({ end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quiet-hours-timezone">Time zone</Label>
+                <Input
+                  id="quiet-hours-timezone"
+                  value={quietHours.timeZone}
+                  onChange={(e) => setQuietHours({ timeZone: e.target.value })}
+                />
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => setQuietHours({ timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+                >
+                  Use this device&apos;s time zone
+                </button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={isPending}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Settings
+      </Button>
+    </div>
+  )
+}
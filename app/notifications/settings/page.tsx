@@ -0,0 +1,32 @@
+import { AppLayout } from "@/components/layout/app-layout";
+import { PageHeader } from "@/components/layout/page-header";
+import { getCurrentUser } from "@/lib/rbac";
+import { redirect } from "next/navigation";
+import { unstable_noStore as noStore } from 'next/cache';
+import { NOTIFICATION_CATEGORIES, getNotificationPreferencesForUser } from "@/lib/notifications/preferences";
+import { NotificationPreferencesForm } from "./notification-preferences-form";
+
+export default async function NotificationSettingsPage() {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  const preferences = await getNotificationPreferencesForUser(user.id);
+
+  return (
+    <AppLayout user={user}>
+      <PageHeader
+        title="Notification Settings"
+        description="Choose what we tell you about, where, and when"
+      />
+
+      <NotificationPreferencesForm
+        initialPreferences={preferences}
+        categories={NOTIFICATION_CATEGORIES}
+      />
+    </AppLayout>
+  );
+}
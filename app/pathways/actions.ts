@@ -5,8 +5,9 @@ import { PathwayType } from '@prisma/client'
 import { revalidatePath } from 'next/cache'
 import { auth } from '@/lib/auth'
 import { detectPathwayCompletion } from '@/app/admin/pathways/actions'
+import { getUnmetPrerequisites, readStepUpload } from '@/app/lib/pathways/progress'
 
-// US-PWY-003: Member enroll in VINES pathway
+// US-PWY-003: Member enroll in an opt-in pathway
 export async function enrollInPathway(pathwayId: string) {
   const session = await auth()
   if (!session?.user) {
@@ -30,9 +31,9 @@ export async function enrollInPathway(pathwayId: string) {
     throw new Error('Pathway not available for enrollment')
   }
 
-  // Only allow manual enrollment in VINES pathways
-  if (pathway.type !== PathwayType.VINES) {
-    throw new Error('Manual enrollment only allowed for VINES pathways')
+  // ROOTS is auto-enrollment only
+  if (pathway.type === PathwayType.ROOTS || pathway.tenantId !== user.tenantId) {
+    throw new Error('Pathway not available for enrollment')
   }
 
   // Check for existing enrollment
@@ -44,6 +45,11 @@ export async function enrollInPathway(pathwayId: string) {
     return { success: true, data: existingEnrollment }
   }
 
+  const unmetPrerequisites = await getUnmetPrerequisites(pathwayId, user.id)
+  if (unmetPrerequisites.length > 0) {
+    throw new Error(`Complete ${unmetPrerequisites.map(p => p.name).join(', ')} first`)
+  }
+
   // Create enrollment
   const enrollment = await prisma.pathwayEnrollment.create({
     data: {
@@ -57,7 +63,7 @@ export async function enrollInPathway(pathwayId: string) {
 }
 
 // US-PWY-003: Mark step as complete (self-completion for non-leader-required steps)
-export async function markStepComplete(stepId: string, enrollmentId: string) {
+export async function markStepComplete(stepId: string, enrollmentId: string, file?: File | null) {
   const session = await auth()
   if (!session?.user) {
     throw new Error('Unauthorized')
@@ -86,7 +92,7 @@ export async function markStepComplete(stepId: string, enrollmentId: string) {
     where: { id: stepId }
   })
 
-  if (!step) {
+  if (!step || step.pathwayId !== enrollment.pathwayId) {
     throw new Error('Step not found')
   }
 
@@ -95,22 +101,40 @@ export async function markStepComplete(stepId: string, enrollmentId: string) {
     throw new Error('This step requires attendance verification')
   }
 
+  if (step.requiresVerification) {
+    throw new Error('This step must be verified by a leader')
+  }
+
+  if (step.requiresUpload && !file) {
+    throw new Error('This step requires an uploaded file')
+  }
+
   // Check for existing progress
   const existing = await prisma.pathwayProgress.findFirst({
     where: { stepId, userId: user.id },
+    omit: { fileData: true },
   })
 
   if (existing) {
     return { success: true, data: existing }
   }
 
+  const unmetPrerequisites = await getUnmetPrerequisites(enrollment.pathwayId, user.id)
+  if (unmetPrerequisites.length > 0) {
+    throw new Error(`Complete ${unmetPrerequisites.map(p => p.name).join(', ')} first`)
+  }
+
+  const upload = file ? await readStepUpload(file) : null
+
   // Create progress
   const progress = await prisma.pathwayProgress.create({
     data: {
       stepId,
       userId: user.id,
-      notes: 'Self-completed by member'
+      notes: 'Self-completed by member',
+      ...upload
     },
+    omit: { fileData: true }
   })
 
   // Check for pathway completion
@@ -144,7 +168,8 @@ export async function getMyPathways() {
             orderBy: { orderIndex: 'asc' },
             include: {
               progress: {
-                where: { userId: user.id }
+                where: { userId: user.id },
+                omit: { fileData: true }
               }
             }
           }
@@ -10,8 +10,9 @@ import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { CheckCircle2, Circle } from 'lucide-react'
+import { AlertTriangle, CheckCircle2, Circle, Lock } from 'lucide-react'
 import { PathwayType } from '@prisma/client'
+import { StepUploadForm } from './step-upload-form'
 
 export default async function PathwaysPage() {
   const session = await auth()
@@ -35,8 +36,19 @@ export default async function PathwaysPage() {
       isActive: true,
       type: { not: PathwayType.ROOTS },
     },
+    include: {
+      prerequisites: {
+        select: { prerequisite: { select: { id: true, name: true } } },
+      },
+    },
   })
 
+  const completedPathwayIds = new Set(
+    progressData
+      .filter(p => p.enrollment.status === 'COMPLETED')
+      .map(p => p.enrollment.pathwayId)
+  )
+
   const enrolledPathwayIds = new Set(
     progressData.map(p => p.enrollment.pathwayId)
   )
@@ -103,7 +115,7 @@ export default async function PathwaysPage() {
         )}
 
         <div className="space-y-6">
-          {progressData.map(({ enrollment, steps, progressPercentage }) => (
+          {progressData.map(({ enrollment, steps, progressPercentage, blockedBy }) => (
             <Card key={enrollment.id}>
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -132,6 +144,12 @@ export default async function PathwaysPage() {
                   </div>
                   <Progress value={progressPercentage} />
                 </div>
+                {blockedBy.length > 0 && (
+                  <p className="mt-3 flex items-center gap-2 text-sm text-amber-700">
+                    <Lock className="h-4 w-4" />
+                    Complete {blockedBy.map(p => p.name).join(', ')} to continue this pathway
+                  </p>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
@@ -141,8 +159,12 @@ export default async function PathwaysPage() {
                       className="flex items-start gap-3 p-3 rounded-xl hover:bg-accent/50 transition-colors"
                     >
                       <div className="mt-0.5">
-                        {step.completed ? (
+                        {step.status === 'COMPLETED' ? (
                           <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : step.status === 'OVERDUE' ? (
+                          <AlertTriangle className="h-5 w-5 text-red-600" />
+                        ) : step.status === 'BLOCKED' ? (
+                          <Lock className="h-5 w-5 text-ink-muted" />
                         ) : (
                           <Circle className="h-5 w-5 text-ink-muted" />
                         )}
@@ -161,7 +183,22 @@ export default async function PathwaysPage() {
                             Completed on {new Date(step.completedAt).toLocaleDateString()}
                           </p>
                         )}
+                        {!step.completed && step.dueDate && (
+                          <p className={`text-xs mt-1 ${step.status === 'OVERDUE' ? 'text-red-600' : 'text-ink-muted'}`}>
+                            {step.status === 'OVERDUE' ? 'Overdue since' : 'Due'} {step.dueDate.toLocaleDateString()}
+                          </p>
+                        )}
+                        {!step.completed && step.status !== 'BLOCKED' && step.requiresVerification && (
+                          <p className="text-xs text-ink-muted mt-1">A leader will verify this step</p>
+                        )}
                       </div>
+                      {!step.completed &&
+                        step.status !== 'BLOCKED' &&
+                        step.requiresUpload &&
+                        !step.requiresVerification &&
+                        !step.requiresAttendance && (
+                          <StepUploadForm stepId={step.id} enrollmentId={enrollment.id} stepName={step.name} />
+                        )}
                     </div>
                   ))}
                 </div>
@@ -174,21 +211,34 @@ export default async function PathwaysPage() {
           <div className="mt-8">
             <h2 className="text-xl font-semibold mb-4">Available Pathways</h2>
             <div className="grid gap-4 md:grid-cols-2">
-              {unenrolledPathways.map((pathway) => (
-                <Card key={pathway.id}>
-                  <CardHeader>
-                    <CardTitle>{pathway.name}</CardTitle>
-                    <CardDescription>{pathway.description}</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <Button asChild className="w-full">
-                      <Link href={`/pathways/${pathway.id}/enroll`}>
-                        Enroll Now
-                      </Link>
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
+              {unenrolledPathways.map((pathway) => {
+                const missing = pathway.prerequisites
+                  .map(({ prerequisite }) => prerequisite)
+                  .filter(prerequisite => !completedPathwayIds.has(prerequisite.id))
+
+                return (
+                  <Card key={pathway.id}>
+                    <CardHeader>
+                      <CardTitle>{pathway.name}</CardTitle>
+                      <CardDescription>{pathway.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {missing.length > 0 ? (
+                        <Button className="w-full" variant="outline" disabled>
+                          <Lock className="h-4 w-4 mr-2" />
+                          Complete {missing.map(p => p.name).join(', ')} first
+                        </Button>
+                      ) : (
+                        <Button asChild className="w-full">
+                          <Link href={`/pathways/${pathway.id}/enroll`}>
+                            Enroll Now
+                          </Link>
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
             </div>
           </div>
         )}
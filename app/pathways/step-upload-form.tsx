@@ -0,0 +1,64 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { markStepComplete } from './actions'
+
+interface StepUploadFormProps {
+  stepId: string
+  enrollmentId: string
+  stepName: string
+}
+
+export function StepUploadForm({ stepId, enrollmentId, stepName }: StepUploadFormProps) {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsUploading(true)
+    try {
+      await markStepComplete(stepId, enrollmentId, file)
+      toast.success(`${stepName} completed`)
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload file')
+    } finally {
+      setIsUploading(false)
+      if (inputRef.current) {
+        inputRef.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept="application/pdf,image/jpeg,image/png,image/webp"
+        aria-label={`Upload file for ${stepName}`}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? (
+          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+        ) : (
+          <Upload className="h-4 w-4 mr-1" />
+        )}
+        Upload
+      </Button>
+    </>
+  )
+}
@@ -10,6 +10,11 @@ import {
   is2FAEnabled,
   is2FARequired
 } from '@/lib/2fa'
+import {
+  countRemainingRecoveryCodes,
+  recordTwoFactorAudit,
+  replaceRecoveryCodes
+} from '@/lib/2fa-verification'
 import { revalidatePath } from 'next/cache'
 
 export async function setup2FA() {
@@ -47,6 +52,13 @@ export async function setup2FA() {
       data: { twoFactorSecret: secret }
     })
 
+    await recordTwoFactorAudit({
+      actorId: session.user.id,
+      userId: session.user.id,
+      action: 'TWO_FACTOR_SETUP_STARTED',
+      localChurchId: session.user.tenantId
+    })
+
     return {
       success: true,
       data: {
@@ -90,14 +102,33 @@ export async function enable2FA(token: string) {
       return { success: false, error: 'Invalid verification code' }
     }
 
-    // Enable 2FA
-    await prisma.user.update({
-      where: { id: session.user.id },
-      data: { twoFactorEnabled: true }
+    // Enable 2FA and issue a fresh set of recovery codes
+    const userId = session.user.id
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true }
+      })
+
+      const codes = await replaceRecoveryCodes(userId, tx)
+
+      await recordTwoFactorAudit({
+        actorId: userId,
+        userId,
+        action: 'TWO_FACTOR_ENABLED',
+        localChurchId: session.user.tenantId,
+        meta: { recoveryCodesIssued: codes.length }
+      }, tx)
+
+      return codes
     })
 
     revalidatePath('/profile')
-    return { success: true, message: '2FA has been enabled successfully' }
+    return {
+      success: true,
+      message: '2FA has been enabled successfully',
+      data: { recoveryCodes }
+    }
   } catch (error) {
     console.error('Enable 2FA error:', error)
     return { success: false, error: 'Failed to enable 2FA' }
@@ -134,13 +165,25 @@ export async function disable2FA(token: string) {
       return { success: false, error: '2FA is required for your role and cannot be disabled' }
     }
 
-    // Disable 2FA
-    await prisma.user.update({
-      where: { id: session.user.id },
-      data: { 
-        twoFactorEnabled: false,
-        twoFactorSecret: null
-      }
+    // Disable 2FA and drop any unused recovery codes
+    const userId = session.user.id
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { 
+          twoFactorEnabled: false,
+          twoFactorSecret: null
+        }
+      })
+
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+
+      await recordTwoFactorAudit({
+        actorId: userId,
+        userId,
+        action: 'TWO_FACTOR_DISABLED',
+        localChurchId: session.user.tenantId
+      }, tx)
     })
 
     revalidatePath('/profile')
@@ -151,6 +194,49 @@ export async function disable2FA(token: string) {
   }
 }
 
+export async function regenerateRecoveryCodes(token: string) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { twoFactorSecret: true, twoFactorEnabled: true }
+    })
+
+    if (!user || !user.twoFactorEnabled) {
+      return { success: false, error: '2FA is not enabled' }
+    }
+
+    if (!user.twoFactorSecret || !verify2FAToken(token, user.twoFactorSecret)) {
+      return { success: false, error: 'Invalid verification code' }
+    }
+
+    const userId = session.user.id
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      const codes = await replaceRecoveryCodes(userId, tx)
+
+      await recordTwoFactorAudit({
+        actorId: userId,
+        userId,
+        action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+        localChurchId: session.user.tenantId,
+        meta: { recoveryCodesIssued: codes.length }
+      }, tx)
+
+      return codes
+    })
+
+    revalidatePath('/profile')
+    return { success: true, data: { recoveryCodes } }
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error)
+    return { success: false, error: 'Failed to regenerate recovery codes' }
+  }
+}
+
 export async function get2FAStatus() {
   try {
     const session = await auth()
@@ -172,7 +258,10 @@ export async function get2FAStatus() {
       data: {
         enabled: user.twoFactorEnabled,
         required: is2FARequired(user.role),
-        serverEnabled: is2FAEnabled()
+        serverEnabled: is2FAEnabled(),
+        recoveryCodesRemaining: user.twoFactorEnabled
+          ? await countRemainingRecoveryCodes(session.user.id)
+          : 0
       }
     }
   } catch (error) {
@@ -15,8 +15,8 @@ import {
 } from '@/components/ui/native'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
-import { Shield, CheckCircle, AlertCircle, QrCode } from 'lucide-react'
-import { setup2FA, enable2FA, disable2FA, get2FAStatus } from './actions'
+import { Shield, CheckCircle, AlertCircle, QrCode, KeyRound } from 'lucide-react'
+import { setup2FA, enable2FA, disable2FA, get2FAStatus, regenerateRecoveryCodes } from './actions'
 import { useMobileNotifications } from '@/components/mobile/notification-manager'
 
 export default function TwoFactorAuthPage() {
@@ -25,6 +25,7 @@ export default function TwoFactorAuthPage() {
     enabled: boolean
     required: boolean
     serverEnabled: boolean
+    recoveryCodesRemaining: number
   } | null>(null)
   const [setupData, setSetupData] = useState<{
     secret: string
@@ -32,6 +33,7 @@ export default function TwoFactorAuthPage() {
     isRequired: boolean
   } | null>(null)
   const [token, setToken] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
@@ -79,6 +81,7 @@ export default function TwoFactorAuthPage() {
         showSuccess('2FA Enabled', result.message || '2FA has been successfully enabled')
         setSetupData(null)
         setToken('')
+        setRecoveryCodes(result.data?.recoveryCodes ?? null)
         await loadStatus()
       } else {
         setError(result.error || 'Failed to enable 2FA')
@@ -112,6 +115,31 @@ export default function TwoFactorAuthPage() {
     }
   }
 
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!token.trim()) {
+      setError('Please enter the verification code')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await regenerateRecoveryCodes(token)
+      if (result.success && result.data) {
+        showSuccess('Recovery Codes Updated', 'Your previous recovery codes no longer work.')
+        setToken('')
+        setRecoveryCodes(result.data.recoveryCodes)
+        await loadStatus()
+      } else {
+        setError(result.error || 'Failed to regenerate recovery codes')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
   if (!status) {
     return (
       <AppLayout>
@@ -216,6 +244,41 @@ export default function TwoFactorAuthPage() {
             </Alert>
           )}
 
+          {status.required && !status.enabled && (
+            <Alert variant="destructive">
+              <Shield className="h-4 w-4" />
+              <AlertDescription>
+                Your role requires two-factor authentication. Set it up to continue using admin features.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {recoveryCodes && (
+            <div className="space-y-3 rounded-lg border p-4">
+              <div className="flex items-center gap-2 font-medium">
+                <KeyRound className="h-4 w-4" />
+                Recovery codes
+              </div>
+              <p className="text-sm text-ink-muted">
+                Store these somewhere safe. Each code signs you in once if you lose your authenticator. They will not be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {recoveryCodes.map((code) => (
+                  <code key={code} className="bg-muted px-2 py-1 rounded text-sm text-center">
+                    {code}
+                  </code>
+                ))}
+              </div>
+              <NativeButton
+                variant="secondary"
+                className="w-full"
+                onClick={() => setRecoveryCodes(null)}
+              >
+                I have saved my recovery codes
+              </NativeButton>
+            </div>
+          )}
+
           {!status.enabled && (
             <div className="space-y-4">
               {!setupData ? (
@@ -299,6 +362,36 @@ export default function TwoFactorAuthPage() {
                 </AlertDescription>
               </Alert>
 
+              <form onSubmit={handleRegenerate} className="space-y-4">
+                <p className="text-sm text-ink-muted">
+                  {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+                </p>
+                <div>
+                  <NativeInput
+                    label="Enter current verification code to generate new recovery codes"
+                    id="regenerate-token"
+                    type="text"
+                    placeholder="Enter 6-digit code"
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    maxLength={6}
+                    pattern="\d{6}"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <NativeButton 
+                  type="submit" 
+                  variant="secondary" 
+                  disabled={loading}
+                  loading={loading}
+                  className="w-full"
+                  hapticFeedback
+                >
+                  Generate New Recovery Codes
+                </NativeButton>
+              </form>
+
               {!status.required && (
                 <form onSubmit={handleDisable} className="space-y-4">
                   <div>
@@ -11,6 +11,8 @@ import { revalidatePath } from "next/cache";
 import { AppLayout } from "@/components/layout/app-layout";
 import { verifyPassword, hashPassword } from "@/lib/password";
 import { MemberStatus } from "@prisma/client";
+import { MemberCodeCard } from "@/app/checkin/member-code-card";
+import Link from "next/link";
 
 export default async function ProfilePage() {
   const user = await getCurrentUser();
@@ -141,6 +143,10 @@ export default async function ProfilePage() {
               </CardContent>
             </Card>
 
+          {user.memberships.length > 0 && (
+            <MemberCodeCard userId={user.id} />
+          )}
+
           {user.memberships.length > 0 && (
             <Card>
               <CardHeader>
@@ -173,6 +179,18 @@ export default async function ProfilePage() {
             </Card>
           )}
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications</CardTitle>
+              <CardDescription>Choose categories, channels and quiet hours</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline">
+                <Link href="/notifications/settings">Notification Settings</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Change Password</CardTitle>
@@ -1,9 +1 @@
-import { ReactNode } from "react";
-
-export default function SuperAdminLayout({
-  children,
-}: {
-  children: ReactNode;
-}) {
-  return <>{children}</>;
-}
\ No newline at end of file
+export { default } from "@/components/layout/enrollment-layout";
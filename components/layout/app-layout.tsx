@@ -9,6 +9,7 @@ import { NavigationLoader } from "../navigation/navigation-loader";
 import { InstallPrompt } from "../pwa/install-prompt";
 import { ServiceWorkerRegistration } from "../pwa/service-worker-registration";
 import { NotificationBanner } from "../notifications/notification-banner";
+import { NotificationCenter } from "../notifications/notification-center";
 import { OfflineIndicator } from "../offline/offline-indicator";
 import { UserRole } from "@prisma/client";
 import { cn } from "@/lib/utils";
@@ -81,7 +82,7 @@ export function AppLayout({ children, user, showSidebar = true }: AppLayoutProps
         <InstallPrompt />
         
         {/* Native Mobile Header */}
-        <NativeHeader user={user} />
+        <NativeHeader user={user} rightContent={user && <NotificationCenter />} />
         
         {/* Main Content with native styling */}
         <main id="main-content" className="flex-1 overflow-y-auto bg-surface pb-safe-area-bottom">
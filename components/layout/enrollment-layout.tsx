@@ -0,0 +1,25 @@
+import { ReactNode } from "react";
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/lib/rbac";
+import { needs2FAEnrollment } from "@/lib/2fa";
+import { unstable_noStore as noStore } from 'next/cache';
+
+/**
+ * Layout for the signed-in sections of the app. Roles that must use 2FA
+ * cannot reach them until they have enrolled; /profile stays open so they
+ * can. Individual pages still perform their own authentication and role checks.
+ */
+export default async function EnrollmentLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  noStore(); // Opt out of static generation for authenticated pages
+  const user = await getCurrentUser();
+
+  if (user && needs2FAEnrollment(user)) {
+    redirect("/profile/2fa");
+  }
+
+  return <>{children}</>;
+}
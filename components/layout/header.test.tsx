@@ -2,6 +2,10 @@ import { describe, it, expect, vi, beforeAll } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { Header } from './header'
 
+vi.mock('@/components/notifications/notification-center', () => ({
+  NotificationCenter: () => <button aria-label="Notifications" />
+}))
+
 // Mock window.matchMedia
 beforeAll(() => {
   Object.defineProperty(window, 'matchMedia', {
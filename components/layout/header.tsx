@@ -7,6 +7,7 @@ import { UserRole } from "@prisma/client";
 import { useTheme } from "next-themes";
 import { useEffect, useState } from "react";
 import { OfflineIndicator } from "@/components/pwa/offline-indicator";
+import { NotificationCenter } from "@/components/notifications/notification-center";
 import { cn } from "@/lib/utils";
 
 interface HeaderProps {
@@ -71,6 +72,8 @@ export function Header({ user, onMenuClick, showMenuButton = false, sidebarOpen
             </Button>
           )}
           
+          {user && <NotificationCenter />}
+
           {user && (
             <div className="hidden sm:flex items-center space-x-3">
               <span className="text-sm text-ink-muted">
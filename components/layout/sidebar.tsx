@@ -17,6 +17,7 @@ import {
   Shield,
   UserCheck,
   UserPlus,
+  History,
 } from "lucide-react";
 import { UserRole } from "@prisma/client";
 import { useState } from "react";
@@ -126,6 +127,12 @@ export function Sidebar({ user, className, onClose }: SidebarProps) {
       icon: Route,
       roles: [UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN],
     },
+    {
+      name: "Audit Log",
+      href: "/admin/audit",
+      icon: History,
+      roles: [UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN],
+    },
   ];
 
   const superAdminNavigation = [
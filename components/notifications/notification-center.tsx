@@ -1,52 +1,98 @@
 'use client'
 
-import { useState } from 'react'
-import { Bell, Settings, MessageSquare, Megaphone, Clock } from 'lucide-react'
+import { useCallback, useEffect, useState, useTransition } from 'react'
+import { Bell, Settings, MessageSquare, Megaphone, Clock, Calendar, Users, Route, CheckCheck, ArrowRightLeft } from 'lucide-react'
+import { NotificationCategory } from '@prisma/client'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import Link from 'next/link'
+import { getNotifications, markAllNotificationsRead, markNotificationRead } from '@/app/notifications/actions'
 
-interface NotificationCenterProps {
-  notifications: {
-    summary: {
-      unreadAnnouncements: number
-      unreadMessages: number
-      total: number
-    }
-    recentActivity: Array<{
-      id: string
-      type: 'announcement' | 'message'
-      title: string
-      content: string
-      author: string | null
-      createdAt: Date
-      isRead: boolean
-      threadId?: string
-    }>
-  }
+const NOTIFICATION_CENTER_PAGE_SIZE = 8
+
+export interface NotificationItemData {
+  id: string
+  category: NotificationCategory
+  title: string
+  body: string
+  url: string | null
+  readAt: Date | null
+  createdAt: Date
 }
 
-export function NotificationCenter({ notifications }: NotificationCenterProps) {
+const CATEGORY_ICONS: Record<NotificationCategory, { icon: typeof Bell; className: string }> = {
+  ANNOUNCEMENTS: { icon: Megaphone, className: 'text-orange-500' },
+  MESSAGES: { icon: MessageSquare, className: 'text-blue-500' },
+  EVENT_REMINDERS: { icon: Calendar, className: 'text-purple-500' },
+  LIFEGROUP_UPDATES: { icon: Users, className: 'text-green-500' },
+  PATHWAY_MILESTONES: { icon: Route, className: 'text-teal-500' },
+  MEMBERSHIP: { icon: ArrowRightLeft, className: 'text-indigo-500' }
+}
+
+/**
+ * Bell with the unread count for the signed-in user's inbox. Loads on mount
+ * and refreshes whenever it is opened.
+ */
+export function NotificationCenter() {
   const [isOpen, setIsOpen] = useState(false)
-  const { summary, recentActivity } = notifications
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [items, setItems] = useState<NotificationItemData[]>([])
+  const [isPending, startTransition] = useTransition()
+
+  const refresh = useCallback(() => {
+    startTransition(async () => {
+      const result = await getNotifications({ take: NOTIFICATION_CENTER_PAGE_SIZE })
+      if (result.success && result.data) {
+        setItems(result.data.items)
+        setUnreadCount(result.data.unread.total)
+      }
+    })
+  }, [])
 
-  const announcements = recentActivity.filter(item => item.type === 'announcement')
-  const messages = recentActivity.filter(item => item.type === 'message')
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open) {
+      refresh()
+    }
+  }
+
+  const handleItemClick = (item: NotificationItemData) => {
+    setIsOpen(false)
+    if (!item.readAt) {
+      setItems(items.map((entry) => entry.id === item.id ? { ...entry, readAt: new Date() } : entry))
+      setUnreadCount(Math.max(unreadCount - 1, 0))
+      void markNotificationRead(item.id)
+    }
+  }
+
+  const handleMarkAllRead = () => {
+    startTransition(async () => {
+      const result = await markAllNotificationsRead()
+      if (result.success) {
+        setItems(items.map((entry) => entry.readAt ? entry : { ...entry, readAt: new Date() }))
+        setUnreadCount(0)
+      }
+    })
+  }
 
   return (
-    <Popover open={isOpen} onOpenChange={setIsOpen}>
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
       <PopoverTrigger asChild>
-        <Button variant="ghost" size="sm" className="relative">
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
           <Bell className="h-5 w-5" />
-          {summary.total > 0 && (
-            <Badge 
-              variant="destructive" 
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
               className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
+              data-testid="notification-badge"
             >
-              {summary.total > 99 ? '99+' : summary.total}
+              {unreadCount > 99 ? '99+' : unreadCount}
             </Badge>
           )}
         </Button>
@@ -56,80 +102,42 @@ export function NotificationCenter({ notifications }: NotificationCenterProps) {
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
               <CardTitle className="text-lg">Notifications</CardTitle>
-              <Link href="/notifications/settings">
-                <Button variant="ghost" size="sm">
-                  <Settings className="h-4 w-4" />
-                </Button>
-              </Link>
+              <div className="flex items-center">
+                {unreadCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={isPending} title="Mark all as read">
+                    <CheckCheck className="h-4 w-4" />
+                  </Button>
+                )}
+                <Link href="/notifications/settings" onClick={() => setIsOpen(false)}>
+                  <Button variant="ghost" size="sm" title="Notification settings">
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                </Link>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            {summary.total === 0 ? (
+            {items.length === 0 ? (
               <div className="text-center py-6">
                 <Bell className="mx-auto h-8 w-8 text-muted-foreground" />
                 <p className="mt-2 text-sm text-muted-foreground">
-                  No new notifications
+                  No notifications yet
                 </p>
               </div>
             ) : (
-              <Tabs defaultValue="all" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="all" className="text-xs">
-                    All ({summary.total})
-                  </TabsTrigger>
-                  <TabsTrigger value="announcements" className="text-xs">
-                    <Megaphone className="h-3 w-3 mr-1" />
-                    {summary.unreadAnnouncements}
-                  </TabsTrigger>
-                  <TabsTrigger value="messages" className="text-xs">
-                    <MessageSquare className="h-3 w-3 mr-1" />
-                    {summary.unreadMessages}
-                  </TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="all" className="mt-4">
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {recentActivity.length === 0 ? (
-                      <p className="text-sm text-muted-foreground text-center py-4">
-                        No recent activity
-                      </p>
-                    ) : (
-                      recentActivity.map((item) => (
-                        <NotificationItem key={item.id} item={item} onClose={() => setIsOpen(false)} />
-                      ))
-                    )}
-                  </div>
-                </TabsContent>
-                
-                <TabsContent value="announcements" className="mt-4">
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {announcements.length === 0 ? (
-                      <p className="text-sm text-muted-foreground text-center py-4">
-                        No announcement notifications
-                      </p>
-                    ) : (
-                      announcements.map((item) => (
-                        <NotificationItem key={item.id} item={item} onClose={() => setIsOpen(false)} />
-                      ))
-                    )}
-                  </div>
-                </TabsContent>
-                
-                <TabsContent value="messages" className="mt-4">
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {messages.length === 0 ? (
-                      <p className="text-sm text-muted-foreground text-center py-4">
-                        No message notifications
-                      </p>
-                    ) : (
-                      messages.map((item) => (
-                        <NotificationItem key={item.id} item={item} onClose={() => setIsOpen(false)} />
-                      ))
-                    )}
-                  </div>
-                </TabsContent>
-              </Tabs>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {items.map((item) => (
+                  <NotificationItem key={item.id} item={item} onClick={() => handleItemClick(item)} />
+                ))}
+              </div>
             )}
+            <Link
+              href="/notifications"
+              onClick={() => setIsOpen(false)}
+              className="block mt-3 text-center text-sm text-primary hover:underline"
+            >
+              View all
+            </Link>
           </CardContent>
         </Card>
       </PopoverContent>
@@ -138,58 +146,36 @@ export function NotificationCenter({ notifications }: NotificationCenterProps) {
 }
 
 interface NotificationItemProps {
-  item: {
-    id: string
-    type: 'announcement' | 'message'
-    title: string
-    content: string
-    author: string | null
-    createdAt: Date
-    isRead: boolean
-    threadId?: string
-  }
-  onClose: () => void
+  item: NotificationItemData
+  onClick: () => void
 }
 
-function NotificationItem({ item, onClose }: NotificationItemProps) {
-  const href = item.type === 'announcement' 
-    ? '/announcements'
-    : item.threadId 
-    ? `/messages/${item.threadId}`
-    : '/messages'
-
-  const Icon = item.type === 'announcement' ? Megaphone : MessageSquare
+export function NotificationItem({ item, onClick }: NotificationItemProps) {
+  const { icon: Icon, className } = CATEGORY_ICONS[item.category]
 
   return (
-    <Link 
-      href={href}
-      onClick={onClose}
+    <Link
+      href={item.url || '/notifications'}
+      onClick={onClick}
       className={`block p-3 rounded-lg border transition-colors hover:bg-muted/50 ${
-        !item.isRead ? 'bg-blue-50 border-blue-200' : 'border-border'
+        !item.readAt ? 'bg-blue-50 border-blue-200' : 'border-border'
       }`}
     >
       <div className="flex items-start space-x-2">
-        <Icon className={`h-4 w-4 mt-0.5 ${
-          item.type === 'announcement' ? 'text-orange-500' : 'text-blue-500'
-        }`} />
+        <Icon className={`h-4 w-4 mt-0.5 ${className}`} />
         <div className="flex-1 min-w-0">
-          <p className={`text-sm font-medium ${!item.isRead ? 'font-bold' : ''}`}>
+          <p className={`text-sm font-medium ${!item.readAt ? 'font-bold' : ''}`}>
             {item.title}
           </p>
           <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-            {item.content}
+            {item.body}
           </p>
-          <div className="flex items-center justify-between mt-2">
-            <p className="text-xs text-muted-foreground">
-              By {item.author}
-            </p>
-            <div className="flex items-center text-xs text-muted-foreground">
-              <Clock className="h-3 w-3 mr-1" />
-              {new Date(item.createdAt).toLocaleDateString()}
-            </div>
+          <div className="flex items-center justify-end mt-2 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3 mr-1" />
+            {new Date(item.createdAt).toLocaleDateString()}
           </div>
         </div>
       </div>
     </Link>
   )
-}
\ No newline at end of file
+}
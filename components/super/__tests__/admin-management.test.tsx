@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
-import { UserRole } from '@prisma/client'
+import { InvitationStatus, UserRole } from '@prisma/client'
 import { AdminManagement } from '../admin-management'
 
 // Mock dependencies
@@ -9,12 +9,12 @@ vi.mock('@/components/ui/use-toast', () => ({
   useToast: () => ({ toast: mockToast })
 }))
 
-// Mock credentials display component
-vi.mock('../credentials-display', () => ({
-  CredentialsDisplay: ({ credentials, open, onOpenChange }: any) => 
+// Mock invitation link display component
+vi.mock('../invitation-link-display', () => ({
+  InvitationLinkDisplay: ({ invitation, open, onOpenChange }: any) => 
     open ? (
-      <div data-testid="credentials-modal">
-        <p>Credentials for {credentials.email}</p>
+      <div data-testid="invitation-modal">
+        <p>Invitation for {invitation.email}</p>
         <button onClick={() => onOpenChange(false)}>Close</button>
       </div>
     ) : null
@@ -24,6 +24,8 @@ vi.mock('../credentials-display', () => ({
 vi.mock('../../../app/(super)/super/local-churches/[id]/admins/actions', () => ({
   inviteAdmin: vi.fn().mockResolvedValue({ success: false, error: 'Mocked error' }),
   removeAdmin: vi.fn().mockResolvedValue({}),
+  resendAdminInvitation: vi.fn().mockResolvedValue({ success: false, error: 'Mocked error' }),
+  revokeAdminInvitation: vi.fn().mockResolvedValue(undefined),
 }))
 
 const mockLocalChurch = {
@@ -70,7 +72,7 @@ describe('AdminManagement', () => {
     expect(screen.getByRole('textbox', { name: /email address/i })).toBeInTheDocument()
     expect(screen.getByRole('combobox', { name: /role/i })).toBeInTheDocument()
     expect(screen.getByRole('textbox', { name: /name/i })).toBeInTheDocument()
-    expect(screen.getByRole('button', { name: /create admin account/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /invite admin/i })).toBeInTheDocument()
   })
 
   it('should handle form input changes', () => {
@@ -93,7 +95,7 @@ describe('AdminManagement', () => {
     render(<AdminManagement localChurch={mockLocalChurch} />)
     
     const emailInput = screen.getByRole('textbox', { name: /email address/i })
-    const submitButton = screen.getByRole('button', { name: /create admin account/i })
+    const submitButton = screen.getByRole('button', { name: /invite admin/i })
     
     fireEvent.change(emailInput, { target: { value: 'test@example.com' } })
     
@@ -108,7 +110,7 @@ describe('AdminManagement', () => {
     expect(screen.getByRole('textbox', { name: /email address/i })).toBeInTheDocument()
     expect(screen.getByRole('combobox', { name: /role/i })).toBeInTheDocument()
     expect(screen.getByRole('textbox', { name: /name/i })).toBeInTheDocument()
-    expect(screen.getByRole('button', { name: /create admin account/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /invite admin/i })).toBeInTheDocument()
   })
 
   it('should validate form fields', () => {
@@ -132,8 +134,43 @@ describe('AdminManagement', () => {
   it('should display helpful instructions', () => {
     render(<AdminManagement localChurch={mockLocalChurch} />)
     
-    expect(screen.getByText(/A temporary password will be generated/)).toBeInTheDocument()
-    expect(screen.getByText(/They must change it on first login/)).toBeInTheDocument()
+    expect(screen.getByText(/will receive an invitation link/)).toBeInTheDocument()
+    expect(screen.getByText(/It expires in 7 days/)).toBeInTheDocument()
+  })
+
+  it('should show invitation status with resend and revoke for pending admins', () => {
+    const pendingChurch = {
+      ...mockLocalChurch,
+      memberships: [{
+        ...mockLocalChurch.memberships[0],
+        user: {
+          ...mockLocalChurch.memberships[0].user,
+          invitations: [{ status: InvitationStatus.PENDING, expiresAt: new Date(Date.now() + 86_400_000) }]
+        }
+      }]
+    }
+    render(<AdminManagement localChurch={pendingChurch} />)
+    
+    expect(screen.getByText('Invitation pending')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /resend invitation to john doe/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /revoke invitation for john doe/i })).toBeInTheDocument()
+  })
+
+  it('should hide invitation actions once accepted', () => {
+    const acceptedChurch = {
+      ...mockLocalChurch,
+      memberships: [{
+        ...mockLocalChurch.memberships[0],
+        user: {
+          ...mockLocalChurch.memberships[0].user,
+          invitations: [{ status: InvitationStatus.ACCEPTED, expiresAt: new Date() }]
+        }
+      }]
+    }
+    render(<AdminManagement localChurch={acceptedChurch} />)
+    
+    expect(screen.getByText('Invitation accepted')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /resend invitation/i })).not.toBeInTheDocument()
   })
 
   it('should have proper accessibility attributes', () => {
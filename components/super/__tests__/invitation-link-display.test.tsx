@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { InvitationLinkDisplay } from '../invitation-link-display'
+
+// Mock useToast
+const mockToast = vi.fn()
+vi.mock('@/components/ui/use-toast', () => ({
+  useToast: () => ({ toast: mockToast })
+}))
+
+// Mock clipboard API
+const mockWriteText = vi.fn()
+Object.assign(navigator, {
+  clipboard: {
+    writeText: mockWriteText,
+  },
+})
+
+const inviteUrl = 'https://drouple.app/auth/accept-invitation?token=invite1.nonce.sig'
+
+const defaultProps = {
+  invitation: {
+    email: 'test@example.com',
+    emailSent: false,
+    inviteUrl,
+    expiresAt: new Date('2026-11-01T00:00:00Z'),
+  },
+  open: true,
+  onOpenChange: vi.fn(),
+}
+
+describe('InvitationLinkDisplay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockWriteText.mockResolvedValue(undefined)
+  })
+
+  it('should show the link when the email could not be sent', () => {
+    render(<InvitationLinkDisplay {...defaultProps} />)
+    
+    expect(screen.getByText('Invitation Created')).toBeInTheDocument()
+    expect(screen.getByText(/could not be sent/)).toBeInTheDocument()
+    expect(screen.getByDisplayValue(inviteUrl)).toBeInTheDocument()
+  })
+
+  it('should not show the link when the email was sent', () => {
+    render(<InvitationLinkDisplay {...defaultProps} invitation={{ ...defaultProps.invitation, emailSent: true, inviteUrl: undefined }} />)
+    
+    expect(screen.getByText(/An invitation was emailed to test@example.com/)).toBeInTheDocument()
+    expect(screen.queryByDisplayValue(inviteUrl)).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Copy invitation link' })).not.toBeInTheDocument()
+  })
+
+  it('should copy the link to clipboard', async () => {
+    render(<InvitationLinkDisplay {...defaultProps} />)
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Copy invitation link' }))
+    
+    await waitFor(() => {
+      expect(mockWriteText).toHaveBeenCalledWith(inviteUrl)
+      expect(mockToast).toHaveBeenCalledWith({
+        title: 'Copied to clipboard',
+        description: 'Invitation link copied successfully',
+      })
+    })
+  })
+
+  it('should handle copy failures gracefully', async () => {
+    mockWriteText.mockRejectedValue(new Error('Copy failed'))
+    
+    render(<InvitationLinkDisplay {...defaultProps} />)
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Copy invitation link' }))
+    
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith({
+        title: 'Copy failed',
+        description: 'Unable to copy to clipboard. Please copy manually.',
+        variant: 'destructive',
+      })
+    })
+  })
+
+  it('should call onOpenChange when Done button is clicked', () => {
+    const mockOnOpenChange = vi.fn()
+    render(<InvitationLinkDisplay {...defaultProps} onOpenChange={mockOnOpenChange} />)
+    
+    fireEvent.click(screen.getByRole('button', { name: /done/i }))
+    
+    expect(mockOnOpenChange).toHaveBeenCalledWith(false)
+  })
+
+  it('should have proper accessibility attributes', () => {
+    render(<InvitationLinkDisplay {...defaultProps} />)
+    
+    const dialog = screen.getByRole('dialog')
+    expect(dialog).toBeInTheDocument()
+    
+    // Check that dialog has an aria-describedby attribute (auto-generated by Radix)
+    expect(dialog).toHaveAttribute('aria-describedby')
+    const describedBy = dialog.getAttribute('aria-describedby')
+    expect(describedBy).toMatch(/^radix-/) // Radix auto-generates IDs starting with "radix-"
+  })
+})
@@ -6,10 +6,17 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/components/ui/use-toast'
-import { UserPlus, Trash2, Shield, AlertCircle } from 'lucide-react'
-import { CredentialsDisplay } from './credentials-display'
-import { inviteAdmin, removeAdmin } from '../../app/(super)/super/local-churches/[id]/admins/actions'
-import { UserRole } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { UserPlus, Trash2, Shield, AlertCircle, Send, MailX } from 'lucide-react'
+import { InvitationLinkDisplay } from './invitation-link-display'
+import {
+  inviteAdmin,
+  removeAdmin,
+  resendAdminInvitation,
+  revokeAdminInvitation,
+  type AdminInvitationResult
+} from '../../app/(super)/super/local-churches/[id]/admins/actions'
+import { InvitationStatus, UserRole } from '@prisma/client'
 
 interface AdminManagementProps {
   localChurch: {
@@ -22,14 +29,25 @@ interface AdminManagementProps {
         id: string
         name: string | null
         email: string
+        invitations?: Array<{
+          status: InvitationStatus
+          expiresAt: Date
+        }>
       }
     }>
   }
 }
 
+function getInvitationLabel(invitation: { status: InvitationStatus; expiresAt: Date }) {
+  if (invitation.status === InvitationStatus.PENDING) {
+    return new Date(invitation.expiresAt) <= new Date() ? 'Invitation expired' : 'Invitation pending'
+  }
+  return invitation.status === InvitationStatus.ACCEPTED ? 'Invitation accepted' : 'Invitation revoked'
+}
+
 export function AdminManagement({ localChurch }: AdminManagementProps) {
-  const [credentials, setCredentials] = useState<{ email: string; password: string } | null>(null)
-  const [showCredentials, setShowCredentials] = useState(false)
+  const [invitation, setInvitation] = useState<AdminInvitationResult | null>(null)
+  const [showInvitation, setShowInvitation] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [formData, setFormData] = useState<{
@@ -50,9 +68,11 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
     try {
       const result = await inviteAdmin(localChurch.id, formData)
       
-      if (result.success && result.credentials) {
-        setCredentials(result.credentials)
-        setShowCredentials(true)
+      if (result.success) {
+        if (result.invitation) {
+          setInvitation(result.invitation)
+          setShowInvitation(true)
+        }
         
         // Reset form
         setFormData({
@@ -62,8 +82,10 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
         })
         
         toast({
-          title: 'Admin account created',
-          description: `Successfully created admin account for ${result.credentials.email}`,
+          title: result.invitation ? 'Admin invited' : 'Admin access granted',
+          description: result.invitation
+            ? `Invitation created for ${result.invitation.email}`
+            : `${formData.get('email')} already has an account and can sign in now`,
         })
       } else if (result.error) {
         setError(result.error)
@@ -86,6 +108,48 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
     }
   }
 
+  const handleResendInvitation = async (formData: FormData) => {
+    try {
+      const result = await resendAdminInvitation(formData)
+      if (result.success && result.invitation) {
+        setInvitation(result.invitation)
+        setShowInvitation(true)
+      } else {
+        toast({
+          title: 'Failed to resend invitation',
+          description: result.error,
+          variant: 'destructive',
+        })
+      }
+    } catch {
+      toast({
+        title: 'Failed to resend invitation',
+        description: 'Please try again',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleRevokeInvitation = async (formData: FormData) => {
+    if (!confirm('Revoke this invitation? The link will stop working.')) {
+      return
+    }
+
+    try {
+      await revokeAdminInvitation(formData)
+      toast({
+        title: 'Invitation revoked',
+        description: 'The invitation link no longer works',
+      })
+    } catch {
+      toast({
+        title: 'Failed to revoke invitation',
+        description: 'Please try again',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const handleRemoveAdmin = async (formData: FormData) => {
     if (!confirm('Are you sure you want to remove this administrator?')) {
       return
@@ -121,30 +185,70 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
               </div>
             ) : (
               <div className="space-y-3" data-testid="local-church-admins">
-                {localChurch.memberships.map((membership) => (
-                  <div
-                    key={membership.id}
-                    className="flex items-center justify-between p-3 border rounded-lg"
-                  >
-                    <div>
-                      <p className="font-medium">{membership.user.name || membership.user.email}</p>
-                      <p className="text-sm text-gray-600">{membership.user.email}</p>
-                      <p className="text-xs text-gray-500">Role: {membership.role}</p>
+                {localChurch.memberships.map((membership) => {
+                  const latestInvitation = membership.user.invitations?.[0]
+                  const awaitingAcceptance = !!latestInvitation && latestInvitation.status !== InvitationStatus.ACCEPTED
+
+                  return (
+                    <div
+                      key={membership.id}
+                      className="flex items-center justify-between p-3 border rounded-lg"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {membership.user.name || membership.user.email}
+                          {latestInvitation && (
+                            <Badge className="ml-2" variant="secondary">{getInvitationLabel(latestInvitation)}</Badge>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-600">{membership.user.email}</p>
+                        <p className="text-xs text-gray-500">Role: {membership.role}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        {awaitingAcceptance && (
+                          <form action={handleResendInvitation}>
+                            <input type="hidden" name="membershipId" value={membership.id} />
+                            <Button
+                              type="submit"
+                              variant="outline"
+                              size="sm"
+                              className="focus-ring"
+                              aria-label={`Resend invitation to ${membership.user.name || membership.user.email}`}
+                            >
+                              <Send className="h-4 w-4" />
+                            </Button>
+                          </form>
+                        )}
+                        {latestInvitation?.status === InvitationStatus.PENDING && (
+                          <form action={handleRevokeInvitation}>
+                            <input type="hidden" name="membershipId" value={membership.id} />
+                            <Button
+                              type="submit"
+                              variant="outline"
+                              size="sm"
+                              className="focus-ring"
+                              aria-label={`Revoke invitation for ${membership.user.name || membership.user.email}`}
+                            >
+                              <MailX className="h-4 w-4" />
+                            </Button>
+                          </form>
+                        )}
+                        <form action={handleRemoveAdmin}>
+                          <input type="hidden" name="membershipId" value={membership.id} />
+                          <Button
+                            type="submit"
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 focus-ring"
+                            aria-label={`Remove ${membership.user.name || membership.user.email}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </div>
                     </div>
-                    <form action={handleRemoveAdmin}>
-                      <input type="hidden" name="membershipId" value={membership.id} />
-                      <Button
-                        type="submit"
-                        variant="outline"
-                        size="sm"
-                        className="text-red-600 hover:text-red-700 focus-ring"
-                        aria-label={`Remove ${membership.user.name || membership.user.email}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </form>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             )}
           </CardContent>
@@ -154,7 +258,7 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
           <CardHeader>
             <CardTitle>Add New Administrator</CardTitle>
             <p className="text-sm text-gray-600">
-              A temporary password will be generated for the new administrator. They must change it on first login.
+              The new administrator will receive an invitation link to choose their own password. It expires in 7 days.
             </p>
           </CardHeader>
           <CardContent>
@@ -214,7 +318,7 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
               <div className="flex gap-4">
                 <Button type="submit" disabled={isSubmitting}>
                   <UserPlus className="mr-2 h-4 w-4" />
-                  {isSubmitting ? 'Creating Account...' : 'Create Admin Account'}
+                  {isSubmitting ? 'Sending Invitation...' : 'Invite Admin'}
                 </Button>
               </div>
             </form>
@@ -222,14 +326,14 @@ export function AdminManagement({ localChurch }: AdminManagementProps) {
         </Card>
       </div>
 
-      {credentials && (
-        <CredentialsDisplay
-          credentials={credentials}
-          open={showCredentials}
+      {invitation && (
+        <InvitationLinkDisplay
+          invitation={invitation}
+          open={showInvitation}
           onOpenChange={(open) => {
-            setShowCredentials(open)
+            setShowInvitation(open)
             if (!open) {
-              setCredentials(null)
+              setInvitation(null)
             }
           }}
         />
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/use-toast'
+import { Copy, CheckCircle, Mail } from 'lucide-react'
+
+interface InvitationLinkDisplayProps {
+  invitation: {
+    email: string
+    emailSent: boolean
+    inviteUrl?: string
+    expiresAt: Date
+  }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function InvitationLinkDisplay({ invitation, open, onOpenChange }: InvitationLinkDisplayProps) {
+  const [copied, setCopied] = useState(false)
+  const { toast } = useToast()
+  const expiresOn = new Date(invitation.expiresAt).toLocaleDateString()
+
+  const copyLink = async () => {
+    if (!invitation.inviteUrl) return
+
+    try {
+      await navigator.clipboard.writeText(invitation.inviteUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+
+      toast({
+        title: 'Copied to clipboard',
+        description: 'Invitation link copied successfully',
+      })
+    } catch {
+      toast({
+        title: 'Copy failed',
+        description: 'Unable to copy to clipboard. Please copy manually.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-green-600 flex items-center gap-2">
+            <CheckCircle className="h-5 w-5" />
+            Invitation Created
+          </DialogTitle>
+          <DialogDescription>
+            {invitation.emailSent
+              ? `An invitation was emailed to ${invitation.email}. They will choose their own password when they accept it.`
+              : `The invitation email to ${invitation.email} could not be sent. Share the link below with them directly.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {invitation.emailSent ? (
+            <div className="flex items-center gap-3 rounded-lg border p-4">
+              <Mail className="h-5 w-5 text-muted-foreground" />
+              <p className="text-sm">
+                The link expires on {expiresOn}. You can resend or revoke it from the admin list.
+              </p>
+            </div>
+          ) : invitation.inviteUrl && (
+            <>
+              <div className="bg-warning/10 border border-warning/30 rounded-lg p-4">
+                <p className="text-sm text-warning-foreground font-medium mb-2">
+                  Share this link privately
+                </p>
+                <p className="text-xs text-warning-foreground/80">
+                  Anyone with the link can set the password for this account. It expires on {expiresOn}.
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="invitation-link">Invitation Link</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="invitation-link"
+                    value={invitation.inviteUrl}
+                    readOnly
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={copyLink}
+                    className="px-3"
+                    aria-label="Copy invitation link"
+                  >
+                    {copied ? (
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex pt-4 border-t">
+            <Button onClick={() => onOpenChange(false)} className="flex-1">
+              Done
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
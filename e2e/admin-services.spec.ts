@@ -139,32 +139,38 @@ test.describe('Admin Services', () => {
     await expect(page.getByRole('dialog')).toBeVisible()
   })
 
-  test('prevents duplicate services for same date @admin-services', async ({ page, churchAdminAuth }) => {
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 3)
-    const dateStr = format(tomorrow, 'yyyy-MM-dd')
+  test('allows several services on the same date @admin-services', async ({ page, churchAdminAuth }) => {
+    const day = new Date()
+    day.setDate(day.getDate() + 3)
+    const dateStr = format(day, 'yyyy-MM-dd')
     
     await page.getByRole('button', { name: 'Create Service' }).click()
     await page.getByLabel('Date').fill(dateStr)
-    await page.getByLabel('Time').fill('10:00')
+    await page.getByLabel('Time').fill('08:00')
     await page.getByRole('button', { name: 'Create' }).last().click()
+    await expect(page.getByText('Service created successfully')).toBeVisible()
     
-    const firstResult = await Promise.race([
-      page.waitForSelector('text=Service created successfully', { timeout: 5000 }).then(() => 'created'),
-      page.waitForSelector('text=Service already exists for this date', { timeout: 5000 }).then(() => 'exists')
-    ])
+    await page.waitForTimeout(1000)
     
-    if (firstResult === 'created') {
-      await page.waitForTimeout(1000)
-      
-      await page.getByRole('button', { name: 'Create Service' }).click()
-      await page.getByLabel('Date').fill(dateStr)
-      await page.getByLabel('Time').fill('14:00')
-      await page.getByRole('button', { name: 'Create' }).last().click()
-      
-      await expect(page.getByText('Service already exists for this date')).toBeVisible()
-    } else {
-      expect(firstResult).toBe('exists')
-    }
+    await page.getByRole('button', { name: 'Create Service' }).click()
+    await page.getByLabel('Date').fill(dateStr)
+    await page.getByLabel('Time').fill('14:00')
+    await page.getByRole('button', { name: 'Create' }).last().click()
+    
+    await expect(page.getByText('Service created successfully').last()).toBeVisible()
+    await expect(page.getByText('Service already exists for this date')).not.toBeVisible()
+  })
+
+  test('admin can create a recurring schedule @admin-services', async ({ page, churchAdminAuth }) => {
+    await page.getByRole('button', { name: 'New Schedule' }).click()
+    
+    await expect(page.getByRole('dialog')).toBeVisible()
+    await page.getByLabel('Name').fill('Sunday Celebration')
+    await page.getByLabel('Sunday').check()
+    await page.getByLabel('Start time').fill('09:00')
+    await page.getByRole('button', { name: 'Save Schedule' }).click()
+    
+    await expect(page.getByText('Schedule saved')).toBeVisible()
+    await expect(page.getByText('Sunday Celebration').first()).toBeVisible()
   })
-})
\ No newline at end of file
+})
@@ -2,6 +2,7 @@
 
 import { useCallback, useState, useEffect } from 'react'
 import { useHaptic } from './use-haptic'
+import { confirmEventPayment, startEventPayment } from '@/app/events/actions'
 
 // Payment Request API types
 interface PaymentMethodData {
@@ -305,6 +306,47 @@ export function usePaymentRequest() {
   }, [triggerHaptic])
 
   // Helper for common donation payment
+  /**
+   * Pays for the member's seat at an event through the configured payment
+   * provider. Uses the browser payment sheet when available and otherwise
+   * sends the member to the provider's checkout page.
+   */
+  const payForEvent = useCallback(async (eventId: string): Promise<PaymentResult & { redirected?: boolean }> => {
+    const checkout = await startEventPayment(eventId)
+    if (!checkout.success || !checkout.data) {
+      return { success: false, error: checkout.error || 'Failed to start payment' }
+    }
+
+    if (!isSupported) {
+      window.location.assign(checkout.data.checkoutUrl)
+      return { success: true, redirected: true }
+    }
+
+    const result = await requestPayment({
+      total: {
+        label: `${checkout.data.eventName} Registration`,
+        amount: checkout.data.amount,
+        currency: checkout.data.currency
+      },
+      requestPayerEmail: true,
+      requestPayerName: true
+    })
+
+    if (!result.success || !result.response) {
+      return result
+    }
+
+    const confirmation = await confirmEventPayment(checkout.data.paymentId, {
+      methodName: result.response.methodName,
+      details: result.response.details ?? {}
+    })
+    await completePayment(result.response, confirmation.success ? 'success' : 'fail')
+
+    return confirmation.success
+      ? result
+      : { success: false, error: confirmation.error || 'Payment failed' }
+  }, [isSupported, requestPayment, completePayment])
+
   const requestDonation = useCallback(async (
     amount: number,
     description: string = 'Donation'
@@ -357,6 +399,7 @@ export function usePaymentRequest() {
     completePayment,
     retryPayment,
     requestDonation,
-    requestEventPayment
+    requestEventPayment,
+    payForEvent
   }
 }
\ No newline at end of file
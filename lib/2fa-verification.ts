@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTOTPFormat,
+  verify2FAToken
+} from './2fa'
+
+/**
+ * Server-side 2FA checks that need the database: recovery code storage and
+ * the sign-in challenge shared by the credentials provider and /api/v1 login.
+ */
+
+export type SecondFactorMethod = 'totp' | 'recovery_code'
+
+export type TwoFactorAuditAction =
+  | 'TWO_FACTOR_SETUP_STARTED'
+  | 'TWO_FACTOR_ENABLED'
+  | 'TWO_FACTOR_DISABLED'
+  | 'TWO_FACTOR_RECOVERY_CODES_REGENERATED'
+  | 'TWO_FACTOR_CHALLENGE_PASSED'
+  | 'TWO_FACTOR_CHALLENGE_FAILED'
+  | 'TWO_FACTOR_RECOVERY_CODE_USED'
+  | 'TWO_FACTOR_RESET'
+
+type DbClient = Prisma.TransactionClient | typeof prisma
+
+/**
+ * Verifies a sign-in code against the user's TOTP secret, falling back to
+ * their unused recovery codes. A matching recovery code is consumed atomically
+ * so the same code cannot pass two concurrent sign-ins.
+ */
+export async function verifySecondFactor(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<SecondFactorMethod | null> {
+  if (isTOTPFormat(code)) {
+    return user.twoFactorSecret && verify2FAToken(code, user.twoFactorSecret) ? 'totp' : null
+  }
+
+  const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId: user.id,
+      codeHash: hashRecoveryCode(code),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  })
+
+  return consumed.count === 1 ? 'recovery_code' : null
+}
+
+/**
+ * Replaces every recovery code for the user and returns the new plaintext
+ * codes. They are never stored or retrievable again.
+ */
+export async function replaceRecoveryCodes(userId: string, db: DbClient = prisma): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+
+  await db.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+  await db.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) }))
+  })
+
+  return codes
+}
+
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+  return prisma.twoFactorRecoveryCode.count({
+    where: { userId, usedAt: null }
+  })
+}
+
+export async function recordTwoFactorAudit(
+  {
+    actorId,
+    userId,
+    action,
+    localChurchId,
+    meta
+  }: {
+    actorId: string
+    userId: string
+    action: TwoFactorAuditAction
+    localChurchId?: string | null
+    meta?: Prisma.InputJsonValue
+  },
+  db: DbClient = prisma
+) {
+  await db.auditLog.create({
+    data: {
+      actorId,
+      action,
+      entity: 'User',
+      entityId: userId,
+      localChurchId: localChurchId ?? null,
+      meta
+    }
+  })
+}
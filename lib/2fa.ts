@@ -1,5 +1,6 @@
 import { authenticator } from 'otplib'
 import QRCode from 'qrcode'
+import { createHash, randomBytes } from 'crypto'
 
 /**
  * Two-Factor Authentication utilities using TOTP
@@ -41,4 +42,40 @@ export function is2FARequired(userRole: string): boolean {
 
 export function is2FAEnabled(): boolean {
   return process.env.ENABLE_2FA === 'true'
-}
\ No newline at end of file
+}
+
+/**
+ * Recovery codes are shown to the user once at enrollment and stored only as
+ * SHA-256 hashes. They carry ~50 bits of entropy, so a fast hash is adequate
+ * and lets sign-in look a code up directly instead of comparing every row.
+ */
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const RECOVERY_CODE_COUNT = 10
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = randomBytes(10)
+    const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase()
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+export function isTOTPFormat(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ''))
+}
+
+/**
+ * Roles flagged by is2FARequired must enroll before using the app once the
+ * server has 2FA switched on.
+ */
+export function needs2FAEnrollment(user: { role: string; twoFactorEnabled: boolean }): boolean {
+  return is2FAEnabled() && is2FARequired(user.role) && !user.twoFactorEnabled
+}
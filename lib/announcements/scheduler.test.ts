@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AnnouncementPriority, AnnouncementScope } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    announcement: {
+      findMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/push/notifications', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/push/notifications')>()),
+  notifyAnnouncementPublished: vi.fn()
+}))
+
+vi.mock('@/lib/socket-server/bus', () => ({
+  publishRealtimeEvent: vi.fn()
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { notifyAnnouncementPublished } from '@/lib/push/notifications'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+import { announceIfLive, processScheduledAnnouncements } from './scheduler'
+
+const db = prisma as any
+
+const now = new Date('2026-11-01T00:00:00Z')
+
+function announcement(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'a1',
+    title: 'Building fund update',
+    content: 'Thank you for giving',
+    authorId: 'admin1',
+    localChurchId: 'church1',
+    scope: AnnouncementScope.MEMBERS,
+    priority: AnnouncementPriority.URGENT,
+    isActive: true,
+    publishedAt: new Date('2026-10-31T23:55:00Z'),
+    expiresAt: null,
+    notifiedAt: null,
+    archivedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  }
+}
+
+describe('announceIfLive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.announcement.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should claim and announce a live announcement once', async () => {
+    expect(await announceIfLive(announcement(), now)).toBe(true)
+    expect(db.announcement.updateMany).toHaveBeenCalledWith({
+      where: { id: 'a1', notifiedAt: null },
+      data: { notifiedAt: now }
+    })
+    expect(notifyAnnouncementPublished).toHaveBeenCalledWith(expect.objectContaining({ id: 'a1' }))
+    expect(publishRealtimeEvent).toHaveBeenCalledWith('announcement.published', 'church1', expect.objectContaining({ id: 'a1' }))
+
+    db.announcement.updateMany.mockResolvedValue({ count: 0 })
+    expect(await announceIfLive(announcement(), now)).toBe(false)
+    expect(notifyAnnouncementPublished).toHaveBeenCalledTimes(1)
+  })
+
+  it('should leave scheduled, drafted and already announced announcements alone', async () => {
+    expect(await announceIfLive(announcement({ publishedAt: new Date('2026-11-02T00:00:00Z') }), now)).toBe(false)
+    expect(await announceIfLive(announcement({ publishedAt: null }), now)).toBe(false)
+    expect(await announceIfLive(announcement({ notifiedAt: now }), now)).toBe(false)
+    expect(db.announcement.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('processScheduledAnnouncements', () => {
+  it('should announce due announcements and archive expired ones', async () => {
+    vi.clearAllMocks()
+    db.announcement.findMany.mockResolvedValue([announcement(), announcement({ id: 'a2' })])
+    db.announcement.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 3 })
+
+    const result = await processScheduledAnnouncements({ now })
+
+    expect(result).toEqual({ published: 1, archived: 3 })
+    expect(db.announcement.findMany.mock.calls[0][0].where).toMatchObject({ isActive: true, notifiedAt: null, publishedAt: { lte: now } })
+    expect(db.announcement.updateMany).toHaveBeenLastCalledWith({
+      where: { isActive: true, archivedAt: null, expiresAt: { lt: now } },
+      data: { isActive: false, archivedAt: now }
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import type { Announcement } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isAnnouncementLive, notifyAnnouncementPublished } from '@/lib/push/notifications'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+
+/**
+ * Announcement lifecycle. An announcement saved with a future publishedAt is
+ * announced (inbox, push, email) by the scheduler job once that time passes;
+ * notifiedAt is claimed first, so each announcement goes out exactly once
+ * whether it went live on save or on schedule. Once expiresAt passes, the job
+ * archives it: it is deactivated and stamped with archivedAt.
+ */
+
+export const ANNOUNCEMENT_SCHEDULER_BATCH_SIZE = 100
+
+/**
+ * Announces the announcement if it is live and has not been announced yet.
+ * Returns whether this call sent it.
+ */
+export async function announceIfLive(announcement: Announcement, now: Date = new Date()): Promise<boolean> {
+  if (announcement.notifiedAt || !isAnnouncementLive(announcement, now)) {
+    return false
+  }
+
+  const claimed = await prisma.announcement.updateMany({
+    where: { id: announcement.id, notifiedAt: null },
+    data: { notifiedAt: now }
+  })
+
+  if (claimed.count !== 1) {
+    return false
+  }
+
+  await notifyAnnouncementPublished(announcement)
+  publishRealtimeEvent('announcement.published', announcement.localChurchId, {
+    id: announcement.id,
+    title: announcement.title,
+    scope: announcement.scope,
+    priority: announcement.priority,
+    publishedAt: (announcement.publishedAt ?? now).toISOString()
+  })
+
+  return true
+}
+
+/**
+ * Announces scheduled announcements that are now due, oldest first, then
+ * archives the ones that have expired.
+ */
+export async function processScheduledAnnouncements({
+  limit = ANNOUNCEMENT_SCHEDULER_BATCH_SIZE,
+  now = new Date()
+}: { limit?: number; now?: Date } = {}) {
+  const due = await prisma.announcement.findMany({
+    where: {
+      isActive: true,
+      notifiedAt: null,
+      publishedAt: { lte: now },
+      OR: [{ expiresAt: null }, { expiresAt: { gte: now } }]
+    },
+    orderBy: { publishedAt: 'asc' },
+    take: limit
+  })
+
+  let published = 0
+  for (const announcement of due) {
+    if (await announceIfLive(announcement, now)) {
+      published++
+    }
+  }
+
+  const archived = await prisma.announcement.updateMany({
+    where: { isActive: true, archivedAt: null, expiresAt: { lt: now } },
+    data: { isActive: false, archivedAt: now }
+  })
+
+  return { published, archived: archived.count }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { AnnouncementAudienceType, AnnouncementScope, UserRole } from '@prisma/client'
+import {
+  announcementAudienceSchema,
+  buildAnnouncementRecipientWhere,
+  buildTargetedAnnouncementWhere,
+  normalizeAudienceSegments
+} from './targeting'
+
+describe('announcementAudienceSchema', () => {
+  it('should require a target for every segment type except first-timers', () => {
+    expect(announcementAudienceSchema.safeParse({ type: AnnouncementAudienceType.LIFEGROUP }).success).toBe(false)
+    expect(announcementAudienceSchema.safeParse({ type: AnnouncementAudienceType.EVENT, pathwayId: 'p1' }).success).toBe(false)
+    expect(announcementAudienceSchema.safeParse({ type: AnnouncementAudienceType.MEMBER, userId: 'u1' }).success).toBe(true)
+    expect(announcementAudienceSchema.safeParse({ type: AnnouncementAudienceType.FIRST_TIMERS }).success).toBe(true)
+  })
+})
+
+describe('normalizeAudienceSegments', () => {
+  it('should drop unrelated targets and duplicate segments', () => {
+    expect(normalizeAudienceSegments([
+      { type: AnnouncementAudienceType.LIFEGROUP, lifeGroupId: 'lg1', userId: 'u1' },
+      { type: AnnouncementAudienceType.LIFEGROUP, lifeGroupId: 'lg1' },
+      { type: AnnouncementAudienceType.FIRST_TIMERS, eventId: 'e1' },
+      { type: AnnouncementAudienceType.FIRST_TIMERS }
+    ])).toEqual([
+      { type: AnnouncementAudienceType.LIFEGROUP, lifeGroupId: 'lg1' },
+      { type: AnnouncementAudienceType.FIRST_TIMERS }
+    ])
+  })
+})
+
+describe('buildAnnouncementRecipientWhere', () => {
+  it('should reach every active member when there are no roles or segments', () => {
+    expect(buildAnnouncementRecipientWhere({
+      localChurchId: 'church1',
+      scope: AnnouncementScope.MEMBERS,
+      audiences: []
+    })).toEqual({ localChurchId: 'church1', leftAt: null })
+  })
+
+  it('should require the scope role and at least one segment', () => {
+    const where = buildAnnouncementRecipientWhere({
+      localChurchId: 'church1',
+      scope: AnnouncementScope.ADMINS,
+      audiences: [
+        { type: AnnouncementAudienceType.PATHWAY, pathwayId: 'p1' },
+        { type: AnnouncementAudienceType.MEMBER, userId: 'u1' }
+      ],
+      excludeUserId: 'author1'
+    })
+
+    expect(where).toMatchObject({ localChurchId: 'church1', leftAt: null, userId: { not: 'author1' } })
+    expect(where.user).toEqual({
+      AND: [
+        { role: { in: [UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN] } },
+        {
+          OR: [
+            { pathwayEnrollments: { some: { pathwayId: 'p1', status: 'ENROLLED' } } },
+            { id: 'u1' }
+          ]
+        }
+      ]
+    })
+  })
+})
+
+describe('buildTargetedAnnouncementWhere', () => {
+  it('should show untargeted announcements and the ones the user is in a segment of', () => {
+    const where = buildTargetedAnnouncementWhere({ userId: 'u1', churchIds: ['church1'] })
+    const audienceCondition = (where.AND as any[])[2]
+
+    expect(audienceCondition.OR[0]).toEqual({ audiences: { none: {} } })
+    expect(audienceCondition.OR[1].audiences.some.OR).toContainEqual({ type: AnnouncementAudienceType.MEMBER, userId: 'u1' })
+  })
+})
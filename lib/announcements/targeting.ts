@@ -0,0 +1,185 @@
+import {
+  AnnouncementAudienceType,
+  AnnouncementScope,
+  EnrollmentStatus,
+  MembershipStatus,
+  Prisma,
+  RsvpStatus,
+  UserRole
+} from '@prisma/client'
+import { z } from 'zod'
+
+/**
+ * Who an announcement is for. A scope without roles reaches every member of
+ * the church; the others need the member's role to be in the list.
+ *
+ * Audience segments narrow the scope further: an announcement with segments
+ * reaches members of its scope who are in at least one of them.
+ */
+export const ANNOUNCEMENT_SCOPE_ROLES: Record<AnnouncementScope, UserRole[] | null> = {
+  PUBLIC: null,
+  MEMBERS: null,
+  LEADERS: [UserRole.LEADER, UserRole.VIP, UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN],
+  ADMINS: [UserRole.ADMIN, UserRole.PASTOR, UserRole.SUPER_ADMIN]
+}
+
+export const AUDIENCE_TYPE_LABELS: Record<AnnouncementAudienceType, string> = {
+  LIFEGROUP: 'LifeGroup',
+  PATHWAY: 'Pathway enrollees',
+  FIRST_TIMERS: 'First-timers',
+  EVENT: 'Event registrants',
+  MEMBER: 'Hand-picked'
+}
+
+// Waitlisted members registered too, so they hear about changes
+const REGISTRANT_STATUSES = [RsvpStatus.GOING, RsvpStatus.WAITLIST]
+
+const AUDIENCE_TARGET_FIELD = {
+  LIFEGROUP: 'lifeGroupId',
+  PATHWAY: 'pathwayId',
+  FIRST_TIMERS: null,
+  EVENT: 'eventId',
+  MEMBER: 'userId'
+} as const satisfies Record<AnnouncementAudienceType, string | null>
+
+export const announcementAudienceSchema = z.object({
+  type: z.nativeEnum(AnnouncementAudienceType),
+  lifeGroupId: z.string().min(1).nullish(),
+  pathwayId: z.string().min(1).nullish(),
+  eventId: z.string().min(1).nullish(),
+  userId: z.string().min(1).nullish()
+}).refine(
+  (segment) => {
+    const field = AUDIENCE_TARGET_FIELD[segment.type]
+    return !field || !!segment[field]
+  },
+  { message: 'Pick who the audience segment is for' }
+)
+
+export type AnnouncementAudienceSegment = z.infer<typeof announcementAudienceSchema>
+
+/** Keeps only the target column that matches each segment's type, dropping duplicates */
+export function normalizeAudienceSegments(segments: AnnouncementAudienceSegment[]) {
+  const seen = new Set<string>()
+  return segments.flatMap((segment) => {
+    const field = AUDIENCE_TARGET_FIELD[segment.type]
+    const targetId = field ? segment[field]! : null
+    const key = `${segment.type}:${targetId ?? ''}`
+    if (seen.has(key)) {
+      return []
+    }
+    seen.add(key)
+    return [{ type: segment.type, ...(field ? { [field]: targetId } : {}) }]
+  })
+}
+
+/** Users in one audience segment */
+export function buildSegmentUserWhere(segment: AnnouncementAudienceSegment): Prisma.UserWhereInput {
+  switch (segment.type) {
+    case AnnouncementAudienceType.LIFEGROUP:
+      return { lifeGroupMemberships: { some: { lifeGroupId: segment.lifeGroupId!, status: MembershipStatus.ACTIVE } } }
+    case AnnouncementAudienceType.PATHWAY:
+      return { pathwayEnrollments: { some: { pathwayId: segment.pathwayId!, status: EnrollmentStatus.ENROLLED } } }
+    case AnnouncementAudienceType.FIRST_TIMERS:
+      return { firstTimer: { isNot: null } }
+    case AnnouncementAudienceType.EVENT:
+      return { eventRsvps: { some: { eventId: segment.eventId!, status: { in: REGISTRANT_STATUSES } } } }
+    case AnnouncementAudienceType.MEMBER:
+      return { id: segment.userId! }
+  }
+}
+
+/**
+ * Active memberships of the church that an announcement reaches. Used for
+ * notification fan-out, the audience preview and read stats.
+ */
+export function buildAnnouncementRecipientWhere({
+  localChurchId,
+  scope,
+  audiences,
+  excludeUserId
+}: {
+  localChurchId: string
+  scope: AnnouncementScope
+  audiences: AnnouncementAudienceSegment[]
+  excludeUserId?: string
+}): Prisma.MembershipWhereInput {
+  const roles = ANNOUNCEMENT_SCOPE_ROLES[scope]
+  const userConditions: Prisma.UserWhereInput[] = [
+    ...(roles ? [{ role: { in: roles } }] : []),
+    ...(audiences.length > 0 ? [{ OR: audiences.map(buildSegmentUserWhere) }] : [])
+  ]
+
+  return {
+    localChurchId,
+    leftAt: null,
+    ...(excludeUserId ? { userId: { not: excludeUserId } } : {}),
+    ...(userConditions.length > 0 ? { user: { AND: userConditions } } : {})
+  }
+}
+
+/** Audience segments `userId` belongs to, from the announcement's side */
+function buildAudienceMatchWhere(userId: string): Prisma.AnnouncementAudienceWhereInput {
+  return {
+    OR: [
+      { type: AnnouncementAudienceType.LIFEGROUP, lifeGroup: { memberships: { some: { userId, status: MembershipStatus.ACTIVE } } } },
+      { type: AnnouncementAudienceType.PATHWAY, pathway: { enrollments: { some: { userId, status: EnrollmentStatus.ENROLLED } } } },
+      { type: AnnouncementAudienceType.EVENT, event: { rsvps: { some: { userId, status: { in: REGISTRANT_STATUSES } } } } },
+      { type: AnnouncementAudienceType.MEMBER, userId },
+      {
+        type: AnnouncementAudienceType.FIRST_TIMERS,
+        announcement: { localChurch: { memberships: { some: { userId, user: { firstTimer: { isNot: null } } } } } }
+      }
+    ]
+  }
+}
+
+/**
+ * Announcements `userId` can currently see in `churchIds`: live (active,
+ * published, not expired), scoped to the user's role in that church and, when
+ * the announcement has audience segments, in one of them.
+ */
+export function buildTargetedAnnouncementWhere({
+  userId,
+  churchIds,
+  now = new Date()
+}: {
+  userId: string
+  churchIds: string[]
+  now?: Date
+}): Prisma.AnnouncementWhereInput {
+  const scopeConditions = (Object.entries(ANNOUNCEMENT_SCOPE_ROLES) as Array<[AnnouncementScope, UserRole[] | null]>)
+    .map(([scope, roles]): Prisma.AnnouncementWhereInput => roles
+      ? {
+        scope,
+        localChurch: {
+          memberships: { some: { userId, user: { role: { in: roles } } } }
+        }
+      }
+      : { scope })
+
+  return {
+    localChurch: {
+      id: { in: churchIds }
+    },
+    isActive: true,
+    publishedAt: {
+      lte: now
+    },
+    AND: [
+      {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gte: now } }
+        ]
+      },
+      { OR: scopeConditions },
+      {
+        OR: [
+          { audiences: { none: {} } },
+          { audiences: { some: buildAudienceMatchWhere(userId) } }
+        ]
+      }
+    ]
+  }
+}
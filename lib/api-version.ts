@@ -44,11 +44,70 @@ export const responseTransformers = {
       startDateTime: event.startDateTime,
       location: event.location,
       capacity: event.capacity
+    }),
+
+    /**
+     * Contract shapes from openapi/drouple.v1.yaml consumed by the mobile app
+     */
+    member: (user: any) => ({
+      id: user.id,
+      email: user.email,
+      name: user.name ?? '',
+      role: toContractRole(user.role),
+      tenantId: user.tenantId ?? '',
+      churchId: user.tenantId ?? null
+    }),
+
+    eventListing: (event: any, userRsvpStatus?: string | null) => ({
+      id: event.id,
+      title: event.name,
+      description: event.description ?? '',
+      startDate: new Date(event.startDateTime).toISOString(),
+      endDate: new Date(event.endDateTime).toISOString(),
+      capacity: event.capacity,
+      currentAttendees: event._count?.rsvps ?? 0,
+      rsvpStatus: toContractRsvpStatus(userRsvpStatus)
+    }),
+
+    checkin: (checkin: any) => ({
+      id: checkin.id,
+      userId: checkin.userId,
+      serviceId: checkin.serviceId,
+      timestamp: new Date(checkin.checkedInAt).toISOString(),
+      newBeliever: checkin.isNewBeliever
     })
   },
   
 } as const
 
+/**
+ * The v1 contract collapses PASTOR and ADMIN into a single CHURCH_ADMIN role
+ */
+function toContractRole(role: string): string {
+  return role === 'PASTOR' || role === 'ADMIN' ? 'CHURCH_ADMIN' : role
+}
+
+function toContractRsvpStatus(status?: string | null): string | null {
+  switch (status) {
+    case 'GOING':
+      return 'ATTENDING'
+    case 'WAITLIST':
+      return 'WAITLIST'
+    case 'CANCELLED':
+      return 'NOT_ATTENDING'
+    default:
+      return null
+  }
+}
+
+/**
+ * Version headers attached to every versioned API response
+ */
+export function addVersionHeaders(headers: Headers, version: ApiVersion): void {
+  headers.set('X-API-Version', API_VERSIONS[version])
+  addDeprecationHeaders(headers, version)
+}
+
 /**
  * Deprecation headers
  */
@@ -0,0 +1,91 @@
+/**
+ * Check-in creation shared by /api/v1/checkins and /api/v1/checkins/bulk
+ * Applies the same tenant guard and new-believer side effects as checkIn in
+ * app/checkin/actions.ts.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { createTenantWhereClause } from '@/lib/rbac'
+import { autoEnrollInRoots } from '@/lib/pathways/auto-enroll'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+import type { ApiPrincipal } from './handler'
+
+export interface CheckinInput {
+  serviceId: string
+  newBeliever: boolean
+  checkedInAt?: Date
+}
+
+export async function createCheckinForPrincipal(principal: ApiPrincipal, input: CheckinInput) {
+  const serviceWhere = await createTenantWhereClause(
+    principal,
+    { id: input.serviceId },
+    undefined,
+    'localChurchId'
+  )
+
+  const service = await prisma.service.findFirst({
+    where: serviceWhere,
+    select: { id: true, localChurchId: true },
+  })
+
+  if (!service) {
+    throw new ApplicationError('NOT_FOUND', 'Service not found or access denied')
+  }
+
+  const existing = await prisma.checkin.findUnique({
+    where: {
+      serviceId_userId: { serviceId: service.id, userId: principal.id },
+    },
+  })
+
+  if (existing) {
+    throw new ApplicationError('DUPLICATE_ENTRY', 'Already checked in for this service')
+  }
+
+  const checkin = await prisma.checkin.create({
+    data: {
+      serviceId: service.id,
+      userId: principal.id,
+      isNewBeliever: input.newBeliever,
+      ...(input.checkedInAt && { checkedInAt: input.checkedInAt }),
+    },
+  }).catch((error: unknown) => {
+    // Concurrent request won the serviceId_userId unique constraint
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApplicationError('DUPLICATE_ENTRY', 'Already checked in for this service')
+    }
+    throw error
+  })
+
+  if (input.newBeliever) {
+    await prisma.user.update({
+      where: { id: principal.id },
+      data: { isNewBeliever: true },
+    })
+    await autoEnrollInRoots(principal.id, service.localChurchId)
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      actorId: principal.id,
+      action: 'CHECKIN_CREATED',
+      entity: 'Service',
+      entityId: service.id,
+      localChurchId: service.localChurchId,
+      meta: { method: 'api', isNewBeliever: input.newBeliever },
+    },
+  })
+
+  publishRealtimeEvent('attendance.created', service.localChurchId, {
+    id: checkin.id,
+    serviceId: service.id,
+    memberId: principal.id,
+    checkedInAt: checkin.checkedInAt.toISOString(),
+    count: 1,
+  })
+
+  return checkin
+}
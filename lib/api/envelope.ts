@@ -0,0 +1,75 @@
+/**
+ * Unified /api/v1 response envelope
+ * Every versioned endpoint answers with { ok, code, message, data, meta.traceId }
+ */
+
+import { NextResponse } from 'next/server'
+import { ErrorCode, ErrorMessages } from '@/lib/errors'
+
+export interface ApiEnvelope<T = unknown> {
+  ok: boolean
+  code: string
+  message: string
+  data: T | null
+  meta: {
+    traceId: string
+  }
+}
+
+const statusByErrorCode: Record<ErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  VALIDATION_ERROR: 400,
+  DUPLICATE_ENTRY: 409,
+  TENANT_MISMATCH: 403,
+  CAPACITY_FULL: 409,
+  RATE_LIMITED: 429,
+  EMAIL_EXISTS: 409,
+  INVALID_TOKEN: 401,
+  EXPIRED_TOKEN: 401,
+  SERVER_ERROR: 500,
+}
+
+export function createTraceId(): string {
+  return crypto.randomUUID().replace(/-/g, '').slice(0, 16)
+}
+
+export function getStatusForErrorCode(code: ErrorCode): number {
+  return statusByErrorCode[code] ?? 500
+}
+
+export function apiSuccess<T>(
+  traceId: string,
+  data: T,
+  options: { code?: string; message?: string; status?: number } = {}
+): NextResponse<ApiEnvelope<T>> {
+  return NextResponse.json(
+    {
+      ok: true,
+      code: options.code ?? 'OK',
+      message: options.message ?? 'Success',
+      data,
+      meta: { traceId },
+    },
+    { status: options.status ?? 200 }
+  )
+}
+
+export function apiError(
+  traceId: string,
+  code: ErrorCode,
+  message?: string,
+  details?: unknown
+): NextResponse<ApiEnvelope> {
+  return NextResponse.json(
+    {
+      ok: false,
+      code,
+      message: message || ErrorMessages[code],
+      data: details === undefined ? null : { details },
+      meta: { traceId },
+    },
+    { status: getStatusForErrorCode(code) }
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * Event visibility rules shared by the /api/v1 event endpoints
+ * Mirrors getEvents in app/events/actions.ts: WHOLE_CHURCH events are visible
+ * to everyone, LOCAL_CHURCH events only inside the caller's tenant, and
+ * visibleToRoles restrictions apply to non-admins.
+ */
+
+import { EventScope, Prisma, RsvpStatus, UserRole } from '@prisma/client'
+import { createTenantWhereClause, hasMinRole } from '@/lib/rbac'
+import type { ApiPrincipal } from './handler'
+
+export async function getVisibleEventsWhere(
+  principal: ApiPrincipal,
+  where: Prisma.EventWhereInput = {}
+): Promise<Prisma.EventWhereInput> {
+  const localChurchWhere = await createTenantWhereClause(
+    principal,
+    { scope: EventScope.LOCAL_CHURCH },
+    undefined,
+    'localChurchId'
+  )
+
+  const conditions: Prisma.EventWhereInput[] = [
+    where,
+    {
+      OR: [
+        { scope: EventScope.WHOLE_CHURCH },
+        localChurchWhere as Prisma.EventWhereInput,
+      ],
+    },
+  ]
+
+  if (!hasMinRole(principal.role, UserRole.ADMIN)) {
+    conditions.push({
+      OR: [
+        { visibleToRoles: { isEmpty: true } },
+        { visibleToRoles: { has: principal.role } },
+      ],
+    })
+  }
+
+  return { isActive: true, AND: conditions }
+}
+
+/**
+ * Select clause producing everything responseTransformers.v1.eventListing needs
+ */
+export function eventListingSelect(userId: string) {
+  return {
+    id: true,
+    name: true,
+    description: true,
+    startDateTime: true,
+    endDateTime: true,
+    capacity: true,
+    _count: {
+      select: {
+        rsvps: { where: { status: RsvpStatus.GOING } },
+      },
+    },
+    rsvps: {
+      where: { userId },
+      select: { status: true },
+      take: 1,
+    },
+  } satisfies Prisma.EventSelect
+}
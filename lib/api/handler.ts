@@ -0,0 +1,141 @@
+/**
+ * Route wrapper for the /api/v1 surface
+ * Resolves the API version, authenticates the caller and converts thrown
+ * errors into the unified response envelope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, UserRole } from '@prisma/client'
+import { ZodError } from 'zod'
+import { auth } from '@/lib/auth'
+import { ApplicationError, handleActionError } from '@/lib/errors'
+import { apiLogger } from '@/lib/logger'
+import { ApiVersion, addVersionHeaders, getApiVersion } from '@/lib/api-version'
+import { apiError, createTraceId } from './envelope'
+import { ApiTokenClaims, verifyApiToken } from './tokens'
+
+export interface ApiPrincipal {
+  id: string
+  role: UserRole
+  tenantId: string | null
+  token?: ApiTokenClaims
+}
+
+export interface ApiContext<P> {
+  request: NextRequest
+  traceId: string
+  version: ApiVersion
+  params: P
+}
+
+export interface AuthenticatedApiContext<P> extends ApiContext<P> {
+  principal: ApiPrincipal
+}
+
+type RouteSegment<P> = { params: Promise<P> }
+
+/**
+ * Resolves the caller from a Bearer access token, falling back to the
+ * NextAuth session cookie for same-origin web requests.
+ */
+export async function resolvePrincipal(request: NextRequest): Promise<ApiPrincipal | null> {
+  const authorization = request.headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) {
+    const claims = await verifyApiToken(authorization.slice('Bearer '.length).trim(), 'access')
+    return {
+      id: claims.sub,
+      role: claims.roles[0],
+      tenantId: claims.tenantId,
+      token: claims,
+    }
+  }
+
+  const session = await auth()
+  if (session?.user?.id) {
+    return {
+      id: session.user.id,
+      role: session.user.role,
+      tenantId: session.user.tenantId,
+    }
+  }
+
+  return null
+}
+
+function toErrorResponse(error: unknown, traceId: string): NextResponse {
+  if (error instanceof ApplicationError) {
+    return apiError(traceId, error.code, error.message, error.details)
+  }
+
+  if (error instanceof ZodError) {
+    return apiError(traceId, 'VALIDATION_ERROR', undefined, error.errors)
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return apiError(traceId, 'DUPLICATE_ENTRY')
+  }
+
+  if (error instanceof SyntaxError) {
+    return apiError(traceId, 'VALIDATION_ERROR', 'Request body must be valid JSON')
+  }
+
+  const appError = handleActionError(error)
+  return apiError(traceId, appError.code, appError.message)
+}
+
+async function runRoute<P>(
+  request: NextRequest,
+  segment: RouteSegment<P> | undefined,
+  handler: (context: ApiContext<P>) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const traceId = createTraceId()
+  const version = getApiVersion(request.nextUrl.pathname)
+
+  if (!version) {
+    return apiError(traceId, 'NOT_FOUND', 'Unsupported API version')
+  }
+
+  let response: NextResponse
+  try {
+    const params = (segment ? await segment.params : {}) as P
+    response = await handler({ request, traceId, version, params })
+  } catch (error) {
+    apiLogger.warn('API v1 request failed', {
+      traceId,
+      path: request.nextUrl.pathname,
+      method: request.method,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    response = toErrorResponse(error, traceId)
+  }
+
+  addVersionHeaders(response.headers, version)
+  response.headers.set('X-Trace-Id', traceId)
+  return response
+}
+
+/**
+ * Wraps a public (unauthenticated) v1 route handler.
+ */
+export function withPublicApiRoute<P = Record<string, never>>(
+  handler: (context: ApiContext<P>) => Promise<NextResponse>
+) {
+  return (request: NextRequest, segment: RouteSegment<P>) =>
+    runRoute(request, segment, handler)
+}
+
+/**
+ * Wraps a v1 route handler that requires an authenticated caller.
+ */
+export function withApiRoute<P = Record<string, never>>(
+  handler: (context: AuthenticatedApiContext<P>) => Promise<NextResponse>
+) {
+  return (request: NextRequest, segment: RouteSegment<P>) =>
+    runRoute(request, segment, async (context) => {
+      const principal = await resolvePrincipal(request)
+      if (!principal) {
+        throw new ApplicationError('UNAUTHORIZED')
+      }
+      return handler({ ...context, principal })
+    })
+}
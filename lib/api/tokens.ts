@@ -0,0 +1,167 @@
+/**
+ * Bearer tokens for the /api/v1 surface
+ * Short-lived access tokens plus rotating refresh tokens, both HS256 JWTs
+ * carrying { sub, roles[], tenantId, jti, exp }, signed with AUTH_SECRET.
+ * Revoked token ids are kept in the KeyValue table so logout and refresh
+ * rotation work across instances.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { getNextAuthSecret } from '@/lib/env-utils'
+
+const ISSUER = 'drouple'
+const AUDIENCE = 'drouple-api'
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60 // 15 minutes
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60 // 30 days
+const REVOKED_KEY_PREFIX = 'api:revoked-jti:'
+
+export type ApiTokenType = 'access' | 'refresh'
+
+export interface ApiTokenClaims {
+  sub: string
+  roles: UserRole[]
+  tenantId: string | null
+  jti: string
+  exp: number
+  typ: ApiTokenType
+}
+
+export interface ApiTokenPair {
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+}
+
+function getSigningKey(): string {
+  const secret = getNextAuthSecret()
+  if (!secret) {
+    throw new ApplicationError('SERVER_ERROR', 'API token signing secret is not configured')
+  }
+  return secret
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function signature(unsigned: string): Buffer {
+  return createHmac('sha256', getSigningKey()).update(unsigned).digest()
+}
+
+function signToken(
+  user: { id: string; role: UserRole; tenantId: string | null },
+  type: ApiTokenType,
+  ttlSeconds: number
+): string {
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const unsigned = [
+    base64UrlJson({ alg: 'HS256', typ: 'JWT' }),
+    base64UrlJson({
+      sub: user.id,
+      roles: [user.role],
+      tenantId: user.tenantId,
+      typ: type,
+      jti: randomUUID(),
+      iss: ISSUER,
+      aud: AUDIENCE,
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+    }),
+  ].join('.')
+
+  return `${unsigned}.${signature(unsigned).toString('base64url')}`
+}
+
+function decodeToken(token: string): ApiTokenClaims & { iss?: string; aud?: string } {
+  const [header, payload, signaturePart] = token.split('.')
+  if (!header || !payload || !signaturePart) {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  const expected = signature(`${header}.${payload}`)
+  const actual = Buffer.from(signaturePart, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  try {
+    const parsedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'))
+    if (parsedHeader.alg !== 'HS256') {
+      throw new ApplicationError('INVALID_TOKEN')
+    }
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+}
+
+export async function issueTokenPair(
+  user: { id: string; role: UserRole; tenantId: string | null }
+): Promise<ApiTokenPair> {
+  return {
+    accessToken: signToken(user, 'access', ACCESS_TOKEN_TTL_SECONDS),
+    refreshToken: signToken(user, 'refresh', REFRESH_TOKEN_TTL_SECONDS),
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  }
+}
+
+/**
+ * Verifies signature, expiry, token type and the revocation list.
+ *
+ * @throws ApplicationError EXPIRED_TOKEN or INVALID_TOKEN
+ */
+export async function verifyApiToken(
+  token: string,
+  expectedType: ApiTokenType
+): Promise<ApiTokenClaims> {
+  const claims = decodeToken(token)
+
+  if (claims.iss !== ISSUER || claims.aud !== AUDIENCE) {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new ApplicationError('EXPIRED_TOKEN')
+  }
+
+  if (claims.typ !== expectedType || !claims.sub || !claims.jti || !Array.isArray(claims.roles)) {
+    throw new ApplicationError('INVALID_TOKEN')
+  }
+
+  if (await isTokenRevoked(claims.jti)) {
+    throw new ApplicationError('INVALID_TOKEN', 'The provided token has been revoked')
+  }
+
+  return claims
+}
+
+export async function isTokenRevoked(jti: string): Promise<boolean> {
+  const entry = await prisma.keyValue.findUnique({
+    where: { key: `${REVOKED_KEY_PREFIX}${jti}` },
+  })
+  return !!entry
+}
+
+/**
+ * Adds a token id to the denylist until the token would have expired anyway.
+ * Expired denylist entries are pruned opportunistically on each revocation.
+ */
+export async function revokeToken(claims: Pick<ApiTokenClaims, 'jti' | 'exp'>): Promise<void> {
+  const expiresAt = new Date(claims.exp * 1000).toISOString()
+
+  await prisma.keyValue.upsert({
+    where: { key: `${REVOKED_KEY_PREFIX}${claims.jti}` },
+    create: { key: `${REVOKED_KEY_PREFIX}${claims.jti}`, value: expiresAt },
+    update: { value: expiresAt },
+  })
+
+  await prisma.keyValue.deleteMany({
+    where: {
+      key: { startsWith: REVOKED_KEY_PREFIX },
+      value: { lt: new Date().toISOString() },
+    },
+  })
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { UserRole } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    auditLog: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/rbac', () => ({
+  createTenantWhereClause: vi.fn(async (_user, where, churchId) => ({
+    ...where,
+    localChurchId: churchId ?? 'church1'
+  }))
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  buildAuditLogCsv,
+  buildAuditLogWhere,
+  describeAuditMeta,
+  listAuditLogs,
+  parseAuditLogFilters
+} from './audit-log'
+
+const db = prisma as any
+
+const admin = { role: UserRole.ADMIN, tenantId: 'church1' }
+const superAdmin = { role: UserRole.SUPER_ADMIN, tenantId: null }
+
+describe('parseAuditLogFilters', () => {
+  it('should widen dates to whole days and drop invalid values', () => {
+    const filters = parseAuditLogFilters({ from: '2026-03-01', to: 'not-a-date', action: '' }, admin)
+
+    expect(filters.from?.getHours()).toBe(0)
+    expect(filters.to).toBeUndefined()
+    expect(filters.action).toBeUndefined()
+  })
+
+  it('should ignore the church filter for admins', () => {
+    expect(parseAuditLogFilters({ churchId: 'church2' }, admin).churchId).toBeUndefined()
+    expect(parseAuditLogFilters({ churchId: 'church2' }, superAdmin).churchId).toBe('church2')
+  })
+})
+
+describe('buildAuditLogWhere', () => {
+  it('should scope admins to their church', async () => {
+    const where = await buildAuditLogWhere(admin, { entity: 'LifeGroup', action: 'LIFEGROUP_CREATED' })
+
+    expect(where).toEqual({ entity: 'LifeGroup', action: 'LIFEGROUP_CREATED', localChurchId: 'church1' })
+  })
+
+  it('should leave super admins unscoped unless they pick a church', async () => {
+    const from = new Date('2026-03-01T00:00:00Z')
+
+    expect(await buildAuditLogWhere(superAdmin, { from })).toEqual({ createdAt: { gte: from } })
+    expect(await buildAuditLogWhere(superAdmin, { churchId: 'church2' })).toEqual({ localChurchId: 'church2' })
+  })
+})
+
+describe('describeAuditMeta', () => {
+  it('should pair previous/new and from/to keys', () => {
+    expect(describeAuditMeta({ previousStatus: 'ACTIVE', newStatus: 'INACTIVE', bulkOperation: true })).toEqual([
+      { field: 'Status', from: 'ACTIVE', to: 'INACTIVE' },
+      { field: 'Bulk operation', value: 'true' }
+    ])
+    expect(describeAuditMeta({ fromChurchId: 'a', toChurchId: 'b' })).toEqual([
+      { field: 'Church id', from: 'a', to: 'b' }
+    ])
+  })
+
+  it('should only list fields that changed between before and after', () => {
+    expect(describeAuditMeta({
+      before: { name: 'Youth', capacity: 10 },
+      after: { name: 'Youth', capacity: 12 }
+    })).toEqual([{ field: 'Capacity', from: '10', to: '12' }])
+  })
+
+  it('should handle empty and non-object meta', () => {
+    expect(describeAuditMeta(null)).toEqual([])
+    expect(describeAuditMeta('note')).toEqual([{ field: 'Details', value: 'note' }])
+  })
+})
+
+describe('audit log queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should page newest first', async () => {
+    db.auditLog.findMany.mockResolvedValue([{ id: 'a1' }, { id: 'a2' }, { id: 'a3' }])
+
+    const page = await listAuditLogs(admin, {}, { take: 2, cursor: 'a0' })
+
+    expect(db.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { localChurchId: 'church1' },
+      take: 3,
+      cursor: { id: 'a0' },
+      skip: 1
+    }))
+    expect(page).toMatchObject({ nextCursor: 'a2', hasMore: true })
+    expect(page.items).toHaveLength(2)
+  })
+
+  it('should export rows with a readable change summary', async () => {
+    db.auditLog.findMany.mockResolvedValue([{
+      id: 'a1',
+      action: 'MEMBER_STATUS_CHANGE',
+      entity: 'User',
+      entityId: 'user1',
+      meta: { previousStatus: 'ACTIVE', newStatus: 'INACTIVE' },
+      createdAt: new Date(2026, 2, 1, 9, 30),
+      actor: { id: 'admin1', name: 'Pastor "Jo"', email: 'jo@example.com' },
+      localChurch: { id: 'church1', name: 'Manila' }
+    }])
+
+    const csv = await buildAuditLogCsv(admin, {})
+    const [header, row] = csv.split('\n')
+
+    expect(header).toBe('Timestamp,Actor,Actor Email,Action,Entity,Entity ID,Church,Changes,Raw Meta')
+    expect(row).toContain('"Pastor ""Jo"""')
+    expect(row).toContain('"Status: ACTIVE → INACTIVE"')
+  })
+})
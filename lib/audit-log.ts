@@ -0,0 +1,289 @@
+import { Prisma, UserRole } from '@prisma/client'
+import { endOfDay, format, isValid, parseISO, startOfDay } from 'date-fns'
+import { prisma } from './prisma'
+import { createTenantWhereClause } from './rbac'
+import { toCsv } from './reports'
+
+/**
+ * Audit trail for /admin/audit and its CSV export.
+ * Admins only see entries recorded against their own church; super admins
+ * see every entry (including platform-level ones without a church) unless
+ * they narrow to a single local church.
+ */
+
+export const AUDIT_LOG_PAGE_SIZE = 50
+export const AUDIT_EXPORT_LIMIT = 10000
+
+type AuditUser = { role: UserRole; tenantId?: string | null }
+
+export interface AuditLogFilters {
+  actorId?: string
+  entity?: string
+  action?: string
+  from?: Date
+  to?: Date
+  churchId?: string
+}
+
+export interface AuditChange {
+  field: string
+  from?: string
+  to?: string
+  value?: string
+}
+
+export const auditLogInclude = {
+  actor: { select: { id: true, name: true, email: true } },
+  localChurch: { select: { id: true, name: true } }
+} satisfies Prisma.AuditLogInclude
+
+export type AuditLogEntry = Prisma.AuditLogGetPayload<{ include: typeof auditLogInclude }>
+
+function parseDay(value?: string | null): Date | undefined {
+  if (!value) {
+    return undefined
+  }
+  const parsed = parseISO(value)
+  return isValid(parsed) ? parsed : undefined
+}
+
+/**
+ * Builds audit filters from query parameters. Dates are yyyy-mm-dd and
+ * open-ended when omitted; the church filter is ignored unless the viewer
+ * is a super admin.
+ */
+export function parseAuditLogFilters(
+  params: {
+    actorId?: string | null
+    entity?: string | null
+    action?: string | null
+    from?: string | null
+    to?: string | null
+    churchId?: string | null
+  },
+  user: AuditUser
+): AuditLogFilters {
+  const from = parseDay(params.from)
+  const to = parseDay(params.to)
+
+  return {
+    actorId: params.actorId || undefined,
+    entity: params.entity || undefined,
+    action: params.action || undefined,
+    from: from && startOfDay(from),
+    to: to && endOfDay(to),
+    churchId: user.role === UserRole.SUPER_ADMIN && params.churchId ? params.churchId : undefined
+  }
+}
+
+export async function buildAuditLogWhere(
+  user: AuditUser,
+  { actorId, entity, action, from, to, churchId }: AuditLogFilters
+): Promise<Prisma.AuditLogWhereInput> {
+  const where: Prisma.AuditLogWhereInput = {
+    ...(actorId && { actorId }),
+    ...(entity && { entity }),
+    ...(action && { action }),
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { gte: from }),
+        ...(to && { lte: to })
+      }
+    })
+  }
+
+  // Platform-level entries (church and admin management) have no church, so
+  // the tenant clause would hide them from the people who made them
+  if (user.role === UserRole.SUPER_ADMIN && !churchId) {
+    return where
+  }
+
+  return createTenantWhereClause(user, where, churchId, 'localChurchId') as Promise<Prisma.AuditLogWhereInput>
+}
+
+export async function listAuditLogs(
+  user: AuditUser,
+  filters: AuditLogFilters,
+  { cursor, take = AUDIT_LOG_PAGE_SIZE }: { cursor?: string; take?: number } = {}
+) {
+  const where = await buildAuditLogWhere(user, filters)
+  const logs = await prisma.auditLog.findMany({
+    where,
+    include: auditLogInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(cursor && {
+      cursor: { id: cursor },
+      skip: 1
+    })
+  })
+
+  const hasMore = logs.length > take
+  const items = logs.slice(0, take)
+  const nextCursor = hasMore ? items[items.length - 1].id : null
+
+  return { items, nextCursor, hasMore }
+}
+
+/** Distinct actors, entities and actions visible to the viewer, for the filter dropdowns */
+export async function getAuditLogFilterOptions(user: AuditUser, churchId?: string) {
+  const where = await buildAuditLogWhere(user, { churchId })
+
+  const [entities, actions, actors] = await Promise.all([
+    prisma.auditLog.groupBy({ by: ['entity'], where, orderBy: { entity: 'asc' } }),
+    prisma.auditLog.groupBy({ by: ['action'], where, orderBy: { action: 'asc' } }),
+    prisma.auditLog.groupBy({ by: ['actorId'], where })
+  ])
+
+  const actorUsers = await prisma.user.findMany({
+    where: { id: { in: actors.map(row => row.actorId) } },
+    select: { id: true, name: true, email: true },
+    orderBy: { name: 'asc' }
+  })
+
+  return {
+    entities: entities.map(row => row.entity),
+    actions: actions.map(row => row.action),
+    actors: actorUsers
+  }
+}
+
+/** "previousStatus" -> "Previous status" */
+export function humanizeAuditKey(key: string): string {
+  const words = key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .trim()
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—'
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatAuditValue).join(', ')
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const PAIR_PREFIXES: Array<[string, string]> = [
+  ['previous', 'new'],
+  ['old', 'new'],
+  ['from', 'to']
+]
+
+/**
+ * Turns an audit entry's `meta` into readable field changes.
+ *
+ * Writers record meta in a few shapes: `{ before, after }` snapshots,
+ * `{ changes: { field: { from, to } } }`, or flat pairs such as
+ * previousStatus/newStatus and fromChurchId/toChurchId. Anything that isn't
+ * a pair is listed as a plain value.
+ */
+export function describeAuditMeta(meta: Prisma.JsonValue | null): AuditChange[] {
+  if (!isPlainObject(meta)) {
+    return meta === null || meta === undefined ? [] : [{ field: 'Details', value: formatAuditValue(meta) }]
+  }
+
+  const changes: AuditChange[] = []
+  const consumed = new Set<string>()
+
+  if (isPlainObject(meta.before) && isPlainObject(meta.after)) {
+    const before = meta.before
+    const after = meta.after
+    for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes.push({ field: humanizeAuditKey(key), from: formatAuditValue(before[key]), to: formatAuditValue(after[key]) })
+      }
+    }
+    consumed.add('before').add('after')
+  }
+
+  if (isPlainObject(meta.changes)) {
+    for (const [key, change] of Object.entries(meta.changes)) {
+      if (isPlainObject(change) && ('from' in change || 'to' in change)) {
+        changes.push({ field: humanizeAuditKey(key), from: formatAuditValue(change.from), to: formatAuditValue(change.to) })
+      } else {
+        changes.push({ field: humanizeAuditKey(key), value: formatAuditValue(change) })
+      }
+    }
+    consumed.add('changes')
+  }
+
+  for (const key of Object.keys(meta)) {
+    if (consumed.has(key)) {
+      continue
+    }
+
+    for (const [fromPrefix, toPrefix] of PAIR_PREFIXES) {
+      if (!key.startsWith(fromPrefix) || key.length === fromPrefix.length) {
+        continue
+      }
+      const suffix = key.slice(fromPrefix.length)
+      if (suffix.charAt(0) !== suffix.charAt(0).toUpperCase()) {
+        continue
+      }
+      const pairKey = `${toPrefix}${suffix}`
+      if (pairKey in meta && !consumed.has(pairKey)) {
+        changes.push({ field: humanizeAuditKey(suffix), from: formatAuditValue(meta[key]), to: formatAuditValue(meta[pairKey]) })
+        consumed.add(key).add(pairKey)
+        break
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(meta)) {
+    if (!consumed.has(key)) {
+      changes.push({ field: humanizeAuditKey(key), value: formatAuditValue(value) })
+    }
+  }
+
+  return changes
+}
+
+/** One-line summary of an entry's changes, used in the CSV export */
+export function summarizeAuditMeta(meta: Prisma.JsonValue | null): string {
+  return describeAuditMeta(meta)
+    .map(change => change.value !== undefined
+      ? `${change.field}: ${change.value}`
+      : `${change.field}: ${change.from} → ${change.to}`)
+    .join('; ')
+}
+
+/**
+ * Renders the filtered audit trail as CSV for /api/admin/audit/export,
+ * capped at AUDIT_EXPORT_LIMIT rows (newest first).
+ */
+export async function buildAuditLogCsv(user: AuditUser, filters: AuditLogFilters): Promise<string> {
+  const where = await buildAuditLogWhere(user, filters)
+  const logs = await prisma.auditLog.findMany({
+    where,
+    include: auditLogInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: AUDIT_EXPORT_LIMIT
+  })
+
+  return toCsv(
+    ['Timestamp', 'Actor', 'Actor Email', 'Action', 'Entity', 'Entity ID', 'Church', 'Changes', 'Raw Meta'],
+    logs.map(log => [
+      format(log.createdAt, "yyyy-MM-dd'T'HH:mm:ss"),
+      log.actor.name || '',
+      log.actor.email,
+      log.action,
+      log.entity,
+      log.entityId,
+      log.localChurch?.name || '',
+      summarizeAuditMeta(log.meta),
+      log.meta === null ? '' : JSON.stringify(log.meta)
+    ])
+  )
+}
@@ -1,4 +1,4 @@
-import NextAuth from "next-auth"
+import NextAuth, { CredentialsSignin } from "next-auth"
 import { PrismaClient, UserRole } from "@prisma/client"
 import CredentialsProvider from "next-auth/providers/credentials"
 import bcrypt from "bcryptjs"
@@ -6,9 +6,22 @@ import { authLogger } from "./logger"
 import { checkRateLimit, recordAttempt, resetAttempts } from "./auth-rate-limit"
 import { logEnvironmentValidation } from "./env-validation"
 import { getNextAuthSecret } from "./env-utils"
+import { recordTwoFactorAudit, verifySecondFactor } from "./2fa-verification"
 
 const prisma = new PrismaClient()
 
+/**
+ * Sign-in errors surfaced to the client through the `code` field of the
+ * signIn() response. The sign-in page uses them to show the 2FA step.
+ */
+export class TwoFactorRequiredError extends CredentialsSignin {
+  code = "TWO_FACTOR_REQUIRED"
+}
+
+export class InvalidTwoFactorCodeError extends CredentialsSignin {
+  code = "INVALID_TWO_FACTOR_CODE"
+}
+
 // Validate environment on module load
 const envValidation = logEnvironmentValidation()
 if (!envValidation.valid) {
@@ -35,13 +48,15 @@ export const authOptions: any = {
       name: "credentials",
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        totp: { label: "Authentication code", type: "text" }
       },
       /**
        * Custom authentication logic with rate limiting and security validation.
-       * Handles multi-tenant user lookup, password verification, and membership resolution.
+       * Handles multi-tenant user lookup, password verification, the TOTP/recovery
+       * code challenge for enrolled users, and membership resolution.
        * 
-       * @param credentials User-provided email and password
+       * @param credentials User-provided email, password and optional 2FA code
        * @param req Request object for IP extraction and rate limiting
        * @returns User object with primary tenant info or null if authentication fails
        */
@@ -49,6 +64,7 @@ export const authOptions: any = {
       async authorize(credentials: any, req: any) {
         const email = credentials?.email as string
         const password = credentials?.password as string
+        const totp = ((credentials?.totp as string | undefined) || "").trim()
         
         if (!email || !password) {
           return null
@@ -121,14 +137,49 @@ export const authOptions: any = {
             return null
           }
 
-          // Reset rate limit on successful login
-          resetAttempts(ipAddress, email)
-
           // Primary tenant resolution: Active membership with most recent join date
           // Critical for multi-tenant RBAC - determines user's default church context
           const primaryMembership = memberships
             .filter((m) => !m.leftAt)
             .sort((a, b) => b.joinedAt.getTime() - a.joinedAt.getTime())[0]
+          const localChurchId = primaryMembership?.localChurchId || user.tenantId
+
+          // Second factor for enrolled users. The password is already verified here,
+          // so a missing code only tells the client to show the code step.
+          if (user.twoFactorEnabled) {
+            if (!totp) {
+              throw new TwoFactorRequiredError()
+            }
+
+            const method = await verifySecondFactor(user, totp)
+
+            if (!method) {
+              authLogger.warn("Invalid two-factor code", {
+                userId: user.id,
+                email: user.email,
+                remainingAttempts: remainingAttempts - 1
+              })
+              await recordTwoFactorAudit({
+                actorId: user.id,
+                userId: user.id,
+                action: "TWO_FACTOR_CHALLENGE_FAILED",
+                localChurchId,
+                meta: { ip: ipAddress }
+              })
+              throw new InvalidTwoFactorCodeError()
+            }
+
+            await recordTwoFactorAudit({
+              actorId: user.id,
+              userId: user.id,
+              action: method === "recovery_code" ? "TWO_FACTOR_RECOVERY_CODE_USED" : "TWO_FACTOR_CHALLENGE_PASSED",
+              localChurchId,
+              meta: { ip: ipAddress, method }
+            })
+          }
+
+          // Reset rate limit on successful login
+          resetAttempts(ipAddress, email)
 
           authLogger.info("Successful login", { 
             userId: user.id, 
@@ -147,6 +198,11 @@ export const authOptions: any = {
             mustChangePassword: user.mustChangePassword
           }
         } catch (error) {
+          // Expected 2FA outcomes, already logged above
+          if (error instanceof CredentialsSignin) {
+            throw error
+          }
+
           authLogger.error("Login error", { 
             error: error instanceof Error ? { 
               message: error.message, 
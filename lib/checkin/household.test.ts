@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { HouseholdMemberRole } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    householdMember: {
+      findUnique: vi.fn(),
+      findMany: vi.fn()
+    },
+    checkin: {
+      findMany: vi.fn(),
+      createMany: vi.fn()
+    },
+    householdCheckin: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+  prisma.$transaction = vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import {
+  checkInHouseholdMembers,
+  generatePickupCode,
+  normalizePickupCode,
+  releaseChildrenForPickup
+} from './household'
+
+const db = prisma as any
+
+const parent = {
+  role: HouseholdMemberRole.ADULT,
+  householdId: 'household1',
+  household: { localChurchId: 'church1' }
+}
+
+const spouse = { id: 'hm-spouse', userId: 'user2', name: null, role: HouseholdMemberRole.ADULT, user: { name: 'Maria Santos' } }
+const child = { id: 'hm-child', userId: null, name: 'Ana Santos', role: HouseholdMemberRole.CHILD, user: null }
+const sibling = { id: 'hm-sibling', userId: null, name: 'Ben Santos', role: HouseholdMemberRole.CHILD, user: null }
+
+describe('pickup codes', () => {
+  it('should generate unambiguous six character codes', () => {
+    const code = generatePickupCode()
+
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/)
+  })
+
+  it('should normalize what staff type in', () => {
+    expect(normalizePickupCode(' ab3-k7x ')).toBe('AB3K7X')
+  })
+})
+
+describe('checkInHouseholdMembers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.householdMember.findUnique.mockResolvedValue(parent)
+    db.checkin.findMany.mockResolvedValue([])
+    db.householdCheckin.findMany.mockResolvedValue([])
+    db.householdCheckin.findFirst.mockResolvedValue(null)
+  })
+
+  it('should check in account holders and dependents in one go with a shared pickup code', async () => {
+    db.householdMember.findMany.mockResolvedValue([spouse, child, sibling])
+
+    const result = await checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['hm-spouse', 'hm-child', 'hm-sibling']
+    })
+
+    expect(db.householdMember.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['hm-spouse', 'hm-child', 'hm-sibling'] }, householdId: 'household1' }
+    }))
+    expect(db.checkin.createMany).toHaveBeenCalledWith({
+      data: [{ serviceId: 'service1', userId: 'user2' }],
+      skipDuplicates: true
+    })
+    const rows = db.householdCheckin.createMany.mock.calls[0][0].data
+    expect(rows).toHaveLength(2)
+    expect(rows[0].pickupCode).toBe(result.pickupCode)
+    expect(rows[1].pickupCode).toBe(result.pickupCode)
+    expect(rows[0]).toMatchObject({ serviceId: 'service1', householdMemberId: 'hm-child', checkedInById: 'user1' })
+    expect(result.checkedIn).toEqual(['Maria Santos', 'Ana Santos', 'Ben Santos'])
+    expect(result.pickupCode).toMatch(/^[A-Z2-9]{6}$/)
+  })
+
+  it('should give a child who has an account a pickup code as well as a check-in', async () => {
+    const childWithAccount = { id: 'hm-teen', userId: 'user3', name: null, role: HouseholdMemberRole.CHILD, user: { name: 'Carla Santos' } }
+    db.householdMember.findMany.mockResolvedValue([childWithAccount])
+
+    const result = await checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['hm-teen']
+    })
+
+    expect(db.checkin.createMany).toHaveBeenCalledWith({
+      data: [{ serviceId: 'service1', userId: 'user3' }],
+      skipDuplicates: true
+    })
+    expect(db.householdCheckin.createMany).toHaveBeenCalledWith({
+      data: [{ serviceId: 'service1', householdMemberId: 'hm-teen', checkedInById: 'user1', pickupCode: result.pickupCode }],
+      skipDuplicates: true
+    })
+    expect(result.pickupCode).toMatch(/^[A-Z2-9]{6}$/)
+    expect(result.checkedIn).toEqual(['Carla Santos'])
+  })
+
+  it('should reuse the code already issued to the household for this service', async () => {
+    db.householdMember.findMany.mockResolvedValue([sibling])
+    db.householdCheckin.findFirst.mockResolvedValueOnce({ pickupCode: 'ABC234' })
+
+    const result = await checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['hm-sibling']
+    })
+
+    expect(result.pickupCode).toBe('ABC234')
+  })
+
+  it('should report members who were already checked in', async () => {
+    db.householdMember.findMany.mockResolvedValue([spouse, child])
+    db.checkin.findMany.mockResolvedValue([{ userId: 'user2' }])
+    db.householdCheckin.findMany.mockResolvedValue([{ householdMemberId: 'hm-child' }])
+
+    const result = await checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['hm-spouse', 'hm-child']
+    })
+
+    expect(result).toEqual({ checkedIn: [], alreadyCheckedIn: ['Maria Santos', 'Ana Santos'], pickupCode: null })
+  })
+
+  it('should only let adults check in their own household', async () => {
+    db.householdMember.findUnique.mockResolvedValue({ ...parent, role: HouseholdMemberRole.CHILD })
+
+    await expect(checkInHouseholdMembers({
+      actorId: 'teen1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['hm-child']
+    })).rejects.toMatchObject({ code: 'FORBIDDEN' })
+
+    db.householdMember.findUnique.mockResolvedValue(parent)
+    db.householdMember.findMany.mockResolvedValue([])
+
+    await expect(checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church1',
+      memberIds: ['someone-elses-child']
+    })).rejects.toBeInstanceOf(ApplicationError)
+    expect(db.householdCheckin.createMany).not.toHaveBeenCalled()
+  })
+
+  it('should reject services at another church', async () => {
+    await expect(checkInHouseholdMembers({
+      actorId: 'user1',
+      serviceId: 'service1',
+      localChurchId: 'church2',
+      memberIds: ['hm-child']
+    })).rejects.toMatchObject({ code: 'TENANT_MISMATCH' })
+  })
+})
+
+describe('releaseChildrenForPickup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should release every child waiting under the code', async () => {
+    db.householdCheckin.updateMany.mockResolvedValue({ count: 2 })
+
+    const released = await releaseChildrenForPickup({ serviceId: 'service1', code: 'abc-234', releasedById: 'usher1' })
+
+    expect(released).toBe(2)
+    expect(db.householdCheckin.updateMany).toHaveBeenCalledWith({
+      where: { serviceId: 'service1', pickupCode: 'ABC234', pickedUpAt: null },
+      data: { pickedUpAt: expect.any(Date), pickedUpById: 'usher1' }
+    })
+  })
+
+  it('should reject codes that were already used', async () => {
+    db.householdCheckin.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(
+      releaseChildrenForPickup({ serviceId: 'service1', code: 'ABC234', releasedById: 'usher1' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+})
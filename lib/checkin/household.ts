@@ -0,0 +1,290 @@
+/**
+ * Household check-in.
+ *
+ * A household groups adults (who have accounts) with dependents (who usually
+ * do not). Any adult in the household can check in the others in one go:
+ * members with an account get a regular Checkin, dependents get a
+ * HouseholdCheckin row. Children, with or without an account, also get a
+ * HouseholdCheckin carrying a short pickup code shared by the children
+ * checked in together, which staff verify before releasing them.
+ */
+
+import { randomInt } from 'crypto'
+import { HouseholdMemberRole, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+
+export const PICKUP_CODE_LENGTH = 6
+// No 0/O or 1/I so codes read back unambiguously
+const PICKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const PICKUP_CODE_ATTEMPTS = 5
+
+export interface HouseholdCheckinResult {
+  checkedIn: string[]
+  alreadyCheckedIn: string[]
+  pickupCode: string | null
+}
+
+export function generatePickupCode(): string {
+  let code = ''
+  for (let i = 0; i < PICKUP_CODE_LENGTH; i++) {
+    code += PICKUP_CODE_ALPHABET[randomInt(PICKUP_CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+export function normalizePickupCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function getHouseholdMemberName(member: { name: string | null; user?: { name: string | null } | null }): string {
+  return member.user?.name || member.name || 'Household member'
+}
+
+/**
+ * The household the user is an adult in, with every member and their check-in
+ * state for the given service.
+ */
+export async function getHouseholdForAdult(userId: string, serviceId: string) {
+  const self = await prisma.householdMember.findUnique({
+    where: { userId },
+    select: { householdId: true, role: true }
+  })
+
+  if (!self || self.role !== HouseholdMemberRole.ADULT) {
+    return null
+  }
+
+  return prisma.household.findUnique({
+    where: { id: self.householdId },
+    select: {
+      id: true,
+      name: true,
+      localChurchId: true,
+      members: {
+        select: {
+          id: true,
+          userId: true,
+          name: true,
+          role: true,
+          user: {
+            select: {
+              name: true,
+              checkins: { where: { serviceId }, select: { id: true } }
+            }
+          },
+          checkins: {
+            where: { serviceId },
+            select: { id: true, pickupCode: true, pickedUpAt: true }
+          }
+        },
+        orderBy: [{ role: 'asc' }, { createdAt: 'asc' }]
+      }
+    }
+  })
+}
+
+async function getPickupCodeForHousehold(
+  tx: Prisma.TransactionClient,
+  serviceId: string,
+  householdId: string
+): Promise<string> {
+  // Siblings checked in later in the same service reuse the code already issued
+  const existing = await tx.householdCheckin.findFirst({
+    where: {
+      serviceId,
+      pickupCode: { not: null },
+      pickedUpAt: null,
+      householdMember: { householdId }
+    },
+    select: { pickupCode: true }
+  })
+
+  if (existing?.pickupCode) {
+    return existing.pickupCode
+  }
+
+  for (let attempt = 0; attempt < PICKUP_CODE_ATTEMPTS; attempt++) {
+    const code = generatePickupCode()
+    const clash = await tx.householdCheckin.findFirst({
+      where: { serviceId, pickupCode: code },
+      select: { id: true }
+    })
+    if (!clash) {
+      return code
+    }
+  }
+
+  throw new ApplicationError('SERVER_ERROR', 'Could not generate a pickup code')
+}
+
+/**
+ * Checks in the selected members of the actor's household for a service.
+ * Members already checked in are reported rather than treated as errors.
+ */
+export async function checkInHouseholdMembers({
+  actorId,
+  serviceId,
+  localChurchId,
+  memberIds
+}: {
+  actorId: string
+  serviceId: string
+  localChurchId: string
+  memberIds: string[]
+}): Promise<HouseholdCheckinResult> {
+  const actor = await prisma.householdMember.findUnique({
+    where: { userId: actorId },
+    select: {
+      role: true,
+      householdId: true,
+      household: { select: { localChurchId: true } }
+    }
+  })
+
+  if (!actor || actor.role !== HouseholdMemberRole.ADULT) {
+    throw new ApplicationError('FORBIDDEN', 'Only adults in a household can check in its members')
+  }
+
+  if (actor.household.localChurchId !== localChurchId) {
+    throw new ApplicationError('TENANT_MISMATCH', 'This service is not at your household\'s church')
+  }
+
+  const ids = [...new Set(memberIds)]
+  const members = await prisma.householdMember.findMany({
+    where: { id: { in: ids }, householdId: actor.householdId },
+    select: {
+      id: true,
+      userId: true,
+      name: true,
+      role: true,
+      user: { select: { name: true } }
+    }
+  })
+
+  if (members.length !== ids.length) {
+    throw new ApplicationError('NOT_FOUND', 'Household member not found')
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const result: HouseholdCheckinResult = { checkedIn: [], alreadyCheckedIn: [], pickupCode: null }
+    const newlyCheckedIn = new Set<string>()
+
+    const withAccount = members.filter((member) => member.userId)
+    // Children are released against the pickup code even when they have an account
+    const tracked = members.filter((member) => !member.userId || member.role === HouseholdMemberRole.CHILD)
+
+    if (withAccount.length > 0) {
+      const existing = await tx.checkin.findMany({
+        where: { serviceId, userId: { in: withAccount.map((member) => member.userId!) } },
+        select: { userId: true }
+      })
+      const existingUserIds = new Set(existing.map((checkin) => checkin.userId))
+      const toCreate = withAccount.filter((member) => !existingUserIds.has(member.userId!))
+
+      await tx.checkin.createMany({
+        data: toCreate.map((member) => ({ serviceId, userId: member.userId! })),
+        skipDuplicates: true
+      })
+
+      toCreate.forEach((member) => newlyCheckedIn.add(member.id))
+    }
+
+    if (tracked.length > 0) {
+      const existing = await tx.householdCheckin.findMany({
+        where: { serviceId, householdMemberId: { in: tracked.map((member) => member.id) } },
+        select: { householdMemberId: true }
+      })
+      const existingIds = new Set(existing.map((checkin) => checkin.householdMemberId))
+      const toCreate = tracked.filter((member) => !existingIds.has(member.id))
+      const needsPickupCode = toCreate.some((member) => member.role === HouseholdMemberRole.CHILD)
+
+      if (needsPickupCode) {
+        result.pickupCode = await getPickupCodeForHousehold(tx, serviceId, actor.householdId)
+      }
+
+      await tx.householdCheckin.createMany({
+        data: toCreate.map((member) => ({
+          serviceId,
+          householdMemberId: member.id,
+          checkedInById: actorId,
+          pickupCode: member.role === HouseholdMemberRole.CHILD ? result.pickupCode : null
+        })),
+        skipDuplicates: true
+      })
+
+      toCreate.forEach((member) => newlyCheckedIn.add(member.id))
+    }
+
+    for (const member of members) {
+      const list = newlyCheckedIn.has(member.id) ? result.checkedIn : result.alreadyCheckedIn
+      list.push(getHouseholdMemberName(member))
+    }
+
+    return result
+  })
+}
+
+/**
+ * Children waiting to be picked up under a code for a service.
+ */
+export async function findChildrenForPickup(serviceId: string, code: string) {
+  const pickupCode = normalizePickupCode(code)
+  if (pickupCode.length !== PICKUP_CODE_LENGTH) {
+    return []
+  }
+
+  const checkins = await prisma.householdCheckin.findMany({
+    where: { serviceId, pickupCode, pickedUpAt: null },
+    select: {
+      id: true,
+      checkedInAt: true,
+      householdMember: {
+        select: {
+          name: true,
+          notes: true,
+          household: { select: { name: true } }
+        }
+      }
+    },
+    orderBy: { checkedInAt: 'asc' }
+  })
+
+  return checkins.map((checkin) => ({
+    id: checkin.id,
+    name: getHouseholdMemberName(checkin.householdMember),
+    householdName: checkin.householdMember.household.name,
+    notes: checkin.householdMember.notes,
+    checkedInAt: checkin.checkedInAt
+  }))
+}
+
+/**
+ * Marks every child under the code as picked up. A code works once; after
+ * release it no longer matches anyone.
+ */
+export async function releaseChildrenForPickup({
+  serviceId,
+  code,
+  releasedById
+}: {
+  serviceId: string
+  code: string
+  releasedById: string
+}): Promise<number> {
+  const pickupCode = normalizePickupCode(code)
+  if (pickupCode.length !== PICKUP_CODE_LENGTH) {
+    throw new ApplicationError('NOT_FOUND', 'Pickup code not found or already used')
+  }
+
+  const result = await prisma.householdCheckin.updateMany({
+    where: { serviceId, pickupCode, pickedUpAt: null },
+    data: { pickedUpAt: new Date(), pickedUpById: releasedById }
+  })
+
+  if (result.count === 0) {
+    throw new ApplicationError('NOT_FOUND', 'Pickup code not found or already used')
+  }
+
+  return result.count
+}
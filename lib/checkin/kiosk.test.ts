@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    service: { findFirst: vi.fn() },
+    user: { findFirst: vi.fn(), update: vi.fn() },
+    checkin: { create: vi.fn() },
+    checkinKiosk: { update: vi.fn() },
+    auditLog: { create: vi.fn() }
+  }
+}))
+
+vi.mock('@/lib/pathways/auto-enroll', () => ({
+  autoEnrollInRoots: vi.fn()
+}))
+
+// Import functions after mocks
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { autoEnrollInRoots } from '@/lib/pathways/auto-enroll'
+import { checkInAtKiosk } from './kiosk'
+
+const db = prisma as any
+
+const kiosk = {
+  id: 'kiosk1',
+  name: 'Main lobby',
+  localChurchId: 'church1',
+  localChurch: { name: 'Manila' }
+}
+
+describe('Kiosk check-in', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.service.findFirst.mockResolvedValue({ id: 'service1', localChurchId: 'church1' })
+    db.user.findFirst.mockResolvedValue({ id: 'user1', name: 'Jane Doe' })
+    db.checkin.create.mockResolvedValue({ id: 'checkin1', checkedInAt: new Date() })
+  })
+
+  it('should only accept services at the kiosk church', async () => {
+    db.service.findFirst.mockResolvedValue(null)
+
+    await expect(
+      checkInAtKiosk(kiosk, { serviceId: 'other-service', userId: 'user1', isNewBeliever: false })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+
+    expect(db.service.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'other-service', localChurchId: 'church1' }
+    }))
+    expect(db.checkin.create).not.toHaveBeenCalled()
+  })
+
+  it('should reject members without an active membership at the kiosk church', async () => {
+    db.user.findFirst.mockResolvedValue(null)
+
+    await expect(
+      checkInAtKiosk(kiosk, { serviceId: 'service1', userId: 'outsider', isNewBeliever: false })
+    ).rejects.toMatchObject({ code: 'TENANT_MISMATCH' })
+
+    expect(db.user.findFirst.mock.calls[0][0].where.memberships).toEqual({
+      some: { localChurchId: 'church1', leftAt: null }
+    })
+    expect(db.checkin.create).not.toHaveBeenCalled()
+  })
+
+  it('should flag new believers and enroll them in ROOTS', async () => {
+    const result = await checkInAtKiosk(kiosk, { serviceId: 'service1', userId: 'user1', isNewBeliever: true })
+
+    expect(result.member.name).toBe('Jane Doe')
+    expect(db.checkin.create).toHaveBeenCalledWith({
+      data: { serviceId: 'service1', userId: 'user1', isNewBeliever: true }
+    })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user1' },
+      data: { isNewBeliever: true }
+    })
+    expect(autoEnrollInRoots).toHaveBeenCalledWith('user1', 'church1')
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: 'user1',
+        action: 'CHECKIN_CREATED',
+        entityId: 'service1',
+        localChurchId: 'church1',
+        meta: expect.objectContaining({ method: 'kiosk', kioskId: 'kiosk1' })
+      })
+    })
+  })
+
+  it('should report a duplicate check-in', async () => {
+    db.checkin.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    )
+
+    await expect(
+      checkInAtKiosk(kiosk, { serviceId: 'service1', userId: 'user1', isNewBeliever: false })
+    ).rejects.toMatchObject({ code: 'DUPLICATE_ENTRY' })
+    expect(autoEnrollInRoots).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Lobby check-in kiosks.
+ *
+ * A kiosk is bound to one LocalChurch. An admin launches it on a tablet, which
+ * stores a random device token in an httpOnly cookie; only the token's hash is
+ * kept on the kiosk row, and relaunching elsewhere rotates it. Every kiosk
+ * request is resolved from that cookie rather than from a user session, so the
+ * device never holds a signed-in account.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { Prisma, MemberStatus } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { autoEnrollInRoots } from '@/lib/pathways/auto-enroll'
+import { findCurrentService } from '@/lib/services/schedules'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+
+export const KIOSK_COOKIE_NAME = 'drouple_kiosk'
+export const KIOSK_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 180
+export const KIOSK_SEARCH_LIMIT = 8
+
+export const kioskPinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits')
+
+export interface KioskContext {
+  id: string
+  name: string
+  localChurchId: string
+  localChurch: { name: string }
+}
+
+export interface KioskMemberResult {
+  id: string
+  name: string
+  phoneHint: string | null
+  checkedIn: boolean
+}
+
+function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issues a new device token for the kiosk, invalidating the device it was
+ * previously launched on.
+ */
+export async function issueKioskDeviceToken(kioskId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url')
+
+  await prisma.checkinKiosk.update({
+    where: { id: kioskId },
+    data: {
+      deviceTokenHash: hashDeviceToken(token),
+      launchedAt: new Date()
+    }
+  })
+
+  return token
+}
+
+export async function getKioskByDeviceToken(token: string | undefined): Promise<KioskContext | null> {
+  if (!token) {
+    return null
+  }
+
+  return prisma.checkinKiosk.findFirst({
+    where: { deviceTokenHash: hashDeviceToken(token), isActive: true },
+    select: {
+      id: true,
+      name: true,
+      localChurchId: true,
+      localChurch: { select: { name: true } }
+    }
+  })
+}
+
+export async function getCurrentKiosk(): Promise<KioskContext | null> {
+  const cookieStore = await cookies()
+  return getKioskByDeviceToken(cookieStore.get(KIOSK_COOKIE_NAME)?.value)
+}
+
+/**
+ * The service members check in to from this kiosk: whichever service at the
+ * kiosk's church currently has check-in open.
+ */
+export async function findKioskService(localChurchId: string, now: Date = new Date()) {
+  return findCurrentService(
+    { localChurchId },
+    { _count: { select: { checkins: true } } },
+    now
+  )
+}
+
+function getPhoneHint(phone: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? ''
+  return digits.length >= 4 ? `•••${digits.slice(-4)}` : null
+}
+
+/**
+ * Finds active members of the kiosk's church by name or phone number. Results
+ * carry only what a person needs to recognise themselves on a shared screen.
+ */
+export async function searchKioskMembers(
+  kiosk: KioskContext,
+  serviceId: string,
+  query: string
+): Promise<KioskMemberResult[]> {
+  const term = query.trim()
+  if (term.length < 2) {
+    return []
+  }
+
+  const digits = term.replace(/\D/g, '')
+  const searchConditions: Prisma.UserWhereInput[] = [
+    { name: { contains: term, mode: 'insensitive' } }
+  ]
+  if (digits.length >= 4) {
+    searchConditions.push({ phone: { contains: digits } })
+  }
+
+  const members = await prisma.user.findMany({
+    where: {
+      memberStatus: { not: MemberStatus.INACTIVE },
+      memberships: { some: { localChurchId: kiosk.localChurchId, leftAt: null } },
+      OR: searchConditions
+    },
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+      checkins: { where: { serviceId }, select: { id: true } }
+    },
+    orderBy: { name: 'asc' },
+    take: KIOSK_SEARCH_LIMIT
+  })
+
+  return members.map((member) => ({
+    id: member.id,
+    name: member.name || 'Member',
+    phoneHint: getPhoneHint(member.phone),
+    checkedIn: member.checkins.length > 0
+  }))
+}
+
+/**
+ * Checks a member in at the kiosk. The service and the member must both belong
+ * to the kiosk's church; new believers get the same flag and ROOTS enrollment
+ * as checkIn in app/checkin/actions.ts.
+ */
+export async function checkInAtKiosk(
+  kiosk: KioskContext,
+  { serviceId, userId, isNewBeliever }: { serviceId: string; userId: string; isNewBeliever: boolean }
+) {
+  const service = await prisma.service.findFirst({
+    where: { id: serviceId, localChurchId: kiosk.localChurchId },
+    select: { id: true, localChurchId: true }
+  })
+
+  if (!service) {
+    throw new ApplicationError('NOT_FOUND', 'Service not found for this kiosk')
+  }
+
+  const member = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      memberStatus: { not: MemberStatus.INACTIVE },
+      memberships: { some: { localChurchId: kiosk.localChurchId, leftAt: null } }
+    },
+    select: { id: true, name: true }
+  })
+
+  if (!member) {
+    throw new ApplicationError('TENANT_MISMATCH', 'Member not found at this church')
+  }
+
+  const checkin = await prisma.checkin.create({
+    data: { serviceId: service.id, userId: member.id, isNewBeliever }
+  }).catch((error: unknown) => {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApplicationError('DUPLICATE_ENTRY', 'Already checked in for this service')
+    }
+    throw error
+  })
+
+  if (isNewBeliever) {
+    await prisma.user.update({
+      where: { id: member.id },
+      data: { isNewBeliever: true }
+    })
+    await autoEnrollInRoots(member.id, service.localChurchId)
+  }
+
+  await prisma.checkinKiosk.update({
+    where: { id: kiosk.id },
+    data: { lastSeenAt: new Date() }
+  })
+
+  // Kiosks have no signed-in account, so the member is recorded as the actor
+  await prisma.auditLog.create({
+    data: {
+      actorId: member.id,
+      action: 'CHECKIN_CREATED',
+      entity: 'Service',
+      entityId: service.id,
+      localChurchId: service.localChurchId,
+      meta: { method: 'kiosk', kioskId: kiosk.id, kioskName: kiosk.name, isNewBeliever }
+    }
+  })
+
+  publishRealtimeEvent('attendance.created', service.localChurchId, {
+    id: checkin.id,
+    serviceId: service.id,
+    memberId: member.id,
+    checkedInAt: checkin.checkedInAt.toISOString(),
+    count: 1
+  })
+
+  return { checkin, member }
+}
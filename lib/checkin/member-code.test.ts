@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn()
+    }
+  }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  createMemberCheckinCode,
+  parseMemberCheckinCode,
+  resolveMemberCheckinCode
+} from './member-code'
+
+const db = prisma as any
+
+describe('Member check-in codes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('AUTH_SECRET', 'test-signing-secret-for-member-codes')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should round-trip a signed code', () => {
+    const code = createMemberCheckinCode('clxuser1', 3)
+
+    expect(code.startsWith('drouple:member:clxuser1.3.')).toBe(true)
+    expect(parseMemberCheckinCode(code)).toEqual({ userId: 'clxuser1', version: 3 })
+  })
+
+  it('should reject tampered and unrelated codes', () => {
+    const code = createMemberCheckinCode('clxuser1', 0)
+    const forgedUser = code.replace('clxuser1', 'clxadmin')
+    const forgedVersion = code.replace('clxuser1.0.', 'clxuser1.1.')
+
+    expect(parseMemberCheckinCode(forgedUser)).toBeNull()
+    expect(parseMemberCheckinCode(forgedVersion)).toBeNull()
+    expect(parseMemberCheckinCode('drouple:member:clxuser1')).toBeNull()
+    expect(parseMemberCheckinCode('https://example.com')).toBeNull()
+  })
+
+  it('should reject codes signed with a different secret', () => {
+    const code = createMemberCheckinCode('clxuser1', 0)
+    vi.stubEnv('AUTH_SECRET', 'another-deployment-secret')
+
+    expect(parseMemberCheckinCode(code)).toBeNull()
+  })
+
+  it('should only resolve the current version of a code', async () => {
+    db.user.findFirst.mockResolvedValue(null)
+
+    const resolved = await resolveMemberCheckinCode(createMemberCheckinCode('clxuser1', 1))
+
+    expect(resolved).toBeNull()
+    expect(db.user.findFirst).toHaveBeenCalledWith({
+      where: { id: 'clxuser1', checkinCodeVersion: 1 },
+      select: { id: true }
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Personal member check-in codes.
+ *
+ * A code encodes the user id and a version, signed with the auth secret:
+ *   drouple:member:<userId>.<version>.<signature>
+ * Members rotate their code by bumping User.checkinCodeVersion, which makes
+ * every previously issued code stop resolving.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { getNextAuthSecret } from '@/lib/env-utils'
+
+const MEMBER_CODE_PREFIX = 'drouple:member:'
+
+function getSigningKey(): string {
+  const secret = getNextAuthSecret()
+  if (!secret) {
+    throw new ApplicationError('SERVER_ERROR', 'Check-in code signing secret is not configured')
+  }
+  return secret
+}
+
+function sign(userId: string, version: number): Buffer {
+  return createHmac('sha256', getSigningKey())
+    .update(`checkin:${userId}.${version}`)
+    .digest()
+    .subarray(0, 16)
+}
+
+export function createMemberCheckinCode(userId: string, version: number): string {
+  return `${MEMBER_CODE_PREFIX}${userId}.${version}.${sign(userId, version).toString('base64url')}`
+}
+
+/**
+ * Verifies the signature of a scanned code and returns what it claims. Does
+ * not check the version against the database; see resolveMemberCheckinCode.
+ */
+export function parseMemberCheckinCode(text: string): { userId: string; version: number } | null {
+  const value = text.trim()
+  if (!value.startsWith(MEMBER_CODE_PREFIX)) {
+    return null
+  }
+
+  const [userId, versionPart, signaturePart, ...rest] = value.slice(MEMBER_CODE_PREFIX.length).split('.')
+  if (rest.length > 0 || !userId || !signaturePart || !/^[a-z0-9]+$/i.test(userId) || !/^\d+$/.test(versionPart ?? '')) {
+    return null
+  }
+
+  const version = Number(versionPart)
+  const expected = sign(userId, version)
+  const actual = Buffer.from(signaturePart, 'base64url')
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null
+  }
+
+  return { userId, version }
+}
+
+/**
+ * Returns the user id for a scanned code, or null when the code is forged,
+ * malformed or has been rotated away.
+ */
+export async function resolveMemberCheckinCode(text: string): Promise<string | null> {
+  const parsed = parseMemberCheckinCode(text)
+  if (!parsed) {
+    return null
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: parsed.userId, checkinCodeVersion: parsed.version },
+    select: { id: true }
+  })
+
+  return user?.id ?? null
+}
+
+export async function getMemberCheckinQrCode(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { checkinCodeVersion: true }
+  })
+
+  if (!user) {
+    return null
+  }
+
+  return QRCode.toDataURL(createMemberCheckinCode(userId, user.checkinCodeVersion), {
+    errorCorrectionLevel: 'M',
+    margin: 2,
+    width: 320
+  })
+}
+
+export async function rotateMemberCheckinCode(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { checkinCodeVersion: { increment: 1 } }
+  })
+}
@@ -0,0 +1,58 @@
+import { getNextAuthUrl } from '@/lib/env-utils'
+import { sendEmail } from './outbox'
+import type { EmailLocale } from './templates'
+
+export {
+  deliverEmail,
+  processEmailOutbox,
+  queueEmail,
+  sendEmail,
+  EMAIL_MAX_ATTEMPTS,
+  type QueueEmailInput,
+  type QueueEmailResult
+} from './outbox'
+export {
+  renderEmailTemplate,
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  type EmailLocale,
+  type EmailTemplateData,
+  type EmailTemplateName
+} from './templates'
+export { getEmailTransport, type EmailTransport } from './transports'
+
+/** Absolute link into the app for use in email bodies */
+export function getAppUrl(pathname: string = '/'): string {
+  const baseUrl = getNextAuthUrl() || 'https://drouple.app'
+  return `${baseUrl.replace(/\/$/, '')}${pathname}`
+}
+
+export async function sendPasswordResetEmail(
+  userEmail: string,
+  userName: string,
+  resetUrl: string,
+  {
+    expiresInMinutes,
+    requestedByAdmin = false,
+    userId,
+    locale
+  }: { expiresInMinutes: number; requestedByAdmin?: boolean; userId?: string; locale?: EmailLocale }
+) {
+  const result = await sendEmail({
+    template: 'passwordReset',
+    to: userEmail,
+    userId,
+    locale,
+    data: { name: userName, resetUrl, expiresInMinutes, requestedByAdmin }
+  })
+
+  if (!result.delivered) {
+    return {
+      success: false,
+      queued: result.queued,
+      error: result.queued ? 'Email queued for retry' : 'Failed to send email'
+    }
+  }
+
+  return { success: true, queued: true }
+}
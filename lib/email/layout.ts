@@ -0,0 +1,136 @@
+/**
+ * Shared shell for every Drouple email. Templates describe their content as
+ * plain strings and this renders the branded HTML and the text alternative,
+ * escaping everything that came from user data.
+ */
+
+export interface EmailSectionItem {
+  title: string
+  detail?: string
+  url?: string
+}
+
+export interface EmailContent {
+  subject: string
+  greeting: string
+  paragraphs: string[]
+  action?: { label: string; url: string }
+  notice?: string
+  sections?: { title: string; items: EmailSectionItem[]; empty?: string }[]
+  fallbackLink?: string
+  footer: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const BRAND_COLOR = '#1e7ce8'
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderSectionsHtml(sections: NonNullable<EmailContent['sections']>): string {
+  return sections.map(section => {
+    const items = section.items.length === 0
+      ? `<p style="color: #888; font-size: 14px; margin: 0;">${escapeHtml(section.empty ?? '')}</p>`
+      : `<ul style="padding-left: 20px; margin: 0;">${section.items.map(item => {
+        const title = item.url
+          ? `<a href="${escapeHtml(item.url)}" style="color: ${BRAND_COLOR}; text-decoration: none;">${escapeHtml(item.title)}</a>`
+          : escapeHtml(item.title)
+        const detail = item.detail ? `<br><span style="color: #888; font-size: 13px;">${escapeHtml(item.detail)}</span>` : ''
+        return `<li style="color: #555; line-height: 1.6; margin-bottom: 8px;">${title}${detail}</li>`
+      }).join('')}</ul>`
+
+    return `
+          <h3 style="color: #333; margin: 24px 0 8px;">${escapeHtml(section.title)}</h3>
+          ${items}`
+  }).join('')
+}
+
+function renderSectionsText(sections: NonNullable<EmailContent['sections']>): string[] {
+  return sections.flatMap(section => [
+    section.title.toUpperCase(),
+    ...(section.items.length === 0
+      ? [section.empty ?? '']
+      : section.items.map(item => [
+        `- ${item.title}`,
+        item.detail ? `  ${item.detail}` : null,
+        item.url ? `  ${item.url}` : null
+      ].filter(Boolean).join('\n'))),
+    ''
+  ])
+}
+
+export function renderEmail(content: EmailContent): RenderedEmail {
+  const paragraphs = content.paragraphs
+    .map(paragraph => `<p style="color: #555; line-height: 1.6;">${escapeHtml(paragraph)}</p>`)
+    .join('\n          ')
+
+  const action = content.action
+    ? `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(content.action.url)}" style="background: ${BRAND_COLOR}; color: #fff; padding: 12px 24px; border-radius: 8px; text-decoration: none; display: inline-block;">${escapeHtml(content.action.label)}</a>
+          </div>`
+    : ''
+
+  const notice = content.notice
+    ? `
+          <div style="background: #fff3cd; border: 1px solid #ffeaa7; border-radius: 8px; padding: 15px; margin: 20px 0;">
+            <p style="margin: 0; color: #856404; font-size: 14px;">${escapeHtml(content.notice)}</p>
+          </div>`
+    : ''
+
+  const fallback = content.action && content.fallbackLink
+    ? `
+          <p style="color: #555; line-height: 1.6; word-break: break-all;">
+            ${escapeHtml(content.fallbackLink)} <a href="${escapeHtml(content.action.url)}" style="color: ${BRAND_COLOR}; text-decoration: none;">${escapeHtml(content.action.url)}</a>
+          </p>`
+    : ''
+
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: ${BRAND_COLOR}; margin: 0;">Drouple</h1>
+            <p style="color: #666; margin-top: 5px;">Church Management System</p>
+          </div>
+
+          <h2 style="color: #333; margin-bottom: 20px;">${escapeHtml(content.subject)}</h2>
+
+          <p style="color: #555; line-height: 1.6;">${escapeHtml(content.greeting)}</p>
+
+          ${paragraphs}
+          ${content.sections ? renderSectionsHtml(content.sections) : ''}
+          ${action}
+          ${notice}
+          ${fallback}
+
+          <hr style="border: none; border-top: 1px solid #e9ecef; margin: 30px 0;">
+
+          <p style="color: #888; font-size: 12px; text-align: center; margin: 0;">
+            ${escapeHtml(content.footer)}
+          </p>
+        </div>
+      `
+
+  const text = [
+    content.greeting,
+    '',
+    ...content.paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(content.sections ? renderSectionsText(content.sections) : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    ...(content.notice ? [content.notice, ''] : []),
+    '--',
+    content.footer
+  ].join('\n')
+
+  return { subject: content.subject, html, text }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EmailStatus, NotificationCategory } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    emailMessage: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('@/lib/notifications/preferences', () => ({
+  filterRecipientsByPreference: vi.fn()
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { filterRecipientsByPreference } from '@/lib/notifications/preferences'
+import { deliverEmail, getRetryDelayMinutes, processEmailOutbox, queueEmail } from './outbox'
+import type { EmailTransport } from './transports'
+
+const db = prisma as any
+
+const eventData = {
+  name: 'Jane',
+  eventName: 'Retreat',
+  startDateTime: new Date('2026-11-07T10:00:00Z'),
+  location: null,
+  waitlisted: false,
+  eventUrl: 'https://drouple.app/events/e1'
+}
+
+function storedMessage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'email1',
+    template: 'eventConfirmation',
+    to: 'jane@example.com',
+    subject: 'Subject',
+    html: '<p>Hi</p>',
+    text: 'Hi',
+    attempts: 1,
+    maxAttempts: 5,
+    ...overrides
+  }
+}
+
+describe('queueEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.emailMessage.create.mockResolvedValue({ id: 'email1' })
+  })
+
+  it('should skip users who turned email off for the category', async () => {
+    vi.mocked(filterRecipientsByPreference).mockResolvedValue([])
+
+    const result = await queueEmail({ template: 'eventConfirmation', to: 'jane@example.com', userId: 'user1', data: eventData })
+
+    expect(result).toEqual({ queued: false, reason: 'opted_out' })
+    expect(filterRecipientsByPreference).toHaveBeenCalledWith(['user1'], {
+      channel: 'email',
+      category: NotificationCategory.EVENT_REMINDERS
+    })
+    expect(db.emailMessage.create).not.toHaveBeenCalled()
+  })
+
+  it('should always queue transactional mail', async () => {
+    const result = await queueEmail({
+      template: 'passwordReset',
+      to: 'jane@example.com',
+      userId: 'user1',
+      data: { name: 'Jane', resetUrl: 'https://drouple.app/reset', expiresInMinutes: 60, requestedByAdmin: false }
+    })
+
+    expect(result).toEqual({ queued: true, messageId: 'email1' })
+    expect(filterRecipientsByPreference).not.toHaveBeenCalled()
+    expect(db.emailMessage.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ template: 'passwordReset', to: 'jane@example.com', subject: 'Reset your Drouple password' })
+    }))
+  })
+})
+
+describe('deliverEmail', () => {
+  const transport: EmailTransport = { name: 'console', send: vi.fn() }
+  const now = new Date('2026-10-20T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.emailMessage.updateMany.mockResolvedValue({ count: 1 })
+    db.emailMessage.findUniqueOrThrow.mockResolvedValue(storedMessage())
+  })
+
+  it('should mark the message sent', async () => {
+    vi.mocked(transport.send).mockResolvedValue({ providerMessageId: 'provider1' })
+
+    const status = await deliverEmail('email1', { transport, now })
+
+    expect(status).toBe(EmailStatus.SENT)
+    expect(db.emailMessage.updateMany).toHaveBeenCalledWith({
+      where: { id: 'email1', status: EmailStatus.PENDING },
+      data: { status: EmailStatus.SENDING, attempts: { increment: 1 } }
+    })
+    expect(db.emailMessage.update).toHaveBeenCalledWith({
+      where: { id: 'email1' },
+      data: expect.objectContaining({ status: EmailStatus.SENT, providerMessageId: 'provider1', transport: 'console' })
+    })
+  })
+
+  it('should not send a message another worker already claimed', async () => {
+    db.emailMessage.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await deliverEmail('email1', { transport, now })).toBeNull()
+    expect(transport.send).not.toHaveBeenCalled()
+  })
+
+  it('should back off after a failure and give up after the last attempt', async () => {
+    vi.mocked(transport.send).mockRejectedValue(new Error('SMTP timeout'))
+
+    expect(await deliverEmail('email1', { transport, now })).toBe(EmailStatus.PENDING)
+    expect(db.emailMessage.update.mock.calls[0][0].data).toMatchObject({
+      status: EmailStatus.PENDING,
+      lastError: 'SMTP timeout',
+      nextAttemptAt: new Date(now.getTime() + getRetryDelayMinutes(1) * 60 * 1000)
+    })
+
+    db.emailMessage.findUniqueOrThrow.mockResolvedValue(storedMessage({ attempts: 5 }))
+    expect(await deliverEmail('email1', { transport, now })).toBe(EmailStatus.FAILED)
+  })
+
+  it('should keep mail queued when no transport is configured', async () => {
+    expect(await deliverEmail('email1', { transport: null, now })).toBe(EmailStatus.PENDING)
+    expect(db.emailMessage.update.mock.calls[0][0].data.lastError).toBe('No email transport configured')
+  })
+})
+
+describe('processEmailOutbox', () => {
+  it('should release stale claims and deliver due messages', async () => {
+    vi.clearAllMocks()
+    const transport: EmailTransport = { name: 'console', send: vi.fn().mockResolvedValue({ providerMessageId: null }) }
+    db.emailMessage.updateMany.mockResolvedValue({ count: 1 })
+    db.emailMessage.findMany.mockResolvedValue([{ id: 'email1' }, { id: 'email2' }])
+    db.emailMessage.findUniqueOrThrow.mockResolvedValue(storedMessage())
+
+    const result = await processEmailOutbox({ transport, now: new Date('2026-10-20T00:00:00Z') })
+
+    expect(db.emailMessage.updateMany.mock.calls[0][0].where.status).toBe(EmailStatus.SENDING)
+    expect(result).toEqual({ processed: 2, sent: 2, retrying: 0, failed: 0, released: 1 })
+  })
+})
@@ -0,0 +1,227 @@
+import { EmailStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { emailLogger } from '@/lib/logger'
+import { filterRecipientsByPreference } from '@/lib/notifications/preferences'
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EmailLocale,
+  EmailTemplateData,
+  EmailTemplateName,
+  getEmailTemplate,
+  renderEmailTemplate
+} from './templates'
+import { EmailTransport, getEmailFrom, getEmailTransport } from './transports'
+
+/**
+ * Email outbox.
+ *
+ * Messages are rendered and stored when queued, then delivered by
+ * deliverEmail (immediately, for mail the user is waiting on) or by the
+ * process-email-outbox job. A failed attempt is retried with exponential
+ * backoff until maxAttempts, after which the row is marked FAILED and kept
+ * for inspection.
+ */
+
+export const EMAIL_MAX_ATTEMPTS = 5
+export const EMAIL_OUTBOX_BATCH_SIZE = 50
+
+const MAX_RETRY_DELAY_MINUTES = 6 * 60
+const STALE_SENDING_MINUTES = 10
+const ERROR_MAX_LENGTH = 500
+
+export interface QueueEmailInput<T extends EmailTemplateName> {
+  template: T
+  to: string
+  data: EmailTemplateData[T]
+  userId?: string | null
+  localChurchId?: string | null
+  locale?: EmailLocale
+}
+
+export type QueueEmailResult =
+  | { queued: true; messageId: string }
+  | { queued: false; reason: 'opted_out' | 'error' }
+
+/** Minutes to wait after the given (1-based) failed attempt */
+export function getRetryDelayMinutes(attempt: number): number {
+  return Math.min(2 ** attempt, MAX_RETRY_DELAY_MINUTES)
+}
+
+/**
+ * Renders a template and stores it in the outbox. Non-transactional mail to
+ * a known user is dropped when their email preferences exclude it. Never
+ * throws, so a mail problem can't fail the action that caused it.
+ */
+export async function queueEmail<T extends EmailTemplateName>(input: QueueEmailInput<T>): Promise<QueueEmailResult> {
+  try {
+    const template = getEmailTemplate(input.template)
+
+    if (!template.transactional && input.userId) {
+      const allowed = await filterRecipientsByPreference([input.userId], {
+        channel: 'email',
+        category: template.category
+      })
+      if (allowed.length === 0) {
+        return { queued: false, reason: 'opted_out' }
+      }
+    }
+
+    const locale = input.locale ?? DEFAULT_EMAIL_LOCALE
+    const rendered = renderEmailTemplate(input.template, input.data, locale)
+
+    const message = await prisma.emailMessage.create({
+      data: {
+        template: input.template,
+        locale,
+        to: input.to,
+        userId: input.userId ?? null,
+        localChurchId: input.localChurchId ?? null,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        maxAttempts: EMAIL_MAX_ATTEMPTS
+      },
+      select: { id: true }
+    })
+
+    return { queued: true, messageId: message.id }
+  } catch (error) {
+    emailLogger.error('Failed to queue email', { error, template: input.template, userId: input.userId })
+    return { queued: false, reason: 'error' }
+  }
+}
+
+/**
+ * Attempts delivery of one queued message. The PENDING -> SENDING claim is a
+ * conditional update, so a message picked up by two workers is only sent once.
+ */
+export async function deliverEmail(
+  messageId: string,
+  {
+    transport = getEmailTransport(),
+    now = new Date()
+  }: { transport?: EmailTransport | null; now?: Date } = {}
+): Promise<EmailStatus | null> {
+  const claimed = await prisma.emailMessage.updateMany({
+    where: { id: messageId, status: EmailStatus.PENDING },
+    data: { status: EmailStatus.SENDING, attempts: { increment: 1 } }
+  })
+
+  if (claimed.count === 0) {
+    return null
+  }
+
+  const message = await prisma.emailMessage.findUniqueOrThrow({ where: { id: messageId } })
+
+  try {
+    if (!transport) {
+      throw new Error('No email transport configured')
+    }
+
+    const { providerMessageId } = await transport.send({
+      id: message.id,
+      from: getEmailFrom(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text
+    })
+
+    await prisma.emailMessage.update({
+      where: { id: messageId },
+      data: {
+        status: EmailStatus.SENT,
+        sentAt: now,
+        transport: transport.name,
+        providerMessageId,
+        lastError: null
+      }
+    })
+
+    return EmailStatus.SENT
+  } catch (error) {
+    const exhausted = message.attempts >= message.maxAttempts
+    const status = exhausted ? EmailStatus.FAILED : EmailStatus.PENDING
+    const lastError = (error instanceof Error ? error.message : String(error)).slice(0, ERROR_MAX_LENGTH)
+
+    await prisma.emailMessage.update({
+      where: { id: messageId },
+      data: {
+        status,
+        lastError,
+        transport: transport?.name ?? null,
+        nextAttemptAt: new Date(now.getTime() + getRetryDelayMinutes(message.attempts) * 60 * 1000)
+      }
+    })
+
+    emailLogger.error(exhausted ? 'Email delivery failed permanently' : 'Email delivery failed, will retry', {
+      messageId,
+      template: message.template,
+      attempts: message.attempts,
+      error: lastError
+    })
+
+    return status
+  }
+}
+
+/**
+ * Queues a message and tries to deliver it straight away. When the attempt
+ * fails the message stays in the outbox for the retry job.
+ */
+export async function sendEmail<T extends EmailTemplateName>(
+  input: QueueEmailInput<T>
+): Promise<QueueEmailResult & { delivered: boolean }> {
+  const result = await queueEmail(input)
+  if (!result.queued) {
+    return { ...result, delivered: false }
+  }
+
+  try {
+    const status = await deliverEmail(result.messageId)
+    return { ...result, delivered: status === EmailStatus.SENT }
+  } catch (error) {
+    emailLogger.error('Immediate email delivery failed', { error, messageId: result.messageId })
+    return { ...result, delivered: false }
+  }
+}
+
+/**
+ * Delivers every due message, oldest first. Messages stuck in SENDING (a
+ * worker died mid-send) are released back to PENDING first.
+ */
+export async function processEmailOutbox({
+  limit = EMAIL_OUTBOX_BATCH_SIZE,
+  now = new Date(),
+  transport = getEmailTransport()
+}: { limit?: number; now?: Date; transport?: EmailTransport | null } = {}) {
+  const released = await prisma.emailMessage.updateMany({
+    where: {
+      status: EmailStatus.SENDING,
+      updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000) }
+    },
+    data: { status: EmailStatus.PENDING }
+  })
+
+  const due = await prisma.emailMessage.findMany({
+    where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit
+  })
+
+  const result = { processed: due.length, sent: 0, retrying: 0, failed: 0, released: released.count }
+
+  for (const { id } of due) {
+    const status = await deliverEmail(id, { transport, now })
+    if (status === EmailStatus.SENT) {
+      result.sent++
+    } else if (status === EmailStatus.PENDING) {
+      result.retrying++
+    } else if (status === EmailStatus.FAILED) {
+      result.failed++
+    }
+  }
+
+  return result
+}
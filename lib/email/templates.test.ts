@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+// Import functions after mocks
+import { EMAIL_LOCALES, renderEmailTemplate } from './templates'
+
+describe('renderEmailTemplate', () => {
+  it('should render the password reset link in HTML and text', () => {
+    const email = renderEmailTemplate('passwordReset', {
+      name: 'Jane',
+      resetUrl: 'https://drouple.app/auth/reset-password?token=abc',
+      expiresInMinutes: 60,
+      requestedByAdmin: true
+    })
+
+    expect(email.subject).toBe('Reset your Drouple password')
+    expect(email.html).toContain('href="https://drouple.app/auth/reset-password?token=abc"')
+    expect(email.text).toContain('Reset Password: https://drouple.app/auth/reset-password?token=abc')
+    expect(email.text).toContain('church administrator')
+  })
+
+  it('should escape user-provided values in HTML', () => {
+    const email = renderEmailTemplate('eventConfirmation', {
+      name: '<script>alert(1)</script>',
+      eventName: 'Youth & Young Adults',
+      startDateTime: new Date('2026-11-07T10:00:00Z'),
+      location: null,
+      waitlisted: false,
+      eventUrl: 'https://drouple.app/events/e1'
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;')
+    expect(email.html).toContain('Youth &amp; Young Adults')
+    expect(email.text).toContain('Youth & Young Adults')
+  })
+
+  it('should render every locale', () => {
+    for (const locale of EMAIL_LOCALES) {
+      const email = renderEmailTemplate('waitlistPromotion', {
+        name: 'Jane',
+        eventName: 'Retreat',
+        startDateTime: new Date('2026-11-07T10:00:00Z'),
+        location: 'Tagaytay',
+        eventUrl: 'https://drouple.app/events/e1'
+      }, locale)
+
+      expect(email.subject).toContain('Retreat')
+      expect(email.text).toContain('Tagaytay')
+    }
+
+    expect(renderEmailTemplate('welcome', {
+      name: 'Jane',
+      churchName: 'HPCI Manila',
+      signInUrl: 'https://drouple.app/auth/signin'
+    }, 'fil').subject).toBe('Maligayang pagdating sa HPCI Manila')
+  })
+
+  it('should flag urgent announcements in the subject', () => {
+    const data = {
+      name: 'Jane',
+      churchName: 'HPCI Manila',
+      title: 'Service moved online',
+      content: 'Typhoon signal no. 3 is up.',
+      urgent: true,
+      announcementUrl: 'https://drouple.app/announcements'
+    }
+
+    expect(renderEmailTemplate('announcement', data).subject).toBe('Urgent: Service moved online')
+    expect(renderEmailTemplate('announcement', { ...data, urgent: false }).subject).toBe('Service moved online')
+    expect(renderEmailTemplate('announcement', data).text).toContain('Typhoon signal no. 3 is up.')
+  })
+
+  it('should list empty digest sections with a placeholder', () => {
+    const email = renderEmailTemplate('weeklyDigest', {
+      name: 'Jane',
+      churchName: 'HPCI Manila',
+      periodLabel: 'Oct 26 – Nov 1',
+      announcements: [{ title: 'Building fund update', url: 'https://drouple.app/announcements' }],
+      events: [],
+      lifeGroup: null,
+      pathwaySteps: [],
+      manageUrl: 'https://drouple.app/dashboard'
+    })
+
+    expect(email.text).toContain('- Building fund update')
+    expect(email.text).toContain('No upcoming events.')
+    expect(email.text).not.toContain('Your LifeGroup')
+  })
+})
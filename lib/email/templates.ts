@@ -0,0 +1,407 @@
+import { NotificationCategory } from '@prisma/client'
+import { DEFAULT_SERVICE_TIME_ZONE } from '@/lib/services/schedules'
+import { EmailContent, RenderedEmail, renderEmail } from './layout'
+
+/**
+ * Typed email templates.
+ *
+ * Every template declares the data it needs and provides copy for each
+ * supported locale; the compiler rejects a template that is missing a
+ * locale. `category` ties a template to the notification preference that can
+ * mute it, and transactional templates (account access) ignore preferences.
+ */
+
+export const EMAIL_LOCALES = ['en', 'fil'] as const
+export type EmailLocale = (typeof EMAIL_LOCALES)[number]
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en'
+
+export function isEmailLocale(value: string | null | undefined): value is EmailLocale {
+  return !!value && (EMAIL_LOCALES as readonly string[]).includes(value)
+}
+
+export interface DigestEvent {
+  name: string
+  startDateTime: Date
+  location: string | null
+  url: string
+}
+
+export interface DigestStep {
+  pathwayName: string
+  stepName: string
+  dueDate: Date | null
+  url: string
+}
+
+export interface EmailTemplateData {
+  welcome: {
+    name: string
+    churchName: string
+    signInUrl: string
+  }
+  invitation: {
+    name: string
+    churchName: string
+    inviterName: string
+    roleLabel: string
+    acceptUrl: string
+    expiresInDays: number
+  }
+  passwordReset: {
+    name: string
+    resetUrl: string
+    expiresInMinutes: number
+    requestedByAdmin: boolean
+  }
+  eventConfirmation: {
+    name: string
+    eventName: string
+    startDateTime: Date
+    location: string | null
+    waitlisted: boolean
+    eventUrl: string
+  }
+  waitlistPromotion: {
+    name: string
+    eventName: string
+    startDateTime: Date
+    location: string | null
+    eventUrl: string
+  }
+  announcement: {
+    name: string
+    churchName: string
+    title: string
+    content: string
+    urgent: boolean
+    announcementUrl: string
+  }
+  weeklyDigest: {
+    name: string
+    churchName: string
+    periodLabel: string
+    announcements: { title: string; url: string }[]
+    events: DigestEvent[]
+    lifeGroup: { name: string; nextMeeting: Date | null; url: string } | null
+    pathwaySteps: DigestStep[]
+    manageUrl: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+interface EmailTemplate<T extends EmailTemplateName> {
+  /** Transactional mail is always sent; everything else honours NotificationPreference.email */
+  transactional: boolean
+  category: NotificationCategory | null
+  copy: Record<EmailLocale, (data: EmailTemplateData[T]) => EmailContent>
+}
+
+const INTL_LOCALES: Record<EmailLocale, string> = {
+  en: 'en-US',
+  fil: 'fil-PH'
+}
+
+function formatDateTime(date: Date, locale: EmailLocale): string {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: DEFAULT_SERVICE_TIME_ZONE
+  }).format(date)
+}
+
+function formatDate(date: Date, locale: EmailLocale): string {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: DEFAULT_SERVICE_TIME_ZONE
+  }).format(date)
+}
+
+const FOOTER: Record<EmailLocale, string> = {
+  en: 'This email was sent automatically by the Drouple church management system.',
+  fil: 'Awtomatikong ipinadala ang email na ito ng Drouple church management system.'
+}
+
+const FALLBACK_LINK: Record<EmailLocale, string> = {
+  en: 'If the button does not work, copy this link into your browser:',
+  fil: 'Kung hindi gumana ang button, kopyahin ang link na ito sa iyong browser:'
+}
+
+const templates: { [T in EmailTemplateName]: EmailTemplate<T> } = {
+  welcome: {
+    transactional: true,
+    category: null,
+    copy: {
+      en: (data) => ({
+        subject: `Welcome to ${data.churchName}`,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [
+          `Your Drouple account for ${data.churchName} is ready.`,
+          'Sign in to check in to services, RSVP to events, join a LifeGroup and follow your discipleship pathway.'
+        ],
+        action: { label: 'Sign In', url: data.signInUrl },
+        fallbackLink: FALLBACK_LINK.en,
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: `Maligayang pagdating sa ${data.churchName}`,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [
+          `Handa na ang iyong Drouple account para sa ${data.churchName}.`,
+          'Mag-sign in para mag-check in sa mga service, mag-RSVP sa mga event, sumali sa isang LifeGroup at sundan ang iyong discipleship pathway.'
+        ],
+        action: { label: 'Mag-sign In', url: data.signInUrl },
+        fallbackLink: FALLBACK_LINK.fil,
+        footer: FOOTER.fil
+      })
+    }
+  },
+  invitation: {
+    transactional: true,
+    category: null,
+    copy: {
+      en: (data) => ({
+        subject: `You're invited to join ${data.churchName} on Drouple`,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [
+          `${data.inviterName} has invited you to join ${data.churchName} on Drouple as ${data.roleLabel}.`,
+          'Use the button below to accept the invitation and choose your password.'
+        ],
+        action: { label: 'Accept Invitation', url: data.acceptUrl },
+        notice: `This invitation expires in ${data.expiresInDays} days. If you were not expecting it, you can ignore this email.`,
+        fallbackLink: FALLBACK_LINK.en,
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: `Inaanyayahan kang sumali sa ${data.churchName} sa Drouple`,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [
+          `Inaanyayahan ka ni ${data.inviterName} na sumali sa ${data.churchName} sa Drouple bilang ${data.roleLabel}.`,
+          'Gamitin ang button sa ibaba para tanggapin ang imbitasyon at pumili ng iyong password.'
+        ],
+        action: { label: 'Tanggapin ang Imbitasyon', url: data.acceptUrl },
+        notice: `Mawawalan ng bisa ang imbitasyong ito sa loob ng ${data.expiresInDays} araw. Kung hindi mo ito inaasahan, maaari mong balewalain ang email na ito.`,
+        fallbackLink: FALLBACK_LINK.fil,
+        footer: FOOTER.fil
+      })
+    }
+  },
+  passwordReset: {
+    transactional: true,
+    category: null,
+    copy: {
+      en: (data) => ({
+        subject: 'Reset your Drouple password',
+        greeting: `Hello ${data.name},`,
+        paragraphs: [
+          `${data.requestedByAdmin
+            ? 'Your church administrator has started a password reset for your Drouple account.'
+            : 'We received a request to reset the password for your Drouple account.'} Use the button below to choose a new password.`
+        ],
+        action: { label: 'Reset Password', url: data.resetUrl },
+        notice: `Security notice: this link expires in ${data.expiresInMinutes} minutes and can only be used once. If you did not expect this email, you can ignore it and your password will stay the same.`,
+        fallbackLink: FALLBACK_LINK.en,
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: 'I-reset ang iyong Drouple password',
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [
+          `${data.requestedByAdmin
+            ? 'Sinimulan ng administrator ng iyong simbahan ang pag-reset ng password ng iyong Drouple account.'
+            : 'Nakatanggap kami ng kahilingan na i-reset ang password ng iyong Drouple account.'} Gamitin ang button sa ibaba para pumili ng bagong password.`
+        ],
+        action: { label: 'I-reset ang Password', url: data.resetUrl },
+        notice: `Paalala sa seguridad: mawawalan ng bisa ang link na ito sa loob ng ${data.expiresInMinutes} minuto at magagamit lamang nang isang beses. Kung hindi mo ito inaasahan, balewalain ang email na ito at hindi magbabago ang iyong password.`,
+        fallbackLink: FALLBACK_LINK.fil,
+        footer: FOOTER.fil
+      })
+    }
+  },
+  eventConfirmation: {
+    transactional: false,
+    category: NotificationCategory.EVENT_REMINDERS,
+    copy: {
+      en: (data) => ({
+        subject: data.waitlisted ? `You're on the waitlist for ${data.eventName}` : `You're registered for ${data.eventName}`,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [
+          data.waitlisted
+            ? `${data.eventName} is full, so we've added you to the waitlist. We'll let you know as soon as a spot opens up.`
+            : `Your spot at ${data.eventName} is confirmed.`,
+          `When: ${formatDateTime(data.startDateTime, 'en')}`,
+          ...(data.location ? [`Where: ${data.location}`] : [])
+        ],
+        action: { label: 'View Event', url: data.eventUrl },
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: data.waitlisted ? `Nasa waitlist ka para sa ${data.eventName}` : `Nakarehistro ka na sa ${data.eventName}`,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [
+          data.waitlisted
+            ? `Puno na ang ${data.eventName}, kaya idinagdag ka namin sa waitlist. Aabisuhan ka namin kapag may bakanteng puwesto.`
+            : `Kumpirmado na ang iyong puwesto sa ${data.eventName}.`,
+          `Kailan: ${formatDateTime(data.startDateTime, 'fil')}`,
+          ...(data.location ? [`Saan: ${data.location}`] : [])
+        ],
+        action: { label: 'Tingnan ang Event', url: data.eventUrl },
+        footer: FOOTER.fil
+      })
+    }
+  },
+  waitlistPromotion: {
+    transactional: false,
+    category: NotificationCategory.EVENT_REMINDERS,
+    copy: {
+      en: (data) => ({
+        subject: `A spot opened up at ${data.eventName}`,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [
+          `Good news! You've been moved off the waitlist and your spot at ${data.eventName} is now confirmed.`,
+          `When: ${formatDateTime(data.startDateTime, 'en')}`,
+          ...(data.location ? [`Where: ${data.location}`] : [])
+        ],
+        action: { label: 'View Event', url: data.eventUrl },
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: `May bakanteng puwesto na sa ${data.eventName}`,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [
+          `Magandang balita! Naalis ka na sa waitlist at kumpirmado na ang iyong puwesto sa ${data.eventName}.`,
+          `Kailan: ${formatDateTime(data.startDateTime, 'fil')}`,
+          ...(data.location ? [`Saan: ${data.location}`] : [])
+        ],
+        action: { label: 'Tingnan ang Event', url: data.eventUrl },
+        footer: FOOTER.fil
+      })
+    }
+  },
+  announcement: {
+    transactional: false,
+    category: NotificationCategory.ANNOUNCEMENTS,
+    copy: {
+      en: (data) => ({
+        subject: data.urgent ? `Urgent: ${data.title}` : data.title,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [`${data.churchName} posted a new announcement.`, data.content],
+        action: { label: 'View Announcements', url: data.announcementUrl },
+        footer: FOOTER.en
+      }),
+      fil: (data) => ({
+        subject: data.urgent ? `Mahalaga: ${data.title}` : data.title,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [`May bagong anunsyo ang ${data.churchName}.`, data.content],
+        action: { label: 'Tingnan ang mga Anunsyo', url: data.announcementUrl },
+        footer: FOOTER.fil
+      })
+    }
+  },
+  weeklyDigest: {
+    transactional: false,
+    category: null,
+    copy: {
+      en: (data) => ({
+        subject: `Your week at ${data.churchName}`,
+        greeting: `Hello ${data.name},`,
+        paragraphs: [`Here's what's happening at ${data.churchName} for ${data.periodLabel}.`],
+        sections: [
+          {
+            title: 'Announcements',
+            items: data.announcements.map(item => ({ title: item.title, url: item.url })),
+            empty: 'No new announcements this week.'
+          },
+          {
+            title: 'Upcoming events',
+            items: data.events.map(event => ({
+              title: event.name,
+              detail: [formatDateTime(event.startDateTime, 'en'), event.location].filter(Boolean).join(' · '),
+              url: event.url
+            })),
+            empty: 'No upcoming events.'
+          },
+          ...(data.lifeGroup ? [{
+            title: 'Your LifeGroup',
+            items: [{
+              title: data.lifeGroup.name,
+              detail: data.lifeGroup.nextMeeting
+                ? `Next meeting: ${formatDateTime(data.lifeGroup.nextMeeting, 'en')}`
+                : 'No meeting scheduled yet',
+              url: data.lifeGroup.url
+            }]
+          }] : []),
+          ...(data.pathwaySteps.length > 0 ? [{
+            title: 'Pathway steps to finish',
+            items: data.pathwaySteps.map(step => ({
+              title: `${step.pathwayName}: ${step.stepName}`,
+              detail: step.dueDate ? `Due ${formatDate(step.dueDate, 'en')}` : undefined,
+              url: step.url
+            }))
+          }] : [])
+        ],
+        action: { label: 'Open Drouple', url: data.manageUrl },
+        footer: `${FOOTER.en} You can turn off the weekly digest in your notification settings.`
+      }),
+      fil: (data) => ({
+        subject: `Ang iyong linggo sa ${data.churchName}`,
+        greeting: `Kumusta ${data.name},`,
+        paragraphs: [`Narito ang mga nangyayari sa ${data.churchName} para sa ${data.periodLabel}.`],
+        sections: [
+          {
+            title: 'Mga Anunsyo',
+            items: data.announcements.map(item => ({ title: item.title, url: item.url })),
+            empty: 'Walang bagong anunsyo ngayong linggo.'
+          },
+          {
+            title: 'Mga paparating na event',
+            items: data.events.map(event => ({
+              title: event.name,
+              detail: [formatDateTime(event.startDateTime, 'fil'), event.location].filter(Boolean).join(' · '),
+              url: event.url
+            })),
+            empty: 'Walang paparating na event.'
+          },
+          ...(data.lifeGroup ? [{
+            title: 'Ang iyong LifeGroup',
+            items: [{
+              title: data.lifeGroup.name,
+              detail: data.lifeGroup.nextMeeting
+                ? `Susunod na pagkikita: ${formatDateTime(data.lifeGroup.nextMeeting, 'fil')}`
+                : 'Wala pang nakatakdang pagkikita',
+              url: data.lifeGroup.url
+            }]
+          }] : []),
+          ...(data.pathwaySteps.length > 0 ? [{
+            title: 'Mga hakbang sa pathway na tatapusin',
+            items: data.pathwaySteps.map(step => ({
+              title: `${step.pathwayName}: ${step.stepName}`,
+              detail: step.dueDate ? `Hanggang ${formatDate(step.dueDate, 'fil')}` : undefined,
+              url: step.url
+            }))
+          }] : [])
+        ],
+        action: { label: 'Buksan ang Drouple', url: data.manageUrl },
+        footer: `${FOOTER.fil} Maaari mong patayin ang lingguhang digest sa iyong notification settings.`
+      })
+    }
+  }
+}
+
+export function getEmailTemplate<T extends EmailTemplateName>(name: T): EmailTemplate<T> {
+  return templates[name]
+}
+
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  name: T,
+  data: EmailTemplateData[T],
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): RenderedEmail {
+  const copy = templates[name].copy[locale] ?? templates[name].copy[DEFAULT_EMAIL_LOCALE]
+  return renderEmail(copy(data))
+}
@@ -0,0 +1,186 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { Resend } from 'resend'
+import { emailLogger } from '@/lib/logger'
+import { getCleanEnvVar } from '@/lib/env-utils'
+
+/**
+ * Pluggable delivery for the email outbox.
+ *
+ * EMAIL_TRANSPORT picks one explicitly (resend, smtp, file or console).
+ * Otherwise Resend is used when RESEND_API_KEY is set, then SMTP when
+ * SMTP_URL or SMTP_HOST (or the older EMAIL_SERVER_HOST) is set. Outside production the fallback is the file
+ * transport, which writes each message to EMAIL_CAPTURE_DIR so it can be
+ * opened in a browser; production has no fallback and leaves mail queued.
+ */
+
+export const EMAIL_TRANSPORTS = ['resend', 'smtp', 'file', 'console'] as const
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number]
+
+export const DEFAULT_EMAIL_FROM = 'Drouple <noreply@drouple.app>'
+export const DEFAULT_EMAIL_CAPTURE_DIR = '.emails'
+
+export interface OutgoingEmail {
+  id: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailTransport {
+  name: EmailTransportName
+  /** Resolves with the provider's message id; throws when the message was not accepted */
+  send(email: OutgoingEmail): Promise<{ providerMessageId: string | null }>
+}
+
+export function getEmailFrom(): string {
+  return getCleanEnvVar('EMAIL_FROM', 'RESEND_FROM_EMAIL') || DEFAULT_EMAIL_FROM
+}
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey)
+
+  return {
+    name: 'resend',
+    async send(email) {
+      const { data, error } = await resend.emails.send({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: { 'X-Entity-Ref-ID': email.id }
+      })
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Resend rejected the message')
+      }
+
+      return { providerMessageId: data.id }
+    }
+  }
+}
+
+export function createSmtpTransport(
+  options: string | { host: string; port: number; secure: boolean; user?: string; pass?: string }
+): EmailTransport {
+  const transporter = typeof options === 'string'
+    ? nodemailer.createTransport(options)
+    : nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } })
+    })
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      const info = await transporter.sendMail({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: { 'X-Entity-Ref-ID': email.id }
+      })
+
+      return { providerMessageId: info.messageId ?? null }
+    }
+  }
+}
+
+/** Writes each message as an .html file plus a .json envelope, for local development */
+export function createFileTransport(directory: string = DEFAULT_EMAIL_CAPTURE_DIR): EmailTransport {
+  return {
+    name: 'file',
+    async send(email) {
+      await mkdir(directory, { recursive: true })
+      const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${email.id}`
+
+      await Promise.all([
+        writeFile(path.join(directory, `${baseName}.html`), email.html, 'utf8'),
+        writeFile(
+          path.join(directory, `${baseName}.json`),
+          JSON.stringify({ from: email.from, to: email.to, subject: email.subject, text: email.text }, null, 2),
+          'utf8'
+        )
+      ])
+
+      return { providerMessageId: baseName }
+    }
+  }
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(email) {
+      emailLogger.info('Email captured by console transport', {
+        id: email.id,
+        to: email.to,
+        subject: email.subject,
+        text: email.text
+      })
+      return { providerMessageId: null }
+    }
+  }
+}
+
+function resolveTransportName(): EmailTransportName | null {
+  const configured = getCleanEnvVar('EMAIL_TRANSPORT')
+  if (configured) {
+    if (!(EMAIL_TRANSPORTS as readonly string[]).includes(configured)) {
+      emailLogger.warn('Unknown EMAIL_TRANSPORT, falling back to auto-detection', { configured })
+    } else {
+      return configured as EmailTransportName
+    }
+  }
+
+  if (getCleanEnvVar('RESEND_API_KEY')) {
+    return 'resend'
+  }
+  if (getCleanEnvVar('SMTP_URL', 'SMTP_HOST', 'EMAIL_SERVER_HOST')) {
+    return 'smtp'
+  }
+  return process.env.NODE_ENV === 'production' ? null : 'file'
+}
+
+/** The configured transport, or null when nothing can deliver mail */
+export function getEmailTransport(): EmailTransport | null {
+  const name = resolveTransportName()
+
+  switch (name) {
+    case 'resend': {
+      const apiKey = getCleanEnvVar('RESEND_API_KEY')
+      return apiKey ? createResendTransport(apiKey) : null
+    }
+    case 'smtp': {
+      const url = getCleanEnvVar('SMTP_URL')
+      if (url) {
+        return createSmtpTransport(url)
+      }
+      const host = getCleanEnvVar('SMTP_HOST', 'EMAIL_SERVER_HOST')
+      if (!host) {
+        return null
+      }
+      const port = Number(getCleanEnvVar('SMTP_PORT', 'EMAIL_SERVER_PORT') || 587)
+      return createSmtpTransport({
+        host,
+        port,
+        secure: getCleanEnvVar('SMTP_SECURE') === 'true' || port === 465,
+        user: getCleanEnvVar('SMTP_USER', 'EMAIL_SERVER_USER'),
+        pass: getCleanEnvVar('SMTP_PASSWORD', 'EMAIL_SERVER_PASSWORD')
+      })
+    }
+    case 'file':
+      return createFileTransport(getCleanEnvVar('EMAIL_CAPTURE_DIR') || DEFAULT_EMAIL_CAPTURE_DIR)
+    case 'console':
+      return createConsoleTransport()
+    default:
+      return null
+  }
+}
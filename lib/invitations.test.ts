@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { InvitationStatus, MemberStatus, UserRole } from '@prisma/client'
+import { createHash } from 'crypto'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    invitation: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    localChurch: {
+      findUnique: vi.fn()
+    },
+    user: {
+      update: vi.fn()
+    },
+    auditLog: {
+      create: vi.fn()
+    },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  }
+  return { prisma }
+})
+
+vi.mock('@/lib/email', () => ({
+  getAppUrl: (pathname: string) => `https://drouple.app${pathname}`,
+  sendEmail: vi.fn().mockResolvedValue({ queued: true, messageId: 'email1', delivered: true })
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import {
+  acceptInvitation,
+  createInvitationToken,
+  getInvitationState,
+  parseInvitationToken,
+  sendInvitation
+} from './invitations'
+
+const db = prisma as any
+
+const now = new Date('2026-10-20T00:00:00Z')
+
+function storedInvitation(nonce: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'invite1',
+    userId: 'user1',
+    email: 'jane@example.com',
+    role: UserRole.MEMBER,
+    localChurchId: 'church1',
+    tokenHash: createHash('sha256').update(nonce).digest('hex'),
+    status: InvitationStatus.PENDING,
+    expiresAt: new Date(now.getTime() + 86_400_000),
+    user: { id: 'user1', name: 'Jane', email: 'jane@example.com', memberStatus: MemberStatus.PENDING, tenantId: 'church1' },
+    localChurch: { id: 'church1', name: 'HPCI Manila' },
+    ...overrides
+  }
+}
+
+describe('Invitations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('AUTH_SECRET', 'test-signing-secret-for-invitations')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should reject tokens with a tampered id or signature', () => {
+    const token = createInvitationToken('invite1', 'nonce')
+
+    expect(parseInvitationToken(token)).toEqual({ invitationId: 'invite1', nonce: 'nonce' })
+    expect(parseInvitationToken(token.replace('invite1', 'invite2'))).toBeNull()
+    expect(parseInvitationToken(`${token}x`)).toBeNull()
+    expect(parseInvitationToken('invite1.nonce')).toBeNull()
+  })
+
+  it('should derive the expired state from a pending invitation', () => {
+    expect(getInvitationState({ status: InvitationStatus.PENDING, expiresAt: new Date(now.getTime() - 1) }, now)).toBe('EXPIRED')
+    expect(getInvitationState({ status: InvitationStatus.PENDING, expiresAt: new Date(now.getTime() + 1) }, now)).toBe('PENDING')
+    expect(getInvitationState({ status: InvitationStatus.ACCEPTED, expiresAt: new Date(now.getTime() - 1) }, now)).toBe('ACCEPTED')
+  })
+
+  it('should create an invitation, store only the nonce hash and email the link', async () => {
+    db.invitation.findFirst.mockResolvedValue(null)
+    db.invitation.create.mockResolvedValue({ id: 'invite1' })
+    db.localChurch.findUnique.mockResolvedValue({ name: 'HPCI Manila' })
+
+    const result = await sendInvitation({
+      userId: 'user1',
+      email: 'jane@example.com',
+      name: 'Jane',
+      localChurchId: 'church1',
+      role: UserRole.ADMIN,
+      invitedBy: { id: 'admin1', name: 'Pastor Mark' },
+      now
+    })
+
+    const stored = db.invitation.create.mock.calls[0][0].data
+    const parsed = parseInvitationToken(decodeURIComponent(result.inviteUrl.split('token=')[1]))
+    expect(parsed?.invitationId).toBe('invite1')
+    expect(stored.tokenHash).toBe(createHash('sha256').update(parsed!.nonce).digest('hex'))
+    expect(stored.expiresAt).toEqual(new Date('2026-10-27T00:00:00Z'))
+    expect(result).toMatchObject({ resent: false, emailSent: true })
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      template: 'invitation',
+      to: 'jane@example.com',
+      data: expect.objectContaining({ churchName: 'HPCI Manila', inviterName: 'Pastor Mark', roleLabel: 'Admin', acceptUrl: result.inviteUrl })
+    }))
+  })
+
+  it('should renew a pending invitation with a new nonce when resending', async () => {
+    db.invitation.findFirst.mockResolvedValue({ id: 'invite1' })
+    db.invitation.update.mockResolvedValue({ id: 'invite1' })
+    db.localChurch.findUnique.mockResolvedValue(null)
+
+    const result = await sendInvitation({
+      userId: 'user1',
+      email: 'jane@example.com',
+      name: null,
+      localChurchId: null,
+      role: UserRole.MEMBER,
+      invitedBy: { id: 'admin1', name: null },
+      now
+    })
+
+    expect(db.invitation.create).not.toHaveBeenCalled()
+    expect(db.invitation.update).toHaveBeenCalledWith({
+      where: { id: 'invite1' },
+      data: expect.objectContaining({ sendCount: { increment: 1 }, lastSentAt: now, tokenHash: expect.any(String) })
+    })
+    expect(result.resent).toBe(true)
+  })
+
+  it('should accept a pending invitation once', async () => {
+    const token = createInvitationToken('invite1', 'nonce')
+    db.invitation.findUnique.mockResolvedValue(storedInvitation('nonce'))
+    db.invitation.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+    expect(await acceptInvitation(token, 'hashed', now)).toEqual({ success: true, userId: 'user1' })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user1' },
+      data: { passwordHash: 'hashed', mustChangePassword: false, emailVerified: now, memberStatus: MemberStatus.ACTIVE }
+    })
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'INVITATION_ACCEPTED', actorId: 'user1' })
+    })
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ template: 'welcome' }))
+
+    expect(await acceptInvitation(token, 'hashed', now)).toEqual({ success: false, reason: 'used' })
+  })
+
+  it('should reject links superseded by a resend, and expired invitations', async () => {
+    const oldToken = createInvitationToken('invite1', 'old-nonce')
+    db.invitation.findUnique.mockResolvedValue(storedInvitation('new-nonce'))
+
+    expect(await acceptInvitation(oldToken, 'hashed', now)).toEqual({ success: false, reason: 'invalid' })
+
+    db.invitation.findUnique.mockResolvedValue(storedInvitation('nonce', { expiresAt: new Date(now.getTime() - 1) }))
+    expect(await acceptInvitation(createInvitationToken('invite1', 'nonce'), 'hashed', now)).toEqual({ success: false, reason: 'expired' })
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+})
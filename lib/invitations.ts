@@ -0,0 +1,294 @@
+/**
+ * Account invitations.
+ *
+ * An invitation link carries the invitation id and a random nonce, signed
+ * with the auth secret:
+ *   /auth/accept-invitation?token=<invitationId>.<nonce>.<signature>
+ * Only a SHA-256 hash of the nonce is stored. Resending issues a new nonce
+ * and expiry, so earlier links stop working; revoking or accepting moves the
+ * invitation out of PENDING, which does the same.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { InvitationStatus, MemberStatus, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { getNextAuthSecret } from '@/lib/env-utils'
+import { getAppUrl, sendEmail } from '@/lib/email'
+
+export const INVITATION_TTL_DAYS = 7
+
+export type InvitationState = 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'REVOKED'
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  SUPER_ADMIN: 'Super Admin',
+  PASTOR: 'Pastor',
+  ADMIN: 'Admin',
+  VIP: 'VIP',
+  LEADER: 'Leader',
+  MEMBER: 'Member'
+}
+
+function getSigningKey(): string {
+  const secret = getNextAuthSecret()
+  if (!secret) {
+    throw new ApplicationError('SERVER_ERROR', 'Invitation signing secret is not configured')
+  }
+  return secret
+}
+
+function sign(invitationId: string, nonce: string): Buffer {
+  return createHmac('sha256', getSigningKey())
+    .update(`invitation:${invitationId}.${nonce}`)
+    .digest()
+    .subarray(0, 16)
+}
+
+function hashNonce(nonce: string): string {
+  return createHash('sha256').update(nonce).digest('hex')
+}
+
+function issueNonce(now: Date) {
+  const nonce = randomBytes(24).toString('base64url')
+  return {
+    nonce,
+    tokenHash: hashNonce(nonce),
+    expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  }
+}
+
+export function createInvitationToken(invitationId: string, nonce: string): string {
+  return `${invitationId}.${nonce}.${sign(invitationId, nonce).toString('base64url')}`
+}
+
+/**
+ * Verifies the signature of a token and returns what it claims. Does not
+ * check the nonce against the database; see getInvitationByToken.
+ */
+export function parseInvitationToken(token: string): { invitationId: string; nonce: string } | null {
+  const [invitationId, nonce, signaturePart, ...rest] = token.trim().split('.')
+  if (rest.length > 0 || !invitationId || !nonce || !signaturePart || !/^[a-z0-9]+$/i.test(invitationId)) {
+    return null
+  }
+
+  const expected = sign(invitationId, nonce)
+  const actual = Buffer.from(signaturePart, 'base64url')
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null
+  }
+
+  return { invitationId, nonce }
+}
+
+export function getInvitationState(
+  invitation: { status: InvitationStatus; expiresAt: Date },
+  now: Date = new Date()
+): InvitationState {
+  if (invitation.status === InvitationStatus.PENDING && invitation.expiresAt <= now) {
+    return 'EXPIRED'
+  }
+  return invitation.status
+}
+
+export function getInvitationUrl(token: string): string {
+  return getAppUrl(`/auth/accept-invitation?token=${encodeURIComponent(token)}`)
+}
+
+/**
+ * Returns the invitation a link points at, or null when the link is forged,
+ * malformed, or was superseded by a resend.
+ */
+export async function getInvitationByToken(token: string) {
+  const parsed = parseInvitationToken(token)
+  if (!parsed) {
+    return null
+  }
+
+  const invitation = await prisma.invitation.findUnique({
+    where: { id: parsed.invitationId },
+    include: {
+      user: { select: { id: true, name: true, email: true, memberStatus: true, tenantId: true } },
+      localChurch: { select: { id: true, name: true } }
+    }
+  })
+
+  if (!invitation || invitation.tokenHash !== hashNonce(parsed.nonce)) {
+    return null
+  }
+
+  return invitation
+}
+
+/**
+ * Issues an invitation for an account that has no password yet and emails
+ * the link. A PENDING invitation for the same user is renewed rather than
+ * duplicated, so this is also the resend path. The link is returned so the
+ * caller can share it by hand when the email could not be delivered.
+ */
+export async function sendInvitation({
+  userId,
+  email,
+  name,
+  localChurchId,
+  role,
+  invitedBy,
+  now = new Date()
+}: {
+  userId: string
+  email: string
+  name: string | null
+  localChurchId: string | null
+  role: UserRole
+  invitedBy: { id: string; name: string | null }
+  now?: Date
+}) {
+  const { nonce, tokenHash, expiresAt } = issueNonce(now)
+
+  const pending = await prisma.invitation.findFirst({
+    where: { userId, status: InvitationStatus.PENDING },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  })
+
+  const invitation = pending
+    ? await prisma.invitation.update({
+      where: { id: pending.id },
+      data: {
+        tokenHash,
+        expiresAt,
+        email,
+        role,
+        localChurchId,
+        invitedById: invitedBy.id,
+        sendCount: { increment: 1 },
+        lastSentAt: now
+      }
+    })
+    : await prisma.invitation.create({
+      data: {
+        userId,
+        email,
+        role,
+        localChurchId,
+        invitedById: invitedBy.id,
+        tokenHash,
+        expiresAt,
+        lastSentAt: now
+      }
+    })
+
+  const inviteUrl = getInvitationUrl(createInvitationToken(invitation.id, nonce))
+
+  const localChurch = localChurchId
+    ? await prisma.localChurch.findUnique({ where: { id: localChurchId }, select: { name: true } })
+    : null
+
+  const result = await sendEmail({
+    template: 'invitation',
+    to: email,
+    userId,
+    localChurchId,
+    data: {
+      name: name || email,
+      churchName: localChurch?.name || 'Drouple',
+      inviterName: invitedBy.name || 'Your church administrator',
+      roleLabel: ROLE_LABELS[role],
+      acceptUrl: inviteUrl,
+      expiresInDays: INVITATION_TTL_DAYS
+    }
+  })
+
+  return {
+    invitationId: invitation.id,
+    expiresAt,
+    inviteUrl,
+    resent: !!pending,
+    emailSent: result.delivered
+  }
+}
+
+/** Revokes the user's pending invitation, if any. Returns whether one was revoked. */
+export async function revokeInvitation(userId: string, now: Date = new Date()): Promise<boolean> {
+  const revoked = await prisma.invitation.updateMany({
+    where: { userId, status: InvitationStatus.PENDING },
+    data: { status: InvitationStatus.REVOKED, revokedAt: now }
+  })
+  return revoked.count > 0
+}
+
+/**
+ * Accepts an invitation: sets the invitee's password, activates the account
+ * and marks the email verified. Claiming the invitation is a conditional
+ * update on the stored nonce hash, so a link can only be used once.
+ */
+export async function acceptInvitation(
+  token: string,
+  passwordHash: string,
+  now: Date = new Date()
+): Promise<{ success: true; userId: string } | { success: false; reason: 'invalid' | 'expired' | 'used' }> {
+  const invitation = await getInvitationByToken(token)
+  if (!invitation || invitation.user.memberStatus === MemberStatus.INACTIVE) {
+    return { success: false, reason: 'invalid' }
+  }
+
+  const state = getInvitationState(invitation, now)
+  if (state === 'EXPIRED') {
+    return { success: false, reason: 'expired' }
+  }
+  if (state !== 'PENDING') {
+    return { success: false, reason: 'used' }
+  }
+
+  const accepted = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.invitation.updateMany({
+      where: { id: invitation.id, tokenHash: invitation.tokenHash, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.ACCEPTED, acceptedAt: now }
+    })
+
+    if (claimed.count !== 1) {
+      return false
+    }
+
+    await tx.user.update({
+      where: { id: invitation.userId },
+      data: {
+        passwordHash,
+        mustChangePassword: false,
+        emailVerified: now,
+        memberStatus: invitation.user.memberStatus === MemberStatus.PENDING ? MemberStatus.ACTIVE : invitation.user.memberStatus
+      }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        actorId: invitation.userId,
+        action: 'INVITATION_ACCEPTED',
+        entity: 'User',
+        entityId: invitation.userId,
+        localChurchId: invitation.localChurchId ?? invitation.user.tenantId,
+        meta: { invitationId: invitation.id, role: invitation.role }
+      }
+    })
+
+    return true
+  })
+
+  if (!accepted) {
+    return { success: false, reason: 'used' }
+  }
+
+  await sendEmail({
+    template: 'welcome',
+    to: invitation.user.email,
+    userId: invitation.userId,
+    localChurchId: invitation.localChurchId,
+    data: {
+      name: invitation.user.name || invitation.user.email,
+      churchName: invitation.localChurch?.name || 'Drouple',
+      signInUrl: getAppUrl('/auth/signin')
+    }
+  })
+
+  return { success: true, userId: invitation.userId }
+}
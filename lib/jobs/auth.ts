@@ -0,0 +1,19 @@
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Scheduled jobs are invoked by the platform cron with
+ * `Authorization: Bearer $CRON_SECRET`. Without a secret configured, jobs are
+ * only callable outside production so they can be run by hand locally.
+ */
+export function isAuthorizedJobRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  const header = request.headers.get('authorization') ?? ''
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(header)
+
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
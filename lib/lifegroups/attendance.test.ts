@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    lifeGroupAttendanceSession: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn()
+    },
+    lifeGroupMembership: {
+      findMany: vi.fn()
+    },
+    lifeGroupAttendance: {
+      upsert: vi.fn((args: unknown) => args)
+    },
+    $transaction: vi.fn((operations: unknown[]) => Promise.all(operations))
+  }
+  return { prisma }
+})
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { computeMemberAttendanceStats, openAttendanceSession, recordAttendance } from './attendance'
+
+const db = prisma as any
+
+function session(date: string, marks: Record<string, boolean>) {
+  return {
+    date: new Date(date),
+    attendances: Object.entries(marks).map(([userId, present]) => ({ userId, present }))
+  }
+}
+
+describe('LifeGroup attendance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('computeMemberAttendanceStats', () => {
+    const sessions = [
+      session('2026-10-07T00:00:00Z', { ana: true, ben: true }),
+      session('2026-10-14T00:00:00Z', { ana: true, ben: false }),
+      session('2026-10-21T00:00:00Z', { ana: true }),
+      session('2026-10-28T00:00:00Z', {}),
+      session('2026-11-04T00:00:00Z', { ana: false, ben: false })
+    ]
+
+    it('counts the current run of meetings missed or attended', () => {
+      const [ana, ben] = computeMemberAttendanceStats(sessions, [
+        { userId: 'ana', joinedAt: new Date('2026-09-01T00:00:00Z') },
+        { userId: 'ben', joinedAt: new Date('2026-09-01T00:00:00Z') }
+      ])
+
+      expect(ana).toMatchObject({ attended: 3, total: 4, streak: 0, missedInARow: 1 })
+      expect(ana.lastAttendedAt).toEqual(new Date('2026-10-21T00:00:00Z'))
+      // No record in a session others were marked in counts as missed; empty sessions are skipped
+      expect(ben).toMatchObject({ attended: 1, total: 4, streak: 0, missedInARow: 3 })
+    })
+
+    it('only counts meetings since the member joined', () => {
+      const [cara] = computeMemberAttendanceStats(
+        [...sessions.slice(0, 4), session('2026-11-04T00:00:00Z', { ana: false, cara: true })],
+        [{ userId: 'cara', joinedAt: new Date('2026-10-20T15:30:00Z') }]
+      )
+
+      expect(cara).toMatchObject({ attended: 1, total: 2, streak: 1, missedInARow: 0 })
+    })
+  })
+
+  describe('openAttendanceSession', () => {
+    const date = new Date('2026-11-04T00:00:00Z')
+
+    it('resumes the session already started for the date', async () => {
+      db.lifeGroupAttendanceSession.findUnique.mockResolvedValue({ id: 'session1', attendances: [], visitors: [] })
+
+      const result = await openAttendanceSession('lg1', date)
+
+      expect(result).toMatchObject({ created: false, session: { id: 'session1' } })
+      expect(db.lifeGroupAttendanceSession.create).not.toHaveBeenCalled()
+    })
+
+    it('falls back to the session started concurrently', async () => {
+      db.lifeGroupAttendanceSession.findUnique.mockResolvedValue(null)
+      db.lifeGroupAttendanceSession.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      )
+      db.lifeGroupAttendanceSession.findUniqueOrThrow.mockResolvedValue({ id: 'session2', attendances: [], visitors: [] })
+
+      const result = await openAttendanceSession('lg1', date)
+
+      expect(result).toMatchObject({ created: false, session: { id: 'session2' } })
+    })
+  })
+
+  describe('recordAttendance', () => {
+    it('stores absences as explicit records', async () => {
+      db.lifeGroupMembership.findMany.mockResolvedValue([{ userId: 'ana' }, { userId: 'ben' }])
+
+      const counts = await recordAttendance({ id: 'session1', lifeGroupId: 'lg1' }, [
+        { userId: 'ana', present: true },
+        { userId: 'ben', present: false }
+      ])
+
+      expect(counts).toEqual({ present: 1, absent: 1 })
+      expect(db.lifeGroupAttendance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { sessionId_userId: { sessionId: 'session1', userId: 'ben' } },
+        create: expect.objectContaining({ present: false })
+      }))
+    })
+
+    it('refuses to mark people who are not active members', async () => {
+      db.lifeGroupMembership.findMany.mockResolvedValue([{ userId: 'ana' }])
+
+      await expect(recordAttendance({ id: 'session1', lifeGroupId: 'lg1' }, [{ userId: 'eve', present: true }]))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
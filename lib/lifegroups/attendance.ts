@@ -0,0 +1,205 @@
+/**
+ * LifeGroup attendance.
+ *
+ * A session is one meeting of a group on a given date. Leaders (and admins)
+ * mark every active member present or absent, so a missed meeting is stored
+ * rather than inferred from a missing row. Visitors who are not members are
+ * recorded by name on the session.
+ *
+ * Streaks and missed meetings are counted over the sessions a member could
+ * have attended, newest first. Sessions where nobody was marked are skipped;
+ * in a session where others were marked, a member without a record counts as
+ * absent, which covers sessions taken before absences were recorded.
+ */
+
+import { startOfDay } from 'date-fns'
+import { MembershipStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+
+export const MISSED_MEETINGS_FOLLOW_UP = 3
+export const ATTENDANCE_HISTORY_SESSIONS = 26
+
+export interface AttendanceMark {
+  userId: string
+  present: boolean
+}
+
+export interface MemberAttendanceStats {
+  userId: string
+  attended: number
+  total: number
+  /** Meetings attended in a row, up to the latest one */
+  streak: number
+  /** Meetings missed in a row, up to the latest one */
+  missedInARow: number
+  lastAttendedAt: Date | null
+}
+
+interface SessionAttendance {
+  date: Date
+  attendances: AttendanceMark[]
+}
+
+export function computeMemberAttendanceStats(
+  sessions: SessionAttendance[],
+  members: { userId: string; joinedAt: Date }[]
+): MemberAttendanceStats[] {
+  const taken = sessions
+    .filter(session => session.attendances.length > 0)
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+
+  return members.map(({ userId, joinedAt }) => {
+    const joinedOn = startOfDay(joinedAt)
+    const stats: MemberAttendanceStats = { userId, attended: 0, total: 0, streak: 0, missedInARow: 0, lastAttendedAt: null }
+    let counting = true
+
+    for (const session of taken) {
+      if (session.date < joinedOn) {
+        break
+      }
+
+      const present = session.attendances.some(mark => mark.userId === userId && mark.present)
+      stats.total++
+      if (present) {
+        stats.attended++
+        stats.lastAttendedAt ??= session.date
+      }
+
+      if (counting && present && stats.missedInARow === 0) {
+        stats.streak++
+      } else if (counting && !present && stats.streak === 0) {
+        stats.missedInARow++
+      } else {
+        counting = false
+      }
+    }
+
+    return stats
+  })
+}
+
+const sessionDetailInclude = {
+  attendances: { select: { userId: true, present: true } },
+  visitors: { orderBy: { createdAt: 'asc' } }
+} satisfies Prisma.LifeGroupAttendanceSessionInclude
+
+/**
+ * The group's session on `date`, creating it when there is none yet, so
+ * starting a session twice resumes the first one.
+ */
+export async function openAttendanceSession(lifeGroupId: string, date: Date) {
+  const where = { lifeGroupId_date: { lifeGroupId, date } }
+  const existing = await prisma.lifeGroupAttendanceSession.findUnique({ where, include: sessionDetailInclude })
+  if (existing) {
+    return { session: existing, created: false }
+  }
+
+  try {
+    const session = await prisma.lifeGroupAttendanceSession.create({
+      data: { lifeGroupId, date },
+      include: sessionDetailInclude
+    })
+    return { session, created: true }
+  } catch (error) {
+    // Someone else started it at the same moment
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const session = await prisma.lifeGroupAttendanceSession.findUniqueOrThrow({ where, include: sessionDetailInclude })
+      return { session, created: false }
+    }
+    throw error
+  }
+}
+
+export async function getAttendanceSession(sessionId: string) {
+  return prisma.lifeGroupAttendanceSession.findUnique({
+    where: { id: sessionId },
+    include: sessionDetailInclude
+  })
+}
+
+/**
+ * Stores a present or absent record for each mark. Only active members of
+ * the session's group can be marked.
+ */
+export async function recordAttendance(
+  session: { id: string; lifeGroupId: string },
+  marks: AttendanceMark[],
+  now: Date = new Date()
+) {
+  const activeMembers = await prisma.lifeGroupMembership.findMany({
+    where: { lifeGroupId: session.lifeGroupId, status: MembershipStatus.ACTIVE },
+    select: { userId: true }
+  })
+  const memberIds = new Set(activeMembers.map(member => member.userId))
+
+  if (marks.some(mark => !memberIds.has(mark.userId))) {
+    throw new ApplicationError('VALIDATION_ERROR', 'Only active members of this group can be marked')
+  }
+
+  await prisma.$transaction(marks.map(mark =>
+    prisma.lifeGroupAttendance.upsert({
+      where: { sessionId_userId: { sessionId: session.id, userId: mark.userId } },
+      create: { sessionId: session.id, userId: mark.userId, present: mark.present, markedAt: now },
+      update: { present: mark.present, markedAt: now }
+    })
+  ))
+
+  const present = marks.filter(mark => mark.present).length
+  return { present, absent: marks.length - present }
+}
+
+/**
+ * Recent sessions of a group with their head counts, and each active
+ * member's attendance stats. Members who missed MISSED_MEETINGS_FOLLOW_UP or
+ * more meetings in a row are listed for follow-up.
+ */
+export async function getAttendanceOverview(lifeGroupId: string, sessionLimit = ATTENDANCE_HISTORY_SESSIONS) {
+  const [memberships, sessions] = await Promise.all([
+    prisma.lifeGroupMembership.findMany({
+      where: { lifeGroupId, status: MembershipStatus.ACTIVE },
+      select: {
+        userId: true,
+        joinedAt: true,
+        user: { select: { name: true, email: true } }
+      },
+      orderBy: { joinedAt: 'asc' }
+    }),
+    prisma.lifeGroupAttendanceSession.findMany({
+      where: { lifeGroupId },
+      select: {
+        id: true,
+        date: true,
+        notes: true,
+        attendances: { select: { userId: true, present: true } },
+        _count: { select: { visitors: true } }
+      },
+      orderBy: { date: 'desc' },
+      take: sessionLimit
+    })
+  ])
+
+  const stats = computeMemberAttendanceStats(sessions, memberships)
+  const members = memberships.map((membership, index) => ({
+    ...stats[index],
+    name: membership.user.name,
+    email: membership.user.email,
+    needsFollowUp: stats[index].missedInARow >= MISSED_MEETINGS_FOLLOW_UP
+  }))
+
+  return {
+    sessions: sessions.map(session => {
+      const presentCount = session.attendances.filter(mark => mark.present).length
+      return {
+        id: session.id,
+        date: session.date,
+        notes: session.notes,
+        presentCount,
+        absentCount: session.attendances.length - presentCount,
+        visitorCount: session._count.visitors
+      }
+    }),
+    members,
+    needsFollowUp: members.filter(member => member.needsFollowUp)
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { LifeGroupAudience, MeetingDay, MeetingMode } from '@prisma/client'
+import { buildDiscoveryWhere, distanceKm, getMapUrl, parseDiscoveryFilters } from './discovery'
+
+describe('LifeGroup discovery', () => {
+  it('parses search params and drops invalid filters', () => {
+    expect(parseDiscoveryFilters({
+      q: '  bible ',
+      day: 'FRIDAY',
+      mode: 'SOMETIMES',
+      tag: ['YOUTH', 'MEN'],
+      language: ''
+    })).toEqual({ q: 'bible', day: MeetingDay.FRIDAY, tag: LifeGroupAudience.YOUTH })
+  })
+
+  it('builds a where clause from the filters', () => {
+    expect(buildDiscoveryWhere({})).toEqual({})
+
+    expect(buildDiscoveryWhere({
+      q: 'makati',
+      day: MeetingDay.FRIDAY,
+      mode: MeetingMode.ONLINE,
+      tag: LifeGroupAudience.COUPLES,
+      language: 'tagalog'
+    })).toEqual({
+      OR: [
+        { name: { contains: 'makati', mode: 'insensitive' } },
+        { description: { contains: 'makati', mode: 'insensitive' } },
+        { location: { contains: 'makati', mode: 'insensitive' } }
+      ],
+      meetingDay: MeetingDay.FRIDAY,
+      meetingMode: { in: [MeetingMode.ONLINE, MeetingMode.HYBRID] },
+      audienceTags: { has: LifeGroupAudience.COUPLES },
+      language: { equals: 'tagalog', mode: 'insensitive' }
+    })
+
+    expect(buildDiscoveryWhere({ mode: MeetingMode.HYBRID })).toEqual({ meetingMode: MeetingMode.HYBRID })
+  })
+
+  it('measures distance and links to the map', () => {
+    // Manila to Quezon City, roughly 10 km
+    const distance = distanceKm({ latitude: 14.5995, longitude: 120.9842 }, { latitude: 14.676, longitude: 121.0437 })
+    expect(distance).toBeGreaterThan(9)
+    expect(distance).toBeLessThan(12)
+
+    expect(getMapUrl({ latitude: 14.6, longitude: 121 })).toBe('https://www.openstreetmap.org/?mlat=14.6&mlon=121#map=17/14.6/121')
+    expect(getMapUrl({ location: 'Ayala Ave, Makati' })).toBe('https://www.openstreetmap.org/search?query=Ayala%20Ave%2C%20Makati')
+    expect(getMapUrl({ location: null })).toBeNull()
+  })
+})
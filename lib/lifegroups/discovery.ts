@@ -0,0 +1,97 @@
+/**
+ * Finding a LifeGroup to join: filters for the browse tab and map links.
+ *
+ * Filters come from the page's search params, so anything malformed is
+ * dropped rather than rejected. Hybrid groups match both the online and the
+ * in-person filter.
+ */
+
+import { z } from 'zod'
+import { LifeGroupAudience, MeetingDay, MeetingMode } from '@prisma/client'
+import type { Prisma } from '@prisma/client'
+
+export const lifeGroupDiscoveryFiltersSchema = z.object({
+  q: z.string().trim().min(1).max(100).optional(),
+  day: z.nativeEnum(MeetingDay).optional(),
+  mode: z.nativeEnum(MeetingMode).optional(),
+  tag: z.nativeEnum(LifeGroupAudience).optional(),
+  language: z.string().trim().min(1).max(50).optional()
+})
+
+export type LifeGroupDiscoveryFilters = z.infer<typeof lifeGroupDiscoveryFiltersSchema>
+
+export function parseDiscoveryFilters(
+  searchParams: Record<string, string | string[] | undefined>
+): LifeGroupDiscoveryFilters {
+  const filters: LifeGroupDiscoveryFilters = {}
+
+  for (const key of Object.keys(lifeGroupDiscoveryFiltersSchema.shape) as (keyof LifeGroupDiscoveryFilters)[]) {
+    const raw = searchParams[key]
+    const value = Array.isArray(raw) ? raw[0] : raw
+    const parsed = lifeGroupDiscoveryFiltersSchema.shape[key].safeParse(value)
+    if (parsed.success && parsed.data !== undefined) {
+      Object.assign(filters, { [key]: parsed.data })
+    }
+  }
+
+  return filters
+}
+
+export function buildDiscoveryWhere(filters: LifeGroupDiscoveryFilters): Prisma.LifeGroupWhereInput {
+  const where: Prisma.LifeGroupWhereInput = {}
+
+  if (filters.q) {
+    where.OR = [
+      { name: { contains: filters.q, mode: 'insensitive' } },
+      { description: { contains: filters.q, mode: 'insensitive' } },
+      { location: { contains: filters.q, mode: 'insensitive' } }
+    ]
+  }
+  if (filters.day) {
+    where.meetingDay = filters.day
+  }
+  if (filters.mode) {
+    where.meetingMode = filters.mode === MeetingMode.HYBRID
+      ? MeetingMode.HYBRID
+      : { in: [filters.mode, MeetingMode.HYBRID] }
+  }
+  if (filters.tag) {
+    where.audienceTags = { has: filters.tag }
+  }
+  if (filters.language) {
+    where.language = { equals: filters.language, mode: 'insensitive' }
+  }
+
+  return where
+}
+
+interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+/** Great-circle distance in kilometres */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLng = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/** OpenStreetMap link for a group's pin, or a search for its address */
+export function getMapUrl(group: {
+  location?: string | null
+  latitude?: number | null
+  longitude?: number | null
+}): string | null {
+  if (group.latitude != null && group.longitude != null) {
+    return `https://www.openstreetmap.org/?mlat=${group.latitude}&mlon=${group.longitude}#map=17/${group.latitude}/${group.longitude}`
+  }
+  if (group.location) {
+    return `https://www.openstreetmap.org/search?query=${encodeURIComponent(group.location)}`
+  }
+  return null
+}
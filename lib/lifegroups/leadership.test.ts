@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { LifeGroupRole, MembershipStatus } from '@prisma/client'
+import { getLifeGroupPermissions } from './leadership'
+
+describe('LifeGroup leadership', () => {
+  it('gives the leader and admins every permission', () => {
+    const all = ['VIEW_ROSTER', 'TAKE_ATTENDANCE', 'MANAGE_REQUESTS']
+    expect(getLifeGroupPermissions({ isLeader: true, isAdmin: false })).toEqual(all)
+    expect(getLifeGroupPermissions({ isLeader: false, isAdmin: true })).toEqual(all)
+  })
+
+  it('scopes co-leaders and apprentices by role while they are active members', () => {
+    const active = MembershipStatus.ACTIVE
+
+    expect(getLifeGroupPermissions({
+      isLeader: false,
+      isAdmin: false,
+      membership: { role: LifeGroupRole.CO_LEADER, status: active }
+    })).toEqual(['VIEW_ROSTER', 'TAKE_ATTENDANCE', 'MANAGE_REQUESTS'])
+    expect(getLifeGroupPermissions({
+      isLeader: false,
+      isAdmin: false,
+      membership: { role: LifeGroupRole.APPRENTICE, status: active }
+    })).toEqual(['VIEW_ROSTER', 'TAKE_ATTENDANCE'])
+    expect(getLifeGroupPermissions({
+      isLeader: false,
+      isAdmin: false,
+      membership: { role: LifeGroupRole.MEMBER, status: active }
+    })).toEqual([])
+    expect(getLifeGroupPermissions({
+      isLeader: false,
+      isAdmin: false,
+      membership: { role: LifeGroupRole.CO_LEADER, status: MembershipStatus.LEFT }
+    })).toEqual([])
+    expect(getLifeGroupPermissions({ isLeader: false, isAdmin: false, membership: null })).toEqual([])
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Who can run a LifeGroup besides its leader.
+ *
+ * The group's leader and church admins can do everything. Co-leaders share
+ * the running of the group: roster, attendance and join requests. Apprentices
+ * are leaders in training: they see the roster and take attendance, and are
+ * the ones a group multiplies under. Roles are held on the membership, so
+ * leaving the group ends them.
+ */
+
+import { LifeGroupRole, MembershipStatus } from '@prisma/client'
+
+export const LIFEGROUP_PERMISSIONS = ['VIEW_ROSTER', 'TAKE_ATTENDANCE', 'MANAGE_REQUESTS'] as const
+export type LifeGroupPermission = (typeof LIFEGROUP_PERMISSIONS)[number]
+
+export const LIFEGROUP_ROLE_PERMISSIONS: Record<LifeGroupRole, readonly LifeGroupPermission[]> = {
+  MEMBER: [],
+  APPRENTICE: ['VIEW_ROSTER', 'TAKE_ATTENDANCE'],
+  CO_LEADER: ['VIEW_ROSTER', 'TAKE_ATTENDANCE', 'MANAGE_REQUESTS']
+}
+
+export const LIFEGROUP_ROLE_LABELS: Record<LifeGroupRole, string> = {
+  MEMBER: 'Member',
+  APPRENTICE: 'Apprentice',
+  CO_LEADER: 'Co-leader'
+}
+
+/** Roles that see the group's leader tools */
+export const LIFEGROUP_LEADERSHIP_ROLES: LifeGroupRole[] = [LifeGroupRole.CO_LEADER, LifeGroupRole.APPRENTICE]
+
+export function getLifeGroupPermissions({
+  isLeader,
+  isAdmin,
+  membership
+}: {
+  isLeader: boolean
+  isAdmin: boolean
+  membership?: { role: LifeGroupRole; status: MembershipStatus } | null
+}): LifeGroupPermission[] {
+  if (isLeader || isAdmin) {
+    return [...LIFEGROUP_PERMISSIONS]
+  }
+  if (membership?.status !== MembershipStatus.ACTIVE) {
+    return []
+  }
+  return [...LIFEGROUP_ROLE_PERMISSIONS[membership.role]]
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LifeGroupRole, MembershipStatus, Prisma } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    lifeGroup: {
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn()
+    },
+    lifeGroupMembership: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      createMany: vi.fn()
+    },
+    lifeGroupAttendanceSession: {
+      findMany: vi.fn(),
+      create: vi.fn()
+    },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  }
+  return { prisma }
+})
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { splitLifeGroup } from './multiplication'
+
+const db = prisma as any
+const now = new Date('2026-10-19T10:00:00Z')
+const parent = { id: 'lg-1', leaderId: 'leader', localChurchId: 'church-a', capacity: 12 }
+
+const joinedAt: Record<string, Date> = {
+  leader: new Date('2025-01-12'),
+  apprentice: new Date('2025-03-02'),
+  ana: new Date('2025-06-15'),
+  ben: new Date('2025-08-03'),
+  cy: new Date('2026-02-22')
+}
+
+function member(userId: string, role: LifeGroupRole = LifeGroupRole.MEMBER) {
+  return { userId, role, joinedAt: joinedAt[userId] }
+}
+
+describe('LifeGroup multiplication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.lifeGroup.findUniqueOrThrow.mockResolvedValue({
+      meetingFrequency: 'WEEKLY',
+      meetingMode: 'IN_PERSON',
+      audienceTags: ['YOUTH'],
+      language: 'English'
+    })
+    db.lifeGroupMembership.findMany.mockResolvedValue([
+      member('leader'),
+      member('apprentice', LifeGroupRole.APPRENTICE),
+      member('ana'),
+      member('ben'),
+      member('cy')
+    ])
+    db.lifeGroupAttendanceSession.findMany.mockResolvedValue([])
+    db.lifeGroup.create.mockResolvedValue({ id: 'lg-2', name: 'Youth Connect 2', leaderId: 'apprentice', capacity: 12 })
+  })
+
+  it('moves the apprentice and chosen members into a child group', async () => {
+    db.lifeGroupAttendanceSession.findMany.mockResolvedValue([
+      {
+        date: new Date('2026-10-07'),
+        notes: 'Romans 8',
+        attendances: [{ userId: 'ana', present: true, markedAt: now }]
+      }
+    ])
+
+    const result = await splitLifeGroup(parent, { name: 'Youth Connect 2', leaderId: 'apprentice', memberIds: ['ana'] }, now)
+
+    expect(db.lifeGroup.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Youth Connect 2',
+        leaderId: 'apprentice',
+        capacity: 12,
+        parentId: 'lg-1',
+        multipliedAt: now,
+        audienceTags: ['YOUTH']
+      })
+    })
+    expect(db.lifeGroupMembership.updateMany).toHaveBeenCalledWith({
+      where: { lifeGroupId: 'lg-1', userId: { in: ['apprentice', 'ana'] } },
+      data: { status: MembershipStatus.LEFT, leftAt: now, role: LifeGroupRole.MEMBER }
+    })
+    expect(db.lifeGroupMembership.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ lifeGroupId: 'lg-2', userId: 'apprentice', joinedAt: joinedAt.apprentice }),
+      expect.objectContaining({ lifeGroupId: 'lg-2', userId: 'ana', joinedAt: joinedAt.ana })
+    ])
+    expect(db.lifeGroupAttendanceSession.create).toHaveBeenCalledWith({
+      data: {
+        lifeGroupId: 'lg-2',
+        date: new Date('2026-10-07'),
+        notes: 'Romans 8',
+        attendances: { create: [{ userId: 'ana', present: true, markedAt: now }] }
+      }
+    })
+    expect(result).toMatchObject({
+      movedUserIds: ['apprentice', 'ana'],
+      remainingUserIds: ['leader', 'ben', 'cy'],
+      sessionsCopied: 1
+    })
+  })
+
+  it('only multiplies under an apprentice and keeps the leader', async () => {
+    await expect(splitLifeGroup(parent, { name: 'New', leaderId: 'ana', memberIds: [] }, now))
+      .rejects.toThrow('The new leader must be an apprentice of this group')
+    await expect(splitLifeGroup(parent, { name: 'New', leaderId: 'apprentice', memberIds: ['leader'] }, now))
+      .rejects.toThrow('The current leader stays with this group')
+    await expect(splitLifeGroup(parent, { name: 'New', leaderId: 'apprentice', memberIds: ['stranger'] }, now))
+      .rejects.toThrow('Only active members can move to the new group')
+
+    expect(db.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('reports a duplicate group name', async () => {
+    db.lifeGroup.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    )
+
+    await expect(splitLifeGroup(parent, { name: 'Youth Connect', leaderId: 'apprentice', memberIds: [] }, now))
+      .rejects.toThrow('A LifeGroup with this name already exists')
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Multiplying a LifeGroup: when a group grows, an apprentice takes part of
+ * the roster and starts a new group of their own.
+ *
+ * The new group remembers the group it came from, which is how analytics
+ * draws the lineage tree. Members who move leave the original group and join
+ * the new one with their original join date, and the sessions they attended
+ * are copied across with their own marks only, so their attendance history
+ * and streaks carry over.
+ */
+
+import { z } from 'zod'
+import { LifeGroupRole, MembershipStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+
+export const multiplyLifeGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  leaderId: z.string().min(1, 'Choose an apprentice to lead the new group'),
+  memberIds: z.array(z.string().min(1)).max(500),
+  capacity: z.number().int().positive().optional()
+})
+
+export type MultiplyLifeGroupInput = z.infer<typeof multiplyLifeGroupSchema>
+
+interface ParentLifeGroup {
+  id: string
+  leaderId: string
+  localChurchId: string
+  capacity: number
+}
+
+/**
+ * Starts the new group under the apprentice and moves the chosen members
+ * into it. The parent's leader stays; the apprentice always moves.
+ */
+export async function splitLifeGroup(
+  parent: ParentLifeGroup,
+  input: MultiplyLifeGroupInput,
+  now: Date = new Date()
+) {
+  const [source, memberships] = await Promise.all([
+    prisma.lifeGroup.findUniqueOrThrow({
+      where: { id: parent.id },
+      select: { meetingFrequency: true, meetingMode: true, audienceTags: true, language: true }
+    }),
+    prisma.lifeGroupMembership.findMany({
+      where: { lifeGroupId: parent.id, status: MembershipStatus.ACTIVE },
+      select: { userId: true, role: true, joinedAt: true }
+    })
+  ])
+  const membersById = new Map(memberships.map(membership => [membership.userId, membership]))
+
+  if (membersById.get(input.leaderId)?.role !== LifeGroupRole.APPRENTICE) {
+    throw new ApplicationError('VALIDATION_ERROR', 'The new leader must be an apprentice of this group')
+  }
+
+  const movingIds = [...new Set([input.leaderId, ...input.memberIds])]
+  if (movingIds.includes(parent.leaderId)) {
+    throw new ApplicationError('VALIDATION_ERROR', 'The current leader stays with this group')
+  }
+  if (movingIds.some(userId => !membersById.has(userId))) {
+    throw new ApplicationError('VALIDATION_ERROR', 'Only active members can move to the new group')
+  }
+
+  const sessions = await prisma.lifeGroupAttendanceSession.findMany({
+    where: { lifeGroupId: parent.id, attendances: { some: { userId: { in: movingIds } } } },
+    select: {
+      date: true,
+      notes: true,
+      attendances: {
+        where: { userId: { in: movingIds } },
+        select: { userId: true, present: true, markedAt: true }
+      }
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const lifeGroup = await tx.lifeGroup.create({
+        data: {
+          name: input.name,
+          leaderId: input.leaderId,
+          capacity: input.capacity ?? parent.capacity,
+          localChurchId: parent.localChurchId,
+          parentId: parent.id,
+          multipliedAt: now,
+          ...source
+        }
+      })
+
+      await tx.lifeGroupMembership.updateMany({
+        where: { lifeGroupId: parent.id, userId: { in: movingIds } },
+        data: { status: MembershipStatus.LEFT, leftAt: now, role: LifeGroupRole.MEMBER }
+      })
+
+      await tx.lifeGroupMembership.createMany({
+        data: movingIds.map(userId => ({
+          lifeGroupId: lifeGroup.id,
+          userId,
+          status: MembershipStatus.ACTIVE,
+          joinedAt: membersById.get(userId)!.joinedAt
+        }))
+      })
+
+      for (const session of sessions) {
+        await tx.lifeGroupAttendanceSession.create({
+          data: {
+            lifeGroupId: lifeGroup.id,
+            date: session.date,
+            notes: session.notes,
+            attendances: { create: session.attendances }
+          }
+        })
+      }
+
+      return {
+        lifeGroup,
+        movedUserIds: movingIds,
+        remainingUserIds: memberships.map(m => m.userId).filter(userId => !movingIds.includes(userId)),
+        sessionsCopied: sessions.length
+      }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApplicationError('DUPLICATE_ENTRY', 'A LifeGroup with this name already exists')
+    }
+    throw error
+  }
+}
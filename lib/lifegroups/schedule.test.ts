@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { MeetingDay, MeetingFrequency } from '@prisma/client'
+import {
+  describeMeetingSchedule,
+  formatMeetingTime,
+  getUpcomingMeetingDates,
+  lifeGroupDetailsSchema,
+  suggestAttendanceDates
+} from './schedule'
+
+// A Monday
+const today = new Date(2026, 9, 19)
+
+describe('LifeGroup schedule', () => {
+  describe('describeMeetingSchedule', () => {
+    it('describes each frequency', () => {
+      expect(formatMeetingTime('19:30')).toBe('7:30 PM')
+      expect(describeMeetingSchedule({ meetingDay: MeetingDay.WEDNESDAY, meetingTime: '19:00', meetingFrequency: MeetingFrequency.WEEKLY }))
+        .toBe('Every Wednesday at 7:00 PM')
+      expect(describeMeetingSchedule({ meetingDay: MeetingDay.FRIDAY, meetingTime: null, meetingFrequency: MeetingFrequency.BIWEEKLY }))
+        .toBe('Every other Friday')
+      expect(describeMeetingSchedule({ meetingDay: MeetingDay.SUNDAY, meetingTime: '08:15', meetingFrequency: MeetingFrequency.MONTHLY }))
+        .toBe('One Sunday a month at 8:15 AM')
+      expect(describeMeetingSchedule({ meetingDay: null, meetingTime: '19:00', meetingFrequency: MeetingFrequency.WEEKLY }))
+        .toBeNull()
+    })
+  })
+
+  describe('suggestAttendanceDates', () => {
+    it('suggests the latest missed meeting, the next one, then older ones', () => {
+      const suggestions = suggestAttendanceDates(
+        { meetingDay: MeetingDay.WEDNESDAY, meetingFrequency: MeetingFrequency.WEEKLY },
+        [new Date('2026-10-07')],
+        today
+      )
+
+      expect(suggestions).toEqual(['2026-10-14', '2026-10-21', '2026-09-30'])
+    })
+
+    it('keeps every-other-week groups in step with their last session', () => {
+      const suggestions = suggestAttendanceDates(
+        { meetingDay: MeetingDay.WEDNESDAY, meetingFrequency: MeetingFrequency.BIWEEKLY },
+        [new Date('2026-10-07')],
+        today
+      )
+
+      expect(suggestions).toEqual(['2026-09-23', '2026-10-21'])
+    })
+
+    it('keeps monthly groups on the same week of the month', () => {
+      const schedule = { meetingDay: MeetingDay.TUESDAY, meetingFrequency: MeetingFrequency.MONTHLY }
+
+      // Last met on the 2nd Tuesday of September
+      expect(suggestAttendanceDates(schedule, [new Date('2026-09-08')], today)).toEqual(['2026-10-13'])
+      // No sessions yet: the first Tuesday
+      expect(suggestAttendanceDates(schedule, [], today)).toEqual(['2026-10-06'])
+    })
+
+    it('suggests nothing without a meeting day', () => {
+      expect(suggestAttendanceDates({ meetingDay: null, meetingFrequency: MeetingFrequency.WEEKLY }, [], today)).toEqual([])
+    })
+  })
+
+  describe('getUpcomingMeetingDates', () => {
+    it('lists the next meetings from today on, following the group\'s cycle', () => {
+      const weekly = { meetingDay: MeetingDay.MONDAY, meetingFrequency: MeetingFrequency.WEEKLY }
+      const biweekly = { meetingDay: MeetingDay.WEDNESDAY, meetingFrequency: MeetingFrequency.BIWEEKLY }
+      const monthly = { meetingDay: MeetingDay.TUESDAY, meetingFrequency: MeetingFrequency.MONTHLY }
+
+      expect(getUpcomingMeetingDates(weekly, [], today)).toEqual(['2026-10-19', '2026-10-26'])
+      expect(getUpcomingMeetingDates(biweekly, [new Date('2026-10-07')], today)).toEqual(['2026-10-21', '2026-11-04'])
+      expect(getUpcomingMeetingDates(monthly, [new Date('2026-09-08')], today)).toEqual(['2026-11-10', '2026-12-08'])
+      expect(getUpcomingMeetingDates({ meetingDay: null, meetingFrequency: MeetingFrequency.WEEKLY }, [], today)).toEqual([])
+    })
+  })
+
+  describe('lifeGroupDetailsSchema', () => {
+    it('validates the meeting time and coordinates', () => {
+      expect(lifeGroupDetailsSchema.safeParse({ meetingTime: '19:00', latitude: 14.6, longitude: 121 }).success).toBe(true)
+      expect(lifeGroupDetailsSchema.safeParse({ meetingTime: '7pm' }).success).toBe(false)
+      expect(lifeGroupDetailsSchema.safeParse({ latitude: 14.6 }).success).toBe(false)
+      expect(lifeGroupDetailsSchema.safeParse({ latitude: 91, longitude: 0 }).success).toBe(false)
+    })
+  })
+})
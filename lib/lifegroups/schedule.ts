@@ -0,0 +1,213 @@
+/**
+ * LifeGroup meeting details: when a group meets, where, and who it is for.
+ *
+ * A group meets on a weekday at a local time ("HH:mm"), weekly, every other
+ * week or monthly. Every-other-week and monthly schedules are anchored on the
+ * group's last recorded session: biweekly counts in two-week steps from it,
+ * monthly keeps its week of the month (the 2nd Tuesday, say). Without a
+ * session to anchor on, monthly groups are taken to meet in the first week.
+ */
+
+import { z } from 'zod'
+import { addDays, differenceInCalendarDays, format, getDay, parse, parseISO, startOfDay, subDays } from 'date-fns'
+import { LifeGroupAudience, MeetingDay, MeetingFrequency, MeetingMode } from '@prisma/client'
+
+export const MEETING_DAY_LABELS: Record<MeetingDay, string> = {
+  SUNDAY: 'Sunday',
+  MONDAY: 'Monday',
+  TUESDAY: 'Tuesday',
+  WEDNESDAY: 'Wednesday',
+  THURSDAY: 'Thursday',
+  FRIDAY: 'Friday',
+  SATURDAY: 'Saturday'
+}
+
+export const MEETING_FREQUENCY_LABELS: Record<MeetingFrequency, string> = {
+  WEEKLY: 'Weekly',
+  BIWEEKLY: 'Every other week',
+  MONTHLY: 'Monthly'
+}
+
+export const MEETING_MODE_LABELS: Record<MeetingMode, string> = {
+  IN_PERSON: 'In person',
+  ONLINE: 'Online',
+  HYBRID: 'In person & online'
+}
+
+export const LIFEGROUP_AUDIENCE_LABELS: Record<LifeGroupAudience, string> = {
+  MEN: 'Men',
+  WOMEN: 'Women',
+  YOUTH: 'Youth',
+  COUPLES: 'Couples'
+}
+
+const MEETING_DAY_INDEX: Record<MeetingDay, number> = {
+  SUNDAY: 0,
+  MONDAY: 1,
+  TUESDAY: 2,
+  WEDNESDAY: 3,
+  THURSDAY: 4,
+  FRIDAY: 5,
+  SATURDAY: 6
+}
+
+// How far back and ahead attendance date suggestions look
+const SUGGESTION_LOOKBACK_DAYS = 28
+const SUGGESTION_LOOKAHEAD_DAYS = 7
+const UPCOMING_LOOKAHEAD_DAYS = 70
+
+export const lifeGroupDetailsSchema = z.object({
+  meetingDay: z.nativeEnum(MeetingDay).nullable().optional(),
+  meetingTime: z.string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Meeting time must be in HH:mm format')
+    .nullable()
+    .optional(),
+  meetingFrequency: z.nativeEnum(MeetingFrequency).optional(),
+  meetingMode: z.nativeEnum(MeetingMode).optional(),
+  location: z.string().trim().max(200).nullable().optional().transform(value => value === '' ? null : value),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  audienceTags: z.array(z.nativeEnum(LifeGroupAudience)).optional(),
+  language: z.string().trim().max(50).nullable().optional().transform(value => value === '' ? null : value)
+}).refine(
+  (data) => (data.latitude == null) === (data.longitude == null),
+  { message: 'Latitude and longitude must be set together', path: ['longitude'] }
+)
+
+export type LifeGroupDetails = z.input<typeof lifeGroupDetailsSchema>
+
+/** The detail columns, for selecting them and for audit snapshots */
+export const LIFEGROUP_DETAIL_FIELDS = [
+  'meetingDay',
+  'meetingTime',
+  'meetingFrequency',
+  'meetingMode',
+  'location',
+  'latitude',
+  'longitude',
+  'audienceTags',
+  'language'
+] as const
+
+interface MeetingSchedule {
+  meetingDay: MeetingDay | null
+  meetingTime?: string | null
+  meetingFrequency: MeetingFrequency
+}
+
+/** "19:30" as "7:30 PM" */
+export function formatMeetingTime(time: string): string {
+  return format(parse(time, 'HH:mm', new Date()), 'h:mm a')
+}
+
+/** "Every other Wednesday at 7:00 PM", or null when no day is set */
+export function describeMeetingSchedule({ meetingDay, meetingTime, meetingFrequency }: MeetingSchedule): string | null {
+  if (!meetingDay) {
+    return null
+  }
+
+  const day = MEETING_DAY_LABELS[meetingDay]
+  const when = {
+    WEEKLY: `Every ${day}`,
+    BIWEEKLY: `Every other ${day}`,
+    MONTHLY: `One ${day} a month`
+  }[meetingFrequency]
+
+  return meetingTime ? `${when} at ${formatMeetingTime(meetingTime)}` : when
+}
+
+function weekOfMonth(date: Date): number {
+  return Math.ceil(date.getDate() / 7)
+}
+
+/** Whether a date on the meeting day falls on the group's biweekly or monthly cycle */
+function scheduledDateMatcher(meetingDay: MeetingDay, meetingFrequency: MeetingFrequency, recordedDates: Date[]) {
+  const dayIndex = MEETING_DAY_INDEX[meetingDay]
+  const anchorKey = recordedDates
+    .map(date => date.toISOString().slice(0, 10))
+    .filter(key => getDay(parseISO(key)) === dayIndex)
+    .sort()
+    .pop()
+  const anchor = anchorKey ? parseISO(anchorKey) : null
+
+  return (date: Date) => {
+    switch (meetingFrequency) {
+      case MeetingFrequency.BIWEEKLY:
+        return !anchor || Math.abs(differenceInCalendarDays(date, anchor)) % 14 === 0
+      case MeetingFrequency.MONTHLY:
+        return weekOfMonth(date) === (anchor ? weekOfMonth(anchor) : 1)
+      default:
+        return true
+    }
+  }
+}
+
+/**
+ * Dates ("yyyy-MM-dd") the group was scheduled to meet without a session
+ * recorded yet, most likely first: the latest past meeting, the next one
+ * coming up, then older ones. Recorded dates are session dates, which are
+ * stored at UTC midnight.
+ */
+export function suggestAttendanceDates(
+  schedule: MeetingSchedule,
+  recordedDates: Date[],
+  today: Date = new Date(),
+  limit = 3
+): string[] {
+  if (!schedule.meetingDay) {
+    return []
+  }
+
+  const dayIndex = MEETING_DAY_INDEX[schedule.meetingDay]
+  const recorded = new Set(recordedDates.map(date => date.toISOString().slice(0, 10)))
+  const isScheduled = scheduledDateMatcher(schedule.meetingDay, schedule.meetingFrequency, recordedDates)
+
+  const start = startOfDay(today)
+  const past: string[] = []
+  const upcoming: string[] = []
+
+  for (let date = subDays(start, SUGGESTION_LOOKBACK_DAYS); date <= addDays(start, SUGGESTION_LOOKAHEAD_DAYS); date = addDays(date, 1)) {
+    const key = format(date, 'yyyy-MM-dd')
+    if (getDay(date) !== dayIndex || recorded.has(key) || !isScheduled(date)) {
+      continue
+    }
+    if (date <= start) {
+      past.unshift(key)
+    } else {
+      upcoming.push(key)
+    }
+  }
+
+  return [past[0], upcoming[0], ...past.slice(1)]
+    .filter((key): key is string => !!key)
+    .slice(0, limit)
+}
+
+/**
+ * The group's next scheduled meeting dates ("yyyy-MM-dd"), starting with
+ * `today` itself when it is a meeting day.
+ */
+export function getUpcomingMeetingDates(
+  schedule: MeetingSchedule,
+  recordedDates: Date[],
+  today: Date = new Date(),
+  limit = 2
+): string[] {
+  if (!schedule.meetingDay) {
+    return []
+  }
+
+  const dayIndex = MEETING_DAY_INDEX[schedule.meetingDay]
+  const isScheduled = scheduledDateMatcher(schedule.meetingDay, schedule.meetingFrequency, recordedDates)
+  const start = startOfDay(today)
+  const upcoming: string[] = []
+
+  // Far enough ahead to reach the next two monthly meetings
+  for (let date = start; date <= addDays(start, UPCOMING_LOOKAHEAD_DAYS) && upcoming.length < limit; date = addDays(date, 1)) {
+    if (getDay(date) === dayIndex && isScheduled(date)) {
+      upcoming.push(format(date, 'yyyy-MM-dd'))
+    }
+  }
+
+  return upcoming
+}
@@ -126,6 +126,9 @@ export const authLogger = logger.child({ context: 'Auth' })
 export const dbLogger = logger.child({ context: 'Database' })
 export const apiLogger = logger.child({ context: 'API' })
 export const emailLogger = logger.child({ context: 'Email' })
+export const pushLogger = logger.child({ context: 'Push' })
+export const realtimeLogger = logger.child({ context: 'Realtime' })
+export const paymentLogger = logger.child({ context: 'Payments' })
 
 // Helper for logging async operations
 export async function logAsync<T>(
@@ -0,0 +1,196 @@
+/**
+ * Column mapping and row validation for the member import wizard.
+ *
+ * Spreadsheets arrive with whatever headers the church used, so each field
+ * lists the header names it is matched against by default; the admin can
+ * change the mapping before the dry run. Everything here is pure so the
+ * wizard can use it in the browser too.
+ */
+
+import { z } from 'zod'
+import { isValid, parse } from 'date-fns'
+import { UserRole } from '@prisma/client'
+
+export const MAX_IMPORT_ROWS = 2000
+
+export const MEMBER_IMPORT_FIELDS = [
+  { key: 'name', label: 'Full name', aliases: ['name', 'full name', 'fullname', 'member name'] },
+  { key: 'firstName', label: 'First name', aliases: ['first name', 'firstname', 'given name'] },
+  { key: 'lastName', label: 'Last name', aliases: ['last name', 'lastname', 'surname', 'family name'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'mobile number', 'contact number'] },
+  { key: 'dateOfBirth', label: 'Date of birth', aliases: ['date of birth', 'dob', 'birthday', 'birthdate'] },
+  { key: 'address', label: 'Address', aliases: ['address', 'street address'] },
+  { key: 'city', label: 'City', aliases: ['city', 'town'] },
+  { key: 'zipCode', label: 'ZIP code', aliases: ['zip', 'zip code', 'zipcode', 'postal code'] },
+  { key: 'emergencyContact', label: 'Emergency contact', aliases: ['emergency contact', 'emergency contact name'] },
+  { key: 'emergencyPhone', label: 'Emergency phone', aliases: ['emergency phone', 'emergency contact number'] },
+  { key: 'role', label: 'Role', aliases: ['role'] },
+  { key: 'isNewBeliever', label: 'New believer', aliases: ['new believer', 'is new believer'] },
+  { key: 'joinedAt', label: 'Member since', aliases: ['joined', 'joined at', 'date joined', 'member since'] }
+] as const
+
+export type MemberImportField = (typeof MEMBER_IMPORT_FIELDS)[number]['key']
+
+/** Field key to the index of the column it reads from */
+export type MemberImportMapping = Partial<Record<MemberImportField, number>>
+
+/** Roles that can be given through an import; anything higher is set by hand */
+export const IMPORTABLE_ROLES: UserRole[] = [UserRole.MEMBER, UserRole.LEADER, UserRole.VIP]
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yyyy', 'MMMM d, yyyy', 'MMM d, yyyy']
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ')
+}
+
+/** Maps each field to the first column whose header matches one of its aliases */
+export function suggestMapping(headers: string[]): MemberImportMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: MemberImportMapping = {}
+
+  for (const field of MEMBER_IMPORT_FIELDS) {
+    const aliases = field.aliases.map(normalizeHeader)
+    const index = normalized.findIndex(header => aliases.includes(header))
+    if (index !== -1) {
+      mapping[field.key] = index
+    }
+  }
+
+  return mapping
+}
+
+/** Digits only, so "0917 123 4567" and "0917-123-4567" match */
+export function normalizePhone(phone: string | null | undefined): string {
+  return (phone ?? '').replace(/\D/g, '')
+}
+
+function parseImportDate(value: string): Date | null {
+  for (const format of DATE_FORMATS) {
+    const date = parse(value, format, new Date(0))
+    if (isValid(date)) {
+      return date
+    }
+  }
+  return null
+}
+
+const optionalText = (max: number) => z.string().trim().max(max).optional().transform(value => value || null)
+
+const optionalDate = (label: string) => z.string().trim().optional().transform((value, ctx) => {
+  if (!value) return null
+  const date = parseImportDate(value)
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is not a date (use YYYY-MM-DD)` })
+    return z.NEVER
+  }
+  return date
+})
+
+export const memberImportRowSchema = z.object({
+  name: z.string({ required_error: 'Name is required' }).trim().min(1, 'Name is required').max(100, 'Name too long'),
+  email: z.string({ required_error: 'Email is required' }).trim().toLowerCase().min(1, 'Email is required').email('Email is not valid'),
+  phone: optionalText(30),
+  dateOfBirth: optionalDate('Date of birth'),
+  address: optionalText(200),
+  city: optionalText(100),
+  zipCode: optionalText(20),
+  emergencyContact: optionalText(100),
+  emergencyPhone: optionalText(30),
+  role: z.string().trim().optional().transform((value, ctx) => {
+    if (!value) return UserRole.MEMBER
+    const role = value.toUpperCase() as UserRole
+    if (!IMPORTABLE_ROLES.includes(role)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Role must be one of ${IMPORTABLE_ROLES.join(', ')}` })
+      return z.NEVER
+    }
+    return role
+  }),
+  isNewBeliever: z.string().trim().optional().transform((value, ctx) => {
+    if (!value) return false
+    const normalized = value.toLowerCase()
+    if (['yes', 'y', 'true', '1'].includes(normalized)) return true
+    if (['no', 'n', 'false', '0'].includes(normalized)) return false
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'New believer must be yes or no' })
+    return z.NEVER
+  }),
+  joinedAt: optionalDate('Member since')
+})
+
+export type MemberImportRow = z.output<typeof memberImportRowSchema>
+
+export interface MappedImportRow {
+  /** Row number in the file, counting the header as row 1 */
+  rowNumber: number
+  data: MemberImportRow | null
+  errors: string[]
+  /** What the row said, for the report */
+  name: string
+  email: string
+}
+
+function cell(row: string[], index: number | undefined): string | undefined {
+  return index === undefined ? undefined : row[index]?.trim() || undefined
+}
+
+/** Applies the mapping and validates each row */
+export function mapImportRows(rows: string[][], mapping: MemberImportMapping): MappedImportRow[] {
+  return rows.map((row, index) => {
+    const fullName = cell(row, mapping.name) ??
+      [cell(row, mapping.firstName), cell(row, mapping.lastName)].filter(Boolean).join(' ')
+
+    const raw: Record<string, string | undefined> = { name: fullName || undefined }
+    for (const field of MEMBER_IMPORT_FIELDS) {
+      if (field.key !== 'name' && field.key !== 'firstName' && field.key !== 'lastName') {
+        raw[field.key] = cell(row, mapping[field.key])
+      }
+    }
+
+    const parsed = memberImportRowSchema.safeParse(raw)
+    return {
+      rowNumber: index + 2,
+      data: parsed.success ? parsed.data : null,
+      errors: parsed.success ? [] : parsed.error.errors.map(error => error.message),
+      name: raw.name ?? '',
+      email: raw.email ?? ''
+    }
+  })
+}
+
+export const IMPORT_ROW_STATUSES = ['create', 'created', 'existing', 'duplicate', 'invalid', 'failed'] as const
+export type ImportRowStatus = (typeof IMPORT_ROW_STATUSES)[number]
+
+export const IMPORT_ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  create: 'Will be created',
+  created: 'Created',
+  existing: 'Already a member',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  failed: 'Failed'
+}
+
+export interface ImportReportRow {
+  rowNumber: number
+  name: string
+  email: string
+  status: ImportRowStatus
+  message?: string
+}
+
+export function summarizeImport(rows: ImportReportRow[]): Record<ImportRowStatus, number> {
+  const summary = Object.fromEntries(IMPORT_ROW_STATUSES.map(status => [status, 0])) as Record<ImportRowStatus, number>
+  for (const row of rows) {
+    summary[row.status]++
+  }
+  return summary
+}
+
+export function buildImportReportCsv(rows: ImportReportRow[]): string {
+  const escape = (cell: string | number) => `"${String(cell).replace(/"/g, '""')}"`
+  return [
+    'Row,Name,Email,Status,Details',
+    ...rows.map(row => [row.rowNumber, row.name, row.email, IMPORT_ROW_STATUS_LABELS[row.status], row.message ?? '']
+      .map(escape)
+      .join(','))
+  ].join('\n')
+}
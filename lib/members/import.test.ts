@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MemberStatus, UserRole } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    user: { findMany: vi.fn(), createMany: vi.fn() },
+    membership: { createMany: vi.fn() },
+    $transaction: vi.fn()
+  }
+  return { prisma }
+})
+
+vi.mock('@/lib/logger', () => ({
+  apiLogger: { error: vi.fn() }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { mapImportRows, suggestMapping, summarizeImport } from './import-mapping'
+import { IMPORT_BATCH_SIZE, commitMemberImport, parseImportFile, planMemberImport } from './import'
+
+const db = prisma as any
+
+const headers = ['First Name', 'Last Name', 'E-mail', 'Mobile Number', 'Birthday', 'Role']
+const mapping = suggestMapping(headers)
+
+describe('member import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.user.findMany.mockResolvedValue([])
+    db.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(db))
+  })
+
+  it('reads a CSV file and suggests a mapping from its headers', async () => {
+    const csv = '﻿First Name,Last Name,E-mail,Mobile Number,Birthday,Role\nJuan,Dela Cruz,juan@test.com,0917 123 4567,1990-05-01,\n\n'
+    const file = await parseImportFile('members.CSV', Buffer.from(csv))
+
+    expect(file.headers).toEqual(headers)
+    expect(file.rows).toEqual([['Juan', 'Dela Cruz', 'juan@test.com', '0917 123 4567', '1990-05-01', '']])
+    expect(mapping).toEqual({ firstName: 0, lastName: 1, email: 2, phone: 3, dateOfBirth: 4, role: 5 })
+    await expect(parseImportFile('members.pdf', Buffer.from(csv))).rejects.toThrow('Upload a .csv or .xlsx file')
+  })
+
+  it('validates rows and joins first and last names', () => {
+    const [valid, invalid] = mapImportRows([
+      ['Juan', 'Dela Cruz', ' Juan@Test.com ', '0917 123 4567', '5/1/1990', 'leader'],
+      ['Maria', '', 'not-an-email', '', 'someday', 'ADMIN']
+    ], mapping)
+
+    expect(valid.rowNumber).toBe(2)
+    expect(valid.data).toMatchObject({
+      name: 'Juan Dela Cruz',
+      email: 'juan@test.com',
+      phone: '0917 123 4567',
+      role: UserRole.LEADER,
+      isNewBeliever: false
+    })
+    expect(valid.data?.dateOfBirth?.getFullYear()).toBe(1990)
+    expect(invalid.data).toBeNull()
+    expect(invalid.errors).toEqual([
+      'Email is not valid',
+      'Date of birth is not a date (use YYYY-MM-DD)',
+      'Role must be one of MEMBER, LEADER, VIP'
+    ])
+  })
+
+  it('reports existing members and duplicates by email or name and phone', async () => {
+    db.user.findMany
+      .mockResolvedValueOnce([
+        { email: 'ana@test.com', memberships: [{ id: 'm-1' }] },
+        { email: 'ben@test.com', memberships: [] }
+      ])
+      .mockResolvedValueOnce([
+        { name: 'Carla Reyes', phone: '0917-555-0000', email: 'carla.old@test.com' }
+      ])
+
+    const rows = mapImportRows([
+      ['Ana', 'Santos', 'ana@test.com', '', '', ''],
+      ['Ben', 'Cruz', 'ben@test.com', '', '', ''],
+      ['carla', 'reyes', 'carla@test.com', '0917 555 0000', '', ''],
+      ['Dan', 'Lim', 'dan@test.com', '0918 111 2222', '', ''],
+      ['Dan', 'Lim', 'DAN@test.com', '', '', ''],
+      ['Daniel', 'Lim', 'daniel@test.com', '09181112222', '', ''],
+      ['Dan', 'Lim', 'dan.lim@test.com', '0918 111 2222', '', ''],
+      ['Eve', '', '', '', '', '']
+    ], mapping)
+
+    const plan = await planMemberImport(rows, 'church-1')
+
+    expect(plan.report.map(row => [row.rowNumber, row.status, row.message])).toEqual([
+      [2, 'existing', 'Already a member of this church'],
+      [3, 'duplicate', 'Email belongs to someone at another church; use a transfer instead'],
+      [4, 'duplicate', 'Same name and phone as carla.old@test.com'],
+      [5, 'create', undefined],
+      [6, 'duplicate', 'Same email as row 5'],
+      [7, 'create', undefined],
+      [8, 'duplicate', 'Same name and phone as row 5'],
+      [9, 'invalid', 'Email is required']
+    ])
+    expect(plan.toCreate.map(row => row.data.email)).toEqual(['dan@test.com', 'daniel@test.com'])
+    expect(db.user.findMany.mock.calls[0][0].select.memberships.where).toEqual({ localChurchId: 'church-1', leftAt: null })
+  })
+
+  it('matches existing members whatever the case of their stored email', async () => {
+    db.user.findMany
+      .mockResolvedValueOnce([{ email: 'John@Church.org', memberships: [{ id: 'm-1' }] }])
+      .mockResolvedValueOnce([])
+
+    const rows = mapImportRows([['John', 'Reyes', 'john@church.org', '', '', '']], mapping)
+    const plan = await planMemberImport(rows, 'church-1')
+
+    expect(db.user.findMany.mock.calls[0][0].where).toEqual({
+      email: { in: ['john@church.org'], mode: 'insensitive' }
+    })
+    expect(plan.report.map(row => row.status)).toEqual(['existing'])
+    expect(plan.toCreate).toEqual([])
+  })
+
+  it('creates members with memberships in batches', async () => {
+    const rows = mapImportRows(
+      Array.from({ length: IMPORT_BATCH_SIZE + 1 }, (_, i) => [`Member`, `${i}`, `member${i}@test.com`, '', '', '']),
+      mapping
+    )
+    const plan = await planMemberImport(rows, 'church-1')
+
+    db.user.findMany.mockImplementation(({ where, select }: any) => Promise.resolve(
+      select.id
+        ? where.email.in.map((email: string) => ({ id: `id-${email}`, email, name: email, role: UserRole.MEMBER }))
+        : []
+    ))
+
+    const { report, created } = await commitMemberImport(plan, 'church-1')
+
+    expect(db.$transaction).toHaveBeenCalledTimes(2)
+    expect(db.user.createMany.mock.calls[0][0].data).toHaveLength(IMPORT_BATCH_SIZE)
+    expect(db.user.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      email: 'member0@test.com',
+      tenantId: 'church-1',
+      memberStatus: MemberStatus.PENDING
+    })
+    expect(db.membership.createMany.mock.calls[1][0]).toEqual({
+      data: [{ userId: `id-member${IMPORT_BATCH_SIZE}@test.com`, localChurchId: 'church-1', role: UserRole.MEMBER, isNewBeliever: false }],
+      skipDuplicates: true
+    })
+    expect(created).toHaveLength(IMPORT_BATCH_SIZE + 1)
+    expect(summarizeImport(report).created).toBe(IMPORT_BATCH_SIZE + 1)
+    expect(summarizeImport(plan.report).create).toBe(IMPORT_BATCH_SIZE + 1)
+  })
+
+  it('skips people who registered since the dry run', async () => {
+    const rows = mapImportRows([
+      ['Ana', 'Santos', 'ana@test.com', '', '', ''],
+      ['Ben', 'Cruz', 'ben@test.com', '', '', '']
+    ], mapping)
+    const plan = await planMemberImport(rows, 'church-1')
+
+    db.user.findMany
+      .mockResolvedValueOnce([{ email: 'Ben@Test.com' }])
+      .mockResolvedValueOnce([{ id: 'user-ana', email: 'ana@test.com', name: 'Ana Santos', role: UserRole.MEMBER }])
+
+    const { report, created } = await commitMemberImport(plan, 'church-1')
+
+    expect(db.user.findMany.mock.calls[0][0].where).toEqual({
+      email: { in: ['ana@test.com', 'ben@test.com'], mode: 'insensitive' }
+    })
+    expect(db.user.createMany.mock.calls[0][0].data.map((user: any) => user.email)).toEqual(['ana@test.com'])
+    expect(created.map(member => member.id)).toEqual(['user-ana'])
+    expect(report.map(row => [row.status, row.message])).toEqual([
+      ['created', undefined],
+      ['duplicate', 'Registered since the dry run']
+    ])
+  })
+
+  it('reports a failed batch so the file can be imported again', async () => {
+    const rows = mapImportRows([['Ana', 'Santos', 'ana@test.com', '', '', '']], mapping)
+    const plan = await planMemberImport(rows, 'church-1')
+
+    db.membership.createMany.mockRejectedValueOnce(new Error('connection lost'))
+
+    const { report, created } = await commitMemberImport(plan, 'church-1')
+
+    expect(created).toEqual([])
+    expect(report).toEqual([{
+      rowNumber: 2,
+      name: 'Ana Santos',
+      email: 'ana@test.com',
+      status: 'failed',
+      message: 'Could not be saved; import the file again to retry'
+    }])
+    expect(plan.report[0].status).toBe('create')
+  })
+})
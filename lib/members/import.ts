@@ -0,0 +1,254 @@
+/**
+ * Bulk member import from CSV and XLSX files.
+ *
+ * The wizard parses the file, then runs the same plan twice: once as a dry
+ * run and again when the admin commits, so nothing is written that wasn't
+ * shown first. Rows are matched against existing people by email, and by
+ * name plus phone for the same person under another address. Rows already
+ * members of the church are reported and left alone, which makes importing
+ * the same file again a no-op. New members are written in batches; a batch
+ * that fails is reported and can be retried by importing the file again.
+ */
+
+import { createHash } from 'crypto'
+import { parse as parseCsv } from 'csv-parse/sync'
+import ExcelJS from 'exceljs'
+import { format } from 'date-fns'
+import { MemberStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { apiLogger } from '@/lib/logger'
+import {
+  MAX_IMPORT_ROWS,
+  normalizePhone,
+  type ImportReportRow,
+  type MappedImportRow,
+  type MemberImportRow
+} from './import-mapping'
+
+export const IMPORT_BATCH_SIZE = 100
+
+export interface ParsedImportFile {
+  headers: string[]
+  rows: string[][]
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd')
+  if (typeof value !== 'object') return String(value)
+  if ('richText' in value) return value.richText.map(part => part.text).join('')
+  if ('text' in value) return String(value.text)
+  if ('result' in value) return cellToString(value.result as ExcelJS.CellValue)
+  return ''
+}
+
+async function readWorkbook(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer)
+  const sheet = workbook.worksheets[0]
+  if (!sheet) {
+    return []
+  }
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = []
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellToString(row.getCell(column).value).trim())
+    }
+    rows.push(cells)
+  })
+  return rows
+}
+
+/** Reads the first sheet (or the CSV) into a header row and data rows */
+export async function parseImportFile(fileName: string, buffer: Buffer): Promise<ParsedImportFile> {
+  const extension = fileName.toLowerCase().split('.').pop()
+  let records: string[][]
+
+  if (extension === 'csv') {
+    records = parseCsv(buffer, { bom: true, skip_empty_lines: true, relax_column_count: true, trim: true })
+  } else if (extension === 'xlsx') {
+    records = await readWorkbook(buffer)
+  } else {
+    throw new ApplicationError('VALIDATION_ERROR', 'Upload a .csv or .xlsx file')
+  }
+
+  const [headers, ...rows] = records.filter(row => row.some(cell => cell !== ''))
+  if (!headers) {
+    throw new ApplicationError('VALIDATION_ERROR', 'The file is empty')
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ApplicationError('VALIDATION_ERROR', `Import up to ${MAX_IMPORT_ROWS} members at a time`)
+  }
+
+  return { headers, rows }
+}
+
+/** Identifies the file's contents in the audit log, so re-runs can be spotted */
+export function hashImportRows(rows: string[][]): string {
+  return createHash('sha256').update(JSON.stringify(rows)).digest('hex').slice(0, 16)
+}
+
+export interface MemberImportPlan {
+  report: ImportReportRow[]
+  toCreate: Array<{ rowNumber: number; data: MemberImportRow }>
+}
+
+/** The dry run: what importing these rows into the church would do */
+export async function planMemberImport(rows: MappedImportRow[], localChurchId: string): Promise<MemberImportPlan> {
+  const valid = rows.filter((row): row is MappedImportRow & { data: MemberImportRow } => row.data !== null)
+
+  const [byEmail, byName] = await Promise.all([
+    prisma.user.findMany({
+      // Emails are stored as typed, while rows are lowercased
+      where: { email: { in: valid.map(row => row.data.email), mode: 'insensitive' } },
+      select: {
+        email: true,
+        memberships: { where: { localChurchId, leftAt: null }, select: { id: true } }
+      }
+    }),
+    prisma.user.findMany({
+      where: {
+        phone: { not: null },
+        name: { in: valid.filter(row => row.data.phone).map(row => row.data.name), mode: 'insensitive' }
+      },
+      select: { name: true, phone: true, email: true }
+    })
+  ])
+
+  const existingByEmail = new Map(byEmail.map(user => [user.email.toLowerCase(), user]))
+  const personKey = (name: string | null, phone: string | null) =>
+    `${(name ?? '').trim().toLowerCase()}|${normalizePhone(phone)}`
+  const existingByPerson = new Map(byName.map(user => [personKey(user.name, user.phone), user]))
+
+  const seenEmails = new Map<string, number>()
+  const seenPeople = new Map<string, number>()
+  const report: ImportReportRow[] = []
+  const toCreate: MemberImportPlan['toCreate'] = []
+
+  for (const row of rows) {
+    const entry = { rowNumber: row.rowNumber, name: row.name, email: row.email }
+
+    if (!row.data) {
+      report.push({ ...entry, status: 'invalid', message: row.errors.join('; ') })
+      continue
+    }
+
+    const { email, name, phone } = row.data
+    const person = phone ? personKey(name, phone) : null
+    const existing = existingByEmail.get(email)
+    const samePerson = person ? existingByPerson.get(person) : undefined
+
+    if (existing?.memberships.length) {
+      report.push({ ...entry, status: 'existing', message: 'Already a member of this church' })
+    } else if (existing) {
+      report.push({ ...entry, status: 'duplicate', message: 'Email belongs to someone at another church; use a transfer instead' })
+    } else if (samePerson) {
+      report.push({ ...entry, status: 'duplicate', message: `Same name and phone as ${samePerson.email}` })
+    } else if (seenEmails.has(email)) {
+      report.push({ ...entry, status: 'duplicate', message: `Same email as row ${seenEmails.get(email)}` })
+    } else if (person && seenPeople.has(person)) {
+      report.push({ ...entry, status: 'duplicate', message: `Same name and phone as row ${seenPeople.get(person)}` })
+    } else {
+      report.push({ ...entry, status: 'create' })
+      toCreate.push({ rowNumber: row.rowNumber, data: row.data })
+    }
+
+    if (!seenEmails.has(email)) seenEmails.set(email, row.rowNumber)
+    if (person && !seenPeople.has(person)) seenPeople.set(person, row.rowNumber)
+  }
+
+  return { report, toCreate }
+}
+
+export interface ImportedMember {
+  id: string
+  email: string
+  name: string | null
+  role: MemberImportRow['role']
+}
+
+/**
+ * Writes the planned members in batches. Each batch is its own transaction,
+ * so one bad batch doesn't undo the others.
+ */
+export async function commitMemberImport(plan: MemberImportPlan, localChurchId: string) {
+  const report = plan.report.map(row => ({ ...row }))
+  const reportByRow = new Map(report.map(row => [row.rowNumber, row]))
+  const created: ImportedMember[] = []
+
+  for (let start = 0; start < plan.toCreate.length; start += IMPORT_BATCH_SIZE) {
+    const batch = plan.toCreate.slice(start, start + IMPORT_BATCH_SIZE)
+
+    try {
+      const members = await prisma.$transaction(async (tx) => {
+        // Someone may have registered since the dry run
+        const taken = new Set((await tx.user.findMany({
+          where: { email: { in: batch.map(row => row.data.email), mode: 'insensitive' } },
+          select: { email: true }
+        })).map(user => user.email.toLowerCase()))
+        const fresh = batch.filter(row => !taken.has(row.data.email))
+
+        for (const row of batch.filter(row => taken.has(row.data.email))) {
+          Object.assign(reportByRow.get(row.rowNumber)!, { status: 'duplicate', message: 'Registered since the dry run' })
+        }
+
+        await tx.user.createMany({
+          data: fresh.map(({ data }) => ({
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            dateOfBirth: data.dateOfBirth,
+            address: data.address,
+            city: data.city,
+            zipCode: data.zipCode,
+            emergencyContact: data.emergencyContact,
+            emergencyPhone: data.emergencyPhone,
+            role: data.role,
+            isNewBeliever: data.isNewBeliever,
+            tenantId: localChurchId,
+            memberStatus: MemberStatus.PENDING,
+            mustChangePassword: false,
+            ...(data.joinedAt && { joinedAt: data.joinedAt })
+          }))
+        })
+
+        const users = await tx.user.findMany({
+          where: { email: { in: fresh.map(row => row.data.email) } },
+          select: { id: true, email: true, name: true, role: true }
+        })
+        const rowByEmail = new Map(fresh.map(row => [row.data.email, row.data]))
+
+        await tx.membership.createMany({
+          data: users.map(user => {
+            const data = rowByEmail.get(user.email)!
+            return {
+              userId: user.id,
+              localChurchId,
+              role: user.role,
+              isNewBeliever: data.isNewBeliever,
+              ...(data.joinedAt && { joinedAt: data.joinedAt })
+            }
+          }),
+          skipDuplicates: true
+        })
+
+        return { users, fresh }
+      })
+
+      for (const row of members.fresh) {
+        reportByRow.get(row.rowNumber)!.status = 'created'
+      }
+      created.push(...members.users)
+    } catch (error) {
+      apiLogger.error('Member import batch failed', { error, localChurchId, firstRow: batch[0].rowNumber })
+      for (const row of batch) {
+        Object.assign(reportByRow.get(row.rowNumber)!, { status: 'failed', message: 'Could not be saved; import the file again to retry' })
+      }
+    }
+  }
+
+  return { report, created }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EnrollmentStatus, MembershipStatus, UserRole } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    lifeGroup: { findMany: vi.fn() },
+    lifeGroupMembership: { findMany: vi.fn(), updateMany: vi.fn() },
+    lifeGroupMemberRequest: { deleteMany: vi.fn() },
+    pathway: { findMany: vi.fn() },
+    pathwayEnrollment: { findMany: vi.fn(), updateMany: vi.fn(), createMany: vi.fn() },
+    membership: { findUnique: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+    user: { update: vi.fn() }
+  }
+  return { prisma }
+})
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { completeMemberTransfer, getTransferImpact } from './transfers'
+
+const db = prisma as any
+const now = new Date('2026-10-19T10:00:00Z')
+const parties = { userId: 'member-1', fromChurchId: 'manila', toChurchId: 'cebu' }
+
+describe('member transfers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.lifeGroup.findMany.mockResolvedValue([])
+    db.lifeGroupMembership.findMany.mockResolvedValue([
+      { lifeGroup: { id: 'lg-1', name: 'Young Pros' } }
+    ])
+    db.pathwayEnrollment.findMany.mockResolvedValue([
+      { id: 'enr-1', pathway: { id: 'roots-manila', name: 'ROOTS', type: 'ROOTS' } },
+      { id: 'enr-2', pathway: { id: 'vines-manila', name: 'VINES', type: 'VINES' } }
+    ])
+    db.pathway.findMany.mockResolvedValue([
+      { id: 'roots-cebu', name: 'ROOTS Cebu', type: 'ROOTS' }
+    ])
+    db.membership.findUnique.mockResolvedValue({
+      id: 'membership-manila',
+      role: UserRole.MEMBER,
+      isNewBeliever: true,
+      believerStatus: 'ACTIVE',
+      leftAt: null
+    })
+    db.membership.upsert.mockResolvedValue({ id: 'membership-cebu' })
+  })
+
+  it('continues pathways in progress where the receiving church has one of the same type', async () => {
+    const impact = await getTransferImpact(db, parties)
+
+    expect(impact.lifeGroups).toEqual([{ id: 'lg-1', name: 'Young Pros' }])
+    expect(impact.pathways).toEqual([
+      { enrollmentId: 'enr-1', pathwayId: 'roots-manila', name: 'ROOTS', continuesIn: { id: 'roots-cebu', name: 'ROOTS Cebu' } },
+      { enrollmentId: 'enr-2', pathwayId: 'vines-manila', name: 'VINES', continuesIn: null }
+    ])
+  })
+
+  it('closes the old membership and moves church-scoped activity', async () => {
+    const { membership } = await completeMemberTransfer(db, parties, now)
+
+    expect(membership).toEqual({ id: 'membership-cebu' })
+    expect(db.membership.update).toHaveBeenCalledWith({
+      where: { id: 'membership-manila' },
+      data: { leftAt: now }
+    })
+    expect(db.membership.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_localChurchId: { userId: 'member-1', localChurchId: 'cebu' } },
+      update: { role: UserRole.MEMBER, leftAt: null }
+    }))
+    expect(db.user.update).toHaveBeenCalledWith({ where: { id: 'member-1' }, data: { tenantId: 'cebu' } })
+    expect(db.lifeGroupMembership.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'member-1', status: MembershipStatus.ACTIVE, lifeGroup: { localChurchId: 'manila' } },
+      data: { status: MembershipStatus.LEFT, leftAt: now, role: 'MEMBER' }
+    })
+    expect(db.pathwayEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['enr-1', 'enr-2'] } },
+      data: { status: EnrollmentStatus.DROPPED, droppedAt: now }
+    })
+    expect(db.pathwayEnrollment.createMany).toHaveBeenCalledWith({
+      data: [{ pathwayId: 'roots-cebu', userId: 'member-1', enrolledAt: now }],
+      skipDuplicates: true
+    })
+  })
+
+  it('keeps the join date and re-enrolls dropped pathways when a member returns', async () => {
+    await completeMemberTransfer(db, parties, now)
+
+    const upsert = db.membership.upsert.mock.calls[0][0]
+    expect(upsert.create.joinedAt).toEqual(now)
+    expect(upsert.update).not.toHaveProperty('joinedAt')
+    expect(db.pathwayEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'member-1', pathwayId: { in: ['roots-cebu'] }, status: EnrollmentStatus.DROPPED },
+      data: { status: EnrollmentStatus.ENROLLED, enrolledAt: now, droppedAt: null }
+    })
+  })
+
+  it('requires LifeGroups the member leads to be handed over first', async () => {
+    db.lifeGroup.findMany.mockResolvedValue([{ id: 'lg-2', name: 'Couples Cebu' }])
+
+    await expect(completeMemberTransfer(db, parties, now)).rejects.toThrow(
+      'Hand over Couples Cebu to another leader before transferring this member'
+    )
+    expect(db.membership.update).not.toHaveBeenCalled()
+  })
+
+  it('refuses a member who has already left the sending church', async () => {
+    db.membership.findUnique.mockResolvedValue({ id: 'membership-manila', leftAt: new Date('2026-01-01') })
+
+    await expect(completeMemberTransfer(db, parties, now)).rejects.toThrow(
+      'This member is no longer at the sending church'
+    )
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+})
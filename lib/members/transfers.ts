@@ -0,0 +1,184 @@
+/**
+ * Moving a member from one local church to another.
+ *
+ * Nothing is deleted: the old church membership is closed with leftAt, so
+ * the member's history there stays in its reports. Church-scoped activity is
+ * handled explicitly. The member leaves their LifeGroups at the old church
+ * and its pending join requests are withdrawn. Pathways in progress are
+ * dropped, and continue in the receiving church's pathway of the same type
+ * when it has one; completed pathways stay as they are. A member who still
+ * leads a LifeGroup has to hand it over first.
+ */
+
+import { z } from 'zod'
+import { EnrollmentStatus, LifeGroupRole, MembershipStatus, Prisma, RequestStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+
+type DbClient = Prisma.TransactionClient | typeof prisma
+
+export const requestMemberTransferSchema = z.object({
+  userId: z.string().min(1).optional(),
+  email: z.string().trim().toLowerCase().email('Enter a valid email').optional(),
+  toChurchId: z.string().min(1, 'Choose the receiving church'),
+  reason: z.string().trim().max(500, 'Reason too long').optional()
+}).refine(
+  (data) => !!data.userId || !!data.email,
+  { message: 'Pick a member or enter their email', path: ['email'] }
+)
+
+export type RequestMemberTransferInput = z.infer<typeof requestMemberTransferSchema>
+
+export const decideMemberTransferSchema = z.object({
+  transferId: z.string().min(1),
+  note: z.string().trim().max(500, 'Note too long').optional()
+})
+
+export type DecideMemberTransferInput = z.infer<typeof decideMemberTransferSchema>
+
+export interface TransferImpact {
+  /** Groups the member leads; these block the transfer */
+  ledLifeGroups: Array<{ id: string; name: string }>
+  lifeGroups: Array<{ id: string; name: string }>
+  pathways: Array<{
+    enrollmentId: string
+    pathwayId: string
+    name: string
+    continuesIn: { id: string; name: string } | null
+  }>
+}
+
+interface TransferParties {
+  userId: string
+  fromChurchId: string
+  toChurchId: string
+}
+
+/** What approving the transfer would change for the member */
+export async function getTransferImpact(
+  db: DbClient,
+  { userId, fromChurchId, toChurchId }: TransferParties
+): Promise<TransferImpact> {
+  const [ledLifeGroups, memberships, enrollments] = await Promise.all([
+    db.lifeGroup.findMany({
+      where: { leaderId: userId, localChurchId: fromChurchId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    }),
+    db.lifeGroupMembership.findMany({
+      where: { userId, status: MembershipStatus.ACTIVE, lifeGroup: { localChurchId: fromChurchId } },
+      select: { lifeGroup: { select: { id: true, name: true } } }
+    }),
+    db.pathwayEnrollment.findMany({
+      where: { userId, status: EnrollmentStatus.ENROLLED, pathway: { tenantId: fromChurchId } },
+      select: { id: true, pathway: { select: { id: true, name: true, type: true } } }
+    })
+  ])
+
+  const receivingPathways = enrollments.length > 0
+    ? await db.pathway.findMany({
+        where: { tenantId: toChurchId, isActive: true, type: { in: enrollments.map(e => e.pathway.type) } },
+        select: { id: true, name: true, type: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    : []
+
+  return {
+    ledLifeGroups,
+    lifeGroups: memberships.map(membership => membership.lifeGroup),
+    pathways: enrollments.map(enrollment => {
+      const match = receivingPathways.find(pathway => pathway.type === enrollment.pathway.type)
+      return {
+        enrollmentId: enrollment.id,
+        pathwayId: enrollment.pathway.id,
+        name: enrollment.pathway.name,
+        continuesIn: match ? { id: match.id, name: match.name } : null
+      }
+    })
+  }
+}
+
+/**
+ * Moves the member. Run it inside the transaction that records the decision.
+ */
+export async function completeMemberTransfer(
+  tx: Prisma.TransactionClient,
+  parties: TransferParties,
+  now: Date = new Date()
+) {
+  const { userId, fromChurchId, toChurchId } = parties
+  const impact = await getTransferImpact(tx, parties)
+
+  if (impact.ledLifeGroups.length > 0) {
+    throw new ApplicationError(
+      'VALIDATION_ERROR',
+      `Hand over ${impact.ledLifeGroups.map(group => group.name).join(', ')} to another leader before transferring this member`
+    )
+  }
+
+  const current = await tx.membership.findUnique({
+    where: { userId_localChurchId: { userId, localChurchId: fromChurchId } }
+  })
+  if (!current || current.leftAt) {
+    throw new ApplicationError('VALIDATION_ERROR', 'This member is no longer at the sending church')
+  }
+
+  await tx.membership.update({
+    where: { id: current.id },
+    data: { leftAt: now }
+  })
+
+  // A member returning to a church they left before gets that membership back, from when they first joined
+  const membership = await tx.membership.upsert({
+    where: { userId_localChurchId: { userId, localChurchId: toChurchId } },
+    create: {
+      userId,
+      localChurchId: toChurchId,
+      role: current.role,
+      isNewBeliever: current.isNewBeliever,
+      believerStatus: current.believerStatus,
+      joinedAt: now
+    },
+    update: { role: current.role, leftAt: null }
+  })
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { tenantId: toChurchId }
+  })
+
+  await tx.lifeGroupMembership.updateMany({
+    where: { userId, status: MembershipStatus.ACTIVE, lifeGroup: { localChurchId: fromChurchId } },
+    data: { status: MembershipStatus.LEFT, leftAt: now, role: LifeGroupRole.MEMBER }
+  })
+
+  await tx.lifeGroupMemberRequest.deleteMany({
+    where: { userId, status: RequestStatus.PENDING, lifeGroup: { localChurchId: fromChurchId } }
+  })
+
+  if (impact.pathways.length > 0) {
+    await tx.pathwayEnrollment.updateMany({
+      where: { id: { in: impact.pathways.map(p => p.enrollmentId) } },
+      data: { status: EnrollmentStatus.DROPPED, droppedAt: now }
+    })
+
+    const continued = impact.pathways.filter(p => p.continuesIn)
+    if (continued.length > 0) {
+      const continuedIds = continued.map(p => p.continuesIn!.id)
+
+      // Re-enroll in pathways dropped when the member left this church before;
+      // completed enrollments stay completed
+      await tx.pathwayEnrollment.updateMany({
+        where: { userId, pathwayId: { in: continuedIds }, status: EnrollmentStatus.DROPPED },
+        data: { status: EnrollmentStatus.ENROLLED, enrolledAt: now, droppedAt: null }
+      })
+
+      await tx.pathwayEnrollment.createMany({
+        data: continuedIds.map(pathwayId => ({ pathwayId, userId, enrolledAt: now })),
+        skipDuplicates: true
+      })
+    }
+  }
+
+  return { membership, impact }
+}
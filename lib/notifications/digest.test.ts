@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EnrollmentStatus, MeetingDay, MeetingFrequency, UserRole } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    localChurch: { findUnique: vi.fn() },
+    announcement: { findMany: vi.fn() },
+    event: { findMany: vi.fn() },
+    lifeGroupMembership: { findFirst: vi.fn() },
+    notificationPreference: { findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn() }
+  }
+}))
+
+vi.mock('@/lib/auth', () => ({ auth: vi.fn() }))
+
+vi.mock('@/lib/email', () => ({
+  getAppUrl: (pathname: string) => `https://drouple.app${pathname}`,
+  queueEmail: vi.fn().mockResolvedValue({ queued: true, messageId: 'email1' })
+}))
+
+vi.mock('@/app/lib/pathways/progress', () => ({
+  getUserProgress: vi.fn()
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { queueEmail } from '@/lib/email'
+import { getUserProgress } from '@/app/lib/pathways/progress'
+import { buildWeeklyDigest, isDigestEmpty, sendWeeklyDigests } from './digest'
+
+const db = prisma as any
+
+const now = new Date('2026-10-24T22:00:00Z')
+
+function mockMemberWeek({ withContent = true } = {}) {
+  db.user.findUnique.mockResolvedValue({ id: 'user1', name: 'Jane', email: 'jane@example.com', role: UserRole.MEMBER, tenantId: 'church1' })
+  db.localChurch.findUnique.mockResolvedValue({ name: 'HPCI Manila' })
+  db.announcement.findMany.mockResolvedValue(withContent ? [{ title: 'Building fund update' }] : [])
+  db.event.findMany.mockResolvedValue(withContent
+    ? [{ id: 'event1', name: 'Youth Night', startDateTime: new Date('2026-10-30T11:00:00Z'), location: 'Main Hall' }]
+    : [])
+  db.lifeGroupMembership.findFirst.mockResolvedValue(withContent
+    ? {
+      lifeGroup: {
+        name: 'Makati Young Pros',
+        meetingDay: MeetingDay.WEDNESDAY,
+        meetingTime: '19:30',
+        meetingFrequency: MeetingFrequency.WEEKLY,
+        attendanceSessions: []
+      }
+    }
+    : null)
+  vi.mocked(getUserProgress).mockResolvedValue((withContent
+    ? [
+      {
+        enrollment: { status: EnrollmentStatus.ENROLLED, pathway: { name: 'ROOTS' } },
+        steps: [
+          { name: 'Class 1', status: 'COMPLETED', dueDate: null },
+          { name: 'Baptism', status: 'PENDING', dueDate: null },
+          { name: 'Class 2', status: 'OVERDUE', dueDate: new Date('2026-10-20T00:00:00Z') }
+        ]
+      },
+      {
+        enrollment: { status: EnrollmentStatus.COMPLETED, pathway: { name: 'VINES' } },
+        steps: [{ name: 'Serve', status: 'PENDING', dueDate: null }]
+      }
+    ]
+    : []) as any)
+}
+
+describe('buildWeeklyDigest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should collect the member\'s announcements, events, LifeGroup and open steps', async () => {
+    mockMemberWeek()
+
+    const digest = await buildWeeklyDigest('user1', now)
+
+    expect(digest).toMatchObject({
+      name: 'Jane',
+      churchName: 'HPCI Manila',
+      periodLabel: 'Oct 25 – Oct 31',
+      announcements: [{ title: 'Building fund update', url: 'https://drouple.app/announcements' }],
+      events: [{ name: 'Youth Night', url: 'https://drouple.app/events/event1' }],
+      // Wednesday 7:30 PM in Manila
+      lifeGroup: { name: 'Makati Young Pros', nextMeeting: new Date('2026-10-28T11:30:00Z') }
+    })
+    expect(digest?.pathwaySteps.map(step => step.stepName)).toEqual(['Class 2', 'Baptism'])
+
+    const announcementWhere = db.announcement.findMany.mock.calls[0][0].where
+    expect(announcementWhere.AND[0].localChurch).toEqual({ id: { in: ['church1'] } })
+    expect(announcementWhere.AND[1]).toEqual({ publishedAt: { gte: new Date('2026-10-17T22:00:00Z') } })
+  })
+
+  it('should only include events visible to the member\'s role', async () => {
+    mockMemberWeek()
+
+    await buildWeeklyDigest('user1', now)
+
+    const eventWhere = db.event.findMany.mock.calls[0][0].where
+    expect(eventWhere.AND).toEqual([{ OR: [{ visibleToRoles: { isEmpty: true } }, { visibleToRoles: { has: UserRole.MEMBER } }] }])
+    expect(eventWhere.startDateTime).toEqual({ gte: now, lt: new Date('2026-10-31T22:00:00Z') })
+  })
+
+  it('should follow the LifeGroup\'s schedule for its next meeting', async () => {
+    mockMemberWeek({ withContent: false })
+    db.lifeGroupMembership.findFirst.mockResolvedValue({
+      lifeGroup: {
+        name: 'Makati Young Pros',
+        meetingDay: MeetingDay.SUNDAY,
+        meetingTime: '05:00',
+        meetingFrequency: MeetingFrequency.BIWEEKLY,
+        attendanceSessions: [{ date: new Date('2026-10-11T00:00:00Z') }]
+      }
+    })
+
+    const digest = await buildWeeklyDigest('user1', now)
+
+    // Sunday 5:00 AM on the 25th has passed in Manila by the time the digest goes out
+    expect(digest?.lifeGroup?.nextMeeting).toEqual(new Date('2026-11-07T21:00:00Z'))
+    expect(isDigestEmpty(digest!)).toBe(false)
+
+    db.lifeGroupMembership.findFirst.mockResolvedValue({
+      lifeGroup: { name: 'Makati Young Pros', meetingDay: null, meetingTime: null, meetingFrequency: MeetingFrequency.WEEKLY, attendanceSessions: [] }
+    })
+    const unscheduled = await buildWeeklyDigest('user1', now)
+
+    expect(unscheduled?.lifeGroup?.nextMeeting).toBeNull()
+    expect(isDigestEmpty(unscheduled!)).toBe(true)
+  })
+
+  it('should return null for members without a church', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'user1', role: UserRole.MEMBER, tenantId: null })
+
+    expect(await buildWeeklyDigest('user1', now)).toBeNull()
+    expect(db.announcement.findMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendWeeklyDigests', () => {
+  const preference = { id: 'pref1', userId: 'user1', lastDigestAt: null, user: { email: 'jane@example.com', tenantId: 'church1' } }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.notificationPreference.findMany.mockResolvedValue([preference])
+    db.notificationPreference.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should claim the week and queue the digest', async () => {
+    mockMemberWeek()
+
+    const result = await sendWeeklyDigests({ now })
+
+    expect(result).toEqual({ processed: 1, queued: 1, empty: 0, skipped: 0, failed: 0 })
+    expect(db.notificationPreference.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'pref1' }),
+      data: { lastDigestAt: now }
+    })
+    expect(queueEmail).toHaveBeenCalledWith(expect.objectContaining({
+      template: 'weeklyDigest',
+      to: 'jane@example.com',
+      userId: 'user1',
+      localChurchId: 'church1'
+    }))
+  })
+
+  it('should not send an empty digest or one another run already claimed', async () => {
+    mockMemberWeek({ withContent: false })
+    db.notificationPreference.findMany.mockResolvedValue([preference, { ...preference, id: 'pref2' }])
+    db.notificationPreference.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+    const result = await sendWeeklyDigests({ now })
+
+    expect(result).toEqual({ processed: 2, queued: 0, empty: 1, skipped: 1, failed: 0 })
+    expect(queueEmail).not.toHaveBeenCalled()
+  })
+
+  it('should keep going until every member due has been handled', async () => {
+    mockMemberWeek()
+    db.notificationPreference.findMany
+      .mockResolvedValueOnce([preference, { ...preference, id: 'pref2' }])
+      .mockResolvedValueOnce([{ ...preference, id: 'pref3' }])
+
+    const result = await sendWeeklyDigests({ limit: 2, now })
+
+    expect(result).toEqual({ processed: 3, queued: 3, empty: 0, skipped: 0, failed: 0 })
+    expect(db.notificationPreference.findMany).toHaveBeenCalledTimes(2)
+  })
+
+  it('should release the claim when the digest fails to build', async () => {
+    db.user.findUnique.mockRejectedValue(new Error('Connection reset'))
+    db.notificationPreference.findMany.mockResolvedValueOnce([preference]).mockResolvedValueOnce([])
+
+    const result = await sendWeeklyDigests({ limit: 1, now })
+
+    expect(result.failed).toBe(1)
+    // Not retried within the same run
+    expect(db.notificationPreference.findMany.mock.calls[1][0].where.id).toEqual({ notIn: ['pref1'] })
+    expect(db.notificationPreference.update).toHaveBeenCalledWith({
+      where: { id: 'pref1' },
+      data: { lastDigestAt: null }
+    })
+  })
+})
@@ -0,0 +1,269 @@
+import { EnrollmentStatus, EventScope, MemberStatus, MembershipStatus, Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { emailLogger } from '@/lib/logger'
+import { hasMinRole } from '@/lib/rbac'
+import { buildTargetedAnnouncementWhere } from '@/lib/announcements/targeting'
+import { getAppUrl, queueEmail, type EmailTemplateData } from '@/lib/email'
+import { DEFAULT_SERVICE_TIME_ZONE, getZonedParts, zonedTimeToUtc } from '@/lib/services/schedules'
+import { getUpcomingMeetingDates } from '@/lib/lifegroups/schedule'
+import { getUserProgress } from '@/app/lib/pathways/progress'
+
+/**
+ * Weekly email digest, for members who opted in on their notification
+ * settings. Each digest covers the past week's announcements and the coming
+ * week's events, plus the member's LifeGroup and open pathway steps.
+ *
+ * lastDigestAt is claimed before a digest is built, so overlapping or
+ * repeated job runs handle each member at most once per week. A week with
+ * nothing to report is marked handled without sending anything; a digest
+ * that fails to build is released for the next run.
+ */
+
+export const DIGEST_PERIOD_DAYS = 7
+export const DIGEST_BATCH_SIZE = 200
+
+// A little under a week, so a cron that fires a few minutes early still sends
+const DIGEST_MIN_INTERVAL_HOURS = 6 * 24
+const DIGEST_SECTION_LIMIT = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type WeeklyDigestData = EmailTemplateData['weeklyDigest']
+
+export function formatDigestPeriod(start: Date, end: Date): string {
+  const format = new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: DEFAULT_SERVICE_TIME_ZONE
+  })
+  return `${format.format(start)} – ${format.format(end)}`
+}
+
+export function isDigestEmpty(digest: WeeklyDigestData): boolean {
+  return (
+    digest.announcements.length === 0 &&
+    digest.events.length === 0 &&
+    !digest.lifeGroup?.nextMeeting &&
+    digest.pathwaySteps.length === 0
+  )
+}
+
+/**
+ * The group's next meeting after `now`, from its schedule. Meeting times are
+ * read in the church time zone; a group without a time counts from the start
+ * of the day.
+ */
+function getNextLifeGroupMeeting(
+  lifeGroup: Parameters<typeof getUpcomingMeetingDates>[0] & { attendanceSessions: { date: Date }[] },
+  now: Date
+): Date | null {
+  const today = getZonedParts(now, DEFAULT_SERVICE_TIME_ZONE)
+  const [hour, minute] = (lifeGroup.meetingTime ?? '00:00').split(':').map(Number)
+
+  return getUpcomingMeetingDates(
+    lifeGroup,
+    lifeGroup.attendanceSessions.map(session => session.date),
+    new Date(today.year, today.month - 1, today.day)
+  )
+    .map(key => {
+      const [year, month, day] = key.split('-').map(Number)
+      return zonedTimeToUtc(year, month, day, hour, minute, DEFAULT_SERVICE_TIME_ZONE)
+    })
+    .find(meeting => meeting > now) ?? null
+}
+
+/**
+ * Assembles one member's digest, or null when the member no longer belongs to
+ * a church. Announcements use the same targeting as the announcements page
+ * and events the same visibility rules as the events list.
+ */
+export async function buildWeeklyDigest(userId: string, now: Date = new Date()): Promise<WeeklyDigestData | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true, role: true, tenantId: true }
+  })
+
+  if (!user?.tenantId) {
+    return null
+  }
+
+  const periodStart = new Date(now.getTime() - DIGEST_PERIOD_DAYS * DAY_MS)
+  const periodEnd = new Date(now.getTime() + DIGEST_PERIOD_DAYS * DAY_MS)
+
+  const eventWhere: Prisma.EventWhereInput = {
+    isActive: true,
+    startDateTime: { gte: now, lt: periodEnd },
+    OR: [
+      { scope: EventScope.WHOLE_CHURCH },
+      { scope: EventScope.LOCAL_CHURCH, localChurchId: user.tenantId }
+    ],
+    ...(hasMinRole(user.role, UserRole.ADMIN)
+      ? {}
+      : { AND: [{ OR: [{ visibleToRoles: { isEmpty: true } }, { visibleToRoles: { has: user.role } }] }] })
+  }
+
+  const [localChurch, announcements, events, lifeGroupMembership, progress] = await Promise.all([
+    prisma.localChurch.findUnique({ where: { id: user.tenantId }, select: { name: true } }),
+    prisma.announcement.findMany({
+      where: {
+        AND: [
+          buildTargetedAnnouncementWhere({ userId: user.id, churchIds: [user.tenantId], now }),
+          { publishedAt: { gte: periodStart } }
+        ]
+      },
+      select: { title: true },
+      orderBy: [{ priority: 'desc' }, { publishedAt: 'desc' }],
+      take: DIGEST_SECTION_LIMIT
+    }),
+    prisma.event.findMany({
+      where: eventWhere,
+      select: { id: true, name: true, startDateTime: true, location: true },
+      orderBy: { startDateTime: 'asc' },
+      take: DIGEST_SECTION_LIMIT
+    }),
+    prisma.lifeGroupMembership.findFirst({
+      where: { userId: user.id, status: MembershipStatus.ACTIVE, lifeGroup: { isActive: true } },
+      select: {
+        lifeGroup: {
+          select: {
+            name: true,
+            meetingDay: true,
+            meetingTime: true,
+            meetingFrequency: true,
+            // The latest sessions anchor biweekly and monthly schedules
+            attendanceSessions: {
+              select: { date: true },
+              orderBy: { date: 'desc' },
+              take: DIGEST_SECTION_LIMIT
+            }
+          }
+        }
+      },
+      orderBy: { joinedAt: 'asc' }
+    }),
+    getUserProgress(user.id)
+  ])
+
+  const pathwaySteps = progress
+    .filter(({ enrollment }) => enrollment.status === EnrollmentStatus.ENROLLED)
+    .flatMap(({ enrollment, steps }) => steps
+      .filter(step => step.status === 'PENDING' || step.status === 'OVERDUE')
+      .map(step => ({
+        pathwayName: enrollment.pathway.name,
+        stepName: step.name,
+        dueDate: step.dueDate,
+        url: getAppUrl('/pathways')
+      })))
+    .sort((a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity))
+    .slice(0, DIGEST_SECTION_LIMIT)
+
+  const lifeGroup = lifeGroupMembership?.lifeGroup
+
+  return {
+    name: user.name || user.email,
+    churchName: localChurch?.name || 'Drouple',
+    periodLabel: formatDigestPeriod(now, new Date(periodEnd.getTime() - DAY_MS)),
+    announcements: announcements.map(announcement => ({
+      title: announcement.title,
+      url: getAppUrl('/announcements')
+    })),
+    events: events.map(event => ({
+      name: event.name,
+      startDateTime: event.startDateTime,
+      location: event.location,
+      url: getAppUrl(`/events/${event.id}`)
+    })),
+    lifeGroup: lifeGroup
+      ? {
+        name: lifeGroup.name,
+        nextMeeting: getNextLifeGroupMeeting(lifeGroup, now),
+        url: getAppUrl('/lifegroups')
+      }
+      : null,
+    pathwaySteps,
+    manageUrl: getAppUrl('/dashboard')
+  }
+}
+
+/**
+ * Queues the digest for every opted-in member who has not had one this week,
+ * DIGEST_BATCH_SIZE at a time until nobody is left. Delivery happens through
+ * the email outbox, so a slow mail provider does not hold up the job.
+ */
+export async function sendWeeklyDigests({
+  limit = DIGEST_BATCH_SIZE,
+  now = new Date()
+}: { limit?: number; now?: Date } = {}) {
+  const dueBefore = new Date(now.getTime() - DIGEST_MIN_INTERVAL_HOURS * 60 * 60 * 1000)
+  const notSentThisWeek: Prisma.NotificationPreferenceWhereInput = {
+    OR: [{ lastDigestAt: null }, { lastDigestAt: { lt: dueBefore } }]
+  }
+
+  const result = { processed: 0, queued: 0, empty: 0, skipped: 0, failed: 0 }
+  // Failed digests are released, so they are left for the next run rather than retried here
+  const failedIds: string[] = []
+
+  for (;;) {
+    const due = await prisma.notificationPreference.findMany({
+      where: {
+        weeklyDigest: true,
+        email: true,
+        ...notSentThisWeek,
+        id: { notIn: failedIds },
+        user: { memberStatus: MemberStatus.ACTIVE, tenantId: { not: null } }
+      },
+      select: { id: true, userId: true, lastDigestAt: true, user: { select: { email: true, tenantId: true } } },
+      orderBy: { lastDigestAt: { sort: 'asc', nulls: 'first' } },
+      take: limit
+    })
+
+    result.processed += due.length
+
+    for (const preference of due) {
+      const claimed = await prisma.notificationPreference.updateMany({
+        where: { id: preference.id, ...notSentThisWeek },
+        data: { lastDigestAt: now }
+      })
+
+      if (claimed.count !== 1) {
+        result.skipped++
+        continue
+      }
+
+      try {
+        const digest = await buildWeeklyDigest(preference.userId, now)
+        if (!digest || isDigestEmpty(digest)) {
+          result.empty++
+          continue
+        }
+
+        const queued = await queueEmail({
+          template: 'weeklyDigest',
+          to: preference.user.email,
+          userId: preference.userId,
+          localChurchId: preference.user.tenantId,
+          data: digest
+        })
+
+        if (queued.queued) {
+          result.queued++
+        } else {
+          result.skipped++
+        }
+      } catch (error) {
+        result.failed++
+        failedIds.push(preference.id)
+        emailLogger.error('Failed to build weekly digest', { error, userId: preference.userId })
+        // Release the claim so the next run tries again
+        await prisma.notificationPreference.update({
+          where: { id: preference.id },
+          data: { lastDigestAt: preference.lastDigestAt }
+        })
+      }
+    }
+
+    // Everything in this batch is now claimed or excluded, so a short batch means nobody is left
+    if (due.length < limit) {
+      return result
+    }
+  }
+}
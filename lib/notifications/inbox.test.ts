@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NotificationCategory } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationPreference: {
+      findMany: vi.fn()
+    },
+    notification: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      groupBy: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  countUnreadNotifications,
+  createNotifications,
+  listNotifications,
+  markNotificationsRead
+} from './inbox'
+
+const db = prisma as any
+
+describe('createNotifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.notificationPreference.findMany.mockResolvedValue([])
+    db.notification.createMany.mockImplementation(({ data }: any) => Promise.resolve({ count: data.length }))
+  })
+
+  it('should write one row per recipient in the church', async () => {
+    const count = await createNotifications({
+      userIds: ['user1', 'user2', 'user1'],
+      localChurchId: 'church1',
+      category: NotificationCategory.ANNOUNCEMENTS,
+      title: 'Sunday update',
+      body: 'Service starts at 10am',
+      url: '/announcements',
+      entity: 'Announcement',
+      entityId: 'ann1'
+    })
+
+    expect(count).toBe(2)
+    expect(db.notification.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ userId: 'user1', localChurchId: 'church1', category: 'ANNOUNCEMENTS', entityId: 'ann1' }),
+      expect.objectContaining({ userId: 'user2', localChurchId: 'church1' })
+    ])
+  })
+
+  it('should skip users who turned in-app notifications off for the category', async () => {
+    db.notificationPreference.findMany.mockResolvedValue([{
+      userId: 'user2',
+      email: true,
+      push: true,
+      inApp: true,
+      quietHoursEnabled: false,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      timeZone: 'Asia/Manila',
+      categories: [{ category: NotificationCategory.MESSAGES, email: true, push: true, inApp: false }]
+    }])
+
+    await createNotifications({
+      userIds: ['user1', 'user2'],
+      localChurchId: 'church1',
+      category: NotificationCategory.MESSAGES,
+      title: 'New message',
+      body: 'Hi'
+    })
+
+    expect(db.notification.createMany.mock.calls[0][0].data.map((row: any) => row.userId)).toEqual(['user1'])
+  })
+
+  it('should not throw when the write fails', async () => {
+    db.notification.createMany.mockRejectedValue(new Error('db down'))
+
+    await expect(createNotifications({
+      userIds: ['user1'],
+      localChurchId: 'church1',
+      category: NotificationCategory.ANNOUNCEMENTS,
+      title: 'Sunday update',
+      body: 'Service starts at 10am'
+    })).resolves.toBe(0)
+  })
+})
+
+describe('inbox queries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should page through the inbox scoped to the church', async () => {
+    db.notification.findMany.mockResolvedValue([{ id: 'n1' }, { id: 'n2' }, { id: 'n3' }])
+
+    const page = await listNotifications({ userId: 'user1', localChurchId: 'church1', take: 2, cursor: 'n0' })
+
+    expect(db.notification.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user1', localChurchId: 'church1' },
+      take: 3,
+      cursor: { id: 'n0' },
+      skip: 1
+    }))
+    expect(page).toEqual({ items: [{ id: 'n1' }, { id: 'n2' }], nextCursor: 'n2', hasMore: true })
+  })
+
+  it('should count unread notifications by category', async () => {
+    db.notification.groupBy.mockResolvedValue([
+      { category: NotificationCategory.ANNOUNCEMENTS, _count: { _all: 3 } },
+      { category: NotificationCategory.MESSAGES, _count: { _all: 2 } }
+    ])
+
+    const unread = await countUnreadNotifications('user1', 'church1')
+
+    expect(db.notification.groupBy.mock.calls[0][0].where).toEqual({ userId: 'user1', localChurchId: 'church1', readAt: null })
+    expect(unread.total).toBe(5)
+    expect(unread.byCategory).toMatchObject({ ANNOUNCEMENTS: 3, MESSAGES: 2, EVENT_REMINDERS: 0 })
+  })
+
+  it('should only mark unread notifications that belong to the caller', async () => {
+    db.notification.updateMany.mockResolvedValue({ count: 1 })
+
+    await markNotificationsRead({ userId: 'user1', localChurchId: 'church1', ids: ['n1'] })
+    await markNotificationsRead({ userId: 'user1', localChurchId: 'church1' })
+
+    expect(db.notification.updateMany.mock.calls[0][0].where).toEqual({
+      userId: 'user1',
+      localChurchId: 'church1',
+      readAt: null,
+      id: { in: ['n1'] }
+    })
+    expect(db.notification.updateMany.mock.calls[1][0].where).toEqual({
+      userId: 'user1',
+      localChurchId: 'church1',
+      readAt: null
+    })
+  })
+})
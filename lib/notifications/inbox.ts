@@ -0,0 +1,161 @@
+import { NotificationCategory, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { apiLogger } from '@/lib/logger'
+import { filterRecipientsByPreference } from './preferences'
+
+/**
+ * In-app notification inbox.
+ *
+ * Rows are written per recipient when something relevant happens and are
+ * always read back scoped to the viewer's church, so a member who moves
+ * churches doesn't carry the old church's inbox along.
+ */
+
+export const NOTIFICATION_PAGE_SIZE = 20
+
+const NOTIFICATION_BODY_MAX_LENGTH = 500
+
+export interface NotificationInput {
+  userIds: string[]
+  localChurchId: string
+  category: NotificationCategory
+  title: string
+  body: string
+  url?: string
+  entity?: string
+  entityId?: string
+}
+
+export const notificationSelect = {
+  id: true,
+  category: true,
+  title: true,
+  body: true,
+  url: true,
+  readAt: true,
+  createdAt: true
+} satisfies Prisma.NotificationSelect
+
+export type InboxNotification = Prisma.NotificationGetPayload<{ select: typeof notificationSelect }>
+
+function inboxWhere(userId: string, localChurchId: string | null): Prisma.NotificationWhereInput {
+  // Users without a church (super admins) see everything addressed to them
+  return localChurchId ? { userId, localChurchId } : { userId }
+}
+
+/**
+ * Records a notification for each recipient who keeps in-app notifications
+ * on for the category. Returns how many were written; never throws, so a
+ * failed write can't fail the action that caused it.
+ */
+export async function createNotifications(input: NotificationInput): Promise<number> {
+  try {
+    const recipientIds = await filterRecipientsByPreference(Array.from(new Set(input.userIds)), {
+      channel: 'inApp',
+      category: input.category
+    })
+
+    if (recipientIds.length === 0) {
+      return 0
+    }
+
+    const body = input.body.length > NOTIFICATION_BODY_MAX_LENGTH
+      ? `${input.body.slice(0, NOTIFICATION_BODY_MAX_LENGTH - 1).trimEnd()}…`
+      : input.body
+
+    const result = await prisma.notification.createMany({
+      data: recipientIds.map((userId) => ({
+        userId,
+        localChurchId: input.localChurchId,
+        category: input.category,
+        title: input.title,
+        body,
+        url: input.url ?? null,
+        entity: input.entity ?? null,
+        entityId: input.entityId ?? null
+      }))
+    })
+
+    return result.count
+  } catch (error) {
+    apiLogger.error('Failed to record notifications', { error, category: input.category, entityId: input.entityId })
+    return 0
+  }
+}
+
+export async function listNotifications({
+  userId,
+  localChurchId,
+  cursor,
+  take = NOTIFICATION_PAGE_SIZE,
+  unreadOnly = false
+}: {
+  userId: string
+  localChurchId: string | null
+  cursor?: string
+  take?: number
+  unreadOnly?: boolean
+}) {
+  const notifications = await prisma.notification.findMany({
+    where: {
+      ...inboxWhere(userId, localChurchId),
+      ...(unreadOnly && { readAt: null })
+    },
+    select: notificationSelect,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(cursor && {
+      cursor: { id: cursor },
+      skip: 1
+    })
+  })
+
+  const hasMore = notifications.length > take
+  const items = notifications.slice(0, take)
+  const nextCursor = hasMore ? items[items.length - 1].id : null
+
+  return { items, nextCursor, hasMore }
+}
+
+export async function countUnreadNotifications(userId: string, localChurchId: string | null) {
+  const groups = await prisma.notification.groupBy({
+    by: ['category'],
+    where: { ...inboxWhere(userId, localChurchId), readAt: null },
+    _count: { _all: true }
+  })
+
+  const byCategory = Object.fromEntries(
+    Object.values(NotificationCategory).map((category) => [category, 0])
+  ) as Record<NotificationCategory, number>
+
+  for (const group of groups) {
+    byCategory[group.category] = group._count._all
+  }
+
+  return {
+    total: groups.reduce((sum, group) => sum + group._count._all, 0),
+    byCategory
+  }
+}
+
+/** Marks the given notifications read, or all unread ones when `ids` is omitted */
+export async function markNotificationsRead({
+  userId,
+  localChurchId,
+  ids
+}: {
+  userId: string
+  localChurchId: string | null
+  ids?: string[]
+}): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: {
+      ...inboxWhere(userId, localChurchId),
+      readAt: null,
+      ...(ids && { id: { in: ids } })
+    },
+    data: { readAt: new Date() }
+  })
+
+  return result.count
+}
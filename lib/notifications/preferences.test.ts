@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NotificationCategory } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    notificationPreference: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      upsert: vi.fn()
+    },
+    notificationCategoryPreference: {
+      upsert: vi.fn()
+    }
+  }
+  prisma.$transaction = vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  allowsNotification,
+  filterRecipientsByPreference,
+  isWithinQuietHours,
+  resolveNotificationPreferences,
+  saveNotificationPreferences
+} from './preferences'
+
+const db = prisma as any
+
+function stored(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'pref1',
+    userId: 'user1',
+    email: true,
+    push: true,
+    inApp: true,
+    quietHoursEnabled: false,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: 'Asia/Manila',
+    updatedAt: new Date(),
+    categories: [],
+    ...overrides
+  }
+}
+
+describe('resolveNotificationPreferences', () => {
+  it('should default every category and channel to on', () => {
+    const preferences = resolveNotificationPreferences(null)
+
+    expect(preferences.channels).toEqual({ email: true, push: true, inApp: true })
+    expect(preferences.categories[NotificationCategory.MESSAGES]).toEqual({ email: true, push: true, inApp: true })
+    expect(preferences.quietHours).toEqual({ enabled: false, start: null, end: null, timeZone: 'Asia/Manila' })
+  })
+})
+
+describe('isWithinQuietHours', () => {
+  const overnight = { enabled: true, start: '22:00', end: '07:00', timeZone: 'Asia/Manila' }
+
+  it('should read the window in the user time zone and wrap past midnight', () => {
+    // 15:30 UTC is 23:30 in Manila
+    expect(isWithinQuietHours(overnight, new Date('2025-01-05T15:30:00Z'))).toBe(true)
+    // 22:30 UTC is 06:30 the next morning in Manila
+    expect(isWithinQuietHours(overnight, new Date('2025-01-05T22:30:00Z'))).toBe(true)
+    // 01:00 UTC is 09:00 in Manila
+    expect(isWithinQuietHours(overnight, new Date('2025-01-05T01:00:00Z'))).toBe(false)
+  })
+
+  it('should handle same-day windows and disabled quiet hours', () => {
+    const afternoon = { enabled: true, start: '13:00', end: '15:00', timeZone: 'UTC' }
+
+    expect(isWithinQuietHours(afternoon, new Date('2025-01-05T14:00:00Z'))).toBe(true)
+    expect(isWithinQuietHours(afternoon, new Date('2025-01-05T15:00:00Z'))).toBe(false)
+    expect(isWithinQuietHours({ ...afternoon, enabled: false }, new Date('2025-01-05T14:00:00Z'))).toBe(false)
+  })
+})
+
+describe('allowsNotification', () => {
+  it('should apply master switches, category switches and quiet hours for push only', () => {
+    const preferences = resolveNotificationPreferences(stored({
+      email: false,
+      quietHoursEnabled: true,
+      quietHoursStart: '00:00',
+      quietHoursEnd: '12:00',
+      timeZone: 'UTC',
+      categories: [{ category: NotificationCategory.LIFEGROUP_UPDATES, email: true, push: false, inApp: true }]
+    }) as any)
+    const morning = new Date('2025-01-05T08:00:00Z')
+    const evening = new Date('2025-01-05T18:00:00Z')
+
+    expect(allowsNotification(preferences, { channel: 'email', category: NotificationCategory.ANNOUNCEMENTS })).toBe(false)
+    expect(allowsNotification(preferences, { channel: 'push', category: NotificationCategory.LIFEGROUP_UPDATES, now: evening })).toBe(false)
+    expect(allowsNotification(preferences, { channel: 'push', category: NotificationCategory.ANNOUNCEMENTS, now: morning })).toBe(false)
+    expect(allowsNotification(preferences, { channel: 'push', category: NotificationCategory.ANNOUNCEMENTS, now: morning, bypassQuietHours: true })).toBe(true)
+    expect(allowsNotification(preferences, { channel: 'inApp', category: NotificationCategory.ANNOUNCEMENTS, now: morning })).toBe(true)
+  })
+})
+
+describe('filterRecipientsByPreference', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should keep users without a preference row', async () => {
+    db.notificationPreference.findMany.mockResolvedValue([
+      stored({ userId: 'user2', categories: [{ category: NotificationCategory.EVENT_REMINDERS, email: false, push: true, inApp: true }] })
+    ])
+
+    const recipients = await filterRecipientsByPreference(['user1', 'user2'], {
+      channel: 'email',
+      category: NotificationCategory.EVENT_REMINDERS
+    })
+
+    expect(recipients).toEqual(['user1'])
+  })
+})
+
+describe('saveNotificationPreferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.notificationPreference.upsert.mockResolvedValue({ id: 'pref1' })
+    db.notificationPreference.findUniqueOrThrow.mockResolvedValue(stored())
+  })
+
+  const input = {
+    channels: { email: true, push: true, inApp: true },
+    categories: {
+      [NotificationCategory.MESSAGES]: { email: false, push: true, inApp: true }
+    },
+    quietHours: { enabled: true, start: '22:00', end: '07:00', timeZone: 'Asia/Manila' }
+  }
+
+  it('should upsert the settings and each category', async () => {
+    await saveNotificationPreferences('user1', input)
+
+    expect(db.notificationPreference.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user1' },
+      update: expect.objectContaining({ quietHoursEnabled: true, quietHoursStart: '22:00', timeZone: 'Asia/Manila' })
+    }))
+    expect(db.notificationCategoryPreference.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { preferenceId_category: { preferenceId: 'pref1', category: NotificationCategory.MESSAGES } },
+      update: { email: false, push: true, inApp: true }
+    }))
+  })
+
+  it('should reject unknown time zones and empty quiet hours', async () => {
+    await expect(saveNotificationPreferences('user1', {
+      ...input,
+      quietHours: { ...input.quietHours, timeZone: 'Mars/Olympus' }
+    })).rejects.toThrow('Unknown time zone')
+
+    await expect(saveNotificationPreferences('user1', {
+      ...input,
+      quietHours: { ...input.quietHours, end: '22:00' }
+    })).rejects.toThrow('different start and end')
+    expect(db.notificationPreference.upsert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,264 @@
+import { NotificationCategory, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { NotificationType } from '@/lib/pwa/notification-payloads'
+import { DEFAULT_SERVICE_TIME_ZONE, getZonedParts, isValidTimeZone } from '@/lib/services/schedules'
+
+/**
+ * Per-user notification preferences.
+ *
+ * Each channel (email, push, in-app) has a master switch plus a switch per
+ * category. A user without a preference row, or without a row for a given
+ * category, gets everything. Quiet hours hold back push only: email and the
+ * in-app inbox are not interruptive, so they are delivered as usual. The
+ * weekly email digest is the one thing that is off until the user opts in.
+ */
+
+export const NOTIFICATION_CHANNELS = ['email', 'push', 'inApp'] as const
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number]
+
+export const NOTIFICATION_CATEGORIES: Array<{
+  category: NotificationCategory
+  label: string
+  description: string
+}> = [
+  {
+    category: NotificationCategory.ANNOUNCEMENTS,
+    label: 'Announcements',
+    description: 'News and updates from your church'
+  },
+  {
+    category: NotificationCategory.MESSAGES,
+    label: 'Messages',
+    description: 'Direct messages and group conversations'
+  },
+  {
+    category: NotificationCategory.EVENT_REMINDERS,
+    label: 'Events',
+    description: 'Service reminders, RSVPs and waitlist changes'
+  },
+  {
+    category: NotificationCategory.LIFEGROUP_UPDATES,
+    label: 'LifeGroups',
+    description: 'Join requests and group news'
+  },
+  {
+    category: NotificationCategory.PATHWAY_MILESTONES,
+    label: 'Pathways',
+    description: 'Step completions and pathway milestones'
+  },
+  {
+    category: NotificationCategory.MEMBERSHIP,
+    label: 'Membership',
+    description: 'Transfers between churches'
+  }
+]
+
+export type ChannelSettings = Record<NotificationChannel, boolean>
+
+export interface NotificationPreferences {
+  channels: ChannelSettings
+  categories: Record<NotificationCategory, ChannelSettings>
+  quietHours: {
+    enabled: boolean
+    start: string | null
+    end: string | null
+    timeZone: string
+  }
+  weeklyDigest: boolean
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const channelSettingsSchema = z.object({
+  email: z.boolean(),
+  push: z.boolean(),
+  inApp: z.boolean()
+})
+
+export const notificationPreferencesSchema = z.object({
+  channels: channelSettingsSchema,
+  categories: z.record(z.nativeEnum(NotificationCategory), channelSettingsSchema),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(TIME_PATTERN, 'Use HH:MM for quiet hours').nullable(),
+    end: z.string().regex(TIME_PATTERN, 'Use HH:MM for quiet hours').nullable(),
+    timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone')
+  }).refine(
+    (quietHours) => !quietHours.enabled || (!!quietHours.start && !!quietHours.end && quietHours.start !== quietHours.end),
+    { message: 'Quiet hours need different start and end times', path: ['start'] }
+  ),
+  weeklyDigest: z.boolean().optional()
+})
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>
+
+export const notificationPreferenceInclude = {
+  categories: { select: { category: true, email: true, push: true, inApp: true } }
+} satisfies Prisma.NotificationPreferenceInclude
+
+type StoredPreference = Prisma.NotificationPreferenceGetPayload<{ include: typeof notificationPreferenceInclude }>
+
+const ALL_CHANNELS_ON: ChannelSettings = { email: true, push: true, inApp: true }
+
+/** The category a push notification type falls under; null means it can't be muted per category */
+export function getNotificationCategory(type: NotificationType): NotificationCategory | null {
+  switch (type) {
+    case NotificationType.ANNOUNCEMENT:
+    case NotificationType.URGENT_ANNOUNCEMENT:
+      return NotificationCategory.ANNOUNCEMENTS
+    case NotificationType.SERVICE_REMINDER:
+    case NotificationType.EVENT_ANNOUNCEMENT:
+      return NotificationCategory.EVENT_REMINDERS
+    case NotificationType.LIFEGROUP_UPDATE:
+      return NotificationCategory.LIFEGROUP_UPDATES
+    case NotificationType.PATHWAY_MILESTONE:
+      return NotificationCategory.PATHWAY_MILESTONES
+    case NotificationType.MEMBERSHIP_UPDATE:
+      return NotificationCategory.MEMBERSHIP
+    default:
+      return null
+  }
+}
+
+/** Fills in defaults for a stored preference row (or its absence) */
+export function resolveNotificationPreferences(stored: StoredPreference | null): NotificationPreferences {
+  const categories = Object.fromEntries(
+    Object.values(NotificationCategory).map((category) => {
+      const row = stored?.categories.find((entry) => entry.category === category)
+      return [category, row ? { email: row.email, push: row.push, inApp: row.inApp } : { ...ALL_CHANNELS_ON }]
+    })
+  ) as Record<NotificationCategory, ChannelSettings>
+
+  return {
+    channels: stored ? { email: stored.email, push: stored.push, inApp: stored.inApp } : { ...ALL_CHANNELS_ON },
+    categories,
+    quietHours: {
+      enabled: stored?.quietHoursEnabled ?? false,
+      start: stored?.quietHoursStart ?? null,
+      end: stored?.quietHoursEnd ?? null,
+      timeZone: stored?.timeZone ?? DEFAULT_SERVICE_TIME_ZONE
+    },
+    weeklyDigest: stored?.weeklyDigest ?? false
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Whether `now` falls inside the quiet hours window, read as wall-clock time
+ * in the user's time zone. Windows may wrap past midnight (22:00 to 07:00).
+ */
+export function isWithinQuietHours(
+  quietHours: NotificationPreferences['quietHours'],
+  now: Date = new Date()
+): boolean {
+  if (!quietHours.enabled || !quietHours.start || !quietHours.end) {
+    return false
+  }
+
+  const parts = getZonedParts(now, quietHours.timeZone)
+  const current = parts.hour * 60 + parts.minute
+  const start = toMinutes(quietHours.start)
+  const end = toMinutes(quietHours.end)
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end
+}
+
+export interface DeliveryContext {
+  channel: NotificationChannel
+  category: NotificationCategory | null
+  now?: Date
+  /** Urgent messages still honour opt-outs but ignore quiet hours */
+  bypassQuietHours?: boolean
+}
+
+export function allowsNotification(preferences: NotificationPreferences, context: DeliveryContext): boolean {
+  if (!preferences.channels[context.channel]) {
+    return false
+  }
+
+  if (context.category && !preferences.categories[context.category][context.channel]) {
+    return false
+  }
+
+  if (context.channel === 'push' && !context.bypassQuietHours) {
+    return !isWithinQuietHours(preferences.quietHours, context.now)
+  }
+
+  return true
+}
+
+/** Narrows `userIds` to the users whose preferences allow this delivery */
+export async function filterRecipientsByPreference(
+  userIds: string[],
+  context: DeliveryContext
+): Promise<string[]> {
+  if (userIds.length === 0) {
+    return []
+  }
+
+  const stored = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds } },
+    include: notificationPreferenceInclude
+  })
+  const storedByUser = new Map(stored.map((preference) => [preference.userId, preference]))
+
+  return userIds.filter((userId) => {
+    const preference = storedByUser.get(userId)
+    return !preference || allowsNotification(resolveNotificationPreferences(preference), context)
+  })
+}
+
+export async function getNotificationPreferencesForUser(userId: string): Promise<NotificationPreferences> {
+  const stored = await prisma.notificationPreference.findUnique({
+    where: { userId },
+    include: notificationPreferenceInclude
+  })
+
+  return resolveNotificationPreferences(stored)
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  input: NotificationPreferencesInput
+): Promise<NotificationPreferences> {
+  const { channels, categories, quietHours, weeklyDigest } = notificationPreferencesSchema.parse(input)
+  const settings = {
+    ...channels,
+    quietHoursEnabled: quietHours.enabled,
+    quietHoursStart: quietHours.start,
+    quietHoursEnd: quietHours.end,
+    timeZone: quietHours.timeZone,
+    ...(weeklyDigest !== undefined ? { weeklyDigest } : {})
+  }
+
+  const saved = await prisma.$transaction(async (tx) => {
+    const preference = await tx.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...settings },
+      update: settings,
+      select: { id: true }
+    })
+
+    for (const [category, categoryChannels] of Object.entries(categories)) {
+      await tx.notificationCategoryPreference.upsert({
+        where: { preferenceId_category: { preferenceId: preference.id, category: category as NotificationCategory } },
+        create: { preferenceId: preference.id, category: category as NotificationCategory, ...categoryChannels },
+        update: categoryChannels
+      })
+    }
+
+    return tx.notificationPreference.findUniqueOrThrow({
+      where: { id: preference.id },
+      include: notificationPreferenceInclude
+    })
+  })
+
+  return resolveNotificationPreferences(saved)
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    verificationToken: {
+      findUnique: vi.fn(),
+      deleteMany: vi.fn(),
+      create: vi.fn()
+    },
+    $transaction: vi.fn((operations: unknown[]) => Promise.all(operations))
+  }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  getPasswordResetUrl
+} from './password-reset'
+
+const db = prisma as any
+
+describe('Password reset tokens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should store only a hash of the token and replace outstanding tokens', async () => {
+    const { token, expires } = await createPasswordResetToken('user1')
+
+    expect(db.verificationToken.deleteMany).toHaveBeenCalledWith({
+      where: { identifier: 'password-reset:user1' }
+    })
+    const stored = db.verificationToken.create.mock.calls[0][0].data
+    expect(stored.identifier).toBe('password-reset:user1')
+    expect(stored.token).not.toBe(token)
+    expect(stored.token).toMatch(/^[a-f0-9]{64}$/)
+    expect(expires.getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('should consume a valid token once', async () => {
+    db.verificationToken.findUnique.mockResolvedValue({
+      identifier: 'password-reset:user1',
+      expires: new Date(Date.now() + 60_000)
+    })
+    db.verificationToken.deleteMany.mockResolvedValueOnce({ count: 1 })
+    db.verificationToken.deleteMany.mockResolvedValueOnce({ count: 0 })
+
+    expect(await consumePasswordResetToken('token')).toBe('user1')
+    expect(await consumePasswordResetToken('token')).toBeNull()
+  })
+
+  it('should reject expired tokens and delete them', async () => {
+    db.verificationToken.findUnique.mockResolvedValue({
+      identifier: 'password-reset:user1',
+      expires: new Date(Date.now() - 60_000)
+    })
+    db.verificationToken.deleteMany.mockResolvedValue({ count: 1 })
+
+    expect(await consumePasswordResetToken('token')).toBeNull()
+    expect(db.verificationToken.deleteMany).toHaveBeenCalled()
+  })
+
+  it('should ignore verification tokens issued for other purposes', async () => {
+    db.verificationToken.findUnique.mockResolvedValue({
+      identifier: 'someone@example.com',
+      expires: new Date(Date.now() + 60_000)
+    })
+
+    expect(await consumePasswordResetToken('token')).toBeNull()
+    expect(db.verificationToken.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('should build an absolute reset URL', () => {
+    expect(getPasswordResetUrl('abc')).toMatch(/^https?:\/\/.+\/auth\/reset-password\?token=abc$/)
+  })
+})
@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from './prisma'
+import { getNextAuthUrl } from './env-utils'
+
+/**
+ * Single-use, time-limited password reset tokens stored in VerificationToken.
+ *
+ * Only a SHA-256 hash of the token is persisted, so a database read does not
+ * yield a usable reset link. Issuing a new token replaces any outstanding one
+ * for the same user.
+ */
+
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60
+
+const IDENTIFIER_PREFIX = 'password-reset:'
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export async function createPasswordResetToken(userId: string): Promise<{ token: string; expires: Date }> {
+  const identifier = `${IDENTIFIER_PREFIX}${userId}`
+  const token = randomBytes(32).toString('base64url')
+  const expires = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: { identifier, token: hashToken(token), expires }
+    })
+  ])
+
+  return { token, expires }
+}
+
+/**
+ * Validates a token without consuming it, so the reset page can show an
+ * "expired link" state before the user types a new password.
+ */
+export async function isPasswordResetTokenValid(token: string): Promise<boolean> {
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) }
+  })
+
+  return !!record && record.identifier.startsWith(IDENTIFIER_PREFIX) && record.expires > new Date()
+}
+
+/**
+ * Consumes a token and returns the user it was issued for, or null when the
+ * token is unknown, expired or already used. Deleting by token is atomic, so
+ * two concurrent submissions cannot both succeed.
+ */
+export async function consumePasswordResetToken(token: string): Promise<string | null> {
+  const tokenHash = hashToken(token)
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: tokenHash }
+  })
+
+  if (!record || !record.identifier.startsWith(IDENTIFIER_PREFIX)) {
+    return null
+  }
+
+  const deleted = await prisma.verificationToken.deleteMany({
+    where: { token: tokenHash }
+  })
+
+  if (deleted.count !== 1 || record.expires <= new Date()) {
+    return null
+  }
+
+  return record.identifier.slice(IDENTIFIER_PREFIX.length)
+}
+
+export function getPasswordResetUrl(token: string): string {
+  const baseUrl = getNextAuthUrl() || 'https://drouple.app'
+  return `${baseUrl}/auth/reset-password?token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PaymentStatus, Prisma, RsvpStatus } from '@prisma/client'
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    eventRsvp: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    eventPayment: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    },
+    eventRefund: {
+      create: vi.fn()
+    },
+    paymentWebhookEvent: {
+      create: vi.fn(),
+      delete: vi.fn()
+    },
+    auditLog: {
+      create: vi.fn()
+    },
+    $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  }
+  return { prisma }
+})
+
+vi.mock('@/lib/email', () => ({
+  getAppUrl: (pathname: string) => `https://drouple.app${pathname}`
+}))
+
+vi.mock('@/lib/push/notifications', () => ({
+  notifyPaymentNeedsRefund: vi.fn(),
+  notifySeatReleased: vi.fn(),
+  notifyWaitlistPromotion: vi.fn()
+}))
+
+vi.mock('@/lib/socket-server/bus', () => ({
+  publishRealtimeEvent: vi.fn()
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import { notifyPaymentNeedsRefund, notifySeatReleased, notifyWaitlistPromotion } from '@/lib/push/notifications'
+import { buildMockWebhookDelivery } from './providers'
+import {
+  applyPaymentOutcome,
+  getPaymentDueAt,
+  handlePaymentWebhook,
+  refundEventPayment,
+  releaseUnpaidSeats
+} from './event-payments'
+
+const db = prisma as any
+
+const now = new Date('2026-11-03T10:00:00Z')
+
+function storedPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'pay1',
+    eventId: 'event1',
+    rsvpId: 'rsvp1',
+    userId: 'user1',
+    provider: 'mock',
+    providerPaymentId: 'mock_1',
+    amountCents: 50000,
+    refundedCents: 0,
+    currency: 'PHP',
+    status: PaymentStatus.SUCCEEDED,
+    rsvp: { status: RsvpStatus.GOING },
+    event: { name: 'Retreat', localChurchId: 'church1' },
+    ...overrides
+  }
+}
+
+describe('event payments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('PAYMENT_WEBHOOK_SECRET', 'test-secret')
+  })
+
+  describe('getPaymentDueAt', () => {
+    const event = { requiresPayment: true, paymentWindowHours: 48, startDateTime: new Date('2026-11-10T10:00:00Z') }
+
+    it('gives the window from when the seat was confirmed', () => {
+      expect(getPaymentDueAt(event, now)).toEqual(new Date('2026-11-05T10:00:00Z'))
+    })
+
+    it('never runs past the start of the event', () => {
+      expect(getPaymentDueAt({ ...event, startDateTime: new Date('2026-11-04T09:00:00Z') }, now))
+        .toEqual(new Date('2026-11-04T09:00:00Z'))
+    })
+
+    it('has no deadline without a fee or a window', () => {
+      expect(getPaymentDueAt({ ...event, requiresPayment: false }, now)).toBeNull()
+      expect(getPaymentDueAt({ ...event, paymentWindowHours: null }, now)).toBeNull()
+    })
+  })
+
+  describe('applyPaymentOutcome', () => {
+    it('marks the seat paid and audits the payment', async () => {
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventPayment.findUniqueOrThrow.mockResolvedValue(storedPayment())
+
+      const payment = await applyPaymentOutcome({
+        provider: 'mock',
+        providerPaymentId: 'mock_1',
+        outcome: { status: 'succeeded' },
+        at: now
+      })
+
+      expect(payment?.id).toBe('pay1')
+      expect(notifyPaymentNeedsRefund).not.toHaveBeenCalled()
+      expect(db.eventRsvp.update).toHaveBeenCalledWith({
+        where: { id: 'rsvp1' },
+        data: { hasPaid: true, paymentDueAt: null }
+      })
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actorId: 'user1', action: 'PAYMENT_RECEIVED', entityId: 'event1' })
+      })
+    })
+
+    it('flags a payment that arrives after the seat was released for a refund', async () => {
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventPayment.findUniqueOrThrow.mockResolvedValue(storedPayment({ rsvp: { status: RsvpStatus.CANCELLED } }))
+
+      const payment = await applyPaymentOutcome({
+        provider: 'mock',
+        providerPaymentId: 'mock_1',
+        outcome: { status: 'succeeded' },
+        at: now
+      })
+
+      expect(db.eventPayment.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { provider: 'mock', providerPaymentId: 'mock_1', status: { in: [PaymentStatus.PENDING, PaymentStatus.CANCELLED] } }
+      }))
+      expect(payment?.needsRefund).toBe(true)
+      expect(db.eventRsvp.update).not.toHaveBeenCalled()
+      expect(db.eventPayment.update).toHaveBeenCalledWith({ where: { id: 'pay1' }, data: { needsRefund: true } })
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'PAYMENT_RECEIVED', meta: expect.objectContaining({ needsRefund: true }) })
+      })
+      expect(notifyPaymentNeedsRefund).toHaveBeenCalledWith('pay1')
+    })
+
+    it('ignores an outcome for a payment that is already settled', async () => {
+      db.eventPayment.updateMany.mockResolvedValue({ count: 0 })
+
+      const payment = await applyPaymentOutcome({
+        provider: 'mock',
+        providerPaymentId: 'mock_1',
+        outcome: { status: 'failed' }
+      })
+
+      expect(payment).toBeNull()
+      expect(db.eventRsvp.update).not.toHaveBeenCalled()
+      expect(db.eventPayment.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { provider: 'mock', providerPaymentId: 'mock_1', status: PaymentStatus.PENDING }
+      }))
+    })
+  })
+
+  describe('handlePaymentWebhook', () => {
+    it('acknowledges a redelivered webhook without applying it again', async () => {
+      db.paymentWebhookEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      )
+      const delivery = buildMockWebhookDelivery({ type: 'payment.succeeded', providerPaymentId: 'mock_1' })
+
+      const result = await handlePaymentWebhook('mock', delivery.rawBody, delivery.headers)
+
+      expect(result).toEqual({ duplicate: true })
+      expect(db.eventPayment.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('forgets the delivery when applying it fails so the retry is applied', async () => {
+      db.paymentWebhookEvent.create.mockResolvedValue({ id: 'delivery1' })
+      db.eventPayment.updateMany.mockRejectedValue(new Error('Database unavailable'))
+      const delivery = buildMockWebhookDelivery({ type: 'payment.succeeded', providerPaymentId: 'mock_1' })
+
+      await expect(handlePaymentWebhook('mock', delivery.rawBody, delivery.headers)).rejects.toThrow('Database unavailable')
+      expect(db.paymentWebhookEvent.delete).toHaveBeenCalledWith({ where: { id: 'delivery1' } })
+    })
+
+    it('rejects webhooks for a provider that is not configured', async () => {
+      await expect(handlePaymentWebhook('stripe', '{}', new Headers()))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('refundEventPayment', () => {
+    const seatEvent = {
+      id: 'event1',
+      name: 'Retreat',
+      localChurchId: 'church1',
+      requiresPayment: true,
+      paymentWindowHours: 24,
+      startDateTime: new Date('2026-11-10T10:00:00Z')
+    }
+
+    it('refunds part of a payment and keeps the seat paid', async () => {
+      db.eventPayment.findUnique.mockResolvedValue(storedPayment())
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventRefund.create.mockResolvedValue({ id: 'refund1' })
+
+      await refundEventPayment({ paymentId: 'pay1', amountCents: 20000, reason: 'Meal not taken', issuedById: 'admin1' })
+
+      expect(db.eventPayment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pay1', refundedCents: 0 },
+        data: { refundedCents: { increment: 20000 }, status: PaymentStatus.PARTIALLY_REFUNDED }
+      })
+      expect(db.eventRsvp.update).not.toHaveBeenCalled()
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actorId: 'admin1', action: 'PAYMENT_REFUNDED' })
+      })
+    })
+
+    it('releases the seat to the waitlist after a full refund', async () => {
+      db.eventPayment.findUnique.mockResolvedValue(storedPayment({
+        refundedCents: 20000,
+        status: PaymentStatus.PARTIALLY_REFUNDED,
+        event: seatEvent
+      }))
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventRefund.create.mockResolvedValue({ id: 'refund2' })
+      db.eventRsvp.updateMany.mockResolvedValue({ count: 1 })
+      db.eventRsvp.findFirst.mockResolvedValue({ id: 'rsvp2', userId: 'user2' })
+      db.eventRsvp.update.mockResolvedValue({ id: 'rsvp2', userId: 'user2' })
+
+      await refundEventPayment({ paymentId: 'pay1', issuedById: 'admin1', now })
+
+      expect(db.eventRefund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amountCents: 30000, providerRefundId: expect.stringMatching(/^mock_re_/) })
+      })
+      expect(db.eventRsvp.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rsvp1', status: RsvpStatus.GOING },
+        data: { status: RsvpStatus.CANCELLED, cancelledAt: now, hasPaid: false, paymentDueAt: null }
+      })
+      expect(db.eventRsvp.update).toHaveBeenCalledWith({
+        where: { id: 'rsvp2' },
+        data: { status: RsvpStatus.GOING, paymentDueAt: new Date('2026-11-04T10:00:00Z') }
+      })
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'PAYMENT_REFUNDED',
+          meta: expect.objectContaining({ seatReleased: true, promotedUserId: 'user2' })
+        })
+      })
+      expect(notifyWaitlistPromotion).toHaveBeenCalledWith({ userId: 'user2', eventId: 'event1' })
+    })
+
+    it('only marks a seat that was already released unpaid after a full refund', async () => {
+      db.eventPayment.findUnique.mockResolvedValue(storedPayment({ event: seatEvent, rsvp: { status: RsvpStatus.CANCELLED } }))
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventRefund.create.mockResolvedValue({ id: 'refund3' })
+      db.eventRsvp.updateMany.mockResolvedValue({ count: 0 })
+
+      await refundEventPayment({ paymentId: 'pay1', issuedById: 'admin1', now })
+
+      expect(db.eventPayment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pay1', refundedCents: 0 },
+        data: { refundedCents: { increment: 50000 }, status: PaymentStatus.REFUNDED, needsRefund: false }
+      })
+      expect(db.eventRsvp.update).toHaveBeenCalledWith({ where: { id: 'rsvp1' }, data: { hasPaid: false } })
+      expect(db.eventRsvp.findFirst).not.toHaveBeenCalled()
+      expect(notifyWaitlistPromotion).not.toHaveBeenCalled()
+    })
+
+    it('refuses more than what is left to refund', async () => {
+      db.eventPayment.findUnique.mockResolvedValue(storedPayment({ refundedCents: 40000, status: PaymentStatus.PARTIALLY_REFUNDED }))
+
+      await expect(refundEventPayment({ paymentId: 'pay1', amountCents: 20000, issuedById: 'admin1' }))
+        .rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+      expect(db.eventPayment.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('refuses a refund another admin claimed first', async () => {
+      db.eventPayment.findUnique.mockResolvedValue(storedPayment())
+      db.eventPayment.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(refundEventPayment({ paymentId: 'pay1', issuedById: 'admin1' }))
+        .rejects.toMatchObject({ code: 'DUPLICATE_ENTRY' })
+      expect(db.eventRefund.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('releaseUnpaidSeats', () => {
+    const overdueSeat = {
+      id: 'rsvp1',
+      eventId: 'event1',
+      userId: 'user1',
+      event: {
+        id: 'event1',
+        localChurchId: 'church1',
+        requiresPayment: true,
+        paymentWindowHours: 24,
+        startDateTime: new Date('2026-11-10T10:00:00Z')
+      }
+    }
+
+    it('releases overdue seats to the first waitlisted member', async () => {
+      db.eventRsvp.findMany.mockResolvedValue([overdueSeat])
+      db.eventRsvp.updateMany.mockResolvedValue({ count: 1 })
+      db.eventPayment.updateMany.mockResolvedValue({ count: 1 })
+      db.eventRsvp.findFirst.mockResolvedValue({ id: 'rsvp2', userId: 'user2' })
+      db.eventRsvp.update.mockResolvedValue({ id: 'rsvp2', userId: 'user2' })
+
+      const result = await releaseUnpaidSeats({ now })
+
+      expect(result).toEqual({ released: 1, promoted: 1 })
+      expect(db.eventPayment.updateMany).toHaveBeenCalledWith({
+        where: { rsvpId: 'rsvp1', status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.CANCELLED, failureReason: 'Payment deadline passed' }
+      })
+      expect(db.eventRsvp.update).toHaveBeenCalledWith({
+        where: { id: 'rsvp2' },
+        data: { status: RsvpStatus.GOING, paymentDueAt: new Date('2026-11-04T10:00:00Z') }
+      })
+      expect(notifySeatReleased).toHaveBeenCalledWith({ userId: 'user1', eventId: 'event1' })
+      expect(notifyWaitlistPromotion).toHaveBeenCalledWith({ userId: 'user2', eventId: 'event1' })
+    })
+
+    it('skips seats that were paid or released in the meantime', async () => {
+      db.eventRsvp.findMany.mockResolvedValue([overdueSeat])
+      db.eventRsvp.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await releaseUnpaidSeats({ now })
+
+      expect(result).toEqual({ released: 0, promoted: 0 })
+      expect(db.eventRsvp.findFirst).not.toHaveBeenCalled()
+      expect(notifySeatReleased).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,618 @@
+import { addHours } from 'date-fns'
+import { PaymentStatus, Prisma, RsvpStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { paymentLogger } from '@/lib/logger'
+import { notifyPaymentNeedsRefund, notifySeatReleased, notifyWaitlistPromotion } from '@/lib/push/notifications'
+import { publishRealtimeEvent } from '@/lib/socket-server/bus'
+import { getPaymentCurrency, getPaymentProvider, type PaymentOutcome } from './providers'
+
+/**
+ * Event fee payments. A member with a GOING seat opens a checkout with the
+ * configured provider; the provider settles it by signed webhook (or
+ * synchronously for Payment Request API confirmations), which marks the RSVP
+ * paid. Admins record cash or bank payments as "offline" payments and issue
+ * full or partial refunds. A payment that settles after its seat was
+ * released is flagged needsRefund until an admin refunds it.
+ *
+ * When an event has a payment window, a seat that becomes GOING must be paid
+ * within that many hours (and before the event starts). The release job
+ * cancels seats still unpaid after paymentDueAt and promotes the waitlist.
+ */
+
+export const OFFLINE_PAYMENT_PROVIDER = 'offline'
+export const SEAT_RELEASE_BATCH_SIZE = 100
+
+// Payments that took money, whether or not some of it was refunded since
+export const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+]
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+export function formatCents(amountCents: number): string {
+  return (amountCents / 100).toFixed(2)
+}
+
+/**
+ * When a seat that becomes GOING at `from` has to be paid for, or null when
+ * the event has no fee or no payment window.
+ */
+export function getPaymentDueAt(
+  event: { requiresPayment: boolean; paymentWindowHours: number | null; startDateTime: Date },
+  from: Date = new Date()
+): Date | null {
+  if (!event.requiresPayment || !event.paymentWindowHours) {
+    return null
+  }
+
+  const dueAt = addHours(from, event.paymentWindowHours)
+  return dueAt < event.startDateTime ? dueAt : event.startDateTime
+}
+
+type SeatEvent = { id: string; requiresPayment: boolean; paymentWindowHours: number | null; startDateTime: Date }
+
+/** Gives a freed seat to the member who joined the event's waitlist first */
+async function promoteNextWaitlisted(tx: Prisma.TransactionClient, event: SeatEvent, now: Date) {
+  const firstWaitlisted = await tx.eventRsvp.findFirst({
+    where: { eventId: event.id, status: RsvpStatus.WAITLIST },
+    orderBy: { rsvpAt: 'asc' }
+  })
+
+  return firstWaitlisted
+    ? tx.eventRsvp.update({
+      where: { id: firstWaitlisted.id },
+      data: { status: RsvpStatus.GOING, paymentDueAt: getPaymentDueAt(event, now) }
+    })
+    : null
+}
+
+/**
+ * Opens (or reuses) a checkout for the member's GOING seat. Throws an
+ * ApplicationError when the seat can't be paid for online.
+ */
+export async function startEventCheckout({
+  eventId,
+  userId,
+  returnUrl
+}: {
+  eventId: string
+  userId: string
+  returnUrl: string
+}) {
+  const rsvp = await prisma.eventRsvp.findUnique({
+    where: { eventId_userId: { eventId, userId } },
+    include: {
+      event: { select: { name: true, requiresPayment: true, feeAmount: true } },
+      user: { select: { email: true } }
+    }
+  })
+
+  if (!rsvp || rsvp.status !== RsvpStatus.GOING) {
+    throw new ApplicationError('VALIDATION_ERROR', 'Only confirmed seats can be paid for')
+  }
+  if (!rsvp.event.requiresPayment || !rsvp.event.feeAmount) {
+    throw new ApplicationError('VALIDATION_ERROR', 'This event has no fee')
+  }
+  if (rsvp.hasPaid) {
+    throw new ApplicationError('DUPLICATE_ENTRY', 'This seat is already paid for')
+  }
+
+  const provider = getPaymentProvider()
+  if (!provider) {
+    throw new ApplicationError('SERVER_ERROR', 'Online payment is not available')
+  }
+
+  const amountCents = toCents(rsvp.event.feeAmount)
+  const currency = getPaymentCurrency()
+  const checkout = { eventName: rsvp.event.name, amountCents, currency }
+
+  const pending = await prisma.eventPayment.findFirst({
+    where: { rsvpId: rsvp.id, provider: provider.name, status: PaymentStatus.PENDING, amountCents, currency },
+    orderBy: { createdAt: 'desc' }
+  })
+  if (pending?.checkoutUrl) {
+    return { ...checkout, paymentId: pending.id, checkoutUrl: pending.checkoutUrl }
+  }
+
+  const payment = await prisma.eventPayment.create({
+    data: {
+      eventId,
+      rsvpId: rsvp.id,
+      userId,
+      provider: provider.name,
+      amountCents,
+      currency
+    }
+  })
+
+  try {
+    const { providerPaymentId, checkoutUrl } = await provider.createCheckout({
+      paymentId: payment.id,
+      amountCents,
+      currency,
+      description: `${rsvp.event.name} registration`,
+      customerEmail: rsvp.user.email,
+      returnUrl
+    })
+
+    await prisma.eventPayment.update({
+      where: { id: payment.id },
+      data: { providerPaymentId, checkoutUrl }
+    })
+
+    return { ...checkout, paymentId: payment.id, checkoutUrl }
+  } catch (error) {
+    await prisma.eventPayment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.FAILED, failureReason: error instanceof Error ? error.message : 'Checkout failed' }
+    })
+    throw error
+  }
+}
+
+/**
+ * Settles a pending payment. Only the first outcome for a payment applies,
+ * so a webhook arriving after a synchronous confirmation is a no-op. A
+ * success still applies to a checkout cancelled by the seat release job,
+ * since the money was taken, but the cancelled RSVP stays unpaid and the
+ * church's admins are asked to refund it. Returns the payment when this
+ * call settled it.
+ */
+export async function applyPaymentOutcome({
+  provider,
+  providerPaymentId,
+  outcome,
+  at = new Date()
+}: {
+  provider: string
+  providerPaymentId: string
+  outcome: PaymentOutcome
+  at?: Date
+}) {
+  const claimed = await prisma.eventPayment.updateMany({
+    where: {
+      provider,
+      providerPaymentId,
+      status: outcome.status === 'succeeded'
+        ? { in: [PaymentStatus.PENDING, PaymentStatus.CANCELLED] }
+        : PaymentStatus.PENDING
+    },
+    data: outcome.status === 'succeeded'
+      ? { status: PaymentStatus.SUCCEEDED, paidAt: at, failureReason: null }
+      : { status: PaymentStatus.FAILED, failureReason: outcome.failureReason ?? 'Payment failed' }
+  })
+
+  if (claimed.count !== 1) {
+    return null
+  }
+
+  const payment = await prisma.eventPayment.findUniqueOrThrow({
+    where: { provider_providerPaymentId: { provider, providerPaymentId } },
+    include: {
+      rsvp: { select: { status: true } },
+      event: { select: { name: true, localChurchId: true } }
+    }
+  })
+
+  if (outcome.status === 'succeeded') {
+    // The seat was released or cancelled while the member was paying, so there is nothing to mark paid
+    const needsRefund = payment.rsvp.status === RsvpStatus.CANCELLED
+
+    if (needsRefund) {
+      paymentLogger.warn('Payment received for a cancelled seat', { paymentId: payment.id, rsvpId: payment.rsvpId })
+      await prisma.eventPayment.update({
+        where: { id: payment.id },
+        data: { needsRefund: true }
+      })
+    } else {
+      await prisma.eventRsvp.update({
+        where: { id: payment.rsvpId },
+        data: { hasPaid: true, paymentDueAt: null }
+      })
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: payment.userId,
+        action: 'PAYMENT_RECEIVED',
+        entity: 'Event',
+        entityId: payment.eventId,
+        localChurchId: payment.event.localChurchId,
+        meta: {
+          eventName: payment.event.name,
+          paymentId: payment.id,
+          provider,
+          amountCents: payment.amountCents,
+          currency: payment.currency,
+          needsRefund
+        }
+      }
+    })
+
+    if (needsRefund) {
+      await notifyPaymentNeedsRefund(payment.id)
+      return { ...payment, needsRefund }
+    }
+  }
+
+  return payment
+}
+
+/** Charges a payment method collected by the Payment Request API */
+export async function confirmEventCheckout({
+  paymentId,
+  userId,
+  methodName,
+  details
+}: {
+  paymentId: string
+  userId: string
+  methodName: string
+  details: Record<string, unknown>
+}) {
+  const payment = await prisma.eventPayment.findFirst({
+    where: { id: paymentId, userId, status: PaymentStatus.PENDING }
+  })
+  const provider = getPaymentProvider()
+
+  if (!payment?.providerPaymentId || !provider || provider.name !== payment.provider) {
+    throw new ApplicationError('NOT_FOUND', 'Payment not found')
+  }
+
+  const outcome = await provider.confirmPayment({ providerPaymentId: payment.providerPaymentId, methodName, details })
+  await applyPaymentOutcome({ provider: payment.provider, providerPaymentId: payment.providerPaymentId, outcome })
+
+  return outcome
+}
+
+/**
+ * Verifies and applies a provider webhook delivery. Deliveries are recorded
+ * by id first, so retries of an already applied delivery are acknowledged
+ * without being applied again.
+ */
+export async function handlePaymentWebhook(providerName: string, rawBody: string, headers: Headers) {
+  const provider = getPaymentProvider()
+  if (!provider || provider.name !== providerName) {
+    throw new ApplicationError('NOT_FOUND', 'Unknown payment provider')
+  }
+
+  const event = provider.parseWebhook(rawBody, headers)
+
+  let delivery
+  try {
+    delivery = await prisma.paymentWebhookEvent.create({
+      data: { provider: provider.name, providerEventId: event.id, type: event.type }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { duplicate: true }
+    }
+    throw error
+  }
+
+  try {
+    await applyPaymentOutcome({
+      provider: provider.name,
+      providerPaymentId: event.providerPaymentId,
+      outcome: event.type === 'payment.succeeded'
+        ? { status: 'succeeded' }
+        : { status: 'failed', failureReason: event.failureReason },
+      at: event.occurredAt
+    })
+  } catch (error) {
+    // Forget the delivery so the provider's retry is applied
+    await prisma.paymentWebhookEvent.delete({ where: { id: delivery.id } })
+    throw error
+  }
+
+  return { duplicate: false }
+}
+
+/** Records a cash or bank payment taken by an admin */
+export async function recordOfflinePayment({
+  rsvpId,
+  reference,
+  recordedById,
+  now = new Date()
+}: {
+  rsvpId: string
+  reference?: string | null
+  recordedById: string
+  now?: Date
+}) {
+  const rsvp = await prisma.eventRsvp.findUnique({
+    where: { id: rsvpId },
+    include: { event: { select: { name: true, localChurchId: true, requiresPayment: true, feeAmount: true } } }
+  })
+
+  if (!rsvp || rsvp.status === RsvpStatus.CANCELLED) {
+    throw new ApplicationError('NOT_FOUND', 'RSVP not found')
+  }
+  if (!rsvp.event.requiresPayment || !rsvp.event.feeAmount) {
+    throw new ApplicationError('VALIDATION_ERROR', 'This event has no fee')
+  }
+  if (rsvp.hasPaid) {
+    throw new ApplicationError('DUPLICATE_ENTRY', 'This seat is already paid for')
+  }
+
+  const payment = await prisma.$transaction(async (tx) => {
+    const created = await tx.eventPayment.create({
+      data: {
+        eventId: rsvp.eventId,
+        rsvpId,
+        userId: rsvp.userId,
+        provider: OFFLINE_PAYMENT_PROVIDER,
+        amountCents: toCents(rsvp.event.feeAmount!),
+        currency: getPaymentCurrency(),
+        status: PaymentStatus.SUCCEEDED,
+        reference: reference || null,
+        paidAt: now
+      }
+    })
+
+    await tx.eventRsvp.update({
+      where: { id: rsvpId },
+      data: { hasPaid: true, paymentDueAt: null }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        actorId: recordedById,
+        action: 'PAYMENT_RECORDED',
+        entity: 'Event',
+        entityId: rsvp.eventId,
+        localChurchId: rsvp.event.localChurchId,
+        meta: {
+          eventName: rsvp.event.name,
+          paymentId: created.id,
+          userId: rsvp.userId,
+          amountCents: created.amountCents,
+          reference: created.reference
+        }
+      }
+    })
+
+    return created
+  })
+
+  return payment
+}
+
+/**
+ * Refunds part or all of what is left of a settled payment. The refunded
+ * amount is claimed before the provider is called, so two admins can't
+ * refund the same money twice. A full refund marks the RSVP unpaid again
+ * and gives a GOING seat up to the next waitlisted member.
+ */
+export async function refundEventPayment({
+  paymentId,
+  amountCents,
+  reason,
+  issuedById,
+  now = new Date()
+}: {
+  paymentId: string
+  amountCents?: number
+  reason?: string | null
+  issuedById: string
+  now?: Date
+}) {
+  const payment = await prisma.eventPayment.findUnique({
+    where: { id: paymentId },
+    include: {
+      event: {
+        select: {
+          id: true,
+          name: true,
+          localChurchId: true,
+          requiresPayment: true,
+          paymentWindowHours: true,
+          startDateTime: true
+        }
+      }
+    }
+  })
+
+  if (!payment) {
+    throw new ApplicationError('NOT_FOUND', 'Payment not found')
+  }
+  if (payment.status !== PaymentStatus.SUCCEEDED && payment.status !== PaymentStatus.PARTIALLY_REFUNDED) {
+    throw new ApplicationError('VALIDATION_ERROR', 'Only settled payments can be refunded')
+  }
+
+  const remainingCents = payment.amountCents - payment.refundedCents
+  const refundCents = amountCents ?? remainingCents
+  if (!Number.isInteger(refundCents) || refundCents <= 0 || refundCents > remainingCents) {
+    throw new ApplicationError('VALIDATION_ERROR', `Refund must be between 0.01 and ${formatCents(remainingCents)}`)
+  }
+
+  const provider = payment.provider === OFFLINE_PAYMENT_PROVIDER ? null : getPaymentProvider()
+  if (payment.provider !== OFFLINE_PAYMENT_PROVIDER && (!provider || provider.name !== payment.provider)) {
+    throw new ApplicationError('SERVER_ERROR', `Payments made with ${payment.provider} can't be refunded right now`)
+  }
+
+  const fullyRefunded = refundCents === remainingCents
+  const claimed = await prisma.eventPayment.updateMany({
+    where: { id: paymentId, refundedCents: payment.refundedCents },
+    data: {
+      refundedCents: { increment: refundCents },
+      status: fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+      ...(fullyRefunded && { needsRefund: false })
+    }
+  })
+
+  if (claimed.count !== 1) {
+    throw new ApplicationError('DUPLICATE_ENTRY', 'This payment was refunded by someone else, reload and try again')
+  }
+
+  let providerRefundId: string | null = null
+  if (provider && payment.providerPaymentId) {
+    try {
+      const providerRefund = await provider.refund({
+        providerPaymentId: payment.providerPaymentId,
+        amountCents: refundCents,
+        reason
+      })
+      providerRefundId = providerRefund.providerRefundId
+    } catch (error) {
+      await prisma.eventPayment.update({
+        where: { id: paymentId },
+        data: { refundedCents: payment.refundedCents, status: payment.status, needsRefund: payment.needsRefund }
+      })
+      throw error
+    }
+  }
+
+  const { refund, seatReleased, promotedRsvp } = await prisma.$transaction(async (tx) => {
+    const created = await tx.eventRefund.create({
+      data: { paymentId, amountCents: refundCents, reason: reason || null, providerRefundId, issuedById }
+    })
+
+    let seatReleased = false
+    let promotedRsvp: Awaited<ReturnType<typeof promoteNextWaitlisted>> = null
+    if (fullyRefunded) {
+      // A refunded seat left GOING would never be released by the deadline job
+      const released = await tx.eventRsvp.updateMany({
+        where: { id: payment.rsvpId, status: RsvpStatus.GOING },
+        data: { status: RsvpStatus.CANCELLED, cancelledAt: now, hasPaid: false, paymentDueAt: null }
+      })
+      seatReleased = released.count === 1
+
+      if (seatReleased) {
+        promotedRsvp = await promoteNextWaitlisted(tx, payment.event, now)
+      } else {
+        await tx.eventRsvp.update({
+          where: { id: payment.rsvpId },
+          data: { hasPaid: false }
+        })
+      }
+    }
+
+    await tx.auditLog.create({
+      data: {
+        actorId: issuedById,
+        action: 'PAYMENT_REFUNDED',
+        entity: 'Event',
+        entityId: payment.eventId,
+        localChurchId: payment.event.localChurchId,
+        meta: {
+          eventName: payment.event.name,
+          paymentId,
+          refundId: created.id,
+          userId: payment.userId,
+          amountCents: refundCents,
+          reason: reason || null,
+          seatReleased,
+          promotedUserId: promotedRsvp?.userId ?? null
+        }
+      }
+    })
+
+    return { refund: created, seatReleased, promotedRsvp }
+  })
+
+  if (seatReleased) {
+    publishRealtimeEvent('event.updated', payment.event.localChurchId, {
+      id: payment.eventId,
+      rsvpId: payment.rsvpId,
+      userId: payment.userId,
+      status: RsvpStatus.CANCELLED,
+      reason: 'refunded'
+    })
+  }
+
+  if (promotedRsvp) {
+    await notifyWaitlistPromotion({ userId: promotedRsvp.userId, eventId: payment.eventId })
+    publishRealtimeEvent('event.updated', payment.event.localChurchId, {
+      id: payment.eventId,
+      rsvpId: promotedRsvp.id,
+      userId: promotedRsvp.userId,
+      status: RsvpStatus.GOING,
+      reason: 'waitlist_promotion'
+    })
+  }
+
+  return refund
+}
+
+/**
+ * Cancels GOING seats that are still unpaid after their payment deadline,
+ * promoting the next waitlisted member into each one. Every seat is claimed
+ * before it is released, so overlapping runs never release it twice.
+ */
+export async function releaseUnpaidSeats({
+  limit = SEAT_RELEASE_BATCH_SIZE,
+  now = new Date()
+}: { limit?: number; now?: Date } = {}) {
+  const overdue = await prisma.eventRsvp.findMany({
+    where: {
+      status: RsvpStatus.GOING,
+      hasPaid: false,
+      paymentDueAt: { lt: now },
+      event: { requiresPayment: true }
+    },
+    include: {
+      event: {
+        select: { id: true, localChurchId: true, requiresPayment: true, paymentWindowHours: true, startDateTime: true }
+      }
+    },
+    orderBy: { paymentDueAt: 'asc' },
+    take: limit
+  })
+
+  let released = 0
+  let promoted = 0
+
+  for (const rsvp of overdue) {
+    const result = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.eventRsvp.updateMany({
+        where: { id: rsvp.id, status: RsvpStatus.GOING, hasPaid: false },
+        data: { status: RsvpStatus.CANCELLED, cancelledAt: now, paymentDueAt: null }
+      })
+
+      if (claimed.count !== 1) {
+        return null
+      }
+
+      await tx.eventPayment.updateMany({
+        where: { rsvpId: rsvp.id, status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.CANCELLED, failureReason: 'Payment deadline passed' }
+      })
+
+      return { promotedRsvp: await promoteNextWaitlisted(tx, rsvp.event, now) }
+    })
+
+    if (!result) {
+      continue
+    }
+
+    released++
+    await notifySeatReleased({ userId: rsvp.userId, eventId: rsvp.eventId })
+    publishRealtimeEvent('event.updated', rsvp.event.localChurchId, {
+      id: rsvp.eventId,
+      rsvpId: rsvp.id,
+      userId: rsvp.userId,
+      status: RsvpStatus.CANCELLED,
+      reason: 'payment_expired'
+    })
+
+    if (result.promotedRsvp) {
+      promoted++
+      await notifyWaitlistPromotion({ userId: result.promotedRsvp.userId, eventId: rsvp.eventId })
+      publishRealtimeEvent('event.updated', rsvp.event.localChurchId, {
+        id: rsvp.eventId,
+        rsvpId: result.promotedRsvp.id,
+        userId: result.promotedRsvp.userId,
+        status: RsvpStatus.GOING,
+        reason: 'waitlist_promotion'
+      })
+    }
+  }
+
+  return { released, promoted }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/email', () => ({
+  getAppUrl: (pathname: string) => `https://drouple.app${pathname}`
+}))
+
+// Import functions after mocks
+import {
+  buildMockWebhookDelivery,
+  createMockPaymentProvider,
+  getPaymentProvider,
+  MOCK_SIGNATURE_HEADER
+} from './providers'
+import { signWebhookPayload, verifyWebhookSignature } from './webhooks'
+
+const now = new Date('2026-11-03T10:00:00Z')
+
+describe('payment webhook signatures', () => {
+  const payload = JSON.stringify({ id: 'evt1' })
+
+  it('verifies a signature it produced', () => {
+    const header = signWebhookPayload(payload, 'secret', now)
+    expect(verifyWebhookSignature(payload, header, 'secret', now)).toBe(true)
+  })
+
+  it('rejects a tampered body, a wrong secret and a missing header', () => {
+    const header = signWebhookPayload(payload, 'secret', now)
+    expect(verifyWebhookSignature(payload.replace('evt1', 'evt2'), header, 'secret', now)).toBe(false)
+    expect(verifyWebhookSignature(payload, header, 'other-secret', now)).toBe(false)
+    expect(verifyWebhookSignature(payload, null, 'secret', now)).toBe(false)
+    expect(verifyWebhookSignature(payload, 't=abc,v1=zz', 'secret', now)).toBe(false)
+  })
+
+  it('rejects deliveries outside the tolerance window', () => {
+    const header = signWebhookPayload(payload, 'secret', now)
+    expect(verifyWebhookSignature(payload, header, 'secret', new Date(now.getTime() + 4 * 60_000))).toBe(true)
+    expect(verifyWebhookSignature(payload, header, 'secret', new Date(now.getTime() + 6 * 60_000))).toBe(false)
+  })
+})
+
+describe('mock payment provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('PAYMENT_WEBHOOK_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('opens a checkout on the local mock page', async () => {
+    const checkout = await createMockPaymentProvider().createCheckout({
+      paymentId: 'pay1',
+      amountCents: 50000,
+      currency: 'PHP',
+      description: 'Retreat registration',
+      customerEmail: 'jane@example.com',
+      returnUrl: 'https://drouple.app/events/event1'
+    })
+
+    expect(checkout.providerPaymentId).toMatch(/^mock_/)
+    expect(checkout.checkoutUrl).toContain('https://drouple.app/events/checkout/mock?payment=mock_')
+  })
+
+  it('declines test cards ending in 0002', async () => {
+    const provider = createMockPaymentProvider()
+    await expect(provider.confirmPayment({ providerPaymentId: 'mock_1', methodName: 'basic-card', details: { cardNumber: '4242 4242 4242 4242' } }))
+      .resolves.toEqual({ status: 'succeeded' })
+    await expect(provider.confirmPayment({ providerPaymentId: 'mock_1', methodName: 'basic-card', details: { cardNumber: '4000 0000 0000 0002' } }))
+      .resolves.toEqual({ status: 'failed', failureReason: 'Card declined' })
+  })
+
+  it('parses its own signed deliveries', () => {
+    const delivery = buildMockWebhookDelivery({ type: 'payment.succeeded', providerPaymentId: 'mock_1' })
+    const event = createMockPaymentProvider().parseWebhook(delivery.rawBody, delivery.headers)
+
+    expect(event).toMatchObject({ type: 'payment.succeeded', providerPaymentId: 'mock_1' })
+    expect(event.id).toMatch(/^mock_evt_/)
+  })
+
+  it('rejects deliveries with a bad signature', () => {
+    const delivery = buildMockWebhookDelivery({ type: 'payment.succeeded', providerPaymentId: 'mock_1' })
+    const headers = new Headers({ [MOCK_SIGNATURE_HEADER]: signWebhookPayload(delivery.rawBody, 'wrong-secret') })
+
+    expect(() => createMockPaymentProvider().parseWebhook(delivery.rawBody, headers))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TOKEN' }))
+  })
+
+  it('is only the default outside production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(getPaymentProvider()).toBeNull()
+
+    vi.stubEnv('PAYMENT_PROVIDER', 'mock')
+    expect(getPaymentProvider()?.name).toBe('mock')
+  })
+})
@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto'
+import { ApplicationError } from '@/lib/errors'
+import { getAppUrl } from '@/lib/email'
+import { getCleanEnvVar, getNextAuthSecret } from '@/lib/env-utils'
+import { paymentLogger } from '@/lib/logger'
+import { signWebhookPayload, verifyWebhookSignature } from './webhooks'
+
+/**
+ * Pluggable payment providers for event fees.
+ *
+ * PAYMENT_PROVIDER picks one explicitly. Otherwise the mock provider is used
+ * outside production: its checkout is a local page where the payment can be
+ * approved or declined, and it settles through the same signed webhook path
+ * a real gateway would. Production has no fallback, so online payment stays
+ * unavailable until a provider is configured.
+ */
+
+export const PAYMENT_PROVIDERS = ['mock'] as const
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number]
+
+export const DEFAULT_PAYMENT_CURRENCY = 'PHP'
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature'
+
+// Card numbers ending in this are declined by the mock provider, like gateway test cards
+const MOCK_DECLINED_CARD_SUFFIX = '0002'
+
+export interface CheckoutRequest {
+  paymentId: string
+  amountCents: number
+  currency: string
+  description: string
+  customerEmail: string
+  returnUrl: string
+}
+
+export interface PaymentOutcome {
+  status: 'succeeded' | 'failed'
+  failureReason?: string
+}
+
+export interface PaymentWebhookEvent {
+  /** The provider's id for this delivery, used to ignore retries */
+  id: string
+  type: 'payment.succeeded' | 'payment.failed'
+  providerPaymentId: string
+  failureReason?: string
+  occurredAt: Date
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName
+  /** Opens a checkout; the member pays on checkoutUrl and the result arrives by webhook */
+  createCheckout(request: CheckoutRequest): Promise<{ providerPaymentId: string; checkoutUrl: string }>
+  /** Charges a payment method collected in the browser through the Payment Request API */
+  confirmPayment(input: {
+    providerPaymentId: string
+    methodName: string
+    details: Record<string, unknown>
+  }): Promise<PaymentOutcome>
+  /** Resolves with the provider's refund id; throws when the refund was not accepted */
+  refund(input: { providerPaymentId: string; amountCents: number; reason?: string | null }): Promise<{ providerRefundId: string }>
+  /** Verifies the delivery's signature and parses it; throws INVALID_TOKEN when it doesn't verify */
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent
+}
+
+export function getPaymentCurrency(): string {
+  return getCleanEnvVar('PAYMENT_CURRENCY') || DEFAULT_PAYMENT_CURRENCY
+}
+
+function getMockWebhookSecret(): string {
+  const secret = getCleanEnvVar('PAYMENT_WEBHOOK_SECRET') || getNextAuthSecret()
+  if (!secret) {
+    throw new ApplicationError('SERVER_ERROR', 'Payment webhook secret is not configured')
+  }
+  return secret
+}
+
+export function createMockPaymentProvider(): PaymentProvider {
+  return {
+    name: 'mock',
+    async createCheckout(request) {
+      const providerPaymentId = `mock_${randomUUID()}`
+      const params = new URLSearchParams({ payment: providerPaymentId, return: request.returnUrl })
+      return {
+        providerPaymentId,
+        checkoutUrl: getAppUrl(`/events/checkout/mock?${params.toString()}`)
+      }
+    },
+    async confirmPayment({ details }) {
+      const cardNumber = typeof details.cardNumber === 'string' ? details.cardNumber.replace(/\s/g, '') : ''
+      return cardNumber.endsWith(MOCK_DECLINED_CARD_SUFFIX)
+        ? { status: 'failed', failureReason: 'Card declined' }
+        : { status: 'succeeded' }
+    },
+    async refund({ providerPaymentId, amountCents }) {
+      paymentLogger.info('Refund captured by mock provider', { providerPaymentId, amountCents })
+      return { providerRefundId: `mock_re_${randomUUID()}` }
+    },
+    parseWebhook(rawBody, headers) {
+      if (!verifyWebhookSignature(rawBody, headers.get(MOCK_SIGNATURE_HEADER), getMockWebhookSecret())) {
+        throw new ApplicationError('INVALID_TOKEN', 'Invalid webhook signature')
+      }
+
+      const body = JSON.parse(rawBody) as Partial<Record<keyof PaymentWebhookEvent, string>>
+      if (!body.id || !body.providerPaymentId || (body.type !== 'payment.succeeded' && body.type !== 'payment.failed')) {
+        throw new ApplicationError('VALIDATION_ERROR', 'Malformed webhook payload')
+      }
+
+      return {
+        id: body.id,
+        type: body.type,
+        providerPaymentId: body.providerPaymentId,
+        failureReason: body.failureReason,
+        occurredAt: body.occurredAt ? new Date(body.occurredAt) : new Date()
+      }
+    }
+  }
+}
+
+/**
+ * A signed delivery as the mock gateway would send it, for the mock checkout
+ * page and tests.
+ */
+export function buildMockWebhookDelivery(
+  event: Omit<PaymentWebhookEvent, 'id' | 'occurredAt'>,
+  now: Date = new Date()
+): { rawBody: string; headers: Headers } {
+  const rawBody = JSON.stringify({ id: `mock_evt_${randomUUID()}`, occurredAt: now.toISOString(), ...event })
+  return {
+    rawBody,
+    headers: new Headers({ [MOCK_SIGNATURE_HEADER]: signWebhookPayload(rawBody, getMockWebhookSecret(), now) })
+  }
+}
+
+function resolveProviderName(): PaymentProviderName | null {
+  const configured = getCleanEnvVar('PAYMENT_PROVIDER')
+  if (configured) {
+    if ((PAYMENT_PROVIDERS as readonly string[]).includes(configured)) {
+      return configured as PaymentProviderName
+    }
+    paymentLogger.warn('Unknown PAYMENT_PROVIDER, online payments are disabled', { configured })
+    return null
+  }
+
+  return process.env.NODE_ENV === 'production' ? null : 'mock'
+}
+
+/** The configured provider, or null when online payment is unavailable */
+export function getPaymentProvider(): PaymentProvider | null {
+  switch (resolveProviderName()) {
+    case 'mock':
+      return createMockPaymentProvider()
+    default:
+      return null
+  }
+}
@@ -0,0 +1,99 @@
+import { format } from 'date-fns'
+import { PaymentStatus, RsvpStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { toCsv } from '@/lib/reports'
+import { formatCents, SETTLED_PAYMENT_STATUSES, toCents } from './event-payments'
+
+function formatTimestamp(date: Date | null): string {
+  return date ? format(date, "yyyy-MM-dd'T'HH:mm:ss") : ''
+}
+
+/**
+ * Reconciliation for one event, for matching against provider payouts and
+ * the cash box: every payment attempt with its refunds, then the GOING seats
+ * still owing the fee, then totals of what was collected, refunded and is
+ * still outstanding, and of late payments for released seats that still
+ * need refunding.
+ */
+export async function buildEventReconciliationCsv(eventId: string): Promise<string> {
+  const [event, payments, unpaidSeats] = await Promise.all([
+    prisma.event.findUniqueOrThrow({
+      where: { id: eventId },
+      select: { feeAmount: true }
+    }),
+    prisma.eventPayment.findMany({
+      where: { eventId },
+      include: {
+        user: { select: { name: true, email: true } },
+        rsvp: { select: { status: true } },
+        refunds: { orderBy: { createdAt: 'asc' } }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.eventRsvp.findMany({
+      where: { eventId, status: RsvpStatus.GOING, hasPaid: false },
+      include: { user: { select: { name: true, email: true } } },
+      orderBy: { rsvpAt: 'asc' }
+    })
+  ])
+
+  const settled = payments.filter(payment => SETTLED_PAYMENT_STATUSES.includes(payment.status))
+  const collectedCents = settled.reduce((sum, payment) => sum + payment.amountCents, 0)
+  const refundedCents = settled.reduce((sum, payment) => sum + payment.refundedCents, 0)
+  const feeCents = event.feeAmount ? toCents(event.feeAmount) : 0
+  const outstandingCents = unpaidSeats.length * feeCents
+  const needsRefund = payments.filter(payment => payment.needsRefund)
+  const needsRefundCents = needsRefund.reduce((sum, payment) => sum + payment.amountCents - payment.refundedCents, 0)
+
+  const rows: (string | number)[][] = [
+    ...payments.map(payment => {
+      const isSettled = SETTLED_PAYMENT_STATUSES.includes(payment.status)
+      return [
+        payment.id,
+        formatTimestamp(payment.createdAt),
+        formatTimestamp(payment.paidAt),
+        payment.user.name || '',
+        payment.user.email,
+        payment.rsvp.status,
+        payment.provider,
+        payment.providerPaymentId || payment.reference || '',
+        payment.status,
+        payment.currency,
+        formatCents(payment.amountCents),
+        formatCents(payment.refundedCents),
+        isSettled ? formatCents(payment.amountCents - payment.refundedCents) : '0.00',
+        [
+          payment.needsRefund ? 'Needs refund: seat released before payment arrived' : '',
+          payment.refunds
+            .map(refund => `${formatTimestamp(refund.createdAt)} ${formatCents(refund.amountCents)}${refund.reason ? ` (${refund.reason})` : ''}`)
+            .join('; ') || payment.failureReason || ''
+        ].filter(Boolean).join('; ')
+      ]
+    }),
+    ...unpaidSeats.map(rsvp => [
+      '',
+      formatTimestamp(rsvp.rsvpAt),
+      '',
+      rsvp.user.name || '',
+      rsvp.user.email,
+      rsvp.status,
+      '',
+      '',
+      'UNPAID',
+      '',
+      formatCents(feeCents),
+      '0.00',
+      '0.00',
+      rsvp.paymentDueAt ? `Due ${formatTimestamp(rsvp.paymentDueAt)}` : ''
+    ]),
+    [],
+    ['Totals', '', '', '', '', '', '', '', PaymentStatus.SUCCEEDED, '', formatCents(collectedCents), formatCents(refundedCents), formatCents(collectedCents - refundedCents), ''],
+    ['Outstanding', '', '', '', '', '', '', '', 'UNPAID', '', formatCents(outstandingCents), '', '', `${unpaidSeats.length} seats`],
+    ['Needs refund', '', '', '', '', '', '', '', '', '', formatCents(needsRefundCents), '', '', `${needsRefund.length} payments`]
+  ]
+
+  return toCsv(
+    ['Payment ID', 'Created', 'Paid At', 'Member', 'Email', 'RSVP Status', 'Provider', 'Reference', 'Status', 'Currency', 'Amount', 'Refunded', 'Net', 'Notes'],
+    rows
+  )
+}
@@ -0,0 +1,53 @@
+/**
+ * Webhook signatures for payment providers.
+ *
+ * A delivery is signed with HMAC-SHA256 over `<timestamp>.<raw body>` and
+ * carries the result in a header of the form `t=<unix seconds>,v1=<hex>`.
+ * Deliveries older than PAYMENT_WEBHOOK_TOLERANCE_SECONDS are rejected so a
+ * captured request can't be replayed later.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const PAYMENT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+function computeSignature(payload: string, timestamp: number, secret: string): Buffer {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest()
+}
+
+export function signWebhookPayload(payload: string, secret: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000)
+  return `t=${timestamp},v1=${computeSignature(payload, timestamp, secret).toString('hex')}`
+}
+
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  if (!header) {
+    return false
+  }
+
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=')
+      return [key, value.join('=')]
+    })
+  )
+
+  if (!/^\d+$/.test(parts.t ?? '') || !/^[0-9a-f]+$/i.test(parts.v1 ?? '')) {
+    return false
+  }
+
+  const timestamp = Number(parts.t)
+  if (Math.abs(now.getTime() / 1000 - timestamp) > PAYMENT_WEBHOOK_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const expected = computeSignature(payload, timestamp, secret)
+  const actual = Buffer.from(parts.v1, 'hex')
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,610 @@
+import { AnnouncementPriority, AnnouncementScope, NotificationCategory, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { buildAnnouncementRecipientWhere } from '@/lib/announcements/targeting'
+import { pushLogger } from '@/lib/logger'
+import { createNotifications } from '@/lib/notifications/inbox'
+import { getAppUrl, queueEmail, sendEmail } from '@/lib/email'
+import {
+  createAdminAlertNotification,
+  createAnnouncementNotification,
+  createLifeGroupUpdateNotification,
+  createMembershipUpdateNotification,
+  createPathwayMilestoneNotification,
+  createSeatReleasedNotification,
+  createUrgentAnnouncementNotification,
+  createWaitlistPromotionNotification,
+  type NotificationPayload
+} from '@/lib/pwa/notification-payloads'
+import { sendPushToUsers, type PushMessage } from './sender'
+
+/**
+ * Domain triggers for notifications. Each one resolves its recipients,
+ * records an in-app notification and hands off to sendPushToUsers (and the
+ * email outbox where there is a template), logging instead of throwing so an
+ * outage never fails the action that caused it.
+ */
+
+const PUSH_BODY_MAX_LENGTH = 180
+
+function toPushMessage(template: Partial<NotificationPayload>, overrides: Partial<PushMessage> = {}): PushMessage {
+  return {
+    type: template.type!,
+    title: template.title!,
+    body: template.body!,
+    url: template.url,
+    icon: template.icon,
+    badge: template.badge,
+    ...overrides
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text
+}
+
+/**
+ * Whether members can currently see the announcement, mirroring the filters
+ * used by getTargetedAnnouncements.
+ */
+export function isAnnouncementLive(
+  announcement: { isActive: boolean; publishedAt: Date | null; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return (
+    announcement.isActive &&
+    !!announcement.publishedAt &&
+    announcement.publishedAt <= now &&
+    (!announcement.expiresAt || announcement.expiresAt >= now)
+  )
+}
+
+/**
+ * Fans a newly live announcement out to its audience. Every priority
+ * lands in the in-app inbox; NORMAL and above are pushed, HIGH and URGENT are
+ * emailed as well. URGENT pushes ignore quiet hours (see sendPushToUsers).
+ */
+export async function notifyAnnouncementPublished(announcement: {
+  id: string
+  title: string
+  content: string
+  authorId: string
+  localChurchId: string
+  scope: AnnouncementScope
+  priority: AnnouncementPriority
+}): Promise<void> {
+  try {
+    const audiences = await prisma.announcementAudience.findMany({
+      where: { announcementId: announcement.id },
+      select: { type: true, lifeGroupId: true, pathwayId: true, eventId: true, userId: true }
+    })
+    const memberships = await prisma.membership.findMany({
+      where: buildAnnouncementRecipientWhere({
+        localChurchId: announcement.localChurchId,
+        scope: announcement.scope,
+        audiences,
+        excludeUserId: announcement.authorId
+      }),
+      select: { userId: true, user: { select: { name: true, email: true } } }
+    })
+    const userIds = memberships.map((membership) => membership.userId)
+
+    await createNotifications({
+      userIds,
+      localChurchId: announcement.localChurchId,
+      category: NotificationCategory.ANNOUNCEMENTS,
+      title: announcement.title,
+      body: announcement.content,
+      url: '/announcements',
+      entity: 'Announcement',
+      entityId: announcement.id
+    })
+
+    // Low priority announcements stay in-app only
+    if (announcement.priority === AnnouncementPriority.LOW) {
+      return
+    }
+
+    const urgent = announcement.priority === AnnouncementPriority.URGENT
+    const body = truncate(announcement.content, PUSH_BODY_MAX_LENGTH)
+    const template = urgent
+      ? createUrgentAnnouncementNotification(announcement.title, body)
+      : createAnnouncementNotification(announcement.title, body)
+
+    await sendPushToUsers(userIds, toPushMessage(template, { data: { announcementId: announcement.id } }))
+
+    if (announcement.priority === AnnouncementPriority.NORMAL) {
+      return
+    }
+
+    const localChurch = await prisma.localChurch.findUnique({
+      where: { id: announcement.localChurchId },
+      select: { name: true }
+    })
+
+    for (const membership of memberships) {
+      await queueEmail({
+        template: 'announcement',
+        to: membership.user.email,
+        userId: membership.userId,
+        localChurchId: announcement.localChurchId,
+        data: {
+          name: membership.user.name || 'Member',
+          churchName: localChurch?.name || 'Drouple',
+          title: announcement.title,
+          content: announcement.content,
+          urgent,
+          announcementUrl: getAppUrl('/announcements')
+        }
+      })
+    }
+  } catch (error) {
+    pushLogger.error('Failed to push announcement', { error, announcementId: announcement.id })
+  }
+}
+
+export async function notifyWaitlistPromotion({ userId, eventId }: { userId: string; eventId: string }): Promise<void> {
+  try {
+    const [event, user] = await Promise.all([
+      prisma.event.findUnique({
+        where: { id: eventId },
+        select: { name: true, startDateTime: true, location: true, localChurchId: true }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { tenantId: true, name: true, email: true }
+      })
+    ])
+
+    if (!event) {
+      return
+    }
+
+    const eventDate = event.startDateTime.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    })
+    const template = createWaitlistPromotionNotification(event.name, eventDate)
+
+    // Whole-church events have no local church; file it under the member's own
+    const localChurchId = event.localChurchId ?? user?.tenantId
+    if (localChurchId) {
+      await createNotifications({
+        userIds: [userId],
+        localChurchId,
+        category: NotificationCategory.EVENT_REMINDERS,
+        title: template.title!,
+        body: template.body!,
+        url: `/events/${eventId}`,
+        entity: 'Event',
+        entityId: eventId
+      })
+    }
+
+    await sendPushToUsers(
+      [userId],
+      toPushMessage(template, {
+        url: `/events/${eventId}`,
+        data: { eventId }
+      })
+    )
+
+    if (user?.email) {
+      await sendEmail({
+        template: 'waitlistPromotion',
+        to: user.email,
+        userId,
+        localChurchId,
+        data: {
+          name: user.name || 'Member',
+          eventName: event.name,
+          startDateTime: event.startDateTime,
+          location: event.location,
+          eventUrl: getAppUrl(`/events/${eventId}`)
+        }
+      })
+    }
+  } catch (error) {
+    pushLogger.error('Failed to push waitlist promotion', { error, userId, eventId })
+  }
+}
+
+/** Tells the member their unpaid seat was released after the payment deadline */
+export async function notifySeatReleased({ userId, eventId }: { userId: string; eventId: string }): Promise<void> {
+  try {
+    const [event, user] = await Promise.all([
+      prisma.event.findUnique({
+        where: { id: eventId },
+        select: { name: true, localChurchId: true }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { tenantId: true }
+      })
+    ])
+
+    if (!event) {
+      return
+    }
+
+    const template = createSeatReleasedNotification(event.name)
+
+    const localChurchId = event.localChurchId ?? user?.tenantId
+    if (localChurchId) {
+      await createNotifications({
+        userIds: [userId],
+        localChurchId,
+        category: NotificationCategory.EVENT_REMINDERS,
+        title: template.title!,
+        body: template.body!,
+        url: `/events/${eventId}`,
+        entity: 'Event',
+        entityId: eventId
+      })
+    }
+
+    await sendPushToUsers(
+      [userId],
+      toPushMessage(template, {
+        url: `/events/${eventId}`,
+        data: { eventId }
+      })
+    )
+  } catch (error) {
+    pushLogger.error('Failed to push seat release', { error, userId, eventId })
+  }
+}
+
+/**
+ * Asks the church's admins and pastors to refund a payment that settled after
+ * its seat was released, since the member no longer has a place to pay for.
+ */
+export async function notifyPaymentNeedsRefund(paymentId: string): Promise<void> {
+  try {
+    const payment = await prisma.eventPayment.findUnique({
+      where: { id: paymentId },
+      select: {
+        eventId: true,
+        event: { select: { name: true, localChurchId: true } },
+        user: { select: { name: true, email: true, tenantId: true } }
+      }
+    })
+
+    const localChurchId = payment?.event.localChurchId ?? payment?.user.tenantId
+    if (!payment || !localChurchId) {
+      return
+    }
+
+    const admins = await prisma.user.findMany({
+      where: { tenantId: localChurchId, role: { in: [UserRole.ADMIN, UserRole.PASTOR] } },
+      select: { id: true }
+    })
+    const adminIds = admins.map(admin => admin.id)
+    if (adminIds.length === 0) {
+      return
+    }
+
+    const template = createAdminAlertNotification(
+      'Payment needs a refund',
+      `${payment.user.name || payment.user.email} paid for ${payment.event.name} after their seat was released. Refund the payment from the event page.`
+    )
+    const url = `/admin/events/${payment.eventId}`
+
+    await createNotifications({
+      userIds: adminIds,
+      localChurchId,
+      category: NotificationCategory.EVENT_REMINDERS,
+      title: template.title!,
+      body: template.body!,
+      url,
+      entity: 'Event',
+      entityId: payment.eventId
+    })
+
+    await sendPushToUsers(adminIds, toPushMessage(template, { url, data: { eventId: payment.eventId, paymentId } }))
+  } catch (error) {
+    pushLogger.error('Failed to notify payment needing refund', { error, paymentId })
+  }
+}
+
+/** Emails the member a confirmation of their RSVP (or waitlist place) */
+export async function notifyRsvpConfirmed({
+  userId,
+  eventId,
+  waitlisted
+}: {
+  userId: string
+  eventId: string
+  waitlisted: boolean
+}): Promise<void> {
+  try {
+    const [event, user] = await Promise.all([
+      prisma.event.findUnique({
+        where: { id: eventId },
+        select: { name: true, startDateTime: true, location: true, localChurchId: true }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { tenantId: true, name: true, email: true }
+      })
+    ])
+
+    if (!event || !user?.email) {
+      return
+    }
+
+    await sendEmail({
+      template: 'eventConfirmation',
+      to: user.email,
+      userId,
+      localChurchId: event.localChurchId ?? user.tenantId,
+      data: {
+        name: user.name || 'Member',
+        eventName: event.name,
+        startDateTime: event.startDateTime,
+        location: event.location,
+        waitlisted,
+        eventUrl: getAppUrl(`/events/${eventId}`)
+      }
+    })
+  } catch (error) {
+    pushLogger.error('Failed to send RSVP confirmation', { error, userId, eventId })
+  }
+}
+
+export async function notifyLifeGroupRequestApproved({
+  userId,
+  lifeGroupId
+}: {
+  userId: string
+  lifeGroupId: string
+}): Promise<void> {
+  try {
+    const lifeGroup = await prisma.lifeGroup.findUnique({
+      where: { id: lifeGroupId },
+      select: { name: true, localChurchId: true }
+    })
+
+    if (!lifeGroup) {
+      return
+    }
+
+    const template = createLifeGroupUpdateNotification(
+      lifeGroup.name,
+      `Your request to join ${lifeGroup.name} was approved. Welcome!`
+    )
+
+    await createNotifications({
+      userIds: [userId],
+      localChurchId: lifeGroup.localChurchId,
+      category: NotificationCategory.LIFEGROUP_UPDATES,
+      title: template.title!,
+      body: template.body!,
+      url: '/lifegroups',
+      entity: 'LifeGroup',
+      entityId: lifeGroupId
+    })
+
+    await sendPushToUsers([userId], toPushMessage(template, { data: { lifeGroupId } }))
+  } catch (error) {
+    pushLogger.error('Failed to push LifeGroup approval', { error, userId, lifeGroupId })
+  }
+}
+
+/**
+ * Tells the members who moved which group they are in now, and the members
+ * who stayed that their group has multiplied.
+ */
+export async function notifyLifeGroupMultiplied({
+  lifeGroupId,
+  movedUserIds,
+  remainingUserIds
+}: {
+  lifeGroupId: string
+  movedUserIds: string[]
+  remainingUserIds: string[]
+}): Promise<void> {
+  try {
+    const lifeGroup = await prisma.lifeGroup.findUnique({
+      where: { id: lifeGroupId },
+      select: {
+        name: true,
+        localChurchId: true,
+        leader: { select: { name: true, email: true } },
+        parent: { select: { name: true } }
+      }
+    })
+
+    if (!lifeGroup?.parent) {
+      return
+    }
+
+    const leaderName = lifeGroup.leader.name || lifeGroup.leader.email
+    const batches = [
+      {
+        userIds: movedUserIds,
+        template: createLifeGroupUpdateNotification(
+          lifeGroup.name,
+          `${lifeGroup.parent.name} has multiplied. You are now part of ${lifeGroup.name}, led by ${leaderName}.`
+        )
+      },
+      {
+        userIds: remainingUserIds,
+        template: createLifeGroupUpdateNotification(
+          lifeGroup.parent.name,
+          `${lifeGroup.parent.name} has multiplied! ${leaderName} is now leading ${lifeGroup.name}.`
+        )
+      }
+    ]
+
+    for (const { userIds, template } of batches) {
+      if (userIds.length === 0) {
+        continue
+      }
+
+      await createNotifications({
+        userIds,
+        localChurchId: lifeGroup.localChurchId,
+        category: NotificationCategory.LIFEGROUP_UPDATES,
+        title: template.title!,
+        body: template.body!,
+        url: '/lifegroups',
+        entity: 'LifeGroup',
+        entityId: lifeGroupId
+      })
+
+      await sendPushToUsers(userIds, toPushMessage(template, { data: { lifeGroupId } }))
+    }
+  } catch (error) {
+    pushLogger.error('Failed to push LifeGroup multiplication', { error, lifeGroupId })
+  }
+}
+
+export async function notifyPathwayStepVerified({
+  userId,
+  stepId
+}: {
+  userId: string
+  stepId: string
+}): Promise<void> {
+  try {
+    const [step, user] = await Promise.all([
+      prisma.pathwayStep.findUnique({
+        where: { id: stepId },
+        select: { name: true, pathway: { select: { id: true, name: true } } }
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { tenantId: true }
+      })
+    ])
+
+    if (!step) {
+      return
+    }
+
+    const template = createPathwayMilestoneNotification(step.pathway.name, step.name)
+
+    if (user?.tenantId) {
+      await createNotifications({
+        userIds: [userId],
+        localChurchId: user.tenantId,
+        category: NotificationCategory.PATHWAY_MILESTONES,
+        title: template.title!,
+        body: template.body!,
+        url: '/pathways',
+        entity: 'Pathway',
+        entityId: step.pathway.id
+      })
+    }
+
+    await sendPushToUsers([userId], toPushMessage(template, { data: { pathwayId: step.pathway.id, stepId } }))
+  } catch (error) {
+    pushLogger.error('Failed to push pathway step verification', { error, userId, stepId })
+  }
+}
+
+/**
+ * Keeps the member posted on a church transfer. Until it is approved the
+ * notification goes to the inbox of the church they are still at.
+ */
+export async function notifyMemberTransfer(transferId: string): Promise<void> {
+  try {
+    const transfer = await prisma.memberTransfer.findUnique({
+      where: { id: transferId },
+      select: {
+        userId: true,
+        status: true,
+        decisionNote: true,
+        fromChurchId: true,
+        toChurchId: true,
+        fromChurch: { select: { name: true } },
+        toChurch: { select: { name: true } }
+      }
+    })
+
+    if (!transfer) {
+      return
+    }
+
+    const from = transfer.fromChurch.name
+    const to = transfer.toChurch.name
+    const note = transfer.decisionNote ? ` ${transfer.decisionNote}` : ''
+    const template = {
+      PENDING: createMembershipUpdateNotification(
+        'Church transfer requested',
+        `A transfer of your membership from ${from} to ${to} has been requested. ${to} will review it.`
+      ),
+      APPROVED: createMembershipUpdateNotification(
+        `Welcome to ${to}!`,
+        `Your membership has moved from ${from} to ${to}.${note}`
+      ),
+      REJECTED: createMembershipUpdateNotification(
+        'Church transfer not approved',
+        `Your transfer from ${from} to ${to} was not approved.${note}`
+      ),
+      CANCELLED: createMembershipUpdateNotification(
+        'Church transfer cancelled',
+        `The transfer of your membership from ${from} to ${to} was cancelled.`
+      )
+    }[transfer.status]
+
+    await createNotifications({
+      userIds: [transfer.userId],
+      localChurchId: transfer.status === 'APPROVED' ? transfer.toChurchId : transfer.fromChurchId,
+      category: NotificationCategory.MEMBERSHIP,
+      title: template.title!,
+      body: template.body!,
+      url: '/profile',
+      entity: 'MemberTransfer',
+      entityId: transferId
+    })
+
+    await sendPushToUsers([transfer.userId], toPushMessage(template, { data: { transferId } }))
+  } catch (error) {
+    pushLogger.error('Failed to notify member transfer', { error, transferId })
+  }
+}
+
+/** In-app only: messages have no push notification type */
+export async function notifyThreadMessage({
+  threadId,
+  authorId,
+  body
+}: {
+  threadId: string
+  authorId: string
+  body: string
+}): Promise<void> {
+  try {
+    const thread = await prisma.messageThread.findUnique({
+      where: { id: threadId },
+      select: {
+        localChurchId: true,
+        participants: { where: { userId: { not: authorId } }, select: { userId: true } }
+      }
+    })
+
+    if (!thread) {
+      return
+    }
+
+    const author = await prisma.user.findUnique({
+      where: { id: authorId },
+      select: { name: true }
+    })
+
+    await createNotifications({
+      userIds: thread.participants.map((participant) => participant.userId),
+      localChurchId: thread.localChurchId,
+      category: NotificationCategory.MESSAGES,
+      title: `New message from ${author?.name || 'a member'}`,
+      body,
+      url: `/messages/${threadId}`,
+      entity: 'MessageThread',
+      entityId: threadId
+    })
+  } catch (error) {
+    pushLogger.error('Failed to notify thread participants', { error, threadId, authorId })
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationPreference: {
+      findMany: vi.fn()
+    },
+    pushSubscription: {
+      findMany: vi.fn(),
+      updateMany: vi.fn()
+    }
+  }
+}))
+
+vi.mock('web-push', () => ({
+  default: {
+    sendNotification: vi.fn()
+  }
+}))
+
+// Import functions after mocks
+import webpush from 'web-push'
+import { prisma } from '@/lib/prisma'
+import { NotificationType } from '@/lib/pwa/notification-payloads'
+import { sendPushToUsers } from './sender'
+
+const db = prisma as any
+const sendNotification = webpush.sendNotification as ReturnType<typeof vi.fn>
+
+const message = {
+  type: NotificationType.ANNOUNCEMENT,
+  title: 'Sunday update',
+  body: 'Service starts at 10am'
+}
+
+function preference(userId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    userId,
+    email: true,
+    push: true,
+    inApp: true,
+    quietHoursEnabled: false,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: 'Asia/Manila',
+    categories: [],
+    ...overrides
+  }
+}
+
+function subscription(id: string, userId: string) {
+  return { id, userId, endpoint: `https://push.example.com/${id}`, p256dh: 'key', auth: 'auth', churchId: 'church1' }
+}
+
+describe('sendPushToUsers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', 'public-key')
+    vi.stubEnv('VAPID_PRIVATE_KEY', 'private-key')
+    db.notificationPreference.findMany.mockResolvedValue([])
+    db.pushSubscription.updateMany.mockImplementation(({ where }: any) =>
+      Promise.resolve({ count: where.id.in.length })
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should skip sending when VAPID keys are not configured', async () => {
+    vi.stubEnv('VAPID_PRIVATE_KEY', '')
+
+    const result = await sendPushToUsers(['user1'], message)
+
+    expect(result).toEqual({ sent: 0, failed: 0, deactivated: 0, skipped: 1 })
+    expect(db.pushSubscription.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should sign with env VAPID keys and fan out to active subscriptions', async () => {
+    db.pushSubscription.findMany.mockResolvedValue([
+      subscription('sub1', 'user1'),
+      subscription('sub2', 'user1')
+    ])
+    sendNotification.mockResolvedValue({ statusCode: 201 })
+
+    const result = await sendPushToUsers(['user1', 'user1'], message)
+
+    expect(db.pushSubscription.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: { in: ['user1'] }, isActive: true } })
+    )
+    expect(sendNotification).toHaveBeenCalledTimes(2)
+    const [target, body, options] = sendNotification.mock.calls[0]
+    expect(target).toEqual({ endpoint: 'https://push.example.com/sub1', keys: { p256dh: 'key', auth: 'auth' } })
+    expect(JSON.parse(body)).toMatchObject({ type: 'announcement', title: 'Sunday update', churchId: 'church1' })
+    expect(options.vapidDetails).toEqual({
+      subject: 'mailto:noreply@drouple.app',
+      publicKey: 'public-key',
+      privateKey: 'private-key'
+    })
+    expect(result).toEqual({ sent: 2, failed: 0, deactivated: 0, skipped: 0 })
+  })
+
+  it('should not send to users who turned push notifications off', async () => {
+    db.notificationPreference.findMany.mockResolvedValue([preference('user2', { push: false })])
+    db.pushSubscription.findMany.mockResolvedValue([subscription('sub1', 'user1')])
+    sendNotification.mockResolvedValue({ statusCode: 201 })
+
+    const result = await sendPushToUsers(['user1', 'user2'], message)
+
+    expect(db.pushSubscription.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: { in: ['user1'] }, isActive: true } })
+    )
+    expect(result).toEqual({ sent: 1, failed: 0, deactivated: 0, skipped: 1 })
+  })
+
+  it('should respect per-category opt-outs', async () => {
+    db.notificationPreference.findMany.mockResolvedValue([
+      preference('user1', { categories: [{ category: 'ANNOUNCEMENTS', email: true, push: false, inApp: true }] })
+    ])
+
+    const result = await sendPushToUsers(['user1'], message)
+
+    expect(db.pushSubscription.findMany).not.toHaveBeenCalled()
+    expect(result).toEqual({ sent: 0, failed: 0, deactivated: 0, skipped: 1 })
+  })
+
+  it('should let urgent announcements through quiet hours', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-05T02:00:00Z'))
+    db.notificationPreference.findMany.mockResolvedValue([
+      preference('user1', { quietHoursEnabled: true, quietHoursStart: '22:00', quietHoursEnd: '07:00', timeZone: 'UTC' })
+    ])
+    db.pushSubscription.findMany.mockResolvedValue([subscription('sub1', 'user1')])
+    sendNotification.mockResolvedValue({ statusCode: 201 })
+
+    const normal = await sendPushToUsers(['user1'], message)
+    const urgent = await sendPushToUsers(['user1'], { ...message, type: NotificationType.URGENT_ANNOUNCEMENT })
+    vi.useRealTimers()
+
+    expect(normal.skipped).toBe(1)
+    expect(urgent.sent).toBe(1)
+  })
+
+  it('should deactivate subscriptions the push service reports as gone', async () => {
+    db.pushSubscription.findMany.mockResolvedValue([
+      subscription('sub1', 'user1'),
+      subscription('sub2', 'user1'),
+      subscription('sub3', 'user1')
+    ])
+    sendNotification
+      .mockRejectedValueOnce(Object.assign(new Error('Gone'), { statusCode: 410 }))
+      .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { statusCode: 404 }))
+      .mockRejectedValueOnce(Object.assign(new Error('Server error'), { statusCode: 500 }))
+
+    const result = await sendPushToUsers(['user1'], message)
+
+    expect(db.pushSubscription.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['sub1', 'sub2'] } },
+      data: { isActive: false }
+    })
+    expect(result).toEqual({ sent: 0, failed: 1, deactivated: 2, skipped: 0 })
+  })
+})
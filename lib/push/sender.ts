@@ -0,0 +1,191 @@
+import webpush from 'web-push'
+import { prisma } from '@/lib/prisma'
+import { pushLogger } from '@/lib/logger'
+import { filterRecipientsByPreference, getNotificationCategory } from '@/lib/notifications/preferences'
+import {
+  NotificationPayloadSchema,
+  NotificationType,
+  type NotificationPayload
+} from '@/lib/pwa/notification-payloads'
+
+/**
+ * Server-side Web Push delivery.
+ *
+ * Messages are signed with the VAPID key pair from the environment and fanned
+ * out to every active subscription of the target users. Users whose
+ * NotificationPreference turns push off for the message's category, or who are
+ * inside their quiet hours, are skipped. Subscriptions the push service reports
+ * as gone (404/410) are deactivated so they are not retried.
+ */
+
+export interface PushMessage {
+  type: NotificationType
+  title: string
+  body: string
+  url?: string
+  icon?: string
+  badge?: string
+  image?: string
+  data?: Record<string, unknown>
+}
+
+export interface PushDeliveryResult {
+  sent: number
+  failed: number
+  deactivated: number
+  skipped: number
+}
+
+export interface VapidDetails {
+  subject: string
+  publicKey: string
+  privateKey: string
+}
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60
+const GONE_STATUS_CODES = new Set([404, 410])
+
+export function getVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY || process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+
+  if (!publicKey || !privateKey) {
+    return null
+  }
+
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:noreply@drouple.app',
+    publicKey,
+    privateKey
+  }
+}
+
+export function isPushConfigured(): boolean {
+  return getVapidDetails() !== null
+}
+
+export function getPushUrgency(type: NotificationType): 'very-low' | 'low' | 'normal' | 'high' {
+  switch (type) {
+    case NotificationType.URGENT_ANNOUNCEMENT:
+    case NotificationType.ADMIN_ALERT:
+      return 'high'
+    case NotificationType.SERVICE_REMINDER:
+    case NotificationType.EVENT_ANNOUNCEMENT:
+    case NotificationType.ANNOUNCEMENT:
+      return 'normal'
+    case NotificationType.PATHWAY_MILESTONE:
+    case NotificationType.LIFEGROUP_UPDATE:
+      return 'low'
+    default:
+      return 'normal'
+  }
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'statusCode' in error) {
+    const statusCode = (error as { statusCode: unknown }).statusCode
+    return typeof statusCode === 'number' ? statusCode : undefined
+  }
+  return undefined
+}
+
+/**
+ * Sends a push message to every active subscription of the given users.
+ * Never throws for delivery failures; the counts describe what happened.
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  message: PushMessage
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { sent: 0, failed: 0, deactivated: 0, skipped: 0 }
+  const uniqueUserIds = Array.from(new Set(userIds))
+
+  if (uniqueUserIds.length === 0) {
+    return result
+  }
+
+  const vapid = getVapidDetails()
+  if (!vapid) {
+    pushLogger.warn('VAPID keys not configured - push not sent', { type: message.type })
+    result.skipped = uniqueUserIds.length
+    return result
+  }
+
+  const recipientIds = await filterRecipientsByPreference(uniqueUserIds, {
+    channel: 'push',
+    category: getNotificationCategory(message.type),
+    bypassQuietHours: message.type === NotificationType.URGENT_ANNOUNCEMENT
+  })
+  result.skipped = uniqueUserIds.length - recipientIds.length
+
+  if (recipientIds.length === 0) {
+    return result
+  }
+
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId: { in: recipientIds }, isActive: true },
+    select: { id: true, userId: true, endpoint: true, p256dh: true, auth: true, churchId: true }
+  })
+
+  const timestamp = Date.now()
+  const goneSubscriptionIds: string[] = []
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      const payload: NotificationPayload = NotificationPayloadSchema.parse({
+        id: `push_${timestamp}_${subscription.id}`,
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        icon: message.icon || '/icon-192x192.png',
+        badge: message.badge || '/icon-192x192.png',
+        image: message.image,
+        url: message.url,
+        churchId: subscription.churchId,
+        data: message.data || {},
+        timestamp
+      })
+
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+          },
+          JSON.stringify(payload),
+          {
+            TTL: PUSH_TTL_SECONDS,
+            urgency: getPushUrgency(message.type),
+            vapidDetails: vapid
+          }
+        )
+        result.sent++
+      } catch (error) {
+        const statusCode = getStatusCode(error)
+        if (statusCode && GONE_STATUS_CODES.has(statusCode)) {
+          goneSubscriptionIds.push(subscription.id)
+          return
+        }
+
+        result.failed++
+        pushLogger.error('Push delivery failed', {
+          subscriptionId: subscription.id,
+          userId: subscription.userId,
+          statusCode,
+          error
+        })
+      }
+    })
+  )
+
+  if (goneSubscriptionIds.length > 0) {
+    const deactivated = await prisma.pushSubscription.updateMany({
+      where: { id: { in: goneSubscriptionIds } },
+      data: { isActive: false }
+    })
+    result.deactivated = deactivated.count
+  }
+
+  pushLogger.info('Push delivered', { type: message.type, ...result })
+  return result
+}
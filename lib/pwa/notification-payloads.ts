@@ -0,0 +1,157 @@
+import { z } from 'zod'
+
+/**
+ * Push payload shapes and template builders shared by the browser client and
+ * the server-side sender in lib/push. Kept out of push-notifications.ts so
+ * server code does not import a 'use client' module.
+ */
+
+// Push notification subscription schema
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string(),
+    auth: z.string()
+  })
+})
+
+// Notification types for church management
+export enum NotificationType {
+  SERVICE_REMINDER = 'service_reminder',
+  EVENT_ANNOUNCEMENT = 'event_announcement', 
+  LIFEGROUP_UPDATE = 'lifegroup_update',
+  PATHWAY_MILESTONE = 'pathway_milestone',
+  MEMBERSHIP_UPDATE = 'membership_update',
+  ADMIN_ALERT = 'admin_alert',
+  ANNOUNCEMENT = 'announcement',
+  URGENT_ANNOUNCEMENT = 'urgent_announcement'
+}
+
+// Notification payload schema
+export const NotificationPayloadSchema = z.object({
+  id: z.string(),
+  type: z.nativeEnum(NotificationType),
+  title: z.string(),
+  body: z.string(),
+  icon: z.string().optional(),
+  badge: z.string().optional(),
+  image: z.string().optional(),
+  url: z.string().optional(),
+  churchId: z.string(),
+  data: z.record(z.any()).optional(),
+  timestamp: z.number()
+})
+
+export type NotificationPayload = z.infer<typeof NotificationPayloadSchema>
+export type PushSubscriptionData = z.infer<typeof PushSubscriptionSchema>
+
+// Utility functions for notification templates
+export function createServiceReminderNotification(serviceName: string, serviceTime: string, churchName: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.SERVICE_REMINDER,
+    title: `${serviceName} Service Reminder`,
+    body: `${serviceName} service starts in 30 minutes at ${churchName}`,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/checkin'
+  }
+}
+
+export function createEventAnnouncementNotification(eventName: string, eventDate: string, churchName: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.EVENT_ANNOUNCEMENT,
+    title: `New Event: ${eventName}`,
+    body: `Join us for ${eventName} on ${eventDate} at ${churchName}`,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/events'
+  }
+}
+
+export function createWaitlistPromotionNotification(eventName: string, eventDate: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.EVENT_ANNOUNCEMENT,
+    title: `You're in: ${eventName}`,
+    body: `A spot opened up and you've been moved off the waitlist for ${eventName} on ${eventDate}`,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/events'
+  }
+}
+
+export function createSeatReleasedNotification(eventName: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.EVENT_ANNOUNCEMENT,
+    title: `Seat released: ${eventName}`,
+    body: `Your seat for ${eventName} was released because the fee wasn't paid in time. You can RSVP again if spots are available`,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/events'
+  }
+}
+
+export function createLifeGroupUpdateNotification(groupName: string, message: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.LIFEGROUP_UPDATE,
+    title: `${groupName} Update`,
+    body: message,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/lifegroups'
+  }
+}
+
+export function createPathwayMilestoneNotification(pathwayName: string, milestone: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.PATHWAY_MILESTONE,
+    title: `Pathway Milestone Achieved!`,
+    body: `Congratulations! You've completed ${milestone} in ${pathwayName}`,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/pathways'
+  }
+}
+
+export function createMembershipUpdateNotification(title: string, message: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.MEMBERSHIP_UPDATE,
+    title,
+    body: message,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/profile'
+  }
+}
+
+export function createAdminAlertNotification(title: string, message: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.ADMIN_ALERT,
+    title,
+    body: message,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/admin'
+  }
+}
+
+export function createAnnouncementNotification(title: string, message: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.ANNOUNCEMENT,
+    title,
+    body: message,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/announcements'
+  }
+}
+
+export function createUrgentAnnouncementNotification(title: string, message: string): Partial<NotificationPayload> {
+  return {
+    type: NotificationType.URGENT_ANNOUNCEMENT,
+    title: `🚨 ${title}`,
+    body: message,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    url: '/'
+  }
+}
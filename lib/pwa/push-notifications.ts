@@ -1,46 +1,11 @@
 'use client'
 
-import { z } from 'zod'
-
-// VAPID keys for push notifications (these would be env vars in production)
-export const VAPID_PUBLIC_KEY = 'BFIBn4JHMoR-2Y8_9fVQ_Hm9lIJZZBM_u8LZRhcKiQO6BvSTIcHJY0rALAe9xkVkLKHJBFYnBPmJp6aNb4OXcCE'
-
-// Push notification subscription schema
-export const PushSubscriptionSchema = z.object({
-  endpoint: z.string().url(),
-  keys: z.object({
-    p256dh: z.string(),
-    auth: z.string()
-  })
-})
-
-// Notification types for church management
-export enum NotificationType {
-  SERVICE_REMINDER = 'service_reminder',
-  EVENT_ANNOUNCEMENT = 'event_announcement', 
-  LIFEGROUP_UPDATE = 'lifegroup_update',
-  PATHWAY_MILESTONE = 'pathway_milestone',
-  ADMIN_ALERT = 'admin_alert',
-  URGENT_ANNOUNCEMENT = 'urgent_announcement'
-}
+import { PushSubscriptionSchema } from './notification-payloads'
+
+export * from './notification-payloads'
 
-// Notification payload schema
-export const NotificationPayloadSchema = z.object({
-  id: z.string(),
-  type: z.nativeEnum(NotificationType),
-  title: z.string(),
-  body: z.string(),
-  icon: z.string().optional(),
-  badge: z.string().optional(),
-  image: z.string().optional(),
-  url: z.string().optional(),
-  churchId: z.string(),
-  data: z.record(z.any()).optional(),
-  timestamp: z.number()
-})
-
-export type NotificationPayload = z.infer<typeof NotificationPayloadSchema>
-export type PushSubscriptionData = z.infer<typeof PushSubscriptionSchema>
+// Public half of the VAPID key pair; the private key only lives on the server
+export const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || ''
 
 export class PushNotificationManager {
   private static instance: PushNotificationManager
@@ -264,70 +229,3 @@ export class PushNotificationManager {
     return window.btoa(binary)
   }
 }
-
-// Utility functions for notification templates
-export function createServiceReminderNotification(serviceName: string, serviceTime: string, churchName: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.SERVICE_REMINDER,
-    title: `${serviceName} Service Reminder`,
-    body: `${serviceName} service starts in 30 minutes at ${churchName}`,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/checkin'
-  }
-}
-
-export function createEventAnnouncementNotification(eventName: string, eventDate: string, churchName: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.EVENT_ANNOUNCEMENT,
-    title: `New Event: ${eventName}`,
-    body: `Join us for ${eventName} on ${eventDate} at ${churchName}`,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/events'
-  }
-}
-
-export function createLifeGroupUpdateNotification(groupName: string, message: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.LIFEGROUP_UPDATE,
-    title: `${groupName} Update`,
-    body: message,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/lifegroups'
-  }
-}
-
-export function createPathwayMilestoneNotification(pathwayName: string, milestone: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.PATHWAY_MILESTONE,
-    title: `Pathway Milestone Achieved!`,
-    body: `Congratulations! You've completed ${milestone} in ${pathwayName}`,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/pathways'
-  }
-}
-
-export function createAdminAlertNotification(title: string, message: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.ADMIN_ALERT,
-    title,
-    body: message,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/admin'
-  }
-}
-
-export function createUrgentAnnouncementNotification(title: string, message: string): Partial<NotificationPayload> {
-  return {
-    type: NotificationType.URGENT_ANNOUNCEMENT,
-    title: `🚨 ${title}`,
-    body: message,
-    icon: '/icon-192x192.png',
-    badge: '/icon-192x192.png',
-    url: '/'
-  }
-}
\ No newline at end of file
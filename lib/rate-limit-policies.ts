@@ -126,6 +126,11 @@ export const endpointPolicies: Map<string, EndpointPolicy> = new Map([
     limiter: limiters.export,
     keyStrategy: 'ip' 
   }],
+  ['/api/export/*:GET', { 
+    method: ['GET'], 
+    limiter: limiters.export,
+    keyStrategy: 'ip' 
+  }],
 ])
 
 // Get the appropriate policy for a given endpoint
@@ -187,6 +187,12 @@ export const rateLimiters = {
   export: rateLimiter({
     requests: 10,
     window: '1h'
+  }),
+
+  // Kiosk exit PIN attempts
+  kioskPin: rateLimiter({
+    requests: 5,
+    window: '15m'
   })
 }
 
@@ -23,6 +23,7 @@ export type CurrentUser = {
   role: UserRole;
   tenantId: string | null;
   emailVerified?: Date | null;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
   memberships: Array<{
@@ -10,9 +10,10 @@
 
 import { getSession } from 'next-auth/react'
 import { io, Socket } from 'socket.io-client'
+import type { RealtimeEventType } from './events'
 
 export interface RealtimeEvent {
-  type: 'attendance.created' | 'attendance.updated' | 'event.created' | 'event.updated' | 'member.updated' | 'announcement.published'
+  type: RealtimeEventType
   tenantId: string
   data: Record<string, unknown>
   timestamp: number
@@ -59,7 +60,9 @@ export class RealtimeClient {
 
   constructor(config: RealtimeClientConfig = {}) {
     this.config = {
-      url: process.env.NEXT_PUBLIC_REALTIME_URL || 'ws://localhost:3001',
+      // server.js serves Socket.IO and the SSE fallback from the app's own origin
+      url: process.env.NEXT_PUBLIC_REALTIME_URL ||
+        (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000'),
       enableSSEFallback: true,
       maxRetries: 5,
       retryDelay: 1000,
@@ -0,0 +1,59 @@
+/**
+ * Realtime event contract shared by the Socket.IO server, the SSE fallback
+ * and RealtimeClient. Payloads stay small: clients refetch details they need.
+ */
+
+import type { AnnouncementPriority, AnnouncementScope, RsvpStatus } from '@prisma/client'
+
+export type RealtimeEventPayloads = {
+  'attendance.created': {
+    id: string
+    serviceId: string
+    memberId: string
+    checkedInAt: string
+    count: number
+  }
+  'attendance.updated': {
+    id: string
+    serviceId: string
+    memberId: string
+  }
+  'event.created': {
+    id: string
+    name: string
+    startDateTime: string
+  }
+  'event.updated': {
+    id: string
+    rsvpId: string
+    userId: string
+    status: RsvpStatus
+    reason: 'rsvp' | 'waitlist_promotion' | 'payment_expired' | 'refunded'
+  }
+  'member.updated': {
+    id: string
+  }
+  'announcement.published': {
+    id: string
+    title: string
+    scope: AnnouncementScope
+    priority: AnnouncementPriority
+    publishedAt: string
+  }
+}
+
+export type RealtimeEventType = keyof RealtimeEventPayloads
+
+export interface RealtimeEventEnvelope<T extends RealtimeEventType = RealtimeEventType> {
+  type: T
+  /** Local church the event belongs to; null for events shared by every church */
+  tenantId: string | null
+  data: RealtimeEventPayloads[T]
+  timestamp: number
+  eventId: string
+}
+
+/** Socket.IO room holding every connection for a tenant */
+export function tenantRoom(tenantId: string): string {
+  return `tenant:${tenantId}`
+}
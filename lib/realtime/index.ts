@@ -7,6 +7,7 @@
 
 export { RealtimeClient, getRealtimeClient } from './client'
 export type { RealtimeEvent, RealtimeMetrics, RealtimeClientConfig } from './client'
+export type { RealtimeEventType, RealtimeEventPayloads } from './events'
 
 export {
   useRealtimeSubscriptions,
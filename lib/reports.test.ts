@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { UserRole } from '@prisma/client'
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    localChurch: { findMany: vi.fn() },
+    service: { findMany: vi.fn() },
+    checkin: { groupBy: vi.fn() },
+    membership: { count: vi.fn(), findMany: vi.fn() },
+    event: { findMany: vi.fn() },
+    lifeGroup: { findMany: vi.fn() },
+    pathway: { findMany: vi.fn() },
+    pathwayProgress: { groupBy: vi.fn() }
+  }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  parseReportFilters,
+  getServiceAttendanceReport,
+  getMemberGrowthReport,
+  getEventFillReport,
+  getLifeGroupLineageReport,
+  getPathwayFunnelReport,
+  buildReportCsv
+} from './reports'
+
+const db = prisma as any
+const admin = { role: UserRole.ADMIN, tenantId: 'church-a' }
+const filters = parseReportFilters({ from: '2026-01-01', to: '2026-03-31' }, admin)
+
+describe('Reports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('parseReportFilters', () => {
+    it('should default to the last 90 days', () => {
+      const { from, to } = parseReportFilters({}, admin)
+      const days = Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000))
+      expect(days).toBe(91)
+    })
+
+    it('should only honor the church filter for super admins', () => {
+      expect(parseReportFilters({ churchId: 'church-b' }, admin).churchId).toBeUndefined()
+      expect(parseReportFilters({ churchId: 'church-b' }, { role: UserRole.SUPER_ADMIN }).churchId).toBe('church-b')
+    })
+
+    it('should ignore invalid dates and reversed ranges', () => {
+      const result = parseReportFilters({ from: '2026-05-01', to: '2026-04-01' }, admin)
+      expect(result.from <= result.to).toBe(true)
+      expect(parseReportFilters({ from: 'garbage' }, admin).from).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('getServiceAttendanceReport', () => {
+    it('should scope services to the admin church and split first-time from returning', async () => {
+      const firstVisit = new Date('2026-02-01T09:00:00Z')
+      const repeatVisit = new Date('2026-02-01T09:05:00Z')
+      db.service.findMany.mockResolvedValue([
+        {
+          id: 'svc1',
+          date: new Date('2026-02-01'),
+          localChurch: { name: 'Church A' },
+          checkins: [
+            { userId: 'new-user', checkedInAt: firstVisit },
+            { userId: 'regular', checkedInAt: repeatVisit }
+          ]
+        }
+      ])
+      db.checkin.groupBy.mockResolvedValue([
+        { userId: 'new-user', _min: { checkedInAt: firstVisit } },
+        { userId: 'regular', _min: { checkedInAt: new Date('2025-06-01') } }
+      ])
+
+      const rows = await getServiceAttendanceReport(admin, filters)
+
+      expect(db.service.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ localChurchId: 'church-a' })
+      }))
+      expect(rows).toEqual([
+        expect.objectContaining({ serviceId: 'svc1', total: 2, firstTime: 1, returning: 1 })
+      ])
+    })
+  })
+
+  describe('getMemberGrowthReport', () => {
+    it('should bucket joins and departures by month on top of the starting count', async () => {
+      db.membership.count.mockResolvedValue(10)
+      db.membership.findMany.mockResolvedValue([
+        { joinedAt: new Date('2026-01-15'), leftAt: null },
+        { joinedAt: new Date('2026-02-10'), leftAt: null },
+        { joinedAt: new Date('2025-05-01'), leftAt: new Date('2026-03-20') }
+      ])
+
+      const rows = await getMemberGrowthReport(admin, filters)
+
+      expect(rows).toEqual([
+        { month: '2026-01', joined: 1, left: 0, activeAtMonthEnd: 11 },
+        { month: '2026-02', joined: 1, left: 0, activeAtMonthEnd: 12 },
+        { month: '2026-03', joined: 0, left: 1, activeAtMonthEnd: 11 }
+      ])
+    })
+  })
+
+  describe('getEventFillReport', () => {
+    it('should compute fill rate from GOING RSVPs', async () => {
+      db.event.findMany.mockResolvedValue([
+        {
+          id: 'evt1',
+          name: 'Retreat',
+          startDateTime: new Date('2026-03-01'),
+          capacity: 4,
+          rsvps: [{ status: 'GOING' }, { status: 'GOING' }, { status: 'WAITLIST' }, { status: 'CANCELLED' }]
+        }
+      ])
+
+      const [row] = await getEventFillReport(admin, filters)
+
+      expect(row).toEqual(expect.objectContaining({ going: 2, waitlisted: 1, fillRate: 50 }))
+    })
+  })
+
+  describe('getLifeGroupLineageReport', () => {
+    it('should nest multiplied groups under the group they came from', async () => {
+      const group = (id: string, parentId: string | null, members: number) => ({
+        id,
+        name: id,
+        parentId,
+        isActive: true,
+        multipliedAt: parentId ? new Date('2026-02-01') : null,
+        leader: { name: `Leader of ${id}`, email: `${id}@test.com` },
+        _count: { memberships: members }
+      })
+      db.lifeGroup.findMany.mockResolvedValue([
+        group('Alpha', null, 8),
+        group('Alpha 2', 'Alpha', 6),
+        group('Alpha 2b', 'Alpha 2', 4),
+        group('Beta', null, 10),
+        // Parent in another church
+        group('Gamma', 'elsewhere', 5)
+      ])
+
+      const roots = await getLifeGroupLineageReport(admin, filters)
+
+      expect(roots.map(root => [root.name, root.descendants])).toEqual([['Alpha', 2], ['Beta', 0], ['Gamma', 0]])
+      expect(roots[0].children[0].name).toBe('Alpha 2')
+      expect(roots[0].children[0].children[0]).toEqual(expect.objectContaining({ name: 'Alpha 2b', generation: 3 }))
+
+      const csv = await buildReportCsv('lineage', admin, filters)
+      expect(csv.split('\n')[3]).toBe('"Alpha 2b","Alpha 2","3","Leader of Alpha 2b","4","2026-02-01","0","Active"')
+    })
+  })
+
+  describe('getPathwayFunnelReport', () => {
+    it('should count step completions among people enrolled in the range', async () => {
+      db.pathway.findMany.mockResolvedValue([
+        {
+          id: 'roots',
+          name: 'ROOTS',
+          steps: [
+            { id: 's1', name: 'Welcome', orderIndex: 1 },
+            { id: 's2', name: 'Baptism', orderIndex: 2 }
+          ],
+          enrollments: [
+            { userId: 'u1', status: 'COMPLETED' },
+            { userId: 'u2', status: 'ENROLLED' }
+          ]
+        }
+      ])
+      db.pathwayProgress.groupBy.mockResolvedValue([
+        { stepId: 's1', _count: { _all: 2 } },
+        { stepId: 's2', _count: { _all: 1 } }
+      ])
+
+      const [row] = await getPathwayFunnelReport(admin, filters)
+
+      expect(db.pathway.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ tenantId: 'church-a' })
+      }))
+      expect(row.enrolled).toBe(2)
+      expect(row.completed).toBe(1)
+      expect(row.steps.map(s => s.completed)).toEqual([2, 1])
+    })
+  })
+
+  describe('buildReportCsv', () => {
+    it('should escape quotes in CSV cells', async () => {
+      db.event.findMany.mockResolvedValue([
+        { id: 'evt1', name: 'Youth "Night"', startDateTime: new Date('2026-03-01T18:00:00'), capacity: 0, rsvps: [] }
+      ])
+
+      const csv = await buildReportCsv('events', admin, filters)
+
+      expect(csv.split('\n')[0]).toBe('Event,Start,Capacity,Going,Waitlisted,Fill Rate (%)')
+      expect(csv).toContain('"Youth ""Night"""')
+    })
+  })
+})
@@ -0,0 +1,521 @@
+import { EventScope, EnrollmentStatus, MembershipStatus, RsvpStatus, UserRole } from '@prisma/client'
+import {
+  eachMonthOfInterval,
+  endOfDay,
+  endOfMonth,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  subDays
+} from 'date-fns'
+import { prisma } from './prisma'
+import { createTenantWhereClause } from './rbac'
+
+/**
+ * Reports & Analytics data for /admin/reports and the CSV export.
+ * Every query goes through createTenantWhereClause so admins only ever see
+ * their own church; super admins may narrow to a single local church.
+ */
+
+export const DEFAULT_REPORT_RANGE_DAYS = 90
+
+export const REPORT_TYPES = ['attendance', 'growth', 'lifegroups', 'lineage', 'events', 'pathways'] as const
+export type ReportType = (typeof REPORT_TYPES)[number]
+
+type ReportUser = { role: UserRole; tenantId?: string | null }
+
+export interface ReportFilters {
+  from: Date
+  to: Date
+  churchId?: string
+}
+
+export interface ServiceAttendanceRow {
+  serviceId: string
+  date: Date
+  churchName: string
+  total: number
+  firstTime: number
+  returning: number
+}
+
+export interface MemberGrowthRow {
+  month: string
+  joined: number
+  left: number
+  activeAtMonthEnd: number
+}
+
+export interface LifeGroupAttendanceRow {
+  lifeGroupId: string
+  name: string
+  churchName: string
+  activeMembers: number
+  sessions: number
+  presentCount: number
+  attendanceRate: number
+}
+
+export interface EventFillRow {
+  eventId: string
+  name: string
+  startDateTime: Date
+  capacity: number
+  going: number
+  waitlisted: number
+  fillRate: number
+}
+
+export interface PathwayFunnelRow {
+  pathwayId: string
+  name: string
+  enrolled: number
+  completed: number
+  steps: { stepId: string; name: string; orderIndex: number; completed: number }[]
+}
+
+export interface LifeGroupLineageNode {
+  lifeGroupId: string
+  name: string
+  leaderName: string
+  activeMembers: number
+  isActive: boolean
+  multipliedAt: Date | null
+  generation: number
+  /** Groups multiplied from this one, at any depth */
+  descendants: number
+  children: LifeGroupLineageNode[]
+}
+
+export interface ReportSummary {
+  activeMembers: number
+  checkinsInRange: number
+  upcomingEvents: number
+  activeLifeGroups: number
+}
+
+/**
+ * Builds report filters from query parameters. Dates are yyyy-mm-dd and
+ * default to the last 90 days; the church filter is ignored unless the
+ * viewer is a super admin.
+ */
+export function parseReportFilters(
+  params: { from?: string | null; to?: string | null; churchId?: string | null },
+  user: ReportUser
+): ReportFilters {
+  const parsedTo = params.to ? parseISO(params.to) : null
+  const to = endOfDay(parsedTo && isValid(parsedTo) ? parsedTo : new Date())
+
+  const parsedFrom = params.from ? parseISO(params.from) : null
+  let from = startOfDay(parsedFrom && isValid(parsedFrom) ? parsedFrom : subDays(to, DEFAULT_REPORT_RANGE_DAYS))
+  if (from > to) {
+    from = startOfDay(to)
+  }
+
+  const churchId = user.role === UserRole.SUPER_ADMIN && params.churchId ? params.churchId : undefined
+
+  return { from, to, churchId }
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : 0
+}
+
+export async function getServiceAttendanceReport(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<ServiceAttendanceRow[]> {
+  const serviceWhere = await createTenantWhereClause(
+    user,
+    { date: { gte: from, lte: to } },
+    churchId,
+    'localChurchId'
+  )
+
+  const services = await prisma.service.findMany({
+    where: serviceWhere,
+    select: {
+      id: true,
+      date: true,
+      localChurch: { select: { name: true } },
+      checkins: { select: { userId: true, checkedInAt: true } }
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  const userIds = [...new Set(services.flatMap(service => service.checkins.map(c => c.userId)))]
+  if (userIds.length === 0) {
+    return services.map(service => ({
+      serviceId: service.id,
+      date: service.date,
+      churchName: service.localChurch.name,
+      total: 0,
+      firstTime: 0,
+      returning: 0
+    }))
+  }
+
+  // A check-in is first-time when it is the person's earliest check-in in scope
+  const scopeWhere = await createTenantWhereClause(user, {}, churchId, 'localChurchId')
+  const firstCheckins = await prisma.checkin.groupBy({
+    by: ['userId'],
+    where: { userId: { in: userIds }, service: scopeWhere },
+    _min: { checkedInAt: true }
+  })
+  const firstCheckinAt = new Map(
+    firstCheckins.map(row => [row.userId, row._min.checkedInAt?.getTime()])
+  )
+
+  return services.map(service => {
+    const firstTime = service.checkins.filter(
+      c => firstCheckinAt.get(c.userId) === c.checkedInAt.getTime()
+    ).length
+
+    return {
+      serviceId: service.id,
+      date: service.date,
+      churchName: service.localChurch.name,
+      total: service.checkins.length,
+      firstTime,
+      returning: service.checkins.length - firstTime
+    }
+  })
+}
+
+export async function getMemberGrowthReport(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<MemberGrowthRow[]> {
+  const membershipWhere = await createTenantWhereClause(user, {}, churchId, 'localChurchId')
+
+  const [activeAtStart, memberships] = await Promise.all([
+    prisma.membership.count({
+      where: {
+        ...membershipWhere,
+        joinedAt: { lt: from },
+        OR: [{ leftAt: null }, { leftAt: { gte: from } }]
+      }
+    }),
+    prisma.membership.findMany({
+      where: {
+        ...membershipWhere,
+        OR: [
+          { joinedAt: { gte: from, lte: to } },
+          { leftAt: { gte: from, lte: to } }
+        ]
+      },
+      select: { joinedAt: true, leftAt: true }
+    })
+  ])
+
+  let active = activeAtStart
+  return eachMonthOfInterval({ start: from, end: to }).map(monthStart => {
+    const monthEnd = endOfMonth(monthStart)
+    const inMonth = (date: Date | null) => !!date && date >= monthStart && date <= monthEnd && date >= from && date <= to
+
+    const joined = memberships.filter(m => inMonth(m.joinedAt)).length
+    const left = memberships.filter(m => inMonth(m.leftAt)).length
+    active += joined - left
+
+    return {
+      month: format(monthStart, 'yyyy-MM'),
+      joined,
+      left,
+      activeAtMonthEnd: active
+    }
+  })
+}
+
+export async function getLifeGroupAttendanceReport(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<LifeGroupAttendanceRow[]> {
+  const lifeGroupWhere = await createTenantWhereClause(user, { isActive: true }, churchId, 'localChurchId')
+
+  const lifeGroups = await prisma.lifeGroup.findMany({
+    where: lifeGroupWhere,
+    select: {
+      id: true,
+      name: true,
+      localChurch: { select: { name: true } },
+      _count: {
+        select: { memberships: { where: { status: MembershipStatus.ACTIVE } } }
+      },
+      attendanceSessions: {
+        where: { date: { gte: from, lte: to } },
+        select: {
+          _count: { select: { attendances: { where: { present: true } } } }
+        }
+      }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  return lifeGroups.map(group => {
+    const sessions = group.attendanceSessions.length
+    const presentCount = group.attendanceSessions.reduce((sum, s) => sum + s._count.attendances, 0)
+    const activeMembers = group._count.memberships
+
+    return {
+      lifeGroupId: group.id,
+      name: group.name,
+      churchName: group.localChurch.name,
+      activeMembers,
+      sessions,
+      presentCount,
+      attendanceRate: ratio(presentCount, sessions * activeMembers)
+    }
+  })
+}
+
+/**
+ * Every group arranged by the group it multiplied from, closed groups
+ * included so the tree stays whole. Lineage is all-time, so the date range
+ * does not apply.
+ */
+export async function getLifeGroupLineageReport(
+  user: ReportUser,
+  { churchId }: ReportFilters
+): Promise<LifeGroupLineageNode[]> {
+  const lifeGroupWhere = await createTenantWhereClause(user, {}, churchId, 'localChurchId')
+
+  const lifeGroups = await prisma.lifeGroup.findMany({
+    where: lifeGroupWhere,
+    select: {
+      id: true,
+      name: true,
+      parentId: true,
+      isActive: true,
+      multipliedAt: true,
+      leader: { select: { name: true, email: true } },
+      _count: {
+        select: { memberships: { where: { status: MembershipStatus.ACTIVE } } }
+      }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  const childrenOf = new Map<string | null, typeof lifeGroups>()
+  const ids = new Set(lifeGroups.map(group => group.id))
+  for (const group of lifeGroups) {
+    // A parent outside the visible groups makes this a root
+    const parentId = group.parentId && ids.has(group.parentId) ? group.parentId : null
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), group])
+  }
+
+  const build = (group: (typeof lifeGroups)[number], generation: number): LifeGroupLineageNode => {
+    const children = (childrenOf.get(group.id) ?? []).map(child => build(child, generation + 1))
+    return {
+      lifeGroupId: group.id,
+      name: group.name,
+      leaderName: group.leader.name || group.leader.email,
+      activeMembers: group._count.memberships,
+      isActive: group.isActive,
+      multipliedAt: group.multipliedAt,
+      generation,
+      descendants: children.reduce((sum, child) => sum + 1 + child.descendants, 0),
+      children
+    }
+  }
+
+  return (childrenOf.get(null) ?? []).map(group => build(group, 1))
+}
+
+export async function getEventFillReport(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<EventFillRow[]> {
+  const eventWhere = await createTenantWhereClause(
+    user,
+    { scope: EventScope.LOCAL_CHURCH, startDateTime: { gte: from, lte: to } },
+    churchId,
+    'localChurchId'
+  )
+
+  const events = await prisma.event.findMany({
+    where: eventWhere,
+    select: {
+      id: true,
+      name: true,
+      startDateTime: true,
+      capacity: true,
+      rsvps: { select: { status: true } }
+    },
+    orderBy: { startDateTime: 'asc' }
+  })
+
+  return events.map(event => {
+    const going = event.rsvps.filter(r => r.status === RsvpStatus.GOING).length
+    const waitlisted = event.rsvps.filter(r => r.status === RsvpStatus.WAITLIST).length
+
+    return {
+      eventId: event.id,
+      name: event.name,
+      startDateTime: event.startDateTime,
+      capacity: event.capacity,
+      going,
+      waitlisted,
+      fillRate: ratio(going, event.capacity)
+    }
+  })
+}
+
+/**
+ * Funnel for people who enrolled within the range: how many reached each
+ * step, in step order, and how many completed the pathway.
+ */
+export async function getPathwayFunnelReport(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<PathwayFunnelRow[]> {
+  const pathwayWhere = await createTenantWhereClause(user, { isActive: true }, churchId, 'tenantId')
+
+  const pathways = await prisma.pathway.findMany({
+    where: pathwayWhere,
+    select: {
+      id: true,
+      name: true,
+      steps: {
+        select: { id: true, name: true, orderIndex: true },
+        orderBy: { orderIndex: 'asc' }
+      },
+      enrollments: {
+        where: { enrolledAt: { gte: from, lte: to } },
+        select: { userId: true, status: true }
+      }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  return Promise.all(pathways.map(async pathway => {
+    const enrolledUserIds = pathway.enrollments.map(e => e.userId)
+
+    const progress = enrolledUserIds.length > 0
+      ? await prisma.pathwayProgress.groupBy({
+          by: ['stepId'],
+          where: {
+            stepId: { in: pathway.steps.map(s => s.id) },
+            userId: { in: enrolledUserIds }
+          },
+          _count: { _all: true }
+        })
+      : []
+    const completedByStep = new Map(progress.map(row => [row.stepId, row._count._all]))
+
+    return {
+      pathwayId: pathway.id,
+      name: pathway.name,
+      enrolled: pathway.enrollments.length,
+      completed: pathway.enrollments.filter(e => e.status === EnrollmentStatus.COMPLETED).length,
+      steps: pathway.steps.map(step => ({
+        stepId: step.id,
+        name: step.name,
+        orderIndex: step.orderIndex,
+        completed: completedByStep.get(step.id) ?? 0
+      }))
+    }
+  }))
+}
+
+export async function getReportSummary(
+  user: ReportUser,
+  { from, to, churchId }: ReportFilters
+): Promise<ReportSummary> {
+  const [membershipWhere, checkinServiceWhere, eventWhere, lifeGroupWhere] = await Promise.all([
+    createTenantWhereClause(user, { leftAt: null }, churchId, 'localChurchId'),
+    createTenantWhereClause(user, { date: { gte: from, lte: to } }, churchId, 'localChurchId'),
+    createTenantWhereClause(
+      user,
+      { isActive: true, scope: EventScope.LOCAL_CHURCH, startDateTime: { gte: new Date() } },
+      churchId,
+      'localChurchId'
+    ),
+    createTenantWhereClause(user, { isActive: true }, churchId, 'localChurchId')
+  ])
+
+  const [activeMembers, checkinsInRange, upcomingEvents, activeLifeGroups] = await Promise.all([
+    prisma.membership.count({ where: membershipWhere }),
+    prisma.checkin.count({ where: { service: checkinServiceWhere } }),
+    prisma.event.count({ where: eventWhere }),
+    prisma.lifeGroup.count({ where: lifeGroupWhere })
+  ])
+
+  return { activeMembers, checkinsInRange, upcomingEvents, activeLifeGroups }
+}
+
+export function toCsv(headers: string[], rows: (string | number)[][]): string {
+  const escape = (cell: string | number) => `"${String(cell).replace(/"/g, '""')}"`
+  return [headers.join(','), ...rows.map(row => row.map(escape).join(','))].join('\n')
+}
+
+/**
+ * Renders a single report as CSV for /api/export/reports.
+ */
+export async function buildReportCsv(
+  report: ReportType,
+  user: ReportUser,
+  filters: ReportFilters
+): Promise<string> {
+  switch (report) {
+    case 'attendance': {
+      const rows = await getServiceAttendanceReport(user, filters)
+      return toCsv(
+        ['Service Date', 'Church', 'Total Check-ins', 'First-time', 'Returning'],
+        rows.map(r => [format(r.date, 'yyyy-MM-dd'), r.churchName, r.total, r.firstTime, r.returning])
+      )
+    }
+    case 'growth': {
+      const rows = await getMemberGrowthReport(user, filters)
+      return toCsv(
+        ['Month', 'Joined', 'Left', 'Active at Month End'],
+        rows.map(r => [r.month, r.joined, r.left, r.activeAtMonthEnd])
+      )
+    }
+    case 'lifegroups': {
+      const rows = await getLifeGroupAttendanceReport(user, filters)
+      return toCsv(
+        ['LifeGroup', 'Church', 'Active Members', 'Sessions', 'Present', 'Attendance Rate (%)'],
+        rows.map(r => [r.name, r.churchName, r.activeMembers, r.sessions, r.presentCount, r.attendanceRate])
+      )
+    }
+    case 'lineage': {
+      const flatten = (node: LifeGroupLineageNode, parentName: string): (string | number)[][] => [
+        [
+          node.name,
+          parentName,
+          node.generation,
+          node.leaderName,
+          node.activeMembers,
+          node.multipliedAt ? format(node.multipliedAt, 'yyyy-MM-dd') : '',
+          node.descendants,
+          node.isActive ? 'Active' : 'Inactive'
+        ],
+        ...node.children.flatMap(child => flatten(child, node.name))
+      ]
+      const roots = await getLifeGroupLineageReport(user, filters)
+      return toCsv(
+        ['LifeGroup', 'Multiplied From', 'Generation', 'Leader', 'Active Members', 'Multiplied On', 'Descendants', 'Status'],
+        roots.flatMap(root => flatten(root, ''))
+      )
+    }
+    case 'events': {
+      const rows = await getEventFillReport(user, filters)
+      return toCsv(
+        ['Event', 'Start', 'Capacity', 'Going', 'Waitlisted', 'Fill Rate (%)'],
+        rows.map(r => [r.name, format(r.startDateTime, 'yyyy-MM-dd HH:mm'), r.capacity, r.going, r.waitlisted, r.fillRate])
+      )
+    }
+    case 'pathways': {
+      const rows = await getPathwayFunnelReport(user, filters)
+      return toCsv(
+        ['Pathway', 'Stage', 'People'],
+        rows.flatMap(r => [
+          [r.name, 'Enrolled', r.enrolled],
+          ...r.steps.map(step => [r.name, `Step ${step.orderIndex}: ${step.name}`, step.completed]),
+          [r.name, 'Completed', r.completed]
+        ])
+      )
+    }
+  }
+}
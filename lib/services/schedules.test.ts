@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    serviceSchedule: {
+      findUnique: vi.fn()
+    },
+    service: {
+      findMany: vi.fn(),
+      createMany: vi.fn()
+    }
+  }
+}))
+
+// Import functions after mocks
+import { prisma } from '@/lib/prisma'
+import {
+  findCurrentService,
+  getScheduleOccurrences,
+  getServiceEnd,
+  isServiceOpen,
+  materializeSchedule,
+  parseScheduleDate
+} from './schedules'
+
+const db = prisma as any
+
+const sundayAndWednesday = {
+  daysOfWeek: [0, 3],
+  startTime: '09:00',
+  timeZone: 'Asia/Manila',
+  startsOn: parseScheduleDate('2026-10-01'),
+  endsOn: null
+}
+
+describe('getScheduleOccurrences', () => {
+  it('should produce local start times on the selected weekdays', () => {
+    const occurrences = getScheduleOccurrences(
+      sundayAndWednesday,
+      new Date('2026-10-18T00:00:00Z'),
+      new Date('2026-10-26T00:00:00Z')
+    )
+
+    // 09:00 in Manila (UTC+8) is 01:00 UTC
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-10-18T01:00:00.000Z',
+      '2026-10-21T01:00:00.000Z',
+      '2026-10-25T01:00:00.000Z'
+    ])
+  })
+
+  it('should respect the start and end dates', () => {
+    const occurrences = getScheduleOccurrences(
+      { ...sundayAndWednesday, startsOn: parseScheduleDate('2026-10-20'), endsOn: parseScheduleDate('2026-10-25') },
+      new Date('2026-10-01T00:00:00Z'),
+      new Date('2026-11-30T00:00:00Z')
+    )
+
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-10-21T01:00:00.000Z',
+      '2026-10-25T01:00:00.000Z'
+    ])
+  })
+
+  it('should keep wall-clock time across daylight saving changes', () => {
+    const occurrences = getScheduleOccurrences(
+      { ...sundayAndWednesday, daysOfWeek: [0], startTime: '10:30', timeZone: 'America/New_York' },
+      new Date('2026-10-25T00:00:00Z'),
+      new Date('2026-11-09T00:00:00Z')
+    )
+
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-10-25T14:30:00.000Z', // EDT, UTC-4
+      '2026-11-01T15:30:00.000Z', // EST, UTC-5
+      '2026-11-08T15:30:00.000Z'
+    ])
+  })
+})
+
+describe('materializeSchedule', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should create missing occurrences and skip ones that already exist', async () => {
+    db.serviceSchedule.findUnique.mockResolvedValue({
+      id: 'schedule1',
+      name: 'Sunday Celebration',
+      localChurchId: 'church1',
+      durationMinutes: 90,
+      isActive: true,
+      ...sundayAndWednesday,
+      daysOfWeek: [0]
+    })
+    db.service.createMany.mockResolvedValue({ count: 1 })
+
+    const created = await materializeSchedule('schedule1', new Date('2026-10-18T00:00:00Z'), 14)
+
+    expect(created).toBe(1)
+    expect(db.service.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          name: 'Sunday Celebration',
+          date: new Date('2026-10-18T01:00:00Z'),
+          endsAt: new Date('2026-10-18T02:30:00Z'),
+          localChurchId: 'church1',
+          scheduleId: 'schedule1'
+        },
+        {
+          name: 'Sunday Celebration',
+          date: new Date('2026-10-25T01:00:00Z'),
+          endsAt: new Date('2026-10-25T02:30:00Z'),
+          localChurchId: 'church1',
+          scheduleId: 'schedule1'
+        }
+      ],
+      skipDuplicates: true
+    })
+  })
+
+  it('should not materialize paused schedules', async () => {
+    db.serviceSchedule.findUnique.mockResolvedValue({ id: 'schedule1', isActive: false })
+
+    expect(await materializeSchedule('schedule1')).toBe(0)
+    expect(db.service.createMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('findCurrentService', () => {
+  const now = new Date('2026-10-18T03:30:00Z')
+  const morning = { id: 'morning', date: new Date('2026-10-18T01:00:00Z'), endsAt: new Date('2026-10-18T03:00:00Z') }
+  const midday = { id: 'midday', date: new Date('2026-10-18T04:00:00Z'), endsAt: new Date('2026-10-18T06:00:00Z') }
+  const evening = { id: 'evening', date: new Date('2026-10-18T10:00:00Z'), endsAt: null }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should pick the service whose check-in window is open', async () => {
+    db.service.findMany.mockResolvedValue([morning, midday, evening])
+
+    const service = await findCurrentService({ localChurchId: 'church1' }, {}, now)
+
+    expect(service?.id).toBe('midday')
+    expect(db.service.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { AND: [{ localChurchId: 'church1' }, expect.any(Object)] },
+      orderBy: { date: 'asc' }
+    }))
+  })
+
+  it('should keep a legacy date-only service open for the whole day', async () => {
+    // Midnight in Manila, stored before services had an end time
+    const legacy = { id: 'legacy', date: new Date('2026-10-17T16:00:00Z'), endsAt: null }
+    db.service.findMany.mockResolvedValue([legacy])
+
+    const service = await findCurrentService({ localChurchId: 'church1' }, {}, new Date('2026-10-18T02:00:00Z'))
+
+    expect(service?.id).toBe('legacy')
+    expect(getServiceEnd(legacy)).toEqual(new Date('2026-10-18T16:00:00Z'))
+    expect(isServiceOpen(legacy, new Date('2026-10-17T15:30:00Z'))).toBe(false)
+  })
+
+  it('should treat a date parsed as UTC midnight as that day in the church time zone', () => {
+    const legacy = { date: new Date('2026-10-18T00:00:00Z'), endsAt: null }
+
+    expect(isServiceOpen(legacy, new Date('2026-10-18T02:00:00Z'))).toBe(true)
+    expect(isServiceOpen(legacy, new Date('2026-10-18T12:00:00Z'))).toBe(true)
+    expect(isServiceOpen(legacy, new Date('2026-10-18T16:00:00Z'))).toBe(false)
+  })
+
+  it('should fall back to the next upcoming service when none is open', async () => {
+    db.service.findMany.mockResolvedValue([morning, evening])
+
+    const service = await findCurrentService({ localChurchId: 'church1' }, {}, now)
+
+    expect(service?.id).toBe('evening')
+  })
+})
@@ -0,0 +1,275 @@
+import { Prisma } from '@prisma/client'
+import { addDays, addHours, addMinutes } from 'date-fns'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+
+export const DEFAULT_SERVICE_TIME_ZONE = 'Asia/Manila'
+export const DEFAULT_SERVICE_DURATION_MINUTES = 120
+/** How far ahead schedules are materialized into Service rows */
+export const SCHEDULE_HORIZON_DAYS = 56
+/** Check-in opens this long before a service starts */
+export const CHECKIN_OPENS_MINUTES_BEFORE = 60
+/** How far ahead to look for the next service when none is open */
+export const UPCOMING_SERVICE_LOOKAHEAD_HOURS = 12
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const serviceScheduleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  localChurchId: z.string().min(1),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day'),
+  startTime: z.string().regex(START_TIME_PATTERN, 'Start time must be HH:mm'),
+  durationMinutes: z.number().int().min(15).max(720).default(DEFAULT_SERVICE_DURATION_MINUTES),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').default(DEFAULT_SERVICE_TIME_ZONE),
+  startsOn: z.string().regex(DATE_ONLY_PATTERN, 'Start date must be YYYY-MM-DD'),
+  endsOn: z.string().regex(DATE_ONLY_PATTERN, 'End date must be YYYY-MM-DD').nullish(),
+  isActive: z.boolean().default(true)
+}).refine(
+  (schedule) => !schedule.endsOn || schedule.endsOn >= schedule.startsOn,
+  { message: 'End date must be on or after the start date', path: ['endsOn'] }
+)
+
+export type ServiceScheduleInput = z.infer<typeof serviceScheduleSchema>
+
+export interface ScheduleRule {
+  daysOfWeek: number[]
+  startTime: string
+  timeZone: string
+  startsOn: Date
+  endsOn: Date | null
+}
+
+/** Stores a YYYY-MM-DD calendar date as midnight UTC so it round-trips unchanged */
+export function parseScheduleDate(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`)
+}
+
+export function formatScheduleDate(value: Date): string {
+  return value.toISOString().slice(0, 10)
+}
+
+/** Wall-clock parts of an instant in the given time zone */
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  }
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/** Converts a wall-clock time in the given time zone to the matching instant */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute)
+  const offset = getTimeZoneOffsetMs(new Date(guess), timeZone)
+  const result = guess - offset
+  // Re-check across DST transitions, where the offset at the result differs
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone)
+  return new Date(correctedOffset === offset ? result : guess - correctedOffset)
+}
+
+/**
+ * Lists the start instants a schedule produces between `from` and `until`,
+ * walking calendar days in the schedule's own time zone so a 9:00 Sunday
+ * service stays at 9:00 local time regardless of where the server runs.
+ */
+export function getScheduleOccurrences(rule: ScheduleRule, from: Date, until: Date): Date[] {
+  const [hour, minute] = rule.startTime.split(':').map(Number)
+  const firstDay = getZonedParts(from, rule.timeZone)
+  const startsOn = formatScheduleDate(rule.startsOn)
+  const endsOn = rule.endsOn ? formatScheduleDate(rule.endsOn) : null
+  const occurrences: Date[] = []
+
+  for (let offset = 0; ; offset++) {
+    const day = new Date(Date.UTC(firstDay.year, firstDay.month - 1, firstDay.day + offset))
+    const dayKey = formatScheduleDate(day)
+    if (endsOn && dayKey > endsOn) break
+
+    const occurrence = zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      hour,
+      minute,
+      rule.timeZone
+    )
+    if (occurrence > until) break
+
+    if (
+      rule.daysOfWeek.includes(day.getUTCDay()) &&
+      dayKey >= startsOn &&
+      occurrence >= from
+    ) {
+      occurrences.push(occurrence)
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Creates the Service rows a schedule owes up to the horizon. Existing
+ * occurrences are left alone, so this is safe to run repeatedly.
+ */
+export async function materializeSchedule(
+  scheduleId: string,
+  now: Date = new Date(),
+  horizonDays: number = SCHEDULE_HORIZON_DAYS
+): Promise<number> {
+  const schedule = await prisma.serviceSchedule.findUnique({ where: { id: scheduleId } })
+  if (!schedule || !schedule.isActive) return 0
+
+  const occurrences = getScheduleOccurrences(schedule, now, addDays(now, horizonDays))
+  if (occurrences.length === 0) return 0
+
+  const result = await prisma.service.createMany({
+    data: occurrences.map((date) => ({
+      name: schedule.name,
+      date,
+      endsAt: addMinutes(date, schedule.durationMinutes),
+      localChurchId: schedule.localChurchId,
+      scheduleId: schedule.id
+    })),
+    skipDuplicates: true
+  })
+
+  return result.count
+}
+
+/**
+ * Removes upcoming occurrences nobody has checked in to yet, so an edited or
+ * deleted schedule does not leave stale services behind. Past services and
+ * anything with attendance are kept for reporting.
+ */
+export async function clearUpcomingOccurrences(scheduleId: string, now: Date = new Date()): Promise<number> {
+  const result = await prisma.service.deleteMany({
+    where: {
+      scheduleId,
+      date: { gt: now },
+      checkins: { none: {} }
+    }
+  })
+  return result.count
+}
+
+export async function materializeAllSchedules(now: Date = new Date()) {
+  const schedules = await prisma.serviceSchedule.findMany({
+    where: {
+      isActive: true,
+      OR: [{ endsOn: null }, { endsOn: { gte: addDays(now, -1) } }]
+    },
+    select: { id: true }
+  })
+
+  let created = 0
+  for (const schedule of schedules) {
+    created += await materializeSchedule(schedule.id, now)
+  }
+
+  return { schedules: schedules.length, created }
+}
+
+/**
+ * The local day of a date-only service. Services from before schedules, and
+ * one-off services created without a time, are stored at midnight with no
+ * end: midnight in the church's time zone, or in UTC when the date was
+ * parsed on the server. They stay open for that whole day.
+ */
+function getServiceDay(service: { date: Date; endsAt: Date | null }): { start: Date; end: Date } | null {
+  if (service.endsAt) {
+    return null
+  }
+
+  const local = getZonedParts(service.date, DEFAULT_SERVICE_TIME_ZONE)
+  const isLocalMidnight = local.hour === 0 && local.minute === 0 && local.second === 0
+  const isUtcMidnight = service.date.getTime() % (24 * 60 * 60 * 1000) === 0
+  if (!isLocalMidnight && !isUtcMidnight) {
+    return null
+  }
+
+  const { year, month, day } = isLocalMidnight
+    ? local
+    : { year: service.date.getUTCFullYear(), month: service.date.getUTCMonth() + 1, day: service.date.getUTCDate() }
+
+  return {
+    start: zonedTimeToUtc(year, month, day, 0, 0, DEFAULT_SERVICE_TIME_ZONE),
+    end: zonedTimeToUtc(year, month, day + 1, 0, 0, DEFAULT_SERVICE_TIME_ZONE)
+  }
+}
+
+export function getServiceEnd(service: { date: Date; endsAt: Date | null }): Date {
+  return service.endsAt ?? getServiceDay(service)?.end ?? addMinutes(service.date, DEFAULT_SERVICE_DURATION_MINUTES)
+}
+
+export function isServiceOpen(service: { date: Date; endsAt: Date | null }, now: Date = new Date()): boolean {
+  const opensAt = getServiceDay(service)?.start ?? addMinutes(service.date, -CHECKIN_OPENS_MINUTES_BEFORE)
+  return now >= opensAt && now < getServiceEnd(service)
+}
+
+/**
+ * Picks the service check-in should target right now. A service is open from
+ * shortly before it starts until it ends, and a date-only service all day;
+ * when several overlap, the one that started most recently wins. Outside any window, the next service starting
+ * within the lookahead is returned so members can see what is coming.
+ */
+export async function findCurrentService<I extends Prisma.ServiceInclude>(
+  where: Prisma.ServiceWhereInput,
+  include: I,
+  now: Date = new Date()
+): Promise<Prisma.ServiceGetPayload<{ include: I }> | null> {
+  const services = await prisma.service.findMany({
+    where: {
+      AND: [
+        where,
+        { date: { gte: addDays(now, -1), lte: addHours(now, UPCOMING_SERVICE_LOOKAHEAD_HOURS) } }
+      ]
+    },
+    include,
+    orderBy: { date: 'asc' }
+  }) as Array<Prisma.ServiceGetPayload<{ include: I }>>
+
+  const open = services.filter((service) => isServiceOpen(service, now))
+  if (open.length > 0) {
+    return open[open.length - 1]
+  }
+
+  return services.find((service) => service.date > now) ?? null
+}
@@ -0,0 +1,86 @@
+/**
+ * Authenticates realtime connections (Socket.IO handshakes and SSE requests).
+ * Mobile clients send an /api/v1 access token; web clients are identified by
+ * their NextAuth session cookie, which the browser sends with the handshake.
+ */
+
+import { UserRole } from '@prisma/client'
+import { verifyApiToken } from '@/lib/api/tokens'
+import type { ApiPrincipal } from '@/lib/api/handler'
+import { getNextAuthSecret } from '@/lib/env-utils'
+
+const SECURE_SESSION_COOKIE = '__Secure-authjs.session-token'
+
+function looksLikeJwt(token: string): boolean {
+  return token.split('.').length === 3
+}
+
+async function resolveSessionCookie(headers: Headers): Promise<ApiPrincipal | null> {
+  const secret = getNextAuthSecret()
+  if (!secret || !headers.get('cookie')) {
+    return null
+  }
+
+  const { getToken } = await import('next-auth/jwt')
+  const token = await getToken({
+    req: { headers },
+    secret,
+    secureCookie: headers.get('cookie')!.includes(SECURE_SESSION_COOKIE),
+  })
+
+  if (!token?.id || !token.role) {
+    return null
+  }
+
+  return {
+    id: token.id as string,
+    role: token.role as UserRole,
+    tenantId: (token.tenantId as string | null | undefined) ?? null,
+  }
+}
+
+/**
+ * Resolves the caller from an explicit API access token, falling back to the
+ * session cookie. Returns null when neither identifies a user.
+ */
+export async function resolveRealtimePrincipal({
+  token,
+  headers,
+}: {
+  token?: string | null
+  headers: Headers
+}): Promise<ApiPrincipal | null> {
+  if (token && looksLikeJwt(token)) {
+    try {
+      const claims = await verifyApiToken(token, 'access')
+      return { id: claims.sub, role: claims.roles[0], tenantId: claims.tenantId, token: claims }
+    } catch {
+      return null
+    }
+  }
+
+  try {
+    return await resolveSessionCookie(headers)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The tenant a connection may listen to. Members are pinned to their own
+ * church; super admins may pick any church and default to none.
+ */
+export function resolveRealtimeTenant(
+  principal: Pick<ApiPrincipal, 'role' | 'tenantId'>,
+  requestedTenantId?: string | null
+): string | null {
+  if (principal.role === UserRole.SUPER_ADMIN) {
+    return requestedTenantId || principal.tenantId
+  }
+
+  if (!principal.tenantId || (requestedTenantId && requestedTenantId !== principal.tenantId)) {
+    return null
+  }
+
+  return principal.tenantId
+}
@@ -0,0 +1,62 @@
+/**
+ * In-process fan-out for realtime events. Server actions publish here; the
+ * Socket.IO server and every open SSE stream subscribe. The emitter lives on
+ * globalThis because server.js loads this module outside the Next bundles,
+ * which would otherwise each get their own copy.
+ */
+
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { realtimeLogger } from '@/lib/logger'
+import type { RealtimeEventEnvelope, RealtimeEventPayloads, RealtimeEventType } from '@/lib/realtime/events'
+
+const CHANNEL = 'realtime-event'
+
+type RealtimeListener = (event: RealtimeEventEnvelope) => void
+
+const globalForRealtime = globalThis as unknown as { realtimeBus?: EventEmitter }
+
+function getBus(): EventEmitter {
+  if (!globalForRealtime.realtimeBus) {
+    globalForRealtime.realtimeBus = new EventEmitter()
+    // One listener per SSE stream plus the socket server
+    globalForRealtime.realtimeBus.setMaxListeners(0)
+  }
+  return globalForRealtime.realtimeBus
+}
+
+/**
+ * Publishes a typed event to connected clients of `tenantId` (or of every
+ * church when null). Never throws, so a realtime failure can't fail the
+ * action that caused it.
+ */
+export function publishRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  tenantId: string | null,
+  data: RealtimeEventPayloads[T]
+): void {
+  const event: RealtimeEventEnvelope<T> = {
+    type,
+    tenantId,
+    data,
+    timestamp: Date.now(),
+    eventId: randomUUID(),
+  }
+
+  // Deliver to each listener separately so one broken stream can't starve the rest
+  for (const listener of getBus().listeners(CHANNEL) as RealtimeListener[]) {
+    try {
+      listener(event)
+    } catch (error) {
+      realtimeLogger.error('Failed to deliver realtime event', { type, tenantId, error })
+    }
+  }
+}
+
+export function subscribeToRealtimeEvents(listener: RealtimeListener): () => void {
+  const bus = getBus()
+  bus.on(CHANNEL, listener)
+  return () => {
+    bus.off(CHANNEL, listener)
+  }
+}
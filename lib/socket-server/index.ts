@@ -0,0 +1,129 @@
+/**
+ * Socket.IO server attached to the custom HTTP server in server.js.
+ * Every connection is authenticated and joined to its church's room; events
+ * published through publishRealtimeEvent are emitted to that room as
+ * `realtime-event`, the message RealtimeClient listens for.
+ */
+
+import type { Server as HttpServer, IncomingHttpHeaders } from 'http'
+import { Server, type ServerOptions } from 'socket.io'
+import { realtimeLogger } from '@/lib/logger'
+import type { ApiPrincipal } from '@/lib/api/handler'
+import { tenantRoom, type RealtimeEventEnvelope } from '@/lib/realtime/events'
+import { resolveRealtimePrincipal, resolveRealtimeTenant } from './auth'
+import { subscribeToRealtimeEvents } from './bus'
+
+export { publishRealtimeEvent, subscribeToRealtimeEvents } from './bus'
+
+interface ClientToServerEvents {
+  ping: () => void
+}
+
+interface ServerToClientEvents {
+  'realtime-event': (event: RealtimeEventEnvelope) => void
+  pong: () => void
+}
+
+interface SocketData {
+  principal: ApiPrincipal
+  tenantId: string
+}
+
+type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>
+
+let io: RealtimeServer | null = null
+let unsubscribe: (() => void) | null = null
+
+function toHeaders(incoming: IncomingHttpHeaders): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(incoming)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item))
+    } else if (value !== undefined) {
+      headers.set(name, value)
+    }
+  }
+  return headers
+}
+
+function deliver(server: RealtimeServer, event: RealtimeEventEnvelope) {
+  if (event.tenantId) {
+    server.to(tenantRoom(event.tenantId)).emit('realtime-event', event)
+    return
+  }
+
+  // Shared events are stamped with each room's tenant so clients can keep
+  // filtering on their own church
+  for (const room of server.sockets.adapter.rooms.keys()) {
+    if (room.startsWith('tenant:')) {
+      server.to(room).emit('realtime-event', { ...event, tenantId: room.slice('tenant:'.length) })
+    }
+  }
+}
+
+export function initializeSocketServer(httpServer: HttpServer, options: Partial<ServerOptions> = {}): RealtimeServer {
+  if (io) {
+    return io
+  }
+
+  const server: RealtimeServer = new Server(httpServer, options)
+
+  server.use(async (socket, next) => {
+    const { token, tenantId: requestedTenantId } = (socket.handshake.auth ?? {}) as {
+      token?: string
+      tenantId?: string
+    }
+
+    const principal = await resolveRealtimePrincipal({
+      token,
+      headers: toHeaders(socket.handshake.headers),
+    })
+    if (!principal) {
+      return next(new Error('Unauthorized'))
+    }
+
+    const tenantId = resolveRealtimeTenant(principal, requestedTenantId)
+    if (!tenantId) {
+      return next(new Error('Forbidden'))
+    }
+
+    socket.data = { principal, tenantId }
+    next()
+  })
+
+  server.on('connection', (socket) => {
+    const { principal, tenantId } = socket.data
+    socket.join(tenantRoom(tenantId))
+
+    socket.on('ping', () => {
+      socket.emit('pong')
+    })
+
+    realtimeLogger.debug('Realtime client connected', { userId: principal.id, tenantId })
+  })
+
+  unsubscribe = subscribeToRealtimeEvents((event) => deliver(server, event))
+  io = server
+
+  realtimeLogger.info('Socket.IO server initialized')
+  return io
+}
+
+export function getConnectedClientsCount(): number {
+  return io?.engine.clientsCount ?? 0
+}
+
+export async function shutdownSocketServer(): Promise<void> {
+  unsubscribe?.()
+  unsubscribe = null
+
+  if (!io) {
+    return
+  }
+
+  const server = io
+  io = null
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve())
+  })
+}
@@ -0,0 +1,25 @@
+-- Native mobile push tokens for the /api/v1 surface
+DO $$ BEGIN
+  CREATE TYPE "DevicePlatform" AS ENUM ('IOS', 'ANDROID');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "device_tokens" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "token" TEXT NOT NULL,
+  "platform" "DevicePlatform" NOT NULL,
+  "localChurchId" TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "device_tokens_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "device_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "device_tokens_token_key" ON "device_tokens"("token");
+CREATE INDEX IF NOT EXISTS "device_tokens_userId_idx" ON "device_tokens"("userId");
+CREATE INDEX IF NOT EXISTS "device_tokens_localChurchId_idx" ON "device_tokens"("localChurchId");
+CREATE INDEX IF NOT EXISTS "device_tokens_isActive_idx" ON "device_tokens"("isActive");
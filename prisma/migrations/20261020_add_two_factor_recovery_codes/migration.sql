@@ -0,0 +1,13 @@
+-- Hashed single-use recovery codes for TOTP two-factor sign-in
+CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "codeHash" TEXT NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "two_factor_recovery_codes_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "two_factor_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "two_factor_recovery_codes_codeHash_key" ON "two_factor_recovery_codes"("codeHash");
+CREATE INDEX IF NOT EXISTS "two_factor_recovery_codes_userId_idx" ON "two_factor_recovery_codes"("userId");
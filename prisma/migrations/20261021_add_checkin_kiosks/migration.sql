@@ -0,0 +1,19 @@
+-- Lobby check-in kiosks bound to a local church, unlocked on a device by a launch token
+CREATE TABLE IF NOT EXISTS "checkin_kiosks" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "localChurchId" TEXT NOT NULL,
+  "pinHash" TEXT NOT NULL,
+  "deviceTokenHash" TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdById" TEXT NOT NULL,
+  "launchedAt" TIMESTAMP(3),
+  "lastSeenAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "checkin_kiosks_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "checkin_kiosks_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "checkin_kiosks_deviceTokenHash_key" ON "checkin_kiosks"("deviceTokenHash");
+CREATE INDEX IF NOT EXISTS "checkin_kiosks_localChurchId_idx" ON "checkin_kiosks"("localChurchId");
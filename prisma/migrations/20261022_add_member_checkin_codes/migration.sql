@@ -0,0 +1,2 @@
+-- Version counter for signed personal check-in QR codes; bumping it revokes the old code
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "checkinCodeVersion" INTEGER NOT NULL DEFAULT 0;
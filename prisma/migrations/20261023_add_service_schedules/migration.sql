@@ -0,0 +1,31 @@
+-- Recurring service schedules that materialize Service occurrences ahead of time
+CREATE TABLE IF NOT EXISTS "service_schedules" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "localChurchId" TEXT NOT NULL,
+  "daysOfWeek" INTEGER[],
+  "startTime" TEXT NOT NULL,
+  "durationMinutes" INTEGER NOT NULL DEFAULT 120,
+  "timeZone" TEXT NOT NULL DEFAULT 'Asia/Manila',
+  "startsOn" TIMESTAMP(3) NOT NULL,
+  "endsOn" TIMESTAMP(3),
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "service_schedules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "service_schedules_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "service_schedules_localChurchId_idx" ON "service_schedules"("localChurchId");
+
+-- Several services may now share a day; occurrences are unique per schedule instead
+DROP INDEX IF EXISTS "services_localChurchId_date_key";
+
+ALTER TABLE "services" ADD COLUMN IF NOT EXISTS "name" TEXT;
+ALTER TABLE "services" ADD COLUMN IF NOT EXISTS "endsAt" TIMESTAMP(3);
+ALTER TABLE "services" ADD COLUMN IF NOT EXISTS "scheduleId" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "services_scheduleId_date_key" ON "services"("scheduleId", "date");
+
+ALTER TABLE "services" DROP CONSTRAINT IF EXISTS "services_scheduleId_fkey";
+ALTER TABLE "services" ADD CONSTRAINT "services_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "service_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- Households group adults and dependents so a parent can check in the family at once
+DO $$ BEGIN
+  CREATE TYPE "HouseholdMemberRole" AS ENUM ('ADULT', 'CHILD');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "households" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "localChurchId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "households_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "households_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "households_localChurchId_idx" ON "households"("localChurchId");
+
+CREATE TABLE IF NOT EXISTS "household_members" (
+  "id" TEXT NOT NULL,
+  "householdId" TEXT NOT NULL,
+  "userId" TEXT,
+  "name" TEXT,
+  "role" "HouseholdMemberRole" NOT NULL DEFAULT 'CHILD',
+  "dateOfBirth" TIMESTAMP(3),
+  "notes" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "household_members_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "household_members_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "household_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "household_members_userId_key" ON "household_members"("userId");
+CREATE INDEX IF NOT EXISTS "household_members_householdId_idx" ON "household_members"("householdId");
+
+-- Check-ins for dependents without a login; children get a pickup code verified at pickup
+CREATE TABLE IF NOT EXISTS "household_checkins" (
+  "id" TEXT NOT NULL,
+  "serviceId" TEXT NOT NULL,
+  "householdMemberId" TEXT NOT NULL,
+  "checkedInById" TEXT NOT NULL,
+  "checkedInAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "pickupCode" TEXT,
+  "pickedUpAt" TIMESTAMP(3),
+  "pickedUpById" TEXT,
+  CONSTRAINT "household_checkins_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "household_checkins_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "household_checkins_householdMemberId_fkey" FOREIGN KEY ("householdMemberId") REFERENCES "household_members"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "household_checkins_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "household_checkins_pickedUpById_fkey" FOREIGN KEY ("pickedUpById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "household_checkins_serviceId_householdMemberId_key" ON "household_checkins"("serviceId", "householdMemberId");
+CREATE INDEX IF NOT EXISTS "household_checkins_serviceId_pickupCode_idx" ON "household_checkins"("serviceId", "pickupCode");
@@ -0,0 +1,27 @@
+-- Churches can run any number of custom pathways, so a pathway type is no longer unique per tenant
+ALTER TYPE "PathwayType" ADD VALUE IF NOT EXISTS 'CUSTOM';
+
+DROP INDEX IF EXISTS "pathways_tenantId_type_key";
+CREATE INDEX IF NOT EXISTS "pathways_tenantId_type_idx" ON "pathways"("tenantId", "type");
+
+CREATE TABLE IF NOT EXISTS "pathway_prerequisites" (
+  "id" TEXT NOT NULL,
+  "pathwayId" TEXT NOT NULL,
+  "prerequisiteId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "pathway_prerequisites_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "pathway_prerequisites_pathwayId_fkey" FOREIGN KEY ("pathwayId") REFERENCES "pathways"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "pathway_prerequisites_prerequisiteId_fkey" FOREIGN KEY ("prerequisiteId") REFERENCES "pathways"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "pathway_prerequisites_pathwayId_prerequisiteId_key" ON "pathway_prerequisites"("pathwayId", "prerequisiteId");
+CREATE INDEX IF NOT EXISTS "pathway_prerequisites_prerequisiteId_idx" ON "pathway_prerequisites"("prerequisiteId");
+
+-- Step rules: due offset from enrollment and how a step may be completed
+ALTER TABLE "pathway_steps" ADD COLUMN IF NOT EXISTS "requiresVerification" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "pathway_steps" ADD COLUMN IF NOT EXISTS "requiresUpload" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "pathway_steps" ADD COLUMN IF NOT EXISTS "dueOffsetDays" INTEGER;
+
+ALTER TABLE "pathway_progress" ADD COLUMN IF NOT EXISTS "fileName" TEXT;
+ALTER TABLE "pathway_progress" ADD COLUMN IF NOT EXISTS "fileType" TEXT;
+ALTER TABLE "pathway_progress" ADD COLUMN IF NOT EXISTS "fileData" BYTEA;
@@ -0,0 +1,37 @@
+-- Per-category notification preferences and quiet hours
+DO $$ BEGIN
+  CREATE TYPE "NotificationCategory" AS ENUM ('ANNOUNCEMENTS', 'MESSAGES', 'EVENT_REMINDERS', 'LIFEGROUP_UPDATES', 'PATHWAY_MILESTONES');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Older databases were created with db push and may not have the base table
+CREATE TABLE IF NOT EXISTS "NotificationPreference" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "email" BOOLEAN NOT NULL DEFAULT true,
+  "push" BOOLEAN NOT NULL DEFAULT true,
+  "inApp" BOOLEAN NOT NULL DEFAULT true,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "NotificationPreference_userId_key" ON "NotificationPreference"("userId");
+
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "quietHoursEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "quietHoursStart" TEXT;
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "quietHoursEnd" TEXT;
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "timeZone" TEXT NOT NULL DEFAULT 'Asia/Manila';
+
+CREATE TABLE IF NOT EXISTS "notification_category_preferences" (
+  "id" TEXT NOT NULL,
+  "preferenceId" TEXT NOT NULL,
+  "category" "NotificationCategory" NOT NULL,
+  "email" BOOLEAN NOT NULL DEFAULT true,
+  "push" BOOLEAN NOT NULL DEFAULT true,
+  "inApp" BOOLEAN NOT NULL DEFAULT true,
+  CONSTRAINT "notification_category_preferences_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "notification_category_preferences_preferenceId_fkey" FOREIGN KEY ("preferenceId") REFERENCES "NotificationPreference"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "notification_category_preferences_preferenceId_category_key" ON "notification_category_preferences"("preferenceId", "category");
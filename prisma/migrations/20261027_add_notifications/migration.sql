@@ -0,0 +1,20 @@
+-- Persistent in-app notifications backing the notification center
+CREATE TABLE IF NOT EXISTS "notifications" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "localChurchId" TEXT NOT NULL,
+  "category" "NotificationCategory" NOT NULL,
+  "title" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "url" TEXT,
+  "entity" TEXT,
+  "entityId" TEXT,
+  "readAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notifications_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "notifications_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "notifications_userId_localChurchId_createdAt_idx" ON "notifications"("userId", "localChurchId", "createdAt");
+CREATE INDEX IF NOT EXISTS "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
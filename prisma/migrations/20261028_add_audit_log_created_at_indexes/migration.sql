@@ -0,0 +1,3 @@
+-- Audit trail viewer filters by date range and church, newest first
+CREATE INDEX IF NOT EXISTS "audit_logs_localChurchId_createdAt_idx" ON "audit_logs"("localChurchId", "createdAt");
+CREATE INDEX IF NOT EXISTS "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
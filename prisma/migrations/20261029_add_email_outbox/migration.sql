@@ -0,0 +1,33 @@
+-- Persistent outbox for templated email with retries
+DO $$ BEGIN
+  CREATE TYPE "EmailStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "email_outbox" (
+  "id" TEXT NOT NULL,
+  "template" TEXT NOT NULL,
+  "locale" TEXT NOT NULL DEFAULT 'en',
+  "to" TEXT NOT NULL,
+  "userId" TEXT,
+  "localChurchId" TEXT,
+  "subject" TEXT NOT NULL,
+  "html" TEXT NOT NULL,
+  "text" TEXT NOT NULL,
+  "status" "EmailStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+  "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastError" TEXT,
+  "transport" TEXT,
+  "providerMessageId" TEXT,
+  "sentAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "email_outbox_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "email_outbox_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "email_outbox_status_nextAttemptAt_idx" ON "email_outbox"("status", "nextAttemptAt");
+CREATE INDEX IF NOT EXISTS "email_outbox_userId_idx" ON "email_outbox"("userId");
@@ -0,0 +1,31 @@
+-- Signed, expiring account invitations replacing generated temporary passwords
+DO $$ BEGIN
+  CREATE TYPE "InvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REVOKED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "invitations" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "email" TEXT NOT NULL,
+  "localChurchId" TEXT,
+  "role" "UserRole" NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "status" "InvitationStatus" NOT NULL DEFAULT 'PENDING',
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "invitedById" TEXT,
+  "sendCount" INTEGER NOT NULL DEFAULT 1,
+  "lastSentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "acceptedAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "invitations_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "invitations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "invitations_localChurchId_fkey" FOREIGN KEY ("localChurchId") REFERENCES "local_churches"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "invitations_tokenHash_key" ON "invitations"("tokenHash");
+CREATE INDEX IF NOT EXISTS "invitations_userId_status_idx" ON "invitations"("userId", "status");
+CREATE INDEX IF NOT EXISTS "invitations_localChurchId_status_idx" ON "invitations"("localChurchId", "status");
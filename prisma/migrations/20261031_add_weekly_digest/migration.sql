@@ -0,0 +1,5 @@
+-- Opt-in weekly email digest; lastDigestAt marks the week as handled so re-runs of the job don't send twice
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "weeklyDigest" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "NotificationPreference" ADD COLUMN IF NOT EXISTS "lastDigestAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "NotificationPreference_weeklyDigest_lastDigestAt_idx" ON "NotificationPreference"("weeklyDigest", "lastDigestAt");
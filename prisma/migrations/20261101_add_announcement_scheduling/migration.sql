@@ -0,0 +1,9 @@
+-- Scheduled announcements: notifiedAt records the one-time fan-out when an
+-- announcement goes live, archivedAt when the scheduler retired it on expiry
+ALTER TABLE "announcements" ADD COLUMN IF NOT EXISTS "notifiedAt" TIMESTAMP(3);
+ALTER TABLE "announcements" ADD COLUMN IF NOT EXISTS "archivedAt" TIMESTAMP(3);
+
+-- Announcements that are already live are not announced again by the scheduler
+UPDATE "announcements" SET "notifiedAt" = "publishedAt" WHERE "notifiedAt" IS NULL AND "publishedAt" <= NOW();
+
+CREATE INDEX IF NOT EXISTS "announcements_isActive_expiresAt_idx" ON "announcements"("isActive", "expiresAt");
@@ -0,0 +1,29 @@
+-- Audience segments that narrow an announcement's scope (LifeGroups, pathway
+-- enrollees, first-timers, event registrants, hand-picked members)
+DO $$ BEGIN
+  CREATE TYPE "AnnouncementAudienceType" AS ENUM ('LIFEGROUP', 'PATHWAY', 'FIRST_TIMERS', 'EVENT', 'MEMBER');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "announcement_audiences" (
+  "id" TEXT NOT NULL,
+  "announcementId" TEXT NOT NULL,
+  "type" "AnnouncementAudienceType" NOT NULL,
+  "lifeGroupId" TEXT,
+  "pathwayId" TEXT,
+  "eventId" TEXT,
+  "userId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "announcement_audiences_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "announcement_audiences_announcementId_fkey" FOREIGN KEY ("announcementId") REFERENCES "announcements"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "announcement_audiences_lifeGroupId_fkey" FOREIGN KEY ("lifeGroupId") REFERENCES "life_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "announcement_audiences_pathwayId_fkey" FOREIGN KEY ("pathwayId") REFERENCES "pathways"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "announcement_audiences_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "announcement_audiences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "announcement_audiences_announcementId_idx" ON "announcement_audiences"("announcementId");
+CREATE INDEX IF NOT EXISTS "announcement_audiences_lifeGroupId_idx" ON "announcement_audiences"("lifeGroupId");
+CREATE INDEX IF NOT EXISTS "announcement_audiences_pathwayId_idx" ON "announcement_audiences"("pathwayId");
+CREATE INDEX IF NOT EXISTS "announcement_audiences_eventId_idx" ON "announcement_audiences"("eventId");
+CREATE INDEX IF NOT EXISTS "announcement_audiences_userId_idx" ON "announcement_audiences"("userId");
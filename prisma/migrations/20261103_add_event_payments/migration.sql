@@ -0,0 +1,74 @@
+-- Event payments: provider checkouts, offline payments, refunds and webhook
+-- idempotency, plus a payment deadline for unpaid GOING seats
+DO $$ BEGIN
+  CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'CANCELLED', 'PARTIALLY_REFUNDED', 'REFUNDED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "paymentWindowHours" INTEGER;
+ALTER TABLE "event_rsvps" ADD COLUMN IF NOT EXISTS "paymentDueAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "event_rsvps_status_hasPaid_paymentDueAt_idx" ON "event_rsvps"("status", "hasPaid", "paymentDueAt");
+
+CREATE TABLE IF NOT EXISTS "event_payments" (
+  "id" TEXT NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "rsvpId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "providerPaymentId" TEXT,
+  "amountCents" INTEGER NOT NULL,
+  "refundedCents" INTEGER NOT NULL DEFAULT 0,
+  "currency" TEXT NOT NULL,
+  "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+  "checkoutUrl" TEXT,
+  "reference" TEXT,
+  "failureReason" TEXT,
+  "paidAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "event_payments_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "event_payments_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "event_payments_rsvpId_fkey" FOREIGN KEY ("rsvpId") REFERENCES "event_rsvps"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "event_payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "event_payments_provider_providerPaymentId_key" ON "event_payments"("provider", "providerPaymentId");
+CREATE INDEX IF NOT EXISTS "event_payments_eventId_status_idx" ON "event_payments"("eventId", "status");
+CREATE INDEX IF NOT EXISTS "event_payments_rsvpId_idx" ON "event_payments"("rsvpId");
+CREATE INDEX IF NOT EXISTS "event_payments_userId_idx" ON "event_payments"("userId");
+
+CREATE TABLE IF NOT EXISTS "event_refunds" (
+  "id" TEXT NOT NULL,
+  "paymentId" TEXT NOT NULL,
+  "amountCents" INTEGER NOT NULL,
+  "reason" TEXT,
+  "providerRefundId" TEXT,
+  "issuedById" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "event_refunds_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "event_refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "event_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "event_refunds_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "event_refunds_paymentId_idx" ON "event_refunds"("paymentId");
+
+CREATE TABLE IF NOT EXISTS "payment_webhook_events" (
+  "id" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "providerEventId" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "payment_webhook_events_provider_providerEventId_key" ON "payment_webhook_events"("provider", "providerEventId");
+
+-- RSVPs an admin marked as paid by hand become offline payments, so they
+-- show up in reconciliation
+INSERT INTO "event_payments" ("id", "eventId", "rsvpId", "userId", "provider", "amountCents", "currency", "status", "reference", "paidAt", "updatedAt")
+SELECT gen_random_uuid()::text, r."eventId", r."id", r."userId", 'offline', ROUND(COALESCE(e."feeAmount", 0) * 100)::integer, 'PHP', 'SUCCEEDED', 'Marked paid before online payments', r."updatedAt", CURRENT_TIMESTAMP
+FROM "event_rsvps" r
+JOIN "events" e ON e."id" = r."eventId"
+WHERE r."hasPaid" = true
+  AND NOT EXISTS (SELECT 1 FROM "event_payments" p WHERE p."rsvpId" = r."id");
@@ -0,0 +1,14 @@
+-- Visitors recorded at LifeGroup meetings who are not members of the group
+CREATE TABLE IF NOT EXISTS "life_group_visitors" (
+  "id" TEXT NOT NULL,
+  "sessionId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "email" TEXT,
+  "phone" TEXT,
+  "notes" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "life_group_visitors_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "life_group_visitors_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "life_group_attendance_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "life_group_visitors_sessionId_idx" ON "life_group_visitors"("sessionId");
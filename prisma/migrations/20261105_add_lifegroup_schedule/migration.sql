@@ -0,0 +1,30 @@
+-- LifeGroup meeting schedule, location, audience and language for discovery
+DO $$ BEGIN
+  CREATE TYPE "MeetingDay" AS ENUM ('SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "MeetingFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "MeetingMode" AS ENUM ('IN_PERSON', 'ONLINE', 'HYBRID');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "LifeGroupAudience" AS ENUM ('MEN', 'WOMEN', 'YOUTH', 'COUPLES');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "meetingDay" "MeetingDay";
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "meetingTime" TEXT;
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "meetingFrequency" "MeetingFrequency" NOT NULL DEFAULT 'WEEKLY';
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "meetingMode" "MeetingMode" NOT NULL DEFAULT 'IN_PERSON';
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "location" TEXT;
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "latitude" DOUBLE PRECISION;
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "longitude" DOUBLE PRECISION;
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "audienceTags" "LifeGroupAudience"[] DEFAULT ARRAY[]::"LifeGroupAudience"[];
+ALTER TABLE "life_groups" ADD COLUMN IF NOT EXISTS "language" TEXT;
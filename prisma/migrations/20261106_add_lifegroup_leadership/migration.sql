@@ -0,0 +1,20 @@
+-- LifeGroup co-leaders and apprentices, and the lineage of multiplied groups
+DO $$ BEGIN
+  CREATE TYPE "LifeGroupRole" AS ENUM ('MEMBER', 'APPRENTICE', 'CO_LEADER');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "life_group_memberships"
+  ADD COLUMN IF NOT EXISTS "role" "LifeGroupRole" NOT NULL DEFAULT 'MEMBER';
+
+ALTER TABLE "life_groups"
+  ADD COLUMN IF NOT EXISTS "parentId" TEXT,
+  ADD COLUMN IF NOT EXISTS "multipliedAt" TIMESTAMP(3);
+
+DO $$ BEGIN
+  ALTER TABLE "life_groups"
+    ADD CONSTRAINT "life_groups_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "life_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "life_groups_parentId_idx" ON "life_groups"("parentId");
@@ -0,0 +1,32 @@
+-- Inter-church member transfer requests
+ALTER TYPE "NotificationCategory" ADD VALUE IF NOT EXISTS 'MEMBERSHIP';
+
+DO $$ BEGIN
+  CREATE TYPE "TransferStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "member_transfers" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "fromChurchId" TEXT NOT NULL,
+  "toChurchId" TEXT NOT NULL,
+  "status" "TransferStatus" NOT NULL DEFAULT 'PENDING',
+  "reason" TEXT,
+  "requestedById" TEXT,
+  "decidedById" TEXT,
+  "decisionNote" TEXT,
+  "decidedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "member_transfers_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "member_transfers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "member_transfers_fromChurchId_fkey" FOREIGN KEY ("fromChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "member_transfers_toChurchId_fkey" FOREIGN KEY ("toChurchId") REFERENCES "local_churches"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "member_transfers_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+  CONSTRAINT "member_transfers_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "member_transfers_userId_status_idx" ON "member_transfers"("userId", "status");
+CREATE INDEX IF NOT EXISTS "member_transfers_fromChurchId_status_idx" ON "member_transfers"("fromChurchId", "status");
+CREATE INDEX IF NOT EXISTS "member_transfers_toChurchId_status_idx" ON "member_transfers"("toChurchId", "status");
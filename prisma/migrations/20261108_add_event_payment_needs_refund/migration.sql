@@ -0,0 +1,2 @@
+-- Flags payments that settled after their seat was released, so admins refund them
+ALTER TABLE "event_payments" ADD COLUMN IF NOT EXISTS "needsRefund" BOOLEAN NOT NULL DEFAULT false;
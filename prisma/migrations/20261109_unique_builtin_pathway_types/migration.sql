@@ -0,0 +1,2 @@
+-- Only custom pathways may repeat; a church keeps a single ROOTS, VINES and RETREAT pathway
+CREATE UNIQUE INDEX IF NOT EXISTS "pathways_tenantId_type_builtin_key" ON "pathways"("tenantId", "type") WHERE "type" <> 'CUSTOM';
@@ -273,6 +273,13 @@ async function main() {
       capacity: 12,
       leaderId: leader1.id,
       localChurchId: localChurch1.id,
+      meetingDay: 'FRIDAY',
+      meetingTime: '19:00',
+      location: 'Ayala Ave, Makati City',
+      latitude: 14.5547,
+      longitude: 121.0244,
+      audienceTags: ['YOUTH'],
+      language: 'English',
     },
   })
 
@@ -284,6 +291,13 @@ async function main() {
       capacity: 10,
       leaderId: leader1.id,
       localChurchId: localChurch1.id,
+      meetingDay: 'SATURDAY',
+      meetingTime: '18:00',
+      meetingFrequency: 'BIWEEKLY',
+      meetingMode: 'HYBRID',
+      location: 'Bonifacio Global City, Taguig',
+      audienceTags: ['COUPLES'],
+      language: 'Tagalog',
     },
   })
 
@@ -295,6 +309,10 @@ async function main() {
       capacity: 15,
       leaderId: leader2.id,
       localChurchId: localChurch2.id,
+      meetingDay: 'WEDNESDAY',
+      meetingTime: '19:30',
+      meetingMode: 'ONLINE',
+      language: 'English',
     },
   })
 
@@ -306,6 +324,12 @@ async function main() {
       capacity: 8,
       leaderId: leader2.id,
       localChurchId: localChurch2.id,
+      meetingDay: 'TUESDAY',
+      meetingTime: '19:00',
+      location: 'IT Park, Cebu City',
+      latitude: 10.3304,
+      longitude: 123.9057,
+      language: 'Cebuano',
     },
   })
 
@@ -383,6 +407,7 @@ async function main() {
   const service1 = await prisma.service.create({
     data: {
       id: 'service_manila_today',
+      name: 'Sunday Service',
       date: today,
       localChurchId: localChurch1.id,
     },
@@ -391,6 +416,7 @@ async function main() {
   const service2 = await prisma.service.create({
     data: {
       id: 'service_cebu_today',
+      name: 'Sunday Service',
       date: today,
       localChurchId: localChurch2.id,
     },
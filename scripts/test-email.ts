@@ -1,10 +1,10 @@
 #!/usr/bin/env npx tsx
 /**
- * Simple script to test Resend email integration
+ * Simple script to test the configured email transport
  * Usage: npm run test-email -- your@email.com
  */
 
-import { sendPasswordResetEmail } from '../lib/email'
+import { getEmailTransport, sendPasswordResetEmail } from '../lib/email'
 
 async function testEmail() {
   const testEmail = process.argv[2]
@@ -15,19 +15,21 @@ async function testEmail() {
     process.exit(1)
   }
 
-  console.log('🧪 Testing Resend email integration...')
-  console.log(`📧 Sending test email to: ${testEmail}`)
-  
-  if (!process.env.RESEND_API_KEY) {
-    console.error('❌ RESEND_API_KEY not found in environment variables')
-    console.log('Please add RESEND_API_KEY to your .env.local file')
+  const transport = getEmailTransport()
+  if (!transport) {
+    console.error('❌ No email transport configured')
+    console.log('Set RESEND_API_KEY, SMTP_URL or EMAIL_TRANSPORT in your .env.local file')
     process.exit(1)
   }
 
+  console.log(`🧪 Testing ${transport.name} email transport...`)
+  console.log(`📧 Sending test email to: ${testEmail}`)
+
   const result = await sendPasswordResetEmail(
     testEmail,
     'Test User',
-    'TempPassword123!'
+    `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/auth/reset-password?token=test-token`,
+    { expiresInMinutes: 60 }
   )
 
   if (result.success) {
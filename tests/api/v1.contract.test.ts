@@ -0,0 +1,569 @@
+/**
+ * Contract tests for the /api/v1 surface.
+ * Calls the real route handlers with Prisma mocked and validates every
+ * response body against openapi/drouple.v1.yaml.
+ */
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { parse } from 'yaml'
+import Ajv from 'ajv'
+import addFormats from 'ajv-formats'
+import bcrypt from 'bcryptjs'
+import { NextRequest } from 'next/server'
+import { UserRole, RsvpStatus, EventScope } from '@prisma/client'
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn().mockResolvedValue(null)
+}))
+
+vi.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    user: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+    },
+    event: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+    },
+    eventRsvp: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    service: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    checkin: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    auditLog: {
+      create: vi.fn(),
+    },
+    pathway: {
+      findFirst: vi.fn(),
+    },
+    pathwayEnrollment: {
+      create: vi.fn(),
+    },
+    keyValue: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    deviceToken: {
+      upsert: vi.fn(),
+    },
+    localChurch: {
+      findMany: vi.fn(),
+    },
+  }
+  prisma.$transaction = vi.fn((fn: (tx: unknown) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+import { prisma } from '@/lib/prisma'
+import { issueTokenPair } from '@/lib/api/tokens'
+import { POST as login } from '@/app/api/v1/auth/login/route'
+import { POST as refresh } from '@/app/api/v1/auth/refresh/route'
+import { POST as logout } from '@/app/api/v1/auth/logout/route'
+import { GET as searchMembers } from '@/app/api/v1/members/search/route'
+import { GET as listEvents } from '@/app/api/v1/events/route'
+import { GET as getEvent } from '@/app/api/v1/events/[id]/route'
+import { POST as rsvp } from '@/app/api/v1/events/[id]/rsvp/route'
+import { POST as createCheckin } from '@/app/api/v1/checkins/route'
+import { POST as bulkCheckins } from '@/app/api/v1/checkins/bulk/route'
+import { GET as syncMembers } from '@/app/api/v1/sync/members/route'
+import { GET as syncEvents } from '@/app/api/v1/sync/events/route'
+import { POST as registerDevice } from '@/app/api/v1/devices/route'
+import { GET as serviceCounts } from '@/app/api/v1/live/service-counts/route'
+
+const db = prisma as any
+const BASE_URL = 'http://localhost:3000/api/v1'
+
+// OpenAPI 3.0 -> JSON Schema: inline $refs, translate `nullable`, drop `example`
+function toJsonSchema(node: any, spec: any): any {
+  if (Array.isArray(node)) return node.map(item => toJsonSchema(item, spec))
+  if (!node || typeof node !== 'object') return node
+
+  if (node.$ref) {
+    const target = node.$ref.replace('#/', '').split('/').reduce((acc: any, key: string) => acc[key], spec)
+    return toJsonSchema(target, spec)
+  }
+
+  const schema: any = {}
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'example' || key === 'nullable') continue
+    schema[key] = toJsonSchema(value, spec)
+  }
+  if (node.nullable && typeof node.type === 'string') {
+    schema.type = [node.type, 'null']
+  }
+  return schema
+}
+
+let spec: any
+const ajv = new Ajv({ allErrors: true, strict: false })
+addFormats(ajv)
+
+function expectMatchesContract(
+  route: string,
+  method: 'get' | 'post',
+  status: number,
+  body: unknown
+) {
+  const response = spec.paths[route][method].responses[String(status)]
+  const schema = response
+    ? response.content['application/json'].schema
+    : spec.components.schemas.Error
+  const validate = ajv.compile(toJsonSchema(schema, spec))
+  const valid = validate(body)
+  expect(validate.errors ?? [], `${method.toUpperCase()} ${route} ${status}`).toEqual([])
+  expect(valid).toBe(true)
+}
+
+function expectEnvelope(body: any) {
+  expect(body).toEqual(expect.objectContaining({
+    ok: expect.any(Boolean),
+    code: expect.any(String),
+    message: expect.any(String),
+    meta: { traceId: expect.any(String) },
+  }))
+  expect(body).toHaveProperty('data')
+}
+
+function request(url: string, init: { method?: string; body?: unknown; token?: string } = {}) {
+  const headers: Record<string, string> = { 'content-type': 'application/json' }
+  if (init.token) headers.authorization = `Bearer ${init.token}`
+  return new NextRequest(`${BASE_URL}${url}`, {
+    method: init.method ?? 'GET',
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  })
+}
+
+function segment<P>(params: P = {} as P) {
+  return { params: Promise.resolve(params) }
+}
+
+const member = {
+  id: 'user-1',
+  email: 'member@church.test',
+  name: 'Member One',
+  role: UserRole.MEMBER,
+  tenantId: 'church-a',
+}
+
+const sampleEvent = {
+  id: 'event-1',
+  name: 'Youth Night',
+  description: null,
+  startDateTime: new Date('2025-03-01T10:00:00Z'),
+  endDateTime: new Date('2025-03-01T12:00:00Z'),
+  capacity: 50,
+  _count: { rsvps: 12 },
+  rsvps: [{ status: RsvpStatus.GOING }],
+}
+
+describe('API v1 contract (openapi/drouple.v1.yaml)', () => {
+  let accessToken: string
+
+  beforeAll(() => {
+    process.env.AUTH_SECRET = 'contract-test-secret-contract-test-secret'
+    spec = parse(readFileSync(path.resolve(__dirname, '../../openapi/drouple.v1.yaml'), 'utf8'))
+  })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    db.keyValue.findUnique.mockResolvedValue(null)
+    accessToken = (await issueTokenPair(member)).accessToken
+  })
+
+  describe('authentication', () => {
+    it('POST /auth/login returns user and token pair', async () => {
+      db.user.findFirst.mockResolvedValue({
+        ...member,
+        role: UserRole.ADMIN,
+        passwordHash: await bcrypt.hash('Password123!', 4),
+        memberships: [{ localChurchId: 'church-a' }],
+      })
+
+      const res = await login(request('/auth/login', {
+        method: 'POST',
+        body: { email: member.email, password: 'Password123!' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('X-API-Version')).toBe('1.0.0')
+      expectEnvelope(body)
+      expectMatchesContract('/auth/login', 'post', 200, body)
+      expect(body.data.user.role).toBe('CHURCH_ADMIN')
+      expect(body.data.user.tenantId).toBe('church-a')
+    })
+
+    it('POST /auth/login rejects bad credentials with the Error schema', async () => {
+      db.user.findFirst.mockResolvedValue(null)
+
+      const res = await login(request('/auth/login', {
+        method: 'POST',
+        body: { email: 'nobody@church.test', password: 'wrong' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expectEnvelope(body)
+      expectMatchesContract('/auth/login', 'post', 401, body)
+      expect(body.code).toBe('UNAUTHORIZED')
+    })
+
+    it('POST /auth/login asks enrolled users for a two-factor code', async () => {
+      db.user.findFirst.mockResolvedValue({
+        ...member,
+        role: UserRole.ADMIN,
+        passwordHash: await bcrypt.hash('Password123!', 4),
+        twoFactorEnabled: true,
+        twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+        memberships: [{ localChurchId: 'church-a' }],
+      })
+
+      const res = await login(request('/auth/login', {
+        method: 'POST',
+        body: { email: member.email, password: 'Password123!' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expectMatchesContract('/auth/login', 'post', 401, body)
+      expect(body.data.details.reason).toBe('TWO_FACTOR_REQUIRED')
+    })
+
+    it('POST /auth/login refuses inactive members like the refresh route does', async () => {
+      db.user.findFirst.mockResolvedValue({
+        ...member,
+        memberStatus: 'INACTIVE',
+        passwordHash: await bcrypt.hash('Password123!', 4),
+        memberships: [{ localChurchId: 'church-a' }],
+      })
+
+      const res = await login(request('/auth/login', {
+        method: 'POST',
+        body: { email: member.email, password: 'Password123!' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expectMatchesContract('/auth/login', 'post', 401, body)
+      expect(body.code).toBe('INVALID_TOKEN')
+    })
+
+    it('POST /auth/login refuses admins who have not set up two-factor authentication', async () => {
+      const originalValue = process.env.ENABLE_2FA
+      process.env.ENABLE_2FA = 'true'
+      db.user.findFirst.mockResolvedValue({
+        ...member,
+        role: UserRole.ADMIN,
+        passwordHash: await bcrypt.hash('Password123!', 4),
+        twoFactorEnabled: false,
+        memberships: [{ localChurchId: 'church-a' }],
+      })
+
+      const res = await login(request('/auth/login', {
+        method: 'POST',
+        body: { email: member.email, password: 'Password123!' },
+      }), segment())
+      const body = await res.json()
+
+      if (originalValue) process.env.ENABLE_2FA = originalValue
+      else delete process.env.ENABLE_2FA
+
+      expect(res.status).toBe(403)
+      expectMatchesContract('/auth/login', 'post', 403, body)
+      expect(body.data.details.reason).toBe('TWO_FACTOR_ENROLLMENT_REQUIRED')
+    })
+
+    it('POST /auth/refresh rotates the refresh token', async () => {
+      const { refreshToken } = await issueTokenPair(member)
+      db.user.findUnique.mockResolvedValue({ ...member, memberStatus: 'ACTIVE', memberships: [] })
+
+      const res = await refresh(request('/auth/refresh', {
+        method: 'POST',
+        body: { refreshToken },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/auth/refresh', 'post', 200, body)
+      expect(body.data.refreshToken).not.toBe(refreshToken)
+      expect(db.keyValue.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { key: expect.stringMatching(/^api:revoked-jti:/) },
+      }))
+    })
+
+    it('POST /auth/refresh refuses an access token', async () => {
+      const res = await refresh(request('/auth/refresh', {
+        method: 'POST',
+        body: { refreshToken: accessToken },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expect(body.code).toBe('INVALID_TOKEN')
+    })
+
+    it('POST /auth/logout revokes the access token', async () => {
+      const res = await logout(request('/auth/logout', { method: 'POST', token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/auth/logout', 'post', 200, body)
+      expect(body.code).toBe('LOGOUT_SUCCESS')
+      expect(db.keyValue.upsert).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects revoked tokens', async () => {
+      db.keyValue.findUnique.mockResolvedValue({ key: 'revoked', value: '' })
+
+      const res = await listEvents(request('/events', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expect(body.code).toBe('INVALID_TOKEN')
+    })
+
+    it('rejects requests without credentials', async () => {
+      const res = await searchMembers(request('/members/search'), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(401)
+      expectEnvelope(body)
+      expectMatchesContract('/members/search', 'get', 401, body)
+    })
+  })
+
+  describe('members', () => {
+    it('GET /members/search is scoped to the caller tenant', async () => {
+      db.user.findMany.mockResolvedValue([member])
+      db.user.count.mockResolvedValue(1)
+
+      const res = await searchMembers(request('/members/search?q=mem&limit=5', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/members/search', 'get', 200, body)
+      expect(body.data.total).toBe(1)
+
+      const where = db.user.findMany.mock.calls[0][0].where
+      expect(where.tenantId).toBe('church-a')
+      expect(where.profileVisibility).toEqual({ not: 'PRIVATE' })
+      expect(db.user.findMany.mock.calls[0][0].take).toBe(5)
+    })
+
+    it('GET /sync/members returns a delta with lastSync', async () => {
+      db.user.findMany.mockResolvedValue([member])
+
+      const res = await syncMembers(request('/sync/members?updatedAfter=2025-01-01T00:00:00Z', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/sync/members', 'get', 200, body)
+      expect(db.user.findMany.mock.calls[0][0].where.tenantId).toBe('church-a')
+    })
+
+    it('GET /sync/members requires updatedAfter', async () => {
+      const res = await syncMembers(request('/sync/members', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(body.code).toBe('VALIDATION_ERROR')
+    })
+  })
+
+  describe('events', () => {
+    it('GET /events lists visible events', async () => {
+      db.event.findMany.mockResolvedValue([sampleEvent])
+      db.event.count.mockResolvedValue(1)
+
+      const res = await listEvents(request('/events', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/events', 'get', 200, body)
+      expect(body.data.events[0]).toMatchObject({
+        title: 'Youth Night',
+        currentAttendees: 12,
+        rsvpStatus: 'ATTENDING',
+      })
+
+      const where = db.event.findMany.mock.calls[0][0].where
+      expect(where.AND[1].OR).toContainEqual({ scope: EventScope.WHOLE_CHURCH })
+      expect(where.AND[1].OR).toContainEqual({ scope: EventScope.LOCAL_CHURCH, localChurchId: 'church-a' })
+    })
+
+    it('GET /events/{id} returns NOT_FOUND outside the tenant', async () => {
+      db.event.findFirst.mockResolvedValue(null)
+
+      const res = await getEvent(request('/events/event-x', { token: accessToken }), segment({ id: 'event-x' }))
+      const body = await res.json()
+
+      expect(res.status).toBe(404)
+      expectMatchesContract('/events/{id}', 'get', 404, body)
+    })
+
+    it('GET /events/{id} returns event details', async () => {
+      db.event.findFirst.mockResolvedValue({ ...sampleEvent, rsvps: [] })
+
+      const res = await getEvent(request('/events/event-1', { token: accessToken }), segment({ id: 'event-1' }))
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/events/{id}', 'get', 200, body)
+      expect(body.data.event.rsvpStatus).toBeNull()
+    })
+
+    it('POST /events/{id}/rsvp waitlists when the event is full', async () => {
+      db.event.findFirst.mockResolvedValue({ id: 'event-1', capacity: 1 })
+      db.eventRsvp.findUnique.mockResolvedValue(null)
+      db.eventRsvp.count.mockResolvedValue(1)
+      db.eventRsvp.create.mockResolvedValue({ id: 'rsvp-1', status: RsvpStatus.WAITLIST })
+
+      const res = await rsvp(request('/events/event-1/rsvp', {
+        method: 'POST',
+        token: accessToken,
+        body: { status: 'ATTENDING' },
+      }), segment({ id: 'event-1' }))
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/events/{id}/rsvp', 'post', 200, body)
+      expect(body.data.rsvp.status).toBe('WAITLIST')
+    })
+
+    it('POST /events/{id}/rsvp NOT_ATTENDING promotes the first waitlisted person', async () => {
+      db.event.findFirst.mockResolvedValue({ id: 'event-1', capacity: 1 })
+      db.eventRsvp.findUnique.mockResolvedValue({ id: 'rsvp-1', status: RsvpStatus.GOING })
+      db.eventRsvp.findFirst.mockResolvedValue({ id: 'rsvp-2', status: RsvpStatus.WAITLIST })
+
+      const res = await rsvp(request('/events/event-1/rsvp', {
+        method: 'POST',
+        token: accessToken,
+        body: { status: 'NOT_ATTENDING' },
+      }), segment({ id: 'event-1' }))
+
+      expect(res.status).toBe(200)
+      expect(db.eventRsvp.update).toHaveBeenCalledWith({
+        where: { id: 'rsvp-2' },
+        data: { status: RsvpStatus.GOING },
+      })
+    })
+
+    it('GET /sync/events returns a delta with lastSync', async () => {
+      db.event.findMany.mockResolvedValue([sampleEvent])
+
+      const res = await syncEvents(request('/sync/events?updatedAfter=2025-01-01T00:00:00Z', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/sync/events', 'get', 200, body)
+    })
+  })
+
+  describe('check-ins', () => {
+    it('POST /checkins creates a check-in in the caller tenant', async () => {
+      db.service.findFirst.mockResolvedValue({ id: 'service-1', localChurchId: 'church-a' })
+      db.checkin.findUnique.mockResolvedValue(null)
+      db.checkin.create.mockResolvedValue({
+        id: 'checkin-1',
+        serviceId: 'service-1',
+        userId: member.id,
+        isNewBeliever: false,
+        checkedInAt: new Date(),
+      })
+
+      const res = await createCheckin(request('/checkins', {
+        method: 'POST',
+        token: accessToken,
+        body: { serviceId: 'service-1' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(201)
+      expectMatchesContract('/checkins', 'post', 201, body)
+      expect(db.service.findFirst.mock.calls[0][0].where).toEqual({
+        id: 'service-1',
+        localChurchId: 'church-a',
+      })
+    })
+
+    it('POST /checkins/bulk reports created, duplicate and failed items', async () => {
+      db.service.findFirst
+        .mockResolvedValueOnce({ id: 'service-1', localChurchId: 'church-a' })
+        .mockResolvedValueOnce({ id: 'service-2', localChurchId: 'church-a' })
+        .mockResolvedValueOnce(null)
+      db.checkin.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'existing' })
+      db.checkin.create.mockResolvedValue({ id: 'checkin-1', checkedInAt: new Date() })
+
+      const res = await bulkCheckins(request('/checkins/bulk', {
+        method: 'POST',
+        token: accessToken,
+        body: {
+          checkins: [
+            { serviceId: 'service-1', timestamp: '2025-01-05T10:00:00Z' },
+            { serviceId: 'service-2', timestamp: '2025-01-12T10:00:00Z' },
+            { serviceId: 'service-other-church', timestamp: '2025-01-19T10:00:00Z' },
+          ],
+        },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(201)
+      expectMatchesContract('/checkins/bulk', 'post', 201, body)
+      expect(body.data).toMatchObject({ created: 1, duplicates: 1, failed: 1 })
+      expect(body.data.errors[0]).toMatchObject({ index: 2, code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('devices and live counts', () => {
+    it('POST /devices registers a push token', async () => {
+      const res = await registerDevice(request('/devices', {
+        method: 'POST',
+        token: accessToken,
+        body: { token: 'ExponentPushToken[abc]', platform: 'ios' },
+      }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/devices', 'post', 200, body)
+      expect(db.deviceToken.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { token: 'ExponentPushToken[abc]' },
+        create: expect.objectContaining({ userId: member.id, platform: 'IOS', localChurchId: 'church-a' }),
+      }))
+    })
+
+    it('GET /live/service-counts maps service ids to check-in counts', async () => {
+      db.service.findMany.mockResolvedValue([
+        { id: 'service-1', _count: { checkins: 45 } },
+        { id: 'service-2', _count: { checkins: 23 } },
+      ])
+
+      const res = await serviceCounts(request('/live/service-counts', { token: accessToken }), segment())
+      const body = await res.json()
+
+      expect(res.status).toBe(200)
+      expectMatchesContract('/live/service-counts', 'get', 200, body)
+      expect(body.data.counts).toEqual({ 'service-1': 45, 'service-2': 23 })
+      expect(db.service.findMany.mock.calls[0][0].where.localChurchId).toBe('church-a')
+    })
+  })
+})
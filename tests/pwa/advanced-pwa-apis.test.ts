@@ -3,6 +3,7 @@ import { renderHook, act } from '@testing-library/react'
 import { useNativeFileSystem } from '@/hooks/use-native-file-system'
 import { usePaymentRequest } from '@/hooks/use-payment-request'
 import { useAdvancedPWA } from '@/hooks/use-advanced-pwa'
+import { confirmEventPayment, startEventPayment } from '@/app/events/actions'
 
 // Mock DOM APIs
 const mockShowSaveFilePicker = vi.fn()
@@ -61,6 +62,12 @@ vi.mock('@/hooks/use-haptic', () => ({
   })
 }))
 
+// Mock event payment server actions
+vi.mock('@/app/events/actions', () => ({
+  startEventPayment: vi.fn(),
+  confirmEventPayment: vi.fn()
+}))
+
 describe('Advanced PWA APIs', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -343,6 +350,36 @@ describe('Advanced PWA APIs', () => {
         })
       )
     })
+
+    it('pays for an event seat through the payment sheet', async () => {
+      const complete = vi.fn()
+      mockPaymentRequest.mockImplementation(() => ({
+        canMakePayment: vi.fn().mockResolvedValue(true),
+        show: vi.fn().mockResolvedValue({ methodName: 'basic-card', details: { cardNumber: '4242' }, complete })
+      }))
+      vi.mocked(startEventPayment).mockResolvedValue({
+        success: true,
+        data: { paymentId: 'pay1', checkoutUrl: '/checkout', eventName: 'Retreat', amount: 500, currency: 'PHP' }
+      })
+      vi.mocked(confirmEventPayment).mockResolvedValue({ success: true, data: { status: 'succeeded' } })
+
+      const { result } = renderHook(() => usePaymentRequest())
+
+      await act(async () => {
+        const paymentResult = await result.current.payForEvent('event1')
+        expect(paymentResult.success).toBe(true)
+      })
+
+      expect(mockPaymentRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          total: expect.objectContaining({ amount: { currency: 'PHP', value: '500.00' } })
+        }),
+        expect.anything()
+      )
+      expect(confirmEventPayment).toHaveBeenCalledWith('pay1', { methodName: 'basic-card', details: { cardNumber: '4242' } })
+      expect(complete).toHaveBeenCalledWith('success')
+    })
   })
 
   describe('useAdvancedPWA', () => {
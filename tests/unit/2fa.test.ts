@@ -1,7 +1,31 @@
-import { describe, it, expect } from 'vitest'
-import { generate2FASecret, verify2FAToken, is2FARequired, is2FAEnabled } from '@/lib/2fa'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  generate2FASecret,
+  verify2FAToken,
+  is2FARequired,
+  is2FAEnabled,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTOTPFormat,
+  needs2FAEnrollment
+} from '@/lib/2fa'
 import { authenticator } from 'otplib'
 
+vi.mock('@/lib/rbac', () => ({
+  getCurrentUser: vi.fn()
+}))
+
+vi.mock('next/navigation', () => ({
+  redirect: vi.fn(() => {
+    throw new Error('NEXT_REDIRECT')
+  })
+}))
+
+// Import layouts after mocks
+import { getCurrentUser } from '@/lib/rbac'
+import { redirect } from 'next/navigation'
+import DashboardLayout from '@/app/dashboard/layout'
+
 describe('Two-Factor Authentication', () => {
   describe('generate2FASecret', () => {
     it('should generate a valid secret', () => {
@@ -102,4 +126,64 @@ describe('Two-Factor Authentication', () => {
       if (originalValue) process.env.ENABLE_2FA = originalValue
     })
   })
-})
\ No newline at end of file
+
+  describe('recovery codes', () => {
+    it('should generate ten unique formatted codes', () => {
+      const codes = generateRecoveryCodes()
+      expect(codes).toHaveLength(10)
+      expect(new Set(codes).size).toBe(10)
+      codes.forEach(code => expect(code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/))
+    })
+
+    it('should hash codes independently of case, spaces and dashes', () => {
+      const [code] = generateRecoveryCodes(1)
+      const loose = ` ${code.replace('-', '').toLowerCase()} `
+
+      expect(hashRecoveryCode(loose)).toBe(hashRecoveryCode(code))
+      expect(hashRecoveryCode(code)).not.toContain(code)
+    })
+
+    it('should distinguish TOTP codes from recovery codes', () => {
+      expect(isTOTPFormat('123 456')).toBe(true)
+      expect(isTOTPFormat('ABCDE-FGHJK')).toBe(false)
+    })
+  })
+
+  describe('needs2FAEnrollment', () => {
+    it('should require enrollment only for unenrolled required roles when 2FA is on', () => {
+      const originalValue = process.env.ENABLE_2FA
+      process.env.ENABLE_2FA = 'true'
+
+      expect(needs2FAEnrollment({ role: 'ADMIN', twoFactorEnabled: false })).toBe(true)
+      expect(needs2FAEnrollment({ role: 'ADMIN', twoFactorEnabled: true })).toBe(false)
+      expect(needs2FAEnrollment({ role: 'MEMBER', twoFactorEnabled: false })).toBe(false)
+
+      process.env.ENABLE_2FA = 'false'
+      expect(needs2FAEnrollment({ role: 'PASTOR', twoFactorEnabled: false })).toBe(false)
+
+      // Restore
+      if (originalValue) process.env.ENABLE_2FA = originalValue
+      else delete process.env.ENABLE_2FA
+    })
+  })
+
+  describe('enrollment layout', () => {
+    it('should send an unenrolled ADMIN from /dashboard to 2FA enrollment', async () => {
+      const originalValue = process.env.ENABLE_2FA
+      process.env.ENABLE_2FA = 'true'
+      vi.mocked(getCurrentUser).mockResolvedValue({ role: 'ADMIN', twoFactorEnabled: false } as any)
+
+      await expect(DashboardLayout({ children: null })).rejects.toThrow('NEXT_REDIRECT')
+      expect(redirect).toHaveBeenCalledWith('/profile/2fa')
+
+      vi.mocked(redirect).mockClear()
+      vi.mocked(getCurrentUser).mockResolvedValue({ role: 'ADMIN', twoFactorEnabled: true } as any)
+      await DashboardLayout({ children: null })
+      expect(redirect).not.toHaveBeenCalled()
+
+      // Restore
+      if (originalValue) process.env.ENABLE_2FA = originalValue
+      else delete process.env.ENABLE_2FA
+    })
+  })
+})
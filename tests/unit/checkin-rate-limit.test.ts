@@ -26,6 +26,9 @@ vi.mock('@/lib/prisma', () => ({
     },
     pathwayEnrollment: {
       create: vi.fn()
+    },
+    auditLog: {
+      create: vi.fn()
     }
   }
 }))
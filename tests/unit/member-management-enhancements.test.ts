@@ -54,6 +54,10 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn()
 }))
 
+vi.mock('@/lib/push/notifications', () => ({
+  notifyMemberTransfer: vi.fn()
+}))
+
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 
@@ -181,14 +185,21 @@ describe('Member Management Enhancements', () => {
       mockPrisma.user.findUnique.mockResolvedValue(member)
 
       // Mock transaction
+      let mockTx: any
       const mockTransaction = vi.fn().mockImplementation(async (callback) => {
         const newMembership = { id: 'membership-new', userId: 'member-1', localChurchId: 'church-2' }
-        const mockTx = {
+        mockTx = {
           user: { update: vi.fn().mockResolvedValue({}) },
-          membership: { 
-            deleteMany: vi.fn().mockResolvedValue({}),
-            create: vi.fn().mockResolvedValue(newMembership)
+          membership: {
+            findUnique: vi.fn().mockResolvedValue({ id: 'membership-old', role: UserRole.MEMBER, isNewBeliever: false, leftAt: null }),
+            update: vi.fn().mockResolvedValue({}),
+            upsert: vi.fn().mockResolvedValue(newMembership)
           },
+          lifeGroup: { findMany: vi.fn().mockResolvedValue([]) },
+          lifeGroupMembership: { findMany: vi.fn().mockResolvedValue([]), updateMany: vi.fn() },
+          lifeGroupMemberRequest: { deleteMany: vi.fn() },
+          pathwayEnrollment: { findMany: vi.fn().mockResolvedValue([]) },
+          memberTransfer: { create: vi.fn().mockResolvedValue({ id: 'transfer-1' }) },
           auditLog: { create: vi.fn().mockResolvedValue({}) }
         }
         return await callback(mockTx)
@@ -199,6 +210,14 @@ describe('Member Management Enhancements', () => {
 
       expect(result.success).toBe(true)
       expect(mockTransaction).toHaveBeenCalledOnce()
+      // History at the old church is kept: the membership is closed, not deleted
+      expect(mockTx.membership.update).toHaveBeenCalledWith({
+        where: { id: 'membership-old' },
+        data: { leftAt: expect.any(Date) }
+      })
+      expect(mockTx.memberTransfer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'member-1', status: 'APPROVED' })
+      })
     })
 
     it('should prevent non-super admin from transferring churches', async () => {
@@ -53,6 +53,17 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn()
 }))
 
+vi.mock('@/lib/invitations', () => ({
+  sendInvitation: vi.fn().mockResolvedValue({
+    invitationId: 'invite-1',
+    expiresAt: new Date('2026-11-01T00:00:00Z'),
+    inviteUrl: 'https://drouple.app/auth/accept-invitation?token=invite-1.nonce.sig',
+    resent: false,
+    emailSent: true
+  }),
+  revokeInvitation: vi.fn()
+}))
+
 vi.mock('crypto', async (importOriginal) => {
   const actual = await importOriginal()
   return {
@@ -68,6 +79,7 @@ import { prisma } from '@/lib/prisma'
 import { redirect } from 'next/navigation'
 import { createChurch, updateChurch, archiveChurch } from '@/app/(super)/super/churches/actions'
 import { inviteAdmin } from '@/app/(super)/super/local-churches/[id]/admins/actions'
+import { sendInvitation } from '@/lib/invitations'
 
 describe('SUPER_ADMIN Server Actions Tests', () => {
   const mockSuperAdmin = {
@@ -196,7 +208,7 @@ describe('SUPER_ADMIN Server Actions Tests', () => {
       formData.set('name', 'New User')
       formData.set('role', UserRole.ADMIN)
 
-      await inviteAdmin('local-church-1', formData)
+      const result = await inviteAdmin('local-church-1', formData)
 
       expect(prisma.user.create).toHaveBeenCalledWith({
         data: {
@@ -204,11 +216,24 @@ describe('SUPER_ADMIN Server Actions Tests', () => {
           name: 'New User',
           role: UserRole.ADMIN,
           tenantId: 'church-1',
-          mustChangePassword: true,
-          passwordHash: expect.any(String)
+          mustChangePassword: false
         }
       })
 
+      expect(sendInvitation).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'new-user-1',
+        email: 'new@test.com',
+        localChurchId: 'local-church-1',
+        role: UserRole.ADMIN,
+        invitedBy: { id: 'super-user-1', name: mockSuperAdmin.name }
+      }))
+      expect(result.invitation).toEqual({
+        email: 'new@test.com',
+        emailSent: true,
+        inviteUrl: undefined,
+        expiresAt: new Date('2026-11-01T00:00:00Z')
+      })
+
       expect(prisma.membership.create).toHaveBeenCalledWith({
         data: {
           userId: 'new-user-1',
@@ -229,7 +254,7 @@ describe('SUPER_ADMIN Server Actions Tests', () => {
             email: 'new@test.com',
             role: UserRole.ADMIN,
             localChurchId: 'local-church-1',
-            passwordGenerated: true
+            invitationSent: true
           }
         }
       })